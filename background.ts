@@ -1,5 +1,75 @@
 // Background service worker for the extension
 
+import {
+  createAgentTab,
+  resolveAgentTabId,
+  openAgentTab,
+  switchAgentTab,
+  listAgentTabs,
+  closeAgentTab,
+  forgetAgentTab,
+  releaseAgentTabs,
+} from './lib/agent-tabs';
+import {
+  resolveInputBackend,
+  trustedClick,
+  trustedInsertText,
+  trustedPressKey,
+  detachTrustedInput,
+  handleDebuggerDetach,
+} from './lib/cdp-input';
+import { navigateAndWait, type NavigationResult } from './lib/navigation-waiter';
+import { getContentChunk } from './lib/page-content';
+import { harvestList, type HarvestDriver, type HarvestResult } from './lib/list-harvester';
+import { WORKFLOW_STREAM_PORT, attachWorkflowStreamPort, collectWorkflowRun } from './lib/workflow-stream';
+import { getRedactionPatterns, type RedactionKind } from './lib/redaction';
+import { bytesToBase64 } from './lib/file-upload';
+import { getDefaultVaultStore, hasVaultTokens, resolveVaultTokens } from './lib/credential-vault';
+import { GuardrailsSystem } from './lib/guardrails';
+import { getDefaultAuditStore } from './lib/audit-store';
+import { loadSettings } from './lib/settings-store';
+import {
+  getDefaultOriginGrantStore,
+  requiredAccess,
+  actionOrigin,
+  isBlankPage,
+  grantedAccess,
+  authorizeOriginAccess,
+  grantOriginAccess,
+  clearRunGrants,
+  describeMissingAccess,
+  SUBMIT_CANDIDATE_TOOLS,
+  ORIGIN_ACCESS_LEVELS,
+  type OriginPermissionRequest,
+} from './lib/origin-permissions';
+import {
+  getDefaultScheduleStore,
+  syncScheduleAlarm,
+  restoreScheduleAlarms,
+  runScheduledTask,
+  taskIdFromAlarm,
+  alarmNameForTask,
+  buildScheduledQuery,
+  validateSchedule,
+  type ScheduledTask,
+  type ScheduledRun,
+  type ScheduledRunnerDeps,
+} from './lib/scheduler';
+import {
+  getDefaultWatchStore,
+  syncWatchAlarm,
+  restoreWatchAlarms,
+  checkWatch,
+  createModelChangeJudge,
+  watchIdFromAlarm,
+  watchAlarmName,
+  formatDiff,
+  type PageWatch,
+  type WatchChange,
+  type WatchCheckDeps,
+} from './lib/page-watch';
+import type { DemonstrationEvent, RegionSnapshot } from './types';
+
 // __name polyfill for AI SDK compatibility in browser environment
 if (typeof globalThis !== 'undefined' && !globalThis.__name) {
   globalThis.__name = (target: any, name: string) => {
@@ -134,6 +204,340 @@ function recordTelemetry(event: Omit<TelemetryEvent, 'timestamp'>): void {
     event.error ? `Error: ${event.error}` : '');
 }
 
+// ============================================
+// Content script injection & frame routing
+// ============================================
+
+// Helper function to ensure content script is injected.
+// Frame 0 injects into all frames at once so same-page iframes are scriptable;
+// other frames (e.g. added after load) are injected individually.
+async function ensureContentScript(tabId: number, frameId = 0): Promise<void> {
+  try {
+    // Try to ping the content script
+    await chrome.tabs.sendMessage(tabId, { type: 'PING' }, { frameId });
+  } catch (error) {
+    try {
+      await chrome.scripting.executeScript({
+        target: frameId === 0 ? { tabId, allFrames: true } : { tabId, frameIds: [frameId] },
+        files: ['content.js']
+      });
+      // Wait a bit for the script to initialize
+      await new Promise(resolve => setTimeout(resolve, 200));
+    } catch (injectError) {
+      // allFrames injection fails as a whole if any frame is restricted;
+      // that's fine as long as the frame we need has a live script
+      try {
+        await chrome.tabs.sendMessage(tabId, { type: 'PING' }, { frameId });
+      } catch {
+        throw injectError;
+      }
+    }
+  }
+}
+
+// Refs from cross-origin frames are namespaced by frame id, e.g. "f12:e3"
+function parseFrameRef(value?: string): { frameId: number; ref: string } | null {
+  if (!value) return null;
+  const match = value.trim().match(/^\[?(?:ref=)?f(\d+):(e\d+)\]?$/);
+  return match ? { frameId: Number(match[1]), ref: match[2] } : null;
+}
+
+// Frames the top-level content script can't reach into: anything whose origin differs
+// from its parent's. about:blank/srcdoc frames inherit their parent's origin.
+async function getCrossOriginFrames(tabId: number): Promise<chrome.webNavigation.GetAllFrameResultDetails[]> {
+  const frames = (await chrome.webNavigation.getAllFrames({ tabId })) || [];
+  const framesById = new Map(frames.map(frame => [frame.frameId, frame]));
+
+  const effectiveOrigin = (frame: chrome.webNavigation.GetAllFrameResultDetails | undefined): string | null => {
+    while (frame && frame.url.startsWith('about:')) {
+      frame = framesById.get(frame.parentFrameId);
+    }
+    if (!frame) return null;
+    try {
+      return new URL(frame.url).origin;
+    } catch {
+      return null;
+    }
+  };
+
+  return frames.filter(frame => {
+    if (frame.frameId === 0 || !/^https?:/.test(frame.url)) return false;
+    return effectiveOrigin(frame) !== effectiveOrigin(framesById.get(frame.parentFrameId));
+  });
+}
+
+// Top-frame snapshot (which already inlines shadow roots and same-origin iframes)
+// plus one sub-snapshot per cross-origin frame, with refs prefixed for routing
+async function getFramedAxSnapshot(tabId: number, maxNodes?: number): Promise<any> {
+  await ensureContentScript(tabId);
+  const snapshot = await chrome.tabs.sendMessage(tabId, { type: 'GET_AX_SNAPSHOT', maxNodes }, { frameId: 0 });
+  if (!snapshot?.nodes) return snapshot;
+
+  let frames: chrome.webNavigation.GetAllFrameResultDetails[] = [];
+  try {
+    frames = await getCrossOriginFrames(tabId);
+  } catch (error) {
+    console.warn('⚠️ [Snapshot] Could not list frames:', error);
+  }
+
+  for (const frame of frames) {
+    const frameTag = `f${frame.frameId}`;
+    try {
+      await ensureContentScript(tabId, frame.frameId);
+      const frameSnapshot = await chrome.tabs.sendMessage(
+        tabId,
+        { type: 'GET_AX_SNAPSHOT', maxNodes, refPrefix: `${frameTag}:` },
+        { frameId: frame.frameId }
+      );
+      if (!frameSnapshot?.nodes?.length) continue;
+
+      const name = frameSnapshot.title || frame.url;
+      snapshot.nodes.push({ ref: frameTag, role: 'iframe', name, frame: frameTag, children: frameSnapshot.nodes });
+      const indented = frameSnapshot.text.split('\n').map((line: string) => `  ${line}`).join('\n');
+      snapshot.text += `\n- iframe "${name}" [frame=${frameTag}]\n${indented}`;
+      snapshot.refCount += frameSnapshot.refCount;
+      snapshot.session += `|${frameTag}:${frameSnapshot.session}`;
+      snapshot.truncated = snapshot.truncated || frameSnapshot.truncated;
+    } catch (error) {
+      console.warn(`⚠️ [Snapshot] Skipping frame ${frame.frameId} (${frame.url}):`, error);
+    }
+  }
+
+  return snapshot;
+}
+
+// Wait for the new document's DOM to stop changing (content script may not exist on restricted pages)
+async function waitForDomQuiet(tabId: number, quietMs: number, timeoutMs: number): Promise<boolean> {
+  try {
+    await ensureContentScript(tabId);
+    const response = await chrome.tabs.sendMessage(tabId, { type: 'WAIT_FOR_DOM_QUIET', quietMs, timeoutMs }, { frameId: 0 });
+    return response?.quiet !== false;
+  } catch {
+    return true;
+  }
+}
+
+// Shared by navigate/goBack/goForward/reload: trigger, wait for load + quiet period, record telemetry
+async function runNavigation(
+  toolName: string,
+  tabId: number,
+  trigger: () => Promise<unknown>,
+  params: any
+): Promise<NavigationResult> {
+  const result = await navigateAndWait(tabId, trigger, {
+    timeoutMs: params.timeout,
+    quietMs: params.quietMs,
+    waitForDomQuiet: (quietMs, timeoutMs) => waitForDomQuiet(tabId, quietMs, timeoutMs),
+  });
+  recordTelemetry({
+    toolName,
+    duration: result.timing.totalMs,
+    success: result.success,
+    error: result.error,
+    parameters: { url: params.url, finalUrl: result.url, status: result.status, redirects: result.redirects.length, tabId },
+    tabId
+  });
+  return result;
+}
+
+// Drive lib/list-harvester against the tab: collect and advance run in the content script,
+// "Next" links to other documents are followed here. Refs don't survive a navigation, so
+// the container is found again by the selector the first collect reported.
+async function harvestListInTab(tabId: number, params: any): Promise<HarvestResult & { success: boolean }> {
+  let ref: string | undefined = params.ref;
+  let selector: string | undefined = params.selector;
+  let loadMoreRef: string | undefined = params.loadMoreRef;
+  const visited = new Set<string>();
+
+  const driver: HarvestDriver = {
+    async collect() {
+      const result = await chrome.tabs.sendMessage(tabId, { type: 'HARVEST_COLLECT', ref, selector }, { frameId: 0 });
+      if (result?.selector) selector = result.selector;
+      return result ?? { success: false, error: 'No response from the page' };
+    },
+    async advance() {
+      const result = await chrome.tabs.sendMessage(tabId, {
+        type: 'HARVEST_ADVANCE',
+        ref,
+        selector,
+        loadMoreRef,
+        mode: params.mode,
+        waitMs: params.waitMs,
+      }, { frameId: 0 });
+      if (result?.action !== 'next-page' || !result.url) {
+        return result ?? { action: 'none', changed: false, error: 'No response from the page' };
+      }
+      if (visited.has(result.url)) {
+        return { action: 'none', changed: false };
+      }
+      visited.add(result.url);
+      const navigation = await runNavigation('harvestList', tabId, () => chrome.tabs.update(tabId, { url: result.url }), {});
+      ref = undefined;
+      loadMoreRef = undefined;
+      if (navigation.success) await ensureContentScript(tabId);
+      return { action: 'next-page', changed: navigation.success, url: navigation.url, error: navigation.success ? undefined : navigation.error };
+    },
+  };
+
+  const result = await harvestList(driver, {
+    maxItems: params.maxItems,
+    timeoutMs: params.timeoutMs,
+    maxIdleRounds: params.maxIdleRounds,
+  });
+  recordTelemetry({
+    toolName: 'harvestList',
+    duration: result.duration,
+    success: result.stoppedBecause !== 'error',
+    error: result.error,
+    parameters: { items: result.items.length, rounds: result.rounds, pages: result.pages, stoppedBecause: result.stoppedBecause, tabId },
+    tabId
+  });
+  return { ...result, success: result.stoppedBecause !== 'error' };
+}
+
+// Paint over text and field values matching the run's redaction kinds before the
+// screenshot goes to the model. A page the content script can't reach (chrome://, the
+// web store) is sent unmasked, as its text isn't redacted either.
+async function maskSensitiveRegions(tabId: number, screenshot: string, kinds: RedactionKind[]): Promise<{ screenshot: string; masked: number }> {
+  let found: { rects: Array<{ x: number; y: number; width: number; height: number }>; viewport: { width: number; height: number } } | undefined;
+  try {
+    await ensureContentScript(tabId);
+    found = await chrome.tabs.sendMessage(tabId, { type: 'FIND_SENSITIVE_RECTS', patterns: getRedactionPatterns(kinds) }, { frameId: 0 });
+  } catch (error) {
+    console.warn('⚠️ Could not look for sensitive regions, screenshot sent unmasked:', error);
+  }
+  if (!found?.rects?.length) return { screenshot, masked: 0 };
+
+  const bitmap = await createImageBitmap(await (await fetch(screenshot)).blob());
+  const scaleX = bitmap.width / found.viewport.width;
+  const scaleY = bitmap.height / found.viewport.height;
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const context = canvas.getContext('2d')!;
+  context.drawImage(bitmap, 0, 0);
+  context.fillStyle = '#000';
+  for (const rect of found.rects) {
+    context.fillRect(rect.x * scaleX, rect.y * scaleY, rect.width * scaleX, rect.height * scaleY);
+  }
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return { screenshot: `data:image/png;base64,${bytesToBase64(bytes)}`, masked: found.rects.length };
+}
+
+// Check a run's action against its grant for the site it acts on: the target URL for
+// navigate/openTab, otherwise the page (or cross-origin frame) the action lands in.
+// Returns the refusal (with what to grant when a grant would help), or null when the
+// action may go ahead. An action that can't be checked is refused.
+async function checkOriginPermission(
+  workflowRunId: string | undefined,
+  toolName: string,
+  params: any,
+  getTabId: () => Promise<number | null>
+): Promise<{ error: string; permissionRequired?: OriginPermissionRequest } | null> {
+  let required = requiredAccess(toolName, params);
+  if (!required) return null;
+
+  const store = getDefaultOriginGrantStore();
+  if ((await store.readSettings())?.enabled === false) return null;
+  if (!workflowRunId) {
+    return { error: `${toolName} acts on a site, so it can only run as part of a task` };
+  }
+
+  const targetUrl: string | undefined = toolName === 'navigate' || toolName === 'openTab'
+    ? params.url || params.target || params.href
+    : undefined;
+  let pageUrl = targetUrl;
+  let tabId: number | null = null;
+  const frameRef = parseFrameRef(params.ref || params.selector || params.target);
+  if (!targetUrl) {
+    tabId = await getTabId();
+    if (!tabId) {
+      return { error: `${toolName} has no tab to act on` };
+    }
+    const frame = frameRef
+      ? await chrome.webNavigation.getFrame({ tabId, frameId: frameRef.frameId }).catch(() => null)
+      : null;
+    pageUrl = frameRef ? frame?.url : (await chrome.tabs.get(tabId)).url;
+    if (required === 'read' && isBlankPage(pageUrl)) return null;
+  }
+  const origin = actionOrigin(pageUrl);
+  if (!origin) {
+    return { error: `${toolName} can only act on web pages; ${pageUrl || 'this page'} is not a site access can be granted for` };
+  }
+
+  const granted = await grantedAccess(store, workflowRunId, origin);
+  // A click or Enter that submits a form needs more than "interact"
+  if (required === 'interact' && granted !== 'submit' && tabId && SUBMIT_CANDIDATE_TOOLS.has(toolName)) {
+    const frameId = frameRef?.frameId ?? 0;
+    try {
+      await ensureContentScript(tabId, frameId);
+      const target = await chrome.tabs.sendMessage(tabId, {
+        type: 'DESCRIBE_ACTION_TARGET',
+        action: toolName.startsWith('press') ? 'press_key' : 'click',
+        ref: frameRef?.ref ?? params.ref,
+        selector: params.selector,
+        target: params.target,
+        coordinates: params.coordinates,
+        key: params.key,
+      }, { frameId });
+      // A target that can't be found or inspected might be the Pay button
+      if (!target?.success || target.submits) required = 'submit';
+    } catch (error) {
+      console.warn('⚠️ [Permissions] Could not inspect action target, treating it as a submit:', error);
+      required = 'submit';
+    }
+  }
+
+  if (await authorizeOriginAccess(store, workflowRunId, origin, required)) return null;
+  const missing: OriginPermissionRequest = { origin, access: required, toolName, granted };
+  return { error: describeMissingAccess(missing), permissionRequired: missing };
+}
+
+// Vault resolutions are audited here, where they are decrypted, so a fill that fails
+// afterwards and callers outside a workflow run are logged too
+const vaultAudit = new GuardrailsSystem('user');
+vaultAudit.setAuditSink(entry => {
+  getDefaultAuditStore().append(entry).catch(error => console.warn('⚠️ [Vault] Could not store audit entry:', error));
+});
+
+// Actions that can be replayed through the trusted (CDP) input backend
+const TRUSTED_INPUT_ACTIONS = new Set(['click', 'fill', 'press_key']);
+
+async function getInputBackendForTab(tabId: number) {
+  const [tab, settings] = await Promise.all([chrome.tabs.get(tabId), loadSettings()]);
+  return resolveInputBackend(tab.url, settings);
+}
+
+// Replay a click/fill/press_key through chrome.debugger. The content script only
+// locates the target; the events themselves come from the browser's input pipeline.
+async function executeTrustedAction(tabId: number, payload: any): Promise<any> {
+  if (payload.action === 'press_key') {
+    const key = payload.key || payload.value || payload.target || 'Enter';
+    await trustedPressKey(tabId, key);
+    return { success: true, message: `Pressed ${key}`, backend: 'cdp' };
+  }
+
+  let point = payload.coordinates;
+  let located: any = null;
+  if (payload.action === 'fill' || payload.ref || payload.selector || !point) {
+    located = await chrome.tabs.sendMessage(tabId, { ...payload, type: 'LOCATE_ELEMENT' }, { frameId: 0 });
+    if (!located?.success) {
+      return { success: false, error: located?.message || 'Element not found' };
+    }
+    point = { x: located.x, y: located.y };
+  }
+
+  await trustedClick(tabId, point.x, point.y);
+  if (payload.action === 'click') {
+    return { success: true, message: `Clicked at (${Math.round(point.x)}, ${Math.round(point.y)})`, element: located?.element, backend: 'cdp' };
+  }
+
+  // Whatever the synthetic fill left behind is replaced, not appended to
+  await chrome.tabs.sendMessage(tabId, { type: 'SELECT_FIELD_CONTENTS' }, { frameId: 0 }).catch(() => null);
+  const text = String(payload.value ?? '');
+  await trustedInsertText(tabId, text);
+  return { success: true, message: `Filled ${located?.element || 'element'} with text`, element: located?.element, backend: 'cdp' };
+}
+
 chrome.sidePanel
   .setPanelBehavior({ openPanelOnActionClick: true })
   .catch((error: Error) => console.error(error));
@@ -160,6 +564,60 @@ chrome.webNavigation.onCompleted.addListener((details) => {
   }
 });
 
+// Keep agent tab bookkeeping in sync when tabs are closed by the user or a tool
+chrome.tabs.onRemoved.addListener((tabId) => {
+  forgetAgentTab(tabId);
+  void detachTrustedInput(tabId);
+  void getDemonstrationTabId().then(recordingTabId => {
+    if (recordingTabId === tabId) void setDemonstrationTabId(null);
+  });
+});
+
+// Demonstration recording: the content script captures the user's actions on the page;
+// navigations are reported from here since the script is reloaded with each page.
+// The recording tab is kept in session storage to survive service worker restarts.
+const DEMONSTRATION_TAB_KEY = 'demonstrationTabId';
+
+async function getDemonstrationTabId(): Promise<number | null> {
+  const result = await chrome.storage.session.get(DEMONSTRATION_TAB_KEY);
+  return typeof result[DEMONSTRATION_TAB_KEY] === 'number' ? result[DEMONSTRATION_TAB_KEY] : null;
+}
+
+async function setDemonstrationTabId(tabId: number | null): Promise<void> {
+  if (tabId === null) {
+    await chrome.storage.session.remove(DEMONSTRATION_TAB_KEY);
+  } else {
+    await chrome.storage.session.set({ [DEMONSTRATION_TAB_KEY]: tabId });
+  }
+}
+
+chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+  if (!changeInfo.url) return;
+  void getDemonstrationTabId().then(recordingTabId => {
+    if (recordingTabId !== tabId) return;
+    const event: DemonstrationEvent = {
+      id: `demo_${Date.now()}_nav`,
+      type: 'navigate',
+      timestamp: Date.now(),
+      url: changeInfo.url!,
+      title: tab.title,
+    };
+    chrome.runtime.sendMessage({ type: 'DEMONSTRATION_EVENT', event }).catch(() => {
+      // Sidepanel closed; nothing is listening
+    });
+  });
+});
+
+// The user can cancel debugging from Chrome's infobar; forget the attachment
+chrome.debugger.onDetach.addListener(handleDebuggerDetach);
+
+// Sidepanel subscriptions to workflow run output (see lib/workflow-stream.ts)
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name === WORKFLOW_STREAM_PORT) {
+    attachWorkflowStreamPort(port);
+  }
+});
+
 // Add page to memory
 function addToMemory(page: { url: string; title: string; timestamp: number }) {
   memory.recentPages.unshift(page);
@@ -179,12 +637,17 @@ chrome.storage.local.get('browserMemory', (result) => {
 });
 
 // Listen for messages from the sidebar and content scripts
-chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
+function handleRuntimeMessage(
+  request: any,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response?: any) => void
+): boolean | undefined {
   // Get current tab info
   if (request.type === 'GET_TAB_INFO') {
     (async () => {
       try {
-        const activeTab = await getActiveTabWithRetry();
+        const agentTabId = request.workflowRunId ? await resolveAgentTabId(request.workflowRunId) : null;
+        const activeTab = agentTabId ? await chrome.tabs.get(agentTabId) : await getActiveTabWithRetry();
         if (activeTab) {
           sendResponse({
             url: activeTab.url,
@@ -210,12 +673,47 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
         // Support both `parameters` and `params` from different callers
         const params: any = request.parameters || request.params || {};
 
-        // Helper to get active tab id with retry logic
+        // Tools of a workflow run act on that run's agent tab; callers without
+        // a run id fall back to the focused tab (with retry logic)
+        const workflowRunId: string | undefined = request.workflowRunId;
         const getActiveTabId = async (): Promise<number | null> => {
+          if (workflowRunId) {
+            return resolveAgentTabId(workflowRunId);
+          }
           const activeTab = await getActiveTabWithRetry();
           return activeTab?.id ?? null;
         };
 
+        // Per-origin grants; the sidepanel asks the user and retries on permissionRequired
+        const refusal = await checkOriginPermission(workflowRunId, toolName, params, getActiveTabId);
+        if (refusal) {
+          sendResponse({ success: false, ...refusal });
+          return;
+        }
+
+        const tabTools = ['openTab', 'switchTab', 'listTabs', 'closeTab'];
+        if (tabTools.includes(toolName)) {
+          if (!workflowRunId) {
+            sendResponse({ success: false, error: `${toolName} requires a workflow run` });
+            return;
+          }
+          if (toolName === 'openTab') {
+            const url: string | undefined = params.url || params.target;
+            const tab = await openAgentTab(workflowRunId, url || '', { switchTo: params.switchTo });
+            sendResponse({ success: true, tab });
+          } else if (toolName === 'switchTab') {
+            const tab = await switchAgentTab(workflowRunId, Number(params.tabId), { activate: params.activate });
+            sendResponse({ success: true, tab });
+          } else if (toolName === 'listTabs') {
+            const tabs = await listAgentTabs(workflowRunId);
+            sendResponse({ success: true, tabs });
+          } else {
+            const result = await closeAgentTab(workflowRunId, params.tabId !== undefined ? Number(params.tabId) : undefined);
+            sendResponse({ success: true, ...result });
+          }
+          return;
+        }
+
         if (toolName === 'navigate') {
           const startTime = Date.now();
           const url: string | undefined = params.url || params.target || params.href;
@@ -250,16 +748,8 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
               return;
             }
 
-            await chrome.tabs.update(tabId, { url });
-            const duration = Date.now() - startTime;
-            recordTelemetry({
-              toolName: 'navigate',
-              duration,
-              success: true,
-              parameters: { url, tabId },
-              tabId
-            });
-            sendResponse({ success: true, url });
+            const result = await runNavigation('navigate', tabId, () => chrome.tabs.update(tabId, { url }), { ...params, url });
+            sendResponse({ ...result, requestedUrl: url });
             return;
           } catch (error) {
             const duration = Date.now() - startTime;
@@ -277,6 +767,21 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
           }
         }
 
+        if (toolName === 'goBack' || toolName === 'goForward' || toolName === 'reload') {
+          const tabId = await getActiveTabId();
+          if (!tabId) {
+            sendResponse({ success: false, error: 'No active tab found' });
+            return;
+          }
+          const trigger = toolName === 'goBack'
+            ? () => chrome.tabs.goBack(tabId)
+            : toolName === 'goForward'
+              ? () => chrome.tabs.goForward(tabId)
+              : () => chrome.tabs.reload(tabId, { bypassCache: !!params.bypassCache });
+          sendResponse(await runNavigation(toolName, tabId, trigger, params));
+          return;
+        }
+
         if (toolName === 'getPageContext') {
           const tabId = await getActiveTabId();
           if (!tabId) {
@@ -284,7 +789,68 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
             return;
           }
           await ensureContentScript(tabId);
-          const response = await chrome.tabs.sendMessage(tabId, { type: 'GET_PAGE_CONTEXT' });
+          const response = await chrome.tabs.sendMessage(
+            tabId,
+            { type: 'GET_PAGE_CONTEXT', maxTextLength: params.maxTextLength },
+            { frameId: 0 }
+          );
+          sendResponse(response);
+          return;
+        }
+
+        if (toolName === 'getPageContent') {
+          const tabId = await getActiveTabId();
+          if (!tabId) {
+            sendResponse({ success: false, error: 'No active tab found' });
+            return;
+          }
+          await ensureContentScript(tabId);
+          const content = await chrome.tabs.sendMessage(tabId, { type: 'GET_MAIN_CONTENT' }, { frameId: 0 });
+          sendResponse(content?.markdown !== undefined ? getContentChunk(content, params.chunk, params.chunkSize) : content);
+          return;
+        }
+
+        if (toolName === 'getAccessibilitySnapshot') {
+          const tabId = await getActiveTabId();
+          if (!tabId) {
+            sendResponse({ success: false, error: 'No active tab found' });
+            return;
+          }
+          const response = await getFramedAxSnapshot(tabId, params.maxNodes);
+          sendResponse(response);
+          return;
+        }
+
+        if (toolName === 'harvestList') {
+          const tabId = await getActiveTabId();
+          if (!tabId) {
+            sendResponse({ success: false, error: 'No active tab found' });
+            return;
+          }
+          if (!params.ref && !params.selector) {
+            sendResponse({ success: false, error: 'harvestList needs the ref or selector of the list container' });
+            return;
+          }
+          await ensureContentScript(tabId);
+          sendResponse(await harvestListInTab(tabId, params));
+          return;
+        }
+
+        if (toolName === 'extractTable') {
+          const tabId = await getActiveTabId();
+          if (!tabId) {
+            sendResponse({ success: false, error: 'No active tab found' });
+            return;
+          }
+          await ensureContentScript(tabId);
+          const response = await chrome.tabs.sendMessage(tabId, {
+            type: 'EXTRACT_TABLES',
+            selector: params.selector,
+            ref: params.ref,
+            maxTables: params.maxTables,
+            maxRows: params.maxRows,
+            includeLists: params.includeLists,
+          }, { frameId: 0 });
           sendResponse(response);
           return;
         }
@@ -307,6 +873,10 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
           key_combination: 'key_combination',
           dragDrop: 'drag_drop',
           drag_drop: 'drag_drop',
+          selectOption: 'select_option',
+          setChecked: 'set_checked',
+          setDate: 'set_date',
+          uploadFile: 'upload_file',
           keyboardType: 'keyboard_type',
           clearInput: 'clear_input',
           hover: 'hover',
@@ -316,6 +886,27 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
           getBrowserHistory: 'get_browser_history',
         };
 
+        if (toolName === 'screenshot' && workflowRunId) {
+          const tabId = await getActiveTabId();
+          if (!tabId) {
+            sendResponse({ success: false, error: 'No agent tab found' });
+            return;
+          }
+          // captureVisibleTab only sees the active tab of a window, so bring the agent tab forward
+          const tab = await chrome.tabs.get(tabId);
+          if (!tab.active) {
+            await chrome.tabs.update(tabId, { active: true });
+          }
+          const screenshot = await chrome.tabs.captureVisibleTab(tab.windowId, { format: 'png' });
+          if (Array.isArray(params.redact) && params.redact.length > 0) {
+            const masked = await maskSensitiveRegions(tabId, screenshot, params.redact);
+            sendResponse({ success: true, screenshot: masked.screenshot, maskedRegions: masked.masked });
+            return;
+          }
+          sendResponse({ success: true, screenshot });
+          return;
+        }
+
         if (toolName === 'screenshot') {
           // Reuse the existing screenshot flow by delegating
           chrome.runtime.sendMessage({ type: 'TAKE_SCREENSHOT' }, (resp) => {
@@ -330,7 +921,16 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
           sendResponse({ success: false, error: 'No active tab found' });
           return;
         }
-        await ensureContentScript(tabId);
+
+        // Route refs from cross-origin frames ("f12:e3") to the frame that issued them
+        const frameRef = parseFrameRef(params.ref || params.selector || params.target);
+        const destinationFrameRef = parseFrameRef(params.destinationRef);
+        if (frameRef && destinationFrameRef && frameRef.frameId !== destinationFrameRef.frameId) {
+          sendResponse({ success: false, error: 'Source and destination refs must be in the same frame' });
+          return;
+        }
+        const frameId = frameRef?.frameId ?? destinationFrameRef?.frameId ?? 0;
+        await ensureContentScript(tabId, frameId);
 
         // Build EXECUTE_ACTION payload for content script
         const payload = {
@@ -345,9 +945,46 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
           key: params.key,
           keys: params.keys,
           destination: params.destination,
+          ref: frameRef?.ref ?? params.ref,
+          destinationRef: destinationFrameRef?.ref ?? params.destinationRef,
+          values: params.values,
+          checked: params.checked,
+          label: params.label,
+          files: params.files,
+          workflowRunId,
         };
 
-        const response = await chrome.tabs.sendMessage(tabId, payload);
+        // Trusted input only for the top frame: CDP needs top-level viewport coordinates,
+        // which the top content script reports for same-origin frames too. Vault tokens
+        // are resolved by the content script, so those fills stay synthetic.
+        const inputBackend = frameId === 0 && TRUSTED_INPUT_ACTIONS.has(action) && !hasVaultTokens(payload.value)
+          ? await getInputBackendForTab(tabId)
+          : 'synthetic';
+
+        if (inputBackend === 'cdp') {
+          sendResponse(await executeTrustedAction(tabId, payload));
+          return;
+        }
+
+        const response = await chrome.tabs.sendMessage(
+          tabId,
+          { ...payload, detectEffect: inputBackend === 'auto' },
+          { frameId }
+        );
+
+        // Synthetic events are untrusted and some sites ignore them - retry with real input
+        if (inputBackend === 'auto' && response?.success && response.domChanged === false && !response.submits) {
+          console.log(`🔁 [Input] ${action} had no effect, retrying with trusted input`);
+          try {
+            const trusted = await executeTrustedAction(tabId, payload);
+            sendResponse(trusted.success ? { ...trusted, fallbackFrom: 'synthetic' } : response);
+          } catch (error) {
+            // Attach fails when DevTools is open on the tab or the page is restricted
+            console.warn('⚠️ [Input] Trusted input unavailable:', error);
+            sendResponse({ ...response, note: `No page change detected; trusted input unavailable: ${(error as Error).message}` });
+          }
+          return;
+        }
         sendResponse(response);
       } catch (error) {
         sendResponse({ success: false, error: (error as Error).message });
@@ -356,6 +993,47 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     return true;
   }
 
+  // A grant the user chose in the sidepanel. Only extension pages may grant: a message
+  // from a content script would let a page give itself access.
+  if (request.type === 'ORIGIN_GRANT') {
+    (async () => {
+      try {
+        if (sender.id !== chrome.runtime.id || sender.tab) {
+          sendResponse({ success: false, error: 'Grants can only come from the extension' });
+          return;
+        }
+        if (!actionOrigin(request.origin) || !ORIGIN_ACCESS_LEVELS.includes(request.access) || !['once', 'run', 'always'].includes(request.duration)
+          || (request.duration !== 'always' && !request.workflowRunId)) {
+          sendResponse({ success: false, error: 'Invalid grant' });
+          return;
+        }
+        await grantOriginAccess(getDefaultOriginGrantStore(), request.workflowRunId, request.origin, {
+          access: request.access,
+          duration: request.duration,
+        });
+        sendResponse({ success: true });
+      } catch (error) {
+        sendResponse({ success: false, error: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  // Credential vault tokens in a fill, for the origin of the frame that asks. The origin
+  // comes from Chrome, not the message, so a page can't claim another site's login.
+  if (request.type === 'VAULT_RESOLVE') {
+    const origin = sender.origin ?? (sender.url ? new URL(sender.url).origin : undefined);
+    if (sender.id !== chrome.runtime.id || !sender.tab || !origin) {
+      sendResponse({ resolutions: [], error: 'Vault tokens can only be resolved for a page' });
+      return;
+    }
+    const audit = { log: vaultAudit, tool: 'fill', runId: typeof request.workflowRunId === 'string' ? request.workflowRunId : undefined };
+    resolveVaultTokens(getDefaultVaultStore(), String(request.text ?? ''), origin, audit)
+      .then(sendResponse)
+      .catch(error => sendResponse({ resolutions: [], error: (error as Error).message }));
+    return true; // Keep channel open for async response
+  }
+
   // Get browser history
   if (request.type === 'GET_HISTORY') {
     const query = request.query || '';
@@ -398,32 +1076,15 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
   }
 
   // Get page context from content script
-  // Helper function to ensure content script is injected
-  async function ensureContentScript(tabId: number): Promise<void> {
-    try {
-      // Try to ping the content script
-      await chrome.tabs.sendMessage(tabId, { type: 'PING' });
-    } catch (error) {
-      try {
-        await chrome.scripting.executeScript({
-          target: { tabId },
-          files: ['content.js']
-        });
-        // Wait a bit for the script to initialize
-        await new Promise(resolve => setTimeout(resolve, 200));
-      } catch (injectError) {
-        throw injectError;
-      }
-    }
-  }
-
   if (request.type === 'GET_PAGE_CONTEXT') {
     (async () => {
       try {
-        const activeTab = await getActiveTabWithRetry();
-        if (activeTab?.id) {
-          await ensureContentScript(activeTab.id);
-          const response = await chrome.tabs.sendMessage(activeTab.id, { type: 'GET_PAGE_CONTEXT' });
+        const tabId = request.workflowRunId
+          ? await resolveAgentTabId(request.workflowRunId)
+          : (await getActiveTabWithRetry())?.id;
+        if (tabId) {
+          await ensureContentScript(tabId);
+          const response = await chrome.tabs.sendMessage(tabId, { type: 'GET_PAGE_CONTEXT' }, { frameId: 0 });
           sendResponse(response); // Return response directly, not wrapped
         } else {
           sendResponse({ success: false, error: 'No active tab found' });
@@ -441,7 +1102,10 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
       try {
         const activeTab = await getActiveTabWithRetry();
         if (activeTab?.id) {
-          await ensureContentScript(activeTab.id);
+          const frameRef = parseFrameRef(request.ref || request.selector || request.target);
+          const destinationFrameRef = parseFrameRef(request.destinationRef);
+          const frameId = frameRef?.frameId ?? destinationFrameRef?.frameId ?? 0;
+          await ensureContentScript(activeTab.id, frameId);
           const response = await chrome.tabs.sendMessage(activeTab.id, {
             type: 'EXECUTE_ACTION',
             action: request.action,
@@ -453,8 +1117,10 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
             coordinates: request.coordinates,
             destination: request.destination,
             direction: request.direction,
-            amount: request.amount
-          });
+            amount: request.amount,
+            ref: frameRef?.ref ?? request.ref,
+            destinationRef: destinationFrameRef?.ref ?? request.destinationRef
+          }, { frameId });
           sendResponse(response);
         } else {
           sendResponse({ success: false, error: 'No active tab found' });
@@ -605,6 +1271,163 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     return true;
   }
 
+  // Start recording the user's own actions in the active tab
+  if (request.type === 'DEMONSTRATION_START') {
+    (async () => {
+      try {
+        const activeTab = await getActiveTabWithRetry();
+        if (!activeTab?.id) {
+          sendResponse({ success: false, error: 'No active tab found' });
+          return;
+        }
+        await ensureContentScript(activeTab.id);
+        await chrome.tabs.sendMessage(activeTab.id, { type: 'DEMONSTRATION_RECORD', active: true }, { frameId: 0 });
+        await setDemonstrationTabId(activeTab.id);
+        sendResponse({ success: true, tabId: activeTab.id, url: activeTab.url, title: activeTab.title });
+      } catch (error) {
+        sendResponse({ success: false, error: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (request.type === 'DEMONSTRATION_STOP') {
+    (async () => {
+      const tabId = await getDemonstrationTabId();
+      await setDemonstrationTabId(null);
+      if (tabId !== null) {
+        // The tab may have been closed or be on a page the script can't run on
+        await chrome.tabs.sendMessage(tabId, { type: 'DEMONSTRATION_RECORD', active: false }, { frameId: 0 }).catch(() => {});
+      }
+      sendResponse({ success: true });
+    })();
+    return true;
+  }
+
+  // Content script asking, after a page load, whether its tab is being recorded
+  if (request.type === 'DEMONSTRATION_STATUS') {
+    getDemonstrationTabId().then(tabId => {
+      sendResponse({ recording: tabId !== null && tabId === sender.tab?.id });
+    });
+    return true;
+  }
+
+  // Scheduled tasks with their run history, for the sidepanel
+  if (request.type === 'SCHEDULE_LIST') {
+    (async () => {
+      const store = scheduleRunnerDeps.store;
+      const tasks = await store.listTasks();
+      const runs: Record<string, ScheduledRun[]> = {};
+      for (const task of tasks) {
+        runs[task.id] = await store.listRuns(task.id);
+      }
+      sendResponse({ success: true, tasks, runs });
+    })();
+    return true;
+  }
+
+  if (request.type === 'SCHEDULE_SAVE') {
+    (async () => {
+      try {
+        const task: ScheduledTask = request.task;
+        const problem = validateSchedule(task.schedule);
+        if (problem) {
+          sendResponse({ success: false, error: problem });
+          return;
+        }
+        // A changed schedule gets a fresh next run
+        const existing = await scheduleRunnerDeps.store.getTask(task.id);
+        const sameSchedule = existing && JSON.stringify(existing.schedule) === JSON.stringify(task.schedule);
+        const saved = await syncScheduleAlarm(
+          { ...task, nextRunAt: sameSchedule ? existing.nextRunAt : undefined, updatedAt: Date.now() },
+          chrome.alarms
+        );
+        await scheduleRunnerDeps.store.putTask(saved);
+        sendResponse({ success: true, task: saved });
+      } catch (error) {
+        sendResponse({ success: false, error: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (request.type === 'SCHEDULE_DELETE') {
+    (async () => {
+      await chrome.alarms.clear(alarmNameForTask(request.taskId));
+      await scheduleRunnerDeps.store.deleteTask(request.taskId);
+      sendResponse({ success: true });
+    })();
+    return true;
+  }
+
+  // Runs in the background; the sidepanel hears about it through SCHEDULE_UPDATED
+  if (request.type === 'SCHEDULE_RUN_NOW') {
+    void runScheduledTask(request.taskId, scheduleRunnerDeps);
+    sendResponse({ success: true });
+    return true;
+  }
+
+  // Page watches with their recorded changes, for the sidepanel
+  if (request.type === 'WATCH_LIST') {
+    (async () => {
+      const store = watchCheckDeps.store;
+      const watches = await store.listWatches();
+      const changes: Record<string, WatchChange[]> = {};
+      for (const watch of watches) {
+        changes[watch.id] = await store.listChanges(watch.id);
+      }
+      sendResponse({ success: true, watches, changes });
+    })();
+    return true;
+  }
+
+  if (request.type === 'WATCH_SAVE') {
+    (async () => {
+      try {
+        const watch: PageWatch = request.watch;
+        if (!/^https?:\/\//.test(watch.url) || !watch.criterion?.trim()) {
+          sendResponse({ success: false, error: 'A watch needs an http(s) URL and a criterion' });
+          return;
+        }
+        // A new region or page starts over from a fresh baseline
+        const existing = await watchCheckDeps.store.getWatch(watch.id);
+        const sameRegion = existing && existing.url === watch.url && existing.selector === watch.selector;
+        if (existing && !sameRegion) {
+          await watchCheckDeps.store.deleteWatch(watch.id);
+        }
+        const saved = await syncWatchAlarm(
+          { ...watch, nextCheckAt: sameRegion && existing.intervalMinutes === watch.intervalMinutes ? existing.nextCheckAt : undefined, updatedAt: Date.now() },
+          chrome.alarms
+        );
+        await watchCheckDeps.store.putWatch(saved);
+        if (!existing || !sameRegion) {
+          // Take the baseline now so the first scheduled check can already report changes
+          void checkWatch(saved.id, watchCheckDeps);
+        }
+        sendResponse({ success: true, watch: saved });
+      } catch (error) {
+        sendResponse({ success: false, error: (error as Error).message });
+      }
+    })();
+    return true;
+  }
+
+  if (request.type === 'WATCH_DELETE') {
+    (async () => {
+      await chrome.alarms.clear(watchAlarmName(request.watchId));
+      await watchCheckDeps.store.deleteWatch(request.watchId);
+      sendResponse({ success: true });
+    })();
+    return true;
+  }
+
+  // Runs in the background; the sidepanel hears about it through WATCH_UPDATED
+  if (request.type === 'WATCH_CHECK_NOW') {
+    void checkWatch(request.watchId, watchCheckDeps);
+    sendResponse({ success: true });
+    return true;
+  }
+
   // Page loaded notification from content script
   if (request.type === 'PAGE_LOADED') {
     console.log('Page loaded:', request.url);
@@ -615,11 +1438,22 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
   if (request.type === 'WORKFLOW_CHAT_START') {
     (async () => {
       try {
-        const { startWorkflowChat } = await import('./lib/workflow-chat-handler');
-        const response = await startWorkflowChat({
-          messages: request.messages,
-          settings: request.settings,
-        });
+        const { startWorkflowChat, createWorkflowRunId } = await loadWorkflowChatHandler();
+        // Give the run its own tab before it starts, so its first tool call already acts there
+        const workflowRunId = createWorkflowRunId();
+        const group = await createAgentTab(workflowRunId);
+        let response;
+        try {
+          response = await startWorkflowChat({
+            workflowRunId,
+            messages: request.messages,
+            settings: request.settings,
+          });
+        } catch (error) {
+          await releaseAgentTabs(workflowRunId);
+          await chrome.tabs.remove(group.tabIds).catch(() => {});
+          throw error;
+        }
 
         // Store workflow run ID for resumption
         await chrome.storage.local.set({
@@ -629,12 +1463,10 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
           },
         });
 
-        // Send workflow run ID in response
+        // Output is read over a workflow-stream port (streams can't cross sendMessage)
         sendResponse({
           success: true,
           workflowRunId: response.workflowRunId,
-          // Note: Stream cannot be sent via chrome.runtime messaging
-          // Sidepanel will need to use fetch or direct streaming
         });
       } catch (error) {
         sendResponse({
@@ -646,6 +1478,30 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     return true;
   }
 
+  // Agent tab for runs driven from the sidepanel (WORKFLOW_CHAT_START creates its own);
+  // repeated for each turn of a conversation, which keeps the tab its first turn got
+  if (request.type === 'AGENT_TAB_START') {
+    (async () => {
+      try {
+        const group = await createAgentTab(request.workflowRunId, { url: request.url, adoptActiveTab: request.adoptActiveTab });
+        sendResponse({ success: true, tabId: group.currentTabId });
+      } catch (error) {
+        sendResponse({
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    })();
+    return true;
+  }
+
+  if (request.type === 'AGENT_TAB_RELEASE') {
+    Promise.all([releaseAgentTabs(request.workflowRunId), clearRunGrants(getDefaultOriginGrantStore(), request.workflowRunId)])
+      .then(() => sendResponse({ success: true }))
+      .catch((error) => sendResponse({ success: false, error: String(error) }));
+    return true;
+  }
+
   // Resume workflow chat stream
   if (request.type === 'WORKFLOW_CHAT_RESUME') {
     (async () => {
@@ -663,8 +1519,7 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
 
         sendResponse({
           success: true,
-          // Note: Stream needs to be handled differently
-          // This is a simplified response
+          workflowRunId: request.workflowRunId,
         });
       } catch (error) {
         sendResponse({
@@ -682,6 +1537,7 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
       try {
         const { cancelWorkflowChat } = await import('./lib/workflow-chat-handler');
         const cancelled = cancelWorkflowChat(request.workflowRunId);
+        await releaseAgentTabs(request.workflowRunId);
 
         sendResponse({
           success: cancelled,
@@ -737,6 +1593,195 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     })();
     return true;
   }
+}
+
+chrome.runtime.onMessage.addListener(handleRuntimeMessage);
+
+// The same router for messages from the background's own code: runs started here
+// (WORKFLOW_CHAT_START, scheduled tasks) send their tool calls through it
+function dispatchInBackground(message: any): Promise<any> {
+  return new Promise((resolve) => {
+    const isAsync = handleRuntimeMessage(message, { id: chrome.runtime.id }, resolve);
+    if (isAsync !== true) resolve(undefined);
+  });
+}
+
+async function loadWorkflowChatHandler() {
+  const handler = await import('./lib/workflow-chat-handler');
+  handler.setBackgroundMessageDispatcher(dispatchInBackground);
+  return handler;
+}
+
+// ============================================
+// Scheduled tasks (see lib/scheduler.ts)
+// ============================================
+
+function notifyScheduleChanged(taskId?: string) {
+  chrome.runtime.sendMessage({ type: 'SCHEDULE_UPDATED', taskId }).catch(() => {
+    // Sidepanel closed; it reloads the schedules when opened
+  });
+}
+
+// Run the workflow for a scheduled task in an inactive tab and return its final answer.
+// The tab is opened before the run starts so its first tool call already acts there.
+async function startScheduledWorkflow(task: ScheduledTask, onStarted: (workflowRunId: string) => void): Promise<string> {
+  const settings = await loadSettings();
+  if (!settings?.apiKey) {
+    throw new Error('Settings not available');
+  }
+
+  const { startWorkflowChat, createWorkflowRunId } = await loadWorkflowChatHandler();
+  const workflowRunId = createWorkflowRunId();
+  const grantStore = getDefaultOriginGrantStore();
+  const group = await createAgentTab(workflowRunId, { url: task.targetUrl, active: false });
+  let response;
+  try {
+    // Nobody is there to ask, so the sites chosen with the schedule are granted up front
+    for (const site of task.siteAccess ?? []) {
+      await grantOriginAccess(grantStore, workflowRunId, site.origin, { access: site.access, duration: 'run' });
+    }
+    response = await startWorkflowChat({
+      workflowRunId,
+      messages: [{ id: `schedule_${Date.now()}`, role: 'user', content: buildScheduledQuery(task) }],
+      settings: {
+        provider: settings.provider,
+        apiKey: settings.apiKey,
+        model: task.model || settings.model,
+      },
+    });
+  } catch (error) {
+    await chrome.tabs.remove(group.tabIds).catch(() => {});
+    await clearRunGrants(grantStore, workflowRunId);
+    throw error;
+  }
+  onStarted(response.workflowRunId);
+
+  try {
+    const collected = await collectWorkflowRun(response.workflowRunId);
+    if (collected.error) {
+      throw new Error(collected.error);
+    }
+    const answer = [...collected.messages].reverse().find(m => m.role === 'assistant' && m.content?.trim());
+    const text = typeof collected.result === 'string' && collected.result.trim() ? collected.result : answer?.content;
+    if (!text) {
+      throw new Error('Run finished without an answer');
+    }
+    return text;
+  } finally {
+    // Nobody is watching a scheduled run; don't leave a tab behind for every firing
+    await chrome.tabs.remove(group.tabIds).catch(() => {});
+    await clearRunGrants(grantStore, workflowRunId);
+  }
+}
+
+const scheduleRunnerDeps: ScheduledRunnerDeps = {
+  store: getDefaultScheduleStore(),
+  alarms: chrome.alarms,
+  startRun: startScheduledWorkflow,
+  notify: (task, run) => {
+    const message = run.status === 'failed'
+      ? `Failed: ${run.error}`
+      : run.changed
+        ? `${run.diff?.added.length ?? 0} new, ${run.diff?.removed.length ?? 0} removed lines since the last run`
+        : (run.result || '').slice(0, 200);
+    chrome.notifications.create(`schedule-${run.id}`, {
+      type: 'basic',
+      iconUrl: 'icons/icon.png',
+      title: task.name,
+      message,
+    });
+  },
+  onChange: notifyScheduleChanged,
+};
+
+// ============================================
+// Page watches (see lib/page-watch.ts)
+// ============================================
+
+function notifyWatchChanged(watchId?: string) {
+  chrome.runtime.sendMessage({ type: 'WATCH_UPDATED', watchId }).catch(() => {
+    // Sidepanel closed; it reloads the watches when opened
+  });
+}
+
+// Snapshot the watched region from an open tab on the page, or from a
+// short-lived inactive tab when the page isn't open
+async function captureWatchedRegion(watch: PageWatch): Promise<RegionSnapshot> {
+  const tabs = await chrome.tabs.query({});
+  const open = tabs.find(tab => tab.id !== undefined && tab.url === watch.url && tab.status === 'complete');
+  let tabId = open?.id;
+  let created = false;
+
+  try {
+    if (tabId === undefined) {
+      const tab = await chrome.tabs.create({ url: 'about:blank', active: false });
+      tabId = tab.id!;
+      created = true;
+      const id = tabId;
+      const navigation = await navigateAndWait(id, () => chrome.tabs.update(id, { url: watch.url }), {
+        waitForDomQuiet: (quietMs, timeoutMs) => waitForDomQuiet(id, quietMs, timeoutMs),
+      });
+      if (!navigation.success) {
+        throw new Error(navigation.error || `Could not load ${watch.url}`);
+      }
+    }
+    await ensureContentScript(tabId);
+    return await chrome.tabs.sendMessage(tabId, { type: 'CAPTURE_REGION', selector: watch.selector }, { frameId: 0 });
+  } finally {
+    if (created && tabId !== undefined) {
+      await chrome.tabs.remove(tabId).catch(() => {});
+    }
+  }
+}
+
+// Judged with the model from settings; read per check so settings changes apply
+const judgeWatchChange: WatchCheckDeps['judge'] = async (watch, diff) => {
+  const settings = await loadSettings();
+  return createModelChangeJudge({
+    provider: settings?.provider || 'google',
+    apiKey: settings?.apiKey || '',
+    model: settings?.model,
+    braintrustApiKey: settings?.braintrustApiKey,
+  })(watch, diff);
+};
+
+const watchCheckDeps: WatchCheckDeps = {
+  store: getDefaultWatchStore(),
+  alarms: chrome.alarms,
+  capture: captureWatchedRegion,
+  judge: judgeWatchChange,
+  notify: (watch, change) => {
+    chrome.notifications.create(`watch-${change.id}`, {
+      type: 'basic',
+      iconUrl: 'icons/icon.png',
+      title: `${watch.name} changed`,
+      message: change.explanation || formatDiff(change.diff, 200),
+    });
+  },
+  onChange: notifyWatchChanged,
+};
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  const taskId = taskIdFromAlarm(alarm.name);
+  if (taskId) {
+    console.log(`⏰ Running scheduled task ${taskId}`);
+    void runScheduledTask(taskId, scheduleRunnerDeps);
+  }
+  const watchId = watchIdFromAlarm(alarm.name);
+  if (watchId) {
+    console.log(`👀 Checking page watch ${watchId}`);
+    void checkWatch(watchId, watchCheckDeps);
+  }
+});
+
+// Alarms don't always survive browser restarts and extension updates
+chrome.runtime.onStartup.addListener(() => {
+  void restoreScheduleAlarms(scheduleRunnerDeps.store, chrome.alarms);
+  void restoreWatchAlarms(watchCheckDeps.store, chrome.alarms);
+});
+chrome.runtime.onInstalled.addListener(() => {
+  void restoreScheduleAlarms(scheduleRunnerDeps.store, chrome.alarms);
+  void restoreWatchAlarms(watchCheckDeps.store, chrome.alarms);
 });
 
 console.log('Atlas background service worker loaded');
@@ -14,6 +14,10 @@ interface AgentComposerIntegrationProps {
   showSettings?: boolean;
   onSettingsClick?: () => void;
   modelSelector?: React.ReactNode;
+  // Rendered above the input, e.g. the saved macro launcher
+  toolbar?: React.ReactNode;
+  // Extra templates listed before the defaults, e.g. recorded demonstrations
+  templates?: PromptTemplate[];
 }
 
 export function AgentComposerIntegration({
@@ -23,6 +27,8 @@ export function AgentComposerIntegration({
   showSettings = true,
   onSettingsClick,
   modelSelector,
+  toolbar,
+  templates = [],
 }: AgentComposerIntegrationProps) {
   const [promptValue, setPromptValue] = useState("");
 
@@ -53,13 +59,14 @@ export function AgentComposerIntegration({
       placeholder="Describe what you want to automate or research..."
       isLoading={isLoading}
       disabled={disabled}
-      templates={DEFAULT_BROWSER_AUTOMATION_TEMPLATES}
+      templates={[...templates, ...DEFAULT_BROWSER_AUTOMATION_TEMPLATES]}
       personas={DEFAULT_PERSONAS}
       showVoiceInput={true}
       showFileAttachment={true}
       showSettings={showSettings}
       onSettingsClick={onSettingsClick}
       maxHeight={100}
+      toolbar={toolbar}
     />
   );
 }
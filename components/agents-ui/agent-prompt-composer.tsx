@@ -63,6 +63,7 @@ export interface AgentPromptComposerProps {
   className?: string;
   onSettingsClick?: () => void;
   modelSelector?: React.ReactNode;
+  toolbar?: React.ReactNode;
 }
 
 const AgentPromptComposerComponent = ({
@@ -81,6 +82,7 @@ const AgentPromptComposerComponent = ({
   className,
   onSettingsClick,
   modelSelector,
+  toolbar,
 }: AgentPromptComposerProps) => {
   const [isRecording, setIsRecording] = useState(false);
   const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
@@ -288,6 +290,8 @@ const AgentPromptComposerComponent = ({
           </div>
         )}
 
+        {toolbar}
+
         {/* Main Input Area - ChatGPT-style with rounded-3xl, subtle border, and backdrop blur */}
         <div className="relative mx-auto flex w-full max-w-screen-md items-center gap-2 overflow-hidden rounded-3xl border border-slate-200/60 bg-white/80 backdrop-blur-md shadow-sm transition-all hover:shadow-md focus-within:border-slate-300/70 focus-within:ring-2 focus-within:ring-sky-200/50 dark:border-white/10 dark:bg-slate-900/60 dark:focus-within:border-white/20 dark:focus-within:ring-sky-500/40">
           <Textarea
@@ -317,7 +321,36 @@ const AgentPromptComposerComponent = ({
           )}
 
           {/* Action Buttons - ChatGPT-style */}
-          <div className="flex items-center justify-end pb-2 pr-2">
+          <div className="flex items-center justify-end gap-1 pb-2 pr-2">
+            {/* Template Picker - recorded templates first, then the defaults */}
+            {templates.length > 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger
+                  disabled={disabled || isLoading}
+                  className="size-8 rounded-full text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+                  aria-label="Prompt templates"
+                >
+                  <BookTemplate className="size-4" />
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="max-h-72 w-64 overflow-y-auto">
+                  <DropdownMenuLabel>Templates</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {templates.map((template) => (
+                    <DropdownMenuItem
+                      key={template.id}
+                      onClick={() => applyTemplate(template)}
+                      className="flex flex-col items-start gap-0.5"
+                    >
+                      <span className="text-sm">{template.name}</span>
+                      {template.description && (
+                        <span className="text-xs text-muted-foreground">{template.description}</span>
+                      )}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+
             {/* Send/Cancel Button - ChatGPT-style rounded-full */}
             {!isLoading ? (
               <Button
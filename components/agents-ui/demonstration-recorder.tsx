@@ -0,0 +1,166 @@
+// Demonstration Recorder - show the agent a task by doing it
+// Records the user's own actions in the active tab as a live timeline and saves them
+// as a composer template or as planner examples for the site
+
+"use client";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Circle, GraduationCap, Square, Trash2 } from "lucide-react";
+import { memo, useEffect, useRef, useState } from "react";
+import { MinorErrorBoundary } from "../ErrorBoundary";
+import type { DemonstrationEvent } from "../../types";
+import {
+  describeDemonstrationEvent,
+  getDemonstrationHost,
+  type DemonstrationMode,
+  type SavedDemonstration,
+} from "../../lib/demonstrations";
+
+export interface DemonstrationRecorderProps {
+  recording: boolean;
+  events: DemonstrationEvent[];
+  demonstrations: SavedDemonstration[];
+  onStart: () => void;
+  onStop: () => void;
+  onSave: (name: string, mode: DemonstrationMode) => void;
+  onDiscard: () => void;
+  onDelete: (demonstrationId: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const Timeline = ({ events }: { events: DemonstrationEvent[] }) => {
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "nearest" });
+  }, [events.length]);
+
+  if (events.length === 0) {
+    return <div className="text-xs text-muted-foreground">Do the task in the page; each action shows up here.</div>;
+  }
+
+  return (
+    <ol className="max-h-48 space-y-0.5 overflow-y-auto text-xs">
+      {events.map((event) => (
+        <li key={event.id} className="flex gap-2">
+          <span className="w-14 shrink-0 text-muted-foreground">
+            {new Date(event.timestamp).toLocaleTimeString([], { minute: "2-digit", second: "2-digit" })}
+          </span>
+          <span className="truncate" title={event.element?.selector || event.url}>
+            {describeDemonstrationEvent(event)}
+          </span>
+        </li>
+      ))}
+      <div ref={endRef} />
+    </ol>
+  );
+};
+
+const DemonstrationRecorderComponent = ({
+  recording,
+  events,
+  demonstrations,
+  onStart,
+  onStop,
+  onSave,
+  onDiscard,
+  onDelete,
+  disabled,
+  className,
+}: DemonstrationRecorderProps) => {
+  const [name, setName] = useState("");
+  const [showSaved, setShowSaved] = useState(false);
+  const host = getDemonstrationHost(events[0]?.url || "");
+  const finished = !recording && events.length > 0;
+
+  const save = (mode: DemonstrationMode) => {
+    onSave(name, mode);
+    setName("");
+  };
+
+  return (
+    <MinorErrorBoundary componentName="DemonstrationRecorder">
+      <div className={cn("w-full space-y-2", className)}>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          {recording ? (
+            <button type="button" className="flex items-center gap-1 text-destructive" onClick={onStop}>
+              <Square className="h-3 w-3 fill-current" /> Stop recording ({events.length})
+            </button>
+          ) : (
+            <button
+              type="button"
+              className="flex items-center gap-1 hover:text-foreground disabled:opacity-50"
+              onClick={onStart}
+              disabled={disabled || finished}
+            >
+              <Circle className="h-3 w-3 fill-current text-destructive" /> Record demonstration
+            </button>
+          )}
+          {demonstrations.length > 0 && (
+            <button
+              type="button"
+              className="flex items-center gap-1 hover:text-foreground"
+              onClick={() => setShowSaved(!showSaved)}
+              aria-expanded={showSaved}
+            >
+              <GraduationCap className="h-3 w-3" /> Demonstrations ({demonstrations.length})
+            </button>
+          )}
+        </div>
+
+        {(recording || finished) && (
+          <div className="space-y-2 rounded-md border border-border p-2">
+            <Timeline events={events} />
+            {finished && (
+              <div className="space-y-2 text-xs">
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Name, e.g. Search flights"
+                  className="w-full rounded border bg-background px-2 py-1 text-sm"
+                  aria-label="Demonstration name"
+                />
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" variant="secondary" onClick={() => save("template")}>
+                    Save as template
+                  </Button>
+                  <Button size="sm" variant="secondary" onClick={() => save("few-shot")} disabled={!host}>
+                    Teach planner{host ? ` for ${host}` : ""}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={onDiscard}>Discard</Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {showSaved && demonstrations.length > 0 && (
+          <div className="max-h-48 space-y-1 overflow-y-auto">
+            {demonstrations.map((demo) => (
+              <div key={demo.id} className="flex items-center gap-2 rounded-md border border-border px-2 py-1 text-xs">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium">{demo.name}</div>
+                  <div className="truncate text-muted-foreground">
+                    {demo.mode === "template" ? "Template" : "Planner examples"} · {demo.host} · {demo.events.length} steps
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-destructive"
+                  onClick={() => onDelete(demo.id)}
+                  aria-label={`Delete ${demo.name}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </MinorErrorBoundary>
+  );
+};
+
+export const DemonstrationRecorder = memo(DemonstrationRecorderComponent);
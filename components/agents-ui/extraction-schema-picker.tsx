@@ -0,0 +1,192 @@
+// Extraction Schema Picker - attach a JSON Schema to the next task
+// Saved schemas are listed for picking; a new or edited schema is pasted as JSON
+// with optional key fields (for deduplication) and a page limit
+
+"use client";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Pencil, Table2, Trash2 } from "lucide-react";
+import { memo, useState } from "react";
+import { MinorErrorBoundary } from "../ErrorBoundary";
+import {
+  createSavedExtractionSchema,
+  parseItemSchema,
+  schemaColumns,
+  DEFAULT_EXTRACTION_MAX_PAGES,
+  MAX_EXTRACTION_PAGES,
+  type SavedExtractionSchema,
+} from "../../lib/structured-extraction";
+
+export interface ExtractionSchemaPickerProps {
+  schemas: SavedExtractionSchema[];
+  selectedId: string | null;
+  onSelect: (schemaId: string | null) => void;
+  onSave: (schema: SavedExtractionSchema) => void;
+  onDelete: (schemaId: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const EXAMPLE_SCHEMA = `{
+  "type": "object",
+  "properties": {
+    "title": { "type": "string" },
+    "price": { "type": "number" },
+    "url": { "type": "string", "format": "uri" }
+  },
+  "required": ["title"]
+}`;
+
+const SchemaEditor = ({ schema, onSave, onCancel }: {
+  schema?: SavedExtractionSchema;
+  onSave: (schema: SavedExtractionSchema) => void;
+  onCancel: () => void;
+}) => {
+  const [name, setName] = useState(schema?.name ?? "");
+  const [json, setJson] = useState(schema ? JSON.stringify(schema.schema, null, 2) : EXAMPLE_SCHEMA);
+  const [keyFields, setKeyFields] = useState(schema?.keyFields?.join(", ") ?? "");
+  const [maxPages, setMaxPages] = useState(schema?.maxPages ?? DEFAULT_EXTRACTION_MAX_PAGES);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = () => {
+    try {
+      const item = parseItemSchema(json);
+      const columns = schemaColumns(item);
+      const keys = keyFields.split(",").map((field) => field.trim()).filter(Boolean);
+      const unknown = keys.filter((field) => !columns.includes(field));
+      if (unknown.length > 0) {
+        setError(`Key fields must be schema properties: ${unknown.join(", ")}`);
+        return;
+      }
+      const created = createSavedExtractionSchema({ name, schema: item, keyFields: keys, maxPages });
+      onSave(schema ? { ...created, id: schema.id, createdAt: schema.createdAt } : created);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border border-border p-2 text-xs">
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Name (e.g. Product listings)"
+        className="w-full rounded border bg-background px-2 py-1"
+        aria-label="Schema name"
+      />
+      <textarea
+        value={json}
+        onChange={(e) => setJson(e.target.value)}
+        rows={8}
+        spellCheck={false}
+        className="w-full resize-y rounded border bg-background px-2 py-1 font-mono"
+        aria-label="JSON Schema of one item"
+      />
+      <input
+        value={keyFields}
+        onChange={(e) => setKeyFields(e.target.value)}
+        placeholder="Key fields for deduplication, e.g. url (whole row when empty)"
+        className="w-full rounded border bg-background px-2 py-1 font-mono"
+        aria-label="Key fields"
+      />
+      <label className="flex items-center gap-1">
+        Follow up to
+        <input
+          type="number"
+          min={1}
+          max={MAX_EXTRACTION_PAGES}
+          value={maxPages}
+          onChange={(e) => setMaxPages(Number(e.target.value) || 1)}
+          className="w-16 rounded border bg-background px-1 py-0.5"
+        />
+        pages
+      </label>
+
+      {error && <div className="text-destructive">{error}</div>}
+      <div className="flex gap-2">
+        <Button size="sm" variant="secondary" onClick={save}>Save</Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  );
+};
+
+const ExtractionSchemaPickerComponent = ({ schemas, selectedId, onSelect, onSave, onDelete, disabled, className }: ExtractionSchemaPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<SavedExtractionSchema | "new" | null>(null);
+  const selected = schemas.find((schema) => schema.id === selectedId);
+
+  const save = (schema: SavedExtractionSchema) => {
+    onSave(schema);
+    onSelect(schema.id);
+    setEditing(null);
+  };
+
+  return (
+    <MinorErrorBoundary componentName="ExtractionSchemaPicker">
+      <div className={cn("w-full", className)}>
+        <button
+          type="button"
+          className={cn("flex items-center gap-1 text-xs hover:text-foreground", selected ? "text-foreground" : "text-muted-foreground")}
+          onClick={() => setOpen(!open)}
+          aria-expanded={open}
+        >
+          <Table2 className="h-3 w-3" /> {selected ? `Extracting: ${selected.name}` : "Extract data"}
+        </button>
+        {open && (
+          <div className="mt-2 max-h-96 space-y-2 overflow-y-auto text-xs">
+            {schemas.length > 0 && (
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={!selected} disabled={disabled} onChange={() => onSelect(null)} />
+                <span className="text-muted-foreground">No extraction (prose summary only)</span>
+              </label>
+            )}
+            {schemas.map((schema) =>
+              editing !== "new" && editing?.id === schema.id ? (
+                <SchemaEditor key={schema.id} schema={schema} onSave={save} onCancel={() => setEditing(null)} />
+              ) : (
+                <div key={schema.id} className="flex items-center gap-2 rounded-md border border-border p-2">
+                  <input
+                    type="radio"
+                    checked={schema.id === selectedId}
+                    disabled={disabled}
+                    onChange={() => onSelect(schema.id)}
+                    aria-label={`Extract ${schema.name}`}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-sm font-medium">{schema.name}</div>
+                    <div className="truncate font-mono text-muted-foreground">{schemaColumns(schema.schema).join(", ")}</div>
+                  </div>
+                  <button type="button" className="text-muted-foreground hover:text-foreground" onClick={() => setEditing(schema)} aria-label={`Edit ${schema.name}`}>
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-destructive"
+                    onClick={() => {
+                      if (schema.id === selectedId) onSelect(null);
+                      onDelete(schema.id);
+                    }}
+                    aria-label={`Delete ${schema.name}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              )
+            )}
+            {editing === "new" ? (
+              <SchemaEditor onSave={save} onCancel={() => setEditing(null)} />
+            ) : (
+              <Button size="sm" variant="ghost" onClick={() => setEditing("new")}>
+                + New schema
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </MinorErrorBoundary>
+  );
+};
+
+export const ExtractionSchemaPicker = memo(ExtractionSchemaPickerComponent);
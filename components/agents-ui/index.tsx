@@ -17,3 +17,27 @@ export {
   CUSTOM_PERSONAS_EXAMPLE,
 } from './agent-composer-integration';
 
+export {
+  MacroLauncher,
+  type MacroLauncherProps,
+} from './macro-launcher';
+
+export {
+  DemonstrationRecorder,
+  type DemonstrationRecorderProps,
+} from './demonstration-recorder';
+
+export {
+  ScheduleManager,
+  type ScheduleManagerProps,
+} from './schedule-manager';
+
+export {
+  WatchManager,
+  type WatchManagerProps,
+} from './watch-manager';
+
+export {
+  ExtractionSchemaPicker,
+  type ExtractionSchemaPickerProps,
+} from './extraction-schema-picker';
@@ -0,0 +1,207 @@
+// Macro Launcher - saved macros in the composer
+// Lists recorded macros, edits their name, parameters and steps, and launches a replay
+
+"use client";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Pencil, Play, Trash2, X, Zap } from "lucide-react";
+import { memo, useState } from "react";
+import { MinorErrorBoundary } from "../ErrorBoundary";
+import type { Macro, MacroParameter } from "../../lib/macros";
+
+export interface MacroLauncherProps {
+  macros: Macro[];
+  onRun: (macro: Macro, values: Record<string, string>) => void;
+  onUpdate: (macro: Macro) => void;
+  onDelete: (macroId: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const inputType = (param: MacroParameter) =>
+  param.type === "number" ? "number" : param.type === "date" ? "date" : param.type === "url" ? "url" : "text";
+
+const MacroEditor = ({ macro, onSave, onCancel }: { macro: Macro; onSave: (macro: Macro) => void; onCancel: () => void }) => {
+  const [draft, setDraft] = useState<Macro>(macro);
+
+  const updateParameter = (index: number, fields: Partial<MacroParameter>) => {
+    setDraft((prev) => ({
+      ...prev,
+      parameters: prev.parameters.map((p, i) => (i === index ? { ...p, ...fields } : p)),
+    }));
+  };
+
+  return (
+    <div className="space-y-2 text-xs">
+      <input
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        className="w-full rounded border bg-background px-2 py-1 text-sm font-medium"
+        aria-label="Macro name"
+      />
+      <input
+        value={draft.description || ""}
+        onChange={(e) => setDraft({ ...draft, description: e.target.value || undefined })}
+        placeholder="Description"
+        className="w-full rounded border bg-background px-2 py-1"
+        aria-label="Macro description"
+      />
+
+      {draft.parameters.length > 0 && (
+        <div className="space-y-1">
+          <div className="font-medium text-muted-foreground">Parameters</div>
+          {draft.parameters.map((param, idx) => (
+            <div key={param.name} className="flex items-center gap-1">
+              <code className="min-w-20 text-muted-foreground">{`{{${param.name}}}`}</code>
+              <input
+                value={param.label}
+                onChange={(e) => updateParameter(idx, { label: e.target.value })}
+                className="w-24 rounded border bg-background px-1 py-0.5"
+                aria-label={`Label for ${param.name}`}
+              />
+              <input
+                type={inputType(param)}
+                value={param.defaultValue}
+                onChange={(e) => updateParameter(idx, { defaultValue: e.target.value })}
+                className="flex-1 rounded border bg-background px-1 py-0.5"
+                aria-label={`Default for ${param.name}`}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <div className="font-medium text-muted-foreground">Steps</div>
+        {draft.steps.map((step, idx) => (
+          <div key={step.id} className="flex items-center gap-1">
+            <span className="w-5 text-right text-muted-foreground">{idx + 1}.</span>
+            <span className="flex-1 truncate" title={JSON.stringify(step.input)}>{step.description}</span>
+            <button
+              type="button"
+              className="text-muted-foreground hover:text-destructive"
+              onClick={() => setDraft({ ...draft, steps: draft.steps.filter((s) => s.id !== step.id) })}
+              aria-label={`Remove step ${idx + 1}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="secondary"
+          disabled={!draft.name.trim() || draft.steps.length === 0}
+          onClick={() => onSave({ ...draft, name: draft.name.trim(), updatedAt: Date.now() })}
+        >
+          Save
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  );
+};
+
+const MacroRow = ({ macro, onRun, onEdit, onDelete, disabled }: {
+  macro: Macro;
+  onRun: (values: Record<string, string>) => void;
+  onEdit: () => void;
+  onDelete: () => void;
+  disabled?: boolean;
+}) => {
+  const [values, setValues] = useState<Record<string, string>>(
+    () => Object.fromEntries(macro.parameters.map((p) => [p.name, p.defaultValue]))
+  );
+
+  return (
+    <div className="space-y-1 rounded-md border border-border p-2 text-xs">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 min-w-0">
+          <div className="truncate text-sm font-medium">{macro.name}</div>
+          <div className="truncate text-muted-foreground">
+            {macro.description || `${macro.steps.length} steps`}
+            {macro.runCount > 0 && ` · run ${macro.runCount}×`}
+          </div>
+        </div>
+        <button type="button" className="text-muted-foreground hover:text-foreground" onClick={onEdit} aria-label={`Edit ${macro.name}`}>
+          <Pencil className="h-3 w-3" />
+        </button>
+        <button type="button" className="text-muted-foreground hover:text-destructive" onClick={onDelete} aria-label={`Delete ${macro.name}`}>
+          <Trash2 className="h-3 w-3" />
+        </button>
+        <Button size="sm" variant="secondary" disabled={disabled} onClick={() => onRun(values)}>
+          <Play className="h-3 w-3 mr-1" /> Run
+        </Button>
+      </div>
+      {macro.parameters.map((param) => (
+        <div key={param.name} className="flex items-center gap-2">
+          <label htmlFor={`${macro.id}-${param.name}`} className="min-w-24 text-muted-foreground">{param.label}</label>
+          <input
+            id={`${macro.id}-${param.name}`}
+            type={inputType(param)}
+            value={values[param.name] ?? ""}
+            onChange={(e) => setValues((prev) => ({ ...prev, [param.name]: e.target.value }))}
+            className="flex-1 rounded border bg-background px-1 py-0.5"
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const MacroLauncherComponent = ({ macros, onRun, onUpdate, onDelete, disabled, className }: MacroLauncherProps) => {
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  if (macros.length === 0) return null;
+
+  return (
+    <MinorErrorBoundary componentName="MacroLauncher">
+      <div className={cn("w-full", className)}>
+        <button
+          type="button"
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          onClick={() => setOpen(!open)}
+          aria-expanded={open}
+        >
+          <Zap className="h-3 w-3" /> Macros ({macros.length})
+        </button>
+        {open && (
+          <div className="mt-2 max-h-72 space-y-2 overflow-y-auto">
+            {macros.map((macro) =>
+              editingId === macro.id ? (
+                <div key={macro.id} className="rounded-md border border-border p-2">
+                  <MacroEditor
+                    macro={macro}
+                    onSave={(updated) => {
+                      onUpdate(updated);
+                      setEditingId(null);
+                    }}
+                    onCancel={() => setEditingId(null)}
+                  />
+                </div>
+              ) : (
+                <MacroRow
+                  key={`${macro.id}-${macro.updatedAt}`}
+                  macro={macro}
+                  disabled={disabled}
+                  onRun={(values) => {
+                    onRun(macro, values);
+                    setOpen(false);
+                  }}
+                  onEdit={() => setEditingId(macro.id)}
+                  onDelete={() => onDelete(macro.id)}
+                />
+              )
+            )}
+          </div>
+        )}
+      </div>
+    </MinorErrorBoundary>
+  );
+};
+
+export const MacroLauncher = memo(MacroLauncherComponent);
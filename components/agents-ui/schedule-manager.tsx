@@ -0,0 +1,366 @@
+// Schedule Manager - recurring tasks run by the background worker
+// Creates and edits scheduled tasks and shows each task's run history with the
+// result and what changed since the previous run
+
+"use client";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { CalendarClock, CheckCircle2, Loader2, Pencil, Play, Trash2, XCircle } from "lucide-react";
+import { memo, useState } from "react";
+import { MinorErrorBoundary } from "../ErrorBoundary";
+import {
+  createScheduledTask,
+  describeSchedule,
+  validateSchedule,
+  validateSiteAccess,
+  MIN_INTERVAL_MINUTES,
+  type ScheduledRun,
+  type ScheduledSiteAccess,
+  type ScheduledTask,
+  type ScheduleNotifyRule,
+  type ScheduleSpec,
+} from "../../lib/scheduler";
+import { ORIGIN_ACCESS_LABELS, ORIGIN_ACCESS_LEVELS, actionOrigin, type OriginAccess } from "../../lib/origin-permissions";
+
+export interface ScheduleManagerProps {
+  tasks: ScheduledTask[];
+  runs: Record<string, ScheduledRun[]>;
+  onSave: (task: ScheduledTask) => Promise<string | null>; // Resolves with an error message, if any
+  onDelete: (taskId: string) => void;
+  onRunNow: (taskId: string) => void;
+  className?: string;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const NOTIFY_LABELS: Record<ScheduleNotifyRule, string> = {
+  "on-change": "When the result changes",
+  always: "After every run",
+  "on-error": "Only on errors",
+  never: "Never",
+};
+
+const formatTime = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }) : "—";
+
+const ScheduleEditor = ({ task, onSave, onCancel }: {
+  task?: ScheduledTask;
+  onSave: (task: ScheduledTask) => Promise<string | null>;
+  onCancel: () => void;
+}) => {
+  const [draft, setDraft] = useState<ScheduledTask>(
+    () => task ?? createScheduledTask({ name: "", query: "", schedule: { kind: "daily", time: "09:00" } })
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const setSchedule = (schedule: ScheduleSpec) => setDraft({ ...draft, schedule });
+  const toggleWeekday = (day: number) => {
+    if (draft.schedule.kind !== "daily") return;
+    const current = draft.schedule.weekdays ?? [0, 1, 2, 3, 4, 5, 6];
+    const weekdays = current.includes(day) ? current.filter((d) => d !== day) : [...current, day];
+    setSchedule({ ...draft.schedule, weekdays: weekdays.length === 7 ? undefined : weekdays });
+  };
+
+  const sites = draft.siteAccess ?? [];
+  const setSites = (siteAccess: ScheduledSiteAccess[]) => setDraft({ ...draft, siteAccess: siteAccess.length ? siteAccess : undefined });
+  const updateSite = (index: number, site: Partial<ScheduledSiteAccess>) =>
+    setSites(sites.map((existing, i) => (i === index ? { ...existing, ...site } : existing)));
+  // The start URL's site is the one a task needs first
+  const addSite = () => {
+    const start = actionOrigin(draft.targetUrl?.trim());
+    setSites([...sites, { origin: start && !sites.some((site) => site.origin === start) ? start : "", access: "read" }]);
+  };
+
+  const save = async () => {
+    const siteAccess = sites.map((site) => ({ ...site, origin: actionOrigin(site.origin.trim()) ?? site.origin.trim() }));
+    const problem = !draft.query.trim()
+      ? "Describe the task"
+      : validateSchedule(draft.schedule) ?? validateSiteAccess(siteAccess);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    const next = {
+      ...draft,
+      name: draft.name.trim() || draft.query.trim().slice(0, 60),
+      query: draft.query.trim(),
+      siteAccess: siteAccess.length ? siteAccess : undefined,
+    };
+    setError(await onSave(next));
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border border-border p-2 text-xs">
+      <input
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        placeholder="Name, e.g. Status page check"
+        className="w-full rounded border bg-background px-2 py-1 text-sm"
+        aria-label="Schedule name"
+      />
+      <textarea
+        value={draft.query}
+        onChange={(e) => setDraft({ ...draft, query: e.target.value })}
+        placeholder="Check the status page and summarize new incidents"
+        rows={2}
+        className="w-full resize-none rounded border bg-background px-2 py-1"
+        aria-label="Task"
+      />
+      <input
+        value={draft.targetUrl ?? ""}
+        onChange={(e) => setDraft({ ...draft, targetUrl: e.target.value || undefined })}
+        placeholder="Start URL (optional)"
+        type="url"
+        className="w-full rounded border bg-background px-2 py-1"
+        aria-label="Start URL"
+      />
+      <input
+        value={draft.model ?? ""}
+        onChange={(e) => setDraft({ ...draft, model: e.target.value || undefined })}
+        placeholder="Model (default from settings)"
+        className="w-full rounded border bg-background px-2 py-1"
+        aria-label="Model"
+      />
+
+      <div className="space-y-1">
+        <div className="text-muted-foreground">Site access (a scheduled run can't ask for it)</div>
+        {sites.map((site, index) => (
+          <div key={index} className="flex items-center gap-1">
+            <input
+              value={site.origin}
+              onChange={(e) => updateSite(index, { origin: e.target.value })}
+              placeholder="https://status.example.com"
+              className="min-w-0 flex-1 rounded border bg-background px-2 py-1"
+              aria-label="Site"
+            />
+            <select
+              value={site.access}
+              onChange={(e) => updateSite(index, { access: e.target.value as OriginAccess })}
+              className="rounded border bg-background px-1 py-0.5"
+              aria-label={`Access to ${site.origin || "site"}`}
+            >
+              {ORIGIN_ACCESS_LEVELS.map((level) => (
+                <option key={level} value={level}>{ORIGIN_ACCESS_LABELS[level]}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className="text-muted-foreground hover:text-destructive"
+              onClick={() => setSites(sites.filter((_, i) => i !== index))}
+              aria-label={`Remove ${site.origin || "site"}`}
+            >
+              <Trash2 className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+        <Button size="sm" variant="ghost" onClick={addSite}>Add site</Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={draft.schedule.kind}
+          onChange={(e) => setSchedule(e.target.value === "interval"
+            ? { kind: "interval", everyMinutes: 60 }
+            : { kind: "daily", time: "09:00" })}
+          className="rounded border bg-background px-1 py-0.5"
+          aria-label="Schedule kind"
+        >
+          <option value="daily">Daily</option>
+          <option value="interval">Every</option>
+        </select>
+        {draft.schedule.kind === "interval" ? (
+          <label className="flex items-center gap-1">
+            <input
+              type="number"
+              min={MIN_INTERVAL_MINUTES}
+              value={draft.schedule.everyMinutes}
+              onChange={(e) => setSchedule({ kind: "interval", everyMinutes: Number(e.target.value) })}
+              className="w-20 rounded border bg-background px-1 py-0.5"
+            />
+            minutes
+          </label>
+        ) : (
+          <>
+            <input
+              type="time"
+              value={draft.schedule.time}
+              onChange={(e) => draft.schedule.kind === "daily" && setSchedule({ ...draft.schedule, time: e.target.value })}
+              className="rounded border bg-background px-1 py-0.5"
+              aria-label="Time"
+            />
+            <div className="flex gap-0.5">
+              {WEEKDAYS.map((label, day) => {
+                const on = draft.schedule.kind === "daily" && (draft.schedule.weekdays?.includes(day) ?? true);
+                return (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    className={cn("rounded px-1 py-0.5", on ? "bg-secondary text-secondary-foreground" : "text-muted-foreground")}
+                    aria-pressed={on}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2">
+        <span className="text-muted-foreground">Notify</span>
+        <select
+          value={draft.notify}
+          onChange={(e) => setDraft({ ...draft, notify: e.target.value as ScheduleNotifyRule })}
+          className="rounded border bg-background px-1 py-0.5"
+        >
+          {Object.entries(NOTIFY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </label>
+
+      {error && <div className="text-destructive">{error}</div>}
+      <div className="flex gap-2">
+        <Button size="sm" variant="secondary" onClick={save}>Save</Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  );
+};
+
+const RunStatusIcon = ({ status }: { status: ScheduledRun["status"] }) =>
+  status === "running" ? <Loader2 className="h-3 w-3 animate-spin" />
+    : status === "completed" ? <CheckCircle2 className="h-3 w-3 text-green-600" />
+    : <XCircle className="h-3 w-3 text-destructive" />;
+
+const RunDetails = ({ run }: { run: ScheduledRun }) => (
+  <div className="space-y-1 rounded bg-muted/40 p-2">
+    {run.error && <div className="text-destructive">{run.error}</div>}
+    {run.diff && (run.diff.added.length > 0 || run.diff.removed.length > 0) && (
+      <div className="space-y-0.5 font-mono">
+        {run.diff.added.map((line, idx) => (
+          <div key={`a${idx}`} className="text-green-700 dark:text-green-400">+ {line}</div>
+        ))}
+        {run.diff.removed.map((line, idx) => (
+          <div key={`r${idx}`} className="text-red-700 line-through dark:text-red-400">− {line}</div>
+        ))}
+      </div>
+    )}
+    {run.diff && !run.changed && <div className="text-muted-foreground">No change since the previous run</div>}
+    {run.result && <div className="max-h-40 overflow-y-auto whitespace-pre-wrap">{run.result}</div>}
+  </div>
+);
+
+const TaskRow = ({ task, runs, onEdit, onToggle, onDelete, onRunNow }: {
+  task: ScheduledTask;
+  runs: ScheduledRun[];
+  onEdit: () => void;
+  onToggle: () => void;
+  onDelete: () => void;
+  onRunNow: () => void;
+}) => {
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+  const running = runs.some((run) => run.status === "running");
+
+  return (
+    <div className="space-y-1 rounded-md border border-border p-2 text-xs">
+      <div className="flex items-center gap-2">
+        <input type="checkbox" checked={task.enabled} onChange={onToggle} aria-label={`Enable ${task.name}`} />
+        <div className="min-w-0 flex-1">
+          <div className="truncate text-sm font-medium">{task.name}</div>
+          <div className="truncate text-muted-foreground">
+            {describeSchedule(task.schedule)}
+            {task.enabled && task.nextRunAt && ` · next ${formatTime(task.nextRunAt)}`}
+          </div>
+        </div>
+        <button type="button" className="text-muted-foreground hover:text-foreground" onClick={onEdit} aria-label={`Edit ${task.name}`}>
+          <Pencil className="h-3 w-3" />
+        </button>
+        <button type="button" className="text-muted-foreground hover:text-destructive" onClick={onDelete} aria-label={`Delete ${task.name}`}>
+          <Trash2 className="h-3 w-3" />
+        </button>
+        <Button size="sm" variant="secondary" disabled={running} onClick={onRunNow}>
+          <Play className="mr-1 h-3 w-3" /> Run now
+        </Button>
+      </div>
+
+      {runs.length > 0 && (
+        <div className="space-y-1">
+          {runs.slice(0, 5).map((run) => (
+            <div key={run.id}>
+              <button
+                type="button"
+                className="flex w-full items-center gap-2 text-left hover:text-foreground"
+                onClick={() => setOpenRunId(openRunId === run.id ? null : run.id)}
+                aria-expanded={openRunId === run.id}
+              >
+                <RunStatusIcon status={run.status} />
+                <span>{formatTime(run.startedAt)}</span>
+                {run.changed && <span className="rounded bg-amber-100 px-1 text-amber-900 dark:bg-amber-900/40 dark:text-amber-200">changed</span>}
+                <span className="flex-1 truncate text-muted-foreground">{run.error || run.result?.split("\n")[0]}</span>
+              </button>
+              {openRunId === run.id && <RunDetails run={run} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ScheduleManagerComponent = ({ tasks, runs, onSave, onDelete, onRunNow, className }: ScheduleManagerProps) => {
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<ScheduledTask | "new" | null>(null);
+
+  const save = async (task: ScheduledTask) => {
+    const error = await onSave(task);
+    if (!error) setEditing(null);
+    return error;
+  };
+
+  return (
+    <MinorErrorBoundary componentName="ScheduleManager">
+      <div className={cn("w-full", className)}>
+        <button
+          type="button"
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          onClick={() => setOpen(!open)}
+          aria-expanded={open}
+        >
+          <CalendarClock className="h-3 w-3" /> Schedules{tasks.length > 0 ? ` (${tasks.length})` : ""}
+        </button>
+        {open && (
+          <div className="mt-2 max-h-96 space-y-2 overflow-y-auto">
+            {tasks.map((task) =>
+              editing !== "new" && editing?.id === task.id ? (
+                <ScheduleEditor key={task.id} task={task} onSave={save} onCancel={() => setEditing(null)} />
+              ) : (
+                <TaskRow
+                  key={task.id}
+                  task={task}
+                  runs={runs[task.id] || []}
+                  onEdit={() => setEditing(task)}
+                  onToggle={() => void onSave({ ...task, enabled: !task.enabled })}
+                  onDelete={() => onDelete(task.id)}
+                  onRunNow={() => onRunNow(task.id)}
+                />
+              )
+            )}
+            {editing === "new" ? (
+              <ScheduleEditor onSave={save} onCancel={() => setEditing(null)} />
+            ) : (
+              <Button size="sm" variant="ghost" onClick={() => setEditing("new")}>
+                + New schedule
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </MinorErrorBoundary>
+  );
+};
+
+export const ScheduleManager = memo(ScheduleManagerComponent);
@@ -0,0 +1,274 @@
+// Watch Manager - pages and regions checked for changes by the background worker
+// Creates and edits watches and lists each watch's detected changes with the
+// model's verdict and the highlighted diff
+
+"use client";
+
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Eye, Pencil, RefreshCw, Trash2 } from "lucide-react";
+import { memo, useEffect, useState } from "react";
+import { MinorErrorBoundary } from "../ErrorBoundary";
+import {
+  createPageWatch,
+  MIN_WATCH_INTERVAL_MINUTES,
+  type DiffLine,
+  type PageWatch,
+  type WatchChange,
+} from "../../lib/page-watch";
+
+export interface WatchManagerProps {
+  watches: PageWatch[];
+  changes: Record<string, WatchChange[]>;
+  getCurrentUrl?: () => Promise<string | undefined>; // Prefills new watches with the open page
+  onSave: (watch: PageWatch) => Promise<string | null>; // Resolves with an error message, if any
+  onDelete: (watchId: string) => void;
+  onCheckNow: (watchId: string) => void;
+  className?: string;
+}
+
+const formatTime = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }) : "—";
+
+const WatchEditor = ({ watch, getCurrentUrl, onSave, onCancel }: {
+  watch?: PageWatch;
+  getCurrentUrl?: () => Promise<string | undefined>;
+  onSave: (watch: PageWatch) => Promise<string | null>;
+  onCancel: () => void;
+}) => {
+  const [draft, setDraft] = useState<PageWatch>(() => watch ?? createPageWatch({ url: "", criterion: "" }));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (watch || !getCurrentUrl) return;
+    void getCurrentUrl().then((url) => {
+      if (url && /^https?:/.test(url)) setDraft((current) => (current.url ? current : { ...current, url }));
+    });
+  }, [watch, getCurrentUrl]);
+
+  const save = async () => {
+    if (!/^https?:\/\//.test(draft.url.trim())) {
+      setError("Enter the page URL");
+      return;
+    }
+    if (!draft.criterion.trim()) {
+      setError("Describe what change you care about");
+      return;
+    }
+    // Normalized the same way as new watches; the name defaults to the host and region
+    const normalized = createPageWatch(draft);
+    setError(await onSave({ ...normalized, id: draft.id, createdAt: draft.createdAt, enabled: draft.enabled }));
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border border-border p-2 text-xs">
+      <input
+        value={draft.url}
+        onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+        placeholder="https://status.example.com"
+        type="url"
+        className="w-full rounded border bg-background px-2 py-1"
+        aria-label="Page URL"
+      />
+      <input
+        value={draft.selector ?? ""}
+        onChange={(e) => setDraft({ ...draft, selector: e.target.value || undefined })}
+        placeholder="Region CSS selector (whole page when empty)"
+        className="w-full rounded border bg-background px-2 py-1 font-mono"
+        aria-label="Region selector"
+      />
+      <textarea
+        value={draft.criterion}
+        onChange={(e) => setDraft({ ...draft, criterion: e.target.value })}
+        placeholder="Alert me when a new incident is posted"
+        rows={2}
+        className="w-full resize-none rounded border bg-background px-2 py-1"
+        aria-label="Criterion"
+      />
+      {watch && (
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Name"
+          className="w-full rounded border bg-background px-2 py-1"
+          aria-label="Watch name"
+        />
+      )}
+      <label className="flex items-center gap-1">
+        Check every
+        <input
+          type="number"
+          min={MIN_WATCH_INTERVAL_MINUTES}
+          value={draft.intervalMinutes}
+          onChange={(e) => setDraft({ ...draft, intervalMinutes: Number(e.target.value) })}
+          className="w-20 rounded border bg-background px-1 py-0.5"
+        />
+        minutes
+      </label>
+
+      {error && <div className="text-destructive">{error}</div>}
+      <div className="flex gap-2">
+        <Button size="sm" variant="secondary" onClick={save}>Save</Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  );
+};
+
+const DiffLines = ({ lines }: { lines: DiffLine[] }) => (
+  <div className="space-y-0.5 font-mono">
+    {lines.map((line, idx) => (
+      <div
+        key={idx}
+        className={cn(
+          "whitespace-pre-wrap break-words",
+          line.op === "add" && "bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400",
+          line.op === "remove" && "bg-red-50 text-red-700 line-through dark:bg-red-900/30 dark:text-red-400",
+          line.op === "same" && "text-muted-foreground"
+        )}
+      >
+        {line.op === "add" ? "+ " : line.op === "remove" ? "− " : "  "}{line.line}
+      </div>
+    ))}
+  </div>
+);
+
+const ChangeDetails = ({ change }: { change: WatchChange }) => (
+  <div className="space-y-1 rounded bg-muted/40 p-2">
+    <div>{change.explanation}</div>
+    {change.diff.text.length > 0 && <DiffLines lines={change.diff.text} />}
+    {change.diff.structure.length > 0 && (
+      <div className="space-y-0.5">
+        <div className="text-muted-foreground">Structure</div>
+        <DiffLines lines={change.diff.structure} />
+      </div>
+    )}
+  </div>
+);
+
+const WatchRow = ({ watch, changes, onEdit, onToggle, onDelete, onCheckNow }: {
+  watch: PageWatch;
+  changes: WatchChange[];
+  onEdit: () => void;
+  onToggle: () => void;
+  onDelete: () => void;
+  onCheckNow: () => void;
+}) => {
+  const [openChangeId, setOpenChangeId] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  // Unjudged changes stay visible; nobody has decided they are minor
+  const notable = changes.filter((change) => change.meaningful || change.judgeError);
+  const visible = (showAll ? changes : notable).slice(0, 5);
+  const hidden = changes.length - notable.length;
+
+  return (
+    <div className="space-y-1 rounded-md border border-border p-2 text-xs">
+      <div className="flex items-center gap-2">
+        <input type="checkbox" checked={watch.enabled} onChange={onToggle} aria-label={`Enable ${watch.name}`} />
+        <div className="min-w-0 flex-1">
+          <div className="truncate text-sm font-medium">{watch.name}</div>
+          <div className="truncate text-muted-foreground" title={watch.criterion}>
+            Every {watch.intervalMinutes} min · checked {formatTime(watch.lastCheckedAt)}
+          </div>
+        </div>
+        <button type="button" className="text-muted-foreground hover:text-foreground" onClick={onEdit} aria-label={`Edit ${watch.name}`}>
+          <Pencil className="h-3 w-3" />
+        </button>
+        <button type="button" className="text-muted-foreground hover:text-destructive" onClick={onDelete} aria-label={`Delete ${watch.name}`}>
+          <Trash2 className="h-3 w-3" />
+        </button>
+        <Button size="sm" variant="secondary" onClick={onCheckNow}>
+          <RefreshCw className="mr-1 h-3 w-3" /> Check
+        </Button>
+      </div>
+
+      {watch.lastError && (
+        <div className="flex items-center gap-1 text-destructive">
+          <AlertTriangle className="h-3 w-3" /> {watch.lastError}
+        </div>
+      )}
+
+      {visible.length > 0 && (
+        <div className="space-y-1">
+          {visible.map((change) => (
+            <div key={change.id}>
+              <button
+                type="button"
+                className="flex w-full items-center gap-2 text-left hover:text-foreground"
+                onClick={() => setOpenChangeId(openChangeId === change.id ? null : change.id)}
+                aria-expanded={openChangeId === change.id}
+              >
+                <span>{formatTime(change.detectedAt)}</span>
+                {change.meaningful && <span className="rounded bg-amber-100 px-1 text-amber-900 dark:bg-amber-900/40 dark:text-amber-200">alert</span>}
+                {change.judgeError && <span className="rounded bg-muted px-1 text-muted-foreground" title={change.judgeError}>unjudged</span>}
+                <span className="text-green-700 dark:text-green-400">+{change.diff.added}</span>
+                <span className="text-red-700 dark:text-red-400">−{change.diff.removed}</span>
+                <span className="flex-1 truncate text-muted-foreground">{change.explanation}</span>
+              </button>
+              {openChangeId === change.id && <ChangeDetails change={change} />}
+            </div>
+          ))}
+        </div>
+      )}
+      {hidden > 0 && (
+        <button type="button" className="text-muted-foreground hover:text-foreground" onClick={() => setShowAll(!showAll)}>
+          {showAll ? "Hide minor changes" : `Show ${hidden} minor change${hidden === 1 ? "" : "s"}`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+const WatchManagerComponent = ({ watches, changes, getCurrentUrl, onSave, onDelete, onCheckNow, className }: WatchManagerProps) => {
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<PageWatch | "new" | null>(null);
+
+  const save = async (watch: PageWatch) => {
+    const error = await onSave(watch);
+    if (!error) setEditing(null);
+    return error;
+  };
+
+  return (
+    <MinorErrorBoundary componentName="WatchManager">
+      <div className={cn("w-full", className)}>
+        <button
+          type="button"
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          onClick={() => setOpen(!open)}
+          aria-expanded={open}
+        >
+          <Eye className="h-3 w-3" /> Watches{watches.length > 0 ? ` (${watches.length})` : ""}
+        </button>
+        {open && (
+          <div className="mt-2 max-h-96 space-y-2 overflow-y-auto">
+            {watches.map((watch) =>
+              editing !== "new" && editing?.id === watch.id ? (
+                <WatchEditor key={watch.id} watch={watch} onSave={save} onCancel={() => setEditing(null)} />
+              ) : (
+                <WatchRow
+                  key={watch.id}
+                  watch={watch}
+                  changes={changes[watch.id] || []}
+                  onEdit={() => setEditing(watch)}
+                  onToggle={() => void onSave({ ...watch, enabled: !watch.enabled })}
+                  onDelete={() => onDelete(watch.id)}
+                  onCheckNow={() => onCheckNow(watch.id)}
+                />
+              )
+            )}
+            {editing === "new" ? (
+              <WatchEditor getCurrentUrl={getCurrentUrl} onSave={save} onCancel={() => setEditing(null)} />
+            ) : (
+              <Button size="sm" variant="ghost" onClick={() => setEditing("new")}>
+                + Watch a page
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </MinorErrorBoundary>
+  );
+};
+
+export const WatchManager = memo(WatchManagerComponent);
@@ -13,6 +13,16 @@ import type {
   SummarizationStepOutput,
   BrowserAutomationWorkflowOutput 
 } from "../../schemas/workflow-schemas";
+import type { StopReason } from "../../lib/stop-policy";
+import type { AskUserRequest, AskUserAnswer } from "../../lib/ask-user";
+import type { ExtractedTable } from "../../types";
+import {
+  datasetToCSV,
+  datasetToJSONLines,
+  datasetToMarkdownTable,
+  datasetFileName,
+  type ExtractionDataset,
+} from "../../lib/structured-extraction";
 
 // Import and re-export the new SummaryArtifact
 import { SummaryArtifact } from "./summary-artifact";
@@ -515,6 +525,404 @@ const WorkflowOutputArtifactComponent: React.FC<WorkflowOutputArtifactProps> = (
 
 export const WorkflowOutputArtifact = memo(WorkflowOutputArtifactComponent);
 
+/**
+ * Stop Reason Artifact View
+ * Shows which stop policy limit ended the run, with a "continue for N more steps" action
+ */
+export interface StopReasonArtifactProps {
+  stopReason: StopReason;
+  onContinue?: (extraSteps: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const StopReasonArtifactComponent: React.FC<StopReasonArtifactProps> = ({
+  stopReason,
+  onContinue,
+  disabled,
+  className,
+}) => {
+  const [extraSteps, setExtraSteps] = React.useState(10);
+
+  return (
+    <div className={cn("rounded-lg border border-amber-300 bg-card p-3 text-sm", className)}>
+      <div className="font-medium text-amber-600 dark:text-amber-400">
+        ⏹ Stopped after {stopReason.stepCount} step{stopReason.stepCount === 1 ? "" : "s"}
+      </div>
+      <div className="text-xs text-muted-foreground mt-1">{stopReason.message}</div>
+      {onContinue && (
+        <div className="mt-2 flex items-center gap-2 text-xs">
+          <button
+            type="button"
+            className="rounded border px-2 py-1 hover:bg-accent disabled:opacity-50"
+            disabled={disabled}
+            onClick={() => onContinue(extraSteps)}
+          >
+            Continue for
+          </button>
+          <input
+            type="number"
+            min={1}
+            max={500}
+            value={extraSteps}
+            onChange={(e) => setExtraSteps(Math.max(1, Math.min(500, Number(e.target.value) || 1)))}
+            className="w-16 rounded border bg-background px-1 py-1"
+            aria-label="Extra steps"
+          />
+          <span>more steps</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const StopReasonArtifact = memo(StopReasonArtifactComponent);
+
+/**
+ * Question from the agent's askUser tool
+ * Pending questions take free text, a choice or yes/no; answered ones show the answer
+ */
+export interface AskUserArtifactProps {
+  request: AskUserRequest;
+  answer?: AskUserAnswer;
+  onAnswer?: (answer: AskUserAnswer) => void;
+  className?: string;
+}
+
+const AskUserArtifactComponent: React.FC<AskUserArtifactProps> = ({
+  request,
+  answer,
+  onAnswer,
+  className,
+}) => {
+  const [text, setText] = React.useState("");
+  const [choices, setChoices] = React.useState<string[]>([]);
+
+  const submit = (fields: Partial<AskUserAnswer>, answered = true) => {
+    onAnswer?.({ requestId: request.id, answered, timestamp: Date.now(), ...fields });
+  };
+
+  const toggleChoice = (option: string) => {
+    setChoices((prev) =>
+      request.kind === "single_choice"
+        ? [option]
+        : prev.includes(option) ? prev.filter((c) => c !== option) : [...prev, option]
+    );
+  };
+
+  const answerText = answer
+    ? !answer.answered
+      ? "No answer"
+      : request.kind === "confirm"
+        ? (answer.confirmed ? "Yes" : "No")
+        : request.kind === "text" ? answer.text : answer.choices?.join(", ")
+    : null;
+
+  return (
+    <div className={cn("rounded-lg border border-blue-300 bg-card p-3 text-sm", className)}>
+      <div className="font-medium text-foreground">❓ {request.question}</div>
+      {request.reason && <div className="text-xs text-muted-foreground mt-1">{request.reason}</div>}
+
+      {answer ? (
+        <div className="mt-2 text-xs">
+          <span className="text-muted-foreground">Answer: </span>
+          <span className={cn(!answer.answered && "text-muted-foreground italic")}>{answerText}</span>
+        </div>
+      ) : !onAnswer ? (
+        <div className="mt-2 text-xs text-muted-foreground">No longer waiting for an answer</div>
+      ) : (
+        <div className="mt-2 space-y-2 text-xs">
+          {request.kind === "text" && (
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={request.placeholder}
+              rows={2}
+              className="w-full rounded border bg-background px-2 py-1"
+              aria-label={request.question}
+            />
+          )}
+
+          {(request.kind === "single_choice" || request.kind === "multi_choice") && (
+            <div className="space-y-1">
+              {request.options?.map((option, idx) => (
+                <label key={`${request.id}-opt-${idx}`} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type={request.kind === "single_choice" ? "radio" : "checkbox"}
+                    name={request.id}
+                    checked={choices.includes(option)}
+                    onChange={() => toggleChoice(option)}
+                  />
+                  <span>{option}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            {request.kind === "confirm" ? (
+              <>
+                <button
+                  type="button"
+                  className="rounded border px-2 py-1 hover:bg-accent"
+                  onClick={() => submit({ confirmed: true })}
+                >
+                  Yes
+                </button>
+                <button
+                  type="button"
+                  className="rounded border px-2 py-1 hover:bg-accent"
+                  onClick={() => submit({ confirmed: false })}
+                >
+                  No
+                </button>
+              </>
+            ) : (
+              <button
+                type="button"
+                className="rounded border px-2 py-1 hover:bg-accent disabled:opacity-50"
+                disabled={request.kind === "text" ? !text.trim() : choices.length === 0}
+                onClick={() => submit(request.kind === "text" ? { text } : { choices })}
+              >
+                Answer
+              </button>
+            )}
+            <button
+              type="button"
+              className="rounded px-2 py-1 text-muted-foreground hover:bg-accent"
+              onClick={() => submit({}, false)}
+            >
+              Skip
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const AskUserArtifact = memo(AskUserArtifactComponent);
+
+/**
+ * Dataset from structured extraction
+ * Previews the rows and exports them as CSV, JSON Lines or a Markdown table
+ */
+export interface DatasetArtifactProps {
+  dataset: ExtractionDataset;
+  className?: string;
+}
+
+const DATASET_PREVIEW_ROWS = 20;
+
+const STOPPED_BECAUSE_LABELS: Record<ExtractionDataset["stoppedBecause"], string> = {
+  "no-next-page": "no next page",
+  "max-pages": "page limit reached",
+  "no-new-items": "no new rows on the last page",
+  "revisited-page": "pagination looped back",
+  error: "error",
+};
+
+const DatasetArtifactComponent: React.FC<DatasetArtifactProps> = ({
+  dataset,
+  className,
+}) => {
+  const [copied, setCopied] = React.useState(false);
+
+  const download = (extension: "csv" | "jsonl") => {
+    const blob = extension === "csv"
+      ? new Blob([datasetToCSV(dataset)], { type: "text/csv" })
+      : new Blob([datasetToJSONLines(dataset)], { type: "application/x-ndjson" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = datasetFileName(dataset, extension);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const copyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(datasetToMarkdownTable(dataset));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  };
+
+  const cell = (value: unknown) =>
+    value === null || value === undefined ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+  return (
+    <div className={cn("rounded-lg border bg-card p-3 text-sm", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="font-medium">
+          📊 {dataset.name} · {dataset.rows.length} row{dataset.rows.length === 1 ? "" : "s"}
+        </div>
+        <div className="flex gap-1 text-xs">
+          <button type="button" className="rounded border px-2 py-1 hover:bg-accent" disabled={dataset.rows.length === 0} onClick={() => download("csv")}>
+            CSV
+          </button>
+          <button type="button" className="rounded border px-2 py-1 hover:bg-accent" disabled={dataset.rows.length === 0} onClick={() => download("jsonl")}>
+            JSON Lines
+          </button>
+          <button type="button" className="rounded border px-2 py-1 hover:bg-accent" disabled={dataset.rows.length === 0} onClick={copyMarkdown}>
+            {copied ? "Copied" : "Copy table"}
+          </button>
+        </div>
+      </div>
+      <div className="text-xs text-muted-foreground mt-1">
+        {dataset.pages.length} page{dataset.pages.length === 1 ? "" : "s"} · stopped: {STOPPED_BECAUSE_LABELS[dataset.stoppedBecause]}
+        {dataset.duplicateCount > 0 && ` · ${dataset.duplicateCount} duplicates dropped`}
+        {dataset.invalidCount > 0 && ` · ${dataset.invalidCount} invalid rows dropped`}
+      </div>
+      {dataset.error && <div className="text-xs text-destructive mt-1">{dataset.error}</div>}
+
+      {dataset.rows.length > 0 && (
+        <div className="mt-2 max-h-64 overflow-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr>
+                {dataset.columns.map((column) => (
+                  <th key={column} className="border-b px-1 py-0.5 text-left font-medium">{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {dataset.rows.slice(0, DATASET_PREVIEW_ROWS).map((row, idx) => (
+                <tr key={idx}>
+                  {dataset.columns.map((column) => (
+                    <td key={column} className="border-b px-1 py-0.5 align-top">{cell(row[column])}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {dataset.rows.length > DATASET_PREVIEW_ROWS && (
+            <div className="text-xs text-muted-foreground mt-1">
+              ... and {dataset.rows.length - DATASET_PREVIEW_ROWS} more (export to see all)
+            </div>
+          )}
+        </div>
+      )}
+
+      {dataset.invalidSamples.length > 0 && (
+        <details className="mt-2 text-xs">
+          <summary className="cursor-pointer text-muted-foreground">Why rows were rejected</summary>
+          <ul className="mt-1 space-y-0.5">
+            {dataset.invalidSamples.map((sample, idx) => (
+              <li key={idx} className="font-mono">{sample.error}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export const DatasetArtifact = memo(DatasetArtifactComponent);
+
+/**
+ * Tables found by the extractTable tool
+ * One block per table, grid or repeated list, each copyable as Markdown or CSV
+ */
+export interface TableArtifactProps {
+  tables: ExtractedTable[];
+  className?: string;
+}
+
+const TABLE_KIND_LABELS: Record<ExtractedTable["kind"], string> = {
+  table: "Table",
+  grid: "Grid",
+  list: "List",
+};
+
+const ExtractedTableView = ({ table }: { table: ExtractedTable }) => {
+  const [copied, setCopied] = React.useState<"markdown" | "csv" | null>(null);
+  const dataset = useMemo(
+    () => ({ columns: table.headers, rows: table.rows.map((row) => row.cells) }),
+    [table]
+  );
+
+  const copy = async (format: "markdown" | "csv") => {
+    try {
+      await navigator.clipboard.writeText(format === "csv" ? datasetToCSV(dataset) : datasetToMarkdownTable(dataset));
+      setCopied(format);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0 truncate text-xs font-medium">
+          {TABLE_KIND_LABELS[table.kind]}{table.caption ? `: ${table.caption}` : ""} · {table.rowCount} row{table.rowCount === 1 ? "" : "s"}
+          {table.truncated && ` (showing ${table.rows.length})`}
+        </div>
+        <div className="flex shrink-0 gap-1 text-xs">
+          <button type="button" className="rounded border px-2 py-1 hover:bg-accent" onClick={() => copy("markdown")}>
+            {copied === "markdown" ? "Copied" : "Markdown"}
+          </button>
+          <button type="button" className="rounded border px-2 py-1 hover:bg-accent" onClick={() => copy("csv")}>
+            {copied === "csv" ? "Copied" : "CSV"}
+          </button>
+        </div>
+      </div>
+      <div className="mt-1 max-h-64 overflow-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr>
+              {table.headers.map((header) => (
+                <th key={header} className="border-b px-1 py-0.5 text-left font-medium">{header}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.slice(0, DATASET_PREVIEW_ROWS).map((row) => (
+              <tr key={row.ref} title={row.ref}>
+                {table.headers.map((header) => (
+                  <td key={header} className="border-b px-1 py-0.5 align-top">{row.cells[header] ?? ""}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {table.rows.length > DATASET_PREVIEW_ROWS && (
+          <div className="text-xs text-muted-foreground mt-1">
+            ... and {table.rows.length - DATASET_PREVIEW_ROWS} more (copy to see all)
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const TableArtifactComponent: React.FC<TableArtifactProps> = ({
+  tables,
+  className,
+}) => {
+  if (tables.length === 0) return null;
+
+  return (
+    <MinorErrorBoundary componentName="TableArtifact">
+      <div className={cn("rounded-lg border bg-card p-3 text-sm space-y-3", className)}>
+        <div className="font-medium">
+          📋 {tables.length} table{tables.length === 1 ? "" : "s"} extracted
+        </div>
+        {tables.map((table) => (
+          <ExtractedTableView key={table.ref} table={table} />
+        ))}
+      </div>
+    </MinorErrorBoundary>
+  );
+};
+
+export const TableArtifact = memo(TableArtifactComponent);
+
 // Re-export for convenience
 import { EnhancedPlanDisplay } from "./structured-output";
 export { EnhancedPlanDisplay };
@@ -1,12 +1,23 @@
 // Guardrails Monitor Component
 // Visual dashboard for permissions, audit logs, and security statistics
+// The audit log is read from lib/audit-store, so it covers past sessions as well
 
 import React from 'react';
 import {
   globalGuardrails,
   type AuditLogEntry,
+  matchesAuditFilters,
+  type AuditLogFilters,
   type GuardrailViolation,
 } from '../../lib/guardrails';
+import {
+  auditToCsv,
+  auditToJsonLines,
+  buildRunTimeline,
+  getDefaultAuditStore,
+  type AuditRunRecord,
+  type StoredAuditEntry,
+} from '../../lib/audit-store';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './card';
 import { Badge } from './badge';
 import {
@@ -17,6 +28,8 @@ import {
   AlertTriangle,
   Clock,
   TrendingUp,
+  Download,
+  ArrowLeft,
 } from 'lucide-react';
 import { Button } from './button';
 import {
@@ -33,15 +46,15 @@ interface GuardrailsMonitorProps {
 
 export function GuardrailsMonitor({ refreshInterval = 5000 }: GuardrailsMonitorProps) {
   const [stats, setStats] = React.useState(globalGuardrails.getStats());
-  const [auditLog, setAuditLog] = React.useState(globalGuardrails.getAuditLog());
   const [role, setRole] = React.useState(globalGuardrails.getRole());
+  const [refreshCount, setRefreshCount] = React.useState(0);
 
   // Auto-refresh
   React.useEffect(() => {
     const interval = setInterval(() => {
       setStats(globalGuardrails.getStats());
-      setAuditLog(globalGuardrails.getAuditLog());
       setRole(globalGuardrails.getRole());
+      setRefreshCount((count) => count + 1);
     }, refreshInterval);
 
     return () => clearInterval(interval);
@@ -49,8 +62,8 @@ export function GuardrailsMonitor({ refreshInterval = 5000 }: GuardrailsMonitorP
 
   const refresh = () => {
     setStats(globalGuardrails.getStats());
-    setAuditLog(globalGuardrails.getAuditLog());
     setRole(globalGuardrails.getRole());
+    setRefreshCount((count) => count + 1);
   };
 
   const successRate =
@@ -210,22 +223,7 @@ export function GuardrailsMonitor({ refreshInterval = 5000 }: GuardrailsMonitorP
         </div>
 
         {/* Audit Log */}
-        <div>
-          <h3 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
-            <Clock className="h-4 w-4" />
-            Recent Audit Log ({auditLog.length} entries)
-          </h3>
-
-          {auditLog.length === 0 ? (
-            <p className="text-sm text-gray-500 text-center py-4">No audit entries yet</p>
-          ) : (
-            <Accordion type="single" collapsible className="space-y-2">
-              {auditLog.slice(-10).reverse().map((entry, index) => (
-                <AuditLogItem key={index} entry={entry} />
-              ))}
-            </Accordion>
-          )}
-        </div>
+        <AuditLogViewer refreshKey={refreshCount} />
       </CardContent>
     </Card>
   );
@@ -248,11 +246,199 @@ function PermissionLevelBadge({ level }: { level: string }) {
   );
 }
 
+const AUDIT_RESULTS: Array<AuditLogEntry['result']> = ['allowed', 'blocked', 'requires_approval', 'flagged'];
+const AUDIT_SEVERITIES: Array<GuardrailViolation['severity']> = ['low', 'medium', 'high', 'critical'];
+
+function downloadAuditLog(entries: StoredAuditEntry[], extension: 'csv' | 'jsonl') {
+  const blob = extension === 'csv'
+    ? new Blob([auditToCsv(entries)], { type: 'text/csv' })
+    : new Blob([auditToJsonLines(entries)], { type: 'application/x-ndjson' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `guardrails-audit-${new Date().toISOString().slice(0, 10)}.${extension}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Persisted audit log: filters, per-run drill-down with the tool trajectory, and export
+ */
+function AuditLogViewer({ refreshKey }: { refreshKey: number }) {
+  const [filters, setFilters] = React.useState<AuditLogFilters>({});
+  const [entries, setEntries] = React.useState<StoredAuditEntry[]>([]);
+  const [runs, setRuns] = React.useState<AuditRunRecord[]>([]);
+  const [selectedRun, setSelectedRun] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    const store = getDefaultAuditStore();
+    Promise.all([store.query(), store.listRuns()])
+      .then(([allEntries, allRuns]) => {
+        if (cancelled) return;
+        setEntries(allEntries);
+        setRuns(allRuns);
+        setError(null);
+      })
+      .catch((err) => !cancelled && setError(err?.message || String(err)));
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const tools = React.useMemo(() => Array.from(new Set(entries.map((entry) => entry.tool))).sort(), [entries]);
+  const origins = React.useMemo(
+    () => Array.from(new Set(entries.map((entry) => entry.origin).filter((origin): origin is string => !!origin))).sort(),
+    [entries]
+  );
+  const filtered = React.useMemo(
+    () => entries.filter((entry) => matchesAuditFilters(entry, filters)),
+    [entries, filters]
+  );
+  const run = selectedRun ? runs.find((item) => item.runId === selectedRun) : undefined;
+
+  const setFilter = (key: 'tool' | 'origin' | 'result' | 'severity', value: string) => {
+    setFilters({ ...filters, [key]: value || undefined });
+  };
+
+  const filterSelect = (key: 'tool' | 'origin' | 'result' | 'severity', label: string, options: string[]) => (
+    <select
+      value={(filters[key] as string | undefined) ?? ''}
+      onChange={(e) => setFilter(key, e.target.value)}
+      className="rounded border bg-background px-1 py-0.5 text-xs"
+      aria-label={label}
+    >
+      <option value="">All {label.toLowerCase()}</option>
+      {options.map((option) => (
+        <option key={option} value={option}>{option}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <Clock className="h-4 w-4" />
+          Audit Log ({filtered.length} of {entries.length} entries)
+        </h3>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" disabled={filtered.length === 0} onClick={() => downloadAuditLog(filtered, 'jsonl')}>
+            <Download className="h-4 w-4 mr-1" />
+            JSONL
+          </Button>
+          <Button variant="outline" size="sm" disabled={filtered.length === 0} onClick={() => downloadAuditLog(filtered, 'csv')}>
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        {filterSelect('tool', 'Tools', tools)}
+        {filterSelect('origin', 'Origins', origins)}
+        {filterSelect('result', 'Results', AUDIT_RESULTS)}
+        {filterSelect('severity', 'Severities', AUDIT_SEVERITIES)}
+      </div>
+
+      {error && <p className="text-xs text-red-600 mb-3">Could not read the audit log: {error}</p>}
+
+      {run ? (
+        <RunTimeline run={run} entries={entries} onBack={() => setSelectedRun(null)} />
+      ) : (
+        runs.length > 0 && (
+          <div className="mb-4">
+            <p className="text-xs font-semibold text-gray-600 mb-2">Runs</p>
+            <div className="space-y-1">
+              {runs.slice(0, 10).map((item) => (
+                <button
+                  key={item.runId}
+                  onClick={() => setSelectedRun(item.runId)}
+                  className="w-full flex items-center justify-between rounded border border-gray-200 bg-gray-50 px-3 py-2 text-left hover:bg-gray-100"
+                >
+                  <span className="text-xs text-gray-800 truncate">{item.query}</span>
+                  <span className="text-xs text-gray-500 shrink-0 ml-2">
+                    {item.trajectory.length} steps · {item.status} · {new Date(item.startedAt).toLocaleString()}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )
+      )}
+
+      {filtered.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">No audit entries yet</p>
+      ) : (
+        <Accordion type="single" collapsible className="space-y-2">
+          {filtered.slice(-50).reverse().map((entry, index) => (
+            <AuditLogItem
+              key={entry.id ?? index}
+              entry={entry}
+              onSelectRun={entry.runId && runs.some((item) => item.runId === entry.runId) ? () => setSelectedRun(entry.runId!) : undefined}
+            />
+          ))}
+        </Accordion>
+      )}
+    </div>
+  );
+}
+
+function RunTimeline({ run, entries, onBack }: { run: AuditRunRecord; entries: StoredAuditEntry[]; onBack: () => void }) {
+  const timeline = buildRunTimeline(run, entries);
+
+  return (
+    <div className="mb-4 rounded-lg border border-gray-200 p-3">
+      <div className="flex items-center justify-between mb-2">
+        <Button variant="outline" size="sm" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All runs
+        </Button>
+        <Badge variant="outline" className="text-xs">{run.status}</Badge>
+      </div>
+      <p className="text-sm text-gray-800 mb-1">{run.query}</p>
+      <p className="text-xs text-gray-500 mb-3">
+        {new Date(run.startedAt).toLocaleString()}
+        {run.finishedAt && ` – ${new Date(run.finishedAt).toLocaleTimeString()}`}
+      </p>
+      <ol className="space-y-2">
+        {timeline.map(({ step, entries: stepEntries }) => (
+          (step || stepEntries.length > 0) && (
+            <li key={step?.step ?? 0} className="rounded border border-gray-200 bg-gray-50 p-2">
+              <div className="flex items-center justify-between">
+                <code className="text-xs font-mono font-semibold text-gray-900">
+                  {step ? `${step.step}. ${step.action}` : 'Before the first step'}
+                </code>
+                {step && (
+                  <span className={`text-xs ${step.success ? 'text-green-700' : 'text-red-700'}`}>
+                    {step.success ? 'ok' : step.error || 'failed'}
+                  </span>
+                )}
+              </div>
+              {step?.url && <p className="text-xs text-gray-500 truncate">{step.url}</p>}
+              {stepEntries.map((entry) => (
+                <p key={entry.id ?? entry.timestamp} className="text-xs text-gray-700 mt-1">
+                  {entry.tool}: {entry.result}
+                  {entry.violation && ` (${entry.violation.severity}) ${entry.violation.message}`}
+                </p>
+              ))}
+            </li>
+          )
+        ))}
+      </ol>
+    </div>
+  );
+}
+
 interface AuditLogItemProps {
   entry: AuditLogEntry;
+  onSelectRun?: () => void;
 }
 
-function AuditLogItem({ entry }: AuditLogItemProps) {
+function AuditLogItem({ entry, onSelectRun }: AuditLogItemProps) {
   const getResultColor = (result: string) => {
     switch (result) {
       case 'allowed':
@@ -261,6 +447,8 @@ function AuditLogItem({ entry }: AuditLogItemProps) {
         return 'border-red-200 bg-red-50';
       case 'requires_approval':
         return 'border-yellow-200 bg-yellow-50';
+      case 'flagged':
+        return 'border-orange-200 bg-orange-50';
       default:
         return 'border-gray-200 bg-gray-50';
     }
@@ -289,6 +477,13 @@ function AuditLogItem({ entry }: AuditLogItemProps) {
             Approval Required
           </Badge>
         );
+      case 'flagged':
+        return (
+          <Badge className="bg-orange-50 text-orange-700 border-orange-200">
+            <ShieldAlert className="h-3 w-3 mr-1" />
+            Injection Flagged
+          </Badge>
+        );
       default:
         return null;
     }
@@ -308,13 +503,29 @@ function AuditLogItem({ entry }: AuditLogItemProps) {
             {getResultBadge(entry.result)}
           </div>
           <span className="text-xs text-gray-500">
-            {new Date(entry.timestamp).toLocaleTimeString()}
+            {new Date(entry.timestamp).toLocaleString()}
           </span>
         </div>
       </AccordionTrigger>
 
       <AccordionContent className="px-4 pb-4">
         <div className="space-y-3">
+          {/* Run and page */}
+          {(entry.origin || entry.runId) && (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+              {entry.origin && <span className="font-mono">{entry.origin}</span>}
+              {entry.runId && (
+                onSelectRun ? (
+                  <Button variant="outline" size="sm" onClick={onSelectRun}>
+                    View run
+                  </Button>
+                ) : (
+                  <span className="font-mono">{entry.runId}</span>
+                )
+              )}
+            </div>
+          )}
+
           {/* Arguments */}
           {entry.args && Object.keys(entry.args).length > 0 && (
             <div>
@@ -0,0 +1,116 @@
+// Origin Permission Modal - asks the user what the agent may do on a site it has no grant for
+// Shown when the EXECUTE_TOOL router refuses an action with permissionRequired (see lib/origin-permissions.ts)
+
+import * as React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './dialog';
+import { Button } from './button';
+import { cn } from '../../lib/utils';
+import {
+  ORIGIN_ACCESS_LABELS,
+  ORIGIN_ACCESS_LEVELS,
+  accessSatisfies,
+  type GrantDuration,
+  type OriginAccess,
+  type OriginGrantDecision,
+  type OriginPermissionRequest,
+} from '../../lib/origin-permissions';
+
+const ACCESS_DESCRIPTIONS: Record<OriginAccess, string> = {
+  read: 'Open pages, read them and take screenshots',
+  interact: 'Also click, type and choose options',
+  submit: 'Also send forms, pay and confirm',
+};
+
+export interface OriginPermissionModalProps {
+  open: boolean;
+  request: OriginPermissionRequest;
+  // null when the user denies or closes the dialog
+  onDecide: (decision: OriginGrantDecision | null) => void;
+}
+
+export function OriginPermissionModal({ open, request, onDecide }: OriginPermissionModalProps) {
+  const [access, setAccess] = React.useState<OriginAccess>(request.access);
+
+  React.useEffect(() => {
+    setAccess(request.access);
+  }, [request]);
+
+  const grant = (duration: GrantDuration) => onDecide({ access, duration });
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !nextOpen && onDecide(null)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <span className="text-2xl">🔐</span>
+            Allow access to this site?
+          </DialogTitle>
+          <DialogDescription>
+            The agent wants to run <code className="font-mono">{request.toolName}</code> on{' '}
+            <span className="font-mono break-all">{request.origin}</span>, which needs{' '}
+            {ORIGIN_ACCESS_LABELS[request.access].toLowerCase()} access.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          {ORIGIN_ACCESS_LEVELS.map((level) => {
+            const enough = accessSatisfies(level, request.access);
+            return (
+              <label
+                key={level}
+                className={cn(
+                  'flex items-start gap-3 rounded-lg border p-3',
+                  access === level ? 'border-blue-400 bg-blue-50' : 'border-gray-200',
+                  !enough && 'opacity-50'
+                )}
+              >
+                <input
+                  type="radio"
+                  name="origin-access"
+                  value={level}
+                  checked={access === level}
+                  disabled={!enough}
+                  onChange={() => setAccess(level)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">{ORIGIN_ACCESS_LABELS[level]}</span>
+                  <span className="block text-xs text-gray-600">{ACCESS_DESCRIPTIONS[level]}</span>
+                </span>
+              </label>
+            );
+          })}
+          {access === 'submit' && (
+            <p className="text-xs text-red-600">
+              The agent will be able to send forms and make purchases on this site without asking again.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="flex-col gap-2 sm:flex-col">
+          <div className="grid grid-cols-3 gap-2 w-full">
+            <Button type="button" variant="outline" onClick={() => grant('once')}>
+              Once
+            </Button>
+            <Button type="button" variant="outline" onClick={() => grant('run')}>
+              This task
+            </Button>
+            <Button type="button" onClick={() => grant('always')}>
+              Always
+            </Button>
+          </div>
+          <Button type="button" variant="ghost" onClick={() => onDecide(null)} className="w-full">
+            ✗ Deny
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
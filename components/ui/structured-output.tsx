@@ -6,6 +6,7 @@ import type { ToolPart } from "./tool";
 import { Tool } from "./tool";
 import { CodeBlock, CodeBlockCopyButton } from "./code-block";
 import { Actions, Action } from "./actions";
+import type { PlanRevision } from "../../lib/plan-divergence";
 
 export interface StructuredOutputProps {
   type: "plan" | "tool-call" | "code" | "json";
@@ -37,6 +38,8 @@ export interface EnhancedPlanDisplayProps {
     optimizations?: string[];
   };
   confidence?: number;
+  // Replans made mid-run, oldest first; shown as a diff of the remaining steps
+  revisions?: PlanRevision[];
   className?: string;
   defaultOpen?: boolean;
 }
@@ -44,11 +47,38 @@ export interface EnhancedPlanDisplayProps {
 export const EnhancedPlanDisplay: React.FC<EnhancedPlanDisplayProps> = ({
   plan,
   confidence,
+  revisions,
   className,
   defaultOpen = false,
 }) => {
   return (
     <div className={cn("rounded-lg border bg-card p-4", className)}>
+      {revisions && revisions.length > 0 && (
+        <div className="mb-4 space-y-2">
+          {revisions.map((revision, idx) => (
+            <div key={revision.timestamp} className="rounded border border-amber-300 p-2 text-xs">
+              <div className="font-medium text-amber-600 dark:text-amber-400">
+                Plan revised{revisions.length > 1 ? ` (${idx + 1}/${revisions.length})` : ""}: {revision.reason}
+              </div>
+              {revision.url && (
+                <div className="text-muted-foreground mt-1 truncate">at {revision.url}</div>
+              )}
+              <div className="mt-1 font-mono">
+                {revision.diff.removed.map((step, stepIdx) => (
+                  <div key={`removed-${stepIdx}`} className="text-red-600 dark:text-red-400">− {step}</div>
+                ))}
+                {revision.diff.added.map((step, stepIdx) => (
+                  <div key={`added-${stepIdx}`} className="text-green-600 dark:text-green-400">+ {step}</div>
+                ))}
+                {revision.diff.kept > 0 && (
+                  <div className="text-muted-foreground">{revision.diff.kept} step{revision.diff.kept === 1 ? "" : "s"} unchanged</div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="mb-4">
         <h3 className="text-lg font-semibold">{plan.objective}</h3>
         <p className="text-sm text-muted-foreground mt-1">{plan.approach}</p>
@@ -1,9 +1,26 @@
 // Content script that runs on all pages to extract context and interact with the DOM
 
+import type {
+  AxNode,
+  AxSnapshot,
+  DemonstrationEvent,
+  ElementDescriptor,
+  ExtractedTable,
+  ExtractedTableRow,
+  MainContent,
+  RegionSnapshot,
+  TableExtraction,
+  UploadFilePayload,
+} from './types';
+
+// Nodes touched by our own visual feedback, so effect detection can ignore them
+const feedbackNodes = new WeakSet<Node>();
+
 // Visual feedback for clicks
 function highlightElement(element: Element, coordinates: { x: number; y: number }) {
   const originalOutline = (element as HTMLElement).style.outline;
   const originalBg = (element as HTMLElement).style.backgroundColor;
+  feedbackNodes.add(element);
   
   (element as HTMLElement).style.outline = '3px solid #007AFF';
   (element as HTMLElement).style.backgroundColor = 'rgba(0, 122, 255, 0.1)';
@@ -25,11 +42,13 @@ function highlightElement(element: Element, coordinates: { x: number; y: number
     z-index: 999999;
     animation: atlasClickPulse 0.6s ease-out;
   `;
+  feedbackNodes.add(indicator);
   
   // Add animation keyframes if not already present
   if (!document.getElementById('atlas-click-animation')) {
     const style = document.createElement('style');
     style.id = 'atlas-click-animation';
+    feedbackNodes.add(style);
     style.textContent = `
       @keyframes atlasClickPulse {
         0% { transform: scale(1); opacity: 1; }
@@ -69,19 +88,490 @@ interface PageContext {
   };
 }
 
+// ============================================
+// Accessibility snapshot & element refs
+// ============================================
+
+// Refs handed out by GET_AX_SNAPSHOT stay valid until the page navigates.
+// A full navigation reloads this script; SPA route changes are detected by URL.
+// Each numbering gets a session id so callers can tell whether a ref they saw
+// earlier still points at the same element.
+const elementRefs = new Map<string, Element>();
+let refsByElement = new WeakMap<Element, string>();
+let refCounter = 0;
+let refsUrl = window.location.href.split('#')[0];
+let refsSession = newRefsSession();
+
+function newRefsSession(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function resetRefsOnNavigation() {
+  const currentUrl = window.location.href.split('#')[0];
+  if (currentUrl !== refsUrl) {
+    elementRefs.clear();
+    refsByElement = new WeakMap<Element, string>();
+    refCounter = 0;
+    refsUrl = currentUrl;
+    refsSession = newRefsSession();
+  }
+}
+
+function getRefForElement(element: Element): string {
+  const existing = refsByElement.get(element);
+  if (existing && elementRefs.get(existing) === element) {
+    return existing;
+  }
+  const ref = `e${++refCounter}`;
+  elementRefs.set(ref, element);
+  refsByElement.set(element, ref);
+  return ref;
+}
+
+// Accept "e12", "ref=e12" and "[ref=e12]" so plan targets can be passed through verbatim
+function parseRef(value?: string): string | undefined {
+  if (!value) return undefined;
+  const match = value.trim().match(/^\[?(?:ref=)?(e\d+)\]?$/);
+  return match ? match[1] : undefined;
+}
+
+function resolveRef(ref: string): Element | null {
+  resetRefsOnNavigation();
+  const element = elementRefs.get(ref);
+  if (!element || !element.isConnected) {
+    return null;
+  }
+  return element;
+}
+
+// Element center in top-level viewport coordinates (accounts for same-origin iframe offsets)
+function getElementCenter(element: Element): { x: number; y: number } {
+  const rect = element.getBoundingClientRect();
+  const offset = getFrameOffset(element);
+  return { x: offset.x + rect.left + rect.width / 2, y: offset.y + rect.top + rect.height / 2 };
+}
+
+// ============================================
+// Shadow DOM & same-origin iframe traversal
+// ============================================
+
+type SearchRoot = Document | ShadowRoot;
+
+// Returns null for cross-origin frames; those get their own content script instance
+function getFrameDocument(element: Element): Document | null {
+  if (element.tagName !== 'IFRAME' && element.tagName !== 'FRAME') return null;
+  try {
+    return (element as HTMLIFrameElement).contentDocument;
+  } catch {
+    return null;
+  }
+}
+
+// Open shadow roots and same-origin frame documents reachable from root, depth-first
+function getNestedRoots(root: SearchRoot): SearchRoot[] {
+  const nested: SearchRoot[] = [];
+  for (const element of Array.from(root.querySelectorAll('*'))) {
+    const inner = element.shadowRoot || getFrameDocument(element);
+    if (inner) {
+      nested.push(inner, ...getNestedRoots(inner));
+    }
+  }
+  return nested;
+}
+
+function querySelectorDeep(selector: string, root: SearchRoot = document): Element | null {
+  const direct = root.querySelector(selector);
+  if (direct) return direct;
+  for (const nested of getNestedRoots(root)) {
+    const match = nested.querySelector(selector);
+    if (match) return match;
+  }
+  return null;
+}
+
+function querySelectorAllDeep(selector: string, root: SearchRoot = document): Element[] {
+  return [root, ...getNestedRoots(root)].flatMap(r => Array.from(r.querySelectorAll(selector)));
+}
+
+// Like document.elementFromPoint, but descends into open shadow roots and same-origin iframes
+function elementFromPointDeep(x: number, y: number): Element | null {
+  let element = document.elementFromPoint(x, y);
+  let localX = x;
+  let localY = y;
+  while (element) {
+    const shadowHit = element.shadowRoot?.elementFromPoint(localX, localY);
+    if (shadowHit && shadowHit !== element) {
+      element = shadowHit;
+      continue;
+    }
+    const frameDoc = getFrameDocument(element);
+    if (frameDoc) {
+      const rect = element.getBoundingClientRect();
+      localX -= rect.left + element.clientLeft;
+      localY -= rect.top + element.clientTop;
+      const frameHit = frameDoc.elementFromPoint(localX, localY);
+      if (frameHit) {
+        element = frameHit;
+        continue;
+      }
+    }
+    break;
+  }
+  return element;
+}
+
+function getDeepActiveElement(): Element | null {
+  let active = document.activeElement;
+  while (active) {
+    const shadowActive = active.shadowRoot?.activeElement;
+    if (shadowActive) {
+      active = shadowActive;
+      continue;
+    }
+    const frameActive = getFrameDocument(active)?.activeElement;
+    if (frameActive && frameActive !== frameActive.ownerDocument.body) {
+      active = frameActive;
+      continue;
+    }
+    break;
+  }
+  return active;
+}
+
+function describeFrame(frame: Element): string {
+  const tag = frame.tagName.toLowerCase();
+  if (frame.id) return `${tag}#${frame.id}`;
+  const name = frame.getAttribute('name');
+  if (name) return `${tag}[name="${name}"]`;
+  const siblings = Array.from(frame.parentElement?.children || []).filter(el => el.tagName === frame.tagName);
+  return `${tag}:nth-of-type(${siblings.indexOf(frame) + 1})`;
+}
+
+// Same-origin frames between this document and the element's document, outermost first
+function getFrameChain(element: Element): Element[] {
+  const chain: Element[] = [];
+  let doc = element.ownerDocument;
+  while (doc !== document) {
+    const frameElement = doc.defaultView?.frameElement;
+    if (!frameElement) break;
+    chain.unshift(frameElement);
+    doc = frameElement.ownerDocument;
+  }
+  return chain;
+}
+
+// e.g. 'iframe#checkout > iframe[name="card"]'; undefined for elements in this document
+function getFramePath(element: Element): string | undefined {
+  const chain = getFrameChain(element);
+  return chain.length > 0 ? chain.map(describeFrame).join(' > ') : undefined;
+}
+
+function getFrameOffset(element: Element): { x: number; y: number } {
+  return getFrameChain(element).reduce((offset, frameElement) => {
+    const rect = frameElement.getBoundingClientRect();
+    return {
+      x: offset.x + rect.left + frameElement.clientLeft,
+      y: offset.y + rect.top + frameElement.clientTop,
+    };
+  }, { x: 0, y: 0 });
+}
+
+const INTERACTIVE_ROLES = new Set([
+  'button', 'link', 'textbox', 'searchbox', 'checkbox', 'radio', 'combobox', 'listbox',
+  'option', 'slider', 'spinbutton', 'switch', 'tab', 'menuitem', 'menuitemcheckbox',
+  'menuitemradio', 'treeitem',
+]);
+
+const LANDMARK_ROLES = new Set([
+  'banner', 'navigation', 'main', 'complementary', 'contentinfo', 'form', 'region',
+  'search', 'dialog', 'alertdialog',
+]);
+
+function getImplicitRole(element: Element): string | null {
+  const tag = element.tagName.toLowerCase();
+  switch (tag) {
+    case 'a':
+      return element.hasAttribute('href') ? 'link' : null;
+    case 'button':
+    case 'summary':
+      return 'button';
+    case 'select': {
+      const select = element as HTMLSelectElement;
+      return select.multiple || select.size > 1 ? 'listbox' : 'combobox';
+    }
+    case 'option':
+      return 'option';
+    case 'textarea':
+      return 'textbox';
+    case 'input': {
+      const type = ((element as HTMLInputElement).type || 'text').toLowerCase();
+      if (type === 'hidden') return null;
+      if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+      if (type === 'checkbox') return 'checkbox';
+      if (type === 'radio') return 'radio';
+      if (type === 'range') return 'slider';
+      if (type === 'number') return 'spinbutton';
+      if (type === 'search') return 'searchbox';
+      return 'textbox';
+    }
+    case 'nav':
+      return 'navigation';
+    case 'main':
+      return 'main';
+    case 'aside':
+      return 'complementary';
+    case 'header':
+      return element.closest('article, aside, main, nav, section') ? null : 'banner';
+    case 'footer':
+      return element.closest('article, aside, main, nav, section') ? null : 'contentinfo';
+    case 'form':
+      return 'form';
+    case 'section':
+      return element.hasAttribute('aria-label') || element.hasAttribute('aria-labelledby') ? 'region' : null;
+    case 'search':
+      return 'search';
+    case 'dialog':
+      return 'dialog';
+    default:
+      break;
+  }
+  if ((element as HTMLElement).isContentEditable && element.getAttribute('contenteditable') !== null) {
+    return 'textbox';
+  }
+  return null;
+}
+
+function getRole(element: Element): string | null {
+  const explicit = element.getAttribute('role')?.trim().split(/\s+/)[0];
+  if (explicit && (INTERACTIVE_ROLES.has(explicit) || LANDMARK_ROLES.has(explicit))) {
+    return explicit;
+  }
+  const implicit = getImplicitRole(element);
+  if (implicit) return implicit;
+  // Focusable custom widgets without a role are still worth exposing
+  const tabIndex = element.getAttribute('tabindex');
+  if (tabIndex !== null && Number(tabIndex) >= 0) {
+    return 'generic';
+  }
+  return null;
+}
+
+function collapseText(text: string | null | undefined, max = 80): string {
+  const collapsed = (text || '').replace(/\s+/g, ' ').trim();
+  return collapsed.length > max ? `${collapsed.slice(0, max - 1)}…` : collapsed;
+}
+
+function getAccessibleName(element: Element, role: string): string {
+  const ariaLabel = element.getAttribute('aria-label');
+  if (ariaLabel?.trim()) return collapseText(ariaLabel);
+
+  const labelledBy = element.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    // IDs resolve within the element's own tree (shadow root or frame document)
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const text = labelledBy
+      .split(/\s+/)
+      .map(id => root.getElementById?.(id)?.textContent || '')
+      .join(' ');
+    if (text.trim()) return collapseText(text);
+  }
+
+  const labels = (element as HTMLInputElement).labels;
+  if (labels && labels.length > 0) {
+    const text = Array.from(labels).map(label => label.textContent || '').join(' ');
+    if (text.trim()) return collapseText(text);
+  }
+
+  if (LANDMARK_ROLES.has(role)) {
+    return collapseText(element.getAttribute('title'));
+  }
+
+  const placeholder = element.getAttribute('placeholder');
+  if (placeholder?.trim()) return collapseText(placeholder);
+
+  if (element.tagName === 'INPUT') {
+    const input = element as HTMLInputElement;
+    if (['button', 'submit', 'reset'].includes(input.type)) return collapseText(input.value);
+    if (input.type === 'image') return collapseText(input.alt);
+  }
+
+  const text = (element as HTMLElement).innerText ?? element.textContent;
+  if (text?.trim()) return collapseText(text);
+
+  const img = element.querySelector('img[alt]');
+  if (img?.getAttribute('alt')?.trim()) return collapseText(img.getAttribute('alt'));
+
+  return collapseText(element.getAttribute('title'));
+}
+
+function getElementStates(element: Element): string[] {
+  const states: string[] = [];
+  const input = element as HTMLInputElement;
+  if (input.disabled || element.getAttribute('aria-disabled') === 'true') states.push('disabled');
+  if (input.checked || element.getAttribute('aria-checked') === 'true') states.push('checked');
+  const expanded = element.getAttribute('aria-expanded');
+  if (expanded === 'true') states.push('expanded');
+  if (expanded === 'false') states.push('collapsed');
+  if ((element as HTMLOptionElement).selected || element.getAttribute('aria-selected') === 'true') states.push('selected');
+  if (input.required || element.getAttribute('aria-required') === 'true') states.push('required');
+  if (input.readOnly || element.getAttribute('aria-readonly') === 'true') states.push('readonly');
+  if (getDeepActiveElement() === element) states.push('focused');
+  return states;
+}
+
+function getElementValue(element: Element, role: string): string | undefined {
+  if (element.tagName === 'SELECT') {
+    const select = element as HTMLSelectElement;
+    return collapseText(Array.from(select.selectedOptions).map(o => o.text).join(', '));
+  }
+  if (role === 'textbox' || role === 'searchbox' || role === 'spinbutton' || role === 'slider') {
+    if (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA') {
+      const input = element as HTMLInputElement;
+      if (input.type === 'password') return input.value ? '••••' : undefined;
+      return input.value ? collapseText(input.value) : undefined;
+    }
+    if ((element as HTMLElement).isContentEditable) {
+      return collapseText(element.textContent) || undefined;
+    }
+  }
+  return undefined;
+}
+
+function isHiddenElement(element: Element): boolean {
+  if (element.getAttribute('aria-hidden') === 'true' || (element as HTMLElement).hidden) {
+    return true;
+  }
+  if (element.tagName === 'OPTION') {
+    return false; // Closed <select> options have no boxes but are still operable
+  }
+  if (typeof (element as any).checkVisibility === 'function') {
+    return !(element as any).checkVisibility({ visibilityProperty: true });
+  }
+  return element.getClientRects().length === 0;
+}
+
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'HEAD']);
+
+// Children in the rendered (flat) tree: shadow content replaces light children, slots show their assignees
+function getRenderedChildren(element: Element): Element[] {
+  if (element.shadowRoot) {
+    return Array.from(element.shadowRoot.children);
+  }
+  if (element.tagName === 'SLOT') {
+    const assigned = (element as HTMLSlotElement).assignedElements({ flatten: true });
+    return assigned.length > 0 ? assigned : Array.from(element.children);
+  }
+  return Array.from(element.children);
+}
+
+// Build a compact role/name/state tree of interactive and landmark nodes.
+// Open shadow roots and same-origin iframes are inlined; refPrefix namespaces refs
+// when the snapshot is merged into a parent frame's snapshot by the background.
+function buildAxSnapshot(options: { maxNodes?: number; refPrefix?: string } = {}): AxSnapshot {
+  resetRefsOnNavigation();
+  const maxNodes = options.maxNodes ?? 400;
+  const refPrefix = options.refPrefix ?? '';
+  let nodeCount = 0;
+  let truncated = false;
+
+  const walk = (children: Element[], siblings: AxNode[]) => {
+    for (const child of children) {
+      if (nodeCount >= maxNodes) {
+        truncated = true;
+        return;
+      }
+      // Slots use display: contents, so they never have a box of their own
+      if (SKIPPED_TAGS.has(child.tagName.toUpperCase()) || (child.tagName !== 'SLOT' && isHiddenElement(child))) {
+        continue;
+      }
+
+      const frameDoc = getFrameDocument(child);
+      const role = frameDoc ? 'iframe' : getRole(child);
+      if (!role) {
+        walk(getRenderedChildren(child), siblings);
+        continue;
+      }
+
+      const node: AxNode = {
+        ref: `${refPrefix}${getRefForElement(child)}`,
+        role,
+        name: frameDoc
+          ? collapseText(child.getAttribute('title') || child.getAttribute('name') || frameDoc.title)
+          : getAccessibleName(child, role),
+      };
+      const value = frameDoc ? undefined : getElementValue(child, role);
+      if (value) node.value = value;
+      const states = frameDoc ? [] : getElementStates(child);
+      if (states.length > 0) node.states = states;
+      const framePath = getFramePath(child);
+      if (framePath) node.frame = framePath;
+      nodeCount++;
+
+      const nested: AxNode[] = [];
+      walk(frameDoc ? Array.from(frameDoc.body?.children || []) : getRenderedChildren(child), nested);
+      if (nested.length > 0) node.children = nested;
+      siblings.push(node);
+    }
+  };
+
+  const nodes: AxNode[] = [];
+  if (document.body) {
+    walk(getRenderedChildren(document.body), nodes);
+  }
+
+  return {
+    url: window.location.href,
+    title: document.title,
+    nodes,
+    text: renderAxTree(nodes),
+    refCount: nodeCount,
+    truncated,
+    session: refsSession,
+    timestamp: Date.now(),
+  };
+}
+
+function renderAxTree(nodes: AxNode[], depth = 0): string {
+  return nodes
+    .map(node => {
+      const indent = '  '.repeat(depth);
+      const name = node.name ? ` "${node.name}"` : '';
+      const value = node.value ? ` value="${node.value}"` : '';
+      const states = node.states ? ` [${node.states.join(', ')}]` : '';
+      const line = `${indent}- ${node.role}${name}${value}${states} [ref=${node.ref}]`;
+      return node.children ? `${line}\n${renderAxTree(node.children, depth + 1)}` : line;
+    })
+    .join('\n');
+}
+
+// innerText stops at shadow roots and frame boundaries, so append their rendered text separately
+function extractDeepText(): string {
+  const parts = [document.body.innerText];
+  for (const root of getNestedRoots(document)) {
+    const text = root.nodeType === Node.DOCUMENT_NODE
+      ? (root as Document).body?.innerText
+      : Array.from(root.children)
+          .filter(child => !SKIPPED_TAGS.has(child.tagName.toUpperCase()))
+          .map(child => (child as HTMLElement).innerText || '')
+          .join('\n');
+    if (text?.trim()) parts.push(text);
+  }
+  return parts.join('\n');
+}
+
 // Extract comprehensive page context
-function extractPageContext(): PageContext {
-  const links = Array.from(document.querySelectorAll('a')).slice(0, 50).map(a => ({
+function extractPageContext(maxTextLength = 10000): PageContext {
+  const links = (querySelectorAllDeep('a') as HTMLAnchorElement[]).slice(0, 50).map(a => ({
     text: a.textContent?.trim() || '',
     href: a.href
   }));
 
-  const images = Array.from(document.querySelectorAll('img')).slice(0, 20).map(img => ({
+  const images = (querySelectorAllDeep('img') as HTMLImageElement[]).slice(0, 20).map(img => ({
     alt: img.alt,
     src: img.src
   }));
 
-  const forms = Array.from(document.querySelectorAll('form')).map(form => ({
+  const forms = (querySelectorAllDeep('form') as HTMLFormElement[]).map(form => ({
     id: form.id,
     action: form.action,
     inputs: Array.from(form.querySelectorAll('input, textarea, select')).map(input => ({
@@ -98,7 +588,7 @@ function extractPageContext(): PageContext {
   return {
     url: window.location.href,
     title: document.title,
-    textContent: document.body.innerText.slice(0, 10000), // Limit to 10k chars
+    textContent: extractDeepText().slice(0, maxTextLength), // 10k chars unless the caller asks for more
     links,
     images,
     forms,
@@ -117,142 +607,744 @@ function extractPageContext(): PageContext {
   };
 }
 
-// Execute actions on the page
-function executePageAction(
-  action: string, 
-  target?: string, 
-  value?: string, 
-  selector?: string,
-  coordinates?: { x: number; y: number },
-  direction?: string,
-  amount?: number,
-  key?: string,
-  keys?: string[],
-  destination?: { x: number; y: number }
-): any {
-  try {
-    switch (action) {
-      case 'click':
-        // Support both selector and coordinate-based clicking
-        if (selector || target) {
-          const element = document.querySelector(selector || target!);
-          if (element) {
-            const rect = element.getBoundingClientRect();
-            const clickX = rect.left + rect.width / 2;
-            const clickY = rect.top + rect.height / 2;
-            
-            ['mousedown', 'mouseup', 'click'].forEach(eventType => {
-              const event = new MouseEvent(eventType, {
-                bubbles: true,
-                cancelable: true,
-                view: window,
-                clientX: clickX,
-                clientY: clickY
-              });
-              element.dispatchEvent(event);
-            });
-            
-            // Visual feedback
-            highlightElement(element, coordinates || { x: clickX, y: clickY });
-            
-            return { success: true, message: `Clicked element: ${selector || target}`, element: element.tagName };
-          }
-          return { success: false, message: `Element not found: ${selector || target}` };
-        } else if (coordinates) {
+// ============================================
+// Action effect detection & trusted input targeting
+// ============================================
 
-          const element = document.elementFromPoint(coordinates.x, coordinates.y);
+// Actions whose effect is checked so the background can retry them with trusted (CDP) input
+const EFFECT_CHECKED_ACTIONS = new Set(['click', 'fill', 'press_key']);
+const EFFECT_SETTLE_MS = 400;
 
-          if (element) {
-            // Get element position for logging
-            const rect = element.getBoundingClientRect();
+function isFeedbackMutation(record: MutationRecord): boolean {
+  if (record.type === 'attributes') {
+    return record.attributeName === 'style' && feedbackNodes.has(record.target);
+  }
+  if (record.type === 'childList') {
+    const nodes = [...Array.from(record.addedNodes), ...Array.from(record.removedNodes)];
+    return nodes.length > 0 && nodes.every(node => feedbackNodes.has(node));
+  }
+  return false;
+}
 
-            // Dispatch full mouse event sequence
-            ['mousedown', 'mouseup', 'click'].forEach(eventType => {
-              const event = new MouseEvent(eventType, {
-                bubbles: true,
-                cancelable: true,
-                view: window,
-                clientX: coordinates.x,
-                clientY: coordinates.y
-              });
-              element.dispatchEvent(event);
-            });
+function getEditableText(element: Element | null): string {
+  if (!element) return '';
+  if (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA') {
+    return (element as HTMLInputElement).value;
+  }
+  return (element as HTMLElement).isContentEditable ? element.textContent || '' : '';
+}
 
-            // Visual feedback
-            highlightElement(element, coordinates);
+// Masked inputs reformat what was typed ("5551234567" shows as "(555) 123-4567"),
+// so fills are compared on letters and digits only
+function normalizeFieldText(text: string): string {
+  return text.replace(/[^\p{L}\p{N}]/gu, '').toLowerCase();
+}
 
+function fieldHoldsValue(element: Element | null, value: string): boolean {
+  const text = getEditableText(element);
+  const normalized = normalizeFieldText(value);
+  return normalized ? normalizeFieldText(text).includes(normalized) : text.includes(value);
+}
 
-            return {
-              success: true,
-              message: `Clicked at (${coordinates.x}, ${coordinates.y})`,
-              element: element.tagName,
-              text: element.textContent?.slice(0, 50),
-              elementBounds: {
-                left: rect.left,
-                top: rect.top,
-                width: rect.width,
-                height: rect.height
-              }
-            };
-          }
-          console.error('❌ No element found at coordinates');
-          return { success: false, message: `No element found at coordinates (${coordinates.x}, ${coordinates.y})` };
-        }
-        return { success: false, message: 'Target selector or coordinates required for click action' };
+// Select the focused field's text so trusted input replaces it instead of appending
+function selectFocusedFieldContents(): { success: boolean } {
+  const active = getDeepActiveElement();
+  if (!active) return { success: false };
+  if (active.tagName === 'INPUT' || active.tagName === 'TEXTAREA') {
+    try {
+      (active as HTMLInputElement).select();
+    } catch {
+      return { success: false };
+    }
+    return { success: true };
+  }
+  if ((active as HTMLElement).isContentEditable) {
+    const range = active.ownerDocument.createRange();
+    range.selectNodeContents(active);
+    const selection = active.ownerDocument.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+    return { success: true };
+  }
+  return { success: false };
+}
 
-      case 'fill':
-        if (value) {
-          const textToType = value; // Capture value to preserve type narrowing
-          let element: HTMLElement | null = null;
+/**
+ * Watch for any visible effect of a synthetic action: DOM mutations (including open
+ * shadow roots and same-origin frames), navigation, focus moves, or for fill the
+ * value actually sticking in the target field after the framework re-renders.
+ */
+function startEffectWatch(fillTarget: Element | null = null) {
+  const startUrl = window.location.href;
+  const startActive = getDeepActiveElement();
+  let mutated = false;
+  let unloading = false;
+
+  const observer = new MutationObserver(records => {
+    if (records.some(record => !isFeedbackMutation(record))) mutated = true;
+  });
+  for (const root of [document, ...getNestedRoots(document)]) {
+    observer.observe(root, { subtree: true, childList: true, attributes: true, characterData: true });
+  }
+  const onBeforeUnload = () => {
+    unloading = true;
+  };
+  window.addEventListener('beforeunload', onBeforeUnload);
 
-          console.log(`🔧 [fill] Starting fill action: selector="${target}", text="${textToType.substring(0, 30)}..."`);
+  const stop = () => {
+    observer.disconnect();
+    window.removeEventListener('beforeunload', onBeforeUnload);
+  };
 
-          // Try to find element by selector if provided
-          if (target && !target.includes(':focus')) {
-            element = document.querySelector(target) as HTMLElement;
-            console.log(`🔍 [fill] Queried selector "${target}": ${element ? '✓ found' : '✗ not found'}`);
-          }
+  return {
+    stop,
+    async finish(action: string, value?: string): Promise<boolean> {
+      const deadline = Date.now() + EFFECT_SETTLE_MS;
+      // Fill waits the full window: a rejected value only reverts on re-render
+      while (Date.now() < deadline && !unloading && (action === 'fill' || !mutated)) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      stop();
 
-          // If no element found or selector was for focused elements, use the currently focused element
-          if (!element) {
-            element = document.activeElement as HTMLElement;
-            console.log(`🔍 [fill] Using focused element: ${element?.tagName || 'none'}`);
-          }
+      if (unloading || window.location.href !== startUrl) return true;
+      if (action === 'fill') {
+        return !!value && fieldHoldsValue(fillTarget ?? getDeepActiveElement(), value);
+      }
+      return mutated || getDeepActiveElement() !== startActive;
+    },
+  };
+}
 
-          if (element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' ||
-                         element.getAttribute('contenteditable') === 'true')) {
+// Resolve once no DOM mutation has happened for quietMs (false if timeoutMs passes first)
+function waitForDomQuiet(quietMs: number, timeoutMs: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const start = Date.now();
+    let lastMutation = start;
+    const observer = new MutationObserver(records => {
+      if (records.some(record => !isFeedbackMutation(record))) lastMutation = Date.now();
+    });
+    for (const root of [document, ...getNestedRoots(document)]) {
+      observer.observe(root, { subtree: true, childList: true, attributes: true, characterData: true });
+    }
+    const check = () => {
+      const now = Date.now();
+      if (now - lastMutation >= quietMs || now - start >= timeoutMs) {
+        observer.disconnect();
+        resolve(now - lastMutation >= quietMs);
+        return;
+      }
+      setTimeout(check, 50);
+    };
+    check();
+  });
+}
 
-            console.log(`✓ [fill] Element is typeable: ${element.tagName}`);
-            
-            // Click the element first to ensure it receives focus
-            const rect = element.getBoundingClientRect();
-            const clickX = rect.left + rect.width / 2;
-            const clickY = rect.top + rect.height / 2;
-            console.log(`🖱️ [fill] Clicking element at (${clickX}, ${clickY})`);
+// Resolve an action target to top-level viewport coordinates for trusted (CDP) input
+function locateActionTarget(request: any): any {
+  const elementRef = request.ref || parseRef(request.selector) || parseRef(request.target);
+  let element: Element | null = null;
+  if (elementRef) {
+    element = resolveRef(elementRef);
+    if (!element) {
+      return { success: false, message: `Unknown or stale element ref: ${elementRef}. Take a new accessibility snapshot.` };
+    }
+  } else if (request.selector || (request.target && !request.target.includes(':focus'))) {
+    element = querySelectorDeep(request.selector || request.target);
+  }
+  if (!element && request.action === 'fill') {
+    element = getDeepActiveElement();
+  }
+  if (!element) {
+    return { success: false, message: `Element not found: ${request.selector || request.target || 'focused element'}` };
+  }
 
-            ['mousedown', 'mouseup', 'click'].forEach(eventType => {
-              const event = new MouseEvent(eventType, {
-                bubbles: true,
-                cancelable: true,
-                view: window,
-                clientX: clickX,
-                clientY: clickY
-              });
-              element!.dispatchEvent(event);
-            });
+  element.scrollIntoView({ block: 'center', inline: 'center' });
+  const { x, y } = getElementCenter(element);
+  highlightElement(element, { x, y });
+  return { success: true, x, y, element: element.tagName, ref: elementRef };
+}
 
-            // Explicitly focus the element
-            element.focus();
+// Whether a click or key press would submit a form or confirm a purchase, which needs
+// the site's "submit" grant (see lib/origin-permissions.ts)
+const SUBMIT_LABEL = /\b(submit|buy|purchase|pay|place order|order now|checkout|check out|confirm|send|book|subscribe|donate|transfer|delete|sign up|register)\b/i;
 
-            // Return a promise that resolves after a delay to ensure focus is established
-            return new Promise<any>((resolve) => {
-              console.log(`⏱️ [fill] Starting 300ms focus delay`);
-              
-              setTimeout(() => {
-                console.log(`✓ [fill] Focus delay complete, verifying focus...`);
-                
+function resolveActionElement(request: any): Element | null {
+  const elementRef = request.ref || parseRef(request.selector) || parseRef(request.target);
+  try {
+    return elementRef
+      ? resolveRef(elementRef)
+      : request.selector || request.target
+        ? querySelectorDeep(request.selector || request.target)
+        : request.coordinates
+          ? elementFromPointDeep(request.coordinates.x, request.coordinates.y)
+          : null;
+  } catch {
+    // A free-text target ("the Pay button") is not a valid selector
+    return null;
+  }
+}
+
+function describeActionTarget(request: any): { success: boolean; submits: boolean; label?: string } {
+  if (request.action === 'press_key') {
+    const key = String(request.key || request.value || request.target || 'Enter');
+    const active = getDeepActiveElement();
+    const submits = /^enter$/i.test(key) && !!active?.closest('form') && active.tagName !== 'TEXTAREA';
+    return { success: true, submits };
+  }
+
+  const element = resolveActionElement(request);
+  if (!element) return { success: false, submits: false };
+
+  const control = element.closest('button, input, a, [role="button"], [role="link"]') ?? element;
+  const submitControl = (control instanceof HTMLButtonElement && control.type === 'submit' && !!control.form)
+    || (control instanceof HTMLInputElement && (control.type === 'submit' || control.type === 'image'));
+  const label = (control.getAttribute('aria-label') || (control instanceof HTMLInputElement ? control.value : control.textContent) || '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 100);
+  return { success: true, submits: submitControl || SUBMIT_LABEL.test(label), label };
+}
+
+// ============================================
+// Form controls: options, checkboxes, dates, files
+// ============================================
+
+interface FormActionOptions {
+  values?: string[];
+  checked?: boolean;
+  label?: string;
+  files?: UploadFilePayload[];
+  shownValue?: string; // Logged and reported instead of a fill's value (the vault tokens a login came from)
+}
+
+const OPTION_WAIT_MS = 2000;
+const DATE_INPUT_FORMATS: Record<string, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'datetime-local': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/,
+  time: /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/,
+  month: /^\d{4}-\d{2}$/,
+  week: /^\d{4}-W\d{2}$/,
+};
+
+function isCheckable(element: Element): boolean {
+  const type = (element as HTMLInputElement).type;
+  return (element.tagName === 'INPUT' && (type === 'checkbox' || type === 'radio')) ||
+    ['checkbox', 'radio', 'switch', 'menuitemcheckbox', 'menuitemradio'].includes(element.getAttribute('role') || '');
+}
+
+function isSelectable(element: Element): boolean {
+  return element.tagName === 'SELECT' || ['combobox', 'listbox'].includes(element.getAttribute('role') || '') ||
+    element.getAttribute('aria-haspopup') === 'listbox';
+}
+
+function isDateField(element: Element): boolean {
+  return element.tagName === 'INPUT' && !['checkbox', 'radio', 'file', 'hidden', 'button', 'submit', 'reset', 'image'].includes((element as HTMLInputElement).type);
+}
+
+function isFileTarget(element: Element): boolean {
+  return element.tagName === 'INPUT' && (element as HTMLInputElement).type === 'file';
+}
+
+function normalizeChoice(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// Exact value, exact label, then label prefix, then label substring
+function matchChoice<T>(choices: T[], wanted: string, getValue: (choice: T) => string, getLabel: (choice: T) => string): T | undefined {
+  const target = normalizeChoice(wanted);
+  return choices.find(choice => getValue(choice) === wanted) ||
+    choices.find(choice => normalizeChoice(getLabel(choice)) === target) ||
+    choices.find(choice => normalizeChoice(getLabel(choice)).startsWith(target)) ||
+    choices.find(choice => normalizeChoice(getLabel(choice)).includes(target));
+}
+
+// Controls by their label text. Native checkboxes, radios and file inputs are often
+// visually hidden behind a styled label, so they count even when hidden.
+function findControlByLabel(label: string, accepts: (element: Element) => boolean): Element | null {
+  const controls = querySelectorAllDeep('input, select, textarea, [role]').filter(element =>
+    accepts(element) && (element.tagName === 'INPUT' || !isHiddenElement(element))
+  );
+  return matchChoice(controls, label, () => '', element => getAccessibleName(element, getRole(element) || '')) || null;
+}
+
+function findFormControl(
+  refElement: Element | null,
+  selector: string | undefined,
+  label: string | undefined,
+  accepts: (element: Element) => boolean
+): Element | null {
+  const element = refElement || (selector ? querySelectorDeep(selector) : null) || (label ? findControlByLabel(label, accepts) : null);
+  if (!element || accepts(element)) return element;
+  // A ref or selector may point at the label or wrapper rather than the control
+  const control = element.tagName === 'LABEL' ? (element as HTMLLabelElement).control : null;
+  return control && accepts(control) ? control : Array.from(element.querySelectorAll('input, select, [role]')).find(accepts) || element;
+}
+
+function setNativeValue(element: HTMLInputElement | HTMLSelectElement, value: string): void {
+  // The prototype setter bypasses React's value tracking so its onChange fires
+  const prototype = element.tagName === 'SELECT' ? HTMLSelectElement.prototype : HTMLInputElement.prototype;
+  const setter = Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+  if (setter) {
+    setter.call(element, value);
+  } else {
+    element.value = value;
+  }
+}
+
+function dispatchValueEvents(element: Element): void {
+  element.dispatchEvent(new Event('input', { bubbles: true }));
+  element.dispatchEvent(new Event('change', { bubbles: true }));
+}
+
+// Pointer and mouse events for widgets listening to either (option lists often use mousedown)
+function dispatchClickSequence(element: Element): void {
+  const { x, y } = getElementCenter(element);
+  const init = { bubbles: true, cancelable: true, view: window, clientX: x, clientY: y };
+  element.dispatchEvent(new PointerEvent('pointerdown', init));
+  element.dispatchEvent(new MouseEvent('mousedown', init));
+  element.dispatchEvent(new PointerEvent('pointerup', init));
+  element.dispatchEvent(new MouseEvent('mouseup', init));
+  element.dispatchEvent(new MouseEvent('click', init));
+}
+
+function getListboxOptions(owner: Element): Element[] {
+  const ids = `${owner.getAttribute('aria-controls') || ''} ${owner.getAttribute('aria-owns') || ''}`.split(/\s+/).filter(Boolean);
+  const root = owner.getRootNode() as Document | ShadowRoot;
+  const lists = owner.getAttribute('role') === 'listbox'
+    ? [owner]
+    : ids.map(id => root.getElementById?.(id)).filter((list): list is HTMLElement => !!list);
+  const options = lists.length > 0
+    ? lists.flatMap(list => Array.from(list.querySelectorAll('[role="option"]')))
+    : querySelectorAllDeep('[role="option"]');
+  return options.filter(option => !isHiddenElement(option) && option.getAttribute('aria-disabled') !== 'true');
+}
+
+async function waitForListboxOptions(owner: Element): Promise<Element[]> {
+  const deadline = Date.now() + OPTION_WAIT_MS;
+  while (true) {
+    const options = getListboxOptions(owner);
+    if (options.length > 0 || Date.now() >= deadline) return options;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+async function selectOption(element: Element, values: string[]): Promise<any> {
+  if (values.length === 0) {
+    return { success: false, message: 'selectOption needs at least one option value or label' };
+  }
+
+  if (element.tagName === 'SELECT') {
+    const select = element as HTMLSelectElement;
+    const options = Array.from(select.options).filter(option => !option.disabled);
+    if (!select.multiple && values.length > 1) {
+      return { success: false, message: 'This select allows a single option' };
+    }
+    const matches = values.map(value => matchChoice(options, value, option => option.value, option => option.label || option.text));
+    const missing = values.filter((_, index) => !matches[index]);
+    if (missing.length > 0) {
+      const available = options.slice(0, 30).map(option => option.label || option.text).join(', ');
+      return { success: false, message: `No option matching ${missing.map(m => `"${m}"`).join(', ')}. Options: ${available}` };
+    }
+
+    select.focus();
+    if (select.multiple) {
+      for (const option of options) option.selected = matches.includes(option);
+    } else {
+      setNativeValue(select, matches[0]!.value);
+    }
+    dispatchValueEvents(select);
+    highlightElement(select, getElementCenter(select));
+    const selected = matches.map(option => option!.label || option!.text);
+    return { success: true, message: `Selected ${selected.map(s => `"${s}"`).join(', ')}`, selected, element: 'SELECT' };
+  }
+
+  // Custom combobox or listbox: open it, then click each matching option
+  const selected: string[] = [];
+  for (const value of values) {
+    let options = element.getAttribute('role') === 'listbox' ? getListboxOptions(element) : [];
+    if (options.length === 0) {
+      (element as HTMLElement).focus();
+      dispatchClickSequence(element);
+      // Type-ahead comboboxes only list options matching their text
+      if (element.tagName === 'INPUT' && values.length === 1) {
+        setNativeValue(element as HTMLInputElement, value);
+        element.dispatchEvent(new Event('input', { bubbles: true }));
+      }
+      options = await waitForListboxOptions(element);
+    }
+    const option = matchChoice(options, value, o => o.getAttribute('data-value') || o.id, o => getAccessibleName(o, 'option'));
+    if (!option) {
+      const available = options.slice(0, 30).map(o => getAccessibleName(o, 'option')).join(', ') || 'none shown';
+      return { success: false, message: `No option matching "${value}". Options: ${available}`, selected };
+    }
+    option.scrollIntoView({ block: 'nearest' });
+    dispatchClickSequence(option);
+    selected.push(getAccessibleName(option, 'option'));
+    await new Promise(resolve => setTimeout(resolve, 150));
+  }
+  highlightElement(element, getElementCenter(element));
+  return { success: true, message: `Selected ${selected.map(s => `"${s}"`).join(', ')}`, selected, element: element.tagName };
+}
+
+function isChecked(element: Element): boolean {
+  if (element.tagName === 'INPUT') return (element as HTMLInputElement).checked;
+  return element.getAttribute('aria-checked') === 'true';
+}
+
+function setChecked(element: Element, checked: boolean): any {
+  if (!isCheckable(element)) {
+    return { success: false, message: `Element ${element.tagName} is not a checkbox, radio or switch` };
+  }
+  const isRadio = (element as HTMLInputElement).type === 'radio' || /radio/.test(element.getAttribute('role') || '');
+  if (!checked && isRadio) {
+    return { success: false, message: 'A radio button cannot be unchecked; select another option in its group instead' };
+  }
+  if (isChecked(element) === checked) {
+    return { success: true, message: `Already ${checked ? 'checked' : 'unchecked'}`, checked, changed: false };
+  }
+
+  if (element.tagName === 'INPUT') {
+    (element as HTMLInputElement).click();
+    if (isChecked(element) !== checked) {
+      // The click was cancelled (e.g. by a styled wrapper); set the state directly
+      Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'checked')?.set?.call(element, checked);
+      dispatchValueEvents(element);
+    }
+  } else {
+    dispatchClickSequence(element);
+  }
+
+  const target = isHiddenElement(element) ? (element as HTMLInputElement).labels?.[0] || element : element;
+  highlightElement(target, getElementCenter(target));
+  const now = isChecked(element);
+  return {
+    success: now === checked,
+    message: now === checked ? `${checked ? 'Checked' : 'Unchecked'} ${getAccessibleName(element, getRole(element) || '')}` : 'The control did not change state',
+    checked: now,
+    changed: true,
+  };
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+// "2024-05-01" is read as a local date, not UTC midnight
+function parseDateValue(value: string): Date | null {
+  const iso = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?/);
+  if (iso) {
+    return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]), Number(iso[4] || 0), Number(iso[5] || 0));
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function isoWeek(date: Date): string {
+  const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 3 - ((date.getDay() + 6) % 7));
+  const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+  const week = 1 + Math.round(((thursday.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getDay() + 6) % 7)) / 7);
+  return `${thursday.getFullYear()}-W${pad(week)}`;
+}
+
+function formatDateForInput(type: string, value: string): string | null {
+  if (DATE_INPUT_FORMATS[type]?.test(value.trim())) return value.trim();
+  if (type === 'time') {
+    const time = value.trim().match(/^(\d{1,2}):(\d{2})\s*(am|pm)?$/i);
+    if (!time) return null;
+    const hours = (Number(time[1]) % 12) + (time[3]?.toLowerCase() === 'pm' ? 12 : time[3] ? 0 : Number(time[1]) >= 12 ? 12 : 0);
+    return `${pad(hours)}:${time[2]}`;
+  }
+  const date = parseDateValue(value);
+  if (!date) return null;
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  switch (type) {
+    case 'date': return day;
+    case 'datetime-local': return `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+    case 'month': return day.slice(0, 7);
+    case 'week': return isoWeek(date);
+    default: return null;
+  }
+}
+
+// Text date fields follow their placeholder ("MM/DD/YYYY", "dd.mm.yyyy"); ISO otherwise
+function formatDateForPattern(date: Date, pattern: string): string {
+  return pattern
+    .replace(/y{4}/i, String(date.getFullYear()))
+    .replace(/y{2}/i, String(date.getFullYear()).slice(-2))
+    .replace(/m{2}/i, pad(date.getMonth() + 1))
+    .replace(/d{2}/i, pad(date.getDate()));
+}
+
+function setDate(element: Element, value: string): any {
+  if (!isDateField(element)) {
+    return { success: false, message: 'setDate needs a date input or a text field; for a calendar widget, open it with click and pick the day' };
+  }
+  const input = element as HTMLInputElement;
+  const type = input.type;
+
+  let formatted: string | null;
+  if (DATE_INPUT_FORMATS[type]) {
+    formatted = formatDateForInput(type, value);
+    if (!formatted) {
+      return { success: false, message: `"${value}" is not a valid ${type} value` };
+    }
+    // Same-format ISO strings compare correctly as text
+    if ((input.min && formatted < input.min) || (input.max && formatted > input.max)) {
+      return { success: false, message: `${formatted} is outside the allowed range (${input.min || '…'} to ${input.max || '…'})` };
+    }
+  } else {
+    const pattern = [input.getAttribute('placeholder'), input.getAttribute('data-format'), input.getAttribute('aria-placeholder')]
+      .find(hint => hint && /(yy|mm|dd)/i.test(hint) && /^[ymd\s./-]+$/i.test(hint));
+    const date = parseDateValue(value);
+    formatted = date && pattern ? formatDateForPattern(date, pattern) : value;
+  }
+
+  input.focus();
+  setNativeValue(input, formatted);
+  dispatchValueEvents(input);
+  // Date pickers over text fields often parse on blur
+  input.dispatchEvent(new FocusEvent('blur'));
+  input.dispatchEvent(new FocusEvent('focusout', { bubbles: true }));
+  highlightElement(input, getElementCenter(input));
+
+  if (DATE_INPUT_FORMATS[type] && input.value !== formatted) {
+    return { success: false, message: `The field rejected ${formatted}` };
+  }
+  return { success: true, message: `Set ${type} field to ${input.value}`, value: input.value };
+}
+
+function matchesAccept(file: File, accept: string): boolean {
+  const rules = accept.split(',').map(rule => rule.trim().toLowerCase()).filter(Boolean);
+  if (rules.length === 0) return true;
+  const name = file.name.toLowerCase();
+  const type = file.type.toLowerCase();
+  return rules.some(rule =>
+    rule.startsWith('.') ? name.endsWith(rule) : rule.endsWith('/*') ? type.startsWith(rule.slice(0, -1)) : type === rule
+  );
+}
+
+function uploadFile(element: Element, payloads: UploadFilePayload[]): any {
+  if (payloads.length === 0) {
+    return { success: false, message: 'No files to upload; the user must attach them in the composer first' };
+  }
+  const files = payloads.map(payload => new File(
+    [Uint8Array.from(atob(payload.data), char => char.charCodeAt(0))],
+    payload.name,
+    { type: payload.type || 'application/octet-stream' }
+  ));
+  const transfer = new DataTransfer();
+  for (const file of files) transfer.items.add(file);
+
+  if (isFileTarget(element)) {
+    const input = element as HTMLInputElement;
+    if (!input.multiple && files.length > 1) {
+      return { success: false, message: 'This file input accepts a single file' };
+    }
+    const rejected = files.filter(file => !matchesAccept(file, input.accept));
+    if (rejected.length > 0) {
+      return { success: false, message: `${rejected.map(file => file.name).join(', ')} not accepted (accepts ${input.accept})` };
+    }
+    input.files = transfer.files;
+    dispatchValueEvents(input);
+  } else {
+    // Drop zones without a file input take the files as a drop
+    for (const type of ['dragenter', 'dragover', 'drop']) {
+      element.dispatchEvent(new DragEvent(type, { bubbles: true, cancelable: true, dataTransfer: transfer }));
+    }
+  }
+
+  const target = isHiddenElement(element) ? (element as HTMLInputElement).labels?.[0] || element : element;
+  highlightElement(target, getElementCenter(target));
+  return {
+    success: true,
+    message: `${isFileTarget(element) ? 'Attached' : 'Dropped'} ${files.map(file => file.name).join(', ')}`,
+    files: files.map(file => file.name),
+    element: element.tagName,
+  };
+}
+
+// Execute actions on the page
+function executePageAction(
+  action: string, 
+  target?: string, 
+  value?: string, 
+  selector?: string,
+  coordinates?: { x: number; y: number },
+  direction?: string,
+  amount?: number,
+  key?: string,
+  keys?: string[],
+  destination?: { x: number; y: number },
+  ref?: string,
+  destinationRef?: string,
+  formOptions: FormActionOptions = {}
+): any {
+  try {
+    // Element refs from GET_AX_SNAPSHOT take precedence over selectors and coordinates
+    const elementRef = ref || parseRef(selector) || parseRef(target);
+    let refElement: Element | null = null;
+    if (elementRef) {
+      refElement = resolveRef(elementRef);
+      if (!refElement) {
+        return { success: false, message: `Unknown or stale element ref: ${elementRef}. Take a new accessibility snapshot.` };
+      }
+      refElement.scrollIntoView({ block: 'center', inline: 'center' });
+    }
+
+    switch (action) {
+      case 'select_option': {
+        const element = findFormControl(refElement, selector || target, formOptions.label, isSelectable);
+        if (!element) return { success: false, message: `Select not found: ${selector || target || formOptions.label}` };
+        return selectOption(element, formOptions.values || (value ? [value] : []));
+      }
+
+      case 'set_checked': {
+        const element = findFormControl(refElement, selector || target, formOptions.label, isCheckable);
+        if (!element) return { success: false, message: `Checkbox not found: ${selector || target || formOptions.label}` };
+        return setChecked(element, formOptions.checked ?? true);
+      }
+
+      case 'set_date': {
+        const element = findFormControl(refElement, selector || target, formOptions.label, isDateField);
+        if (!element) return { success: false, message: `Date field not found: ${selector || target || formOptions.label}` };
+        if (!value) return { success: false, message: 'Value required for set_date action' };
+        return setDate(element, value);
+      }
+
+      case 'upload_file': {
+        const element = findFormControl(refElement, selector || target, formOptions.label, isFileTarget);
+        if (!element) return { success: false, message: `File input not found: ${selector || target || formOptions.label}` };
+        return uploadFile(element, formOptions.files || []);
+      }
+
+      case 'click':
+        // Support ref, selector and coordinate-based clicking
+        if (refElement || selector || target) {
+          const element = refElement || querySelectorDeep(selector || target!);
+          if (element) {
+            const { x: clickX, y: clickY } = getElementCenter(element);
+            
+            ['mousedown', 'mouseup', 'click'].forEach(eventType => {
+              const event = new MouseEvent(eventType, {
+                bubbles: true,
+                cancelable: true,
+                view: window,
+                clientX: clickX,
+                clientY: clickY
+              });
+              element.dispatchEvent(event);
+            });
+            
+            // Visual feedback
+            highlightElement(element, coordinates || { x: clickX, y: clickY });
+            
+            return {
+              success: true,
+              message: `Clicked element: ${elementRef || selector || target}`,
+              element: element.tagName,
+              ref: elementRef,
+              frame: getFramePath(element)
+            };
+          }
+          return { success: false, message: `Element not found: ${selector || target}` };
+        } else if (coordinates) {
+
+          const element = elementFromPointDeep(coordinates.x, coordinates.y);
+
+          if (element) {
+            // Get element position for logging
+            const rect = element.getBoundingClientRect();
+
+            // Dispatch full mouse event sequence
+            ['mousedown', 'mouseup', 'click'].forEach(eventType => {
+              const event = new MouseEvent(eventType, {
+                bubbles: true,
+                cancelable: true,
+                view: window,
+                clientX: coordinates.x,
+                clientY: coordinates.y
+              });
+              element.dispatchEvent(event);
+            });
+
+            // Visual feedback
+            highlightElement(element, coordinates);
+
+
+            return {
+              success: true,
+              message: `Clicked at (${coordinates.x}, ${coordinates.y})`,
+              element: element.tagName,
+              text: element.textContent?.slice(0, 50),
+              elementBounds: {
+                left: rect.left,
+                top: rect.top,
+                width: rect.width,
+                height: rect.height
+              }
+            };
+          }
+          console.error('❌ No element found at coordinates');
+          return { success: false, message: `No element found at coordinates (${coordinates.x}, ${coordinates.y})` };
+        }
+        return { success: false, message: 'Target selector or coordinates required for click action' };
+
+      case 'fill':
+        if (value) {
+          const textToType = value; // Capture value to preserve type narrowing
+          const shownText = formOptions.shownValue ?? textToType;
+          let element: HTMLElement | null = null;
+
+          console.log(`🔧 [fill] Starting fill action: selector="${elementRef || target}", text="${shownText.substring(0, 30)}..."`);
+
+          // Try to find element by ref or selector if provided
+          if (refElement) {
+            element = refElement as HTMLElement;
+          } else if (target && !target.includes(':focus')) {
+            element = querySelectorDeep(target) as HTMLElement;
+            console.log(`🔍 [fill] Queried selector "${target}": ${element ? '✓ found' : '✗ not found'}`);
+          }
+
+          // If no element found or selector was for focused elements, use the currently focused element
+          if (!element) {
+            element = getDeepActiveElement() as HTMLElement;
+            console.log(`🔍 [fill] Using focused element: ${element?.tagName || 'none'}`);
+          }
+
+          if (element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' ||
+                         element.getAttribute('contenteditable') === 'true')) {
+
+            console.log(`✓ [fill] Element is typeable: ${element.tagName}`);
+            
+            // Click the element first to ensure it receives focus
+            const rect = element.getBoundingClientRect();
+            const clickX = rect.left + rect.width / 2;
+            const clickY = rect.top + rect.height / 2;
+            console.log(`🖱️ [fill] Clicking element at (${clickX}, ${clickY})`);
+
+            ['mousedown', 'mouseup', 'click'].forEach(eventType => {
+              const event = new MouseEvent(eventType, {
+                bubbles: true,
+                cancelable: true,
+                view: window,
+                clientX: clickX,
+                clientY: clickY
+              });
+              element!.dispatchEvent(event);
+            });
+
+            // Explicitly focus the element
+            element.focus();
+
+            // Return a promise that resolves after a delay to ensure focus is established
+            return new Promise<any>((resolve) => {
+              console.log(`⏱️ [fill] Starting 300ms focus delay`);
+              
+              setTimeout(() => {
+                console.log(`✓ [fill] Focus delay complete, verifying focus...`);
+                
                 // Verify element still has focus
-                const stillFocused = document.activeElement === element;
+                const stillFocused = getDeepActiveElement() === element;
                 console.log(`🔍 [fill] Still focused: ${stillFocused ? '✓ yes' : '✗ no'}`);
 
                 if (!stillFocused) {
@@ -316,10 +1408,10 @@ function executePageAction(
                     dispatchEventBound(new Event('change', { bubbles: true }));
                   }
 
-                  console.log(`✅ [fill] Successfully typed "${textToType.substring(0, 30)}..." into ${element.tagName}`);
+                  console.log(`✅ [fill] Successfully typed "${shownText.substring(0, 30)}..." into ${element.tagName}`);
                   resolve({
                     success: true,
-                    message: `Typed "${textToType}" into ${element.tagName}`,
+                    message: `Typed "${shownText}" into ${element.tagName}`,
                     element: element.tagName
                   });
                 }
@@ -349,7 +1441,7 @@ function executePageAction(
           window.scrollBy({ top: (amount || 300), behavior: 'smooth' });
           return { success: true, message: `Scrolled down by ${amount || 300}px` };
         } else if (selector || target) {
-          const element = document.querySelector(selector || target!);
+          const element = querySelectorDeep(selector || target!);
           if (element) {
             element.scrollIntoView({ behavior: 'smooth', block: 'center' });
             return { success: true, message: `Scrolled to: ${selector || target}` };
@@ -363,7 +1455,7 @@ function executePageAction(
         // This mimics the Python playwright keyboard.type() behavior
         if (value) {
           const textToType = value;
-          const focusedEl = document.activeElement;
+          const focusedEl = getDeepActiveElement();
 
           if (!focusedEl) {
             return { success: false, message: 'No element has focus. Click on an input field first.' };
@@ -424,7 +1516,7 @@ function executePageAction(
       case 'press_key':
         // Press a specific key on the currently focused element
         const keyToPress = (key || value || target || 'Enter') as string;
-        const focusedElement = document.activeElement;
+        const focusedElement = getDeepActiveElement();
 
         if (focusedElement) {
           const keyEventInit: KeyboardEventInit = {
@@ -444,12 +1536,12 @@ function executePageAction(
       
       case 'clear_input':
         // Clear the currently focused input field
-        const activeEl = document.activeElement as HTMLInputElement;
+        const activeEl = getDeepActiveElement() as HTMLInputElement;
         if (activeEl && (activeEl.tagName === 'INPUT' || activeEl.tagName === 'TEXTAREA' || activeEl.getAttribute('contenteditable') === 'true')) {
           // Select all and delete
           if (activeEl.tagName === 'INPUT' || activeEl.tagName === 'TEXTAREA') {
             activeEl.select();
-            document.execCommand('delete');
+            activeEl.ownerDocument.execCommand('delete');
             activeEl.value = '';
             activeEl.dispatchEvent(new Event('input', { bubbles: true }));
           } else {
@@ -463,7 +1555,7 @@ function executePageAction(
       case 'key_combination':
         // Press a combination of keys like ["Control", "A"] or ["Enter"]
         const keysList = keys || ['Enter'];
-        const targetEl = document.activeElement || document.body;
+        const targetEl = getDeepActiveElement() || document.body;
         
         // Hold down all keys except the last one
         for (let i = 0; i < keysList.length - 1; i++) {
@@ -496,35 +1588,46 @@ function executePageAction(
         return { success: true, message: `Pressed key combination: ${keysList.join('+')}` };
       
       case 'hover':
-        // Hover at specific coordinates
-        if (coordinates) {
-          const hoverEl = document.elementFromPoint(coordinates.x, coordinates.y);
+        // Hover over a ref'd element or at specific coordinates
+        if (refElement || coordinates) {
+          const hoverPoint = refElement ? getElementCenter(refElement) : coordinates!;
+          const hoverEl = refElement || elementFromPointDeep(hoverPoint.x, hoverPoint.y);
           if (hoverEl) {
             hoverEl.dispatchEvent(new MouseEvent('mouseover', {
               bubbles: true,
               cancelable: true,
               view: window,
-              clientX: coordinates.x,
-              clientY: coordinates.y
+              clientX: hoverPoint.x,
+              clientY: hoverPoint.y
             }));
             hoverEl.dispatchEvent(new MouseEvent('mouseenter', {
               bubbles: true,
               cancelable: true,
               view: window,
-              clientX: coordinates.x,
-              clientY: coordinates.y
+              clientX: hoverPoint.x,
+              clientY: hoverPoint.y
             }));
-            return { success: true, message: `Hovered at (${coordinates.x}, ${coordinates.y})`, element: hoverEl.tagName };
+            return { success: true, message: `Hovered at (${hoverPoint.x}, ${hoverPoint.y})`, element: hoverEl.tagName, ref: elementRef };
           }
-          return { success: false, message: `No element at (${coordinates.x}, ${coordinates.y})` };
+          return { success: false, message: `No element at (${hoverPoint.x}, ${hoverPoint.y})` };
         }
-        return { success: false, message: 'Coordinates required for hover' };
+        return { success: false, message: 'Ref or coordinates required for hover' };
       
-      case 'drag_drop':
-        // Drag and drop from coordinates to destination
-        if (coordinates && destination) {
-          const dragEl = document.elementFromPoint(coordinates.x, coordinates.y);
-          const dropEl = document.elementFromPoint(destination.x, destination.y);
+      case 'drag_drop': {
+        // Drag and drop between refs or from coordinates to destination
+        let dropRefElement: Element | null = null;
+        if (destinationRef) {
+          dropRefElement = resolveRef(destinationRef);
+          if (!dropRefElement) {
+            return { success: false, message: `Unknown or stale element ref: ${destinationRef}. Take a new accessibility snapshot.` };
+          }
+        }
+        const dragFrom = refElement ? getElementCenter(refElement) : coordinates;
+        const dropAt = dropRefElement ? getElementCenter(dropRefElement) : destination;
+
+        if (dragFrom && dropAt) {
+          const dragEl = refElement || elementFromPointDeep(dragFrom.x, dragFrom.y);
+          const dropEl = dropRefElement || elementFromPointDeep(dropAt.x, dropAt.y);
 
           if (dragEl && dropEl) {
             try {
@@ -536,8 +1639,8 @@ function executePageAction(
                 bubbles: true,
                 cancelable: true,
                 view: window,
-                clientX: coordinates.x,
-                clientY: coordinates.y,
+                clientX: dragFrom.x,
+                clientY: dragFrom.y,
                 buttons: 1
               }));
 
@@ -546,21 +1649,21 @@ function executePageAction(
                 bubbles: true,
                 cancelable: true,
                 view: window,
-                clientX: coordinates.x,
-                clientY: coordinates.y,
+                clientX: dragFrom.x,
+                clientY: dragFrom.y,
                 dataTransfer: dataTransfer
               }));
 
               // Step 3: Simulate drag movement with mousemove events
               // Calculate steps between source and destination
               const steps = 10;
-              const stepX = (destination.x - coordinates.x) / steps;
-              const stepY = (destination.y - coordinates.y) / steps;
+              const stepX = (dropAt.x - dragFrom.x) / steps;
+              const stepY = (dropAt.y - dragFrom.y) / steps;
 
               for (let i = 1; i <= steps; i++) {
-                const currentX = coordinates.x + stepX * i;
-                const currentY = coordinates.y + stepY * i;
-                const currentEl = document.elementFromPoint(currentX, currentY);
+                const currentX = dragFrom.x + stepX * i;
+                const currentY = dragFrom.y + stepY * i;
+                const currentEl = elementFromPointDeep(currentX, currentY);
 
                 // Mouse move
                 if (currentEl) {
@@ -602,8 +1705,8 @@ function executePageAction(
                 bubbles: true,
                 cancelable: true,
                 view: window,
-                clientX: destination.x,
-                clientY: destination.y,
+                clientX: dropAt.x,
+                clientY: dropAt.y,
                 dataTransfer: dataTransfer
               }));
 
@@ -612,8 +1715,8 @@ function executePageAction(
                 bubbles: true,
                 cancelable: true,
                 view: window,
-                clientX: destination.x,
-                clientY: destination.y,
+                clientX: dropAt.x,
+                clientY: dropAt.y,
                 dataTransfer: dataTransfer
               }));
 
@@ -622,23 +1725,24 @@ function executePageAction(
                 bubbles: true,
                 cancelable: true,
                 view: window,
-                clientX: destination.x,
-                clientY: destination.y
+                clientX: dropAt.x,
+                clientY: dropAt.y
               }));
 
-              return { success: true, message: `Dragged from (${coordinates.x}, ${coordinates.y}) to (${destination.x}, ${destination.y})` };
+              return { success: true, message: `Dragged from (${dragFrom.x}, ${dragFrom.y}) to (${dropAt.x}, ${dropAt.y})` };
             } catch (error) {
               return { success: false, message: `Drag and drop failed: ${error}` };
             }
           }
           return { success: false, message: 'Could not find elements at drag or drop coordinates' };
         }
-        return { success: false, message: 'Both coordinates and destination required for drag_drop' };
+        return { success: false, message: 'Both source (ref or coordinates) and destination (ref or coordinates) required for drag_drop' };
+      }
 
       case 'mouse_move':
         // Simulate mouse move by dispatching mouse events
         if (coordinates) {
-          const element = document.elementFromPoint(coordinates.x, coordinates.y);
+          const element = elementFromPointDeep(coordinates.x, coordinates.y);
           if (element) {
             const moveEvent = new MouseEvent('mousemove', {
               bubbles: true,
@@ -666,45 +1770,1237 @@ function executePageAction(
   }
 }
 
-// Listen for messages from background script or sidebar
-chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
-  if (request.type === 'PING') {
-    // Respond to ping to confirm content script is loaded
-    sendResponse({ success: true });
-    return true;
+// ============================================
+// Region capture for page watches
+// ============================================
+
+const MAX_REGION_LINES = 500;
+
+// One line per structural element (headings, list items, table rows, images,
+// controls), so a watch can tell "a row was added" apart from "some text changed"
+function describeStructure(element: Element): string | null {
+  const tag = element.tagName;
+  if (/^H[1-6]$/.test(tag)) return `heading${tag[1]} "${collapseText(element.textContent)}"`;
+  if (tag === 'LI') return `listitem "${collapseText(element.textContent, 60)}"`;
+  if (tag === 'TR') {
+    const cells = Array.from((element as HTMLTableRowElement).cells).map(cell => collapseText(cell.textContent, 30));
+    return `row "${cells.join(' | ')}"`;
   }
+  if (tag === 'IMG') return `img "${collapseText(element.getAttribute('alt'))}"`;
+  const role = getRole(element);
+  if (role && INTERACTIVE_ROLES.has(role)) return `${role} "${getAccessibleName(element, role)}"`;
+  return null;
+}
 
-  if (request.type === 'GET_PAGE_CONTEXT') {
-    const context = extractPageContext();
-    sendResponse(context);
-    return true;
+function captureRegion(selector?: string): RegionSnapshot {
+  const root = selector ? querySelectorDeep(selector) : document.body;
+  const base = { url: window.location.href, title: document.title, selector, capturedAt: Date.now() };
+  if (!root) {
+    return { ...base, found: false, text: [], structure: [] };
   }
 
-  if (request.type === 'EXECUTE_ACTION') {
-    // Handle asynchronously to properly support Promise-returning actions
+  const text = ((root as HTMLElement).innerText ?? root.textContent ?? '')
+    .split('\n')
+    .map(line => collapseText(line, 300))
+    .filter(Boolean)
+    .slice(0, MAX_REGION_LINES);
+
+  const structure: string[] = [];
+  for (const element of [root, ...Array.from(root.querySelectorAll('*'))]) {
+    if (structure.length >= MAX_REGION_LINES) break;
+    if (SKIPPED_TAGS.has(element.tagName.toUpperCase()) || isHiddenElement(element)) continue;
+    const line = describeStructure(element);
+    if (line) structure.push(line);
+  }
+
+  return { ...base, found: true, text, structure };
+}
+
+// ============================================
+// Table and list extraction
+// ============================================
+
+// HTML tables, ARIA grids and runs of repeated cards/list items, returned as rows
+// keyed by normalized headers. Row and container refs work like snapshot refs.
+const DEFAULT_MAX_TABLES = 10;
+const DEFAULT_MAX_TABLE_ROWS = 200;
+const MAX_CELL_TEXT = 300;
+const MAX_LIST_COLUMNS = 12;
+const MIN_LIST_ITEMS = 3;
+const ARIA_TABLE_SELECTOR = '[role="grid"], [role="table"], [role="treegrid"]';
+const ARIA_CELL_SELECTOR = '[role="cell"], [role="gridcell"], [role="columnheader"], [role="rowheader"]';
+
+function cellText(element: Element | undefined): string {
+  if (!element) return '';
+  return collapseText((element as HTMLElement).innerText ?? element.textContent, MAX_CELL_TEXT);
+}
+
+function clampSpan(value: number, max: number): number {
+  return Number.isFinite(value) && value >= 1 ? Math.min(Math.floor(value), max) : 1;
+}
+
+// Rows × columns with colspan/rowspan expanded, so every slot holds the cell covering it
+function expandTableGrid(
+  rows: Element[][],
+  getSpans: (cell: Element) => { colspan: number; rowspan: number }
+): Element[][] {
+  const grid: Element[][] = rows.map(() => []);
+  rows.forEach((cells, rowIndex) => {
+    let column = 0;
+    for (const cell of cells) {
+      while (grid[rowIndex][column]) column++;
+      const { colspan, rowspan } = getSpans(cell);
+      for (let r = rowIndex; r < Math.min(rowIndex + rowspan, rows.length); r++) {
+        for (let c = column; c < column + colspan; c++) grid[r][c] = cell;
+      }
+      column += colspan;
+    }
+  });
+  return grid;
+}
+
+// Blank and repeated headers get a position or count so every column has its own key
+function uniqueHeaders(headers: string[]): string[] {
+  const used = new Map<string, number>();
+  return headers.map((header, index) => {
+    const base = header || `Column ${index + 1}`;
+    const count = (used.get(base) || 0) + 1;
+    used.set(base, count);
+    return count > 1 ? `${base} ${count}` : base;
+  });
+}
+
+// One header per column; stacked header rows are joined ("Price / USD")
+function normalizeHeaders(headerRows: Element[][], width: number): string[] {
+  const headers: string[] = [];
+  for (let column = 0; column < width; column++) {
+    const parts: string[] = [];
+    for (const row of headerRows) {
+      const text = cellText(row[column]);
+      if (text && parts[parts.length - 1] !== text) parts.push(text);
+    }
+    headers.push(parts.join(' / '));
+  }
+  return uniqueHeaders(headers);
+}
+
+function rowLinks(row: Element[] | Element): string[] | undefined {
+  const anchors = (Array.isArray(row) ? row : [row]).flatMap(element =>
+    element.tagName === 'A' ? [element] : Array.from(element.querySelectorAll('a[href]'))
+  ) as HTMLAnchorElement[];
+  const links = Array.from(new Set(anchors.map(a => a.href).filter(href => /^https?:/.test(href)))).slice(0, 5);
+  return links.length > 0 ? links : undefined;
+}
+
+function getTableCaption(element: Element): string | undefined {
+  const caption = element.tagName === 'TABLE' ? (element as HTMLTableElement).caption : null;
+  const labelledBy = element.getAttribute('aria-labelledby')
+    ?.split(/\s+/)
+    .map(id => element.ownerDocument.getElementById(id)?.textContent || '')
+    .join(' ');
+  return collapseText(caption?.textContent || element.getAttribute('aria-label') || labelledBy) || undefined;
+}
+
+// Header rows on top, body rows keyed by the headers; rows without any text are dropped
+function gridToTable(
+  kind: ExtractedTable['kind'],
+  container: Element,
+  rowElements: Element[],
+  grid: Element[][],
+  headerCount: number,
+  maxRows: number
+): ExtractedTable | null {
+  const width = Math.max(0, ...grid.map(row => row.length));
+  if (width < 2 || headerCount >= grid.length) return null;
+
+  const headers = normalizeHeaders(grid.slice(0, headerCount), width);
+  const bodyRows: ExtractedTableRow[] = [];
+  let rowCount = 0;
+  for (let index = headerCount; index < grid.length; index++) {
+    const texts = headers.map((_, column) => cellText(grid[index][column]));
+    if (texts.every(text => !text)) continue;
+    rowCount++;
+    if (bodyRows.length >= maxRows) continue;
+    const row: ExtractedTableRow = {
+      ref: getRefForElement(rowElements[index]),
+      cells: Object.fromEntries(headers.map((header, column) => [header, texts[column]])),
+    };
+    const links = rowLinks(Array.from(new Set(grid[index].filter(Boolean))));
+    if (links) row.links = links;
+    bodyRows.push(row);
+  }
+  if (rowCount === 0) return null;
+
+  const table: ExtractedTable = {
+    kind,
+    ref: getRefForElement(container),
+    headers,
+    rows: bodyRows,
+    rowCount,
+    truncated: rowCount > bodyRows.length,
+  };
+  const caption = getTableCaption(container);
+  if (caption) table.caption = caption;
+  const frame = getFramePath(container);
+  if (frame) table.frame = frame;
+  return table;
+}
+
+function extractHtmlTable(table: HTMLTableElement, maxRows: number): ExtractedTable | null {
+  // Tables holding other tables are page layout, not data
+  if (table.querySelector('table')) return null;
+  const rows = Array.from(table.rows).filter(row => !isHiddenElement(row));
+  const grid = expandTableGrid(rows.map(row => Array.from(row.cells)), cell => {
+    const { colSpan, rowSpan } = cell as HTMLTableCellElement;
+    // rowspan="0" spans to the end of the table section
+    return { colspan: clampSpan(colSpan, 100), rowspan: rowSpan === 0 ? rows.length : clampSpan(rowSpan, rows.length) };
+  });
+
+  let headerCount = 0;
+  while (headerCount < rows.length && rows[headerCount].parentElement?.tagName === 'THEAD') headerCount++;
+  if (headerCount === 0) {
+    while (
+      headerCount < rows.length - 1 &&
+      Array.from(rows[headerCount].cells).every(cell => cell.tagName === 'TH')
+    ) headerCount++;
+  }
+  return gridToTable('table', table, rows, grid, headerCount, maxRows);
+}
+
+function extractAriaGrid(container: Element, maxRows: number): ExtractedTable | null {
+  const rows = Array.from(container.querySelectorAll('[role="row"]'))
+    .filter(row => row.closest(ARIA_TABLE_SELECTOR) === container && !isHiddenElement(row));
+  const cells = rows.map(row =>
+    Array.from(row.querySelectorAll(ARIA_CELL_SELECTOR)).filter(cell => cell.closest('[role="row"]') === row)
+  );
+  const grid = expandTableGrid(cells, cell => ({
+    colspan: clampSpan(Number(cell.getAttribute('aria-colspan')), 100),
+    rowspan: clampSpan(Number(cell.getAttribute('aria-rowspan')), rows.length),
+  }));
+
+  let headerCount = 0;
+  while (
+    headerCount < rows.length - 1 &&
+    cells[headerCount].length > 0 &&
+    cells[headerCount].every(cell => cell.getAttribute('role') === 'columnheader')
+  ) headerCount++;
+  return gridToTable('grid', container, rows, grid, headerCount, maxRows);
+}
+
+// Items of a repeated structure share tag and first class ("li.result", "div.card")
+function itemSignature(element: Element): string {
+  return `${element.tagName}.${element.classList[0] || ''}`;
+}
+
+function getRepeatedItems(container: Element): Element[] | null {
+  const children = Array.from(container.children).filter(child =>
+    !SKIPPED_TAGS.has(child.tagName.toUpperCase()) && !isHiddenElement(child)
+  );
+  if (children.length < MIN_LIST_ITEMS) return null;
+  const counts = new Map<string, number>();
+  for (const child of children) counts.set(itemSignature(child), (counts.get(itemSignature(child)) || 0) + 1);
+  const [signature, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+  if (count < MIN_LIST_ITEMS || count < children.length * 0.6) return null;
+  return children.filter(child => itemSignature(child) === signature);
+}
+
+// Text-bearing descendants of an item, keyed by their tag/class path inside it
+function collectItemFields(item: Element): Map<string, string[]> {
+  const fields = new Map<string, string[]>();
+  const add = (key: string, text: string) => {
+    if (!text) return;
+    fields.set(key, [...(fields.get(key) || []), text]);
+  };
+  const walk = (element: Element, path: string) => {
+    for (const child of Array.from(element.children)) {
+      if (SKIPPED_TAGS.has(child.tagName.toUpperCase()) || isHiddenElement(child)) continue;
+      const segment = child.classList[0] ? `${child.tagName.toLowerCase()}.${child.classList[0]}` : child.tagName.toLowerCase();
+      const childPath = path ? `${path} > ${segment}` : segment;
+      if (child.tagName === 'IMG') {
+        add(childPath, collapseText(child.getAttribute('alt'), MAX_CELL_TEXT));
+        continue;
+      }
+      const ownText = Array.from(child.childNodes)
+        .filter(node => node.nodeType === Node.TEXT_NODE)
+        .map(node => node.textContent)
+        .join(' ');
+      if (collapseText(ownText)) {
+        add(childPath, cellText(child));
+      } else {
+        walk(child, childPath);
+      }
+    }
+  };
+  const ownText = Array.from(item.childNodes).filter(node => node.nodeType === Node.TEXT_NODE).map(node => node.textContent).join(' ');
+  if (collapseText(ownText)) {
+    add('text', cellText(item));
+  } else {
+    walk(item, '');
+  }
+  return fields;
+}
+
+// Column name from the last path segment: its class when it has one, else the tag
+function fieldName(path: string): string {
+  const segment = path.split(' > ').pop() || path;
+  const [tag, className] = segment.split('.');
+  return className || tag;
+}
+
+function extractRepeatedList(container: Element, items: Element[], maxRows: number): ExtractedTable | null {
+  const itemFields = items.map(collectItemFields);
+  const order: string[] = [];
+  const presence = new Map<string, number>();
+  for (const fields of itemFields) {
+    for (const key of fields.keys()) {
+      if (!presence.has(key)) order.push(key);
+      presence.set(key, (presence.get(key) || 0) + 1);
+    }
+  }
+  const keys = order.filter(key => presence.get(key)! >= items.length / 2).slice(0, MAX_LIST_COLUMNS);
+  if (keys.length === 0) return null;
+
+  // Navigation menus are repeated links too; real lists have several fields or some text
+  const averageText = itemFields.reduce((sum, fields) => sum + keys.reduce((n, key) => n + (fields.get(key)?.join(' ').length || 0), 0), 0) / items.length;
+  if (keys.length < 2 && averageText < 20) return null;
+
+  const headers = uniqueHeaders(keys.map(fieldName));
+  const rows: ExtractedTableRow[] = [];
+  let rowCount = 0;
+  items.forEach((item, index) => {
+    const texts = keys.map(key => itemFields[index].get(key)?.join(', ') || '');
+    if (texts.every(text => !text)) return;
+    rowCount++;
+    if (rows.length >= maxRows) return;
+    const row: ExtractedTableRow = {
+      ref: getRefForElement(item),
+      cells: Object.fromEntries(headers.map((header, column) => [header, texts[column]])),
+    };
+    const links = rowLinks(item);
+    if (links) row.links = links;
+    rows.push(row);
+  });
+  if (rowCount < MIN_LIST_ITEMS) return null;
+
+  const table: ExtractedTable = {
+    kind: 'list',
+    ref: getRefForElement(container),
+    headers,
+    rows,
+    rowCount,
+    truncated: rowCount > rows.length,
+  };
+  const caption = getTableCaption(container);
+  if (caption) table.caption = caption;
+  const frame = getFramePath(container);
+  if (frame) table.frame = frame;
+  return table;
+}
+
+function extractTables(options: {
+  selector?: string;
+  ref?: string;
+  maxTables?: number;
+  maxRows?: number;
+  includeLists?: boolean;
+} = {}): TableExtraction | { success: false; error: string } {
+  resetRefsOnNavigation();
+  const maxTables = options.maxTables ?? DEFAULT_MAX_TABLES;
+  const maxRows = options.maxRows ?? DEFAULT_MAX_TABLE_ROWS;
+
+  let root: Element | null = null;
+  if (options.ref || options.selector) {
+    const ref = parseRef(options.ref);
+    root = ref ? resolveRef(ref) : querySelectorDeep(options.selector || options.ref || '');
+    if (!root) {
+      return { success: false, error: `Element not found: ${options.ref || options.selector}` };
+    }
+  }
+  const within = (selector: string): Element[] => {
+    if (!root) return querySelectorAllDeep(selector);
+    return [
+      ...(root.matches(selector) ? [root] : []),
+      ...Array.from(root.querySelectorAll(selector)),
+      ...(root.shadowRoot ? querySelectorAllDeep(selector, root.shadowRoot) : []),
+    ];
+  };
+
+  const tables: ExtractedTable[] = [];
+  for (const table of within('table') as HTMLTableElement[]) {
+    if (isHiddenElement(table)) continue;
+    const extracted = extractHtmlTable(table, maxRows);
+    if (extracted) tables.push(extracted);
+  }
+  for (const grid of within(ARIA_TABLE_SELECTOR)) {
+    if (grid.tagName === 'TABLE' || isHiddenElement(grid)) continue;
+    const extracted = extractAriaGrid(grid, maxRows);
+    if (extracted) tables.push(extracted);
+  }
+
+  if (options.includeLists !== false) {
+    // Largest repeated structures first; lists inside tables or other lists are skipped
+    const candidates = within('ul, ol, [role="list"], [role="feed"], div, section, main')
+      .filter(container => !container.closest(`table, ${ARIA_TABLE_SELECTOR}`) && !isHiddenElement(container))
+      .map(container => ({ container, items: getRepeatedItems(container) }))
+      .filter((candidate): candidate is { container: Element; items: Element[] } => !!candidate.items)
+      .sort((a, b) => b.items.length - a.items.length);
+    const chosen: Element[] = [];
+    for (const { container, items } of candidates) {
+      if (chosen.some(other => other.contains(container) || container.contains(other))) continue;
+      const extracted = extractRepeatedList(container, items, maxRows);
+      if (extracted) {
+        tables.push(extracted);
+        chosen.push(container);
+      }
+    }
+  }
+
+  return {
+    url: window.location.href,
+    title: document.title,
+    tables: tables.slice(0, maxTables),
+    timestamp: Date.now(),
+  };
+}
+
+// ============================================
+// Main content extraction (reader mode)
+// ============================================
+
+// Readability-style: find the block holding the page's article (a semantic container,
+// else the best-scoring block of paragraphs and its related siblings), drop boilerplate
+// inside it, and render it as Markdown. lib/page-content.ts splits it into chunks.
+const MIN_CONTENT_LENGTH = 250;
+const MIN_PARAGRAPH_LENGTH = 25;
+const LIKELY_CONTENT = /article|body|content|entry|main|page|post|story|text|blog/i;
+const UNLIKELY_CONTENT = /ad-|ads|advert|banner|breadcrumb|comment|cookie|consent|footer|header|menu|modal|nav|newsletter|popup|promo|related|share|sidebar|social|sponsor|subscribe|widget/i;
+const BOILERPLATE_TAGS = new Set(['NAV', 'ASIDE', 'FOOTER', 'FORM', 'BUTTON', 'DIALOG', 'INPUT', 'SELECT', 'TEXTAREA', 'IFRAME', 'CANVAS', 'OBJECT', 'EMBED']);
+const BOILERPLATE_ROLES = new Set(['navigation', 'complementary', 'contentinfo', 'banner', 'search', 'dialog', 'alertdialog', 'menu', 'menubar', 'toolbar']);
+const MARKDOWN_BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'BLOCKQUOTE', 'DD', 'DETAILS', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'OL', 'P', 'PRE', 'SECTION',
+  'SUMMARY', 'TABLE', 'UL',
+]);
+
+function classAndId(element: Element): string {
+  return `${element.getAttribute('class') || ''} ${element.id || ''}`;
+}
+
+function isBoilerplate(element: Element): boolean {
+  if (SKIPPED_TAGS.has(element.tagName.toUpperCase()) || BOILERPLATE_TAGS.has(element.tagName)) return true;
+  if (BOILERPLATE_ROLES.has(element.getAttribute('role') || '')) return true;
+  if (element.tagName === 'ARTICLE' || element.tagName === 'MAIN' || element.tagName === 'BODY') return false;
+  const hint = classAndId(element);
+  return UNLIKELY_CONTENT.test(hint) && !LIKELY_CONTENT.test(hint);
+}
+
+function textLength(element: Element): number {
+  return (element.textContent || '').replace(/\s+/g, ' ').trim().length;
+}
+
+function linkDensity(element: Element): number {
+  const total = textLength(element);
+  if (total === 0) return 0;
+  const linked = Array.from(element.querySelectorAll('a')).reduce((sum, a) => sum + textLength(a), 0);
+  return linked / total;
+}
+
+function initialContentScore(element: Element): number {
+  let score = 0;
+  switch (element.tagName) {
+    case 'ARTICLE': case 'MAIN': score += 10; break;
+    case 'DIV': case 'SECTION': score += 5; break;
+    case 'PRE': case 'TD': case 'BLOCKQUOTE': score += 3; break;
+    case 'FORM': case 'UL': case 'OL': case 'DL': case 'DD': case 'DT': case 'LI': case 'ADDRESS': score -= 3; break;
+    case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': case 'TH': score -= 5; break;
+  }
+  const hint = classAndId(element);
+  if (LIKELY_CONTENT.test(hint)) score += 25;
+  if (UNLIKELY_CONTENT.test(hint)) score -= 25;
+  return score;
+}
+
+// Semantic containers first; several <article>s (a feed) don't count as one article
+function findSemanticContent(): Element | null {
+  for (const selector of ['[itemprop="articleBody"]', 'article', '[role="main"]', 'main']) {
+    const matches = Array.from(document.querySelectorAll(selector))
+      .filter(element => !isHiddenElement(element) && textLength(element) >= MIN_CONTENT_LENGTH);
+    if (matches.length === 1 || (matches.length > 0 && selector !== 'article')) return matches[0];
+  }
+  return null;
+}
+
+// Paragraph-like blocks score by length and commas; the score flows to their ancestors
+function findScoredContent(): Element[] {
+  const scores = new Map<Element, number>();
+  const paragraphs = Array.from(document.body.querySelectorAll('p, pre, td, blockquote, div'))
+    .filter(element => element.tagName !== 'DIV' || !element.querySelector('p, div, table, ul, ol, pre, blockquote, section, article'));
+
+  for (const paragraph of paragraphs) {
+    const text = (paragraph.textContent || '').replace(/\s+/g, ' ').trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH || paragraph.closest('nav, aside, footer')) continue;
+    // One point, plus one per comma, plus one per 100 characters (up to three)
+    const score = text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    let ancestor = paragraph.parentElement;
+    for (let level = 1; ancestor && ancestor !== document.documentElement && level <= 3; level++) {
+      if (!scores.has(ancestor)) scores.set(ancestor, initialContentScore(ancestor));
+      // Parent gets the full score, grandparent half, the next ancestor a ninth
+      scores.set(ancestor, scores.get(ancestor)! + score / (level === 3 ? 9 : level));
+      ancestor = ancestor.parentElement;
+    }
+  }
+
+  let top: Element | null = null;
+  let topScore = 0;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity(element));
+    scores.set(element, adjusted);
+    if (adjusted > topScore && !isHiddenElement(element)) {
+      top = element;
+      topScore = adjusted;
+    }
+  }
+  if (!top || textLength(top) < MIN_CONTENT_LENGTH) return [];
+
+  // Siblings that scored well or hold real paragraphs belong to the same article
+  const threshold = Math.max(10, topScore * 0.2);
+  const siblings = Array.from(top.parentElement?.children || [top]);
+  return siblings.filter(sibling => {
+    if (sibling === top) return true;
+    if (isBoilerplate(sibling)) return false;
+    if ((scores.get(sibling) || 0) >= threshold) return true;
+    return sibling.tagName === 'P' && textLength(sibling) > 80 && linkDensity(sibling) < 0.25;
+  });
+}
+
+function wrapInline(text: string, marker: string): string {
+  const inner = text.trim();
+  if (!inner) return text;
+  const leading = text.match(/^\s*/)![0] ? ' ' : '';
+  const trailing = text.match(/\s*$/)![0] ? ' ' : '';
+  return `${leading}${marker}${inner}${marker}${trailing}`;
+}
+
+function renderInlineChildren(element: Element): string {
+  return Array.from(element.childNodes).map(renderInline).join('');
+}
+
+function renderInline(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return (node.textContent || '').replace(/\s+/g, ' ');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const element = node as Element;
+  if (isBoilerplate(element) || isHiddenElement(element)) return '';
+
+  switch (element.tagName) {
+    case 'BR':
+      return '\n';
+    case 'A': {
+      const raw = renderInlineChildren(element);
+      const text = raw.replace(/\s+/g, ' ').trim();
+      const href = (element as HTMLAnchorElement).href;
+      if (!text) return '';
+      // In-page anchors and script links carry no information for the reader
+      const linked = /^https?:/.test(href) && !href.startsWith(`${window.location.href.split('#')[0]}#`) ? `[${text}](${href})` : text;
+      return `${/^\s/.test(raw) ? ' ' : ''}${linked}${/\s$/.test(raw) ? ' ' : ''}`;
+    }
+    case 'STRONG': case 'B':
+      return wrapInline(renderInlineChildren(element), '**');
+    case 'EM': case 'I':
+      return wrapInline(renderInlineChildren(element), '_');
+    case 'DEL': case 'S':
+      return wrapInline(renderInlineChildren(element), '~~');
+    case 'CODE': case 'KBD': case 'SAMP': {
+      const code = (element.textContent || '').replace(/\s+/g, ' ').trim();
+      return code ? (code.includes('`') ? ` \`\` ${code} \`\` ` : `\`${code}\``) : '';
+    }
+    case 'IMG': {
+      const alt = collapseText(element.getAttribute('alt'), 200);
+      const src = (element as HTMLImageElement).src;
+      return alt && /^https?:/.test(src) ? `![${alt}](${src})` : '';
+    }
+    default:
+      return MARKDOWN_BLOCK_TAGS.has(element.tagName) ? ` ${renderInlineChildren(element)} ` : renderInlineChildren(element);
+  }
+}
+
+// Inline Markdown tidied: spaces collapsed per line, line breaks kept
+function inlineText(element: Element): string {
+  return renderInlineChildren(element)
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('  \n');
+}
+
+function renderChildBlocks(parent: Element, out: string[]): void {
+  let inline = '';
+  const flush = () => {
+    const text = inline.split('\n').map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean).join('  \n');
+    if (text) out.push(text);
+    inline = '';
+  };
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === Node.ELEMENT_NODE && MARKDOWN_BLOCK_TAGS.has((child as Element).tagName)) {
+      flush();
+      renderBlock(child as Element, out);
+    } else {
+      inline += renderInline(child);
+    }
+  }
+  flush();
+}
+
+function renderList(list: Element, out: string[]): void {
+  const ordered = list.tagName === 'OL';
+  let number = Number(list.getAttribute('start')) || 1;
+  const items: string[] = [];
+  for (const item of Array.from(list.children)) {
+    if (item.tagName !== 'LI' || isHiddenElement(item)) continue;
+    const blocks: string[] = [];
+    renderChildBlocks(item, blocks);
+    if (blocks.length === 0) continue;
+    const marker = ordered ? `${number++}.` : '-';
+    const indent = ' '.repeat(marker.length + 1);
+    const lines = blocks.join('\n').split('\n');
+    items.push([`${marker} ${lines[0]}`, ...lines.slice(1).map(line => `${indent}${line}`)].join('\n'));
+  }
+  if (items.length > 0) out.push(items.join('\n'));
+}
+
+function renderTable(table: HTMLTableElement, out: string[]): void {
+  // Layout tables hold other tables; render their content as ordinary blocks
+  if (table.querySelector('table')) {
+    renderChildBlocks(table, out);
+    return;
+  }
+  const rows = Array.from(table.rows).filter(row => !isHiddenElement(row));
+  if (rows.length === 0) return;
+  const grid = expandTableGrid(rows.map(row => Array.from(row.cells)), cell => ({
+    colspan: clampSpan((cell as HTMLTableCellElement).colSpan, 100),
+    rowspan: clampSpan((cell as HTMLTableCellElement).rowSpan, rows.length),
+  }));
+  const width = Math.max(...grid.map(row => row.length));
+  const cell = (element: Element | undefined) => (element ? inlineText(element).replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|') : '');
+
+  let headerCount = 0;
+  while (headerCount < rows.length - 1 && (rows[headerCount].parentElement?.tagName === 'THEAD' ||
+    Array.from(rows[headerCount].cells).every(c => c.tagName === 'TH'))) headerCount++;
+  // Markdown tables need a header row; without one the first row serves
+  const headerRows = grid.slice(0, Math.max(headerCount, 1));
+  const headers = Array.from({ length: width }, (_, column) =>
+    Array.from(new Set(headerRows.map(row => cell(row[column])).filter(Boolean))).join(' / ')
+  );
+
+  const lines = [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...grid.slice(headerRows.length).map(row => `| ${Array.from({ length: width }, (_, column) => cell(row[column])).join(' | ')} |`),
+  ];
+  out.push(lines.join('\n'));
+  const caption = table.caption ? inlineText(table.caption) : '';
+  if (caption) out.push(`_${caption}_`);
+}
+
+function renderBlock(element: Element, out: string[]): void {
+  if (isBoilerplate(element) || isHiddenElement(element)) return;
+
+  switch (element.tagName) {
+    case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': {
+      const text = inlineText(element).replace(/\s*\n\s*/g, ' ');
+      if (text) out.push(`${'#'.repeat(Number(element.tagName[1]))} ${text}`);
+      return;
+    }
+    case 'P': case 'DD': case 'SUMMARY': case 'FIGCAPTION': {
+      const text = inlineText(element);
+      if (text) out.push(text);
+      return;
+    }
+    case 'DT': {
+      const text = inlineText(element);
+      if (text) out.push(`**${text}**`);
+      return;
+    }
+    case 'UL': case 'OL':
+      renderList(element, out);
+      return;
+    case 'PRE': {
+      const code = (element.textContent || '').replace(/\n+$/, '');
+      if (!code.trim()) return;
+      const language = `${element.getAttribute('class') || ''} ${element.querySelector('code')?.getAttribute('class') || ''}`
+        .match(/(?:language|lang)-([\w+#-]+)/)?.[1] || '';
+      const fence = code.includes('```') ? '~~~' : '```';
+      out.push(`${fence}${language}\n${code}\n${fence}`);
+      return;
+    }
+    case 'BLOCKQUOTE': {
+      const blocks: string[] = [];
+      renderChildBlocks(element, blocks);
+      if (blocks.length > 0) out.push(blocks.join('\n\n').split('\n').map(line => (line ? `> ${line}` : '>')).join('\n'));
+      return;
+    }
+    case 'TABLE':
+      renderTable(element as HTMLTableElement, out);
+      return;
+    case 'HR':
+      out.push('---');
+      return;
+    default:
+      renderChildBlocks(element, out);
+  }
+}
+
+function extractMainContent(): MainContent {
+  const semantic = findSemanticContent();
+  const scored = semantic ? [] : findScoredContent();
+  const roots = semantic ? [semantic] : scored.length > 0 ? scored : [document.body];
+  const source: MainContent['source'] = semantic ? 'semantic' : scored.length > 0 ? 'scored' : 'body';
+
+  const blocks: string[] = [];
+  for (const root of roots) {
+    renderBlock(root, blocks);
+  }
+  // Adjacent duplicates come from wrappers repeating their child's text (e.g. figure + caption)
+  const markdown = blocks.filter((block, index) => block !== blocks[index - 1]).join('\n\n');
+
+  const getMetaContent = (name: string): string | undefined =>
+    document.querySelector(`meta[name="${name}"], meta[property="${name}"]`)?.getAttribute('content') || undefined;
+  const bylineElement = roots[0].querySelector('[rel="author"], [itemprop="author"], .byline, .author');
+
+  const content: MainContent = {
+    url: window.location.href,
+    title: getMetaContent('og:title') || document.title,
+    markdown,
+    source,
+    timestamp: Date.now(),
+  };
+  const byline = getMetaContent('author') || collapseText(bylineElement?.textContent, 120);
+  if (byline) content.byline = byline;
+  const siteName = getMetaContent('og:site_name');
+  if (siteName) content.siteName = siteName;
+  const excerpt = getMetaContent('description') || getMetaContent('og:description');
+  if (excerpt) content.excerpt = excerpt;
+  return content;
+}
+
+// ============================================
+// List harvesting
+// ============================================
+
+// Steps for lib/list-harvester.ts: read the items of a list container, and move the
+// list forward by clicking "Load more" or "Next", or by scrolling to its end
+const MAX_HARVEST_ITEM_TEXT = 500;
+const HARVEST_SETTLE_MS = 300;
+const DEFAULT_HARVEST_WAIT_MS = 3000;
+const LOAD_MORE_TEXT = /^((load|show|see|view) (more|all)|more (results|items|posts|stories))\b/i;
+const NEXT_PAGE_TEXT = /^(next|next page|›|»|→|>|next\s*[›»→>])$/i;
+
+function resolveHarvestContainer(request: { ref?: string; selector?: string }): Element | null {
+  const ref = parseRef(request.ref);
+  return (ref ? resolveRef(ref) : null) || (request.selector ? querySelectorDeep(request.selector) : null);
+}
+
+function getHarvestItems(container: Element): Element[] {
+  if (container.tagName === 'TABLE') {
+    return Array.from((container as HTMLTableElement).tBodies).flatMap(body => Array.from(body.rows)).filter(row => !isHiddenElement(row));
+  }
+  return getRepeatedItems(container) || Array.from(container.children).filter(child =>
+    !SKIPPED_TAGS.has(child.tagName.toUpperCase()) && !isHiddenElement(child)
+  );
+}
+
+function collectHarvestItems(request: { ref?: string; selector?: string }) {
+  const container = resolveHarvestContainer(request);
+  if (!container) {
+    return { success: false, error: `List container not found: ${request.ref || request.selector}` };
+  }
+  const items = getHarvestItems(container)
+    .map(item => {
+      const text = collapseText((item as HTMLElement).innerText ?? item.textContent, MAX_HARVEST_ITEM_TEXT);
+      const links = rowLinks(item);
+      return { ref: getRefForElement(item), text, ...(links ? { links } : {}) };
+    })
+    // Skeletons and spinners have no text yet
+    .filter(item => item.text);
+  return { success: true, items, selector: getStableSelector(container) };
+}
+
+function isDisabledControl(element: Element): boolean {
+  return (element as HTMLButtonElement).disabled || element.getAttribute('aria-disabled') === 'true';
+}
+
+// "Load more" wins over "Next"; controls inside or after the list win over ones before it
+function findLoadMoreControl(container: Element): { element: Element; kind: 'load-more' | 'next-page' } | null {
+  const matches: Array<{ element: Element; kind: 'load-more' | 'next-page'; after: boolean }> = [];
+  for (const element of querySelectorAllDeep('button, a[href], [role="button"], input[type="button"], input[type="submit"]')) {
+    if (isHiddenElement(element) || isDisabledControl(element)) continue;
+    const text = collapseText((element as HTMLElement).innerText || (element as HTMLInputElement).value || element.getAttribute('aria-label'));
+    const kind = LOAD_MORE_TEXT.test(text) ? 'load-more'
+      : NEXT_PAGE_TEXT.test(text) || element.getAttribute('rel') === 'next' ? 'next-page'
+      : null;
+    if (!kind) continue;
+    const after = container.contains(element) || !!(container.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING);
+    matches.push({ element, kind, after });
+  }
+  matches.sort((a, b) => Number(b.kind === 'load-more') - Number(a.kind === 'load-more') || Number(b.after) - Number(a.after));
+  return matches[0] || null;
+}
+
+// A link to another document is followed by the background; everything else is clicked here
+function getNavigationUrl(element: Element): string | undefined {
+  if (element.tagName !== 'A') return undefined;
+  const href = (element as HTMLAnchorElement).href;
+  if (!/^https?:/.test(href)) return undefined;
+  const target = new URL(href);
+  const current = new URL(window.location.href);
+  return target.origin + target.pathname + target.search !== current.origin + current.pathname + current.search ? href : undefined;
+}
+
+function scrollListToEnd(container: Element, items: Element[]): void {
+  items[items.length - 1]?.scrollIntoView({ block: 'end' });
+  for (let element: Element | null = container; element && element !== document.body; element = element.parentElement) {
+    if (element.scrollHeight > element.clientHeight + 1 && /(auto|scroll)/.test(getComputedStyle(element).overflowY)) {
+      element.scrollTop = element.scrollHeight;
+      return;
+    }
+  }
+  window.scrollTo(0, document.documentElement.scrollHeight);
+}
+
+// Resolves true once the container has changed and gone quiet, false if nothing changed in time
+function waitForListChange(container: Element, timeoutMs: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const start = Date.now();
+    let lastChange = 0;
+    const observer = new MutationObserver(records => {
+      if (records.some(record => !isFeedbackMutation(record) && (container.contains(record.target) || !container.isConnected))) {
+        lastChange = Date.now();
+      }
+    });
+    observer.observe(document.body, { subtree: true, childList: true, characterData: true });
+    const check = () => {
+      const now = Date.now();
+      const settled = lastChange > 0 && now - lastChange >= HARVEST_SETTLE_MS;
+      if (settled || now - start >= timeoutMs) {
+        observer.disconnect();
+        resolve(lastChange > 0);
+        return;
+      }
+      setTimeout(check, 50);
+    };
+    check();
+  });
+}
+
+async function advanceHarvestList(request: {
+  ref?: string;
+  selector?: string;
+  mode?: 'auto' | 'scroll' | 'click';
+  loadMoreRef?: string;
+  waitMs?: number;
+}) {
+  const container = resolveHarvestContainer(request);
+  if (!container) {
+    return { action: 'none', changed: false, error: `List container not found: ${request.ref || request.selector}` };
+  }
+  const mode = request.mode || 'auto';
+  const waitMs = request.waitMs ?? DEFAULT_HARVEST_WAIT_MS;
+
+  if (mode !== 'scroll') {
+    const loadMoreRef = parseRef(request.loadMoreRef);
+    const given = loadMoreRef ? resolveRef(loadMoreRef) : null;
+    const control = given ? { element: given, kind: 'load-more' as const } : findLoadMoreControl(container);
+    if (control && !isDisabledControl(control.element)) {
+      const url = getNavigationUrl(control.element);
+      if (url) {
+        return { action: 'next-page', changed: false, url };
+      }
+      const changed = waitForListChange(container, waitMs);
+      (control.element as HTMLElement).click();
+      return { action: control.kind, changed: await changed };
+    }
+    if (mode === 'click') {
+      return { action: 'none', changed: false };
+    }
+  }
+
+  const changed = waitForListChange(container, waitMs);
+  scrollListToEnd(container, getHarvestItems(container));
+  return { action: 'scroll', changed: await changed };
+}
+
+// ============================================
+// Sensitive text regions (screenshot redaction)
+// ============================================
+
+// Viewport boxes of text and field values matching lib/redaction.ts patterns, which
+// the background paints over before a screenshot leaves the browser. Over-matching
+// only hides a little more of the image, so no validation beyond the patterns.
+function findSensitiveRects(patterns: Array<{ source: string; flags: string }>): any {
+  const regexes = patterns.map(pattern => new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`));
+  const rects: Array<{ x: number; y: number; width: number; height: number }> = [];
+  const inViewport = (rect: DOMRect) =>
+    rect.width > 0 && rect.height > 0 && rect.bottom > 0 && rect.right > 0 && rect.top < window.innerHeight && rect.left < window.innerWidth;
+  const addRect = (rect: DOMRect) => {
+    if (inViewport(rect)) rects.push({ x: rect.left - 2, y: rect.top - 2, width: rect.width + 4, height: rect.height + 4 });
+  };
+
+  if (regexes.length > 0) {
+    const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT, {
+      acceptNode: node => {
+        const parent = node.parentElement;
+        if (!parent || SKIPPED_TAGS.has(parent.tagName) || !node.textContent?.trim()) return NodeFilter.FILTER_REJECT;
+        return NodeFilter.FILTER_ACCEPT;
+      },
+    });
+    for (let node = walker.nextNode(); node && rects.length < 500; node = walker.nextNode()) {
+      const text = node.textContent || '';
+      for (const regex of regexes) {
+        regex.lastIndex = 0;
+        for (let match = regex.exec(text); match; match = regex.exec(text)) {
+          if (!match[0]) {
+            regex.lastIndex++;
+            continue;
+          }
+          const range = document.createRange();
+          range.setStart(node, match.index);
+          range.setEnd(node, match.index + match[0].length);
+          Array.from(range.getClientRects()).forEach(addRect);
+        }
+      }
+    }
+  }
+
+  // Field values aren't text nodes; passwords are always hidden
+  for (const field of querySelectorAllDeep('input, textarea')) {
+    const input = field as HTMLInputElement;
+    const value = input.value || '';
+    const sensitive = input.type === 'password'
+      ? value.length > 0
+      : regexes.some(regex => {
+        regex.lastIndex = 0;
+        return regex.test(value);
+      });
+    if (sensitive) addRect(input.getBoundingClientRect());
+  }
+
+  return { rects, viewport: { width: window.innerWidth, height: window.innerHeight } };
+}
+
+// ============================================
+// Demonstration recorder
+// ============================================
+
+// While recording, the user's own clicks, typing, selects, keys and scrolls are
+// described and streamed to the background. Navigations are reported by the
+// background from tab updates, since this script is reloaded with the page.
+let demonstrationActive = false;
+let demonstrationCounter = 0;
+let pendingTyping: { element: Element; timer: ReturnType<typeof setTimeout> } | null = null;
+let scrollTimer: ReturnType<typeof setTimeout> | null = null;
+let lastScrollY = window.scrollY;
+
+const TYPING_DEBOUNCE_MS = 800;
+const SCROLL_DEBOUNCE_MS = 600;
+const CLICKABLE_ROLES = new Set(['button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'option', 'combobox', 'generic']);
+
+function cssEscape(value: string): string {
+  return typeof CSS !== 'undefined' && CSS.escape ? CSS.escape(value) : value.replace(/["\\]/g, '\\$&');
+}
+
+// Prefer attributes that survive re-renders; fall back to an nth-of-type path
+function getStableSelector(element: Element): string {
+  const tag = element.tagName.toLowerCase();
+  if (element.id && !/\d{3,}|^[a-f0-9-]{16,}$/i.test(element.id)) return `#${cssEscape(element.id)}`;
+  for (const attr of ['data-testid', 'data-test', 'data-qa', 'name', 'aria-label']) {
+    const value = element.getAttribute(attr);
+    if (value) return `${tag}[${attr}="${cssEscape(value)}"]`;
+  }
+
+  const parts: string[] = [];
+  let current: Element | null = element;
+  while (current && current.tagName !== 'BODY' && parts.length < 5) {
+    const currentTag: string = current.tagName;
+    const siblings: Element[] = current.parentElement
+      ? Array.from(current.parentElement.children).filter((child: Element) => child.tagName === currentTag)
+      : [];
+    const part = currentTag.toLowerCase();
+    parts.unshift(siblings.length > 1 ? `${part}:nth-of-type(${siblings.indexOf(current) + 1})` : part);
+    if (current.id) {
+      parts[0] = `#${cssEscape(current.id)}`;
+      break;
+    }
+    current = current.parentElement;
+  }
+  return parts.join(' > ');
+}
+
+// Nearest fieldset legend, dialog label or section heading, for "which form was this"
+function getSurroundingText(element: Element): string | undefined {
+  let current: Element | null = element.parentElement;
+  for (let depth = 0; current && depth < 6; depth++, current = current.parentElement) {
+    const legend = current.tagName === 'FIELDSET' ? current.querySelector('legend') : null;
+    if (legend?.textContent?.trim()) return collapseText(legend.textContent);
+    const label = current.getAttribute('aria-label');
+    if (label?.trim() && (current.getAttribute('role') === 'dialog' || current.tagName === 'FORM')) return collapseText(label);
+    const heading = current.querySelector('h1, h2, h3, h4, [role="heading"]');
+    if (heading && heading !== element && heading.textContent?.trim()) return collapseText(heading.textContent);
+  }
+  return undefined;
+}
+
+function describeElement(element: Element): ElementDescriptor {
+  const role = getRole(element) || undefined;
+  const attributes: Record<string, string> = {};
+  for (const attr of ['name', 'type', 'placeholder', 'href']) {
+    const value = element.getAttribute(attr);
+    if (value) attributes[attr] = collapseText(value, 200);
+  }
+  const text = collapseText((element as HTMLElement).innerText ?? element.textContent, 120);
+  return {
+    tag: element.tagName.toLowerCase(),
+    role,
+    name: role ? getAccessibleName(element, role) || undefined : undefined,
+    selector: getStableSelector(element),
+    id: element.id || undefined,
+    testId: element.getAttribute('data-testid') || undefined,
+    attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+    text: text || undefined,
+    context: getSurroundingText(element),
+  };
+}
+
+// The event target inside open shadow roots, walked up to the element the user meant
+function getDemonstrationTarget(event: Event): Element | null {
+  const path = event.composedPath().filter((node): node is Element => node instanceof Element);
+  if (path.length === 0) return null;
+  if (event.type !== 'click') return path[0];
+  return path.find(el => {
+    const role = getRole(el);
+    return role !== null && CLICKABLE_ROLES.has(role);
+  }) || path[0];
+}
+
+function isSensitiveField(element: Element): boolean {
+  const input = element as HTMLInputElement;
+  return element.tagName === 'INPUT' && (input.type === 'password' || /cc-|card|cvc|cvv/i.test(input.autocomplete || input.name || ''));
+}
+
+function emitDemonstrationEvent(event: Omit<DemonstrationEvent, 'id' | 'timestamp' | 'url' | 'title'>) {
+  const full: DemonstrationEvent = {
+    id: `demo_${Date.now()}_${++demonstrationCounter}`,
+    timestamp: Date.now(),
+    url: window.location.href,
+    title: document.title,
+    ...event,
+  };
+  chrome.runtime.sendMessage({ type: 'DEMONSTRATION_EVENT', event: full }).catch(error => {
+    console.debug('Could not send DEMONSTRATION_EVENT:', error);
+  });
+}
+
+function flushPendingTyping() {
+  if (!pendingTyping) return;
+  const { element, timer } = pendingTyping;
+  clearTimeout(timer);
+  pendingTyping = null;
+  const sensitive = isSensitiveField(element);
+  const value = getEditableText(element);
+  emitDemonstrationEvent({
+    type: 'type',
+    element: describeElement(element),
+    value: sensitive ? (value ? '••••' : '') : value,
+    sensitive: sensitive || undefined,
+  });
+}
+
+function onDemonstrationClick(event: MouseEvent) {
+  if (!event.isTrusted) return;
+  const target = getDemonstrationTarget(event);
+  if (!target) return;
+  // Clicking into the field being typed in is part of the same edit
+  if (pendingTyping && pendingTyping.element !== target) flushPendingTyping();
+  if (target.tagName === 'SELECT' || target.tagName === 'OPTION') return;
+  if (target.tagName === 'INPUT' && !['button', 'submit', 'reset', 'checkbox', 'radio', 'image'].includes((target as HTMLInputElement).type)) return;
+  emitDemonstrationEvent({ type: 'click', element: describeElement(target) });
+}
+
+function onDemonstrationInput(event: Event) {
+  if (!event.isTrusted) return;
+  const target = getDemonstrationTarget(event);
+  if (!target || target.tagName === 'SELECT') return;
+  const editable = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || (target as HTMLElement).isContentEditable;
+  if (!editable || ['checkbox', 'radio'].includes((target as HTMLInputElement).type)) return;
+  if (pendingTyping && pendingTyping.element !== target) flushPendingTyping();
+  if (pendingTyping) clearTimeout(pendingTyping.timer);
+  pendingTyping = { element: target, timer: setTimeout(flushPendingTyping, TYPING_DEBOUNCE_MS) };
+}
+
+function onDemonstrationChange(event: Event) {
+  if (!event.isTrusted) return;
+  const target = getDemonstrationTarget(event);
+  if (!target) return;
+  if (target.tagName === 'SELECT') {
+    const select = target as HTMLSelectElement;
+    emitDemonstrationEvent({
+      type: 'select',
+      element: describeElement(select),
+      value: Array.from(select.selectedOptions).map(o => o.text.trim()).join(', '),
+    });
+    return;
+  }
+  if (pendingTyping?.element === target) flushPendingTyping();
+}
+
+function onDemonstrationKeydown(event: KeyboardEvent) {
+  if (!event.isTrusted || !['Enter', 'Escape', 'Tab'].includes(event.key)) return;
+  flushPendingTyping();
+  const target = getDemonstrationTarget(event);
+  emitDemonstrationEvent({ type: 'keypress', element: target ? describeElement(target) : undefined, value: event.key });
+}
+
+function onDemonstrationScroll() {
+  if (scrollTimer) clearTimeout(scrollTimer);
+  scrollTimer = setTimeout(() => {
+    scrollTimer = null;
+    const y = Math.round(window.scrollY);
+    if (Math.abs(y - lastScrollY) < 100) return;
+    const direction = y > lastScrollY ? 'down' : 'up';
+    lastScrollY = y;
+    emitDemonstrationEvent({ type: 'scroll', scroll: { x: Math.round(window.scrollX), y, direction } });
+  }, SCROLL_DEBOUNCE_MS);
+}
+
+const DEMONSTRATION_LISTENERS: Array<[string, (event: any) => void]> = [
+  ['click', onDemonstrationClick],
+  ['input', onDemonstrationInput],
+  ['change', onDemonstrationChange],
+  ['keydown', onDemonstrationKeydown],
+  ['focusout', flushPendingTyping],
+];
+
+function setDemonstrationRecording(active: boolean) {
+  if (active === demonstrationActive || window !== window.top) return;
+  demonstrationActive = active;
+  if (active) {
+    lastScrollY = window.scrollY;
+    DEMONSTRATION_LISTENERS.forEach(([type, listener]) => document.addEventListener(type, listener, true));
+    window.addEventListener('scroll', onDemonstrationScroll, { passive: true });
+    // Typing is flushed before the page unloads so a submit-by-navigation keeps it
+    window.addEventListener('pagehide', flushPendingTyping);
+  } else {
+    flushPendingTyping();
+    DEMONSTRATION_LISTENERS.forEach(([type, listener]) => document.removeEventListener(type, listener, true));
+    window.removeEventListener('scroll', onDemonstrationScroll);
+    window.removeEventListener('pagehide', flushPendingTyping);
+    if (scrollTimer) clearTimeout(scrollTimer);
+    scrollTimer = null;
+  }
+  console.log(active ? '🔴 Demonstration recording started' : '⏹️ Demonstration recording stopped');
+}
+
+// Listen for messages from background script or sidebar
+chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
+  if (request.type === 'PING') {
+    // Respond to ping to confirm content script is loaded
+    sendResponse({ success: true });
+    return true;
+  }
+
+  if (request.type === 'GET_PAGE_CONTEXT') {
+    const context = extractPageContext(request.maxTextLength);
+    sendResponse(context);
+    return true;
+  }
+
+  if (request.type === 'GET_AX_SNAPSHOT') {
+    const snapshot = buildAxSnapshot({ maxNodes: request.maxNodes, refPrefix: request.refPrefix });
+    sendResponse(snapshot);
+    return true;
+  }
+
+  if (request.type === 'WAIT_FOR_DOM_QUIET') {
+    waitForDomQuiet(request.quietMs ?? 500, request.timeoutMs ?? 5000)
+      .then(quiet => sendResponse({ success: true, quiet }));
+    return true;
+  }
+
+  if (request.type === 'LOCATE_ELEMENT') {
+    sendResponse(locateActionTarget(request));
+    return true;
+  }
+
+  if (request.type === 'SELECT_FIELD_CONTENTS') {
+    sendResponse(selectFocusedFieldContents());
+    return true;
+  }
+
+  if (request.type === 'DESCRIBE_ACTION_TARGET') {
+    sendResponse(describeActionTarget(request));
+    return true;
+  }
+
+  if (request.type === 'EXECUTE_ACTION') {
+    // Handle asynchronously to properly support Promise-returning actions
     (async () => {
+      const checkEffect = request.detectEffect && EFFECT_CHECKED_ACTIONS.has(request.action);
+      // A submit that only starts a fetch looks like a no-op; replaying it would submit twice
+      const submits = checkEffect && request.action !== 'fill' && describeActionTarget(request).submits;
+      const effectWatch = checkEffect && !submits
+        ? startEffectWatch(request.action === 'fill' ? resolveActionElement(request) : null)
+        : null;
       try {
+        // Vault tokens become the stored login here, for this frame's origin only;
+        // the response names the tokens, never the values
+        let value = request.value;
+        let vault: any[] | undefined;
+        if (request.action === 'fill' && typeof value === 'string' && /\{\{vault:[\w-]+\.[\w-]+\}\}/.test(value)) {
+          const resolved = await chrome.runtime.sendMessage({ type: 'VAULT_RESOLVE', text: value, workflowRunId: request.workflowRunId });
+          vault = resolved?.resolutions ?? [];
+          if (typeof resolved?.value !== 'string') {
+            effectWatch?.stop();
+            sendResponse({ success: false, error: resolved?.error || 'Could not resolve vault tokens', vault });
+            return;
+          }
+          value = resolved.value;
+        }
+
         const result = executePageAction(
           request.action,
           request.target,
-          request.value,
+          value,
           request.selector,
           request.coordinates,
           request.direction,
           request.amount,
           request.key,
           request.keys,
-          request.destination
+          request.destination,
+          request.ref,
+          request.destinationRef,
+          {
+            values: request.values,
+            checked: request.checked,
+            label: request.label,
+            files: request.files,
+            shownValue: vault ? request.value : undefined,
+          }
         );
 
         // Properly await Promise results
-        if (result instanceof Promise) {
-          const response = await result;
-          sendResponse(response);
+        const response = result instanceof Promise ? await result : result;
+
+        // Report whether anything happened so the background can fall back to trusted input
+        if (effectWatch && response?.success) {
+          response.domChanged = await effectWatch.finish(request.action, value);
         } else {
-          sendResponse(result);
+          effectWatch?.stop();
+        }
+        if (submits && response) {
+          response.submits = true;
         }
+        sendResponse(vault ? { ...response, vault } : response);
       } catch (error) {
+        effectWatch?.stop();
         console.error('❌ Error executing action:', error);
         sendResponse({ 
           success: false, 
@@ -716,6 +3012,48 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
     return true; // Keep message channel open for async response
   }
 
+  if (request.type === 'GET_MAIN_CONTENT') {
+    sendResponse(extractMainContent());
+    return true;
+  }
+
+  if (request.type === 'FIND_SENSITIVE_RECTS') {
+    sendResponse(findSensitiveRects(request.patterns || []));
+    return true;
+  }
+
+  if (request.type === 'HARVEST_COLLECT') {
+    sendResponse(collectHarvestItems(request));
+    return true;
+  }
+
+  if (request.type === 'HARVEST_ADVANCE') {
+    advanceHarvestList(request).then(sendResponse);
+    return true; // Keep message channel open for async response
+  }
+
+  if (request.type === 'EXTRACT_TABLES') {
+    sendResponse(extractTables({
+      selector: request.selector,
+      ref: request.ref,
+      maxTables: request.maxTables,
+      maxRows: request.maxRows,
+      includeLists: request.includeLists,
+    }));
+    return true;
+  }
+
+  if (request.type === 'CAPTURE_REGION') {
+    sendResponse(captureRegion(request.selector));
+    return true;
+  }
+
+  if (request.type === 'DEMONSTRATION_RECORD') {
+    setDemonstrationRecording(!!request.active);
+    sendResponse({ success: true, recording: demonstrationActive });
+    return true;
+  }
+
   if (request.type === 'GET_SELECTED_TEXT') {
     const selectedText = window.getSelection()?.toString() || '';
     sendResponse({ text: selectedText });
@@ -744,11 +3082,22 @@ function sendPageLoadMessage() {
 }
 
 // Wait for DOM to be ready before sending page load message
-// This prevents race conditions where page data isn't available yet
-if (document.readyState === 'loading') {
-  // DOM is still loading, wait for it
-  document.addEventListener('DOMContentLoaded', sendPageLoadMessage, { once: true });
-} else {
-  // DOM is already interactive or complete
-  sendPageLoadMessage();
+// This prevents race conditions where page data isn't available yet.
+// Only the top frame reports page loads; subframes (injected via allFrames)
+// just answer frame-targeted messages.
+if (window === window.top) {
+  if (document.readyState === 'loading') {
+    // DOM is still loading, wait for it
+    document.addEventListener('DOMContentLoaded', sendPageLoadMessage, { once: true });
+  } else {
+    // DOM is already interactive or complete
+    sendPageLoadMessage();
+  }
+
+  // A recording outlives the page it started on; pick it up again after a navigation
+  chrome.runtime.sendMessage({ type: 'DEMONSTRATION_STATUS' })
+    .then(response => {
+      if (response?.recording) setDemonstrationRecording(true);
+    })
+    .catch(() => {});
 }
@@ -37,16 +37,26 @@ export const hasTaskCompletion: StopCondition<any> = ({ steps }) => {
   return isComplete;
 };
 
+// Tool results carry their value in `output` (AI SDK 6) or `result` (older)
+const isToolError = (toolResult: any): boolean => {
+  const value = toolResult?.output ?? toolResult?.result;
+  return !!(value?.error || value?.isError);
+};
+
+// Failed tool calls among the most recent results
+export function countToolErrors(steps: Array<{ toolResults?: any[] }>, window = 5): { errors: number; total: number } {
+  const recentResults = steps.flatMap(step => step.toolResults || []).slice(-window);
+  return { errors: recentResults.filter(isToolError).length, total: recentResults.length };
+}
+
 // Stop when error threshold is reached
 export const hasExcessiveErrors: StopCondition<any> = ({ steps }) => {
   const toolResults = steps.flatMap(step => step.toolResults || []);
-  const errors = toolResults.filter(result => 
-    result.result?.error || result.result?.isError
-  );
+  const errors = toolResults.filter(isToolError);
   
   // Stop if more than 3 consecutive errors
   const recentResults = toolResults.slice(-5);
-  const recentErrors = recentResults.filter(r => r.result?.error || r.result?.isError);
+  const recentErrors = recentResults.filter(isToolError);
   
   const hasErrors = recentErrors.length >= 3;
   
@@ -56,7 +66,7 @@ export const hasExcessiveErrors: StopCondition<any> = ({ steps }) => {
       total_errors: errors.length,
       recent_errors: recentErrors.length,
       recent_window: recentResults.length,
-      error_types: recentErrors.map(e => e.result?.error?.toString().substring(0, 50)),
+      error_types: recentErrors.map(e => ((e as any).output ?? (e as any).result)?.error?.toString().substring(0, 50)),
     });
   }
   
@@ -72,7 +82,7 @@ export const hasNavigationLoop: StopCondition<any> = ({ steps }) => {
   if (navigateCalls.length < 3) return false;
   
   // Check for repeated URLs
-  const urls = navigateCalls.map(call => call.args?.url).filter(Boolean);
+  const urls = navigateCalls.map(call => ((call as any).input ?? (call as any).args)?.url).filter(Boolean);
   const urlCounts = urls.reduce((acc, url) => {
     acc[url] = (acc[url] || 0) + 1;
     return acc;
@@ -97,6 +107,25 @@ export const hasNavigationLoop: StopCondition<any> = ({ steps }) => {
   return hasLoop;
 };
 
+// Stop when too large a share of the recent tool calls failed (needs 3+ results)
+export const hasExcessiveErrorRatio = (maxRatio: number, window = 5): StopCondition<any> => {
+  return ({ steps }) => {
+    const { errors, total } = countToolErrors(steps, window);
+    const exceeded = total >= 3 && errors / total >= maxRatio;
+
+    if (exceeded) {
+      logEvent('stop_condition_triggered', {
+        condition: 'error_ratio',
+        recent_errors: errors,
+        recent_window: total,
+        max_ratio: maxRatio,
+      });
+    }
+
+    return exceeded;
+  };
+};
+
 // Stop when token budget is exceeded
 export const hasExceededTokenBudget = (maxTokens: number): StopCondition<any> => {
   return ({ steps }) => {
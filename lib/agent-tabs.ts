@@ -0,0 +1,259 @@
+// Agent Tabs - workflow-owned browser tabs keyed by workflow run id
+// Tools for a run act on the run's current tab instead of whatever tab the user
+// has focused, so switching tabs mid-run no longer redirects the agent.
+// State is mirrored to chrome.storage.session to survive service worker restarts.
+
+export interface AgentTabGroup {
+  workflowRunId: string;
+  windowId: number;
+  tabIds: number[]; // Every tab the run owns, in the order they were opened
+  currentTabId: number; // Tab that page tools act on
+  adoptedTabId?: number; // The user's own tab, taken over instead of opening one
+  createdAt: number;
+}
+
+export interface AgentTabInfo {
+  tabId: number;
+  url?: string;
+  title?: string;
+  status?: string;
+  current: boolean;
+}
+
+const STORAGE_KEY = 'agentTabs';
+const DEFAULT_START_URL = 'https://www.google.com';
+
+const agentTabs = new Map<string, AgentTabGroup>();
+const pendingCreates = new Map<string, Promise<AgentTabGroup>>();
+let restorePromise: Promise<void> | null = null;
+
+function restoreAgentTabs(): Promise<void> {
+  if (!restorePromise) {
+    restorePromise = (async () => {
+      try {
+        const result = await chrome.storage.session.get(STORAGE_KEY);
+        const stored = (result?.[STORAGE_KEY] || {}) as Record<string, AgentTabGroup>;
+        for (const [runId, group] of Object.entries(stored)) {
+          if (!agentTabs.has(runId)) agentTabs.set(runId, group);
+        }
+      } catch (error) {
+        console.warn('⚠️ [AgentTabs] Could not restore agent tabs:', error);
+      }
+    })();
+  }
+  return restorePromise;
+}
+
+function persistAgentTabs(): void {
+  chrome.storage.session
+    .set({ [STORAGE_KEY]: Object.fromEntries(agentTabs) })
+    .catch(error => console.warn('⚠️ [AgentTabs] Could not persist agent tabs:', error));
+}
+
+function isWebUrl(url?: string): url is string {
+  return !!url && (url.startsWith('http://') || url.startsWith('https://'));
+}
+
+async function toTabInfo(tabId: number, group: AgentTabGroup): Promise<AgentTabInfo> {
+  const tab = await chrome.tabs.get(tabId);
+  return { tabId, url: tab.url, title: tab.title, status: tab.status, current: tabId === group.currentTabId };
+}
+
+async function getGroup(workflowRunId: string): Promise<AgentTabGroup> {
+  await restoreAgentTabs();
+  const group = agentTabs.get(workflowRunId);
+  if (!group) {
+    throw new Error(`No agent tab for workflow run ${workflowRunId}`);
+  }
+  return group;
+}
+
+/**
+ * Create the tab a workflow run operates in. Starts on the page the user is
+ * looking at (when it's a web page) so "do X on this page" still works; with
+ * adoptActiveTab the run takes over that tab itself, keeping its page state.
+ * Idempotent: concurrent or repeated calls for the same run share one tab, so a
+ * conversation's follow-up turns stay in the tab its first turn used.
+ */
+export async function createAgentTab(
+  workflowRunId: string,
+  options: { url?: string; active?: boolean; adoptActiveTab?: boolean } = {}
+): Promise<AgentTabGroup> {
+  await restoreAgentTabs();
+  const existing = agentTabs.get(workflowRunId);
+  if (existing) return existing;
+
+  const pending = pendingCreates.get(workflowRunId);
+  if (pending) return pending;
+
+  const create = (async () => {
+    const [activeTab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+    const ownedByRun = [...agentTabs.values()].some(group => group.tabIds.includes(activeTab?.id ?? -1));
+    if (options.adoptActiveTab && !options.url && activeTab?.id !== undefined && isWebUrl(activeTab.url) && !ownedByRun) {
+      const group: AgentTabGroup = {
+        workflowRunId,
+        windowId: activeTab.windowId,
+        tabIds: [activeTab.id],
+        currentTabId: activeTab.id,
+        adoptedTabId: activeTab.id,
+        createdAt: Date.now(),
+      };
+      agentTabs.set(workflowRunId, group);
+      persistAgentTabs();
+      console.log(`✅ [AgentTabs] Run ${workflowRunId} adopted tab ${activeTab.id}`);
+      return group;
+    }
+
+    const url = options.url || (isWebUrl(activeTab?.url) ? activeTab.url : DEFAULT_START_URL);
+    // Unattended runs (scheduled tasks) open in the background
+    const tab = await chrome.tabs.create({ url, active: options.active ?? true, windowId: activeTab?.windowId });
+    if (tab.id === undefined) {
+      throw new Error('Failed to create agent tab');
+    }
+
+    const group: AgentTabGroup = {
+      workflowRunId,
+      windowId: tab.windowId,
+      tabIds: [tab.id],
+      currentTabId: tab.id,
+      createdAt: Date.now(),
+    };
+    agentTabs.set(workflowRunId, group);
+    persistAgentTabs();
+    console.log(`✅ [AgentTabs] Created tab ${tab.id} for run ${workflowRunId}`);
+    return group;
+  })();
+
+  pendingCreates.set(workflowRunId, create);
+  try {
+    return await create;
+  } finally {
+    pendingCreates.delete(workflowRunId);
+  }
+}
+
+/**
+ * Tab id that tools for this run should act on. Creates the agent tab on first
+ * use if the run started without one (e.g. a tool call raced WORKFLOW_CHAT_START).
+ */
+export async function resolveAgentTabId(workflowRunId: string): Promise<number | null> {
+  await restoreAgentTabs();
+  const group = agentTabs.get(workflowRunId) || await createAgentTab(workflowRunId);
+  try {
+    await chrome.tabs.get(group.currentTabId);
+    return group.currentTabId;
+  } catch {
+    // The tab was closed without onRemoved reaching us (e.g. worker was asleep)
+    forgetAgentTab(group.currentTabId);
+    return agentTabs.get(workflowRunId)?.currentTabId ?? null;
+  }
+}
+
+export async function openAgentTab(
+  workflowRunId: string,
+  url: string,
+  options: { switchTo?: boolean } = {}
+): Promise<AgentTabInfo> {
+  if (!isWebUrl(url)) {
+    throw new Error('openTab requires an http(s) URL');
+  }
+  const group = await getGroup(workflowRunId);
+  // Opened in the background so the user's focus isn't stolen
+  const tab = await chrome.tabs.create({ url, active: false, windowId: group.windowId });
+  if (tab.id === undefined) {
+    throw new Error('Failed to open tab');
+  }
+
+  group.tabIds.push(tab.id);
+  if (options.switchTo !== false) {
+    group.currentTabId = tab.id;
+  }
+  persistAgentTabs();
+  return { tabId: tab.id, url, title: tab.title, status: tab.status, current: group.currentTabId === tab.id };
+}
+
+export async function switchAgentTab(
+  workflowRunId: string,
+  tabId: number,
+  options: { activate?: boolean } = {}
+): Promise<AgentTabInfo> {
+  const group = await getGroup(workflowRunId);
+  if (!group.tabIds.includes(tabId)) {
+    throw new Error(`Tab ${tabId} does not belong to this run. Use listTabs to see available tabs.`);
+  }
+  group.currentTabId = tabId;
+  persistAgentTabs();
+  if (options.activate) {
+    await chrome.tabs.update(tabId, { active: true });
+  }
+  return toTabInfo(tabId, group);
+}
+
+export async function listAgentTabs(workflowRunId: string): Promise<AgentTabInfo[]> {
+  const group = await getGroup(workflowRunId);
+  const tabs: AgentTabInfo[] = [];
+  for (const tabId of [...group.tabIds]) {
+    try {
+      tabs.push(await toTabInfo(tabId, group));
+    } catch {
+      forgetAgentTab(tabId);
+    }
+  }
+  return tabs;
+}
+
+export async function closeAgentTab(
+  workflowRunId: string,
+  tabId?: number
+): Promise<{ closedTabId: number; currentTabId: number }> {
+  const group = await getGroup(workflowRunId);
+  const targetId = tabId ?? group.currentTabId;
+  if (!group.tabIds.includes(targetId)) {
+    throw new Error(`Tab ${targetId} does not belong to this run`);
+  }
+  if (group.tabIds.length === 1) {
+    throw new Error('Cannot close the last tab of a run');
+  }
+
+  // Update bookkeeping before removing so onRemoved finds nothing left to do
+  forgetAgentTab(targetId);
+  await chrome.tabs.remove(targetId);
+  return { closedTabId: targetId, currentTabId: group.currentTabId };
+}
+
+/**
+ * Drop a tab from every run that owns it (chrome.tabs.onRemoved handler).
+ * If it was a run's current tab, the most recently opened remaining tab takes over.
+ */
+export function forgetAgentTab(tabId: number): void {
+  let changed = false;
+  for (const [runId, group] of agentTabs) {
+    if (!group.tabIds.includes(tabId)) continue;
+    group.tabIds = group.tabIds.filter(id => id !== tabId);
+    if (group.tabIds.length === 0) {
+      agentTabs.delete(runId);
+    } else if (group.currentTabId === tabId) {
+      group.currentTabId = group.tabIds[group.tabIds.length - 1];
+    }
+    changed = true;
+  }
+  if (changed) persistAgentTabs();
+}
+
+/**
+ * Stop tracking a run's tabs. The tab the run started in (the user's own, when it
+ * was adopted) is handed back so the user can inspect the result; tabs the run
+ * opened with openTab are closed.
+ */
+export async function releaseAgentTabs(workflowRunId: string): Promise<void> {
+  await restoreAgentTabs();
+  const group = agentTabs.get(workflowRunId);
+  if (!group) return;
+  agentTabs.delete(workflowRunId);
+  persistAgentTabs();
+
+  const [, ...opened] = group.tabIds;
+  if (opened.length > 0) {
+    await chrome.tabs.remove(opened).catch(error => console.warn('⚠️ [AgentTabs] Could not close run tabs:', error));
+  }
+}
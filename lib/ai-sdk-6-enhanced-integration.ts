@@ -15,11 +15,12 @@ import {
   ToolCallRepairError,
 } from 'ai';
 import { z } from 'zod';
+import { createAskUserTool, type AskUserHandler } from './ask-user';
 
 /**
  * Enhanced Tool Types with Full Type Safety
  */
-export type ToolName = 'screenshot' | 'click' | 'type' | 'scroll' | 'navigate' | 'getPageContext' | 'getBrowserHistory' | 'wait' | 'pressKey' | 'keyCombo';
+export type ToolName = 'screenshot' | 'click' | 'type' | 'selectOption' | 'setChecked' | 'setDate' | 'uploadFile' | 'scroll' | 'navigate' | 'getPageContext' | 'getPageContent' | 'getAccessibilitySnapshot' | 'extractTable' | 'harvestList' | 'getBrowserHistory' | 'wait' | 'pressKey' | 'keyCombo' | 'openTab' | 'switchTab' | 'listTabs' | 'closeTab' | 'goBack' | 'goForward' | 'reload' | 'askUser';
 
 export interface ToolExecutionResult<T = any> {
   success: boolean;
@@ -105,7 +106,7 @@ export interface EnhancedToolConfig {
 /**
  * Browser Automation Tool Set with Enhanced Reliability
  */
-export const createEnhancedBrowserToolSet = (executeTool: (toolName: string, params: any) => Promise<any>, onApprovalRequired?: (toolName: string, args: any) => Promise<boolean>) => {
+export const createEnhancedBrowserToolSet = (executeTool: (toolName: string, params: any) => Promise<any>, onApprovalRequired?: (toolName: string, args: any) => Promise<boolean>, onAskUser?: AskUserHandler) => {
   return {
     // Screenshot tool with comprehensive error handling
     screenshot: tool({
@@ -141,21 +142,26 @@ export const createEnhancedBrowserToolSet = (executeTool: (toolName: string, par
       },
     }),
 
-    // Click tool with coordinate scaling and validation
+    // Click tool with ref/selector targeting, coordinate scaling and validation
     click: tool({
-      description: 'Click at specified coordinates on the page',
+      description: 'Click an element by accessibility snapshot ref, CSS selector, or coordinates on the page',
       inputSchema: z.object({
-        x: z.number().min(0).max(10000).describe('X coordinate (0-10000)'),
-        y: z.number().min(0).max(10000).describe('Y coordinate (0-10000)'),
+        ref: z.string().optional().describe('Element ref from getAccessibilitySnapshot (e.g. "e12") - preferred'),
+        x: z.number().min(0).max(10000).optional().describe('X coordinate (0-10000)'),
+        y: z.number().min(0).max(10000).optional().describe('Y coordinate (0-10000)'),
         button: z.enum(['left', 'right', 'middle']).optional().default('left'),
         double: z.boolean().optional().default(false),
         selector: z.string().optional().describe('CSS selector to click'),
       }),
-      async execute({ x, y, button = 'left', double = false, selector }) {
+      async execute({ ref, x, y, button = 'left', double = false, selector }) {
         try {
-          // Scale coordinates if not using selector
+          if (!ref && !selector && (x === undefined || y === undefined)) {
+            throw new Error('Either ref, selector, or both x and y coordinates must be provided');
+          }
+
+          // Scale coordinates if not using a ref or selector
           let coords = { x, y };
-          if (!selector) {
+          if (!ref && !selector && x !== undefined && y !== undefined) {
             const pageInfo = await executeTool('getPageContext', {});
             if (pageInfo?.viewport) {
               coords.x = Math.round((x / 1000) * pageInfo.viewport.width);
@@ -163,7 +169,7 @@ export const createEnhancedBrowserToolSet = (executeTool: (toolName: string, par
             }
           }
           
-          const result = await executeTool('click', { ...coords, button, double, selector });
+          const result = await executeTool('click', { ...coords, button, double, ref, selector });
           if (result?.error) {
             throw new Error(result.error);
           }
@@ -172,6 +178,7 @@ export const createEnhancedBrowserToolSet = (executeTool: (toolName: string, par
             ...coords,
             button,
             double,
+            ref,
             selector,
             success: true,
             timestamp: Date.now(),
@@ -192,6 +199,7 @@ export const createEnhancedBrowserToolSet = (executeTool: (toolName: string, par
       description: 'Type text into focused input element',
       inputSchema: z.object({
         text: z.string().describe('Text to type'),
+        ref: z.string().optional().describe('Element ref from getAccessibilitySnapshot (e.g. "e12") - preferred'),
         selector: z.string().optional().describe('CSS selector of target input'),
         clearFirst: z.boolean().optional().default(true),
         pressEnter: z.boolean().optional().default(false),
@@ -207,7 +215,7 @@ export const createEnhancedBrowserToolSet = (executeTool: (toolName: string, par
         console.log('🔐 [APPROVAL] Text length <= 100 or no callback, returning false');
         return false;
       },
-      async execute({ text, selector, clearFirst = true, pressEnter = false }) {
+      async execute({ text, ref, selector, clearFirst = true, pressEnter = false }) {
         try {
           // Clear existing content if requested
           if (clearFirst) {
@@ -220,6 +228,7 @@ export const createEnhancedBrowserToolSet = (executeTool: (toolName: string, par
           }
           
           const result = await executeTool('type', { 
+            ref,
             selector: selector || 'input:focus, textarea:focus, [contenteditable="true"]:focus',
             text,
           });
@@ -236,6 +245,7 @@ export const createEnhancedBrowserToolSet = (executeTool: (toolName: string, par
           
           return {
             text,
+            ref,
             selector,
             clearFirst,
             pressEnter,
@@ -253,6 +263,128 @@ export const createEnhancedBrowserToolSet = (executeTool: (toolName: string, par
       },
     }),
 
+    // Form controls that click/type handle poorly: dropdowns, checkboxes, dates, files
+    selectOption: tool({
+      description: 'Choose options in a native <select>, ARIA combobox or listbox by value or visible label. Use instead of clicking the dropdown open and then an option.',
+      inputSchema: z.object({
+        ref: z.string().optional().describe('Ref of the select or combobox from getAccessibilitySnapshot'),
+        selector: z.string().optional().describe('CSS selector of the control'),
+        label: z.string().optional().describe('Label text of the control'),
+        values: z.array(z.string()).min(1).describe('Option values or labels; several only for multi-selects'),
+      }),
+      async execute(input) {
+        try {
+          const result = await executeTool('selectOption', input);
+          if (result?.success === false || result?.error) {
+            throw new Error(result.error || result.message || 'Select option failed');
+          }
+          return {
+            selected: result?.selected || input.values,
+            success: true,
+            timestamp: Date.now(),
+          };
+        } catch (error) {
+          console.error('selectOption tool failed:', error);
+          return {
+            error: error instanceof Error ? error.message : 'Unknown select option error',
+            timestamp: Date.now(),
+            success: false,
+          };
+        }
+      },
+    }),
+
+    setChecked: tool({
+      description: 'Check or uncheck a checkbox, radio or switch by ref, selector or label text. Does nothing when already in the requested state.',
+      inputSchema: z.object({
+        ref: z.string().optional().describe('Ref of the control from getAccessibilitySnapshot'),
+        selector: z.string().optional().describe('CSS selector of the control'),
+        label: z.string().optional().describe('Label text of the control'),
+        checked: z.boolean().optional().default(true),
+      }),
+      async execute(input) {
+        try {
+          const result = await executeTool('setChecked', input);
+          if (result?.success === false || result?.error) {
+            throw new Error(result.error || result.message || 'Set checked failed');
+          }
+          return {
+            checked: result?.checked ?? input.checked,
+            changed: result?.changed,
+            success: true,
+            timestamp: Date.now(),
+          };
+        } catch (error) {
+          console.error('setChecked tool failed:', error);
+          return {
+            error: error instanceof Error ? error.message : 'Unknown set checked error',
+            timestamp: Date.now(),
+            success: false,
+          };
+        }
+      },
+    }),
+
+    setDate: tool({
+      description: 'Set a date/time input (date, datetime-local, time, month, week) or a text date field in its placeholder format. Pass ISO values like 2024-05-31 or 2024-05-31T14:30.',
+      inputSchema: z.object({
+        ref: z.string().optional().describe('Ref of the field from getAccessibilitySnapshot'),
+        selector: z.string().optional().describe('CSS selector of the field'),
+        label: z.string().optional().describe('Label text of the field'),
+        value: z.string().describe('ISO date or time'),
+      }),
+      async execute(input) {
+        try {
+          const result = await executeTool('setDate', input);
+          if (result?.success === false || result?.error) {
+            throw new Error(result.error || result.message || 'Set date failed');
+          }
+          return {
+            value: result?.value ?? input.value,
+            success: true,
+            timestamp: Date.now(),
+          };
+        } catch (error) {
+          console.error('setDate tool failed:', error);
+          return {
+            error: error instanceof Error ? error.message : 'Unknown set date error',
+            timestamp: Date.now(),
+            success: false,
+          };
+        }
+      },
+    }),
+
+    uploadFile: tool({
+      description: 'Upload files the user attached to their message into a file input or drop zone, by attachment name. Only attached files can be uploaded.',
+      inputSchema: z.object({
+        ref: z.string().optional().describe('Ref of the file input or drop zone from getAccessibilitySnapshot'),
+        selector: z.string().optional().describe('CSS selector of the file input or drop zone'),
+        label: z.string().optional().describe('Label text of the file input'),
+        attachments: z.array(z.string()).min(1).describe('Names of the attached files to upload'),
+      }),
+      async execute(input) {
+        try {
+          const result = await executeTool('uploadFile', input);
+          if (result?.success === false || result?.error) {
+            throw new Error(result.error || result.message || 'Upload failed');
+          }
+          return {
+            files: result?.files || input.attachments,
+            success: true,
+            timestamp: Date.now(),
+          };
+        } catch (error) {
+          console.error('uploadFile tool failed:', error);
+          return {
+            error: error instanceof Error ? error.message : 'Unknown upload error',
+            timestamp: Date.now(),
+            success: false,
+          };
+        }
+      },
+    }),
+
     // Scroll tool with intelligent direction handling
     scroll: tool({
       description: 'Scroll the page or element',
@@ -288,11 +420,12 @@ export const createEnhancedBrowserToolSet = (executeTool: (toolName: string, par
 
     // Navigate tool with URL validation
     navigate: tool({
-      description: 'Navigate to a URL',
+      description: 'Navigate to a URL. Returns after the page has loaded and gone quiet, with final URL, redirects, HTTP status and timing',
       inputSchema: z.object({
         url: z.string().url().describe('URL to navigate to'),
         waitForLoad: z.boolean().optional().default(true),
         timeout: z.number().min(1000).max(60000).optional().default(30000),
+        quietMs: z.number().int().min(0).max(10000).optional().describe('Quiet period after load (default 500ms)'),
       }),
       experimental_needsApproval: async ({ url }) => {
         console.log('🔐 [APPROVAL] experimental_needsApproval called for navigate tool with URL:', url);
@@ -305,15 +438,21 @@ export const createEnhancedBrowserToolSet = (executeTool: (toolName: string, par
         console.log('🔐 [APPROVAL] No onApprovalRequired callback, returning false');
         return false;
       },
-      async execute({ url, waitForLoad = true, timeout = 30000 }) {
+      async execute({ url, waitForLoad = true, timeout = 30000, quietMs }) {
         try {
-          const result = await executeTool('navigate', { url, waitForLoad, timeout });
+          const result = await executeTool('navigate', { url, waitForLoad, timeout, quietMs: waitForLoad ? quietMs : 0 });
           if (result?.error) {
             throw new Error(result.error);
           }
           
           return {
-            url,
+            url: result?.url || url,
+            requestedUrl: url,
+            title: result?.title,
+            redirects: result?.redirects || [],
+            status: result?.status,
+            warning: result?.warning,
+            timing: result?.timing,
             success: true,
             timestamp: Date.now(),
           };
@@ -372,6 +511,152 @@ export const createEnhancedBrowserToolSet = (executeTool: (toolName: string, par
       },
     }),
 
+    // Main content as Markdown, read chunk by chunk
+    getPageContent: tool({
+      description: 'Read the main content of the current page as Markdown (headings, lists, links, code, tables; navigation and footers stripped). Long pages come in chunks numbered from 1; keep reading the next chunk while hasMore is true.',
+      inputSchema: z.object({
+        chunk: z.number().int().min(1).optional().default(1),
+        chunkSize: z.number().int().min(1000).max(30000).optional().default(8000),
+      }),
+      async execute({ chunk = 1, chunkSize = 8000 }) {
+        try {
+          const result = await executeTool('getPageContent', { chunk, chunkSize });
+          if (result?.error) {
+            throw new Error(result.error);
+          }
+
+          return {
+            url: result?.url,
+            title: result?.title,
+            markdown: result?.markdown || '',
+            chunk: result?.chunk,
+            totalChunks: result?.totalChunks,
+            section: result?.section,
+            hasMore: !!result?.hasMore,
+            success: true,
+            timestamp: Date.now(),
+          };
+        } catch (error) {
+          console.error('getPageContent tool failed:', error);
+          return {
+            error: error instanceof Error ? error.message : 'Unknown page content error',
+            timestamp: Date.now(),
+            success: false,
+          };
+        }
+      },
+    }),
+
+    // Accessibility snapshot with stable element refs
+    getAccessibilitySnapshot: tool({
+      description: 'Get interactive and landmark elements (including shadow DOM and iframes) with role, name, state and a ref (e.g. "e12", or "f3:e12" inside a cross-origin frame) to pass to click/type instead of a selector',
+      inputSchema: z.object({
+        maxNodes: z.number().int().min(10).max(2000).optional().default(400),
+      }),
+      async execute({ maxNodes = 400 }) {
+        try {
+          const result = await executeTool('getAccessibilitySnapshot', { maxNodes });
+          if (result?.error) {
+            throw new Error(result.error);
+          }
+
+          return {
+            url: result?.url,
+            title: result?.title,
+            snapshot: result?.text || '',
+            refCount: result?.refCount || 0,
+            truncated: !!result?.truncated,
+            session: result?.session,
+            success: true,
+            timestamp: Date.now(),
+          };
+        } catch (error) {
+          console.error('getAccessibilitySnapshot tool failed:', error);
+          return {
+            error: error instanceof Error ? error.message : 'Unknown accessibility snapshot error',
+            timestamp: Date.now(),
+            success: false,
+          };
+        }
+      },
+    }),
+
+    // Tables, ARIA grids and repeated lists as header-keyed rows
+    extractTable: tool({
+      description: 'Extract HTML tables, ARIA grids and repeated card/list layouts as rows of {header: value} cells, each with a ref for click. Prefer this over reading page text when the data is tabular.',
+      inputSchema: z.object({
+        selector: z.string().optional().describe('CSS selector of a table or container to search within'),
+        ref: z.string().optional().describe('Element ref from getAccessibilitySnapshot to search within'),
+        maxTables: z.number().int().min(1).max(50).optional().default(10),
+        maxRows: z.number().int().min(1).max(1000).optional().default(200),
+        includeLists: z.boolean().optional().default(true),
+      }),
+      async execute({ selector, ref, maxTables = 10, maxRows = 200, includeLists = true }) {
+        try {
+          const result = await executeTool('extractTable', { selector, ref, maxTables, maxRows, includeLists });
+          if (result?.error) {
+            throw new Error(result.error);
+          }
+
+          return {
+            url: result?.url,
+            title: result?.title,
+            tables: result?.tables || [],
+            success: true,
+            timestamp: Date.now(),
+          };
+        } catch (error) {
+          console.error('extractTable tool failed:', error);
+          return {
+            error: error instanceof Error ? error.message : 'Unknown table extraction error',
+            timestamp: Date.now(),
+            success: false,
+          };
+        }
+      },
+    }),
+
+    // Whole infinite-scroll / "Load more" / paginated lists in one call
+    harvestList: tool({
+      description: 'Collect all items of a list that grows by scrolling, "Load more" or "Next" pages in one call, given the ref or selector of the element containing the items. Stops at maxItems, timeoutMs, or when rounds bring no new items. Use instead of repeated scroll calls.',
+      inputSchema: z.object({
+        ref: z.string().optional().describe('Ref of the list container from getAccessibilitySnapshot'),
+        selector: z.string().optional().describe('CSS selector of the list container'),
+        mode: z.enum(['auto', 'scroll', 'click']).optional().default('auto'),
+        loadMoreRef: z.string().optional().describe('Ref of the "Load more" or "Next" control'),
+        maxItems: z.number().int().min(1).max(2000).optional().default(200),
+        timeoutMs: z.number().int().min(1000).max(120000).optional().default(60000),
+        maxIdleRounds: z.number().int().min(1).max(20).optional().default(3),
+      }),
+      async execute(input) {
+        try {
+          if (!input.ref && !input.selector) {
+            throw new Error('Provide the ref or selector of the list container');
+          }
+          const result = await executeTool('harvestList', input);
+          if (result?.success === false) {
+            throw new Error(result.error || 'List harvest failed');
+          }
+
+          return {
+            items: result?.items || [],
+            itemCount: result?.items?.length || 0,
+            pages: result?.pages,
+            stoppedBecause: result?.stoppedBecause,
+            success: true,
+            timestamp: Date.now(),
+          };
+        } catch (error) {
+          console.error('harvestList tool failed:', error);
+          return {
+            error: error instanceof Error ? error.message : 'Unknown list harvest error',
+            timestamp: Date.now(),
+            success: false,
+          };
+        }
+      },
+    }),
+
     // Browser history tool
     getBrowserHistory: tool({
       description: 'Get browser history with search and filtering',
@@ -495,6 +780,226 @@ export const createEnhancedBrowserToolSet = (executeTool: (toolName: string, par
         }
       },
     }),
+
+    // Multi-tab tools (scoped to the tabs this run opened)
+    openTab: tool({
+      description: 'Open a URL in a new agent tab (in the background) to compare pages side by side; it becomes the current tab unless switchTo is false',
+      inputSchema: z.object({
+        url: z.string().url().describe('HTTP/HTTPS URL to open'),
+        switchTo: z.boolean().optional().default(true),
+      }),
+      async execute({ url, switchTo = true }) {
+        try {
+          const result = await executeTool('openTab', { url, switchTo });
+          if (result?.error) {
+            throw new Error(result.error);
+          }
+
+          return {
+            tab: result?.tab,
+            success: true,
+            timestamp: Date.now(),
+          };
+        } catch (error) {
+          console.error('openTab tool failed:', error);
+          return {
+            error: error instanceof Error ? error.message : 'Unknown open tab error',
+            timestamp: Date.now(),
+            success: false,
+          };
+        }
+      },
+    }),
+
+    switchTab: tool({
+      description: 'Make another tab from this run (id from listTabs/openTab) the current tab for page tools',
+      inputSchema: z.object({
+        tabId: z.number().int(),
+        activate: z.boolean().optional().default(false).describe('Also bring the tab to the front'),
+      }),
+      async execute({ tabId, activate = false }) {
+        try {
+          const result = await executeTool('switchTab', { tabId, activate });
+          if (result?.error) {
+            throw new Error(result.error);
+          }
+
+          return {
+            tab: result?.tab,
+            success: true,
+            timestamp: Date.now(),
+          };
+        } catch (error) {
+          console.error('switchTab tool failed:', error);
+          return {
+            error: error instanceof Error ? error.message : 'Unknown switch tab error',
+            timestamp: Date.now(),
+            success: false,
+          };
+        }
+      },
+    }),
+
+    listTabs: tool({
+      description: 'List the tabs opened in this run with id, URL, title and which one is current',
+      inputSchema: z.object({}),
+      async execute() {
+        try {
+          const result = await executeTool('listTabs', {});
+          if (result?.error) {
+            throw new Error(result.error);
+          }
+
+          return {
+            tabs: result?.tabs || [],
+            success: true,
+            timestamp: Date.now(),
+          };
+        } catch (error) {
+          console.error('listTabs tool failed:', error);
+          return {
+            error: error instanceof Error ? error.message : 'Unknown list tabs error',
+            timestamp: Date.now(),
+            success: false,
+          };
+        }
+      },
+    }),
+
+    closeTab: tool({
+      description: 'Close a tab from this run (defaults to the current tab); the last remaining tab cannot be closed',
+      inputSchema: z.object({
+        tabId: z.number().int().optional(),
+      }),
+      async execute({ tabId }) {
+        try {
+          const result = await executeTool('closeTab', { tabId });
+          if (result?.error) {
+            throw new Error(result.error);
+          }
+
+          return {
+            closedTabId: result?.closedTabId,
+            currentTabId: result?.currentTabId,
+            success: true,
+            timestamp: Date.now(),
+          };
+        } catch (error) {
+          console.error('closeTab tool failed:', error);
+          return {
+            error: error instanceof Error ? error.message : 'Unknown close tab error',
+            timestamp: Date.now(),
+            success: false,
+          };
+        }
+      },
+    }),
+
+    goBack: tool({
+      description: 'Go back one page in the tab history; returns after the page has loaded and gone quiet',
+      inputSchema: z.object({
+        timeout: z.number().min(1000).max(60000).optional().default(30000),
+        quietMs: z.number().int().min(0).max(10000).optional(),
+      }),
+      async execute({ timeout = 30000, quietMs }) {
+        try {
+          const result = await executeTool('goBack', { timeout, quietMs });
+          if (result?.error) {
+            throw new Error(result.error);
+          }
+
+          return {
+            url: result?.url,
+            title: result?.title,
+            sameDocument: !!result?.sameDocument,
+            status: result?.status,
+            warning: result?.warning,
+            timing: result?.timing,
+            success: true,
+            timestamp: Date.now(),
+          };
+        } catch (error) {
+          console.error('goBack tool failed:', error);
+          return {
+            error: error instanceof Error ? error.message : 'Unknown go back error',
+            timestamp: Date.now(),
+            success: false,
+          };
+        }
+      },
+    }),
+
+    goForward: tool({
+      description: 'Go forward one page in the tab history; returns after the page has loaded and gone quiet',
+      inputSchema: z.object({
+        timeout: z.number().min(1000).max(60000).optional().default(30000),
+        quietMs: z.number().int().min(0).max(10000).optional(),
+      }),
+      async execute({ timeout = 30000, quietMs }) {
+        try {
+          const result = await executeTool('goForward', { timeout, quietMs });
+          if (result?.error) {
+            throw new Error(result.error);
+          }
+
+          return {
+            url: result?.url,
+            title: result?.title,
+            sameDocument: !!result?.sameDocument,
+            status: result?.status,
+            warning: result?.warning,
+            timing: result?.timing,
+            success: true,
+            timestamp: Date.now(),
+          };
+        } catch (error) {
+          console.error('goForward tool failed:', error);
+          return {
+            error: error instanceof Error ? error.message : 'Unknown go forward error',
+            timestamp: Date.now(),
+            success: false,
+          };
+        }
+      },
+    }),
+
+    reload: tool({
+      description: 'Reload the current page; returns after the page has loaded and gone quiet',
+      inputSchema: z.object({
+        bypassCache: z.boolean().optional().default(false),
+        timeout: z.number().min(1000).max(60000).optional().default(30000),
+        quietMs: z.number().int().min(0).max(10000).optional(),
+      }),
+      async execute({ bypassCache = false, timeout = 30000, quietMs }) {
+        try {
+          const result = await executeTool('reload', { bypassCache, timeout, quietMs });
+          if (result?.error) {
+            throw new Error(result.error);
+          }
+
+          return {
+            url: result?.url,
+            title: result?.title,
+            sameDocument: !!result?.sameDocument,
+            status: result?.status,
+            warning: result?.warning,
+            timing: result?.timing,
+            success: true,
+            timestamp: Date.now(),
+          };
+        } catch (error) {
+          console.error('reload tool failed:', error);
+          return {
+            error: error instanceof Error ? error.message : 'Unknown reload error',
+            timestamp: Date.now(),
+            success: false,
+          };
+        }
+      },
+    }),
+
+    // Only offered when someone is there to answer
+    ...(onAskUser ? { askUser: createAskUserTool(onAskUser) } : {}),
   };
 };
 
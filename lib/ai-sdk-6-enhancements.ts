@@ -59,16 +59,21 @@ export function createToolWithApproval<T extends z.ZodType>(
 /**
  * Creates approval policy for sensitive navigation
  * Example: Requires approval for navigating to external domains or sensitive URLs
+ * "External" is relative to getCurrentUrl (the agent tab's page, not the sidepanel);
+ * without it every domain counts as external. Browser tools are also subject to the
+ * per-origin grants enforced by the background router (lib/origin-permissions.ts).
  */
 export function createNavigationApprovalPolicy(options: {
   allowedDomains?: string[];
   blockedDomains?: string[];
   requireApprovalForExternal?: boolean;
+  getCurrentUrl?: () => string | undefined;
 }) {
   return (args: { url: string }): boolean => {
     try {
       const targetUrl = new URL(args.url);
-      const currentDomain = new URL(window.location.href).hostname;
+      const currentUrl = options.getCurrentUrl?.();
+      const currentDomain = currentUrl ? new URL(currentUrl).hostname : undefined;
 
       // Check blocked domains
       if (options.blockedDomains?.some(domain => targetUrl.hostname.includes(domain))) {
@@ -0,0 +1,149 @@
+/**
+ * Ask User - Human-in-the-loop questions from the agent
+ *
+ * The askUser tool lets the model stop and ask for free text, a single or
+ * multiple choice, or a yes/no confirmation. Its execute awaits the run's
+ * AskUserHandler (the sidepanel renders the question inline and resolves
+ * once the user answers), so the agent loop is suspended until then and the
+ * answer comes back to the model as the tool result.
+ */
+
+import { tool } from 'ai';
+import { z } from 'zod';
+import { logEvent } from './braintrust';
+import { toolDebug } from './debug-logger';
+
+export type AskUserKind = 'text' | 'single_choice' | 'multi_choice' | 'confirm';
+
+export interface AskUserRequest {
+  id: string;
+  question: string;
+  kind: AskUserKind;
+  options?: string[];
+  placeholder?: string;
+  reason?: string;
+  timestamp: number;
+}
+
+export interface AskUserAnswer {
+  requestId: string;
+  // False when the user dismissed the question or the run was stopped
+  answered: boolean;
+  text?: string;
+  choices?: string[];
+  confirmed?: boolean;
+  timestamp: number;
+}
+
+export type AskUserHandler = (request: AskUserRequest, abortSignal?: AbortSignal) => Promise<AskUserAnswer>;
+
+export const askUserInputSchema = z.object({
+  question: z.string().min(1).max(500).describe('The question to show the user; one clear question'),
+  kind: z.enum(['text', 'single_choice', 'multi_choice', 'confirm'])
+    .describe('text: free-form answer; single_choice / multi_choice: pick from options; confirm: yes or no'),
+  options: z.array(z.string().min(1).max(200)).min(2).max(10).optional()
+    .describe('Choices for single_choice and multi_choice, e.g. the flights found on the page'),
+  placeholder: z.string().max(200).optional().describe('Hint shown in the text box'),
+  reason: z.string().max(300).optional().describe('Why the answer is needed to continue'),
+}).refine(input => !input.kind.endsWith('_choice') || (input.options?.length ?? 0) >= 2, {
+  message: 'single_choice and multi_choice need at least two options',
+  path: ['options'],
+});
+
+/**
+ * Keep only answers the question allows: choices must be among the options,
+ * a single choice has one, text is trimmed
+ */
+export function normalizeAnswer(request: AskUserRequest, answer: AskUserAnswer): AskUserAnswer {
+  if (!answer.answered) return { requestId: request.id, answered: false, timestamp: answer.timestamp };
+
+  switch (request.kind) {
+    case 'text': {
+      const text = (answer.text || '').trim();
+      return { requestId: request.id, answered: text.length > 0, text, timestamp: answer.timestamp };
+    }
+    case 'confirm':
+      return { requestId: request.id, answered: typeof answer.confirmed === 'boolean', confirmed: answer.confirmed, timestamp: answer.timestamp };
+    case 'single_choice':
+    case 'multi_choice': {
+      const allowed = new Set(request.options || []);
+      const choices = (answer.choices || []).filter(choice => allowed.has(choice));
+      const kept = request.kind === 'single_choice' ? choices.slice(0, 1) : [...new Set(choices)];
+      return { requestId: request.id, answered: kept.length > 0, choices: kept, timestamp: answer.timestamp };
+    }
+  }
+}
+
+/**
+ * The answer as the model sees it in the tool result
+ */
+export function describeAnswer(request: AskUserRequest, answer: AskUserAnswer): string {
+  if (!answer.answered) return 'The user did not answer.';
+  switch (request.kind) {
+    case 'text':
+      return answer.text || '';
+    case 'confirm':
+      return answer.confirmed ? 'Yes' : 'No';
+    default:
+      return (answer.choices || []).join(', ');
+  }
+}
+
+/**
+ * askUser tool; execution waits for the handler's answer
+ */
+export function createAskUserTool(onAskUser: AskUserHandler) {
+  return tool({
+    description: 'Ask the user a question and wait for the answer. Use when you need a decision only the user can make (which of several flights, which account, whether to submit) instead of guessing or ending the run. Do not use it for things you can find on the page.',
+    inputSchema: askUserInputSchema,
+    async execute({ question, kind, options, placeholder, reason }, { abortSignal }) {
+      const request: AskUserRequest = {
+        id: `ask_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+        question,
+        kind,
+        options: kind.endsWith('_choice') ? options : undefined,
+        placeholder,
+        reason,
+        timestamp: Date.now(),
+      };
+
+      toolDebug.info('Waiting for the user to answer', { requestId: request.id, kind });
+      logEvent('ask_user_requested', { kind, option_count: request.options?.length || 0 });
+
+      try {
+        const answer = normalizeAnswer(request, await onAskUser(request, abortSignal));
+        logEvent('ask_user_answered', {
+          kind,
+          answered: answer.answered,
+          wait_ms: answer.timestamp - request.timestamp,
+        });
+
+        if (!answer.answered) {
+          return {
+            success: false,
+            question,
+            error: 'The user dismissed the question without answering. Continue without it if you can, otherwise explain what is needed and stop.',
+            timestamp: Date.now(),
+          };
+        }
+
+        return {
+          success: true,
+          question,
+          kind,
+          answer: describeAnswer(request, answer),
+          choices: answer.choices,
+          confirmed: answer.confirmed,
+          timestamp: Date.now(),
+        };
+      } catch (error) {
+        console.error('askUser tool failed:', error);
+        return {
+          error: error instanceof Error ? error.message : 'Unknown askUser error',
+          timestamp: Date.now(),
+          success: false,
+        };
+      }
+    },
+  });
+}
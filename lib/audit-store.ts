@@ -0,0 +1,381 @@
+// Audit Store - the guardrails audit log, kept across worker restarts
+// Every entry GuardrailsSystem logs is appended to IndexedDB together with the run it
+// belongs to and that run's tool trajectory, so a run can be reviewed later step by
+// step. Entries and runs older than the retention period, or beyond the entry cap,
+// are pruned at the start of each run. The log exports as JSON Lines or CSV.
+
+import {
+  matchesAuditFilters,
+  type AuditLogEntry,
+  type AuditLogFilters,
+  type GuardrailsSystem,
+} from './guardrails';
+
+export interface StoredAuditEntry extends AuditLogEntry {
+  id?: number; // Assigned by the store, in logging order
+}
+
+export interface AuditTrajectoryStep {
+  step: number;
+  action: string; // Tool name
+  url?: string;
+  success: boolean;
+  error?: string;
+  timestamp: number; // When the tool call started
+}
+
+export type AuditRunStatus = 'running' | 'completed' | 'failed';
+
+export interface AuditRunRecord {
+  runId: string;
+  query: string;
+  status: AuditRunStatus;
+  startedAt: number;
+  finishedAt?: number;
+  trajectory: AuditTrajectoryStep[];
+}
+
+export interface AuditRetention {
+  maxAgeDays?: number;
+  maxEntries?: number;
+}
+
+export const DEFAULT_AUDIT_RETENTION: Required<AuditRetention> = { maxAgeDays: 30, maxEntries: 10000 };
+
+export interface AuditStore {
+  append(entry: StoredAuditEntry): Promise<void>;
+  // Oldest first
+  query(filters?: AuditLogFilters): Promise<StoredAuditEntry[]>;
+  putRun(run: AuditRunRecord): Promise<void>;
+  getRun(runId: string): Promise<AuditRunRecord | undefined>;
+  // Newest first
+  listRuns(): Promise<AuditRunRecord[]>;
+  // Drops entries and runs before the cutoff, then the oldest entries beyond maxEntries
+  prune(before: number, maxEntries: number): Promise<number>;
+  clear(): Promise<void>;
+}
+
+// ============================================
+// IndexedDB store
+// ============================================
+
+const DB_NAME = 'opulent-audit-log';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const RUNS_STORE = 'runs';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Audit log transaction aborted'));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'id', autoIncrement: true });
+        entries.createIndex('byTimestamp', 'timestamp');
+      }
+      if (!db.objectStoreNames.contains(RUNS_STORE)) {
+        db.createObjectStore(RUNS_STORE, { keyPath: 'runId' });
+      }
+    };
+    dbPromise = requestToPromise(request).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+// Entries must survive structured clone: args can hold anything a tool was called with
+function toStorable<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+export function createIndexedDbAuditStore(): AuditStore {
+  return {
+    async append(entry) {
+      const db = await openDatabase();
+      const tx = db.transaction(ENTRIES_STORE, 'readwrite');
+      const { id: _id, ...record } = toStorable(entry);
+      tx.objectStore(ENTRIES_STORE).add(record);
+      await transactionDone(tx);
+    },
+    async query(filters) {
+      const db = await openDatabase();
+      const index = db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).index('byTimestamp');
+      const range = filters?.since || filters?.until
+        ? IDBKeyRange.bound(filters.since ?? 0, filters.until ?? Number.MAX_SAFE_INTEGER)
+        : undefined;
+      const entries: StoredAuditEntry[] = await requestToPromise(index.getAll(range));
+      return entries.filter(entry => matchesAuditFilters(entry, filters));
+    },
+    async putRun(run) {
+      const db = await openDatabase();
+      const tx = db.transaction(RUNS_STORE, 'readwrite');
+      tx.objectStore(RUNS_STORE).put(toStorable(run));
+      await transactionDone(tx);
+    },
+    async getRun(runId) {
+      const db = await openDatabase();
+      return requestToPromise(db.transaction(RUNS_STORE).objectStore(RUNS_STORE).get(runId));
+    },
+    async listRuns() {
+      const db = await openDatabase();
+      const runs: AuditRunRecord[] = await requestToPromise(db.transaction(RUNS_STORE).objectStore(RUNS_STORE).getAll());
+      return runs.sort((a, b) => b.startedAt - a.startedAt);
+    },
+    async prune(before, maxEntries) {
+      const db = await openDatabase();
+      const tx = db.transaction([ENTRIES_STORE, RUNS_STORE], 'readwrite');
+      const entries = tx.objectStore(ENTRIES_STORE);
+      const stale = await requestToPromise(entries.index('byTimestamp').getAllKeys(IDBKeyRange.upperBound(before, true)));
+      stale.forEach(key => entries.delete(key));
+      // Keys are in logging order, so the oldest survivors come first
+      const remaining = await requestToPromise(entries.getAllKeys());
+      const overflow = remaining.slice(0, Math.max(0, remaining.length - maxEntries));
+      overflow.forEach(key => entries.delete(key));
+
+      const runs = tx.objectStore(RUNS_STORE);
+      const allRuns: AuditRunRecord[] = await requestToPromise(runs.getAll());
+      allRuns.filter(run => (run.finishedAt ?? run.startedAt) < before).forEach(run => runs.delete(run.runId));
+      await transactionDone(tx);
+      return stale.length + overflow.length;
+    },
+    async clear() {
+      const db = await openDatabase();
+      const tx = db.transaction([ENTRIES_STORE, RUNS_STORE], 'readwrite');
+      tx.objectStore(ENTRIES_STORE).clear();
+      tx.objectStore(RUNS_STORE).clear();
+      await transactionDone(tx);
+    },
+  };
+}
+
+// ============================================
+// In-memory store (environments without IndexedDB, e.g. Node tests)
+// ============================================
+
+export function createMemoryAuditStore(): AuditStore {
+  let entries: StoredAuditEntry[] = [];
+  const runs = new Map<string, AuditRunRecord>();
+  let nextId = 1;
+  return {
+    async append(entry) {
+      entries.push({ ...toStorable(entry), id: nextId++ });
+    },
+    async query(filters) {
+      return entries
+        .filter(entry => matchesAuditFilters(entry, filters))
+        .sort((a, b) => a.timestamp - b.timestamp || (a.id ?? 0) - (b.id ?? 0));
+    },
+    async putRun(run) {
+      runs.set(run.runId, toStorable(run));
+    },
+    async getRun(runId) {
+      return runs.get(runId);
+    },
+    async listRuns() {
+      return Array.from(runs.values()).sort((a, b) => b.startedAt - a.startedAt);
+    },
+    async prune(before, maxEntries) {
+      const count = entries.length;
+      entries = entries.filter(entry => entry.timestamp >= before).slice(-maxEntries);
+      for (const run of Array.from(runs.values())) {
+        if ((run.finishedAt ?? run.startedAt) < before) runs.delete(run.runId);
+      }
+      return count - entries.length;
+    },
+    async clear() {
+      entries = [];
+      runs.clear();
+    },
+  };
+}
+
+let defaultStore: AuditStore | null = null;
+
+export function getDefaultAuditStore(): AuditStore {
+  if (!defaultStore) {
+    defaultStore = typeof indexedDB !== 'undefined' ? createIndexedDbAuditStore() : createMemoryAuditStore();
+  }
+  return defaultStore;
+}
+
+// ============================================
+// Recording a run
+// ============================================
+
+export function resolveAuditRetention(retention?: AuditRetention): Required<AuditRetention> {
+  return {
+    maxAgeDays: retention?.maxAgeDays && retention.maxAgeDays > 0 ? retention.maxAgeDays : DEFAULT_AUDIT_RETENTION.maxAgeDays,
+    maxEntries: retention?.maxEntries && retention.maxEntries > 0 ? Math.floor(retention.maxEntries) : DEFAULT_AUDIT_RETENTION.maxEntries,
+  };
+}
+
+export async function pruneAuditLog(
+  retention?: AuditRetention,
+  store: AuditStore = getDefaultAuditStore(),
+  now = Date.now()
+): Promise<number> {
+  const { maxAgeDays, maxEntries } = resolveAuditRetention(retention);
+  try {
+    return await store.prune(now - maxAgeDays * 24 * 60 * 60 * 1000, maxEntries);
+  } catch (error) {
+    console.warn('⚠️ [Audit] Could not prune audit log:', error);
+    return 0;
+  }
+}
+
+/**
+ * Persist a run's audit entries and tool trajectory. Wrap the run's executeTool with
+ * wrapExecuteTool() and call finish() when it ends. Storage is best effort: a write
+ * that fails is logged, never thrown into the run.
+ */
+export class AuditRunRecorder {
+  private run: AuditRunRecord;
+
+  constructor(
+    private readonly guardrails: GuardrailsSystem,
+    options: { runId: string; query: string; origin?: string },
+    private readonly store: AuditStore = getDefaultAuditStore()
+  ) {
+    this.run = { runId: options.runId, query: options.query, status: 'running', startedAt: Date.now(), trajectory: [] };
+    guardrails.setAuditContext({ runId: options.runId, origin: originOf(options.origin) });
+    guardrails.setAuditSink((entry) => void this.persist(() => this.store.append(entry)));
+    void this.persist(() => this.store.putRun(this.run));
+  }
+
+  get runId(): string {
+    return this.run.runId;
+  }
+
+  get trajectory(): AuditTrajectoryStep[] {
+    return this.run.trajectory;
+  }
+
+  wrapExecuteTool(
+    executeTool: (toolName: string, params: any) => Promise<any>
+  ): (toolName: string, params: any) => Promise<any> {
+    return async (toolName, params) => {
+      const step: AuditTrajectoryStep = {
+        step: this.run.trajectory.length + 1,
+        action: toolName,
+        url: typeof params?.url === 'string' ? params.url : undefined,
+        success: false,
+        timestamp: Date.now(),
+      };
+      this.run.trajectory.push(step);
+      try {
+        const result = await executeTool(toolName, params);
+        const url = result?.url ?? result?.pageContext?.url;
+        if (typeof url === 'string') {
+          step.url = url;
+          this.guardrails.setAuditContext({ origin: originOf(url) });
+        }
+        step.success = result?.success !== false;
+        step.error = step.success ? undefined : String(result?.error ?? result?.message ?? 'Failed');
+        return result;
+      } catch (error) {
+        step.error = (error as Error).message;
+        throw error;
+      } finally {
+        await this.persist(() => this.store.putRun(this.run));
+      }
+    };
+  }
+
+  async finish(status: Exclude<AuditRunStatus, 'running'>): Promise<void> {
+    this.run = { ...this.run, status, finishedAt: Date.now() };
+    await this.persist(() => this.store.putRun(this.run));
+    this.guardrails.setAuditContext({ runId: undefined, origin: undefined });
+  }
+
+  private async persist(write: () => Promise<void>): Promise<void> {
+    try {
+      await write();
+    } catch (error) {
+      console.warn('⚠️ [Audit] Failed to persist audit log:', error);
+    }
+  }
+}
+
+function originOf(url?: string): string | undefined {
+  if (!url || !/^https?:\/\//i.test(url)) return undefined;
+  try {
+    return new URL(url).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * One JSON object per line, oldest first
+ */
+export function auditToJsonLines(entries: StoredAuditEntry[]): string {
+  return entries.map(entry => JSON.stringify(entry)).join('\n') + (entries.length ? '\n' : '');
+}
+
+const CSV_COLUMNS = ['timestamp', 'runId', 'tool', 'origin', 'result', 'severity', 'violationType', 'message', 'args', 'metadata'] as const;
+
+function csvCell(value: unknown): string {
+  let text = value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditToCsv(entries: StoredAuditEntry[]): string {
+  const rows = entries.map(entry => [
+    new Date(entry.timestamp).toISOString(),
+    entry.runId,
+    entry.tool,
+    entry.origin,
+    entry.result,
+    entry.violation?.severity,
+    entry.violation?.type,
+    entry.violation?.message,
+    entry.args,
+    entry.metadata,
+  ].map(csvCell).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * A run's trajectory with the audit entries logged during each step: entries before
+ * the first tool call belong to step 0
+ */
+export function buildRunTimeline(
+  run: AuditRunRecord,
+  entries: StoredAuditEntry[]
+): Array<{ step: AuditTrajectoryStep | null; entries: StoredAuditEntry[] }> {
+  const timeline: Array<{ step: AuditTrajectoryStep | null; entries: StoredAuditEntry[] }> = [
+    { step: null, entries: [] },
+    ...run.trajectory.map(step => ({ step, entries: [] as StoredAuditEntry[] })),
+  ];
+  for (const entry of entries.filter(item => item.runId === run.runId)) {
+    let index = 0;
+    while (index + 1 < timeline.length && timeline[index + 1].step!.timestamp <= entry.timestamp) index++;
+    timeline[index].entries.push(entry);
+  }
+  return timeline;
+}
@@ -2,12 +2,22 @@
  * Browser Extension Compatible WorkflowChatTransport
  * 
  * Adapts WorkflowChatTransport pattern for browser extension context
- * Uses chrome.runtime messaging instead of HTTP endpoints
+ * Uses chrome.runtime messaging instead of HTTP endpoints; output is streamed
+ * over a chrome.runtime port (see lib/workflow-stream.ts)
  * 
  * Based on: https://useworkflow.dev/docs/api-reference/workflow-ai/workflow-chat-transport
  */
 
-import type { Message } from '../types';
+import type { Message, Settings } from '../types';
+import {
+  WORKFLOW_STREAM_PORT,
+  encodeWorkflowStreamEvent,
+  type WorkflowStreamClientMessage,
+  type WorkflowStreamServerMessage,
+} from './workflow-stream';
+
+// Index of the last chunk received for the active run, for reconnect-from-index
+const STREAM_INDEX_KEY = 'active-workflow-stream-index';
 
 export interface BrowserWorkflowTransportOptions {
   maxConsecutiveErrors?: number;
@@ -41,7 +51,7 @@ export class BrowserWorkflowTransport {
   async sendMessages(options: {
     messages: Message[];
     settings?: {
-      provider: 'google' | 'gateway';
+      provider: Settings['provider'];
       apiKey: string;
       model?: string;
     };
@@ -80,6 +90,7 @@ export class BrowserWorkflowTransport {
       if (typeof chrome !== 'undefined' && chrome.storage) {
         chrome.storage.local.set({
           'active-workflow-run-id': response.workflowRunId,
+          [STREAM_INDEX_KEY]: -1,
         });
       }
 
@@ -91,9 +102,8 @@ export class BrowserWorkflowTransport {
         );
       }
 
-      // Create stream from workflow execution
-      // Note: In browser extension, we need to proxy through background script
-      return this.createMessageStream(response.workflowRunId, options.messages);
+      // Stream the run's output from the background
+      return this.createMessageStream(response.workflowRunId, 0);
     } catch (error) {
       this.errorCount++;
       if (this.errorCount >= this.maxConsecutiveErrors) {
@@ -106,37 +116,38 @@ export class BrowserWorkflowTransport {
   }
 
   /**
-   * Reconnect to an interrupted stream
+   * Run started by the last sendMessages, persisted so a reopened sidepanel can reconnect
    */
-  async reconnectToStream(runId: string): Promise<ReadableStream<Uint8Array> | null> {
-    try {
-      const response = await new Promise<{
-        success: boolean;
-        error?: string;
-      }>((resolve, reject) => {
-        chrome.runtime.sendMessage(
-          {
-            type: 'WORKFLOW_CHAT_RESUME',
-            workflowRunId: runId,
-          },
-          (response) => {
-            if (chrome.runtime.lastError) {
-              reject(new Error(chrome.runtime.lastError.message));
-            } else {
-              resolve(response);
-            }
-          }
-        );
-      });
+  getActiveWorkflowRunId(): string | null {
+    return this.activeWorkflowRunId;
+  }
 
-      if (!response.success) {
-        return null;
-      }
+  /**
+   * The run a closed sidepanel was following, with the messages it was started from;
+   * null once that run's stream has ended
+   */
+  async loadActiveRun(): Promise<{ workflowRunId: string; messages: Message[] } | null> {
+    if (typeof chrome === 'undefined' || !chrome.storage) return null;
+    const { 'active-workflow-run-id': workflowRunId } = await chrome.storage.local.get(['active-workflow-run-id']);
+    if (!workflowRunId) return null;
+    const runKey = `workflow-run-${workflowRunId}`;
+    const stored = await chrome.storage.local.get([runKey]);
+    return { workflowRunId, messages: stored[runKey]?.messages ?? [] };
+  }
 
+  /**
+   * Reconnect to a run's stream, e.g. when the sidepanel reopens mid-run.
+   * Picks up after the last chunk this client saw unless `fromIndex` is given.
+   * If the background no longer has the run (service worker restart), it is
+   * resumed from its journal and streamed from the start.
+   */
+  async reconnectToStream(runId: string, fromIndex?: number): Promise<ReadableStream<Uint8Array> | null> {
+    try {
+      const startIndex = fromIndex ?? await this.getStoredNextIndex(runId);
+      this.activeWorkflowRunId = runId;
       this.errorCount = 0; // Reset error count
 
-      // Resume streaming (simplified - actual implementation would get stream from background)
-      return this.createMessageStream(runId, []);
+      return this.createMessageStream(runId, startIndex);
     } catch (error) {
       console.error('Failed to reconnect to stream:', error);
       return null;
@@ -144,75 +155,127 @@ export class BrowserWorkflowTransport {
   }
 
   /**
-   * Create message stream (simplified implementation)
-   * In a real implementation, this would receive chunks from the background script
+   * Ask the background to re-run a run from its journal
+   */
+  private requestResume(runId: string): Promise<boolean> {
+    return new Promise((resolve) => {
+      chrome.runtime.sendMessage(
+        {
+          type: 'WORKFLOW_CHAT_RESUME',
+          workflowRunId: runId,
+        },
+        (response) => {
+          resolve(!chrome.runtime.lastError && !!response?.success);
+        }
+      );
+    });
+  }
+
+  private async getStoredNextIndex(runId: string): Promise<number> {
+    if (typeof chrome === 'undefined' || !chrome.storage) return 0;
+    const result = await chrome.storage.local.get(['active-workflow-run-id', STREAM_INDEX_KEY]);
+    const lastIndex = result[STREAM_INDEX_KEY];
+    return result['active-workflow-run-id'] === runId && typeof lastIndex === 'number' ? lastIndex + 1 : 0;
+  }
+
+  /**
+   * Follow a run over a workflow-stream port, re-subscribing after the last
+   * received index if the port drops (service worker suspended or restarted)
    */
   private createMessageStream(
     workflowRunId: string,
-    messages: Message[]
+    fromIndex: number
   ): ReadableStream<Uint8Array> {
-    const encoder = new TextEncoder();
-    let chunkIndex = 0;
+    let lastIndex = fromIndex - 1;
+    let port: chrome.runtime.Port | null = null;
+    let finished = false;
+    let resumed = false;
+    let reconnects = 0;
+
+    const finish = () => {
+      finished = true;
+      port?.disconnect();
+      port = null;
+    };
 
     return new ReadableStream({
-      start: async (controller) => {
-        try {
-          // Listen for messages from background script
-          const messageListener = (
-            message: any,
-            _sender: chrome.runtime.MessageSender,
-            _sendResponse: (response?: any) => void
-          ) => {
-            if (message.type === 'WORKFLOW_CHAT_CHUNK' && message.workflowRunId === workflowRunId) {
-              if (message.done) {
-                // Stream finished
-                controller.enqueue(encoder.encode(`data: [DONE]\n\n`));
-                controller.close();
-
-                // Clean up
-                chrome.runtime.onMessage.removeListener(messageListener);
-                chrome.storage.local.remove('active-workflow-run-id');
-
-                // Notify callback
-                if (this.onChatEnd) {
-                  this.onChatEnd({
-                    chatId: workflowRunId,
-                    chunkIndex,
-                  });
-                }
-              } else {
-                // Stream chunk
-                controller.enqueue(
-                  encoder.encode(`data: ${JSON.stringify(message.chunk)}\n\n`)
-                );
-                chunkIndex++;
+      start: (controller) => {
+        const subscribe = (startIndex: number) => {
+          const current = chrome.runtime.connect({ name: WORKFLOW_STREAM_PORT });
+          port = current;
+
+          current.onMessage.addListener(async (message: WorkflowStreamServerMessage) => {
+            if (finished || message.workflowRunId !== workflowRunId) return;
+
+            if (message.type === 'chunk') {
+              if (message.index <= lastIndex) return; // Already delivered before a reconnect
+              lastIndex = message.index;
+              reconnects = 0;
+              controller.enqueue(encodeWorkflowStreamEvent(message));
+              void chrome.storage.local.set({ [STREAM_INDEX_KEY]: lastIndex });
+              return;
+            }
+
+            if (message.type === 'end') {
+              finish();
+              controller.enqueue(encodeWorkflowStreamEvent('done'));
+              controller.close();
+
+              // Clean up
+              chrome.storage.local.remove(['active-workflow-run-id', STREAM_INDEX_KEY]);
+
+              // Notify callback
+              if (this.onChatEnd) {
+                this.onChatEnd({
+                  chatId: workflowRunId,
+                  chunkIndex: lastIndex,
+                });
               }
+              return;
             }
-          };
 
-          chrome.runtime.onMessage.addListener(messageListener);
+            // not-found: the background lost the run; resume it from the journal once
+            finish();
+            if (!resumed && await this.requestResume(workflowRunId)) {
+              resumed = true;
+              finished = false;
+              lastIndex = -1; // The resumed run starts a fresh buffer
+              subscribe(0);
+              return;
+            }
+            controller.error(new Error(`Workflow run ${workflowRunId} not found`));
+          });
 
-          // Request stream start from background
-          chrome.runtime.sendMessage({
-            type: 'WORKFLOW_CHAT_STREAM_START',
-            workflowRunId,
-            messages,
+          current.onDisconnect.addListener(() => {
+            if (finished || port !== current) return;
+            port = null;
+            if (++reconnects > this.maxConsecutiveErrors) {
+              finished = true;
+              controller.error(new Error(`Lost workflow stream after ${this.maxConsecutiveErrors} reconnects`));
+              return;
+            }
+            subscribe(lastIndex + 1);
           });
-        } catch (error) {
-          controller.error(error);
-        }
+
+          const subscribeMessage: WorkflowStreamClientMessage = {
+            type: 'subscribe',
+            workflowRunId,
+            fromIndex: startIndex,
+          };
+          current.postMessage(subscribeMessage);
+        };
+
+        subscribe(fromIndex);
       },
 
       cancel: () => {
+        finish();
         // Cancel workflow
-        if (this.activeWorkflowRunId) {
-          chrome.runtime.sendMessage({
-            type: 'WORKFLOW_CHAT_CANCEL',
-            workflowRunId: this.activeWorkflowRunId,
-          });
-        }
+        chrome.runtime.sendMessage({
+          type: 'WORKFLOW_CHAT_CANCEL',
+          workflowRunId,
+        });
       },
     });
   }
 }
-
@@ -130,6 +130,7 @@ const generateExecutionPlanWithTelemetryTool = tool({
     userQuery: z.string(),
     currentUrl: z.string().optional(),
     pageContext: z.any().optional(),
+    demonstrations: z.string().optional(),
     provider: z.enum(['google', 'gateway', 'nim']),
     apiKey: z.string(),
     model: z.string().optional(),
@@ -139,6 +140,7 @@ const generateExecutionPlanWithTelemetryTool = tool({
     userQuery: string;
     currentUrl?: string;
     pageContext?: any;
+    demonstrations?: string;
     provider: 'google' | 'gateway' | 'nim';
     apiKey: string;
     model?: string;
@@ -155,7 +157,8 @@ const generateExecutionPlanWithTelemetryTool = tool({
         braintrustApiKey: params.braintrustApiKey,
       },
       params.currentUrl,
-      params.pageContext
+      params.pageContext,
+      params.demonstrations
     );
   },
 });
@@ -166,6 +169,7 @@ export const generateExecutionPlanWithTelemetryCached = cached(generateExecution
     query: params.userQuery,
     url: params.currentUrl || '',
     contextHash: params.pageContext ? JSON.stringify(params.pageContext).substring(0, 100) : '',
+    demonstrationsHash: params.demonstrations ? `${params.demonstrations.length}:${params.demonstrations.substring(0, 200)}` : '',
     provider: params.provider,
     model: params.model || 'default',
     apiKeyHash: params.apiKey ? params.apiKey.substring(0, 8) : 'no-key', // Include API key availability in cache key
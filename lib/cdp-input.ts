@@ -0,0 +1,166 @@
+// CDP Input - trusted input events through chrome.debugger
+// Events synthesized by the content script have isTrusted === false, which many
+// sites ignore (React-controlled inputs, Google Docs, drag-and-drop libraries).
+// Input.dispatchMouseEvent / Input.insertText / Input.dispatchKeyEvent go through
+// the browser's real input pipeline instead.
+
+import type { InputBackend, Settings } from '../types';
+
+const PROTOCOL_VERSION = '1.3';
+// Detach after a quiet period so Chrome's "started debugging this browser" bar goes away
+const IDLE_DETACH_MS = 30000;
+
+// Attached tab id -> idle detach timer
+const attachedTabs = new Map<number, ReturnType<typeof setTimeout>>();
+
+function matchesSite(hostname: string, site: string): boolean {
+  const normalized = site
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^\*\./, '')
+    .split('/')[0];
+  return !!normalized && (hostname === normalized || hostname.endsWith(`.${normalized}`));
+}
+
+/**
+ * Pick the input backend for a page: sites listed in trustedInputSites always get
+ * CDP input, everything else uses the configured backend ('auto' by default).
+ */
+export function resolveInputBackend(
+  url: string | undefined,
+  settings?: Pick<Settings, 'inputBackend' | 'trustedInputSites'> | null
+): InputBackend {
+  let hostname = '';
+  try {
+    hostname = url ? new URL(url).hostname.toLowerCase() : '';
+  } catch {
+    // Non-URL (e.g. about:blank) - no per-site override
+  }
+  if (hostname && settings?.trustedInputSites?.some(site => matchesSite(hostname, site))) {
+    return 'cdp';
+  }
+  return settings?.inputBackend ?? 'auto';
+}
+
+async function attach(tabId: number): Promise<void> {
+  const timer = attachedTabs.get(tabId);
+  if (timer) {
+    clearTimeout(timer);
+  } else {
+    await chrome.debugger.attach({ tabId }, PROTOCOL_VERSION);
+    console.log(`🔌 [CDP] Attached debugger to tab ${tabId}`);
+  }
+  attachedTabs.set(tabId, setTimeout(() => void detachTrustedInput(tabId), IDLE_DETACH_MS));
+}
+
+function send(tabId: number, method: string, params: Record<string, unknown>): Promise<unknown> {
+  return chrome.debugger.sendCommand({ tabId }, method, params);
+}
+
+export async function detachTrustedInput(tabId: number): Promise<void> {
+  const timer = attachedTabs.get(tabId);
+  if (timer === undefined) return;
+  clearTimeout(timer);
+  attachedTabs.delete(tabId);
+  try {
+    await chrome.debugger.detach({ tabId });
+  } catch {
+    // Already detached (tab closed, navigated to a restricted page, user cancelled)
+  }
+}
+
+/**
+ * chrome.debugger.onDetach handler - forget tabs detached by Chrome or the user
+ */
+export function handleDebuggerDetach(source: chrome.debugger.Debuggee): void {
+  if (source.tabId === undefined) return;
+  const timer = attachedTabs.get(source.tabId);
+  if (timer) clearTimeout(timer);
+  attachedTabs.delete(source.tabId);
+}
+
+// Coordinates are CSS pixels relative to the top-level viewport
+export async function trustedClick(tabId: number, x: number, y: number): Promise<void> {
+  await attach(tabId);
+  await send(tabId, 'Input.dispatchMouseEvent', { type: 'mouseMoved', x, y });
+  await send(tabId, 'Input.dispatchMouseEvent', { type: 'mousePressed', x, y, button: 'left', buttons: 1, clickCount: 1 });
+  await send(tabId, 'Input.dispatchMouseEvent', { type: 'mouseReleased', x, y, button: 'left', buttons: 0, clickCount: 1 });
+}
+
+/**
+ * Insert text into the focused element. With replace, the existing content is
+ * selected first (editing command, so it works regardless of platform shortcuts).
+ */
+export async function trustedInsertText(
+  tabId: number,
+  text: string,
+  options: { replace?: boolean } = {}
+): Promise<void> {
+  await attach(tabId);
+  if (options.replace !== false) {
+    await send(tabId, 'Input.dispatchKeyEvent', { type: 'rawKeyDown', commands: ['selectAll'] });
+    await send(tabId, 'Input.dispatchKeyEvent', { type: 'keyUp' });
+  }
+  await send(tabId, 'Input.insertText', { text });
+}
+
+const NAMED_KEYS: Record<string, { code: string; keyCode: number; text?: string }> = {
+  Enter: { code: 'Enter', keyCode: 13, text: '\r' },
+  Tab: { code: 'Tab', keyCode: 9 },
+  Escape: { code: 'Escape', keyCode: 27 },
+  Backspace: { code: 'Backspace', keyCode: 8 },
+  Delete: { code: 'Delete', keyCode: 46 },
+  ArrowUp: { code: 'ArrowUp', keyCode: 38 },
+  ArrowDown: { code: 'ArrowDown', keyCode: 40 },
+  ArrowLeft: { code: 'ArrowLeft', keyCode: 37 },
+  ArrowRight: { code: 'ArrowRight', keyCode: 39 },
+  Home: { code: 'Home', keyCode: 36 },
+  End: { code: 'End', keyCode: 35 },
+  PageUp: { code: 'PageUp', keyCode: 33 },
+  PageDown: { code: 'PageDown', keyCode: 34 },
+  ' ': { code: 'Space', keyCode: 32, text: ' ' },
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  Return: 'Enter',
+  Esc: 'Escape',
+  Space: ' ',
+  Up: 'ArrowUp',
+  Down: 'ArrowDown',
+  Left: 'ArrowLeft',
+  Right: 'ArrowRight',
+};
+
+/**
+ * Map a DOM key name ("Enter", "a", "7") to the fields Input.dispatchKeyEvent needs
+ */
+export function getKeyDefinition(key: string): { key: string; code: string; keyCode: number; text?: string } {
+  const name = KEY_ALIASES[key] || key;
+  const named = NAMED_KEYS[name];
+  if (named) {
+    return { key: name, ...named };
+  }
+  if (name.length === 1) {
+    const upper = name.toUpperCase();
+    const code = /[A-Z]/.test(upper) ? `Key${upper}` : /[0-9]/.test(name) ? `Digit${name}` : '';
+    return { key: name, code, keyCode: upper.charCodeAt(0), text: name };
+  }
+  return { key: name, code: name, keyCode: 0 };
+}
+
+export async function trustedPressKey(tabId: number, key: string): Promise<void> {
+  const definition = getKeyDefinition(key);
+  const base = {
+    key: definition.key,
+    code: definition.code,
+    windowsVirtualKeyCode: definition.keyCode,
+    nativeVirtualKeyCode: definition.keyCode,
+  };
+  await attach(tabId);
+  // keyDown with text also produces the keypress/input; rawKeyDown is a bare key press
+  await send(tabId, 'Input.dispatchKeyEvent', definition.text
+    ? { ...base, type: 'keyDown', text: definition.text, unmodifiedText: definition.text }
+    : { ...base, type: 'rawKeyDown' });
+  await send(tabId, 'Input.dispatchKeyEvent', { ...base, type: 'keyUp' });
+}
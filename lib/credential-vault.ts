@@ -0,0 +1,318 @@
+// Credential Vault - logins the agent can type without ever seeing them
+// Credentials are stored encrypted (AES-GCM, key derived from a passphrase with PBKDF2)
+// and each one belongs to a single origin. The model only sees tokens such as
+// {{vault:github.password}}; the content script's fill action asks the background to
+// resolve them for the frame's own origin, so the value goes from the vault straight
+// into the field. The unlocked key lives in chrome.storage.session, which is cleared
+// when the browser closes and is not readable by content scripts.
+
+import { bytesToBase64 } from './file-upload';
+
+export interface CredentialSummary {
+  name: string; // Token prefix, e.g. "github" in {{vault:github.password}}
+  origin: string; // e.g. "https://github.com"
+  fields: string[]; // e.g. ["username", "password"]
+}
+
+export interface CredentialInput {
+  name: string;
+  origin: string;
+  fields: Record<string, string>;
+}
+
+interface EncryptedBlob {
+  iv: string;
+  data: string;
+}
+
+interface StoredCredential extends CredentialSummary, EncryptedBlob {}
+
+export interface StoredVault {
+  version: 1;
+  salt: string;
+  iterations: number;
+  check: EncryptedBlob; // Decrypts to VAULT_CHECK with the right passphrase
+  credentials: StoredCredential[];
+}
+
+export interface VaultResolution {
+  token: string;
+  origin: string;
+  resolved: boolean;
+  error?: string;
+}
+
+export interface VaultResolveResult {
+  value?: string; // Absent unless every token resolved
+  resolutions: VaultResolution[];
+  error?: string;
+}
+
+export const VAULT_TOKEN = /\{\{vault:([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]+)\}\}/g;
+const NAME = /^[A-Za-z0-9_-]+$/;
+const VAULT_CHECK = 'opulent-credential-vault';
+const PBKDF2_ITERATIONS = 310000;
+
+// ============================================
+// Storage
+// ============================================
+
+export interface VaultStore {
+  read(): Promise<StoredVault | undefined>;
+  write(vault: StoredVault | undefined): Promise<void>;
+  // Raw key of the unlocked vault, base64
+  readKey(): Promise<string | undefined>;
+  writeKey(key: string | undefined): Promise<void>;
+}
+
+const VAULT_KEY = 'opulentCredentialVault';
+const SESSION_KEY = 'opulentCredentialVaultKey';
+
+export function createChromeStorageVaultStore(): VaultStore {
+  return {
+    async read() {
+      const result = await chrome.storage.local.get([VAULT_KEY]);
+      return result[VAULT_KEY] as StoredVault | undefined;
+    },
+    async write(vault) {
+      if (vault) await chrome.storage.local.set({ [VAULT_KEY]: vault });
+      else await chrome.storage.local.remove(VAULT_KEY);
+    },
+    async readKey() {
+      const result = await chrome.storage.session.get([SESSION_KEY]);
+      return result[SESSION_KEY] as string | undefined;
+    },
+    async writeKey(key) {
+      if (key) await chrome.storage.session.set({ [SESSION_KEY]: key });
+      else await chrome.storage.session.remove(SESSION_KEY);
+    },
+  };
+}
+
+export function createMemoryVaultStore(): VaultStore {
+  let vault: StoredVault | undefined;
+  let key: string | undefined;
+  return {
+    async read() {
+      return vault;
+    },
+    async write(next) {
+      vault = next;
+    },
+    async readKey() {
+      return key;
+    },
+    async writeKey(next) {
+      key = next;
+    },
+  };
+}
+
+let defaultStore: VaultStore | null = null;
+
+export function getDefaultVaultStore(): VaultStore {
+  if (!defaultStore) {
+    defaultStore = typeof chrome !== 'undefined' && chrome.storage?.session
+      ? createChromeStorageVaultStore()
+      : createMemoryVaultStore();
+  }
+  return defaultStore;
+}
+
+// ============================================
+// Encryption
+// ============================================
+
+function base64ToBytes(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: base64ToBytes(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function importKey(raw: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', base64ToBytes(raw), 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+async function exportKey(key: CryptoKey): Promise<string> {
+  return bytesToBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+}
+
+async function encrypt(key: CryptoKey, text: string): Promise<EncryptedBlob> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(data)) };
+}
+
+async function decrypt(key: CryptoKey, blob: EncryptedBlob): Promise<string> {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(blob.iv) }, key, base64ToBytes(blob.data));
+  return new TextDecoder().decode(data);
+}
+
+async function unlockedKey(store: VaultStore): Promise<CryptoKey> {
+  const raw = await store.readKey();
+  if (!raw) throw new Error('Credential vault is locked; unlock it in Settings');
+  return importKey(raw);
+}
+
+// ============================================
+// Vault
+// ============================================
+
+export function normalizeOrigin(origin: string): string {
+  const url = new URL(origin.includes('://') ? origin : `https://${origin}`);
+  return url.origin;
+}
+
+/**
+ * Create an empty vault for a passphrase, replacing any existing one, and unlock it
+ */
+export async function createVault(store: VaultStore, passphrase: string): Promise<void> {
+  if (passphrase.length < 8) throw new Error('Use a passphrase of at least 8 characters');
+  const salt = bytesToBase64(crypto.getRandomValues(new Uint8Array(16)));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  await store.write({ version: 1, salt, iterations: PBKDF2_ITERATIONS, check: await encrypt(key, VAULT_CHECK), credentials: [] });
+  await store.writeKey(await exportKey(key));
+}
+
+export async function unlockVault(store: VaultStore, passphrase: string): Promise<void> {
+  const vault = await store.read();
+  if (!vault) throw new Error('No credential vault yet');
+  const key = await deriveKey(passphrase, vault.salt, vault.iterations);
+  const check = await decrypt(key, vault.check).catch(() => null);
+  if (check !== VAULT_CHECK) throw new Error('Wrong passphrase');
+  await store.writeKey(await exportKey(key));
+}
+
+export async function lockVault(store: VaultStore): Promise<void> {
+  await store.writeKey(undefined);
+}
+
+export async function getVaultStatus(store: VaultStore): Promise<'none' | 'locked' | 'unlocked'> {
+  if (!(await store.read())) return 'none';
+  return (await store.readKey()) ? 'unlocked' : 'locked';
+}
+
+/**
+ * Names, origins and field names only; readable while the vault is locked
+ */
+export async function listCredentials(store: VaultStore): Promise<CredentialSummary[]> {
+  const vault = await store.read();
+  return (vault?.credentials ?? []).map(({ name, origin, fields }) => ({ name, origin, fields }));
+}
+
+export async function putCredential(store: VaultStore, credential: CredentialInput): Promise<CredentialSummary> {
+  const vault = await store.read();
+  if (!vault) throw new Error('No credential vault yet');
+  if (!NAME.test(credential.name)) throw new Error('Names may only use letters, digits, "-" and "_"');
+  const fields = Object.keys(credential.fields).filter(field => credential.fields[field] !== '');
+  if (fields.length === 0 || !fields.every(field => NAME.test(field))) {
+    throw new Error('Add at least one field; field names may only use letters, digits, "-" and "_"');
+  }
+
+  const key = await unlockedKey(store);
+  const values = Object.fromEntries(fields.map(field => [field, credential.fields[field]]));
+  const stored: StoredCredential = {
+    name: credential.name,
+    origin: normalizeOrigin(credential.origin),
+    fields,
+    ...(await encrypt(key, JSON.stringify(values))),
+  };
+  await store.write({
+    ...vault,
+    credentials: [...vault.credentials.filter(entry => entry.name !== credential.name), stored],
+  });
+  return { name: stored.name, origin: stored.origin, fields };
+}
+
+export async function deleteCredential(store: VaultStore, name: string): Promise<void> {
+  const vault = await store.read();
+  if (!vault) return;
+  await store.write({ ...vault, credentials: vault.credentials.filter(entry => entry.name !== name) });
+}
+
+export function hasVaultTokens(text: unknown): boolean {
+  return typeof text === 'string' && new RegExp(VAULT_TOKEN.source).test(text);
+}
+
+/**
+ * Where resolutions are logged, by token and origin only. GuardrailsSystem fits.
+ */
+export interface VaultAuditLog {
+  recordCredentialUse(tool: string, use: VaultResolution & { runId?: string }): void;
+}
+
+/**
+ * Replace every vault token in text with its value, for a field on `origin`. A token
+ * for another origin, an unknown field or a locked vault fails the whole text, so a
+ * field never gets half a login. With `audit`, every resolution is logged as it is
+ * decided, whatever the caller does with the value afterwards.
+ */
+export async function resolveVaultTokens(
+  store: VaultStore,
+  text: string,
+  origin: string,
+  audit?: { log: VaultAuditLog; tool: string; runId?: string }
+): Promise<VaultResolveResult> {
+  const tokens = Array.from(new Set(Array.from(text.matchAll(VAULT_TOKEN), match => match[0])));
+  if (tokens.length === 0) return { value: text, resolutions: [] };
+
+  const vault = await store.read();
+  let key: CryptoKey | null = null;
+  let lockedError: string | undefined;
+  try {
+    key = await unlockedKey(store);
+  } catch (error) {
+    lockedError = (error as Error).message;
+  }
+
+  const values = new Map<string, string>();
+  const resolutions: VaultResolution[] = [];
+  for (const token of tokens) {
+    const [, name, field] = token.match(new RegExp(VAULT_TOKEN.source))!;
+    const credential = vault?.credentials.find(entry => entry.name === name);
+    let error: string | undefined;
+    if (!credential || !credential.fields.includes(field)) {
+      error = `No vault credential "${name}" with a "${field}" field`;
+    } else if (credential.origin !== origin) {
+      error = `Vault credential "${name}" is for ${credential.origin}, not ${origin}`;
+    } else if (!key) {
+      error = lockedError;
+    } else {
+      try {
+        const fields = JSON.parse(await decrypt(key, credential));
+        values.set(token, fields[field]);
+      } catch (decryptError) {
+        error = `Could not decrypt vault credential "${name}": ${(decryptError as Error).message}`;
+      }
+    }
+    resolutions.push({ token, origin, resolved: !error, error });
+  }
+  for (const resolution of resolutions) {
+    audit?.log.recordCredentialUse(audit.tool, { ...resolution, runId: audit.runId });
+  }
+
+  const failed = resolutions.find(resolution => !resolution.resolved);
+  if (failed) return { resolutions, error: failed.error };
+  return { value: text.replace(VAULT_TOKEN, token => values.get(token) ?? token), resolutions };
+}
+
+/**
+ * Prompt lines naming the tokens the model can type
+ */
+export function describeVaultTokens(credentials: CredentialSummary[]): string {
+  return credentials
+    .map(credential => `- ${credential.fields.map(field => `{{vault:${credential.name}.${field}}}`).join(', ')} (only on ${credential.origin})`)
+    .join('\n');
+}
@@ -0,0 +1,342 @@
+// Demonstrations - Tasks the user shows the agent by doing them
+// content.ts records the user's own clicks, typing, selects, keys and scrolls as
+// DemonstrationEvents (navigations come from the background). A saved demonstration is
+// either a prompt template for the composer or a few-shot example that the planner
+// gets for the same site.
+
+import type { DemonstrationEvent, ElementDescriptor } from '../types';
+
+export type DemonstrationMode = 'template' | 'few-shot';
+
+export interface SavedDemonstration {
+  id: string;
+  name: string;
+  host: string;
+  startUrl: string;
+  events: DemonstrationEvent[];
+  mode: DemonstrationMode;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Same shape as the composer's PromptTemplate
+export interface DemonstrationTemplate {
+  id: string;
+  name: string;
+  prompt: string;
+  description?: string;
+  category?: string;
+}
+
+// Navigations this soon after a click or key press are that action's result
+const FOLLOW_UP_NAVIGATION_MS = 5000;
+const FEW_SHOT_MAX_CHARS = 3000;
+
+// ============================================
+// Storage
+// ============================================
+
+export interface DemonstrationStore {
+  list(): Promise<SavedDemonstration[]>;
+  get(id: string): Promise<SavedDemonstration | undefined>;
+  put(demonstration: SavedDemonstration): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+const STORAGE_KEY = 'opulentDemonstrations';
+
+export function createChromeStorageDemonstrationStore(): DemonstrationStore {
+  const readAll = async (): Promise<Record<string, SavedDemonstration>> => {
+    const result = await chrome.storage.local.get([STORAGE_KEY]);
+    return (result[STORAGE_KEY] as Record<string, SavedDemonstration>) || {};
+  };
+  return {
+    async list() {
+      return Object.values(await readAll()).sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+    async get(id) {
+      return (await readAll())[id];
+    },
+    async put(demonstration) {
+      const all = await readAll();
+      await chrome.storage.local.set({ [STORAGE_KEY]: { ...all, [demonstration.id]: demonstration } });
+    },
+    async delete(id) {
+      const all = await readAll();
+      delete all[id];
+      await chrome.storage.local.set({ [STORAGE_KEY]: all });
+    },
+  };
+}
+
+export function createMemoryDemonstrationStore(): DemonstrationStore {
+  const demonstrations = new Map<string, SavedDemonstration>();
+  return {
+    async list() {
+      return Array.from(demonstrations.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+    async get(id) {
+      return demonstrations.get(id);
+    },
+    async put(demonstration) {
+      demonstrations.set(demonstration.id, demonstration);
+    },
+    async delete(id) {
+      demonstrations.delete(id);
+    },
+  };
+}
+
+let defaultStore: DemonstrationStore | null = null;
+
+export function getDefaultDemonstrationStore(): DemonstrationStore {
+  if (!defaultStore) {
+    defaultStore = typeof chrome !== 'undefined' && chrome.storage?.local
+      ? createChromeStorageDemonstrationStore()
+      : createMemoryDemonstrationStore();
+  }
+  return defaultStore;
+}
+
+// ============================================
+// Describing and compacting events
+// ============================================
+
+export function getDemonstrationHost(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+function describeElement(element?: ElementDescriptor): string {
+  if (!element) return 'the page';
+  const label = element.name || element.attributes?.placeholder || element.text;
+  const kind = element.role || element.tag;
+  const base = label ? `${kind} "${label}"` : `${kind} ${element.selector}`;
+  return element.context && element.context !== label ? `${base} (in "${element.context}")` : base;
+}
+
+function isFollowUpNavigation(previous: DemonstrationEvent | undefined, event: DemonstrationEvent): boolean {
+  return event.type === 'navigate'
+    && !!previous
+    && (previous.type === 'click' || previous.type === 'keypress')
+    && event.timestamp - previous.timestamp <= FOLLOW_UP_NAVIGATION_MS;
+}
+
+/**
+ * One line for the sidepanel timeline and the template prompt
+ */
+export function describeDemonstrationEvent(event: DemonstrationEvent): string {
+  switch (event.type) {
+    case 'click':
+      return `Click ${describeElement(event.element)}`;
+    case 'type':
+      return event.sensitive
+        ? `Type the secret value into ${describeElement(event.element)}`
+        : `Type "${event.value ?? ''}" into ${describeElement(event.element)}`;
+    case 'select':
+      return `Select "${event.value ?? ''}" in ${describeElement(event.element)}`;
+    case 'keypress':
+      return `Press ${event.value}${event.element ? ` in ${describeElement(event.element)}` : ''}`;
+    case 'scroll':
+      return `Scroll ${event.scroll?.direction ?? 'down'}`;
+    case 'navigate':
+      return `Go to ${event.url}`;
+  }
+}
+
+/**
+ * Drop the noise a human leaves behind: repeated scrolls, every intermediate
+ * value of a field, the click that only focused the field, redirect chains
+ * and navigations to the page already shown
+ */
+export function compactDemonstration(events: DemonstrationEvent[]): DemonstrationEvent[] {
+  const kept: DemonstrationEvent[] = [];
+  let currentUrl = '';
+
+  for (const event of events) {
+    const previous = kept[kept.length - 1];
+
+    if (event.type === 'navigate') {
+      if (event.url === currentUrl) continue;
+      currentUrl = event.url;
+      if (previous?.type === 'navigate') {
+        kept[kept.length - 1] = event;
+        continue;
+      }
+      kept.push(event);
+      continue;
+    }
+    if (!currentUrl) currentUrl = event.url;
+
+    if (event.type === 'scroll' && previous?.type === 'scroll') {
+      kept[kept.length - 1] = event;
+      continue;
+    }
+    if (event.type === 'type' && previous?.type === 'type' && previous.element?.selector === event.element?.selector) {
+      kept[kept.length - 1] = event;
+      continue;
+    }
+    if (event.type === 'type' && previous?.type === 'click' && previous.element?.selector === event.element?.selector) {
+      kept[kept.length - 1] = event;
+      continue;
+    }
+    kept.push(event);
+  }
+
+  return kept;
+}
+
+// ============================================
+// Templates and few-shot examples
+// ============================================
+
+/**
+ * Create a saved demonstration from a finished recording
+ */
+export function createDemonstration(
+  events: DemonstrationEvent[],
+  options: { name: string; mode: DemonstrationMode; startUrl?: string }
+): SavedDemonstration {
+  const compacted = compactDemonstration(events);
+  const startUrl = options.startUrl || compacted[0]?.url || '';
+  const now = Date.now();
+  return {
+    id: `demo_${now}_${Math.random().toString(36).substring(2, 8)}`,
+    name: options.name.trim() || `Demonstration on ${getDemonstrationHost(startUrl) || 'page'}`,
+    host: getDemonstrationHost(startUrl),
+    startUrl,
+    events: compacted,
+    mode: options.mode,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function numberedSteps(demonstration: SavedDemonstration, render: (event: DemonstrationEvent, followUp: boolean) => string): string {
+  let step = 0;
+  return demonstration.events
+    .map((event, index) => {
+      const followUp = isFollowUpNavigation(demonstration.events[index - 1], event);
+      return followUp ? `   → ${render(event, true)}` : `${++step}. ${render(event, false)}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Turn a demonstration into a composer template that asks the agent to repeat it
+ */
+export function demonstrationToTemplate(demonstration: SavedDemonstration): DemonstrationTemplate {
+  const steps = numberedSteps(demonstration, (event, followUp) =>
+    followUp ? `lands on ${event.url}` : describeDemonstrationEvent(event)
+  );
+  const hasSecrets = demonstration.events.some(event => event.sensitive);
+  const prompt = [
+    `Repeat this task I demonstrated on ${demonstration.host || 'the site'}, starting at ${demonstration.startUrl}:`,
+    steps,
+    '',
+    'Use the same fields and buttons; change the values if I say so below.',
+    hasSecrets ? 'Ask me for any secret values instead of guessing them.' : '',
+  ].filter(Boolean).join('\n');
+
+  return {
+    id: `template_${demonstration.id}`,
+    name: demonstration.name,
+    prompt,
+    description: `${demonstration.events.length} recorded steps on ${demonstration.host}`,
+    category: 'Recorded',
+  };
+}
+
+function planTarget(element?: ElementDescriptor): string {
+  if (!element) return 'page';
+  return `${describeElement(element)} [selector: ${element.selector}]`;
+}
+
+/**
+ * Render a demonstration in the planner's action vocabulary
+ */
+export function formatFewShotExample(demonstration: SavedDemonstration): string {
+  const steps = numberedSteps(demonstration, (event, followUp) => {
+    if (followUp) return `page changes to ${event.url}`;
+    switch (event.type) {
+      case 'navigate':
+        return `navigate(${event.url})`;
+      case 'click':
+        return `click(${planTarget(event.element)})`;
+      case 'type':
+        return `type(${planTarget(event.element)} | ${event.sensitive ? '<secret from user>' : event.value ?? ''})`;
+      case 'select':
+        return `click(${planTarget(event.element)}) then choose "${event.value ?? ''}"`;
+      case 'keypress':
+        return `press_key(${event.value})`;
+      case 'scroll':
+        return `scroll(${event.scroll?.direction ?? 'down'})`;
+    }
+  });
+  return `Example "${demonstration.name}" on ${demonstration.host}, starting at ${demonstration.startUrl}:\n${steps}`;
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2));
+}
+
+function hostMatches(demoHost: string, host: string): boolean {
+  return !!demoHost && !!host && (demoHost === host || host.endsWith(`.${demoHost}`) || demoHost.endsWith(`.${host}`));
+}
+
+/**
+ * Few-shot demonstrations recorded on the same site, the ones sharing the most
+ * words with the query first, then the most recent
+ */
+export function selectFewShotExamples(
+  demonstrations: SavedDemonstration[],
+  context: { url?: string; query: string },
+  limit = 2
+): SavedDemonstration[] {
+  const host = getDemonstrationHost(context.url || '') || hostFromQuery(context.query);
+  if (!host) return [];
+  const queryWords = words(context.query);
+  const overlap = (demo: SavedDemonstration) =>
+    [...words(demo.name)].filter(word => queryWords.has(word)).length;
+
+  return demonstrations
+    .filter(demo => demo.mode === 'few-shot' && demo.events.length > 0 && hostMatches(demo.host, host))
+    .sort((a, b) => overlap(b) - overlap(a) || b.updatedAt - a.updatedAt)
+    .slice(0, limit);
+}
+
+// "book a table on opentable.com" has no current URL yet but still names the site
+function hostFromQuery(query: string): string {
+  const match = query.match(/\b(?:https?:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})(?:\/\S*)?/i);
+  return match ? getDemonstrationHost(`https://${match[1]}`) : '';
+}
+
+/**
+ * The planner prompt section with the examples, cut to whole examples under maxChars
+ */
+export function buildFewShotSection(demonstrations: SavedDemonstration[], maxChars = FEW_SHOT_MAX_CHARS): string {
+  const header = 'Demonstrations the user recorded on this site (follow their flow and selectors where they fit the task):';
+  const examples: string[] = [];
+  let length = header.length;
+  for (const demo of demonstrations) {
+    const example = formatFewShotExample(demo);
+    if (length + example.length + 2 > maxChars) break;
+    examples.push(example);
+    length += example.length + 2;
+  }
+  return examples.length > 0 ? [header, ...examples].join('\n\n') : '';
+}
+
+/**
+ * Few-shot section for a planning request, or undefined when nothing was recorded for the site
+ */
+export async function loadDemonstrationsForPlanning(
+  context: { url?: string; query: string },
+  store: DemonstrationStore = getDefaultDemonstrationStore()
+): Promise<string | undefined> {
+  const examples = selectFewShotExamples(await store.list(), context);
+  return buildFewShotSection(examples) || undefined;
+}
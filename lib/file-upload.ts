@@ -0,0 +1,55 @@
+// File Upload - composer attachments for the uploadFile action
+// The model names the attachments it wants uploaded; the sidepanel reads those files
+// and sends their bytes (base64) with the action, so file contents never pass through
+// the model or the tool history.
+
+import type { UploadFilePayload } from '../types';
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // Across all files of one upload
+
+export interface AttachmentInfo {
+  name: string;
+  type: string;
+  size: number;
+}
+
+export function describeAttachments(files: File[]): AttachmentInfo[] {
+  return files.map(file => ({ name: file.name, type: file.type, size: file.size }));
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so String.fromCharCode doesn't exceed the argument limit on large files
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Attachments by name (case-insensitive), read for upload. Throws on a name that
+ * isn't attached or when the files exceed MAX_UPLOAD_BYTES together.
+ */
+export async function resolveUploadFiles(attachments: File[], names: string[] | undefined): Promise<UploadFilePayload[]> {
+  if (!names || names.length === 0) {
+    throw new Error('Name the attached files to upload');
+  }
+  const files = names.map(name => {
+    const file = attachments.find(candidate => candidate.name.toLowerCase() === name.trim().toLowerCase());
+    if (!file) {
+      const available = attachments.map(candidate => candidate.name).join(', ') || 'none';
+      throw new Error(`No attachment named "${name}" (attached: ${available})`);
+    }
+    return file;
+  });
+  const total = files.reduce((sum, file) => sum + file.size, 0);
+  if (total > MAX_UPLOAD_BYTES) {
+    throw new Error(`Attachments are too large to upload (${Math.ceil(total / 1024 / 1024)} MB, limit ${MAX_UPLOAD_BYTES / 1024 / 1024} MB)`);
+  }
+  return Promise.all(files.map(async file => ({
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    data: bytesToBase64(new Uint8Array(await file.arrayBuffer())),
+  })));
+}
@@ -59,7 +59,7 @@ export interface RateLimitConfig {
  * Guardrail violation
  */
 export interface GuardrailViolation {
-  type: 'permission' | 'rate_limit' | 'restriction' | 'safety';
+  type: 'permission' | 'rate_limit' | 'restriction' | 'safety' | 'prompt_injection';
   tool: string;
   args: any;
   message: string;
@@ -74,12 +74,65 @@ export interface AuditLogEntry {
   timestamp: number;
   tool: string;
   args: any;
-  result: 'allowed' | 'blocked' | 'requires_approval';
+  result: 'allowed' | 'blocked' | 'requires_approval' | 'flagged';
   violation?: GuardrailViolation;
   user?: string;
   metadata?: Record<string, any>;
+  runId?: string; // Workflow run the entry was logged during
+  origin?: string; // Page origin the tool acted on
 }
 
+/**
+ * Audit log filters, shared by the live log and the persisted one (lib/audit-store.ts)
+ */
+export interface AuditLogFilters {
+  tool?: string;
+  origin?: string;
+  result?: AuditLogEntry['result'];
+  severity?: GuardrailViolation['severity'];
+  runId?: string;
+  since?: number;
+  until?: number;
+}
+
+export function matchesAuditFilters(entry: AuditLogEntry, filters: AuditLogFilters = {}): boolean {
+  if (filters.tool && entry.tool !== filters.tool) return false;
+  if (filters.origin && entry.origin !== filters.origin) return false;
+  if (filters.result && entry.result !== filters.result) return false;
+  if (filters.severity && entry.violation?.severity !== filters.severity) return false;
+  if (filters.runId && entry.runId !== filters.runId) return false;
+  if (filters.since && entry.timestamp < filters.since) return false;
+  if (filters.until && entry.timestamp > filters.until) return false;
+  return true;
+}
+
+function originOf(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !/^https?:\/\//i.test(value)) return undefined;
+  try {
+    return new URL(value).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Tools that need approval once untrusted content has tried to instruct the agent
+ * (see lib/prompt-injection.ts): anything that sends data, acts on a form or leaves the page
+ */
+export const INJECTION_ESCALATED_TOOLS = [
+  'navigate',
+  'openTab',
+  'click',
+  'type',
+  'pressKey',
+  'keyCombo',
+  'dragDrop',
+  'selectOption',
+  'setChecked',
+  'setDate',
+  'uploadFile',
+];
+
 /**
  * Predefined roles with permissions
  */
@@ -105,7 +158,7 @@ export const PredefinedRoles: Record<string, Role> = {
         ],
       },
       {
-        tool: ['navigate', 'click', 'type', 'screenshot'],
+        tool: ['navigate', 'click', 'type', 'screenshot', 'selectOption', 'setChecked', 'setDate', 'uploadFile'],
         level: 'blocked',
       },
     ],
@@ -169,6 +222,31 @@ export const PredefinedRoles: Record<string, Role> = {
         tool: ['hover', 'dragDrop', 'clearInput'],
         level: 'public',
       },
+      {
+        tool: ['selectOption', 'setChecked', 'setDate'],
+        level: 'public',
+      },
+      {
+        tool: 'uploadFile',
+        level: 'restricted',
+        conditions: [
+          {
+            type: 'size_limit',
+            check: (args) => (args.attachments?.length || 0) <= 5,
+            message: 'Uploading more than 5 files at once requires approval',
+          },
+          {
+            type: 'sensitive_data',
+            check: (args) => {
+              // Keys, certificates and env files rarely belong in a web form
+              const secretFiles = [/\.(pem|key|p12|pfx|kdbx)$/i, /(^|[\/])\.env/i, /id_(rsa|ed25519|ecdsa)/i];
+              const names: string[] = args.attachments || [];
+              return !names.some((name) => secretFiles.some((pattern) => pattern.test(name)));
+            },
+            message: 'Uploading key or credential files requires approval',
+          },
+        ],
+      },
       {
         tool: 'keyCombo',
         level: 'restricted',
@@ -235,6 +313,8 @@ export const PredefinedRoles: Record<string, Role> = {
 export class GuardrailsSystem {
   private role: Role;
   private auditLog: AuditLogEntry[] = [];
+  private auditContext: { runId?: string; origin?: string } = {};
+  private auditSink?: (entry: AuditLogEntry) => void;
   private rateLimitTracker: Map<string, number[]> = new Map();
   private circuitBreakers: Map<string, CircuitBreaker> = new Map();
 
@@ -416,6 +496,69 @@ export class GuardrailsSystem {
     return { allowed: true };
   }
 
+  /**
+   * Audit page content that tried to instruct the agent. The flag itself belongs to
+   * the run that read the page (see InjectionGuard in lib/prompt-injection).
+   */
+  recordContentFlag(source: string, violation: GuardrailViolation): void {
+    this.logAudit({
+      timestamp: violation.timestamp,
+      tool: violation.tool,
+      args: violation.args,
+      result: 'flagged',
+      violation,
+      metadata: { source },
+    });
+  }
+
+  /**
+   * Approval requirement for a tool call in a run that has read content flagged from
+   * `flaggedSources`, without the role's permissions
+   */
+  checkContentEscalation(
+    tool: string,
+    args: any = {},
+    flaggedSources: string[] = []
+  ): { allowed: boolean; reason?: string; requiresApproval?: boolean } {
+    if (flaggedSources.length === 0 || !INJECTION_ESCALATED_TOOLS.includes(tool)) {
+      return { allowed: true };
+    }
+
+    const reason = `Content from ${flaggedSources.join(', ')} tried to instruct the agent; ${tool} needs approval`;
+    this.logAudit({
+      timestamp: Date.now(),
+      tool,
+      args,
+      result: 'requires_approval',
+      metadata: { flaggedSources },
+    });
+    return { allowed: true, requiresApproval: true, reason };
+  }
+
+  /**
+   * Record a credential vault token resolved (or refused) for a field. Only the token
+   * and origin are logged, never the value.
+   */
+  recordCredentialUse(
+    tool: string,
+    use: { token: string; origin: string; resolved: boolean; error?: string; runId?: string }
+  ): void {
+    const timestamp = Date.now();
+    const args = { token: use.token, origin: use.origin };
+    this.logAudit({
+      timestamp,
+      runId: use.runId,
+      origin: use.origin,
+      tool,
+      args,
+      result: use.resolved ? 'allowed' : 'blocked',
+      violation: use.resolved
+        ? undefined
+        : { type: 'restriction', tool, args, message: use.error || 'Credential not resolved', severity: 'high', timestamp },
+      metadata: { credentialVault: true },
+    });
+  }
+
   /**
    * Find permission for tool
    */
@@ -536,41 +679,49 @@ export class GuardrailsSystem {
     return { allowed: true };
   }
 
+  /**
+   * Run and page that following entries belong to; an entry with a URL argument
+   * uses that URL's origin instead
+   */
+  setAuditContext(context: { runId?: string; origin?: string }): void {
+    this.auditContext = { ...this.auditContext, ...context };
+  }
+
+  /**
+   * Receive every entry as it is logged, e.g. to persist it (lib/audit-store.ts)
+   */
+  setAuditSink(sink?: (entry: AuditLogEntry) => void): void {
+    this.auditSink = sink;
+  }
+
   /**
    * Log audit entry
    */
   private logAudit(entry: AuditLogEntry): void {
-    this.auditLog.push(entry);
+    const contextual: AuditLogEntry = {
+      ...entry,
+      runId: entry.runId ?? this.auditContext.runId,
+      origin: entry.origin ?? originOf(entry.args?.url) ?? this.auditContext.origin,
+    };
+    this.auditLog.push(contextual);
 
     // Keep only last 1000 entries
     if (this.auditLog.length > 1000) {
       this.auditLog = this.auditLog.slice(-1000);
     }
+
+    try {
+      this.auditSink?.(contextual);
+    } catch (error) {
+      console.warn('⚠️ [Guardrails] Audit sink failed:', error);
+    }
   }
 
   /**
    * Get audit log
    */
-  getAuditLog(filters?: {
-    tool?: string;
-    result?: 'allowed' | 'blocked' | 'requires_approval';
-    since?: number;
-  }): AuditLogEntry[] {
-    let log = this.auditLog;
-
-    if (filters) {
-      if (filters.tool) {
-        log = log.filter((entry) => entry.tool === filters.tool);
-      }
-      if (filters.result) {
-        log = log.filter((entry) => entry.result === filters.result);
-      }
-      if (filters.since) {
-        log = log.filter((entry) => entry.timestamp >= filters.since);
-      }
-    }
-
-    return log;
+  getAuditLog(filters?: AuditLogFilters): AuditLogEntry[] {
+    return filters ? this.auditLog.filter((entry) => matchesAuditFilters(entry, filters)) : this.auditLog;
   }
 
   /**
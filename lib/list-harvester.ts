@@ -0,0 +1,153 @@
+// List Harvester - every item of a feed, search results page or "Load more" list in one call
+// The background drives the loop: content.ts HARVEST_COLLECT reads the items currently in
+// the container, HARVEST_ADVANCE scrolls it or clicks "Load more" and waits for the
+// container to change, or reports a "Next" link that the background follows with
+// navigateAndWait. Items are deduplicated by a hash of their content rather than by
+// element, since virtualized lists recycle nodes and paginated pages reuse refs.
+
+export interface HarvestItemSnapshot {
+  ref: string; // Valid on the page the item was collected from
+  text: string;
+  links?: string[];
+}
+
+export interface HarvestedItem extends HarvestItemSnapshot {
+  hash: string;
+  page: number; // 1 for the starting page, +1 per followed "Next" link
+}
+
+export interface HarvestCollectResult {
+  success?: boolean;
+  error?: string;
+  items?: HarvestItemSnapshot[];
+  selector?: string; // Container selector, to find it again after a navigation
+}
+
+export interface HarvestAdvanceResult {
+  action: 'load-more' | 'scroll' | 'next-page' | 'none';
+  changed: boolean; // The container changed (or the next page loaded) before the wait ran out
+  url?: string; // Next page URL, when the "Next" control is a link to another document
+  error?: string;
+}
+
+export interface HarvestDriver {
+  collect(): Promise<HarvestCollectResult>;
+  advance(): Promise<HarvestAdvanceResult>;
+}
+
+export interface HarvestOptions {
+  maxItems?: number;
+  timeoutMs?: number;
+  maxIdleRounds?: number; // Rounds in a row without a new item before giving up
+  abortSignal?: AbortSignal;
+  now?: () => number;
+  onProgress?: (items: HarvestedItem[]) => void;
+}
+
+export type HarvestStopReason = 'max-items' | 'timeout' | 'no-progress' | 'end-of-list' | 'aborted' | 'error';
+
+export interface HarvestResult {
+  items: HarvestedItem[];
+  rounds: number;
+  pages: number;
+  stoppedBecause: HarvestStopReason;
+  error?: string;
+  duration: number;
+}
+
+export const DEFAULT_HARVEST_MAX_ITEMS = 200;
+export const MAX_HARVEST_ITEMS = 2000;
+export const DEFAULT_HARVEST_TIMEOUT_MS = 60000;
+export const MAX_HARVEST_TIMEOUT_MS = 120000;
+export const DEFAULT_HARVEST_IDLE_ROUNDS = 3;
+
+/**
+ * FNV-1a hash of an item's normalized text and links
+ */
+export function hashItemContent(item: Pick<HarvestItemSnapshot, 'text' | 'links'>): string {
+  const content = `${item.text.replace(/\s+/g, ' ').trim().toLowerCase()}\n${(item.links || []).join('\n')}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function clamp(value: number | undefined, fallback: number, max: number): number {
+  return value && Number.isFinite(value) && value > 0 ? Math.min(value, max) : fallback;
+}
+
+/**
+ * Collect, advance, repeat: until enough items, the time limit, several rounds without
+ * new items, or a list with nothing left to load
+ */
+export async function harvestList(driver: HarvestDriver, options: HarvestOptions = {}): Promise<HarvestResult> {
+  const now = options.now ?? Date.now;
+  const startTime = now();
+  const maxItems = clamp(options.maxItems, DEFAULT_HARVEST_MAX_ITEMS, MAX_HARVEST_ITEMS);
+  const timeoutMs = clamp(options.timeoutMs, DEFAULT_HARVEST_TIMEOUT_MS, MAX_HARVEST_TIMEOUT_MS);
+  const maxIdleRounds = clamp(options.maxIdleRounds, DEFAULT_HARVEST_IDLE_ROUNDS, 20);
+
+  const seen = new Set<string>();
+  const result: HarvestResult = { items: [], rounds: 0, pages: 1, stoppedBecause: 'end-of-list', duration: 0 };
+  let idleRounds = 0;
+
+  try {
+    while (true) {
+      if (options.abortSignal?.aborted) {
+        result.stoppedBecause = 'aborted';
+        break;
+      }
+
+      const collected = await driver.collect();
+      if (collected.success === false) {
+        throw new Error(collected.error || 'Could not read the list');
+      }
+      result.rounds++;
+
+      let added = 0;
+      for (const item of collected.items || []) {
+        if (result.items.length >= maxItems) break;
+        const hash = hashItemContent(item);
+        if (seen.has(hash)) continue;
+        seen.add(hash);
+        result.items.push({ ...item, hash, page: result.pages });
+        added++;
+      }
+      if (added > 0) options.onProgress?.(result.items);
+      idleRounds = added > 0 ? 0 : idleRounds + 1;
+
+      if (result.items.length >= maxItems) {
+        result.stoppedBecause = 'max-items';
+        break;
+      }
+      if (now() - startTime >= timeoutMs) {
+        result.stoppedBecause = 'timeout';
+        break;
+      }
+      if (idleRounds >= maxIdleRounds) {
+        result.stoppedBecause = 'no-progress';
+        break;
+      }
+
+      const advance = await driver.advance();
+      if (advance.error) {
+        throw new Error(advance.error);
+      }
+      if (advance.action === 'none') {
+        result.stoppedBecause = 'end-of-list';
+        break;
+      }
+      if (advance.action === 'next-page' && advance.changed) {
+        result.pages++;
+      }
+    }
+  } catch (error) {
+    result.stoppedBecause = 'error';
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  result.duration = now() - startTime;
+  return result;
+}
@@ -0,0 +1,533 @@
+// Macros - Record a successful run once, replay it without the model
+// A macro is the run's successful browser actions with their concrete inputs. Element
+// targets keep the snapshot ref, any selector, and the element's role and name as a
+// text fallback; typed text and URL query values found in the user's request become
+// parameters. Replay runs the steps through the browser toolset directly and only
+// hands a step to the model when every recorded way of targeting it fails.
+
+import type { Message } from '../types';
+import { logEvent } from './braintrust';
+import { toolDebug } from './debug-logger';
+
+export type MacroParameterType = 'text' | 'number' | 'date' | 'url';
+
+export interface MacroParameter {
+  name: string; // Placeholder name, used as {{name}} in step inputs
+  label: string;
+  type: MacroParameterType;
+  defaultValue: string;
+}
+
+export interface MacroTarget {
+  ref?: string;
+  selector?: string;
+  role?: string;
+  name?: string; // Accessible name from the snapshot, matched when refs and selectors miss
+  session?: string; // Snapshot session the ref came from; refs are renumbered on every page load
+}
+
+export interface MacroStep {
+  id: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  target?: MacroTarget;
+  description: string;
+}
+
+export interface Macro {
+  id: string;
+  name: string;
+  description?: string;
+  sourceQuery: string;
+  parameters: MacroParameter[];
+  steps: MacroStep[];
+  createdAt: number;
+  updatedAt: number;
+  lastRunAt?: number;
+  runCount: number;
+}
+
+type ToolExecution = NonNullable<Message['toolExecutions']>[number];
+
+// Actions with inputs that mean the same thing in a later session. Tab ids don't,
+// and read-only tools (snapshots, page context, screenshots) are re-taken as needed.
+const REPLAYABLE_TOOLS = new Set([
+  'navigate', 'click', 'type', 'scroll', 'pressKey', 'keyCombo', 'wait',
+  'openTab', 'goBack', 'goForward', 'reload',
+]);
+
+const URL_FIELDS = new Set(['url']);
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+// ============================================
+// Storage
+// ============================================
+
+export interface MacroStore {
+  list(): Promise<Macro[]>;
+  get(id: string): Promise<Macro | undefined>;
+  put(macro: Macro): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+const STORAGE_KEY = 'opulentMacros';
+
+export function createChromeStorageMacroStore(): MacroStore {
+  const readAll = async (): Promise<Record<string, Macro>> => {
+    const result = await chrome.storage.local.get([STORAGE_KEY]);
+    return (result[STORAGE_KEY] as Record<string, Macro>) || {};
+  };
+  return {
+    async list() {
+      return Object.values(await readAll()).sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+    async get(id) {
+      return (await readAll())[id];
+    },
+    async put(macro) {
+      const all = await readAll();
+      await chrome.storage.local.set({ [STORAGE_KEY]: { ...all, [macro.id]: macro } });
+    },
+    async delete(id) {
+      const all = await readAll();
+      delete all[id];
+      await chrome.storage.local.set({ [STORAGE_KEY]: all });
+    },
+  };
+}
+
+export function createMemoryMacroStore(): MacroStore {
+  const macros = new Map<string, Macro>();
+  return {
+    async list() {
+      return Array.from(macros.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+    async get(id) {
+      return macros.get(id);
+    },
+    async put(macro) {
+      macros.set(macro.id, macro);
+    },
+    async delete(id) {
+      macros.delete(id);
+    },
+  };
+}
+
+let defaultStore: MacroStore | null = null;
+
+export function getDefaultMacroStore(): MacroStore {
+  if (!defaultStore) {
+    defaultStore = typeof chrome !== 'undefined' && chrome.storage?.local
+      ? createChromeStorageMacroStore()
+      : createMemoryMacroStore();
+  }
+  return defaultStore;
+}
+
+// ============================================
+// Snapshot refs
+// ============================================
+
+export interface SnapshotElement {
+  ref: string;
+  role: string;
+  name: string;
+}
+
+/**
+ * Parse the rendered accessibility tree (`- button "Search" [ref=e12]` lines)
+ */
+export function parseSnapshotElements(snapshot: string): SnapshotElement[] {
+  const elements: SnapshotElement[] = [];
+  for (const line of snapshot.split('\n')) {
+    const match = line.match(/^\s*- (\S+)(?: "(.*?)")?(?: value=".*?")?(?: \[[^\]]*\])? \[ref=([^\]]+)\]\s*$/);
+    if (match) elements.push({ role: match[1], name: match[2] || '', ref: match[3] });
+  }
+  return elements;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Find the element matching a recorded target in a fresh snapshot: same role and
+ * name first, then a name containing the recorded one. A target without a name is
+ * only found by its ref, and only while the page still has the numbering it was
+ * recorded under.
+ */
+export function findSnapshotElement(
+  elements: SnapshotElement[],
+  target: MacroTarget,
+  session?: string
+): SnapshotElement | undefined {
+  if (!target.name) {
+    if (!target.ref || !target.session || target.session !== session) return undefined;
+    return elements.find(el => el.ref === target.ref);
+  }
+  const name = normalizeName(target.name);
+  return elements.find(el => normalizeName(el.name) === name && (!target.role || el.role === target.role))
+    || elements.find(el => normalizeName(el.name) === name)
+    || elements.find(el => el.name && normalizeName(el.name).includes(name));
+}
+
+// ============================================
+// Recording
+// ============================================
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').substring(0, 30);
+}
+
+function inferParameterType(value: string): MacroParameterType {
+  if (/^-?\d+(\.\d+)?$/.test(value)) return 'number';
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return 'date';
+  if (/^https?:\/\//i.test(value)) return 'url';
+  return 'text';
+}
+
+export function describeMacroStep(toolName: string, input: Record<string, unknown>, target?: MacroTarget): string {
+  const element = target?.name ? `"${target.name}"` : target?.selector || target?.ref || '';
+  switch (toolName) {
+    case 'navigate':
+    case 'openTab':
+      return `${toolName === 'navigate' ? 'Go to' : 'Open tab'} ${input.url}`;
+    case 'click':
+      return element ? `Click ${element}` : `Click at (${input.x}, ${input.y})`;
+    case 'type':
+      return `Type "${input.text}"${element ? ` into ${element}` : ''}`;
+    case 'scroll':
+      return `Scroll ${input.direction}`;
+    case 'pressKey':
+      return `Press ${input.key}`;
+    case 'keyCombo':
+      return `Press ${(input.keys as string[] | undefined)?.join('+')}`;
+    case 'wait':
+      return `Wait ${input.seconds}s`;
+    default:
+      return toolName;
+  }
+}
+
+function containsValue(query: string, value: string): boolean {
+  return value.length >= 2 && query.toLowerCase().includes(value.toLowerCase());
+}
+
+/**
+ * Whether a run took any action worth saving as a macro
+ */
+export function hasReplayableSteps(executions: ToolExecution[] | undefined): boolean {
+  return !!executions?.some(exec =>
+    REPLAYABLE_TOOLS.has(exec.toolName) && exec.state === 'output-available' && (exec.output as any)?.success !== false
+  );
+}
+
+/**
+ * Turn a run's tool executions into a macro. Failed attempts and read-only tools are
+ * dropped; typed text and URL query values that came from the user's request become
+ * parameters.
+ */
+export function recordMacro(
+  executions: ToolExecution[],
+  options: { name: string; userQuery: string; description?: string }
+): Macro {
+  const now = Date.now();
+  const knownElements = new Map<string, SnapshotElement & { session?: string }>();
+  const parameters: MacroParameter[] = [];
+  const steps: MacroStep[] = [];
+
+  const addParameter = (base: string, label: string, value: string): string => {
+    const existing = parameters.find(p => p.defaultValue === value);
+    if (existing) return existing.name;
+    let name = slugify(base) || 'value';
+    for (let n = 2; parameters.some(p => p.name === name); n++) name = `${slugify(base) || 'value'}_${n}`;
+    parameters.push({ name, label, type: inferParameterType(value), defaultValue: value });
+    return name;
+  };
+
+  for (const exec of executions) {
+    if (exec.state !== 'output-available' || (exec.output as any)?.success === false) continue;
+
+    if (exec.toolName === 'getAccessibilitySnapshot' && typeof exec.output?.snapshot === 'string') {
+      const session = typeof exec.output.session === 'string' ? exec.output.session : undefined;
+      for (const el of parseSnapshotElements(exec.output.snapshot as string)) knownElements.set(el.ref, { ...el, session });
+      continue;
+    }
+    if (!REPLAYABLE_TOOLS.has(exec.toolName)) continue;
+
+    const input: Record<string, unknown> = Object.fromEntries(
+      Object.entries(exec.input || {}).filter(([, value]) => value !== undefined && value !== null)
+    );
+
+    let target: MacroTarget | undefined;
+    if (exec.toolName === 'click' || exec.toolName === 'type') {
+      const ref = typeof input.ref === 'string' ? input.ref : undefined;
+      const selector = typeof input.selector === 'string' && !input.selector.includes(':focus') ? input.selector : undefined;
+      const known = ref ? knownElements.get(ref) : undefined;
+      if (ref || selector) {
+        target = { ref, selector, role: known?.role, name: known?.name || undefined, session: known?.session };
+      }
+    }
+
+    if (exec.toolName === 'type' && typeof input.text === 'string' && containsValue(options.userQuery, input.text)) {
+      const label = target?.name || `Text ${parameters.length + 1}`;
+      input.text = `{{${addParameter(target?.name || `text_${parameters.length + 1}`, label, input.text)}}}`;
+    }
+
+    if (typeof input.url === 'string') {
+      try {
+        const url = new URL(input.url);
+        let changed = false;
+        for (const [key, value] of url.searchParams) {
+          if (!containsValue(options.userQuery, value)) continue;
+          url.searchParams.set(key, `{{${addParameter(key, key, value)}}}`);
+          changed = true;
+        }
+        if (changed) input.url = url.toString().replace(/%7B%7B(\w+)%7D%7D/g, '{{$1}}');
+      } catch {
+        // Not a parseable URL; keep it as recorded
+      }
+    }
+
+    steps.push({
+      id: `step_${steps.length + 1}`,
+      toolName: exec.toolName,
+      input,
+      target,
+      description: describeMacroStep(exec.toolName, exec.input || {}, target),
+    });
+  }
+
+  return {
+    id: `macro_${now}_${Math.random().toString(36).substring(2, 8)}`,
+    name: options.name,
+    description: options.description,
+    sourceQuery: options.userQuery,
+    parameters,
+    steps,
+    createdAt: now,
+    updatedAt: now,
+    runCount: 0,
+  };
+}
+
+/**
+ * Fill {{name}} placeholders; values in URL fields are URL-encoded
+ */
+export function substituteParameters(
+  input: Record<string, unknown>,
+  values: Record<string, string>
+): Record<string, unknown> {
+  const fill = (text: string, encode: boolean) =>
+    text.replace(PLACEHOLDER, (whole, name) => {
+      const value = values[name];
+      if (value === undefined) return whole;
+      return encode ? encodeURIComponent(value) : value;
+    });
+  return Object.fromEntries(
+    Object.entries(input).map(([key, value]) => [key, typeof value === 'string' ? fill(value, URL_FIELDS.has(key)) : value])
+  );
+}
+
+/**
+ * Parameter values for a run: defaults, overridden by the given values
+ */
+export function resolveMacroValues(macro: Macro, values: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(macro.parameters.map(p => [p.name, values[p.name] ?? p.defaultValue]));
+}
+
+// ============================================
+// Replay
+// ============================================
+
+type ExecutableTool = { execute?: (input: any, options: any) => any };
+
+export interface MacroFallbackRequest {
+  macro: Macro;
+  step: MacroStep;
+  index: number;
+  input: Record<string, unknown>;
+  error: string;
+  abortSignal?: AbortSignal;
+}
+
+export type MacroStepFallback = (request: MacroFallbackRequest) => Promise<{ success: boolean; output?: unknown; error?: string }>;
+
+export type MacroStepStatus = 'replayed' | 'fallback' | 'failed';
+
+export interface MacroStepResult {
+  stepId: string;
+  index: number;
+  status: MacroStepStatus;
+  input: Record<string, unknown>;
+  attempts: number;
+  output?: unknown;
+  error?: string;
+}
+
+export interface MacroReplayResult {
+  macroId: string;
+  success: boolean;
+  steps: MacroStepResult[];
+  fallbackCount: number;
+  failedStep?: number;
+  duration: number;
+}
+
+export interface MacroReplayOptions {
+  tools: Record<string, ExecutableTool | undefined>;
+  // Raw browser tool executor, used to take fresh accessibility snapshots
+  executeTool: (toolName: string, params: any) => Promise<any>;
+  values?: Record<string, string>;
+  fallback?: MacroStepFallback;
+  abortSignal?: AbortSignal;
+  onStepStart?: (step: MacroStep, index: number) => void;
+  onStepResult?: (result: MacroStepResult, step: MacroStep) => void;
+}
+
+function isFailure(output: any): boolean {
+  return !output || output.success === false || !!output.error;
+}
+
+/**
+ * Ways to point the step at its element, most specific first: the recorded selector,
+ * then the element with the recorded role and name (or ref) in a fresh snapshot
+ */
+async function targetCandidates(
+  step: MacroStep,
+  input: Record<string, unknown>,
+  executeTool: MacroReplayOptions['executeTool']
+): Promise<Array<Record<string, unknown>>> {
+  const target = step.target;
+  if (!target) return [input];
+
+  const { ref: _ref, selector: _selector, ...rest } = input;
+  const candidates: Array<Record<string, unknown>> = [];
+  if (target.selector) candidates.push({ ...rest, selector: target.selector });
+
+  try {
+    const snapshot = await executeTool('getAccessibilitySnapshot', { maxNodes: 1000 });
+    const match = findSnapshotElement(parseSnapshotElements(snapshot?.text || snapshot?.snapshot || ''), target, snapshot?.session);
+    if (match) candidates.push({ ...rest, ref: match.ref });
+  } catch (error) {
+    toolDebug.warn('Snapshot for macro step failed', { stepId: step.id, error: String(error) });
+  }
+
+  return candidates;
+}
+
+/**
+ * Replay a macro deterministically; a step whose recorded targets all fail goes to the
+ * fallback (the model), and the run stops at the first step nothing could complete
+ */
+export async function replayMacro(macro: Macro, options: MacroReplayOptions): Promise<MacroReplayResult> {
+  const startTime = Date.now();
+  const values = resolveMacroValues(macro, options.values);
+  const results: MacroStepResult[] = [];
+  let fallbackCount = 0;
+
+  logEvent('macro_replay_start', { macro_id: macro.id, step_count: macro.steps.length, parameter_count: macro.parameters.length });
+
+  for (const [index, step] of macro.steps.entries()) {
+    if (options.abortSignal?.aborted) {
+      results.push({ stepId: step.id, index, status: 'failed', input: step.input, attempts: 0, error: 'Replay stopped' });
+      break;
+    }
+    options.onStepStart?.(step, index);
+
+    const input = substituteParameters(step.input, values);
+    const tool = options.tools[step.toolName];
+    let result: MacroStepResult = { stepId: step.id, index, status: 'failed', input, attempts: 0 };
+
+    if (!tool?.execute) {
+      result.error = `Tool not available: ${step.toolName}`;
+    } else {
+      for (const candidate of await targetCandidates(step, input, options.executeTool)) {
+        result.attempts++;
+        try {
+          const output = await tool.execute(candidate, { toolCallId: `${macro.id}_${step.id}_${result.attempts}`, messages: [], abortSignal: options.abortSignal });
+          if (!isFailure(output)) {
+            result = { ...result, status: 'replayed', input: candidate, output, error: undefined };
+            break;
+          }
+          result.error = output?.error || 'Step failed';
+        } catch (error) {
+          result.error = error instanceof Error ? error.message : String(error);
+        }
+      }
+      if (result.attempts === 0) result.error = 'Recorded element not found on the page';
+    }
+
+    if (result.status === 'failed' && options.fallback && !options.abortSignal?.aborted) {
+      toolDebug.info('Macro step handed to the model', { macroId: macro.id, stepId: step.id, error: result.error });
+      try {
+        const fallback = await options.fallback({ macro, step, index, input, error: result.error || 'Step failed', abortSignal: options.abortSignal });
+        if (fallback.success) {
+          fallbackCount++;
+          result = { ...result, status: 'fallback', output: fallback.output, error: undefined };
+        } else {
+          result.error = fallback.error || result.error;
+        }
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    results.push(result);
+    options.onStepResult?.(result, step);
+    if (result.status === 'failed') break;
+  }
+
+  const failed = results.find(r => r.status === 'failed');
+  const replay: MacroReplayResult = {
+    macroId: macro.id,
+    success: !failed && results.length === macro.steps.length,
+    steps: results,
+    fallbackCount,
+    failedStep: failed?.index,
+    duration: Date.now() - startTime,
+  };
+
+  logEvent('macro_replay_complete', {
+    macro_id: macro.id,
+    success: replay.success,
+    steps_run: results.length,
+    fallback_count: fallbackCount,
+    failed_step: failed?.index,
+    duration: replay.duration,
+  });
+
+  return replay;
+}
+
+/**
+ * Model fallback for a single macro step: the model gets the step's description and
+ * the browser tools, and may take a few actions to complete just that step
+ */
+export function createModelStepFallback(options: {
+  model: any;
+  tools: Record<string, any>;
+  maxSteps?: number;
+}): MacroStepFallback {
+  return async ({ macro, step, input, error, abortSignal }) => {
+    const { generateText, stepCountIs } = await import('ai');
+    const result = await generateText({
+      model: options.model,
+      tools: options.tools,
+      stopWhen: stepCountIs(options.maxSteps ?? 4),
+      abortSignal,
+      system: 'You are replaying a recorded browser macro. Complete ONLY the one step described, using the browser tools. Take an accessibility snapshot first to find the element. Do not continue with other steps.',
+      prompt: `Macro: ${macro.name}\nOriginal request: ${macro.sourceQuery.substring(0, 1000)}\n\nStep to complete: ${step.description}\nRecorded ${step.toolName} input: ${JSON.stringify(input)}\nWhy the recorded step failed: ${error}`,
+    });
+
+    const actions = result.steps
+      .flatMap(s => s.toolResults)
+      .filter(r => REPLAYABLE_TOOLS.has(r.toolName));
+    const last = actions[actions.length - 1] as any;
+    if (!last || isFailure(last.output)) {
+      return { success: false, error: `Model could not complete "${step.description}"` };
+    }
+    return { success: true, output: last.output };
+  };
+}
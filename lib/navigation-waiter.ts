@@ -0,0 +1,230 @@
+// Navigation Waiter - resolve navigations only once the new page is usable
+// Listens to webNavigation for the main frame (commit, DOMContentLoaded, load) and to
+// webRequest for the redirect chain, HTTP status and in-flight requests, then waits
+// for a quiet period so the next getPageContext reads the new page, not the old one.
+
+export interface NavigationRedirect {
+  from: string;
+  to: string;
+  status: number;
+}
+
+export interface NavigationResult {
+  success: boolean;
+  url?: string;
+  title?: string;
+  redirects: NavigationRedirect[];
+  status?: number;
+  statusText?: string;
+  sameDocument: boolean; // Fragment or history.pushState navigation, no page load
+  idle: boolean; // Network and DOM went quiet before the settle timeout
+  timedOut?: boolean;
+  warning?: string;
+  error?: string;
+  timing: {
+    commitMs?: number;
+    domContentLoadedMs?: number;
+    loadMs?: number;
+    settledMs?: number;
+    totalMs: number;
+  };
+}
+
+export interface NavigationWaitOptions {
+  timeoutMs?: number; // Budget for the whole navigation including the quiet period
+  quietMs?: number; // How long network and DOM must stay quiet after load (0 disables)
+  settleTimeoutMs?: number; // Cap on the quiet-period wait (long-polling pages never go idle)
+  waitForDomQuiet?: (quietMs: number, timeoutMs: number) => Promise<boolean>;
+}
+
+export const DEFAULT_NAVIGATION_TIMEOUT_MS = 20000;
+export const DEFAULT_QUIET_MS = 500;
+const DEFAULT_SETTLE_TIMEOUT_MS = 5000;
+const POLL_INTERVAL_MS = 100;
+
+type LoadOutcome =
+  | { kind: 'load'; url: string }
+  | { kind: 'same-document'; url: string }
+  | { kind: 'error'; error: string }
+  | { kind: 'timeout' };
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run `trigger` (tabs.update / goBack / goForward / reload) and resolve once the
+ * main frame has loaded and the page has been quiet for `quietMs`.
+ * Listeners are registered before the trigger so fast navigations aren't missed.
+ */
+export async function navigateAndWait(
+  tabId: number,
+  trigger: () => Promise<unknown>,
+  options: NavigationWaitOptions = {}
+): Promise<NavigationResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_NAVIGATION_TIMEOUT_MS;
+  const quietMs = options.quietMs ?? DEFAULT_QUIET_MS;
+  const startTime = Date.now();
+  const deadline = startTime + timeoutMs;
+  const elapsed = () => Date.now() - startTime;
+
+  const redirects: NavigationRedirect[] = [];
+  const timing: NavigationResult['timing'] = { totalMs: 0 };
+  const inflight = new Set<string>();
+  let lastNetworkActivity = startTime;
+  let status: number | undefined;
+  let statusText: string | undefined;
+  let started = false;
+  let committed = false;
+
+  let settleLoad: (outcome: LoadOutcome) => void = () => {};
+  const loadOutcome = new Promise<LoadOutcome>(resolve => {
+    settleLoad = resolve;
+  });
+
+  const isMainFrame = (details: { tabId: number; frameId: number }) =>
+    details.tabId === tabId && details.frameId === 0;
+
+  const onBeforeNavigate = (details: chrome.webNavigation.WebNavigationParentedCallbackDetails) => {
+    if (isMainFrame(details)) started = true;
+  };
+  const onCommitted = (details: chrome.webNavigation.WebNavigationTransitionCallbackDetails) => {
+    if (!isMainFrame(details)) return;
+    committed = true;
+    timing.commitMs = elapsed();
+  };
+  const onDOMContentLoaded = (details: chrome.webNavigation.WebNavigationFramedCallbackDetails) => {
+    if (isMainFrame(details) && committed) timing.domContentLoadedMs = elapsed();
+  };
+  const onCompleted = (details: chrome.webNavigation.WebNavigationFramedCallbackDetails) => {
+    // Ignore a load event of the previous document that was still in progress
+    if (!isMainFrame(details) || !committed) return;
+    timing.loadMs = elapsed();
+    settleLoad({ kind: 'load', url: details.url });
+  };
+  const onSameDocument = (details: chrome.webNavigation.WebNavigationTransitionCallbackDetails) => {
+    if (isMainFrame(details) && !started) settleLoad({ kind: 'same-document', url: details.url });
+  };
+  const onNavigationError = (details: chrome.webNavigation.WebNavigationFramedErrorCallbackDetails) => {
+    // ERR_ABORTED means another navigation replaced this one; keep waiting for it
+    if (isMainFrame(details) && details.error !== 'net::ERR_ABORTED') {
+      settleLoad({ kind: 'error', error: details.error });
+    }
+  };
+
+  const onBeforeRequest = (details: chrome.webRequest.WebRequestBodyDetails) => {
+    if (details.type === 'websocket') return undefined;
+    inflight.add(details.requestId);
+    lastNetworkActivity = Date.now();
+    return undefined;
+  };
+  const onBeforeRedirect = (details: chrome.webRequest.WebRedirectionResponseDetails) => {
+    if (details.type === 'main_frame') {
+      redirects.push({ from: details.url, to: details.redirectUrl, status: details.statusCode });
+    }
+  };
+  const onRequestCompleted = (details: chrome.webRequest.WebResponseCacheDetails) => {
+    inflight.delete(details.requestId);
+    lastNetworkActivity = Date.now();
+    if (details.type === 'main_frame') {
+      status = details.statusCode;
+      statusText = details.statusLine;
+    }
+  };
+  const onRequestError = (details: chrome.webRequest.WebResponseErrorDetails) => {
+    inflight.delete(details.requestId);
+    lastNetworkActivity = Date.now();
+  };
+
+  const requestFilter: chrome.webRequest.RequestFilter = { urls: ['<all_urls>'], tabId };
+  chrome.webNavigation.onBeforeNavigate.addListener(onBeforeNavigate);
+  chrome.webNavigation.onCommitted.addListener(onCommitted);
+  chrome.webNavigation.onDOMContentLoaded.addListener(onDOMContentLoaded);
+  chrome.webNavigation.onCompleted.addListener(onCompleted);
+  chrome.webNavigation.onReferenceFragmentUpdated.addListener(onSameDocument);
+  chrome.webNavigation.onHistoryStateUpdated.addListener(onSameDocument);
+  chrome.webNavigation.onErrorOccurred.addListener(onNavigationError);
+  chrome.webRequest.onBeforeRequest.addListener(onBeforeRequest, requestFilter);
+  chrome.webRequest.onBeforeRedirect.addListener(onBeforeRedirect, requestFilter);
+  chrome.webRequest.onCompleted.addListener(onRequestCompleted, requestFilter);
+  chrome.webRequest.onErrorOccurred.addListener(onRequestError, requestFilter);
+
+  const cleanup = () => {
+    chrome.webNavigation.onBeforeNavigate.removeListener(onBeforeNavigate);
+    chrome.webNavigation.onCommitted.removeListener(onCommitted);
+    chrome.webNavigation.onDOMContentLoaded.removeListener(onDOMContentLoaded);
+    chrome.webNavigation.onCompleted.removeListener(onCompleted);
+    chrome.webNavigation.onReferenceFragmentUpdated.removeListener(onSameDocument);
+    chrome.webNavigation.onHistoryStateUpdated.removeListener(onSameDocument);
+    chrome.webNavigation.onErrorOccurred.removeListener(onNavigationError);
+    chrome.webRequest.onBeforeRequest.removeListener(onBeforeRequest);
+    chrome.webRequest.onBeforeRedirect.removeListener(onBeforeRedirect);
+    chrome.webRequest.onCompleted.removeListener(onRequestCompleted);
+    chrome.webRequest.onErrorOccurred.removeListener(onRequestError);
+  };
+
+  const finish = async (result: Omit<NavigationResult, 'redirects' | 'status' | 'statusText' | 'timing'>): Promise<NavigationResult> => {
+    cleanup();
+    let url = result.url;
+    let title: string | undefined;
+    try {
+      const tab = await chrome.tabs.get(tabId);
+      url = tab.url || url;
+      title = tab.title;
+    } catch {
+      // Tab closed mid-navigation
+    }
+    timing.totalMs = elapsed();
+    return { ...result, url, title, redirects, status, statusText, timing };
+  };
+
+  try {
+    await trigger();
+  } catch (error) {
+    return finish({
+      success: false,
+      sameDocument: false,
+      idle: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const timer = setTimeout(() => settleLoad({ kind: 'timeout' }), Math.max(0, deadline - Date.now()));
+  const outcome = await loadOutcome;
+  clearTimeout(timer);
+
+  if (outcome.kind === 'error') {
+    return finish({ success: false, sameDocument: false, idle: false, error: `Navigation failed: ${outcome.error}` });
+  }
+  if (outcome.kind === 'timeout') {
+    // A committed page is usable even if some subresource never finishes loading
+    return committed
+      ? finish({ success: true, sameDocument: false, idle: false, timedOut: true, warning: `Page did not finish loading within ${timeoutMs}ms` })
+      : finish({ success: false, sameDocument: false, idle: false, timedOut: true, error: `Navigation timed out after ${timeoutMs}ms` });
+  }
+
+  // Quiet period: no in-flight requests and no DOM mutations for quietMs
+  let idle = true;
+  if (quietMs > 0) {
+    const settleDeadline = Math.min(deadline, Date.now() + (options.settleTimeoutMs ?? DEFAULT_SETTLE_TIMEOUT_MS));
+    const waitForNetworkIdle = async () => {
+      while (Date.now() < settleDeadline) {
+        if (inflight.size === 0 && Date.now() - lastNetworkActivity >= quietMs) return true;
+        await delay(POLL_INTERVAL_MS);
+      }
+      return false;
+    };
+    const waitForDomQuiet = options.waitForDomQuiet
+      ? options.waitForDomQuiet(quietMs, Math.max(0, settleDeadline - Date.now())).catch(() => true)
+      : Promise.resolve(true);
+    const [networkIdle, domQuiet] = await Promise.all([waitForNetworkIdle(), waitForDomQuiet]);
+    idle = networkIdle && domQuiet;
+  }
+  timing.settledMs = elapsed();
+
+  return finish({
+    success: true,
+    url: outcome.url,
+    sameDocument: outcome.kind === 'same-document',
+    idle,
+    warning: status !== undefined && status >= 400 ? `Page responded with HTTP ${status}` : undefined,
+  });
+}
@@ -546,20 +546,24 @@ After key combination, verify effect with getPageContext():
  */
 export const CREDENTIAL_HANDLING_TEMPLATE = `
 <ROBOT_CREDENTIALS>
-When user provides login credentials, include them in structured format:
+Logins come from the user's credential vault as tokens:
 
-<USERNAME>user@example.com</USERNAME>
-<PASSWORD>secure_password_123</PASSWORD>
+{{vault:github.username}}
+{{vault:github.password}}
+
+Type a token into its field exactly as written. The page receives the stored value;
+you never see it, and a token only works on the site its credential belongs to.
+Never ask the user to paste a password into the chat.
 
 SECURITY NOTE: Computer use with login increases risk of prompt injection.
 Always validate that credentials are only used for intended purpose.
 </ROBOT_CREDENTIALS>
 
 Usage in prompt:
-"Log in to example.com using credentials:
+"Log in to github.com using credentials:
 <robot_credentials>
-<username>{USER_PROVIDED_USERNAME}</username>
-<password>{USER_PROVIDED_PASSWORD}</password>
+<username>{{vault:github.username}}</username>
+<password>{{vault:github.password}}</password>
 </robot_credentials>"
 `;
 
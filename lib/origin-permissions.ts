@@ -0,0 +1,268 @@
+// Origin Permissions - what the agent may do on each site
+// Every action a workflow run takes is checked against the site it acts on. Sites have
+// three levels of access: read (load and look at pages), interact (click, type, pick
+// options) and submit (send forms, pay, confirm). The first time a run needs more access
+// to a site than it has, the EXECUTE_TOOL router refuses the action with
+// permissionRequired and the sidepanel asks the user. The user grants access once, for
+// the rest of the run, or always. "Always" grants are kept under their own storage key,
+// apart from the settings object that the settings page and sidepanel save whole, and
+// can be revoked on the settings page. Run and single-action grants are kept in
+// chrome.storage.session.
+// Scheduled tasks run with nobody to ask; their sites are granted when the schedule is
+// set up. Anything the router can't check (no run, no tab, a page that isn't a web
+// site) is refused.
+
+import { SETTINGS_STORAGE_KEY } from './settings-store';
+
+export type OriginAccess = 'read' | 'interact' | 'submit';
+
+export const ORIGIN_ACCESS_LEVELS: OriginAccess[] = ['read', 'interact', 'submit'];
+
+export const ORIGIN_ACCESS_LABELS: Record<OriginAccess, string> = {
+  read: 'Read only',
+  interact: 'Interact',
+  submit: 'Submit and purchase',
+};
+
+export type GrantDuration = 'once' | 'run' | 'always';
+
+export interface OriginGrant {
+  origin: string; // e.g. "https://github.com"
+  access: OriginAccess;
+  grantedAt: number;
+}
+
+export interface OriginPermissionSettings {
+  enabled?: boolean; // On unless explicitly false
+  grants?: OriginGrant[]; // "Always" grants
+}
+
+interface RunGrant extends OriginGrant {
+  once?: boolean; // Used up by the first action it allows
+}
+
+// Sent back by the router in place of a tool result
+export interface OriginPermissionRequest {
+  origin: string;
+  access: OriginAccess;
+  toolName: string;
+  granted?: OriginAccess; // What the run already has there, if anything
+}
+
+export interface OriginGrantDecision {
+  access: OriginAccess;
+  duration: GrantDuration;
+}
+
+// ============================================
+// Classifying actions
+// ============================================
+
+const READ_TOOLS = new Set([
+  'navigate', 'openTab', 'goBack', 'goForward', 'reload',
+  'getPageContext', 'getPageContent', 'getAccessibilitySnapshot', 'extractTable', 'harvestList', 'screenshot',
+  'scroll', 'scroll_down', 'scroll_up', 'hover', 'mouseMove',
+]);
+
+const INTERACT_TOOLS = new Set([
+  'click', 'click_at', 'clickElement', 'type', 'type_text', 'type_text_at', 'typeText', 'keyboardType', 'clearInput',
+  'pressKey', 'press_key', 'keyCombo', 'key_combination', 'dragDrop', 'drag_drop',
+  'selectOption', 'setChecked', 'setDate', 'uploadFile',
+]);
+
+// Interactions that submit a form or confirm a purchase when they hit the wrong element;
+// the router asks the content script what the target is before allowing them
+export const SUBMIT_CANDIDATE_TOOLS = new Set(['click', 'click_at', 'clickElement', 'pressKey', 'press_key']);
+
+/**
+ * Access a tool needs on the site it acts on; null for tools that don't act on a site
+ * (tab listing, waiting, browser history)
+ */
+export function requiredAccess(toolName: string, params: any = {}): OriginAccess | null {
+  if (toolName === 'openTab') return params.url || params.target ? 'read' : null;
+  if (READ_TOOLS.has(toolName)) return 'read';
+  if (INTERACT_TOOLS.has(toolName)) return 'interact';
+  return null;
+}
+
+export function accessSatisfies(granted: OriginAccess | undefined, required: OriginAccess): boolean {
+  return !!granted && ORIGIN_ACCESS_LEVELS.indexOf(granted) >= ORIGIN_ACCESS_LEVELS.indexOf(required);
+}
+
+/**
+ * Origin of an http(s) URL; other pages (new tab, about:blank, chrome://) have no
+ * site to grant
+ */
+export function actionOrigin(url: string | undefined): string | undefined {
+  if (!url || !/^https?:\/\//i.test(url)) return undefined;
+  try {
+    return new URL(url).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Blank and new tab pages: no site, and nothing on them to read or change
+ */
+export function isBlankPage(url: string | undefined): boolean {
+  return url === 'about:blank' || /^(chrome|edge):\/\/newtab\/?$/i.test(url ?? '');
+}
+
+// ============================================
+// Storage
+// ============================================
+
+export interface OriginGrantStore {
+  readSettings(): Promise<OriginPermissionSettings | undefined>;
+  writeSettings(settings: OriginPermissionSettings): Promise<void>;
+  readRunGrants(): Promise<Record<string, RunGrant[]>>;
+  writeRunGrants(grants: Record<string, RunGrant[]>): Promise<void>;
+}
+
+const ORIGIN_PERMISSIONS_KEY = 'opulentOriginPermissions';
+const RUN_GRANTS_KEY = 'opulentOriginRunGrants';
+
+export function createChromeStorageOriginGrantStore(): OriginGrantStore {
+  return {
+    async readSettings() {
+      // Grants saved before they had their own key live inside the settings object
+      const result = await chrome.storage.local.get([ORIGIN_PERMISSIONS_KEY, SETTINGS_STORAGE_KEY]);
+      return result[ORIGIN_PERMISSIONS_KEY] ?? result[SETTINGS_STORAGE_KEY]?.originPermissions;
+    },
+    async writeSettings(originPermissions) {
+      await chrome.storage.local.set({ [ORIGIN_PERMISSIONS_KEY]: originPermissions });
+    },
+    async readRunGrants() {
+      const result = await chrome.storage.session.get([RUN_GRANTS_KEY]);
+      return result[RUN_GRANTS_KEY] ?? {};
+    },
+    async writeRunGrants(grants) {
+      await chrome.storage.session.set({ [RUN_GRANTS_KEY]: grants });
+    },
+  };
+}
+
+export function createMemoryOriginGrantStore(settings?: OriginPermissionSettings): OriginGrantStore {
+  let current = settings;
+  let runGrants: Record<string, RunGrant[]> = {};
+  return {
+    async readSettings() {
+      return current;
+    },
+    async writeSettings(next) {
+      current = next;
+    },
+    async readRunGrants() {
+      return runGrants;
+    },
+    async writeRunGrants(next) {
+      runGrants = next;
+    },
+  };
+}
+
+let defaultStore: OriginGrantStore | null = null;
+
+export function getDefaultOriginGrantStore(): OriginGrantStore {
+  if (!defaultStore) {
+    defaultStore = typeof chrome !== 'undefined' && chrome.storage?.session
+      ? createChromeStorageOriginGrantStore()
+      : createMemoryOriginGrantStore();
+  }
+  return defaultStore;
+}
+
+// ============================================
+// Grants
+// ============================================
+
+/**
+ * Highest access a run has on an origin, from any grant
+ */
+export async function grantedAccess(store: OriginGrantStore, runId: string, origin: string): Promise<OriginAccess | undefined> {
+  const [settings, runGrants] = await Promise.all([store.readSettings(), store.readRunGrants()]);
+  const grants = [...(settings?.grants ?? []), ...(runGrants[runId] ?? [])].filter(grant => grant.origin === origin);
+  return ORIGIN_ACCESS_LEVELS.slice().reverse().find(level => grants.some(grant => grant.access === level));
+}
+
+/**
+ * Whether a run may take an action needing `required` on `origin`. A single-action
+ * grant is used up only when nothing longer-lived covers the action.
+ */
+export async function authorizeOriginAccess(
+  store: OriginGrantStore,
+  runId: string,
+  origin: string,
+  required: OriginAccess
+): Promise<boolean> {
+  const [settings, runGrants] = await Promise.all([store.readSettings(), store.readRunGrants()]);
+  if (settings?.enabled === false) return true;
+  const covers = (grant: OriginGrant) => grant.origin === origin && accessSatisfies(grant.access, required);
+
+  const grants = runGrants[runId] ?? [];
+  if ((settings?.grants ?? []).some(covers) || grants.some(grant => !grant.once && covers(grant))) return true;
+
+  const once = grants.findIndex(grant => grant.once && covers(grant));
+  if (once === -1) return false;
+  await store.writeRunGrants({ ...runGrants, [runId]: grants.filter((_, index) => index !== once) });
+  return true;
+}
+
+export async function grantOriginAccess(
+  store: OriginGrantStore,
+  runId: string,
+  origin: string,
+  decision: OriginGrantDecision
+): Promise<void> {
+  const grant: OriginGrant = { origin: actionOrigin(origin) ?? origin, access: decision.access, grantedAt: Date.now() };
+  if (decision.duration === 'always') {
+    const settings = (await store.readSettings()) ?? {};
+    const grants = (settings.grants ?? []).filter(existing => existing.origin !== grant.origin);
+    await store.writeSettings({ ...settings, grants: [...grants, grant] });
+    return;
+  }
+  const runGrants = await store.readRunGrants();
+  const existing = runGrants[runId] ?? [];
+  const kept = decision.duration === 'run' ? existing.filter(item => item.once || item.origin !== grant.origin) : existing;
+  await store.writeRunGrants({ ...runGrants, [runId]: [...kept, { ...grant, once: decision.duration === 'once' || undefined }] });
+}
+
+/**
+ * Remove every grant for an origin, stored or for a running task
+ */
+export async function revokeOriginGrants(store: OriginGrantStore, origin: string): Promise<void> {
+  const [settings, runGrants] = await Promise.all([store.readSettings(), store.readRunGrants()]);
+  if (settings?.grants?.some(grant => grant.origin === origin)) {
+    await store.writeSettings({ ...settings, grants: settings.grants.filter(grant => grant.origin !== origin) });
+  }
+  await store.writeRunGrants(Object.fromEntries(
+    Object.entries(runGrants).map(([runId, grants]) => [runId, grants.filter(grant => grant.origin !== origin)])
+  ));
+}
+
+export async function clearRunGrants(store: OriginGrantStore, runId: string): Promise<void> {
+  const runGrants = await store.readRunGrants();
+  if (!(runId in runGrants)) return;
+  const { [runId]: _cleared, ...rest } = runGrants;
+  await store.writeRunGrants(rest);
+}
+
+/**
+ * Grants of running tasks, for the permissions page
+ */
+export async function listRunGrants(store: OriginGrantStore): Promise<Array<OriginGrant & { runId: string; once: boolean }>> {
+  const runGrants = await store.readRunGrants();
+  return Object.entries(runGrants).flatMap(([runId, grants]) =>
+    grants.map(grant => ({ ...grant, runId, once: !!grant.once }))
+  );
+}
+
+/**
+ * The router's refusal, also what the model reads when nobody grants access (e.g. a
+ * scheduled run reaching a site its schedule doesn't list)
+ */
+export function describeMissingAccess(request: OriginPermissionRequest): string {
+  const has = request.granted ? ` (it has ${ORIGIN_ACCESS_LABELS[request.granted].toLowerCase()} access)` : '';
+  return `${request.toolName} needs ${ORIGIN_ACCESS_LABELS[request.access].toLowerCase()} access to ${request.origin}, which this run has not been granted${has}. Grant it when asked, in the schedule's site access for scheduled tasks, or always in Settings → Site permissions.`;
+}
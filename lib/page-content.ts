@@ -0,0 +1,145 @@
+// Page Content - a page's main content as Markdown, read in chunks
+// content.ts GET_MAIN_CONTENT returns the whole article as Markdown; the background
+// splits it here so the getPageContent tool can hand the model one chunk at a time.
+// Chunks break between Markdown blocks (paragraphs, lists, tables, code fences), and
+// only fall back to line or character breaks for a block larger than a chunk.
+
+import type { MainContent, PageContent } from '../types';
+
+export const DEFAULT_CONTENT_CHUNK_SIZE = 8000;
+export const MIN_CONTENT_CHUNK_SIZE = 1000;
+export const MAX_CONTENT_CHUNK_SIZE = 30000;
+
+export interface MarkdownChunk {
+  text: string;
+  section?: string; // Last heading before the chunk, when the chunk doesn't open with one
+}
+
+const HEADING = /^#{1,6}\s+(.+)$/;
+const FENCE = /^(```|~~~)/;
+
+/**
+ * Split Markdown into blocks at blank lines; a fenced code block stays one block
+ * even when it contains blank lines
+ */
+export function splitMarkdownBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (current.some(line => line.trim())) blocks.push(current.join('\n').trim());
+    current = [];
+  };
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    const marker = line.trim().match(FENCE)?.[1];
+    if (fence) {
+      current.push(line);
+      if (marker === fence) {
+        fence = null;
+        flush();
+      }
+      continue;
+    }
+    if (marker) {
+      flush();
+      fence = marker;
+      current.push(line);
+      continue;
+    }
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+    current.push(line);
+  }
+  flush();
+  return blocks;
+}
+
+// An oversized block is broken at lines, and an oversized line at the size limit
+function splitOversizedBlock(block: string, size: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const line of block.split('\n')) {
+    for (let start = 0; start < Math.max(line.length, 1); start += size) {
+      const part = line.slice(start, start + size);
+      if (current && current.length + 1 + part.length > size) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n${part}` : part;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+export function clampChunkSize(size?: number): number {
+  if (!size || !Number.isFinite(size)) return DEFAULT_CONTENT_CHUNK_SIZE;
+  return Math.min(Math.max(Math.floor(size), MIN_CONTENT_CHUNK_SIZE), MAX_CONTENT_CHUNK_SIZE);
+}
+
+/**
+ * Pack Markdown blocks into chunks of at most `size` characters
+ */
+export function chunkMarkdown(markdown: string, size = DEFAULT_CONTENT_CHUNK_SIZE): MarkdownChunk[] {
+  const chunkSize = clampChunkSize(size);
+  const chunks: MarkdownChunk[] = [];
+  let current: string[] = [];
+  let length = 0;
+  let lastHeading: string | undefined;
+  let sectionAtStart: string | undefined;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const opensWithHeading = HEADING.test(current[0]);
+    chunks.push({ text: current.join('\n\n'), section: opensWithHeading ? undefined : sectionAtStart });
+    current = [];
+    length = 0;
+  };
+
+  for (const block of splitMarkdownBlocks(markdown)) {
+    const pieces = block.length > chunkSize ? splitOversizedBlock(block, chunkSize) : [block];
+    for (const piece of pieces) {
+      if (current.length > 0 && length + 2 + piece.length > chunkSize) {
+        // A heading moves to the next chunk rather than end this one without its text
+        const last = current[current.length - 1];
+        const carry = current.length > 1 && HEADING.test(last) && last.length + 2 + piece.length <= chunkSize;
+        if (carry) current.pop();
+        flush();
+        if (carry) {
+          current.push(last);
+          length = last.length;
+        }
+      }
+      if (current.length === 0) sectionAtStart = lastHeading;
+      current.push(piece);
+      length += (length ? 2 : 0) + piece.length;
+    }
+    const heading = block.match(HEADING);
+    if (heading && !block.includes('\n')) lastHeading = heading[1].trim();
+  }
+  flush();
+  return chunks;
+}
+
+/**
+ * The requested chunk (numbered from 1) of a page's main content. Asking past the
+ * end returns an empty chunk with hasMore false, so a reading loop always stops.
+ */
+export function getContentChunk(content: MainContent, chunk = 1, size = DEFAULT_CONTENT_CHUNK_SIZE): PageContent {
+  const chunks = chunkMarkdown(content.markdown, size);
+  const index = Math.max(1, Math.floor(chunk)) - 1;
+  const selected = chunks[index];
+  return {
+    ...content,
+    markdown: selected?.text ?? '',
+    chunk: index + 1,
+    totalChunks: chunks.length,
+    totalLength: content.markdown.length,
+    section: selected?.section,
+    hasMore: index + 1 < chunks.length,
+  };
+}
@@ -0,0 +1,477 @@
+// Page Watch - "watch this page/element" change monitoring
+// Each watch snapshots a page region (content.ts CAPTURE_REGION) on its own
+// chrome.alarms timer and diffs the region's text lines and structure lines against
+// the previous snapshot. A change is shown to the model together with the user's
+// criterion ("a new incident is posted", "the price drops below $500"); only changes
+// the model calls meaningful raise a notification, but every change is kept so the
+// sidepanel can show the highlighted diff.
+
+import { z } from 'zod';
+import type { RegionSnapshot } from '../types';
+import type { AlarmApi } from './scheduler';
+
+export interface PageWatch {
+  id: string;
+  name: string;
+  url: string;
+  selector?: string; // CSS selector of the region; the whole page when empty
+  criterion: string; // What counts as a meaningful change, in the user's words
+  intervalMinutes: number;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+  lastCheckedAt?: number;
+  nextCheckAt?: number;
+  lastError?: string;
+}
+
+export type DiffOp = 'same' | 'add' | 'remove';
+
+export interface DiffLine {
+  op: DiffOp;
+  line: string;
+}
+
+export interface SnapshotDiff {
+  text: DiffLine[]; // Changed lines with a line of context around each run of changes
+  structure: DiffLine[];
+  added: number;
+  removed: number;
+}
+
+export interface ChangeJudgement {
+  meaningful: boolean;
+  explanation: string;
+}
+
+export interface WatchChange {
+  id: string;
+  watchId: string;
+  detectedAt: number;
+  url: string;
+  diff: SnapshotDiff;
+  meaningful: boolean;
+  explanation: string;
+  judgeError?: string; // Set when the model couldn't judge the change; it is then "unjudged", not meaningful
+  seen?: boolean;
+}
+
+export const WATCH_ALARM_PREFIX = 'watch:';
+export const MIN_WATCH_INTERVAL_MINUTES = 5;
+const MAX_CHANGES_PER_WATCH = 30;
+const LCS_MAX_LINES = 600;
+const JUDGE_MAX_DIFF_CHARS = 4000;
+
+// ============================================
+// Storage
+// ============================================
+
+export interface WatchStore {
+  listWatches(): Promise<PageWatch[]>;
+  getWatch(id: string): Promise<PageWatch | undefined>;
+  putWatch(watch: PageWatch): Promise<void>;
+  deleteWatch(id: string): Promise<void>;
+  getSnapshot(watchId: string): Promise<RegionSnapshot | undefined>;
+  putSnapshot(watchId: string, snapshot: RegionSnapshot): Promise<void>;
+  // Newest first
+  listChanges(watchId: string): Promise<WatchChange[]>;
+  putChange(change: WatchChange): Promise<void>;
+}
+
+const WATCHES_KEY = 'opulentWatches';
+const SNAPSHOTS_KEY = 'opulentWatchSnapshots';
+const CHANGES_KEY = 'opulentWatchChanges';
+
+function addChange(changes: WatchChange[], change: WatchChange): WatchChange[] {
+  return [change, ...changes.filter(c => c.id !== change.id)]
+    .sort((a, b) => b.detectedAt - a.detectedAt)
+    .slice(0, MAX_CHANGES_PER_WATCH);
+}
+
+export function createChromeStorageWatchStore(): WatchStore {
+  const read = async <T>(key: string): Promise<Record<string, T>> => {
+    const result = await chrome.storage.local.get([key]);
+    return (result[key] as Record<string, T>) || {};
+  };
+  return {
+    async listWatches() {
+      return Object.values(await read<PageWatch>(WATCHES_KEY)).sort((a, b) => a.createdAt - b.createdAt);
+    },
+    async getWatch(id) {
+      return (await read<PageWatch>(WATCHES_KEY))[id];
+    },
+    async putWatch(watch) {
+      const all = await read<PageWatch>(WATCHES_KEY);
+      await chrome.storage.local.set({ [WATCHES_KEY]: { ...all, [watch.id]: watch } });
+    },
+    async deleteWatch(id) {
+      const [watches, snapshots, changes] = await Promise.all([
+        read<PageWatch>(WATCHES_KEY),
+        read<RegionSnapshot>(SNAPSHOTS_KEY),
+        read<WatchChange[]>(CHANGES_KEY),
+      ]);
+      delete watches[id];
+      delete snapshots[id];
+      delete changes[id];
+      await chrome.storage.local.set({ [WATCHES_KEY]: watches, [SNAPSHOTS_KEY]: snapshots, [CHANGES_KEY]: changes });
+    },
+    async getSnapshot(watchId) {
+      return (await read<RegionSnapshot>(SNAPSHOTS_KEY))[watchId];
+    },
+    async putSnapshot(watchId, snapshot) {
+      const all = await read<RegionSnapshot>(SNAPSHOTS_KEY);
+      await chrome.storage.local.set({ [SNAPSHOTS_KEY]: { ...all, [watchId]: snapshot } });
+    },
+    async listChanges(watchId) {
+      return (await read<WatchChange[]>(CHANGES_KEY))[watchId] || [];
+    },
+    async putChange(change) {
+      const all = await read<WatchChange[]>(CHANGES_KEY);
+      await chrome.storage.local.set({ [CHANGES_KEY]: { ...all, [change.watchId]: addChange(all[change.watchId] || [], change) } });
+    },
+  };
+}
+
+export function createMemoryWatchStore(): WatchStore {
+  const watches = new Map<string, PageWatch>();
+  const snapshots = new Map<string, RegionSnapshot>();
+  const changes = new Map<string, WatchChange[]>();
+  return {
+    async listWatches() {
+      return Array.from(watches.values()).sort((a, b) => a.createdAt - b.createdAt);
+    },
+    async getWatch(id) {
+      return watches.get(id);
+    },
+    async putWatch(watch) {
+      watches.set(watch.id, watch);
+    },
+    async deleteWatch(id) {
+      watches.delete(id);
+      snapshots.delete(id);
+      changes.delete(id);
+    },
+    async getSnapshot(watchId) {
+      return snapshots.get(watchId);
+    },
+    async putSnapshot(watchId, snapshot) {
+      snapshots.set(watchId, snapshot);
+    },
+    async listChanges(watchId) {
+      return changes.get(watchId) || [];
+    },
+    async putChange(change) {
+      changes.set(change.watchId, addChange(changes.get(change.watchId) || [], change));
+    },
+  };
+}
+
+let defaultStore: WatchStore | null = null;
+
+export function getDefaultWatchStore(): WatchStore {
+  if (!defaultStore) {
+    defaultStore = typeof chrome !== 'undefined' && chrome.storage?.local
+      ? createChromeStorageWatchStore()
+      : createMemoryWatchStore();
+  }
+  return defaultStore;
+}
+
+// ============================================
+// Diffing
+// ============================================
+
+/**
+ * Line diff by longest common subsequence; very long regions fall back to
+ * comparing line sets so a check never stalls the worker
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  if (before.length > LCS_MAX_LINES || after.length > LCS_MAX_LINES) {
+    const beforeSet = new Set(before);
+    const afterSet = new Set(after);
+    return [
+      ...before.filter(line => !afterSet.has(line)).map(line => ({ op: 'remove' as const, line })),
+      ...after.filter(line => !beforeSet.has(line)).map(line => ({ op: 'add' as const, line })),
+    ];
+  }
+
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  const lengths = new Uint16Array(rows * cols);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = before[i] === after[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      result.push({ op: 'same', line: before[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      result.push({ op: 'remove', line: before[i++] });
+    } else {
+      result.push({ op: 'add', line: after[j++] });
+    }
+  }
+  while (i < before.length) result.push({ op: 'remove', line: before[i++] });
+  while (j < after.length) result.push({ op: 'add', line: after[j++] });
+  return result;
+}
+
+// Keep changed lines and `context` unchanged lines on either side of them
+function withContext(lines: DiffLine[], context = 1): DiffLine[] {
+  return lines.filter((line, index) => {
+    if (line.op !== 'same') return true;
+    for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) {
+      if (lines[k].op !== 'same') return true;
+    }
+    return false;
+  });
+}
+
+export function diffSnapshots(previous: RegionSnapshot, next: RegionSnapshot): SnapshotDiff {
+  const text = diffLines(previous.text, next.text);
+  const structure = diffLines(previous.structure, next.structure);
+  return {
+    text: withContext(text),
+    structure: structure.filter(line => line.op !== 'same'),
+    added: text.filter(line => line.op === 'add').length,
+    removed: text.filter(line => line.op === 'remove').length,
+  };
+}
+
+export function hasChanges(diff: SnapshotDiff): boolean {
+  return diff.added > 0 || diff.removed > 0 || diff.structure.length > 0;
+}
+
+/**
+ * The diff as unified-style lines for the model and for notifications
+ */
+export function formatDiff(diff: SnapshotDiff, maxChars = JUDGE_MAX_DIFF_CHARS): string {
+  const prefix = { same: '  ', add: '+ ', remove: '- ' } as const;
+  const sections = [
+    diff.text.map(line => prefix[line.op] + line.line).join('\n'),
+    diff.structure.length > 0
+      ? `Structure:\n${diff.structure.map(line => prefix[line.op] + line.line).join('\n')}`
+      : '',
+  ].filter(Boolean).join('\n\n');
+  return sections.length > maxChars ? `${sections.slice(0, maxChars)}\n… (diff truncated)` : sections;
+}
+
+// ============================================
+// Judging changes
+// ============================================
+
+export type ChangeJudge = (watch: PageWatch, diff: SnapshotDiff) => Promise<ChangeJudgement>;
+
+/**
+ * Judge with the configured model; without an API key every change counts
+ */
+export function createModelChangeJudge(opts: {
+  provider: 'google' | 'gateway' | 'nim' | 'openrouter';
+  apiKey: string;
+  model?: string;
+  braintrustApiKey?: string;
+}): ChangeJudge {
+  return async (watch, diff) => {
+    if (!opts.apiKey) {
+      return { meaningful: true, explanation: 'No model configured; every change is reported.' };
+    }
+
+    const { getWrappedAI } = await import('./ai-wrapped');
+    const { generateObject } = await getWrappedAI(opts.braintrustApiKey);
+
+    let model: any;
+    if (opts.provider === 'gateway') {
+      const { createGateway } = await import('@ai-sdk/gateway');
+      model = createGateway({ apiKey: opts.apiKey })(opts.model || 'google:gemini-2.5-flash');
+    } else if (opts.provider === 'openrouter') {
+      const { createOpenRouter } = await import('@openrouter/ai-sdk-provider');
+      model = createOpenRouter({
+        apiKey: opts.apiKey,
+        headers: {
+          'HTTP-Referer': 'https://opulentia.ai',
+          'X-Title': 'Opulent Browser',
+        },
+      }).chat(opts.model || 'minimax/minimax-m2');
+    } else if (opts.provider === 'nim') {
+      const { createOpenAICompatible } = await import('@ai-sdk/openai-compatible');
+      model = createOpenAICompatible({
+        name: 'nim',
+        baseURL: 'https://integrate.api.nvidia.com/v1',
+        headers: { Authorization: `Bearer ${opts.apiKey}` },
+      }).chatModel(opts.model || 'deepseek-ai/deepseek-r1');
+    } else {
+      const { createGoogleGenerativeAI } = await import('@ai-sdk/google');
+      model = createGoogleGenerativeAI({ apiKey: opts.apiKey })(opts.model || 'gemini-2.5-flash');
+    }
+
+    const { object } = await generateObject({
+      model,
+      schema: z.object({
+        meaningful: z.boolean().describe('True only if the change matches what the user wants to be alerted about'),
+        explanation: z.string().max(300).describe('One sentence on what changed and why it does or does not matter'),
+      }),
+      system: 'You review changes on a web page the user is watching. Ignore noise such as timestamps, counters, ads, rotating content and reordering unless the user asks for it. Decide only from the diff; do not guess.',
+      prompt: [
+        `Page: ${watch.url}${watch.selector ? ` (region ${watch.selector})` : ''}`,
+        `The user wants to know when: ${watch.criterion}`,
+        '',
+        'Diff against the previous check (+ added, - removed):',
+        formatDiff(diff),
+      ].join('\n'),
+    });
+    return object as ChangeJudgement;
+  };
+}
+
+// ============================================
+// Checking
+// ============================================
+
+export function watchAlarmName(watchId: string): string {
+  return `${WATCH_ALARM_PREFIX}${watchId}`;
+}
+
+export function watchIdFromAlarm(alarmName: string): string | null {
+  return alarmName.startsWith(WATCH_ALARM_PREFIX) ? alarmName.slice(WATCH_ALARM_PREFIX.length) : null;
+}
+
+/**
+ * Point the watch's alarm at its next check (or clear it when disabled)
+ */
+export async function syncWatchAlarm(watch: PageWatch, alarms: AlarmApi, now = Date.now()): Promise<PageWatch> {
+  const name = watchAlarmName(watch.id);
+  await alarms.clear(name);
+  if (!watch.enabled) {
+    return { ...watch, nextCheckAt: undefined };
+  }
+  const interval = Math.max(watch.intervalMinutes, MIN_WATCH_INTERVAL_MINUTES) * 60_000;
+  const due = watch.nextCheckAt && watch.nextCheckAt > now ? watch.nextCheckAt : now + interval;
+  await alarms.create(name, { when: due });
+  return { ...watch, nextCheckAt: due };
+}
+
+export interface WatchCheckDeps {
+  store: WatchStore;
+  alarms: AlarmApi;
+  capture: (watch: PageWatch) => Promise<RegionSnapshot>;
+  judge: ChangeJudge;
+  notify?: (watch: PageWatch, change: WatchChange) => void | Promise<void>;
+  onChange?: (watchId: string) => void;
+}
+
+export type WatchCheckOutcome = 'baseline' | 'unchanged' | 'changed' | 'failed';
+
+const checkingWatches = new Set<string>();
+
+/**
+ * Capture the region, diff it against the last snapshot, judge and record the change
+ */
+export async function checkWatch(
+  watchId: string,
+  deps: WatchCheckDeps
+): Promise<{ outcome: WatchCheckOutcome; change?: WatchChange } | null> {
+  const watch = await deps.store.getWatch(watchId);
+  if (!watch || checkingWatches.has(watchId)) return null;
+  checkingWatches.add(watchId);
+
+  let outcome: WatchCheckOutcome = 'unchanged';
+  let change: WatchChange | undefined;
+  let lastError: string | undefined;
+
+  try {
+    const snapshot = await deps.capture(watch);
+    if (!snapshot.found) {
+      throw new Error(watch.selector ? `Region ${watch.selector} not found on the page` : 'Page could not be read');
+    }
+    const previous = await deps.store.getSnapshot(watchId);
+    await deps.store.putSnapshot(watchId, snapshot);
+
+    if (!previous) {
+      outcome = 'baseline';
+    } else {
+      const diff = diffSnapshots(previous, snapshot);
+      if (hasChanges(diff)) {
+        outcome = 'changed';
+        let judgement: ChangeJudgement;
+        let judgeError: string | undefined;
+        try {
+          judgement = await deps.judge(watch, diff);
+        } catch (error) {
+          // Recorded as unjudged and shown with the error, rather than guessed either way
+          judgeError = error instanceof Error ? error.message : String(error);
+          judgement = { meaningful: false, explanation: `Could not judge the change: ${judgeError}` };
+          lastError = judgement.explanation;
+        }
+        change = {
+          id: `change_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+          watchId,
+          detectedAt: snapshot.capturedAt,
+          url: snapshot.url,
+          diff,
+          ...judgement,
+          judgeError,
+        };
+        await deps.store.putChange(change);
+      }
+    }
+  } catch (error) {
+    outcome = 'failed';
+    lastError = error instanceof Error ? error.message : String(error);
+  } finally {
+    checkingWatches.delete(watchId);
+  }
+
+  // The watch may have been edited or deleted during the check
+  const current = await deps.store.getWatch(watchId);
+  if (current) {
+    const next = await syncWatchAlarm({ ...current, lastCheckedAt: Date.now(), lastError, nextCheckAt: undefined }, deps.alarms);
+    await deps.store.putWatch(next);
+    if (change?.meaningful || change?.judgeError) {
+      try {
+        await deps.notify?.(current, change);
+      } catch (error) {
+        console.warn('Watch notification failed:', error);
+      }
+    }
+  }
+  deps.onChange?.(watchId);
+  return { outcome, change };
+}
+
+export async function restoreWatchAlarms(store: WatchStore, alarms: AlarmApi): Promise<void> {
+  for (const watch of await store.listWatches()) {
+    await store.putWatch(await syncWatchAlarm(watch, alarms));
+  }
+}
+
+export function createPageWatch(
+  fields: Pick<PageWatch, 'url' | 'criterion'> & Partial<Pick<PageWatch, 'name' | 'selector' | 'intervalMinutes' | 'enabled'>>
+): PageWatch {
+  const now = Date.now();
+  let host = fields.url;
+  try {
+    host = new URL(fields.url).hostname;
+  } catch {
+    // Keep the raw URL as the name
+  }
+  return {
+    id: `watch_${now}_${Math.random().toString(36).substring(2, 8)}`,
+    name: fields.name?.trim() || (fields.selector ? `${host} ${fields.selector}` : host),
+    url: fields.url.trim(),
+    selector: fields.selector?.trim() || undefined,
+    criterion: fields.criterion.trim(),
+    intervalMinutes: Math.max(fields.intervalMinutes ?? 60, MIN_WATCH_INTERVAL_MINUTES),
+    enabled: fields.enabled ?? true,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
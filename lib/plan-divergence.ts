@@ -0,0 +1,364 @@
+/**
+ * Plan Divergence Detection
+ *
+ * Watches the agent's actions against the execution plan. After each
+ * state-changing action the fresh page context is compared with the current
+ * plan step's expectedOutcome and checked for blockers the plan didn't
+ * anticipate (login walls, captchas, cookie modals, error pages). On divergence
+ * the planner is asked again with the trajectory so far and the new page state;
+ * the PlanningStepOutput artifact is updated in place and the change is kept as
+ * a PlanRevision diff for the UI.
+ */
+
+import type { PlanningInstruction } from '../types';
+import type { PlanningStepOutput } from '../schemas/workflow-schemas';
+import { checkValidationCriteria } from '../steps/plan-execution-step';
+import { logEvent } from './braintrust';
+import { workflowDebug } from './debug-logger';
+
+const DEFAULT_MAX_REPLANS = 2;
+const MAX_REPLAN_QUERY_LENGTH = 5000; // BrowserAutomationWorkflowInput.userQuery limit
+const MAX_TRAJECTORY_IN_QUERY = 15;
+const PAGE_TEXT_SCAN_LENGTH = 5000;
+
+export type DivergenceKind = 'login-wall' | 'captcha' | 'cookie-modal' | 'error-page' | 'unexpected-outcome';
+
+export interface PlanDivergence {
+  kind: DivergenceKind;
+  reason: string;
+  url?: string;
+  step?: PlanningInstruction;
+}
+
+export interface TrajectoryEntry {
+  toolName: string;
+  params: Record<string, any>;
+  success: boolean;
+  url?: string;
+  error?: string;
+}
+
+export interface PlanDiff {
+  kept: number;
+  added: string[];
+  removed: string[];
+}
+
+export interface PlanRevision {
+  timestamp: number;
+  kind: DivergenceKind;
+  reason: string;
+  url?: string;
+  stepNumber?: number;
+  diff: PlanDiff;
+}
+
+export interface DivergenceReplanRequest {
+  divergence: PlanDivergence;
+  trajectory: TrajectoryEntry[];
+  pageContext: any;
+  planning: PlanningStepOutput;
+}
+
+export interface PlanDivergenceMonitorOptions {
+  planning: PlanningStepOutput;
+  getPageContext: () => Promise<any>;
+  // Returns the new planning output, or null to keep following the current plan
+  replan: (request: DivergenceReplanRequest) => Promise<PlanningStepOutput | null>;
+  onRevision?: (revision: PlanRevision, planning: PlanningStepOutput) => void;
+  maxReplans?: number;
+}
+
+// Tools that correspond to plan actions, used to track which step the agent is on
+const PLAN_ACTIONS: Record<string, string[]> = {
+  navigate: ['navigate'],
+  click: ['click'],
+  type: ['type', 'type_text'],
+  pressKey: ['press_key'],
+  scroll: ['scroll'],
+  wait: ['wait'],
+  getPageContext: ['getPageContext'],
+};
+
+// Actions after which the page may have changed under the plan
+const CHECKED_TOOLS = new Set(['navigate', 'click', 'type', 'pressKey', 'keyCombo', 'goBack', 'goForward', 'reload', 'openTab', 'switchTab']);
+
+interface BlockerRule {
+  kind: Exclude<DivergenceKind, 'unexpected-outcome'>;
+  label: string;
+  // A step that expects this (e.g. "log in with the test account") is not diverging
+  expectedBy: RegExp;
+  url?: RegExp;
+  title?: RegExp;
+  text?: RegExp;
+}
+
+const BLOCKER_RULES: BlockerRule[] = [
+  {
+    kind: 'captcha',
+    label: 'Captcha challenge',
+    expectedBy: /captcha/i,
+    text: /\b(?:re)?captcha\b|hcaptcha|are you a (?:robot|human)|verify (?:that )?you are (?:a )?human|unusual traffic from your (?:computer|network)/i,
+    title: /just a moment|attention required|captcha/i,
+  },
+  {
+    kind: 'login-wall',
+    label: 'Login wall',
+    expectedBy: /\b(?:log ?in|sign ?in|signin|login|authenticat)/i,
+    url: /\/(?:login|signin|sign-in|sign_in|sso)(?:[/?#]|$)|[?&](?:redirect|return)(?:_?url|To)?=.*(?:login|signin)/i,
+    text: /(?:sign|log) in to (?:continue|view|see|access|read)|please (?:sign|log) in|you must be (?:signed|logged) in|(?:sign|log) in required/i,
+  },
+  {
+    kind: 'cookie-modal',
+    label: 'Cookie consent modal',
+    expectedBy: /cookie|consent/i,
+    text: /accept (?:all )?cookies|allow all cookies|reject all cookies|cookie (?:consent|preferences)|manage (?:cookie|consent) (?:settings|preferences)/i,
+  },
+  {
+    kind: 'error-page',
+    label: 'Error page',
+    expectedBy: /\b(?:404|403|error|not found)\b/i,
+    title: /^(?:404|403|500|502|503)\b|\bpage not found\b|\baccess denied\b|\b403 forbidden\b|\bservice unavailable\b/i,
+  },
+];
+
+/**
+ * Find a blocker the plan didn't anticipate on the page.
+ * `expectation` is the current step's target/expectedOutcome text.
+ */
+export function detectPageBlocker(pageContext: any, expectation = ''): PlanDivergence | null {
+  const url = String(pageContext?.url || '');
+  const title = String(pageContext?.title || '');
+  const text = String(pageContext?.text || pageContext?.textContent || '').substring(0, PAGE_TEXT_SCAN_LENGTH);
+
+  for (const rule of BLOCKER_RULES) {
+    if (rule.expectedBy.test(expectation)) continue;
+    const where =
+      (rule.url?.test(url) && 'URL') ||
+      (rule.title?.test(title) && 'title') ||
+      (rule.text?.test(text) && 'page text');
+    if (where) {
+      return { kind: rule.kind, reason: `${rule.label} detected in the ${where}`, url };
+    }
+  }
+  return null;
+}
+
+/**
+ * Compare the page after an action with the plan step it carried out
+ */
+export function detectDivergence(pageContext: any, step?: PlanningInstruction): PlanDivergence | null {
+  const expectation = step ? `${step.target} ${step.expectedOutcome}` : '';
+  const blocker = detectPageBlocker(pageContext, expectation);
+  if (blocker) return { ...blocker, step };
+
+  if (step?.expectedOutcome) {
+    const verdict = checkValidationCriteria(step.expectedOutcome, pageContext);
+    if (verdict && !verdict.passed) {
+      return {
+        kind: 'unexpected-outcome',
+        reason: `Step ${step.step} expected "${step.expectedOutcome}". ${verdict.reason}`,
+        url: pageContext?.url,
+        step,
+      };
+    }
+  }
+  return null;
+}
+
+const stepKey = (step: Pick<PlanningInstruction, 'action' | 'target'>) => `${step.action}(${step.target})`;
+
+/**
+ * Steps dropped from and added to the remaining plan
+ */
+export function diffPlans(previous: PlanningInstruction[], next: PlanningInstruction[]): PlanDiff {
+  const previousKeys = new Set(previous.map(stepKey));
+  const nextKeys = new Set(next.map(stepKey));
+  return {
+    kept: next.filter(step => previousKeys.has(stepKey(step))).length,
+    added: next.map(stepKey).filter(key => !previousKeys.has(key)),
+    removed: previous.map(stepKey).filter(key => !nextKeys.has(key)),
+  };
+}
+
+export function formatPlanSteps(steps: PlanningInstruction[]): string {
+  return steps
+    .map((step, index) => `${index + 1}. ${stepKey(step)} - ${step.expectedOutcome}`)
+    .join('\n');
+}
+
+/**
+ * Planner query for a divergence replan: the original request, what has run
+ * and what the page turned out to be
+ */
+export function buildDivergenceReplanQuery(
+  userQuery: string,
+  divergence: PlanDivergence,
+  trajectory: TrajectoryEntry[]
+): string {
+  const actions = trajectory
+    .slice(-MAX_TRAJECTORY_IN_QUERY)
+    .map((entry, index) => {
+      const outcome = entry.success ? 'ok' : `failed: ${entry.error || 'unknown error'}`;
+      return `${index + 1}. ${entry.toolName}(${JSON.stringify(entry.params).substring(0, 200)}) - ${outcome}`;
+    })
+    .join('\n');
+
+  const context = [
+    '',
+    '',
+    `The previous plan no longer matches the page: ${divergence.reason}${divergence.url ? ` (at ${divergence.url})` : ''}.`,
+    'Actions already taken:',
+    actions || '(none)',
+    'Plan only the remaining steps, starting from the current page. Deal with the blocker first if there is one.',
+  ].join('\n');
+
+  const room = MAX_REPLAN_QUERY_LENGTH - context.length;
+  return (room > 0 ? userQuery.substring(0, room) : '') + context.substring(0, MAX_REPLAN_QUERY_LENGTH);
+}
+
+/**
+ * Tracks the agent through the plan and replans when the page diverges from it
+ */
+export class PlanDivergenceMonitor {
+  private readonly planning: PlanningStepOutput;
+  private readonly options: PlanDivergenceMonitorOptions;
+  private readonly trajectory: TrajectoryEntry[] = [];
+  private readonly handled = new Set<string>();
+  private cursor = 0;
+  private replans = 0;
+  readonly revisions: PlanRevision[] = [];
+
+  constructor(options: PlanDivergenceMonitorOptions) {
+    this.planning = options.planning;
+    this.options = options;
+  }
+
+  get replanCount(): number {
+    return this.replans;
+  }
+
+  get currentSteps(): PlanningInstruction[] {
+    return this.planning.plan.steps as PlanningInstruction[];
+  }
+
+  /**
+   * Record a tool result; returns the revision when it caused a replan
+   */
+  async observe(toolName: string, params: Record<string, any>, result: any): Promise<PlanRevision | null> {
+    const succeeded = result?.success !== false;
+    this.trajectory.push({
+      toolName,
+      params: params ?? {},
+      success: succeeded,
+      url: result?.url,
+      error: succeeded ? undefined : result?.error,
+    });
+
+    // Advance to the plan step this action carries out, if any
+    const steps = this.currentSteps;
+    const actions = PLAN_ACTIONS[toolName] || [];
+    const matched = steps.findIndex((step, index) => index >= this.cursor && actions.includes(step.action));
+    const step = matched >= 0 ? steps[matched] : undefined;
+    if (matched >= 0) this.cursor = matched + 1;
+
+    if (!CHECKED_TOOLS.has(toolName) || this.replans >= (this.options.maxReplans ?? DEFAULT_MAX_REPLANS)) {
+      return null;
+    }
+
+    let pageContext: any;
+    try {
+      pageContext = await this.options.getPageContext();
+    } catch (error) {
+      workflowDebug.warn('Divergence check skipped: page context unavailable', { toolName, error: String(error) });
+      return null;
+    }
+
+    const divergence = detectDivergence(pageContext, step);
+    if (!divergence) return null;
+
+    // Replan once per blocker per page; a second look at the same wall won't plan differently
+    const key = `${divergence.kind}:${divergence.url || ''}:${divergence.kind === 'unexpected-outcome' ? divergence.step?.step : ''}`;
+    if (this.handled.has(key)) return null;
+    this.handled.add(key);
+
+    workflowDebug.info('Page diverged from the plan', { kind: divergence.kind, reason: divergence.reason, toolName });
+    logEvent('plan_divergence_detected', {
+      kind: divergence.kind,
+      tool_name: toolName,
+      plan_step: step?.step,
+      url: divergence.url,
+    });
+
+    let next: PlanningStepOutput | null = null;
+    try {
+      next = await this.options.replan({
+        divergence,
+        trajectory: this.trajectory.slice(),
+        pageContext,
+        planning: this.planning,
+      });
+    } catch (error) {
+      workflowDebug.warn('Divergence replan failed; keeping the current plan', { error: String(error) });
+    }
+    if (!next) return null;
+
+    const remaining = steps.slice(this.cursor);
+    const revision: PlanRevision = {
+      timestamp: Date.now(),
+      kind: divergence.kind,
+      reason: divergence.reason,
+      url: divergence.url,
+      stepNumber: step?.step,
+      diff: diffPlans(remaining, next.plan.steps as PlanningInstruction[]),
+    };
+
+    // Update the artifact in place so everything holding it sees the new plan
+    Object.assign(this.planning, next);
+    this.cursor = 0;
+    this.replans++;
+    this.revisions.push(revision);
+
+    logEvent('plan_divergence_replanned', {
+      kind: divergence.kind,
+      steps_added: revision.diff.added.length,
+      steps_removed: revision.diff.removed.length,
+      replans: this.replans,
+    });
+    this.options.onRevision?.(revision, this.planning);
+    return revision;
+  }
+}
+
+/**
+ * Wrap a toolset so every result is reported to the monitor. When a result
+ * triggers a replan, the revised plan rides along in the tool output so the
+ * model switches to it on its next step.
+ */
+export function withDivergenceMonitor<T extends Record<string, any>>(tools: T, monitor: PlanDivergenceMonitor): T {
+  const wrapped: Record<string, any> = {};
+  for (const [name, entry] of Object.entries(tools)) {
+    if (typeof entry?.execute !== 'function') {
+      wrapped[name] = entry;
+      continue;
+    }
+    wrapped[name] = {
+      ...entry,
+      execute: async (args: any, options: any) => {
+        const result = await entry.execute(args, options);
+        const revision = await monitor.observe(name, args, result);
+        if (!revision) return result;
+
+        const planRevision = {
+          reason: revision.reason,
+          revisedPlan: formatPlanSteps(monitor.currentSteps),
+          instruction: 'The page diverged from the execution plan. Follow the revised plan from here instead of the original one.',
+        };
+        return result && typeof result === 'object' && !Array.isArray(result)
+          ? { ...result, planRevision }
+          : { result, planRevision };
+      },
+    };
+  }
+  return wrapped as T;
+}
@@ -0,0 +1,255 @@
+// Redaction - personal data and secrets stay in the browser
+// Tool results are redacted before they reach a model provider: emails, phone numbers,
+// card numbers, national IDs, API keys and JWTs become placeholders like
+// [REDACTED_EMAIL_1]. The run's vault remembers what each placeholder stands for, so
+// when the model types a placeholder into a field the real value is filled in.
+// Screenshots get the same treatment: the content script reports where matching text
+// is on screen and the background paints over it (see content.ts FIND_SENSITIVE_RECTS).
+
+export type RedactionKind = 'email' | 'phone' | 'card' | 'national_id' | 'api_key' | 'jwt';
+
+export const REDACTION_KINDS: RedactionKind[] = ['email', 'phone', 'card', 'national_id', 'api_key', 'jwt'];
+
+export interface RedactionSitePolicy {
+  site: string; // Hostname, subdomains included
+  kinds: RedactionKind[]; // Empty: nothing is redacted on this site
+}
+
+export interface RedactionSettings {
+  enabled?: boolean; // Defaults to true
+  kinds?: RedactionKind[]; // Defaults to all kinds
+  sites?: RedactionSitePolicy[];
+}
+
+// Serializable form of a detector's pattern, for the content script
+export interface RedactionPattern {
+  kind: RedactionKind;
+  source: string;
+  flags: string;
+}
+
+interface Detector {
+  kind: RedactionKind;
+  pattern: RegExp;
+  group?: number; // Only this capture group is sensitive (e.g. the value after "api_key=")
+  validate?: (match: string) => boolean;
+}
+
+function digitCount(value: string): number {
+  return value.replace(/\D/g, '').length;
+}
+
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Order matters: tokens before emails, cards and IDs before phone numbers
+const DETECTORS: Detector[] = [
+  { kind: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  {
+    kind: 'api_key',
+    pattern: /\b(?:sk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}|(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{30,}|github_pat_[A-Za-z0-9_]{30,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35}|vck_[A-Za-z0-9]{30,}|ydc-sk-[A-Za-z0-9-]{20,})/g,
+  },
+  {
+    kind: 'api_key',
+    pattern: /\b(?:api[_-]?key|secret|access[_-]?token|auth[_-]?token|client[_-]?secret)["']?\s*[:=]\s*["']?([A-Za-z0-9_\-+/]{16,})/gi,
+    group: 1,
+  },
+  { kind: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  {
+    kind: 'card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: match => digitCount(match) >= 13 && passesLuhn(match),
+  },
+  {
+    kind: 'national_id',
+    // US SSN, UK National Insurance number
+    pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b|\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+  },
+  {
+    kind: 'phone',
+    // Needs a leading + or separators between digit groups, so prices and ids don't match
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\b\d{2,4}[\s.-]\d{2,4}(?:[\s.-]\d{2,4}){0,2}\b|\+\d{8,14}\b/g,
+    validate: match => digitCount(match) >= 9 && digitCount(match) <= 15,
+  },
+];
+
+const PLACEHOLDER = /\[REDACTED_([A-Z_]+)_(\d+)\]/g;
+
+// Keys holding element handles, ids or images rather than page text
+const SKIPPED_KEYS = new Set(['ref', 'selector', 'toolCallId', 'timestamp', 'screenshot', 'dataUrl', 'image', 'hash']);
+
+// Tools whose arguments are typed or chosen on the page, so placeholders become real values
+export const REHYDRATED_TOOLS = new Set([
+  'type',
+  'typeText',
+  'type_text',
+  'type_text_at',
+  'keyboardType',
+  'selectOption',
+  'setDate',
+]);
+
+export function getRedactionPatterns(kinds: RedactionKind[]): RedactionPattern[] {
+  return DETECTORS
+    .filter(detector => kinds.includes(detector.kind))
+    .map(detector => ({ kind: detector.kind, source: detector.pattern.source, flags: detector.pattern.flags }));
+}
+
+function matchesSite(hostname: string, site: string): boolean {
+  const normalized = site.trim().toLowerCase().replace(/^\*\./, '');
+  return !!normalized && (hostname === normalized || hostname.endsWith(`.${normalized}`));
+}
+
+/**
+ * Kinds to redact on a page: the most specific site policy wins, then the global kinds
+ */
+export function resolveRedactionKinds(settings: RedactionSettings | undefined, url?: string): RedactionKind[] {
+  if (settings?.enabled === false) return [];
+  const defaults = settings?.kinds ?? REDACTION_KINDS;
+  if (!url) return defaults;
+
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return defaults;
+  }
+  const policy = (settings?.sites ?? [])
+    .filter(entry => matchesSite(hostname, entry.site))
+    .sort((a, b) => b.site.length - a.site.length)[0];
+  return policy ? policy.kinds : defaults;
+}
+
+/**
+ * Site policies as typed in settings, one per line: "bank.example.com: off",
+ * "crm.example.com: email, phone" or "intranet.local: all"
+ */
+export function parseRedactionSites(text: string): RedactionSitePolicy[] {
+  return text.split('\n').flatMap(line => {
+    const [site, rule = 'off'] = line.split(':').map(part => part.trim());
+    if (!site) return [];
+    const words = rule.toLowerCase().split(/[\s,]+/).filter(Boolean);
+    const kinds = words.includes('all')
+      ? REDACTION_KINDS
+      : REDACTION_KINDS.filter(kind => words.includes(kind) || words.includes(kind.replace('_', ' ')) || words.includes(`${kind}s`));
+    return [{ site: site.toLowerCase(), kinds }];
+  });
+}
+
+export function formatRedactionSites(sites: RedactionSitePolicy[] = []): string {
+  return sites
+    .map(entry => `${entry.site}: ${entry.kinds.length === 0 ? 'off' : entry.kinds.length === REDACTION_KINDS.length ? 'all' : entry.kinds.join(', ')}`)
+    .join('\n');
+}
+
+/**
+ * Placeholders for one run. The same value always gets the same placeholder, so the
+ * model can tell repeated values apart and refer back to them.
+ */
+export class RedactionVault {
+  private placeholders = new Map<string, string>(); // value -> placeholder
+  private values = new Map<string, string>(); // placeholder -> value
+  private counts = new Map<RedactionKind, number>();
+
+  get size(): number {
+    return this.values.size;
+  }
+
+  redactText(text: string, kinds: RedactionKind[]): string {
+    let result = text;
+    for (const detector of DETECTORS) {
+      if (!kinds.includes(detector.kind)) continue;
+      result = result.replace(detector.pattern, (match, ...groups) => {
+        const secret = detector.group ? groups[detector.group - 1] : match;
+        if (typeof secret !== 'string' || (detector.validate && !detector.validate(secret))) return match;
+        return match.replace(secret, this.placeholderFor(detector.kind, secret));
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Copy of a tool result with every string redacted
+   */
+  redact<T>(value: T, kinds: RedactionKind[]): T {
+    if (kinds.length === 0) return value;
+    const visit = (item: any, depth: number): any => {
+      if (typeof item === 'string') return item.startsWith('data:') ? item : this.redactText(item, kinds);
+      if (depth > 8 || !item || typeof item !== 'object') return item;
+      if (Array.isArray(item)) return item.map(entry => visit(entry, depth + 1));
+      const copy: Record<string, any> = {};
+      for (const [key, entry] of Object.entries(item)) {
+        copy[key] = SKIPPED_KEYS.has(key) ? entry : visit(entry, depth + 1);
+      }
+      return copy;
+    };
+    return visit(value, 0);
+  }
+
+  rehydrateText(text: string): string {
+    return text.replace(PLACEHOLDER, placeholder => this.values.get(placeholder) ?? placeholder);
+  }
+
+  rehydrate<T>(value: T): T {
+    const visit = (item: any): any => {
+      if (typeof item === 'string') return this.rehydrateText(item);
+      if (Array.isArray(item)) return item.map(visit);
+      if (!item || typeof item !== 'object') return item;
+      return Object.fromEntries(Object.entries(item).map(([key, entry]) => [key, visit(entry)]));
+    };
+    return visit(value);
+  }
+
+  private placeholderFor(kind: RedactionKind, value: string): string {
+    const existing = this.placeholders.get(value);
+    if (existing) return existing;
+    const count = (this.counts.get(kind) ?? 0) + 1;
+    this.counts.set(kind, count);
+    const placeholder = `[REDACTED_${kind.toUpperCase()}_${count}]`;
+    this.placeholders.set(value, placeholder);
+    this.values.set(placeholder, value);
+    return placeholder;
+  }
+}
+
+/**
+ * Redaction around a run's tool executor: results are redacted by the policy of the
+ * page they came from, typing tools get placeholders swapped back, and screenshots
+ * are asked to mask the same kinds
+ */
+export function createRedactingExecutor(
+  executeTool: (toolName: string, params: any) => Promise<any>,
+  settings: RedactionSettings | undefined,
+  vault: RedactionVault = new RedactionVault(),
+  initialUrl?: string
+): { executeTool: (toolName: string, params: any) => Promise<any>; vault: RedactionVault; redactPage: <T>(value: T, url?: string) => T } {
+  let currentUrl = initialUrl;
+
+  const redactPage = <T>(value: T, url?: string): T => vault.redact(value, resolveRedactionKinds(settings, url ?? currentUrl));
+
+  const redactingExecuteTool = async (toolName: string, params: any) => {
+    let args = REHYDRATED_TOOLS.has(toolName) ? vault.rehydrate(params) : params;
+    if (toolName === 'screenshot') {
+      args = { ...params, redact: resolveRedactionKinds(settings, currentUrl) };
+    }
+
+    const result = await executeTool(toolName, args);
+
+    const url = result?.url ?? result?.pageContext?.url ?? result?.finalUrl;
+    if (typeof url === 'string' && /^https?:/.test(url)) currentUrl = url;
+    return redactPage(result);
+  };
+
+  return { executeTool: redactingExecuteTool, vault, redactPage };
+}
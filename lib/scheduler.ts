@@ -0,0 +1,433 @@
+// Scheduler - recurring browser tasks run by the background worker
+// A scheduled task is a query with a schedule, an optional start URL and model, and
+// notification rules. Each task has one chrome.alarms alarm set for its next run;
+// when it fires the background runs the workflow in an inactive tab, stores the run
+// in the task's history with a line diff against the previous result, notifies if
+// the rules say so, and sets the alarm for the run after. Nobody is there to grant
+// site access during a run, so the sites a task may use are granted up front.
+
+import { actionOrigin, type OriginAccess } from './origin-permissions';
+
+export type ScheduleSpec =
+  | { kind: 'interval'; everyMinutes: number }
+  | { kind: 'daily'; time: string; weekdays?: number[] }; // time is "HH:MM" local, weekdays 0 = Sunday
+
+export type ScheduleNotifyRule = 'always' | 'on-change' | 'on-error' | 'never';
+
+export interface ScheduledSiteAccess {
+  origin: string; // e.g. "https://status.example.com"
+  access: OriginAccess;
+}
+
+export interface ScheduledTask {
+  id: string;
+  name: string;
+  query: string;
+  schedule: ScheduleSpec;
+  targetUrl?: string;
+  model?: string; // Defaults to the model in settings
+  siteAccess?: ScheduledSiteAccess[]; // Granted to each run for its duration
+  notify: ScheduleNotifyRule;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+  lastRunAt?: number;
+  nextRunAt?: number;
+}
+
+export interface ResultDiff {
+  added: string[];
+  removed: string[];
+}
+
+export type ScheduledRunStatus = 'running' | 'completed' | 'failed';
+
+export interface ScheduledRun {
+  id: string;
+  taskId: string;
+  workflowRunId?: string;
+  status: ScheduledRunStatus;
+  startedAt: number;
+  finishedAt?: number;
+  result?: string;
+  error?: string;
+  // Against the previous completed run; absent for the first one
+  diff?: ResultDiff;
+  changed?: boolean;
+}
+
+export const SCHEDULE_ALARM_PREFIX = 'schedule:';
+export const MIN_INTERVAL_MINUTES = 5;
+const MAX_RUNS_PER_TASK = 20;
+const MAX_RESULT_CHARS = 20000;
+
+// ============================================
+// Storage
+// ============================================
+
+export interface ScheduleStore {
+  listTasks(): Promise<ScheduledTask[]>;
+  getTask(id: string): Promise<ScheduledTask | undefined>;
+  putTask(task: ScheduledTask): Promise<void>;
+  deleteTask(id: string): Promise<void>;
+  // Newest first
+  listRuns(taskId: string): Promise<ScheduledRun[]>;
+  putRun(run: ScheduledRun): Promise<void>;
+}
+
+const TASKS_KEY = 'opulentSchedules';
+const RUNS_KEY = 'opulentScheduleRuns';
+
+function addRun(runs: ScheduledRun[], run: ScheduledRun): ScheduledRun[] {
+  const others = runs.filter(r => r.id !== run.id);
+  return [run, ...others].sort((a, b) => b.startedAt - a.startedAt).slice(0, MAX_RUNS_PER_TASK);
+}
+
+export function createChromeStorageScheduleStore(): ScheduleStore {
+  const readTasks = async (): Promise<Record<string, ScheduledTask>> => {
+    const result = await chrome.storage.local.get([TASKS_KEY]);
+    return (result[TASKS_KEY] as Record<string, ScheduledTask>) || {};
+  };
+  const readRuns = async (): Promise<Record<string, ScheduledRun[]>> => {
+    const result = await chrome.storage.local.get([RUNS_KEY]);
+    return (result[RUNS_KEY] as Record<string, ScheduledRun[]>) || {};
+  };
+  return {
+    async listTasks() {
+      return Object.values(await readTasks()).sort((a, b) => a.createdAt - b.createdAt);
+    },
+    async getTask(id) {
+      return (await readTasks())[id];
+    },
+    async putTask(task) {
+      const all = await readTasks();
+      await chrome.storage.local.set({ [TASKS_KEY]: { ...all, [task.id]: task } });
+    },
+    async deleteTask(id) {
+      const [tasks, runs] = await Promise.all([readTasks(), readRuns()]);
+      delete tasks[id];
+      delete runs[id];
+      await chrome.storage.local.set({ [TASKS_KEY]: tasks, [RUNS_KEY]: runs });
+    },
+    async listRuns(taskId) {
+      return (await readRuns())[taskId] || [];
+    },
+    async putRun(run) {
+      const all = await readRuns();
+      await chrome.storage.local.set({ [RUNS_KEY]: { ...all, [run.taskId]: addRun(all[run.taskId] || [], run) } });
+    },
+  };
+}
+
+export function createMemoryScheduleStore(): ScheduleStore {
+  const tasks = new Map<string, ScheduledTask>();
+  const runs = new Map<string, ScheduledRun[]>();
+  return {
+    async listTasks() {
+      return Array.from(tasks.values()).sort((a, b) => a.createdAt - b.createdAt);
+    },
+    async getTask(id) {
+      return tasks.get(id);
+    },
+    async putTask(task) {
+      tasks.set(task.id, task);
+    },
+    async deleteTask(id) {
+      tasks.delete(id);
+      runs.delete(id);
+    },
+    async listRuns(taskId) {
+      return runs.get(taskId) || [];
+    },
+    async putRun(run) {
+      runs.set(run.taskId, addRun(runs.get(run.taskId) || [], run));
+    },
+  };
+}
+
+let defaultStore: ScheduleStore | null = null;
+
+export function getDefaultScheduleStore(): ScheduleStore {
+  if (!defaultStore) {
+    defaultStore = typeof chrome !== 'undefined' && chrome.storage?.local
+      ? createChromeStorageScheduleStore()
+      : createMemoryScheduleStore();
+  }
+  return defaultStore;
+}
+
+// ============================================
+// Schedules and alarms
+// ============================================
+
+function parseTime(time: string): { hours: number; minutes: number } | null {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null;
+}
+
+/**
+ * Problem with a schedule, or null when it can be scheduled
+ */
+export function validateSchedule(schedule: ScheduleSpec): string | null {
+  if (schedule.kind === 'interval') {
+    return Number.isFinite(schedule.everyMinutes) && schedule.everyMinutes >= MIN_INTERVAL_MINUTES
+      ? null
+      : `Interval must be at least ${MIN_INTERVAL_MINUTES} minutes`;
+  }
+  if (!parseTime(schedule.time)) return 'Time must be HH:MM';
+  if (schedule.weekdays && (schedule.weekdays.length === 0 || schedule.weekdays.some(d => d < 0 || d > 6))) {
+    return 'Pick at least one weekday';
+  }
+  return null;
+}
+
+/**
+ * Problem with a task's site access, or null when every entry is a web site
+ */
+export function validateSiteAccess(sites: ScheduledSiteAccess[] = []): string | null {
+  const invalid = sites.find(site => !actionOrigin(site.origin));
+  return invalid ? `${invalid.origin || 'A site'} is not a web address (https://…)` : null;
+}
+
+/**
+ * First run time strictly after `from` (local time for daily schedules)
+ */
+export function computeNextRun(schedule: ScheduleSpec, from: number): number {
+  if (schedule.kind === 'interval') {
+    return from + Math.max(schedule.everyMinutes, MIN_INTERVAL_MINUTES) * 60_000;
+  }
+  const time = parseTime(schedule.time) || { hours: 9, minutes: 0 };
+  const candidate = new Date(from);
+  candidate.setHours(time.hours, time.minutes, 0, 0);
+  for (let day = 0; day < 8; day++) {
+    if (candidate.getTime() > from && (!schedule.weekdays || schedule.weekdays.includes(candidate.getDay()))) {
+      return candidate.getTime();
+    }
+    candidate.setDate(candidate.getDate() + 1);
+    candidate.setHours(time.hours, time.minutes, 0, 0);
+  }
+  return from + 24 * 60 * 60_000;
+}
+
+export function describeSchedule(schedule: ScheduleSpec): string {
+  if (schedule.kind === 'interval') {
+    return schedule.everyMinutes % 60 === 0
+      ? `Every ${schedule.everyMinutes / 60} h`
+      : `Every ${schedule.everyMinutes} min`;
+  }
+  const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const on = schedule.weekdays && schedule.weekdays.length < 7
+    ? ` on ${[...schedule.weekdays].sort().map(d => days[d]).join(', ')}`
+    : '';
+  return `Daily at ${schedule.time}${on}`;
+}
+
+export function alarmNameForTask(taskId: string): string {
+  return `${SCHEDULE_ALARM_PREFIX}${taskId}`;
+}
+
+export function taskIdFromAlarm(alarmName: string): string | null {
+  return alarmName.startsWith(SCHEDULE_ALARM_PREFIX) ? alarmName.slice(SCHEDULE_ALARM_PREFIX.length) : null;
+}
+
+export interface AlarmApi {
+  create(name: string, info: { when: number }): void | Promise<void>;
+  clear(name: string): Promise<boolean> | void;
+}
+
+/**
+ * Point the task's alarm at its next run (or clear it when disabled) and return
+ * the task with nextRunAt updated
+ */
+export async function syncScheduleAlarm(
+  task: ScheduledTask,
+  alarms: AlarmApi,
+  now = Date.now()
+): Promise<ScheduledTask> {
+  const name = alarmNameForTask(task.id);
+  await alarms.clear(name);
+  if (!task.enabled || validateSchedule(task.schedule)) {
+    return { ...task, nextRunAt: undefined };
+  }
+  // An alarm missed while the browser was closed fires once, right away
+  const due = task.nextRunAt && task.nextRunAt > now ? task.nextRunAt : computeNextRun(task.schedule, now);
+  await alarms.create(name, { when: due });
+  return { ...task, nextRunAt: due };
+}
+
+// ============================================
+// Results and diffs
+// ============================================
+
+function resultLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Lines added to and removed from a result since the previous run, ignoring
+ * whitespace and order
+ */
+export function diffResults(previous: string, current: string): ResultDiff {
+  const before = new Set(resultLines(previous));
+  const after = new Set(resultLines(current));
+  return {
+    added: [...after].filter(line => !before.has(line)),
+    removed: [...before].filter(line => !after.has(line)),
+  };
+}
+
+export function shouldNotify(task: ScheduledTask, run: ScheduledRun): boolean {
+  switch (task.notify) {
+    case 'always':
+      return run.status !== 'running';
+    case 'on-change':
+      return run.status === 'failed' || !!run.changed;
+    case 'on-error':
+      return run.status === 'failed';
+    case 'never':
+      return false;
+  }
+}
+
+export function buildScheduledQuery(task: ScheduledTask): string {
+  return task.targetUrl ? `${task.query}\n\nStart at ${task.targetUrl}` : task.query;
+}
+
+// ============================================
+// Running
+// ============================================
+
+export interface ScheduledRunnerDeps {
+  store: ScheduleStore;
+  alarms: AlarmApi;
+  // Runs the workflow for the task and resolves with its final answer
+  startRun: (task: ScheduledTask, onStarted: (workflowRunId: string) => void) => Promise<string>;
+  notify?: (task: ScheduledTask, run: ScheduledRun) => void | Promise<void>;
+  // Called whenever a task or run record changes, e.g. to refresh an open sidepanel
+  onChange?: (taskId: string) => void;
+}
+
+// One run per task at a time; an alarm firing during a long run is skipped. Held in
+// memory only: a run that outlives its service worker is failed by failInterruptedRuns.
+const runningTasks = new Set<string>();
+
+/**
+ * Mark the task's runs still recorded as running, but not running in this worker, as
+ * failed: the worker was stopped or the browser closed before they finished
+ */
+export async function failInterruptedRuns(taskId: string, store: ScheduleStore): Promise<number> {
+  if (runningTasks.has(taskId)) return 0;
+  const stale = (await store.listRuns(taskId)).filter(r => r.status === 'running');
+  for (const run of stale) {
+    await store.putRun({
+      ...run,
+      status: 'failed',
+      finishedAt: Date.now(),
+      error: 'Interrupted: the extension stopped before the run finished',
+    });
+  }
+  return stale.length;
+}
+
+/**
+ * Run a scheduled task once, record it in the task's history and schedule the next run
+ */
+export async function runScheduledTask(taskId: string, deps: ScheduledRunnerDeps): Promise<ScheduledRun | null> {
+  const task = await deps.store.getTask(taskId);
+  if (!task || runningTasks.has(taskId)) return null;
+  await failInterruptedRuns(taskId, deps.store);
+  runningTasks.add(taskId);
+
+  const previous = (await deps.store.listRuns(taskId)).find(r => r.status === 'completed');
+  let run: ScheduledRun = {
+    id: `srun_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+    taskId,
+    status: 'running',
+    startedAt: Date.now(),
+  };
+  await deps.store.putRun(run);
+  // Arm the next occurrence before running, so a worker stopped mid-run doesn't leave
+  // the task without an alarm
+  await deps.store.putTask(await syncScheduleAlarm({ ...task, lastRunAt: run.startedAt, nextRunAt: undefined }, deps.alarms));
+  deps.onChange?.(taskId);
+
+  try {
+    const result = (await deps.startRun(task, (workflowRunId) => {
+      run = { ...run, workflowRunId };
+      void deps.store.putRun(run);
+    })).slice(0, MAX_RESULT_CHARS);
+    const diff = previous?.result !== undefined ? diffResults(previous.result, result) : undefined;
+    run = {
+      ...run,
+      status: 'completed',
+      finishedAt: Date.now(),
+      result,
+      diff,
+      changed: diff ? diff.added.length > 0 || diff.removed.length > 0 : undefined,
+    };
+  } catch (error) {
+    run = {
+      ...run,
+      status: 'failed',
+      finishedAt: Date.now(),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    runningTasks.delete(taskId);
+  }
+
+  await deps.store.putRun(run);
+
+  // The task may have been edited or deleted while it ran; an occurrence that passed
+  // during a long run moves on to the one after
+  const current = await deps.store.getTask(taskId);
+  if (current) {
+    const next = await syncScheduleAlarm(current, deps.alarms);
+    await deps.store.putTask(next);
+    if (shouldNotify(current, run)) {
+      try {
+        await deps.notify?.(current, run);
+      } catch (error) {
+        console.warn('Scheduled run notification failed:', error);
+      }
+    }
+  }
+  deps.onChange?.(taskId);
+  return run;
+}
+
+/**
+ * Re-create every task's alarm and fail runs that were cut off, e.g. after the browser
+ * starts or the extension updates
+ */
+export async function restoreScheduleAlarms(store: ScheduleStore, alarms: AlarmApi): Promise<void> {
+  for (const task of await store.listTasks()) {
+    await failInterruptedRuns(task.id, store);
+    await store.putTask(await syncScheduleAlarm(task, alarms));
+  }
+}
+
+export function createScheduledTask(
+  fields: Pick<ScheduledTask, 'name' | 'query' | 'schedule'> & Partial<Pick<ScheduledTask, 'targetUrl' | 'model' | 'siteAccess' | 'notify' | 'enabled'>>
+): ScheduledTask {
+  const now = Date.now();
+  return {
+    id: `sched_${now}_${Math.random().toString(36).substring(2, 8)}`,
+    name: fields.name.trim() || fields.query.slice(0, 60),
+    query: fields.query.trim(),
+    schedule: fields.schedule,
+    targetUrl: fields.targetUrl?.trim() || undefined,
+    model: fields.model?.trim() || undefined,
+    siteAccess: fields.siteAccess?.length ? fields.siteAccess : undefined,
+    notify: fields.notify ?? 'on-change',
+    enabled: fields.enabled ?? true,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
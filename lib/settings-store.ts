@@ -0,0 +1,15 @@
+// Settings Store - the settings saved by the settings page
+// Background code (scheduled runs, page watches, the tool router) reads them on each
+// use so changes apply without reloading the extension.
+
+import type { Settings } from '../types';
+
+export const SETTINGS_STORAGE_KEY = 'atlasSettings';
+
+export async function loadSettings(): Promise<Settings | null> {
+  if (typeof chrome === 'undefined' || !chrome.storage?.local) {
+    return null;
+  }
+  const result = await chrome.storage.local.get([SETTINGS_STORAGE_KEY]);
+  return result[SETTINGS_STORAGE_KEY] ?? null;
+}
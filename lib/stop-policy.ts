@@ -0,0 +1,190 @@
+// Stop Policy - Per-run limits for the agent loop
+// Turns a StopPolicy (from settings, overridden per task) into AI SDK stop conditions
+// built on the ones in agent-enhancements, and remembers which limit ended the run
+// so the sidepanel can show it and offer to continue.
+
+import type { StopCondition } from 'ai';
+import { estimateCost } from 'tokenlens';
+import {
+  hasTaskCompletion,
+  hasNavigationLoop,
+  hasExceededTokenBudget,
+  hasExcessiveErrorRatio,
+  countToolErrors,
+} from './agent-enhancements';
+import { logEvent } from './braintrust';
+
+export interface StopPolicy {
+  maxSteps: number;
+  maxTokens?: number;
+  maxWallTimeMs?: number;
+  maxCostUsd?: number;
+  detectLoops?: boolean;
+  // Share of the recent tool calls that failed, 0-1
+  maxErrorRatio?: number;
+  stopOnCompletion?: boolean;
+}
+
+export type StopReasonKind =
+  | 'max-steps'
+  | 'max-tokens'
+  | 'max-wall-time'
+  | 'max-cost'
+  | 'navigation-loop'
+  | 'error-ratio'
+  | 'task-complete';
+
+export interface StopReason {
+  kind: StopReasonKind;
+  message: string;
+  stepCount: number;
+}
+
+export interface StopPolicyTracker {
+  policy: StopPolicy;
+  stopWhen: Array<StopCondition<any>>;
+  // The limit that ended the run, if one did
+  getStopReason: () => StopReason | null;
+}
+
+// No token cap by default: input tokens are summed across steps, and every step resends
+// the conversation, so any fixed budget ends long runs after a handful of steps
+export const DEFAULT_STOP_POLICY: StopPolicy = {
+  maxSteps: 8,
+  detectLoops: true,
+  maxErrorRatio: 0.6,
+  stopOnCompletion: false,
+};
+
+// Loop, error and completion checks need a few steps of history before they mean anything
+const MIN_STEPS_FOR_HEURISTICS = 3;
+
+// Limits a layer can turn off with 0 (maxSteps always applies)
+const OPTIONAL_LIMITS = new Set<keyof StopPolicy>(['maxTokens', 'maxWallTimeMs', 'maxCostUsd', 'maxErrorRatio']);
+
+/**
+ * Merge policy layers (e.g. settings, then per-task) over the defaults.
+ * Unset or invalid values fall through to the layer below; 0 turns an optional limit off.
+ */
+export function resolveStopPolicy(...layers: Array<Partial<StopPolicy> | undefined>): StopPolicy {
+  const policy: StopPolicy = { ...DEFAULT_STOP_POLICY };
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const [key, value] of Object.entries(layer) as Array<[keyof StopPolicy, any]>) {
+      if (value === 0 && OPTIONAL_LIMITS.has(key)) {
+        (policy as any)[key] = undefined;
+        continue;
+      }
+      if (value === undefined || value === null || (typeof value === 'number' && !(value > 0))) continue;
+      (policy as any)[key] = value;
+    }
+  }
+  policy.maxSteps = Math.max(1, Math.floor(policy.maxSteps));
+  if (policy.maxErrorRatio !== undefined) {
+    policy.maxErrorRatio = Math.min(policy.maxErrorRatio, 1);
+  }
+  return policy;
+}
+
+function totalUsage(steps: any[]): { input: number; output: number } {
+  return steps.reduce(
+    (acc, step) => ({
+      input: acc.input + (step.usage?.inputTokens ?? 0),
+      output: acc.output + (step.usage?.outputTokens ?? 0),
+    }),
+    { input: 0, output: 0 }
+  );
+}
+
+/**
+ * Estimated spend in USD for the steps so far; undefined when the model has no known pricing
+ */
+export function estimateRunCostUsd(modelId: string | undefined, steps: any[]): number | undefined {
+  if (!modelId) return undefined;
+  try {
+    return estimateCost({ modelId, usage: totalUsage(steps) }).totalUSD;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build the stop conditions for one agent run
+ */
+export function createStopPolicyTracker(
+  policy: StopPolicy,
+  options: { modelId?: string; startedAt?: number } = {}
+): StopPolicyTracker {
+  const startedAt = options.startedAt ?? Date.now();
+  let stopReason: StopReason | null = null;
+
+  const limit = (
+    kind: StopReasonKind,
+    condition: StopCondition<any>,
+    describe: (steps: any[]) => string,
+    needsHistory = false
+  ): StopCondition<any> => async ({ steps }) => {
+    if (needsHistory && steps.length < MIN_STEPS_FOR_HEURISTICS) return false;
+    if (!(await condition({ steps }))) return false;
+    if (!stopReason) {
+      stopReason = { kind, message: describe(steps), stepCount: steps.length };
+      logEvent('stop_policy_triggered', { kind, step_count: steps.length, message: stopReason.message });
+    }
+    return true;
+  };
+
+  const stopWhen: Array<StopCondition<any>> = [
+    limit(
+      'max-steps',
+      ({ steps }) => steps.length >= policy.maxSteps,
+      () => `Reached the ${policy.maxSteps}-step limit`
+    ),
+  ];
+
+  if (policy.maxTokens) {
+    const maxTokens = policy.maxTokens;
+    stopWhen.push(limit('max-tokens', hasExceededTokenBudget(maxTokens), (steps) => {
+      const usage = totalUsage(steps);
+      return `Used ${(usage.input + usage.output).toLocaleString()} tokens (limit ${maxTokens.toLocaleString()})`;
+    }));
+  }
+
+  if (policy.maxWallTimeMs) {
+    const maxWallTimeMs = policy.maxWallTimeMs;
+    stopWhen.push(limit(
+      'max-wall-time',
+      () => Date.now() - startedAt >= maxWallTimeMs,
+      () => `Ran for ${Math.round((Date.now() - startedAt) / 1000)}s (limit ${Math.round(maxWallTimeMs / 1000)}s)`
+    ));
+  }
+
+  if (policy.maxCostUsd) {
+    const maxCostUsd = policy.maxCostUsd;
+    stopWhen.push(limit(
+      'max-cost',
+      ({ steps }) => (estimateRunCostUsd(options.modelId, steps) ?? 0) >= maxCostUsd,
+      (steps) => `Spent about $${(estimateRunCostUsd(options.modelId, steps) ?? 0).toFixed(2)} (limit $${maxCostUsd.toFixed(2)})`
+    ));
+  }
+
+  if (policy.detectLoops) {
+    stopWhen.push(limit('navigation-loop', hasNavigationLoop, () => 'Kept navigating to the same page', true));
+  }
+
+  if (policy.maxErrorRatio) {
+    stopWhen.push(limit('error-ratio', hasExcessiveErrorRatio(policy.maxErrorRatio), (steps) => {
+      const { errors, total } = countToolErrors(steps);
+      return `${errors} of the last ${total} tool calls failed`;
+    }, true));
+  }
+
+  if (policy.stopOnCompletion) {
+    stopWhen.push(limit('task-complete', hasTaskCompletion, () => 'The agent reported the task complete', true));
+  }
+
+  return {
+    policy,
+    stopWhen,
+    getStopReason: () => stopReason,
+  };
+}
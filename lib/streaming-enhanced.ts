@@ -1,7 +1,7 @@
 // Enhanced Streaming Step - Integrates all AI SDK v6 patterns
 // Priority 1: Output strategies, approval flow ready, evaluation integration
 
-import { Experimental_Agent as ToolLoopAgent, stepCountIs } from 'ai';
+import { Experimental_Agent as ToolLoopAgent } from 'ai';
 import type { StreamingStepOutput } from '../schemas/workflow-schemas';
 import type { Message } from '../types';
 import { logEvent, logStepProgress, logToolExecution } from '../lib/braintrust';
@@ -10,6 +10,8 @@ import {
   AgentPerformanceMonitor,
 } from '../lib/agent-enhancements';
 import { streamingDebug, agentDebug, toolDebug } from '../lib/debug-logger';
+import { createStopPolicyTracker, resolveStopPolicy, type StopPolicy, type StopReason } from '../lib/stop-policy';
+import { withInjectionGuard, type InjectionGuard } from '../lib/prompt-injection';
 import {
   createExecutionPlanOutput,
   createToolExecutionSummaryOutput,
@@ -31,6 +33,13 @@ interface EnhancedStreamingStepInput {
   enableApprovalFlow?: boolean;
   onApprovalRequired?: (toolName: string, args: any) => Promise<boolean>;
   autoSubmitApprovals?: boolean;
+  // Spotlights page content in tool results and gates tools once a page tries to instruct the agent
+  injectionGuard?: InjectionGuard;
+
+  // Run limits (steps, tokens, wall time, cost, loops, errors); defaults from lib/stop-policy
+  stopPolicy?: StopPolicy;
+  modelId?: string; // For cost estimates
+  runStartedAt?: number; // Wall time counts from here
 }
 
 interface EnhancedStreamingStepOutput extends StreamingStepOutput {
@@ -54,6 +63,9 @@ interface EnhancedStreamingStepOutput extends StreamingStepOutput {
 
   // Auto-submit status
   autoSubmitted?: boolean;
+
+  // Set when a stop policy limit ended the run rather than the model finishing
+  stopReason?: StopReason;
 }
 
 /**
@@ -137,10 +149,7 @@ export async function enhancedStreamingStep(
         effort: 'medium',
         exclude: false,
       },
-      stopOnCompletion: false,
-      stopOnExcessiveErrors: true,
-      stopOnNavigationLoop: true,
-      maxTokenBudget: 50000,
+      // Stop conditions come from the run's stop policy below
       contextManagement: {
         maxMessages: 40,
         keepSystemMessage: true,
@@ -150,11 +159,16 @@ export async function enhancedStreamingStep(
       enablePerformanceMonitoring: true,
     });
 
+    const stopPolicy = createStopPolicyTracker(input.stopPolicy ?? resolveStopPolicy(), {
+      modelId: input.modelId,
+      startedAt: input.runStartedAt ?? startTime,
+    });
+
     // Build agent configuration
     const agentConfig: any = {
       model: input.model,
-      instructions: input.system,
-      tools: Object.values(input.tools || {}),
+      instructions: input.injectionGuard ? input.system + input.injectionGuard.systemPrompt() : input.system,
+      tools: Object.values(input.injectionGuard ? withInjectionGuard(input.tools || {}, input.injectionGuard) : input.tools || {}),
       toolChoice: 'required',
 
       experimental_reasoning: {
@@ -163,13 +177,7 @@ export async function enhancedStreamingStep(
         exclude: false,
       },
 
-      stopWhen: [
-        stepCountIs(100),
-        ...enhancements.stopConditions.map(condition => async ({ steps }: any) => {
-          if (steps.length < 3) return false;
-          return await condition({ steps });
-        }),
-      ],
+      stopWhen: stopPolicy.stopWhen,
 
       prepareStep: async ({ stepNumber, messages, steps }: any) => {
         // Performance tracking
@@ -377,6 +385,8 @@ export async function enhancedStreamingStep(
           const toolCall = part as any;
           const toolName = toolCall.toolName || 'unknown';
           const toolCallId = toolCall.toolCallId || 'unknown';
+          // AI SDK 6 parts carry `input`; `args` is the pre-v5 name
+          const toolArgs = toolCall.input ?? toolCall.args;
           toolTimings.set(toolCallId, { start: Date.now() });
 
           toolDebug.debug('Tool call initiated', {
@@ -384,31 +394,31 @@ export async function enhancedStreamingStep(
             toolCallId,
             callNumber: toolCallCount,
             stepNumber: stepCount,
-            hasArgs: !!toolCall.args,
-            args: toolCall.args,
+            hasArgs: !!toolArgs,
+            args: toolArgs,
           });
 
           logToolExecution(toolName, 'start', {
             tool_call_id: toolCallId,
             call_number: toolCallCount,
             step_number: stepCount,
-            has_input: !!toolCall.args,
+            has_input: !!toolArgs,
           });
 
           // Handle approval flow if enabled
           if (input.enableApprovalFlow && input.onApprovalRequired) {
             try {
-              const requiresApproval = await input.onApprovalRequired(toolName, toolCall.args);
+              const requiresApproval = await input.onApprovalRequired(toolName, toolArgs);
 
               if (requiresApproval) {
                 streamingDebug.info('Approval required for tool', {
                   toolName,
-                  args: toolCall.args,
+                  args: toolArgs,
                 });
 
                 approvalsRequested.push({
                   toolName,
-                  args: toolCall.args,
+                  args: toolArgs,
                   approved: false, // Will be updated when user responds
                   timestamp: Date.now(),
                 });
@@ -420,7 +430,7 @@ export async function enhancedStreamingStep(
                     toolCallId,
                     toolName,
                     state: 'approval-pending' as const,
-                    input: toolCall.args || {},
+                    input: toolArgs || {},
                     timestamp: Date.now(),
                   };
 
@@ -444,7 +454,7 @@ export async function enhancedStreamingStep(
               toolCallId,
               toolName,
               state: 'input-streaming' as const,
-              input: toolCall.args || {},
+              input: toolArgs || {},
               timestamp: Date.now(),
             };
 
@@ -469,7 +479,9 @@ export async function enhancedStreamingStep(
           const toolResult = part as any;
           const resultToolName = toolResult.toolName || 'unknown';
           const resultToolCallId = toolResult.toolCallId || 'unknown';
-          const toolSuccess = !toolResult.result?.error && !toolResult.result?.isError;
+          const resultInput = toolResult.input ?? toolResult.args;
+          const resultOutput = toolResult.output ?? toolResult.result;
+          const toolSuccess = !resultOutput?.error && !resultOutput?.isError && resultOutput?.success !== false;
 
           const toolTiming = toolTimings.get(resultToolCallId);
           const toolDuration = toolTiming ? Date.now() - toolTiming.start : 0;
@@ -480,7 +492,7 @@ export async function enhancedStreamingStep(
             toolCallId: resultToolCallId,
             success: toolSuccess,
             duration: toolDuration,
-            hasResult: !!toolResult.result,
+            hasResult: !!resultOutput,
           });
 
           toolExecutions.push({
@@ -504,9 +516,9 @@ export async function enhancedStreamingStep(
               toolCallId: resultToolCallId,
               toolName: resultToolName,
               state: finalState as const,
-              input: toolResult.args || {},
-              output: toolSuccess ? toolResult.result : undefined,
-              errorText: toolSuccess ? undefined : (toolResult.result?.error || 'Unknown error'),
+              input: resultInput || {},
+              output: toolSuccess ? resultOutput : undefined,
+              errorText: toolSuccess ? undefined : (resultOutput?.error || 'Unknown error'),
               timestamp: Date.now(),
             };
 
@@ -554,6 +566,13 @@ export async function enhancedStreamingStep(
       ? await finalResult.usage
       : finalResult.usage;
 
+    // Stop conditions only cut the loop while the model still wants to call tools
+    const stopReason = String(finishReason) === 'tool-calls' ? stopPolicy.getStopReason() : null;
+    if (stopReason) {
+      streamingDebug.warn('Run stopped by its stop policy', stopReason);
+      input.updateLastMessage((msg) => ({ ...msg, stopReason }));
+    }
+
     // Get structured output if enabled
     if (input.enableStructuredOutput && (finalResult as any).output) {
       structuredOutput = (finalResult as any).output;
@@ -633,6 +652,7 @@ export async function enhancedStreamingStep(
       structuredOutput: structuredOutput || undefined,
       approvalsRequested: approvalsRequested.length > 0 ? approvalsRequested : undefined,
       autoSubmitted: autoSubmitted || undefined,
+      stopReason: stopReason || undefined,
     } as any;
 
     streamingTimer();
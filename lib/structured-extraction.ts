@@ -0,0 +1,342 @@
+// Structured Extraction - rows of data described by a user-supplied JSON Schema
+// A schema describes one item (a product, a listing, a search result). Extraction
+// (steps/extraction-step.ts) asks the model for the items on each page, then every
+// item is checked against a zod schema built from the same JSON Schema, duplicates
+// are dropped by key fields, and the rows become a dataset that exports as CSV,
+// JSON Lines or a Markdown table. Schemas can be saved and picked for later tasks.
+
+import { z } from 'zod';
+import type { ExtractionStepOutput } from '../schemas/workflow-schemas';
+
+// The subset of JSON Schema that extraction understands; other keywords are ignored
+export interface JsonSchema {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean | null>;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+export interface SavedExtractionSchema {
+  id: string;
+  name: string;
+  description?: string;
+  schema: JsonSchema; // Schema of one item
+  keyFields?: string[]; // Fields identifying an item; the whole item when empty
+  maxPages?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ExtractionRequest {
+  name: string;
+  schema: JsonSchema;
+  keyFields?: string[];
+  maxPages?: number;
+}
+
+export type ExtractionDataset = ExtractionStepOutput;
+export type ExtractionRow = Record<string, unknown>;
+
+export const DEFAULT_EXTRACTION_MAX_PAGES = 5;
+export const MAX_EXTRACTION_PAGES = 50;
+
+// ============================================
+// Storage
+// ============================================
+
+export interface ExtractionSchemaStore {
+  list(): Promise<SavedExtractionSchema[]>;
+  get(id: string): Promise<SavedExtractionSchema | undefined>;
+  put(schema: SavedExtractionSchema): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+const STORAGE_KEY = 'opulentExtractionSchemas';
+
+export function createChromeStorageExtractionSchemaStore(): ExtractionSchemaStore {
+  const readAll = async (): Promise<Record<string, SavedExtractionSchema>> => {
+    const result = await chrome.storage.local.get([STORAGE_KEY]);
+    return (result[STORAGE_KEY] as Record<string, SavedExtractionSchema>) || {};
+  };
+  return {
+    async list() {
+      return Object.values(await readAll()).sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+    async get(id) {
+      return (await readAll())[id];
+    },
+    async put(schema) {
+      const all = await readAll();
+      await chrome.storage.local.set({ [STORAGE_KEY]: { ...all, [schema.id]: schema } });
+    },
+    async delete(id) {
+      const all = await readAll();
+      delete all[id];
+      await chrome.storage.local.set({ [STORAGE_KEY]: all });
+    },
+  };
+}
+
+export function createMemoryExtractionSchemaStore(): ExtractionSchemaStore {
+  const schemas = new Map<string, SavedExtractionSchema>();
+  return {
+    async list() {
+      return Array.from(schemas.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+    async get(id) {
+      return schemas.get(id);
+    },
+    async put(schema) {
+      schemas.set(schema.id, schema);
+    },
+    async delete(id) {
+      schemas.delete(id);
+    },
+  };
+}
+
+let defaultStore: ExtractionSchemaStore | null = null;
+
+export function getDefaultExtractionSchemaStore(): ExtractionSchemaStore {
+  if (!defaultStore) {
+    defaultStore = typeof chrome !== 'undefined' && chrome.storage?.local
+      ? createChromeStorageExtractionSchemaStore()
+      : createMemoryExtractionSchemaStore();
+  }
+  return defaultStore;
+}
+
+// ============================================
+// Schemas
+// ============================================
+
+/**
+ * Parse a pasted JSON Schema. An array schema is unwrapped to its item schema,
+ * since extraction always collects a list of items.
+ */
+export function parseItemSchema(text: string): JsonSchema {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Schema is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Schema must be a JSON object');
+  }
+  const item: JsonSchema = parsed.type === 'array' && parsed.items ? parsed.items : parsed;
+  if (item.type !== 'object' || !item.properties || Object.keys(item.properties).length === 0) {
+    throw new Error('Schema must describe an object with properties (or an array of them)');
+  }
+  return item;
+}
+
+function nonNullTypes(schema: JsonSchema): { types: string[]; nullable: boolean } {
+  const all = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  return { types: all.filter(t => t !== 'null'), nullable: all.includes('null') };
+}
+
+/**
+ * zod validator for a JSON Schema. Numbers and booleans written as strings
+ * ("$1,299", "yes") are coerced, since page text rarely arrives typed.
+ */
+export function jsonSchemaToZod(schema: JsonSchema): z.ZodTypeAny {
+  const { types, nullable } = nonNullTypes(schema);
+  let result: z.ZodTypeAny;
+
+  if (schema.enum && schema.enum.length > 0) {
+    const values = schema.enum;
+    result = z.any().refine(value => values.includes(value), { message: `Expected one of ${values.map(v => JSON.stringify(v)).join(', ')}` });
+  } else if (types.length !== 1) {
+    result = z.any();
+  } else {
+    switch (types[0]) {
+      case 'string': {
+        let str = z.string();
+        if (schema.minLength !== undefined) str = str.min(schema.minLength);
+        if (schema.maxLength !== undefined) str = str.max(schema.maxLength);
+        if (schema.pattern) str = str.regex(new RegExp(schema.pattern));
+        if (schema.format === 'uri' || schema.format === 'url') str = str.url();
+        if (schema.format === 'email') str = str.email();
+        result = str;
+        break;
+      }
+      case 'number':
+      case 'integer': {
+        let num = z.number();
+        if (types[0] === 'integer') num = num.int();
+        if (schema.minimum !== undefined) num = num.min(schema.minimum);
+        if (schema.maximum !== undefined) num = num.max(schema.maximum);
+        result = z.preprocess(toNumber, num);
+        break;
+      }
+      case 'boolean':
+        result = z.preprocess(toBoolean, z.boolean());
+        break;
+      case 'array':
+        result = z.array(schema.items ? jsonSchemaToZod(schema.items) : z.any());
+        break;
+      case 'object': {
+        const required = new Set(schema.required || []);
+        const shape: Record<string, z.ZodTypeAny> = {};
+        for (const [key, property] of Object.entries(schema.properties || {})) {
+          const field = jsonSchemaToZod(property);
+          // Models fill missing optional fields with null
+          shape[key] = required.has(key) ? field : field.nullish();
+        }
+        result = z.object(shape);
+        break;
+      }
+      default:
+        result = z.any();
+    }
+  }
+
+  return nullable ? result.nullable() : result;
+}
+
+function toNumber(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const cleaned = value.replace(/[^\d.+-]/g, '');
+  return cleaned && !Number.isNaN(Number(cleaned)) ? Number(cleaned) : value;
+}
+
+function toBoolean(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  if (/^(true|yes|y|1)$/i.test(value.trim())) return true;
+  if (/^(false|no|n|0)$/i.test(value.trim())) return false;
+  return value;
+}
+
+export function schemaColumns(schema: JsonSchema): string[] {
+  return Object.keys(schema.properties || {});
+}
+
+export function toExtractionRequest(saved: SavedExtractionSchema): ExtractionRequest {
+  return {
+    name: saved.name,
+    schema: saved.schema,
+    keyFields: saved.keyFields?.length ? saved.keyFields : undefined,
+    maxPages: saved.maxPages,
+  };
+}
+
+export function createSavedExtractionSchema(
+  fields: Pick<SavedExtractionSchema, 'name' | 'schema'> & Partial<Pick<SavedExtractionSchema, 'description' | 'keyFields' | 'maxPages'>>
+): SavedExtractionSchema {
+  const now = Date.now();
+  const columns = new Set(schemaColumns(fields.schema));
+  return {
+    id: `schema_${now}_${Math.random().toString(36).substring(2, 8)}`,
+    name: fields.name.trim() || fields.schema.title || 'Extraction',
+    description: fields.description?.trim() || undefined,
+    schema: fields.schema,
+    keyFields: fields.keyFields?.filter(field => columns.has(field)),
+    maxPages: fields.maxPages ? Math.min(Math.max(1, fields.maxPages), MAX_EXTRACTION_PAGES) : undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// ============================================
+// Validation and deduplication
+// ============================================
+
+export interface ValidatedItems {
+  valid: ExtractionRow[];
+  invalid: Array<{ item: unknown; error: string }>;
+}
+
+export function validateItems(items: unknown[], validator: z.ZodTypeAny): ValidatedItems {
+  const result: ValidatedItems = { valid: [], invalid: [] };
+  for (const item of items) {
+    const parsed = validator.safeParse(item);
+    if (parsed.success) {
+      result.valid.push(parsed.data);
+    } else {
+      const issue = parsed.error.issues[0];
+      result.invalid.push({ item, error: `${issue.path.join('.') || 'item'}: ${issue.message}` });
+    }
+  }
+  return result;
+}
+
+// Key order doesn't make two items different
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function itemKey(item: ExtractionRow, keyFields?: string[]): string {
+  if (!keyFields || keyFields.length === 0) return stableStringify(item);
+  return stableStringify(keyFields.map(field => {
+    const value = item[field];
+    return typeof value === 'string' ? value.trim().toLowerCase() : value;
+  }));
+}
+
+/**
+ * Drop rows already in `seen`, adding the new ones; returns the new rows and the duplicate count
+ */
+export function dedupeItems(
+  items: ExtractionRow[],
+  seen: Set<string>,
+  keyFields?: string[]
+): { unique: ExtractionRow[]; duplicates: number } {
+  const unique: ExtractionRow[] = [];
+  for (const item of items) {
+    const key = itemKey(item, keyFields);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    unique.push(item);
+  }
+  return { unique, duplicates: items.length - unique.length };
+}
+
+// ============================================
+// Export
+// ============================================
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function datasetToCSV(dataset: Pick<ExtractionDataset, 'columns' | 'rows'>): string {
+  const escape = (text: string) => (/[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+  return [
+    dataset.columns.map(escape).join(','),
+    ...dataset.rows.map(row => dataset.columns.map(column => escape(cellText(row[column]))).join(',')),
+  ].join('\n');
+}
+
+export function datasetToJSONLines(dataset: Pick<ExtractionDataset, 'rows'>): string {
+  return dataset.rows.map(row => JSON.stringify(row)).join('\n');
+}
+
+export function datasetToMarkdownTable(dataset: Pick<ExtractionDataset, 'columns' | 'rows'>): string {
+  const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  return [
+    `| ${dataset.columns.map(escape).join(' | ')} |`,
+    `| ${dataset.columns.map(() => '---').join(' | ')} |`,
+    ...dataset.rows.map(row => `| ${dataset.columns.map(column => escape(cellText(row[column]))).join(' | ')} |`),
+  ].join('\n');
+}
+
+export function datasetFileName(dataset: Pick<ExtractionDataset, 'name' | 'createdAt'>, extension: 'csv' | 'jsonl'): string {
+  const slug = dataset.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'dataset';
+  return `${slug}-${new Date(dataset.createdAt).toISOString().slice(0, 10)}.${extension}`;
+}
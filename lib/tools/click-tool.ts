@@ -6,8 +6,9 @@ import { z } from 'zod';
  * Provides type-safe element clicking with comprehensive error handling
  */
 export const clickTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
-  description: 'Click on an element at specified coordinates or via CSS selector. Handles coordinate scaling and validation.',
+  description: 'Click on an element by accessibility snapshot ref, CSS selector, or coordinates. Handles coordinate scaling and validation.',
   inputSchema: z.object({
+    ref: z.string().optional().describe('Element ref from getAccessibilitySnapshot (e.g. "e12"). Preferred over selector and coordinates.'),
     selector: z.string().optional().describe('CSS selector of the element to click'),
     x: z.number().optional().min(0).max(10000).describe('X coordinate (0-10000) if not using selector'),
     y: z.number().optional().min(0).max(10000).describe('Y coordinate (0-10000) if not using selector'),
@@ -17,6 +18,7 @@ export const clickTool = (executeTool: (toolName: string, params: any) => Promis
     timeout: z.number().optional().default(5000).describe('Timeout for element wait in milliseconds'),
   }),
   execute: async ({ 
+    ref,
     selector, 
     x, 
     y, 
@@ -32,14 +34,15 @@ export const clickTool = (executeTool: (toolName: string, params: any) => Promis
       }
 
       // Validate input
-      if (!selector && (x === undefined || y === undefined)) {
-        throw new Error('Either selector or both x and y coordinates must be provided');
+      if (!ref && !selector && (x === undefined || y === undefined)) {
+        throw new Error('Either ref, selector, or both x and y coordinates must be provided');
       }
 
-      console.log(`🖱️ [Click] Starting click operation:`, { selector, x, y, button, double });
+      console.log(`🖱️ [Click] Starting click operation:`, { ref, selector, x, y, button, double });
       
       // Execute click via context
       const result = await executeTool('click', { 
+        ref,
         selector, 
         x, 
         y, 
@@ -57,7 +60,7 @@ export const clickTool = (executeTool: (toolName: string, params: any) => Promis
       
       return {
         success: true,
-        clickedElement: result?.element || selector || `element at (${x}, ${y})`,
+        clickedElement: result?.element || ref || selector || `element at (${x}, ${y})`,
         coordinates: result?.coordinates || { x, y },
         button,
         double,
@@ -69,6 +72,7 @@ export const clickTool = (executeTool: (toolName: string, params: any) => Promis
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown click error',
+        ref,
         selector,
         coordinates: { x, y },
         timestamp: Date.now(),
@@ -0,0 +1,49 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Close Tab Tool - AI SDK 2.0 compliant
+ * Closes one of the run's tabs (the current one by default). The run's last
+ * remaining tab can't be closed.
+ */
+export const closeTabTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
+  description: 'Close a tab opened in this run (defaults to the current tab). If the current tab is closed, the most recently opened remaining tab becomes current.',
+  inputSchema: z.object({
+    tabId: z.number().int().optional().describe('Id of the tab to close. Defaults to the current tab.'),
+  }),
+  execute: async ({ tabId }, { toolCallId, abortSignal }) => {
+    try {
+      // Check for abort signal
+      if (abortSignal?.aborted) {
+        throw new Error('Close tab aborted');
+      }
+
+      console.log(`🗂️ [CloseTab] Closing tab:`, { tabId: tabId ?? 'current' });
+
+      const result = await executeTool('closeTab', { tabId });
+
+      if (result?.error) {
+        throw new Error(result.error);
+      }
+
+      console.log(`✅ [CloseTab] Closed tab ${result?.closedTabId}, current tab is ${result?.currentTabId}`);
+
+      return {
+        success: true,
+        closedTabId: result?.closedTabId,
+        currentTabId: result?.currentTabId,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    } catch (error) {
+      console.error(`❌ [CloseTab] Failed to close tab:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown close tab error',
+        tabId,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    }
+  },
+});
@@ -0,0 +1,60 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Extract Table Tool - AI SDK 2.0 compliant
+ * Returns HTML tables, ARIA grids and repeated card/list layouts as rows keyed by
+ * normalized column headers, with a ref per row for follow-up clicks
+ */
+export const extractTableTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
+  description: 'Extract tabular data from the current page: HTML tables (colspan/rowspan and stacked headers normalized), ARIA grids, and repeated card or list layouts. Each row comes back as {header: value} cells with a ref (e.g. "e12") usable with click. Scope with a selector or ref when the page has several tables.',
+  inputSchema: z.object({
+    selector: z.string().optional().describe('CSS selector of a table or container to search within'),
+    ref: z.string().optional().describe('Element ref from getAccessibilitySnapshot to search within'),
+    maxTables: z.number().int().min(1).max(50).optional().default(10).describe('Maximum number of tables to return'),
+    maxRows: z.number().int().min(1).max(1000).optional().default(200).describe('Maximum rows per table'),
+    includeLists: z.boolean().optional().default(true).describe('Also detect repeated card/list structures'),
+  }),
+  execute: async ({ selector, ref, maxTables = 10, maxRows = 200, includeLists = true }, { toolCallId, abortSignal }) => {
+    try {
+      if (abortSignal?.aborted) {
+        throw new Error('Table extraction aborted');
+      }
+
+      console.log(`📊 [ExtractTable] Extracting tables:`, { selector, ref, maxTables, maxRows, includeLists });
+
+      const result = await executeTool('extractTable', { selector, ref, maxTables, maxRows, includeLists });
+
+      if (result?.error) {
+        throw new Error(result.error);
+      }
+
+      const tables = result?.tables || [];
+      console.log(`✅ [ExtractTable] Found ${tables.length} tables`);
+
+      return {
+        success: true,
+        url: result?.url,
+        title: result?.title,
+        tables,
+        tableCount: tables.length,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    } catch (error) {
+      console.error(`❌ [ExtractTable] Failed to extract tables:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown table extraction error',
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    }
+  },
+  onInputStart: () => {
+    console.log('🔍 [ExtractTable] Starting to generate extraction parameters...');
+  },
+  onInputAvailable: ({ input }) => {
+    console.log(`✅ [ExtractTable] Complete extraction input:`, input);
+  },
+});
@@ -0,0 +1,62 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Accessibility Snapshot Tool - AI SDK 2.0 compliant
+ * Returns a compact role/name/state tree of interactive and landmark elements,
+ * each tagged with a ref (e.g. "e12") that click/type accept until the next navigation
+ */
+export const getAccessibilitySnapshotTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
+  description: 'Get an accessibility snapshot of the current page: interactive and landmark elements with role, name, state and a stable ref (e.g. "e12") to pass to click/type instead of a selector. Covers open shadow roots and iframes; refs inside cross-origin frames carry a frame prefix (e.g. "f3:e12").',
+  inputSchema: z.object({
+    maxNodes: z.number().int().min(10).max(2000).optional().default(400).describe('Maximum number of nodes to include'),
+  }),
+  execute: async ({ maxNodes = 400 }, { toolCallId, abortSignal }) => {
+    try {
+      // Check for abort signal
+      if (abortSignal?.aborted) {
+        throw new Error('Accessibility snapshot aborted');
+      }
+
+      console.log(`🌳 [AxSnapshot] Starting snapshot:`, { maxNodes });
+
+      const result = await executeTool('getAccessibilitySnapshot', { maxNodes });
+
+      if (result?.error) {
+        throw new Error(result.error);
+      }
+
+      console.log(`✅ [AxSnapshot] Captured snapshot:`, {
+        url: result?.url,
+        refCount: result?.refCount || 0,
+        truncated: !!result?.truncated,
+      });
+
+      return {
+        success: true,
+        url: result?.url,
+        title: result?.title,
+        snapshot: result?.text || '',
+        refCount: result?.refCount || 0,
+        truncated: !!result?.truncated,
+        session: result?.session,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    } catch (error) {
+      console.error(`❌ [AxSnapshot] Failed to capture snapshot:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown accessibility snapshot error',
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    }
+  },
+  onInputStart: () => {
+    console.log('🔍 [AxSnapshot] Starting to generate snapshot parameters...');
+  },
+  onInputAvailable: ({ input }) => {
+    console.log(`✅ [AxSnapshot] Complete snapshot input:`, input);
+  },
+});
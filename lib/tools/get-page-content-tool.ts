@@ -0,0 +1,58 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { DEFAULT_CONTENT_CHUNK_SIZE, MAX_CONTENT_CHUNK_SIZE, MIN_CONTENT_CHUNK_SIZE } from '../page-content';
+
+/**
+ * Page Content Tool - AI SDK 2.0 compliant
+ * Returns the page's main content (navigation, sidebars and footers stripped) as
+ * Markdown, one chunk at a time, so long pages can be read in full
+ */
+export const getPageContentTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
+  description: 'Read the main content of the current page (article, documentation, post) as Markdown with headings, lists, links, code and tables kept; navigation, sidebars and footers are stripped. Long pages are split into chunks numbered from 1: read chunk 1, then ask for the next chunk while hasMore is true.',
+  inputSchema: z.object({
+    chunk: z.number().int().min(1).optional().default(1).describe('Chunk number to read, starting at 1'),
+    chunkSize: z.number().int().min(MIN_CONTENT_CHUNK_SIZE).max(MAX_CONTENT_CHUNK_SIZE).optional().default(DEFAULT_CONTENT_CHUNK_SIZE).describe('Maximum characters per chunk'),
+  }),
+  execute: async ({ chunk = 1, chunkSize = DEFAULT_CONTENT_CHUNK_SIZE }, { toolCallId, abortSignal }) => {
+    try {
+      if (abortSignal?.aborted) {
+        throw new Error('Page content read aborted');
+      }
+
+      console.log(`📖 [PageContent] Reading chunk:`, { chunk, chunkSize });
+
+      const result = await executeTool('getPageContent', { chunk, chunkSize });
+
+      if (result?.error) {
+        throw new Error(result.error);
+      }
+
+      console.log(`✅ [PageContent] Read chunk ${result?.chunk} of ${result?.totalChunks}:`, {
+        url: result?.url,
+        source: result?.source,
+        length: result?.markdown?.length || 0,
+      });
+
+      return {
+        success: true,
+        ...result,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    } catch (error) {
+      console.error(`❌ [PageContent] Failed to read page content:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown page content error',
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    }
+  },
+  onInputStart: () => {
+    console.log('🔍 [PageContent] Starting to generate read parameters...');
+  },
+  onInputAvailable: ({ input }) => {
+    console.log(`✅ [PageContent] Complete read input:`, input);
+  },
+});
@@ -0,0 +1,52 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * GoBack Tool - AI SDK 2.0 compliant
+ * Goes back one page in the tab history and waits for the page to load like navigate.
+ */
+export const goBackTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
+  description: 'Go back one page in the tab history (like the browser Back button). Returns once the previous page has loaded and gone quiet.',
+  inputSchema: z.object({
+    timeout: z.number().optional().default(30000).describe('Navigation timeout in milliseconds'),
+    quietMs: z.number().int().min(0).max(10000).optional().describe('How long network and DOM must stay quiet after load (default 500ms, 0 to skip)'),
+  }),
+  execute: async ({ timeout = 30000, quietMs }, { toolCallId, abortSignal }) => {
+    try {
+      // Check for abort signal
+      if (abortSignal?.aborted) {
+        throw new Error('Go back aborted');
+      }
+
+      console.log(`⬅️ [GoBack] Going back in history...`);
+
+      const result = await executeTool('goBack', { timeout, quietMs });
+
+      if (result?.error) {
+        throw new Error(result.error);
+      }
+
+      console.log(`✅ [GoBack] Now on: ${result?.url}`);
+
+      return {
+        success: true,
+        url: result?.url,
+        title: result?.title || '',
+        sameDocument: !!result?.sameDocument,
+        status: result?.status,
+        warning: result?.warning,
+        timing: result?.timing,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    } catch (error) {
+      console.error(`❌ [GoBack] Failed:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown go back error',
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    }
+  },
+});
@@ -0,0 +1,77 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import {
+  DEFAULT_HARVEST_IDLE_ROUNDS,
+  DEFAULT_HARVEST_MAX_ITEMS,
+  DEFAULT_HARVEST_TIMEOUT_MS,
+  MAX_HARVEST_ITEMS,
+  MAX_HARVEST_TIMEOUT_MS,
+} from '../list-harvester';
+
+/**
+ * Harvest List Tool - AI SDK 2.0 compliant
+ * Collects every item of an infinite-scroll feed, "Load more" list or paginated result
+ * set in one call instead of one scroll per model turn
+ */
+export const harvestListTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
+  description: 'Collect all items of a list that grows by scrolling, a "Load more" button or "Next" pages, in one call. Pass the ref (or selector) of the element containing the items; the tool scrolls or clicks until it has maxItems, runs out of time, or several rounds bring nothing new. Items come back with their text, links and ref, deduplicated by content.',
+  inputSchema: z.object({
+    ref: z.string().optional().describe('Ref of the list container from getAccessibilitySnapshot (preferred)'),
+    selector: z.string().optional().describe('CSS selector of the list container'),
+    mode: z.enum(['auto', 'scroll', 'click']).optional().default('auto').describe('auto: click "Load more"/"Next" when present, else scroll; scroll: only scroll; click: only click'),
+    loadMoreRef: z.string().optional().describe('Ref of the "Load more" or "Next" control, when it is not found automatically'),
+    maxItems: z.number().int().min(1).max(MAX_HARVEST_ITEMS).optional().default(DEFAULT_HARVEST_MAX_ITEMS),
+    timeoutMs: z.number().int().min(1000).max(MAX_HARVEST_TIMEOUT_MS).optional().default(DEFAULT_HARVEST_TIMEOUT_MS),
+    maxIdleRounds: z.number().int().min(1).max(20).optional().default(DEFAULT_HARVEST_IDLE_ROUNDS).describe('Rounds in a row without new items before stopping'),
+  }),
+  execute: async (input, { toolCallId, abortSignal }) => {
+    try {
+      if (abortSignal?.aborted) {
+        throw new Error('List harvest aborted');
+      }
+      if (!input.ref && !input.selector) {
+        throw new Error('Provide the ref or selector of the list container');
+      }
+
+      console.log(`🧺 [HarvestList] Starting harvest:`, input);
+
+      const result = await executeTool('harvestList', input);
+
+      if (result?.success === false) {
+        throw new Error(result.error || 'List harvest failed');
+      }
+
+      console.log(`✅ [HarvestList] Collected ${result?.items?.length || 0} items:`, {
+        rounds: result?.rounds,
+        pages: result?.pages,
+        stoppedBecause: result?.stoppedBecause,
+      });
+
+      return {
+        success: true,
+        items: result?.items || [],
+        itemCount: result?.items?.length || 0,
+        rounds: result?.rounds,
+        pages: result?.pages,
+        stoppedBecause: result?.stoppedBecause,
+        duration: result?.duration,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    } catch (error) {
+      console.error(`❌ [HarvestList] Failed to harvest list:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown list harvest error',
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    }
+  },
+  onInputStart: () => {
+    console.log('🔍 [HarvestList] Starting to generate harvest parameters...');
+  },
+  onInputAvailable: ({ input }) => {
+    console.log(`✅ [HarvestList] Complete harvest input:`, input);
+  },
+});
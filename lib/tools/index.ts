@@ -16,11 +16,26 @@
 export { navigateTool } from './navigate-tool';
 export { clickTool } from './click-tool';
 export { typeTool } from './type-tool';
+export { selectOptionTool } from './select-option-tool';
+export { setCheckedTool } from './set-checked-tool';
+export { setDateTool } from './set-date-tool';
+export { uploadFileTool } from './upload-file-tool';
 export { getPageContextTool } from './get-page-context-tool';
+export { getPageContentTool } from './get-page-content-tool';
+export { getAccessibilitySnapshotTool } from './get-accessibility-snapshot-tool';
+export { extractTableTool } from './extract-table-tool';
+export { harvestListTool } from './harvest-list-tool';
 export { screenshotTool } from './screenshot-tool';
 export { scrollTool } from './scroll-tool';
 export { waitTool } from './wait-tool';
 export { pressKeyTool } from './press-key-tool';
+export { openTabTool } from './open-tab-tool';
+export { switchTabTool } from './switch-tab-tool';
+export { listTabsTool } from './list-tabs-tool';
+export { closeTabTool } from './close-tab-tool';
+export { goBackTool } from './go-back-tool';
+export { goForwardTool } from './go-forward-tool';
+export { reloadTool } from './reload-tool';
 
 /**
  * Complete browser automation tool set factory
@@ -29,22 +44,52 @@ export { pressKeyTool } from './press-key-tool';
 import { navigateTool } from './navigate-tool';
 import { clickTool } from './click-tool';
 import { typeTool } from './type-tool';
+import { selectOptionTool } from './select-option-tool';
+import { setCheckedTool } from './set-checked-tool';
+import { setDateTool } from './set-date-tool';
+import { uploadFileTool } from './upload-file-tool';
 import { getPageContextTool } from './get-page-context-tool';
+import { getPageContentTool } from './get-page-content-tool';
+import { getAccessibilitySnapshotTool } from './get-accessibility-snapshot-tool';
+import { extractTableTool } from './extract-table-tool';
+import { harvestListTool } from './harvest-list-tool';
 import { screenshotTool } from './screenshot-tool';
 import { scrollTool } from './scroll-tool';
 import { waitTool } from './wait-tool';
 import { pressKeyTool } from './press-key-tool';
+import { openTabTool } from './open-tab-tool';
+import { switchTabTool } from './switch-tab-tool';
+import { listTabsTool } from './list-tabs-tool';
+import { closeTabTool } from './close-tab-tool';
+import { goBackTool } from './go-back-tool';
+import { goForwardTool } from './go-forward-tool';
+import { reloadTool } from './reload-tool';
 
 export const createBrowserAutomationTools = (executeTool: (toolName: string, params: any) => Promise<any>, allowedDomains: string[] = []) => {
   return {
     navigate: navigateTool(executeTool, allowedDomains),
     click: clickTool(executeTool),
     type: typeTool(executeTool),
+    selectOption: selectOptionTool(executeTool),
+    setChecked: setCheckedTool(executeTool),
+    setDate: setDateTool(executeTool),
+    uploadFile: uploadFileTool(executeTool),
     getPageContext: getPageContextTool(executeTool),
+    getPageContent: getPageContentTool(executeTool),
+    getAccessibilitySnapshot: getAccessibilitySnapshotTool(executeTool),
+    extractTable: extractTableTool(executeTool),
+    harvestList: harvestListTool(executeTool),
     screenshot: screenshotTool(executeTool),
     scroll: scrollTool(executeTool),
     wait: waitTool(executeTool),
     pressKey: pressKeyTool(executeTool),
+    openTab: openTabTool(executeTool),
+    switchTab: switchTabTool(executeTool),
+    listTabs: listTabsTool(executeTool),
+    closeTab: closeTabTool(executeTool),
+    goBack: goBackTool(executeTool),
+    goForward: goForwardTool(executeTool),
+    reload: reloadTool(executeTool),
   };
 };
 
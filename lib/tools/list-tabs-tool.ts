@@ -0,0 +1,43 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * List Tabs Tool - AI SDK 2.0 compliant
+ * Lists the tabs owned by the current workflow run and marks the current one
+ */
+export const listTabsTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
+  description: 'List the tabs opened in this run with their id, URL, title and which one is current.',
+  inputSchema: z.object({}),
+  execute: async (_input, { toolCallId, abortSignal }) => {
+    try {
+      // Check for abort signal
+      if (abortSignal?.aborted) {
+        throw new Error('List tabs aborted');
+      }
+
+      const result = await executeTool('listTabs', {});
+
+      if (result?.error) {
+        throw new Error(result.error);
+      }
+
+      const tabs = result?.tabs || [];
+      console.log(`✅ [ListTabs] Found ${tabs.length} tab(s)`);
+
+      return {
+        success: true,
+        tabs,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    } catch (error) {
+      console.error(`❌ [ListTabs] Failed to list tabs:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown list tabs error',
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    }
+  },
+});
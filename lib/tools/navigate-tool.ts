@@ -6,11 +6,12 @@ import { z } from 'zod';
  * Provides type-safe navigation with comprehensive error handling and approval workflow
  */
 export const navigateTool = (executeTool: (toolName: string, params: any) => Promise<any>, allowedDomains: string[] = []) => tool({
-  description: 'Navigate to a specific URL. Validates URL format and handles navigation errors.',
+  description: 'Navigate to a specific URL. Returns once the page has loaded and gone quiet, with the final URL, redirect chain, HTTP status and load timing.',
   inputSchema: z.object({
     url: z.string().url().describe('The URL to navigate to. Must be a valid HTTP/HTTPS URL.'),
     waitForLoad: z.boolean().optional().default(true).describe('Wait for page to fully load before returning'),
     timeout: z.number().optional().default(30000).describe('Navigation timeout in milliseconds'),
+    quietMs: z.number().int().min(0).max(10000).optional().describe('How long network and DOM must stay quiet after load (default 500ms, 0 to skip)'),
   }),
   // AI SDK 6 Beta: Approval for external domains
   needsApproval: async ({ url }) => {
@@ -22,7 +23,7 @@ export const navigateTool = (executeTool: (toolName: string, params: any) => Pro
       return true; // Require approval for invalid URLs
     }
   },
-  execute: async ({ url, waitForLoad = true, timeout = 30000 }, { toolCallId, messages, abortSignal }) => {
+  execute: async ({ url, waitForLoad = true, timeout = 30000, quietMs }, { toolCallId, messages, abortSignal }) => {
     try {
       // Check for abort signal
       if (abortSignal?.aborted) {
@@ -32,19 +33,24 @@ export const navigateTool = (executeTool: (toolName: string, params: any) => Pro
       console.log(`🧭 [Navigate] Starting navigation to: ${url}`);
       
       // Execute navigation via context
-      const result = await executeTool('navigate', { url, waitForLoad, timeout });
+      const result = await executeTool('navigate', { url, waitForLoad, timeout, quietMs: waitForLoad ? quietMs : 0 });
       
       if (result?.error) {
         throw new Error(result.error);
       }
       
-      console.log(`✅ [Navigate] Successfully navigated to: ${url}`);
+      console.log(`✅ [Navigate] Successfully navigated to: ${result?.url || url}`);
       
       return {
         success: true,
-        url: result?.finalUrl || url,
+        url: result?.url || url,
+        requestedUrl: url,
         title: result?.title || '',
-        loadTime: result?.loadTime || 0,
+        redirects: result?.redirects || [],
+        status: result?.status,
+        warning: result?.warning,
+        loadTime: result?.timing?.loadMs || 0,
+        timing: result?.timing,
         timestamp: Date.now(),
         toolCallId,
       };
@@ -0,0 +1,55 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Open Tab Tool - AI SDK 2.0 compliant
+ * Opens a URL in a new tab owned by the current workflow run, in the background,
+ * and (by default) makes it the tab subsequent page tools act on
+ */
+export const openTabTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
+  description: 'Open a URL in a new agent tab (in the background) to compare pages side by side. By default the new tab becomes the current tab for click/type/getPageContext; use switchTab to go back.',
+  inputSchema: z.object({
+    url: z.string().url().describe('The URL to open. Must be a valid HTTP/HTTPS URL.'),
+    switchTo: z.boolean().optional().default(true).describe('Make the new tab the current tab for subsequent tools'),
+  }),
+  execute: async ({ url, switchTo = true }, { toolCallId, abortSignal }) => {
+    try {
+      // Check for abort signal
+      if (abortSignal?.aborted) {
+        throw new Error('Open tab aborted');
+      }
+
+      console.log(`🗂️ [OpenTab] Opening tab:`, { url, switchTo });
+
+      const result = await executeTool('openTab', { url, switchTo });
+
+      if (result?.error) {
+        throw new Error(result.error);
+      }
+
+      console.log(`✅ [OpenTab] Opened tab ${result?.tab?.tabId}`);
+
+      return {
+        success: true,
+        tab: result?.tab,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    } catch (error) {
+      console.error(`❌ [OpenTab] Failed to open ${url}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown open tab error',
+        url,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    }
+  },
+  onInputStart: () => {
+    console.log('🔍 [OpenTab] Starting to generate open tab parameters...');
+  },
+  onInputAvailable: ({ input }) => {
+    console.log(`✅ [OpenTab] Complete open tab input:`, input);
+  },
+});
@@ -0,0 +1,53 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Reload Tool - AI SDK 2.0 compliant
+ * Reloads the current page and waits for it to load like navigate.
+ */
+export const reloadTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
+  description: 'Reload the current page. Returns once the page has loaded and gone quiet.',
+  inputSchema: z.object({
+    bypassCache: z.boolean().optional().default(false).describe('Skip the browser cache (hard reload)'),
+    timeout: z.number().optional().default(30000).describe('Navigation timeout in milliseconds'),
+    quietMs: z.number().int().min(0).max(10000).optional().describe('How long network and DOM must stay quiet after load (default 500ms, 0 to skip)'),
+  }),
+  execute: async ({ bypassCache = false, timeout = 30000, quietMs }, { toolCallId, abortSignal }) => {
+    try {
+      // Check for abort signal
+      if (abortSignal?.aborted) {
+        throw new Error('Reload aborted');
+      }
+
+      console.log(`🔄 [Reload] Reloading page...`);
+
+      const result = await executeTool('reload', { bypassCache, timeout, quietMs });
+
+      if (result?.error) {
+        throw new Error(result.error);
+      }
+
+      console.log(`✅ [Reload] Now on: ${result?.url}`);
+
+      return {
+        success: true,
+        url: result?.url,
+        title: result?.title || '',
+        sameDocument: !!result?.sameDocument,
+        status: result?.status,
+        warning: result?.warning,
+        timing: result?.timing,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    } catch (error) {
+      console.error(`❌ [Reload] Failed:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown reload error',
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    }
+  },
+});
@@ -0,0 +1,62 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Select Option Tool - AI SDK 2.0 compliant
+ * Picks options in a native <select> or a custom combobox/listbox by value or visible label
+ */
+export const selectOptionTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
+  description: 'Choose one or more options in a dropdown: a native <select>, an ARIA combobox (including type-ahead ones) or a listbox. Options are matched by value, then by visible label (exact, then prefix, then substring). Address the control by ref, selector or its label text. Use this instead of clicking a dropdown open and clicking an option.',
+  inputSchema: z.object({
+    ref: z.string().optional().describe('Ref of the select or combobox from getAccessibilitySnapshot (preferred)'),
+    selector: z.string().optional().describe('CSS selector of the select or combobox'),
+    label: z.string().optional().describe('Label text of the control, when there is no ref or selector'),
+    values: z.array(z.string()).min(1).describe('Option values or visible labels to select; more than one only for multi-selects'),
+  }),
+  execute: async ({ ref, selector, label, values }, { toolCallId, abortSignal }) => {
+    try {
+      if (abortSignal?.aborted) {
+        throw new Error('Select option aborted');
+      }
+      if (!ref && !selector && !label) {
+        throw new Error('Provide the ref, selector or label of the control');
+      }
+
+      console.log(`🔽 [SelectOption] Selecting:`, { ref, selector, label, values });
+
+      const result = await executeTool('selectOption', { ref, selector, label, values });
+
+      if (result?.success === false || result?.error) {
+        throw new Error(result.error || result.message || 'Select option failed');
+      }
+
+      console.log(`✅ [SelectOption] Selected:`, result?.selected);
+
+      return {
+        success: true,
+        selected: result?.selected || values,
+        message: result?.message,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    } catch (error) {
+      console.error(`❌ [SelectOption] Failed to select option:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown select option error',
+        ref,
+        selector,
+        label,
+        values,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    }
+  },
+  onInputStart: () => {
+    console.log('🔍 [SelectOption] Starting to generate select parameters...');
+  },
+  onInputAvailable: ({ input }) => {
+    console.log(`✅ [SelectOption] Complete select input:`, input);
+  },
+});
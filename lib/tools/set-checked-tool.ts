@@ -0,0 +1,62 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Set Checked Tool - AI SDK 2.0 compliant
+ * Checks or unchecks a checkbox, radio or switch; a no-op when it is already in that state
+ */
+export const setCheckedTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
+  description: 'Check or uncheck a checkbox, radio button or switch, addressed by ref, selector or label text (e.g. "I agree to the terms"). Unlike click, it does nothing when the control is already in the requested state, so it is safe to repeat. Radio buttons can only be checked.',
+  inputSchema: z.object({
+    ref: z.string().optional().describe('Ref of the checkbox, radio or switch from getAccessibilitySnapshot (preferred)'),
+    selector: z.string().optional().describe('CSS selector of the control'),
+    label: z.string().optional().describe('Label text of the control, when there is no ref or selector'),
+    checked: z.boolean().optional().default(true).describe('true to check, false to uncheck'),
+  }),
+  execute: async ({ ref, selector, label, checked = true }, { toolCallId, abortSignal }) => {
+    try {
+      if (abortSignal?.aborted) {
+        throw new Error('Set checked aborted');
+      }
+      if (!ref && !selector && !label) {
+        throw new Error('Provide the ref, selector or label of the control');
+      }
+
+      console.log(`☑️ [SetChecked] ${checked ? 'Checking' : 'Unchecking'}:`, { ref, selector, label });
+
+      const result = await executeTool('setChecked', { ref, selector, label, checked });
+
+      if (result?.success === false || result?.error) {
+        throw new Error(result.error || result.message || 'Set checked failed');
+      }
+
+      console.log(`✅ [SetChecked] ${result?.message}`);
+
+      return {
+        success: true,
+        checked: result?.checked ?? checked,
+        changed: result?.changed,
+        message: result?.message,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    } catch (error) {
+      console.error(`❌ [SetChecked] Failed to set checked state:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown set checked error',
+        ref,
+        selector,
+        label,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    }
+  },
+  onInputStart: () => {
+    console.log('🔍 [SetChecked] Starting to generate checkbox parameters...');
+  },
+  onInputAvailable: ({ input }) => {
+    console.log(`✅ [SetChecked] Complete checkbox input:`, input);
+  },
+});
@@ -0,0 +1,62 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Set Date Tool - AI SDK 2.0 compliant
+ * Fills date, time, month and week inputs, or text date fields in their placeholder format
+ */
+export const setDateTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
+  description: 'Set a date or time field. Native date/datetime-local/time/month/week inputs get the value in their required format and respect min/max; text date fields are filled in the format their placeholder shows (e.g. MM/DD/YYYY). Pass the date as ISO (2024-05-31, 2024-05-31T14:30, 14:30). For a calendar widget without a text field, click through it instead.',
+  inputSchema: z.object({
+    ref: z.string().optional().describe('Ref of the date field from getAccessibilitySnapshot (preferred)'),
+    selector: z.string().optional().describe('CSS selector of the date field'),
+    label: z.string().optional().describe('Label text of the field, when there is no ref or selector'),
+    value: z.string().describe('Date or time in ISO form, e.g. "2024-05-31", "2024-05-31T14:30", "14:30", "2024-05"'),
+  }),
+  execute: async ({ ref, selector, label, value }, { toolCallId, abortSignal }) => {
+    try {
+      if (abortSignal?.aborted) {
+        throw new Error('Set date aborted');
+      }
+      if (!ref && !selector && !label) {
+        throw new Error('Provide the ref, selector or label of the field');
+      }
+
+      console.log(`📅 [SetDate] Setting date:`, { ref, selector, label, value });
+
+      const result = await executeTool('setDate', { ref, selector, label, value });
+
+      if (result?.success === false || result?.error) {
+        throw new Error(result.error || result.message || 'Set date failed');
+      }
+
+      console.log(`✅ [SetDate] ${result?.message}`);
+
+      return {
+        success: true,
+        value: result?.value ?? value,
+        message: result?.message,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    } catch (error) {
+      console.error(`❌ [SetDate] Failed to set date:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown set date error',
+        ref,
+        selector,
+        label,
+        value,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    }
+  },
+  onInputStart: () => {
+    console.log('🔍 [SetDate] Starting to generate date parameters...');
+  },
+  onInputAvailable: ({ input }) => {
+    console.log(`✅ [SetDate] Complete date input:`, input);
+  },
+});
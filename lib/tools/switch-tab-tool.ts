@@ -0,0 +1,55 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Switch Tab Tool - AI SDK 2.0 compliant
+ * Changes which of the run's tabs page tools act on. Doesn't move the user's
+ * focus unless `activate` is set.
+ */
+export const switchTabTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
+  description: 'Switch the current agent tab to another tab opened in this run (ids from listTabs or openTab). Subsequent click/type/getPageContext calls act on that tab.',
+  inputSchema: z.object({
+    tabId: z.number().int().describe('Id of the tab to switch to'),
+    activate: z.boolean().optional().default(false).describe('Also bring the tab to the front in the browser window'),
+  }),
+  execute: async ({ tabId, activate = false }, { toolCallId, abortSignal }) => {
+    try {
+      // Check for abort signal
+      if (abortSignal?.aborted) {
+        throw new Error('Switch tab aborted');
+      }
+
+      console.log(`🗂️ [SwitchTab] Switching to tab:`, { tabId, activate });
+
+      const result = await executeTool('switchTab', { tabId, activate });
+
+      if (result?.error) {
+        throw new Error(result.error);
+      }
+
+      console.log(`✅ [SwitchTab] Current tab is now ${tabId}`);
+
+      return {
+        success: true,
+        tab: result?.tab,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    } catch (error) {
+      console.error(`❌ [SwitchTab] Failed to switch to tab ${tabId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown switch tab error',
+        tabId,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    }
+  },
+  onInputStart: () => {
+    console.log('🔍 [SwitchTab] Starting to generate switch tab parameters...');
+  },
+  onInputAvailable: ({ input }) => {
+    console.log(`✅ [SwitchTab] Complete switch tab input:`, input);
+  },
+});
@@ -6,9 +6,10 @@ import { z } from 'zod';
  * Provides type-safe text input with comprehensive error handling
  */
 export const typeTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
-  description: 'Type text into an input field or textarea. Handles element selection and text validation.',
+  description: 'Type text into an input field or textarea, addressed by accessibility snapshot ref or CSS selector. Handles element selection and text validation.',
   inputSchema: z.object({
-    selector: z.string().describe('CSS selector of the input element or textarea'),
+    ref: z.string().optional().describe('Element ref from getAccessibilitySnapshot (e.g. "e12"). Preferred over selector.'),
+    selector: z.string().optional().describe('CSS selector of the input element or textarea'),
     text: z.string().describe('Text to type into the element'),
     clearFirst: z.boolean().optional().default(false).describe('Clear existing text before typing'),
     delay: z.number().optional().default(50).describe('Delay between keystrokes in milliseconds'),
@@ -16,6 +17,7 @@ export const typeTool = (executeTool: (toolName: string, params: any) => Promise
     timeout: z.number().optional().default(5000).describe('Timeout for element wait in milliseconds'),
   }),
   execute: async ({ 
+    ref,
     selector, 
     text, 
     clearFirst = false, 
@@ -30,17 +32,18 @@ export const typeTool = (executeTool: (toolName: string, params: any) => Promise
       }
 
       // Validate input
-      if (!selector) {
-        throw new Error('Selector is required for type operation');
+      if (!ref && !selector) {
+        throw new Error('Either ref or selector is required for type operation');
       }
       if (text === undefined) {
         throw new Error('Text is required for type operation');
       }
 
-      console.log(`⌨️ [Type] Starting type operation:`, { selector, textLength: text.length, clearFirst, delay });
+      console.log(`⌨️ [Type] Starting type operation:`, { ref, selector, textLength: text.length, clearFirst, delay });
       
       // Execute typing via context
       const result = await executeTool('type', { 
+        ref,
         selector, 
         text, 
         clearFirst, 
@@ -58,7 +61,7 @@ export const typeTool = (executeTool: (toolName: string, params: any) => Promise
       return {
         success: true,
         typedText: text,
-        element: result?.element || selector,
+        element: result?.element || ref || selector,
         cleared: clearFirst,
         charactersTyped: text.length,
         timestamp: Date.now(),
@@ -69,6 +72,7 @@ export const typeTool = (executeTool: (toolName: string, params: any) => Promise
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown type error',
+        ref,
         selector,
         text,
         timestamp: Date.now(),
@@ -84,6 +88,7 @@ export const typeTool = (executeTool: (toolName: string, params: any) => Promise
   },
   onInputAvailable: ({ input }) => {
     console.log(`✅ [Type] Complete type input:`, { 
+      ref: input.ref,
       selector: input.selector, 
       textLength: input.text?.length || 0,
       clearFirst: input.clearFirst 
@@ -0,0 +1,63 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Upload File Tool - AI SDK 2.0 compliant
+ * Puts files the user attached in the composer into an <input type=file> or drop zone.
+ * The model only names the attachments; the sidepanel supplies their contents.
+ */
+export const uploadFileTool = (executeTool: (toolName: string, params: any) => Promise<any>) => tool({
+  description: 'Upload files the user attached to their message into a file input or drop zone on the page. Name the attachments to upload (as listed under attached files); only files the user attached can be uploaded. Address the file input (it may be hidden) or the drop zone by ref, selector or label text.',
+  inputSchema: z.object({
+    ref: z.string().optional().describe('Ref of the file input or drop zone from getAccessibilitySnapshot (preferred)'),
+    selector: z.string().optional().describe('CSS selector of the file input or drop zone, e.g. input[type=file]'),
+    label: z.string().optional().describe('Label text of the file input, when there is no ref or selector'),
+    attachments: z.array(z.string()).min(1).describe('File names of the user\'s attachments to upload'),
+  }),
+  execute: async ({ ref, selector, label, attachments }, { toolCallId, abortSignal }) => {
+    try {
+      if (abortSignal?.aborted) {
+        throw new Error('Upload aborted');
+      }
+      if (!ref && !selector && !label) {
+        throw new Error('Provide the ref, selector or label of the file input');
+      }
+
+      console.log(`📎 [UploadFile] Uploading:`, { ref, selector, label, attachments });
+
+      const result = await executeTool('uploadFile', { ref, selector, label, attachments });
+
+      if (result?.success === false || result?.error) {
+        throw new Error(result.error || result.message || 'Upload failed');
+      }
+
+      console.log(`✅ [UploadFile] ${result?.message}`);
+
+      return {
+        success: true,
+        files: result?.files || attachments,
+        message: result?.message,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    } catch (error) {
+      console.error(`❌ [UploadFile] Failed to upload:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown upload error',
+        ref,
+        selector,
+        label,
+        attachments,
+        timestamp: Date.now(),
+        toolCallId,
+      };
+    }
+  },
+  onInputStart: () => {
+    console.log('🔍 [UploadFile] Starting to generate upload parameters...');
+  },
+  onInputAvailable: ({ input }) => {
+    console.log(`✅ [UploadFile] Complete upload input:`, input);
+  },
+});
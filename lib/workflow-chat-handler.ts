@@ -8,38 +8,76 @@
  * Based on: https://useworkflow.dev/docs/api-reference/workflow-ai/workflow-chat-transport
  */
 
-import type { Message } from '../types';
+import type { Message, Settings } from '../types';
 import { startWorkflow, endWorkflow } from './workflow-utils';
+import { releaseAgentTabs } from './agent-tabs';
+import { WorkflowJournal, getJournalRun, setJournalRunStatus, pruneWorkflowJournal } from './workflow-journal';
+import { workflowStreamHub, createStreamingMessageWriter, createHubReadableStream } from './workflow-stream';
+import { loadSettings } from './settings-store';
 
 export interface WorkflowChatRequest {
   messages: Message[];
-  workflowRunId?: string; // For resumption
+  workflowRunId?: string; // For resumption, or set up front by callers that prepare the run's tab first
   settings?: {
-    provider: 'google' | 'gateway';
+    provider: Settings['provider'];
     apiKey: string;
     model?: string;
   };
 }
 
+// Background messages from a run (tool calls, page context). A run started by the
+// background itself can't use chrome.runtime.sendMessage, which never reaches the
+// sender's own context, so the background registers its router here.
+export type BackgroundMessageDispatcher = (message: any) => Promise<any>;
+
+let backgroundDispatcher: BackgroundMessageDispatcher | null = null;
+
+export function setBackgroundMessageDispatcher(dispatcher: BackgroundMessageDispatcher | null): void {
+  backgroundDispatcher = dispatcher;
+}
+
+function sendToBackground(message: any): Promise<any> {
+  if (backgroundDispatcher) {
+    return backgroundDispatcher(message);
+  }
+  if (typeof chrome === 'undefined' || !chrome.runtime) {
+    return Promise.reject(new Error('Chrome runtime not available'));
+  }
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage(message, (response) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else {
+        resolve(response);
+      }
+    });
+  });
+}
+
 export interface WorkflowChatResponse {
   workflowRunId: string;
   stream: ReadableStream<Uint8Array>;
 }
 
-// Store active workflow runs (in browser extension, use chrome.storage)
+// Active workflow runs in this service worker instance; the step journal
+// (IndexedDB) outlives it and is what resumption replays from
 const activeWorkflowRuns = new Map<string, {
   startTime: number;
   messages: Message[];
   abortController?: AbortController;
 }>();
 
+export function createWorkflowRunId(): string {
+  return `chat_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
 /**
  * Start a new workflow-based chat session
  */
 export async function startWorkflowChat(
   request: WorkflowChatRequest
 ): Promise<WorkflowChatResponse> {
-  const workflowRunId = `chat_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  const workflowRunId = request.workflowRunId || createWorkflowRunId();
   
   // Store workflow run info
   activeWorkflowRuns.set(workflowRunId, {
@@ -49,39 +87,54 @@ export async function startWorkflowChat(
 
   // Start workflow tracking
   startWorkflow(workflowRunId);
+  void pruneWorkflowJournal();
 
   // Create abort controller for cancellation
   const abortController = new AbortController();
   activeWorkflowRuns.get(workflowRunId)!.abortController = abortController;
 
-  // Create stream for chat response
-  const stream = createChatStream(workflowRunId, request, abortController.signal);
+  // Run in the background; the sidepanel follows it over a workflow-stream port
+  workflowStreamHub.open(workflowRunId);
+  void runWorkflowChat(workflowRunId, request, abortController.signal);
 
   return {
     workflowRunId,
-    stream,
+    stream: createHubReadableStream(workflowRunId),
   };
 }
 
 /**
- * Resume an interrupted workflow chat stream
+ * Resume an interrupted workflow chat stream.
+ * Completed steps are replayed from the journal; execution continues from the
+ * first incomplete step. Works after a service worker restart.
  */
 export async function resumeWorkflowChat(
   workflowRunId: string
 ): Promise<ReadableStream<Uint8Array> | null> {
-  const workflowRun = activeWorkflowRuns.get(workflowRunId);
-  
+  let workflowRun = activeWorkflowRuns.get(workflowRunId);
+
   if (!workflowRun) {
-    console.warn(`Workflow run ${workflowRunId} not found`);
-    return null;
+    // Service worker was restarted - recover the run from the journal
+    const journaledRun = await getJournalRun(workflowRunId);
+    if (!journaledRun) {
+      console.warn(`Workflow run ${workflowRunId} not found`);
+      return null;
+    }
+    workflowRun = { startTime: journaledRun.createdAt, messages: journaledRun.messages };
+    activeWorkflowRuns.set(workflowRunId, workflowRun);
+    startWorkflow(workflowRunId);
+  } else {
+    // Stop the in-flight execution before replaying, so two copies don't drive the tab
+    workflowRun.abortController?.abort();
   }
 
   // Create new abort controller for resumed stream
   const abortController = new AbortController();
   workflowRun.abortController = abortController;
 
-  // Resume streaming
-  const stream = createChatStream(
+  // Resumed chunks continue the run's existing indices, so subscribed sidepanels keep following
+  workflowStreamHub.open(workflowRunId);
+  void runWorkflowChat(
     workflowRunId,
     {
       messages: workflowRun.messages,
@@ -90,215 +143,144 @@ export async function resumeWorkflowChat(
     abortController.signal
   );
 
-  return stream;
+  return createHubReadableStream(workflowRunId);
 }
 
 /**
- * Create a chat stream that can be resumed
+ * Execute a workflow run, publishing its UI output to the stream hub
  */
-function createChatStream(
+async function runWorkflowChat(
   workflowRunId: string,
   request: WorkflowChatRequest,
   abortSignal: AbortSignal
-): ReadableStream<Uint8Array> {
-  const encoder = new TextEncoder();
-  let chunkIndex = 0;
-
-  return new ReadableStream({
-    async start(controller) {
-      try {
-        // Import chat handler (uses browser automation workflow)
-        const { browserAutomationWorkflow } = await import('../workflows/browser-automation-workflow');
-        
-        // Get settings from request or storage
-        const settings = request.settings || await getSettings();
-        
-        if (!settings) {
-          controller.error(new Error('Settings not available'));
-          return;
-        }
+): Promise<void> {
+  const messageWriter = createStreamingMessageWriter(workflowRunId);
+  let journal: WorkflowJournal | undefined;
 
-        // Prepare workflow input
-        const lastUserMessage = request.messages
-          .filter(m => m.role === 'user')
-          .slice(-1)[0];
+  try {
+    journal = await WorkflowJournal.open(workflowRunId, { messages: request.messages });
 
-        if (!lastUserMessage) {
-          controller.error(new Error('No user message found'));
-          return;
-        }
+    // Import chat handler (uses browser automation workflow)
+    const { browserAutomationWorkflow } = await import('../workflows/browser-automation-workflow');
+    
+    // Get settings from request or storage
+    const settings = request.settings || await loadSettings();
+    
+    if (!settings) {
+      throw new Error('Settings not available');
+    }
 
-        // Create context for workflow
-        const context = {
-          executeTool: async (toolName: string, params: any) => {
-            // Send tool execution request to background script
-            if (typeof chrome === 'undefined' || !chrome.runtime) {
-              throw new Error('Chrome runtime not available');
-            }
-            
-            return new Promise((resolve, reject) => {
-              chrome.runtime.sendMessage(
-                {
-                  type: 'EXECUTE_TOOL',
-                  toolName,
-                  params,
-                },
-                (response) => {
-                  if (chrome.runtime.lastError) {
-                    reject(new Error(chrome.runtime.lastError.message));
-                  } else if (response?.success) {
-                    resolve(response.result);
-                  } else {
-                    reject(new Error(response?.error || 'Tool execution failed'));
-                  }
-                }
-              );
-            });
-          },
-          enrichToolResponse: async (res: any, toolName: string) => res,
-          getPageContextAfterAction: async () => {
-            if (typeof chrome === 'undefined' || !chrome.runtime) {
-              throw new Error('Chrome runtime not available');
-            }
-            
-            return new Promise((resolve, reject) => {
-              chrome.runtime.sendMessage(
-                { type: 'GET_PAGE_CONTEXT' },
-                (response) => {
-                  if (chrome.runtime.lastError) {
-                    reject(new Error(chrome.runtime.lastError.message));
-                  } else {
-                    resolve(response);
-                  }
-                }
-              );
-            });
-          },
-          updateLastMessage: (updater: (msg: Message) => Message) => {
-            // Send update message to sidepanel
-            if (typeof chrome !== 'undefined' && chrome.runtime) {
-              chrome.runtime.sendMessage({
-                type: 'UPDATE_MESSAGE',
-                updater: updater.toString(), // Simplified - in real impl, use structured update
-              });
-            }
-          },
-          pushMessage: (msg: Message) => {
-            // Send new message to sidepanel
-            if (typeof chrome !== 'undefined' && chrome.runtime) {
-              chrome.runtime.sendMessage({
-                type: 'PUSH_MESSAGE',
-                message: msg,
-              });
-            }
-          },
-          settings: {
-            provider: settings.provider,
-            apiKey: settings.apiKey,
-            model: settings.model,
-          },
-          messages: request.messages,
-          abortSignal,
-          // Task management handlers using stored TaskManager
-          retryTask: (taskId: string) => {
-            const taskManager = (globalThis as any).currentWorkflowTaskManager;
-            if (taskManager && typeof taskManager.retryTask === 'function') {
-              taskManager.retryTask(taskId, 'Retried from UI');
-            }
-          },
-          cancelTask: (taskId: string) => {
-            const taskManager = (globalThis as any).currentWorkflowTaskManager;
-            if (taskManager && typeof taskManager.cancelTask === 'function') {
-              taskManager.cancelTask(taskId);
-            }
-          },
-        };
-
-        // Run workflow
-        const workflowResult = await browserAutomationWorkflow(
-          {
-            userQuery: lastUserMessage.content,
-            settings: {
-              provider: settings.provider,
-              apiKey: settings.apiKey,
-              model: settings.model,
-            },
-          },
-          context
-        );
-
-        // Store TaskManager for UI task management
-        if (workflowResult.taskManager) {
-          // Store TaskManager globally or in some accessible location
-          (globalThis as any).currentWorkflowTaskManager = workflowResult.taskManager;
-        }
+    // Prepare workflow input
+    const lastUserMessage = request.messages
+      .filter(m => m.role === 'user')
+      .slice(-1)[0];
 
-        // Stream workflow result
-        const resultText = JSON.stringify({
-          type: 'workflow_complete',
-          result: workflowResult.summary || workflowResult.finalResponse,
-        });
+    if (!lastUserMessage) {
+      throw new Error('No user message found');
+    }
 
-        controller.enqueue(encoder.encode(`data: ${resultText}\n\n`));
-        chunkIndex++;
-
-        // Send finish chunk
-        controller.enqueue(encoder.encode(`data: [DONE]\n\n`));
-        
-        // End workflow tracking
-        endWorkflow(workflowRunId);
-        
-        // Clean up
-        activeWorkflowRuns.delete(workflowRunId);
-        
-        controller.close();
-      } catch (error) {
-        console.error('Workflow chat error:', error);
-        
-        // Send error chunk
-        const errorText = JSON.stringify({
-          type: 'error',
-          error: error instanceof Error ? error.message : String(error),
+    // Create context for workflow
+    const context = {
+      executeTool: async (toolName: string, params: any) => {
+        // Send tool execution request to background script
+        const response = await sendToBackground({
+          type: 'EXECUTE_TOOL',
+          toolName,
+          params,
+          workflowRunId,
         });
-        
-        controller.enqueue(encoder.encode(`data: ${errorText}\n\n`));
-        controller.close();
-      }
-    },
-    
-    cancel() {
-      // Clean up on cancellation
-      const workflowRun = activeWorkflowRuns.get(workflowRunId);
-      if (workflowRun?.abortController) {
-        workflowRun.abortController.abort();
-      }
-      activeWorkflowRuns.delete(workflowRunId);
-      endWorkflow(workflowRunId);
-    },
-  });
-}
+        // Same contract as the sidepanel's executeTool: the router's response is the tool result.
+        // Nobody can answer a permissionRequired here; the refusal reaches the model as the error.
+        if (response?.error) {
+          throw new Error(response.error);
+        }
+        return response;
+      },
+      enrichToolResponse: async (res: any, toolName: string) => res,
+      getPageContextAfterAction: async () => sendToBackground({ type: 'GET_PAGE_CONTEXT', workflowRunId }),
+      // Messages live here and reach the sidepanel as indexed chunks
+      updateLastMessage: messageWriter.updateLastMessage,
+      pushMessage: messageWriter.pushMessage,
+      settings: {
+        provider: settings.provider,
+        apiKey: settings.apiKey,
+        model: settings.model,
+      },
+      messages: request.messages,
+      abortSignal,
+      journal,
+      // Task management handlers using stored TaskManager
+      retryTask: (taskId: string) => {
+        const taskManager = (globalThis as any).currentWorkflowTaskManager;
+        if (taskManager && typeof taskManager.retryTask === 'function') {
+          taskManager.retryTask(taskId, 'Retried from UI');
+        }
+      },
+      cancelTask: (taskId: string) => {
+        const taskManager = (globalThis as any).currentWorkflowTaskManager;
+        if (taskManager && typeof taskManager.cancelTask === 'function') {
+          taskManager.cancelTask(taskId);
+        }
+      },
+    };
 
-/**
- * Get settings from chrome.storage
- */
-async function getSettings(): Promise<{
-  provider: 'google' | 'gateway';
-  apiKey: string;
-  model?: string;
-} | null> {
-  if (typeof chrome === 'undefined' || !chrome.storage) {
-    return null;
-  }
-  
-  return new Promise((resolve) => {
-    chrome.storage.local.get(['settings'], (result) => {
-      if (result.settings) {
-        resolve(result.settings);
-      } else {
-        resolve(null);
-      }
+    // Run workflow
+    const workflowResult = await browserAutomationWorkflow(
+      {
+        userQuery: lastUserMessage.content,
+        settings: {
+          provider: settings.provider,
+          apiKey: settings.apiKey,
+          model: settings.model,
+        },
+      },
+      context
+    );
+
+    // Store TaskManager for UI task management
+    if (workflowResult.taskManager) {
+      // Store TaskManager globally or in some accessible location
+      (globalThis as any).currentWorkflowTaskManager = workflowResult.taskManager;
+    }
+
+    // A superseded execution must not end the stream its resumed copy is writing to
+    if (abortSignal.aborted) {
+      return;
+    }
+
+    // Stream workflow result
+    workflowStreamHub.publish(workflowRunId, {
+      type: 'workflow-complete',
+      result: workflowResult.summary || workflowResult.finalResponse,
     });
-  });
+    
+    // End workflow tracking
+    endWorkflow(workflowRunId);
+    
+    // Clean up
+    activeWorkflowRuns.delete(workflowRunId);
+    await journal.finish('completed');
+    await releaseAgentTabs(workflowRunId);
+    
+    workflowStreamHub.end(workflowRunId);
+  } catch (error) {
+    // An aborted run (cancelled or superseded by a resume) stays resumable;
+    // a resumed execution keeps publishing to the same stream
+    if (abortSignal.aborted) {
+      return;
+    }
+    console.error('Workflow chat error:', error);
+    
+    // Send error chunk
+    workflowStreamHub.publish(workflowRunId, {
+      type: 'error',
+      errorText: error instanceof Error ? error.message : String(error),
+    });
+    
+    await journal?.finish('failed');
+    await releaseAgentTabs(workflowRunId);
+    workflowStreamHub.end(workflowRunId);
+  }
 }
 
 /**
@@ -317,6 +299,8 @@ export function cancelWorkflowChat(workflowRunId: string): boolean {
 
   activeWorkflowRuns.delete(workflowRunId);
   endWorkflow(workflowRunId);
+  void setJournalRunStatus(workflowRunId, 'cancelled');
+  workflowStreamHub.end(workflowRunId);
   
   return true;
 }
@@ -0,0 +1,412 @@
+// Workflow Journal - durable step checkpoints for workflow runs
+// Each step's input/output is written to IndexedDB keyed by workflowRunId, so a run
+// cut short by an MV3 service worker eviction can be resumed: completed steps are
+// replayed from the journal and execution continues from the first incomplete one.
+
+import type { Message } from '../types';
+import type { StepJournal } from './workflow-utils';
+
+export type JournalRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+export type JournalStepStatus = 'started' | 'completed' | 'failed';
+
+export interface JournalRunRecord {
+  workflowRunId: string;
+  messages: Message[];
+  status: JournalRunStatus;
+  createdAt: number;
+  updatedAt: number;
+  resumeCount: number;
+}
+
+export interface JournalStepRecord {
+  workflowRunId: string;
+  stepKey: string; // e.g. "planning", "streaming-0", "streaming-0/tool-3"
+  seq: number; // Order the step was first started in
+  status: JournalStepStatus;
+  input?: unknown;
+  output?: unknown;
+  error?: string;
+  startedAt: number;
+  completedAt?: number;
+}
+
+export interface JournalStore {
+  getRun(workflowRunId: string): Promise<JournalRunRecord | undefined>;
+  putRun(run: JournalRunRecord): Promise<void>;
+  listRuns(): Promise<JournalRunRecord[]>;
+  getSteps(workflowRunId: string): Promise<JournalStepRecord[]>;
+  putStep(step: JournalStepRecord): Promise<void>;
+  deleteRun(workflowRunId: string): Promise<void>;
+}
+
+// ============================================
+// IndexedDB store
+// ============================================
+
+const DB_NAME = 'opulent-workflow-journal';
+const DB_VERSION = 1;
+const RUNS_STORE = 'runs';
+const STEPS_STORE = 'steps';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Journal transaction aborted'));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(RUNS_STORE)) {
+        db.createObjectStore(RUNS_STORE, { keyPath: 'workflowRunId' });
+      }
+      if (!db.objectStoreNames.contains(STEPS_STORE)) {
+        const steps = db.createObjectStore(STEPS_STORE, { keyPath: ['workflowRunId', 'stepKey'] });
+        steps.createIndex('byRun', 'workflowRunId');
+      }
+    };
+    dbPromise = requestToPromise(request).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+export function createIndexedDbJournalStore(): JournalStore {
+  return {
+    async getRun(workflowRunId) {
+      const db = await openDatabase();
+      return requestToPromise(db.transaction(RUNS_STORE).objectStore(RUNS_STORE).get(workflowRunId));
+    },
+    async putRun(run) {
+      const db = await openDatabase();
+      const tx = db.transaction(RUNS_STORE, 'readwrite');
+      tx.objectStore(RUNS_STORE).put(run);
+      await transactionDone(tx);
+    },
+    async listRuns() {
+      const db = await openDatabase();
+      return requestToPromise(db.transaction(RUNS_STORE).objectStore(RUNS_STORE).getAll());
+    },
+    async getSteps(workflowRunId) {
+      const db = await openDatabase();
+      const index = db.transaction(STEPS_STORE).objectStore(STEPS_STORE).index('byRun');
+      const steps: JournalStepRecord[] = await requestToPromise(index.getAll(workflowRunId));
+      return steps.sort((a, b) => a.seq - b.seq);
+    },
+    async putStep(step) {
+      const db = await openDatabase();
+      const tx = db.transaction(STEPS_STORE, 'readwrite');
+      tx.objectStore(STEPS_STORE).put(step);
+      await transactionDone(tx);
+    },
+    async deleteRun(workflowRunId) {
+      const db = await openDatabase();
+      const tx = db.transaction([RUNS_STORE, STEPS_STORE], 'readwrite');
+      tx.objectStore(RUNS_STORE).delete(workflowRunId);
+      const steps = tx.objectStore(STEPS_STORE);
+      const keys = await requestToPromise(steps.index('byRun').getAllKeys(workflowRunId));
+      keys.forEach(key => steps.delete(key));
+      await transactionDone(tx);
+    },
+  };
+}
+
+// ============================================
+// In-memory store (environments without IndexedDB, e.g. Node tests)
+// ============================================
+
+export function createMemoryJournalStore(): JournalStore {
+  const runs = new Map<string, JournalRunRecord>();
+  const steps = new Map<string, Map<string, JournalStepRecord>>();
+  return {
+    async getRun(workflowRunId) {
+      return runs.get(workflowRunId);
+    },
+    async putRun(run) {
+      runs.set(run.workflowRunId, run);
+    },
+    async listRuns() {
+      return Array.from(runs.values());
+    },
+    async getSteps(workflowRunId) {
+      return Array.from(steps.get(workflowRunId)?.values() || []).sort((a, b) => a.seq - b.seq);
+    },
+    async putStep(step) {
+      const runSteps = steps.get(step.workflowRunId) || new Map<string, JournalStepRecord>();
+      runSteps.set(step.stepKey, step);
+      steps.set(step.workflowRunId, runSteps);
+    },
+    async deleteRun(workflowRunId) {
+      runs.delete(workflowRunId);
+      steps.delete(workflowRunId);
+    },
+  };
+}
+
+let defaultStore: JournalStore | null = null;
+
+export function getDefaultJournalStore(): JournalStore {
+  if (!defaultStore) {
+    defaultStore = typeof indexedDB !== 'undefined' ? createIndexedDbJournalStore() : createMemoryJournalStore();
+  }
+  return defaultStore;
+}
+
+// Journal values must survive structured clone and a later replay: drop functions,
+// class instances and undefined the same way a JSON round-trip would
+function toJournalValue(value: unknown): unknown {
+  if (value === undefined) return undefined;
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch {
+    return String(value);
+  }
+}
+
+// ============================================
+// Journal for one workflow run
+// ============================================
+
+/**
+ * Step journal for a single workflow run. Pass it to useStep() so completed steps
+ * are replayed instead of re-executed, and wrap the run's executeTool with
+ * wrapExecuteTool() to journal individual tool calls inside a step.
+ */
+export class WorkflowJournal implements StepJournal {
+  private readonly steps = new Map<string, JournalStepRecord>();
+  private readonly toolCallCounts = new Map<string, number>();
+  private nextSeq = 0;
+  private activeStepKey = 'run';
+  // Tool calls replay only until the first call that doesn't match the journal
+  private replayingTools = true;
+
+  private constructor(
+    readonly workflowRunId: string,
+    private run: JournalRunRecord,
+    steps: JournalStepRecord[],
+    private readonly store: JournalStore
+  ) {
+    for (const step of steps) {
+      this.steps.set(step.stepKey, step);
+      this.nextSeq = Math.max(this.nextSeq, step.seq + 1);
+    }
+  }
+
+  /**
+   * Open the journal for a run, creating the run record on first use.
+   * Reopening an existing run marks it as resumed.
+   */
+  static async open(
+    workflowRunId: string,
+    options: { messages?: Message[]; store?: JournalStore } = {}
+  ): Promise<WorkflowJournal> {
+    const store = options.store || getDefaultJournalStore();
+    const now = Date.now();
+    let run: JournalRunRecord | undefined;
+    let steps: JournalStepRecord[] = [];
+    try {
+      run = await store.getRun(workflowRunId);
+      steps = run ? await store.getSteps(workflowRunId) : [];
+    } catch (error) {
+      console.warn('⚠️ [Journal] Could not read journal, starting fresh:', error);
+    }
+
+    run = run
+      ? { ...run, status: 'running', updatedAt: now, resumeCount: run.resumeCount + 1 }
+      : {
+          workflowRunId,
+          messages: (toJournalValue(options.messages || []) as Message[]),
+          status: 'running',
+          createdAt: now,
+          updatedAt: now,
+          resumeCount: 0,
+        };
+
+    const journal = new WorkflowJournal(workflowRunId, run, steps, store);
+    await journal.persist(() => store.putRun(run!));
+    if (run.resumeCount > 0) {
+      const completed = steps.filter(step => step.status === 'completed').length;
+      console.log(`🔁 [Journal] Resuming run ${workflowRunId} with ${completed} completed step(s)`);
+    }
+    return journal;
+  }
+
+  get resumed(): boolean {
+    return this.run.resumeCount > 0;
+  }
+
+  get messages(): Message[] {
+    return this.run.messages;
+  }
+
+  getCompleted(stepKey: string): { output: unknown } | undefined {
+    const step = this.steps.get(stepKey);
+    return step?.status === 'completed' ? { output: step.output } : undefined;
+  }
+
+  async start(stepKey: string, input?: unknown): Promise<void> {
+    if (!stepKey.includes('/')) {
+      this.activeStepKey = stepKey;
+    }
+    const existing = this.steps.get(stepKey);
+    const step: JournalStepRecord = {
+      workflowRunId: this.workflowRunId,
+      stepKey,
+      seq: existing?.seq ?? this.nextSeq++,
+      status: 'started',
+      input: toJournalValue(input),
+      startedAt: Date.now(),
+    };
+    this.steps.set(stepKey, step);
+    await this.persist(() => this.store.putStep(step));
+  }
+
+  async complete(stepKey: string, output: unknown): Promise<void> {
+    await this.settle(stepKey, { status: 'completed', output: toJournalValue(output) });
+  }
+
+  async fail(stepKey: string, error: unknown): Promise<void> {
+    await this.settle(stepKey, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+  }
+
+  async finish(status: Exclude<JournalRunStatus, 'running'>): Promise<void> {
+    this.run = { ...this.run, status, updatedAt: Date.now() };
+    await this.persist(() => this.store.putRun(this.run));
+  }
+
+  /**
+   * Journal each tool call under the active step ("streaming-0/tool-2"). On resume,
+   * calls identical to the journaled ones return the recorded result without touching
+   * the page again; the first call that differs switches to live execution for good.
+   */
+  wrapExecuteTool(
+    executeTool: (toolName: string, params: any) => Promise<any>
+  ): (toolName: string, params: any) => Promise<any> {
+    return async (toolName, params) => {
+      const scope = this.activeStepKey;
+      const index = this.toolCallCounts.get(scope) ?? 0;
+      this.toolCallCounts.set(scope, index + 1);
+      const stepKey = `${scope}/tool-${index}`;
+      const input = toJournalValue({ toolName, params });
+
+      const recorded = this.steps.get(stepKey);
+      if (this.replayingTools && recorded?.status === 'completed' && JSON.stringify(recorded.input) === JSON.stringify(input)) {
+        console.log(`🔁 [Journal] Replaying ${stepKey} (${toolName}) from journal`);
+        return recorded.output;
+      }
+      this.replayingTools = false;
+
+      await this.start(stepKey, input);
+      try {
+        const result = await executeTool(toolName, params);
+        await this.complete(stepKey, result);
+        return result;
+      } catch (error) {
+        await this.fail(stepKey, error);
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Tool calls journaled before an interruption, for telling the model what already happened
+   */
+  getCompletedToolCalls(): Array<{ stepKey: string; toolName: string; params: unknown }> {
+    return Array.from(this.steps.values())
+      .filter(step => step.stepKey.includes('/tool-') && step.status === 'completed')
+      .sort((a, b) => a.seq - b.seq)
+      .map(step => {
+        const input = step.input as { toolName?: string; params?: unknown } | undefined;
+        return { stepKey: step.stepKey, toolName: input?.toolName || 'unknown', params: input?.params };
+      });
+  }
+
+  private async settle(stepKey: string, update: Partial<JournalStepRecord>): Promise<void> {
+    const existing = this.steps.get(stepKey);
+    const step: JournalStepRecord = {
+      workflowRunId: this.workflowRunId,
+      stepKey,
+      seq: existing?.seq ?? this.nextSeq++,
+      startedAt: existing?.startedAt ?? Date.now(),
+      input: existing?.input,
+      ...update,
+      status: update.status || 'completed',
+      completedAt: Date.now(),
+    };
+    this.steps.set(stepKey, step);
+    await this.persist(() => this.store.putStep(step));
+  }
+
+  // Journaling is best effort: a storage failure must not fail the run itself
+  private async persist(write: () => Promise<void>): Promise<void> {
+    try {
+      await write();
+    } catch (error) {
+      console.warn('⚠️ [Journal] Failed to write checkpoint:', error);
+    }
+  }
+}
+
+// ============================================
+// Run-level helpers
+// ============================================
+
+export async function getJournalRun(
+  workflowRunId: string,
+  store: JournalStore = getDefaultJournalStore()
+): Promise<JournalRunRecord | undefined> {
+  try {
+    return await store.getRun(workflowRunId);
+  } catch (error) {
+    console.warn('⚠️ [Journal] Could not read run:', error);
+    return undefined;
+  }
+}
+
+export async function setJournalRunStatus(
+  workflowRunId: string,
+  status: JournalRunStatus,
+  store: JournalStore = getDefaultJournalStore()
+): Promise<void> {
+  try {
+    const run = await store.getRun(workflowRunId);
+    if (run) await store.putRun({ ...run, status, updatedAt: Date.now() });
+  } catch (error) {
+    console.warn('⚠️ [Journal] Could not update run status:', error);
+  }
+}
+
+/**
+ * Drop journals of runs not touched for maxAgeMs (default 7 days)
+ */
+export async function pruneWorkflowJournal(
+  maxAgeMs = 7 * 24 * 60 * 60 * 1000,
+  store: JournalStore = getDefaultJournalStore()
+): Promise<number> {
+  try {
+    const cutoff = Date.now() - maxAgeMs;
+    const stale = (await store.listRuns()).filter(run => run.updatedAt < cutoff);
+    for (const run of stale) {
+      await store.deleteRun(run.workflowRunId);
+    }
+    return stale.length;
+  } catch (error) {
+    console.warn('⚠️ [Journal] Could not prune journal:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,410 @@
+// Workflow Stream - port-based streaming of workflow UI output
+// The background keeps an indexed buffer of UI message chunks per workflow run and
+// serves them over chrome.runtime ports. A sidepanel that closes and reopens
+// subscribes again with the index after the last chunk it saw and picks up where it
+// left off; chunks it already has are never re-sent.
+
+import type { Message } from '../types';
+import type { UIMessageWriter } from './streaming-artifacts';
+
+export const WORKFLOW_STREAM_PORT = 'workflow-stream';
+
+// Finished runs stay replayable for a while so a reopened sidepanel can catch up
+const FINISHED_RUN_RETENTION_MS = 5 * 60 * 1000;
+
+type ToolExecution = NonNullable<Message['toolExecutions']>[number];
+
+// Message fields with their own chunk type; everything else travels as an artifact
+const STREAMED_FIELDS = new Set(['id', 'role', 'content', 'reasoning', 'toolExecutions']);
+
+export type WorkflowStreamChunk =
+  | { type: 'message-start'; messageId: string; message: Message }
+  | { type: 'text-delta'; messageId: string; delta: string }
+  | { type: 'text-replace'; messageId: string; content: string }
+  | { type: 'reasoning-delta'; messageId: string; entries: string[] }
+  | { type: 'tool-state'; messageId: string; toolExecution: ToolExecution }
+  | { type: 'artifact'; messageId: string; name: string; value: unknown }
+  | { type: 'workflow-complete'; result: unknown }
+  | { type: 'error'; errorText: string };
+
+export interface IndexedWorkflowStreamChunk {
+  index: number;
+  chunk: WorkflowStreamChunk;
+}
+
+// Port protocol. The client sends `subscribe`; the background answers with
+// buffered chunks from `fromIndex`, live chunks as they are published, then `end`.
+export type WorkflowStreamClientMessage = {
+  type: 'subscribe';
+  workflowRunId: string;
+  fromIndex?: number;
+};
+
+export type WorkflowStreamServerMessage =
+  | ({ type: 'chunk'; workflowRunId: string } & IndexedWorkflowStreamChunk)
+  | { type: 'end'; workflowRunId: string; lastIndex: number }
+  | { type: 'not-found'; workflowRunId: string };
+
+export interface WorkflowStreamSubscriber {
+  onChunk: (indexed: IndexedWorkflowStreamChunk) => void;
+  onEnd: (lastIndex: number) => void;
+}
+
+interface RunBuffer {
+  chunks: WorkflowStreamChunk[];
+  done: boolean;
+  subscribers: Set<WorkflowStreamSubscriber>;
+  evictTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Per-run chunk buffers with replay-from-index subscriptions.
+ */
+export class WorkflowStreamHub {
+  private runs = new Map<string, RunBuffer>();
+
+  constructor(private retentionMs = FINISHED_RUN_RETENTION_MS) {}
+
+  /**
+   * Start (or reopen, for a resumed run) the buffer for a run.
+   * Indices keep counting up so subscribers never see an index twice.
+   */
+  open(workflowRunId: string): void {
+    const run = this.runs.get(workflowRunId);
+    if (run) {
+      if (run.evictTimer) clearTimeout(run.evictTimer);
+      run.evictTimer = undefined;
+      run.done = false;
+      return;
+    }
+    this.runs.set(workflowRunId, { chunks: [], done: false, subscribers: new Set() });
+  }
+
+  has(workflowRunId: string): boolean {
+    return this.runs.has(workflowRunId);
+  }
+
+  publish(workflowRunId: string, chunk: WorkflowStreamChunk): number {
+    if (!this.runs.has(workflowRunId)) this.open(workflowRunId);
+    const run = this.runs.get(workflowRunId)!;
+    const index = run.chunks.length;
+    run.chunks.push(chunk);
+    for (const subscriber of run.subscribers) {
+      subscriber.onChunk({ index, chunk });
+    }
+    return index;
+  }
+
+  end(workflowRunId: string): void {
+    const run = this.runs.get(workflowRunId);
+    if (!run || run.done) return;
+    run.done = true;
+    for (const subscriber of run.subscribers) {
+      subscriber.onEnd(run.chunks.length - 1);
+    }
+    run.subscribers.clear();
+    run.evictTimer = setTimeout(() => this.runs.delete(workflowRunId), this.retentionMs);
+  }
+
+  /**
+   * Replay buffered chunks from `fromIndex`, then follow live chunks.
+   * Returns an unsubscribe function, or null if the run is unknown
+   * (never started here, evicted, or lost in a service worker restart).
+   */
+  subscribe(
+    workflowRunId: string,
+    fromIndex: number,
+    subscriber: WorkflowStreamSubscriber
+  ): (() => void) | null {
+    const run = this.runs.get(workflowRunId);
+    if (!run) return null;
+
+    for (let index = Math.max(0, fromIndex); index < run.chunks.length; index++) {
+      subscriber.onChunk({ index, chunk: run.chunks[index] });
+    }
+    if (run.done) {
+      subscriber.onEnd(run.chunks.length - 1);
+      return () => {};
+    }
+
+    run.subscribers.add(subscriber);
+    return () => {
+      run.subscribers.delete(subscriber);
+    };
+  }
+}
+
+export const workflowStreamHub = new WorkflowStreamHub();
+
+// ============================================
+// Message diffing
+// ============================================
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Chunks that turn `previous` into `next` (both snapshots of the same message).
+ */
+export function diffMessage(previous: Message, next: Message): WorkflowStreamChunk[] {
+  const messageId = next.id;
+  const chunks: WorkflowStreamChunk[] = [];
+
+  const before = previous.content ?? '';
+  const after = next.content ?? '';
+  if (after !== before) {
+    chunks.push(after.startsWith(before)
+      ? { type: 'text-delta', messageId, delta: after.slice(before.length) }
+      : { type: 'text-replace', messageId, content: after });
+  }
+
+  const previousReasoning = previous.reasoning ?? [];
+  const nextReasoning = next.reasoning ?? [];
+  if (!sameJson(previousReasoning, nextReasoning)) {
+    const appended = previousReasoning.every((entry, i) => nextReasoning[i] === entry);
+    chunks.push(appended
+      ? { type: 'reasoning-delta', messageId, entries: nextReasoning.slice(previousReasoning.length) }
+      : { type: 'artifact', messageId, name: 'reasoning', value: next.reasoning });
+  }
+
+  const previousTools = new Map((previous.toolExecutions ?? []).map(t => [t.toolCallId, t]));
+  for (const toolExecution of next.toolExecutions ?? []) {
+    if (!sameJson(previousTools.get(toolExecution.toolCallId), toolExecution)) {
+      chunks.push({ type: 'tool-state', messageId, toolExecution });
+    }
+  }
+
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  for (const name of fields) {
+    if (STREAMED_FIELDS.has(name)) continue;
+    const value = (next as any)[name];
+    if (!sameJson((previous as any)[name], value)) {
+      chunks.push({ type: 'artifact', messageId, name, value });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Fold a chunk into a message list (the client-side inverse of diffMessage).
+ * A replayed message-start replaces the message it started.
+ */
+export function applyWorkflowStreamChunk(messages: Message[], chunk: WorkflowStreamChunk): Message[] {
+  if (chunk.type === 'message-start') {
+    return messages.some(msg => msg.id === chunk.message.id)
+      ? messages.map(msg => (msg.id === chunk.message.id ? chunk.message : msg))
+      : [...messages, chunk.message];
+  }
+  if (chunk.type === 'workflow-complete' || chunk.type === 'error') {
+    return messages;
+  }
+
+  return messages.map((msg) => {
+    if (msg.id !== chunk.messageId) return msg;
+    switch (chunk.type) {
+      case 'text-delta':
+        return { ...msg, content: (msg.content ?? '') + chunk.delta };
+      case 'text-replace':
+        return { ...msg, content: chunk.content };
+      case 'reasoning-delta':
+        return { ...msg, reasoning: [...(msg.reasoning ?? []), ...chunk.entries] };
+      case 'tool-state': {
+        const existing = msg.toolExecutions ?? [];
+        const found = existing.some(t => t.toolCallId === chunk.toolExecution.toolCallId);
+        return {
+          ...msg,
+          toolExecutions: found
+            ? existing.map(t => (t.toolCallId === chunk.toolExecution.toolCallId ? chunk.toolExecution : t))
+            : [...existing, chunk.toolExecution],
+        };
+      }
+      case 'artifact': {
+        const updated = { ...msg } as any;
+        if (chunk.value === undefined) delete updated[chunk.name];
+        else updated[chunk.name] = chunk.value;
+        return updated;
+      }
+    }
+  });
+}
+
+/**
+ * UIMessageWriter that keeps the run's messages in the background and publishes
+ * each push/update as chunks. Snapshots are cloned so updaters that mutate the
+ * message in place still produce a diff.
+ */
+export function createStreamingMessageWriter(
+  workflowRunId: string,
+  hub: WorkflowStreamHub = workflowStreamHub
+): UIMessageWriter & { messages: Message[] } {
+  const messages: Message[] = [];
+  const snapshot = (msg: Message): Message => JSON.parse(JSON.stringify(msg));
+
+  return {
+    messages,
+    pushMessage(msg: Message) {
+      const copy = snapshot(msg);
+      messages.push(copy);
+      hub.publish(workflowRunId, { type: 'message-start', messageId: copy.id, message: copy });
+    },
+    updateLastMessage(updater: (msg: Message) => Message) {
+      const last = messages[messages.length - 1];
+      if (!last) return;
+      const next = snapshot(updater(snapshot(last)));
+      messages[messages.length - 1] = next;
+      for (const chunk of diffMessage(last, next)) {
+        hub.publish(workflowRunId, chunk);
+      }
+    },
+  };
+}
+
+// ============================================
+// Transport
+// ============================================
+
+const encoder = new TextEncoder();
+
+/**
+ * Server-sent-event framing shared by both ends: `data: {index, ...chunk}`, then `data: [DONE]`.
+ */
+export function encodeWorkflowStreamEvent(indexed: IndexedWorkflowStreamChunk | 'done'): Uint8Array {
+  const payload = indexed === 'done' ? '[DONE]' : JSON.stringify({ index: indexed.index, ...indexed.chunk });
+  return encoder.encode(`data: ${payload}\n\n`);
+}
+
+/**
+ * Read a stream framed by encodeWorkflowStreamEvent (client side), handing each chunk
+ * to onChunk in order. Resolves at [DONE] or when the stream closes; aborting the
+ * signal cancels the stream.
+ */
+export async function readWorkflowStream(
+  stream: ReadableStream<Uint8Array>,
+  onChunk: (indexed: IndexedWorkflowStreamChunk) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  const onAbort = () => void reader.cancel();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  if (signal?.aborted) onAbort();
+  try {
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      buffered += decoder.decode(result.value, { stream: true });
+      let boundary = buffered.indexOf('\n\n');
+      while (boundary !== -1) {
+        const payload = buffered.slice(0, boundary).replace(/^data: /, '');
+        buffered = buffered.slice(boundary + 2);
+        if (payload === '[DONE]') return;
+        const { index, ...chunk } = JSON.parse(payload);
+        onChunk({ index, chunk: chunk as WorkflowStreamChunk });
+        boundary = buffered.indexOf('\n\n');
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Serve a connected port (background side). Each port follows one run; ports
+ * keep the service worker alive while chunks are flowing.
+ */
+export function attachWorkflowStreamPort(
+  port: chrome.runtime.Port,
+  hub: WorkflowStreamHub = workflowStreamHub
+): void {
+  let unsubscribe: (() => void) | null = null;
+  let disconnected = false;
+
+  const post = (message: WorkflowStreamServerMessage) => {
+    if (disconnected) return;
+    try {
+      port.postMessage(message);
+    } catch {
+      // Port closed between the check and the post
+      disconnected = true;
+    }
+  };
+
+  port.onMessage.addListener((message: WorkflowStreamClientMessage) => {
+    if (message?.type !== 'subscribe' || unsubscribe) return;
+    const { workflowRunId } = message;
+
+    unsubscribe = hub.subscribe(workflowRunId, message.fromIndex ?? 0, {
+      onChunk: (indexed) => post({ type: 'chunk', workflowRunId, ...indexed }),
+      onEnd: (lastIndex) => post({ type: 'end', workflowRunId, lastIndex }),
+    });
+    if (!unsubscribe) {
+      post({ type: 'not-found', workflowRunId });
+    }
+  });
+
+  port.onDisconnect.addListener(() => {
+    disconnected = true;
+    unsubscribe?.();
+    unsubscribe = null;
+  });
+}
+
+/**
+ * Readable SSE stream of a run straight from the hub (background side).
+ * Cancelling the stream only detaches this reader; the run keeps going.
+ */
+export function createHubReadableStream(
+  workflowRunId: string,
+  fromIndex = 0,
+  hub: WorkflowStreamHub = workflowStreamHub
+): ReadableStream<Uint8Array> {
+  let unsubscribe: (() => void) | null = null;
+
+  return new ReadableStream({
+    start(controller) {
+      unsubscribe = hub.subscribe(workflowRunId, fromIndex, {
+        onChunk: (indexed) => controller.enqueue(encodeWorkflowStreamEvent(indexed)),
+        onEnd: () => {
+          controller.enqueue(encodeWorkflowStreamEvent('done'));
+          controller.close();
+        },
+      });
+      if (!unsubscribe) {
+        controller.error(new Error(`Workflow run ${workflowRunId} has no stream`));
+      }
+    },
+    cancel() {
+      unsubscribe?.();
+    },
+  });
+}
+
+export interface CollectedWorkflowRun {
+  messages: Message[];
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Wait for a run to end and fold its chunks into the final message list
+ * (background side, for runs nobody is watching, e.g. scheduled tasks).
+ */
+export function collectWorkflowRun(
+  workflowRunId: string,
+  hub: WorkflowStreamHub = workflowStreamHub
+): Promise<CollectedWorkflowRun> {
+  return new Promise((resolve, reject) => {
+    const collected: CollectedWorkflowRun = { messages: [] };
+    const unsubscribe = hub.subscribe(workflowRunId, 0, {
+      onChunk: ({ chunk }) => {
+        if (chunk.type === 'workflow-complete') collected.result = chunk.result;
+        if (chunk.type === 'error') collected.error = chunk.errorText;
+        collected.messages = applyWorkflowStreamChunk(collected.messages, chunk);
+      },
+      onEnd: () => resolve(collected),
+    });
+    if (!unsubscribe) {
+      reject(new Error(`Workflow run ${workflowRunId} has no stream`));
+    }
+  });
+}
@@ -115,6 +115,16 @@ export function _clearStepContext() {
   currentStepName = null;
 }
 
+/**
+ * Checkpoint store for useStep (implemented by WorkflowJournal)
+ */
+export interface StepJournal {
+  getCompleted(stepKey: string): { output: unknown } | undefined;
+  start(stepKey: string, input?: unknown): Promise<void>;
+  complete(stepKey: string, output: unknown): Promise<void>;
+  fail(stepKey: string, error: unknown): Promise<void>;
+}
+
 export interface StepOptions {
   /** Number of retry attempts (default: 0) */
   retry?: number;
@@ -130,6 +140,10 @@ export interface StepOptions {
   abortSignal?: AbortSignal;
   /** Whether to log metrics (default: true) */
   logMetrics?: boolean;
+  /** Journal to checkpoint into; a step already completed there is replayed, not re-run */
+  journal?: StepJournal;
+  /** Step input recorded alongside the output in the journal */
+  journalInput?: unknown;
 }
 
 export interface StepResult<T> {
@@ -138,6 +152,8 @@ export interface StepResult<T> {
   attempts: number;
   success: boolean;
   error?: Error;
+  /** Result came from the journal of an earlier (interrupted) execution */
+  replayed?: boolean;
 }
 
 export interface StepMetrics {
@@ -235,6 +251,25 @@ export async function useStep<T>(
   fn: () => Promise<T>,
   options: StepOptions = {}
 ): Promise<StepResult<T>> {
+  const { journal, journalInput, ...stepOptions } = options;
+  if (journal) {
+    const recorded = journal.getCompleted(stepName);
+    if (recorded) {
+      recordMetrics(stepName, 0, 0, true);
+      return { result: recorded.output as T, duration: 0, attempts: 0, success: true, replayed: true };
+    }
+
+    await journal.start(stepName, journalInput);
+    try {
+      const stepResult = await useStep(stepName, fn, stepOptions);
+      await journal.complete(stepName, stepResult.result);
+      return stepResult;
+    } catch (error) {
+      await journal.fail(stepName, error);
+      throw error;
+    }
+  }
+
   const {
     retry = 0,
     retryDelay = 1000,
@@ -4,7 +4,7 @@
 export interface PlanningInstruction {
   step: number;
   action: 'navigate' | 'click' | 'type' | 'scroll' | 'wait' | 'getPageContext';
-  target: string; // URL, selector, or description
+  target: string; // URL, element ref (e.g. "e12"), selector, or description
   reasoning: string; // Why this step is needed
   expectedOutcome: string; // What should happen after this step
   validationCriteria?: string; // How to verify success
@@ -29,6 +29,16 @@ export interface PlanningResult {
   confidence: number; // 0-1 confidence in plan quality
 }
 
+export interface PartialReplanRequest {
+  objective: string;
+  completedSteps: PlanningInstruction[]; // Steps that already ran successfully
+  failedStep: PlanningInstruction;
+  error: string; // Why the failed step (and its fallback) didn't work
+}
+
+// Marker in potentialIssues when generateExecutionPlan returned its static fallback plan
+export const FALLBACK_PLAN_ISSUE = 'Planning generation failed, using fallback';
+
 /**
  * Mandatory planner that always runs to generate structured execution plans
  * Uses GEPA-inspired reflective evolution to create optimal instruction sets
@@ -42,7 +52,8 @@ export async function generateExecutionPlan(
     braintrustApiKey?: string;
   },
   currentUrl?: string,
-  pageContext?: any
+  pageContext?: any,
+  demonstrations?: string // Few-shot section from lib/demonstrations.ts
 ): Promise<PlanningResult> {
   const startTime = Date.now();
   console.log('📋 [Planner] Starting execution plan generation');
@@ -51,6 +62,7 @@ export async function generateExecutionPlan(
   console.log('📋 [Planner] Provider:', opts.provider);
   console.log('📋 [Planner] Model:', opts.model || (opts.provider === 'gateway' ? 'google:gemini-2.5-flash' : 'gemini-2.5-flash'));
   console.log('📋 [Planner] Has page context:', !!pageContext);
+  console.log('📋 [Planner] Has demonstrations:', !!demonstrations);
   
   const { z } = await import('zod');
   const { getWrappedAI } = await import('./lib/ai-wrapped');
@@ -120,7 +132,7 @@ export async function generateExecutionPlan(
     step: z.number().int().min(1).describe('Step number (must be a positive integer)'),
     action: z.enum(['navigate', 'click', 'type', 'type_text', 'press_key', 'scroll', 'wait', 'getPageContext'])
       .describe('Action type - MUST be exactly one of: navigate, click, type, type_text, press_key, scroll, wait, getPageContext. Do NOT use waitForElement, waitFor, getContext, or other invalid values.'),
-    target: z.string().min(1).describe('URL, CSS selector, text to type, or description (cannot be empty)'),
+    target: z.string().min(1).describe('URL, element ref from getAccessibilitySnapshot (e.g. e12), CSS selector, text to type, or description (cannot be empty)'),
     reasoning: z.string().min(10).describe('Why this step is necessary - minimum 10 characters (GEPA reflection)'),
     expectedOutcome: z.string().min(10).describe('What should happen after this step - minimum 10 characters'),
     validationCriteria: z.string().min(10).optional().describe('How to verify this step succeeded - minimum 10 characters if provided'),
@@ -164,7 +176,7 @@ ENVIRONMENT
 
 TOOLS (use exact action names)
 - navigate — navigate to a URL (target: URL string)
-- type / type_text — enter text (target: CSS selector or element description)
+- type / type_text — enter text (target: "<element ref or CSS selector> | <text to type>")
 - click — click element (target: CSS selector or element description)
 - scroll — scroll page/element (target: direction or selector)
 - wait — pause (target: seconds or selector)
@@ -177,7 +189,7 @@ TOOLS (use exact action names)
 TOOL DETAILS (planning hints)
 • getPageContext — Plan it immediately after navigate and after state changes to verify; use it to discover selectors and confirm success
 • navigate — Provide complete URLs; follow with getPageContext for verification
-• click — Prefer selectors; plan verification via getPageContext after clicking
+• click — Prefer element refs (e.g. e12) from the accessibility snapshot, then selectors; plan verification via getPageContext after clicking
 • type_text — Include selector and text; plan clearing if needed (select‑all + delete) then verify; add press_key Enter when appropriate
 • press_key — Use standard keys or key_combination for combos; verify result
 • scroll — Use direction/top/bottom or a target selector; plan incremental discovery and verification
@@ -226,6 +238,7 @@ COMPLETION
     '',
     contextInfo,
     '',
+    ...(demonstrations ? [demonstrations, ''] : []),
     'Task: Generate an optimal execution plan using GEPA-inspired reflective evolution and DeepResearch orthogonality & depth principles.',
     '',
     'Requirements:',
@@ -499,7 +512,7 @@ COMPLETION
         criticalPaths: [1],
         estimatedSteps: 1,
         complexityScore: calculateComplexityScore(userQuery),
-        potentialIssues: ['Planning generation failed, using fallback'],
+        potentialIssues: [FALLBACK_PLAN_ISSUE],
         optimizations: [],
       },
       confidence: calculateConfidence(userQuery, calculateComplexityScore(userQuery), false),
@@ -592,7 +605,8 @@ export async function generateExecutionPlanWithTelemetry(
     braintrustApiKey?: string;
   },
   currentUrl?: string,
-  pageContext?: any
+  pageContext?: any,
+  demonstrations?: string
 ): Promise<PlanningResult> {
   const { traced } = await import('./lib/braintrust');
   
@@ -600,7 +614,7 @@ export async function generateExecutionPlanWithTelemetry(
     'mandatory_planning_evaluator',
     async () => {
       try {
-        const result = await generateExecutionPlan(userQuery, opts, currentUrl, pageContext);
+        const result = await generateExecutionPlan(userQuery, opts, currentUrl, pageContext, demonstrations);
         
         // Metrics are logged automatically by traced function via metadata
         return result;
@@ -614,11 +628,50 @@ export async function generateExecutionPlanWithTelemetry(
       currentUrl: currentUrl || 'unknown',
       provider: opts.provider,
       hasPageContext: !!pageContext,
+      hasDemonstrations: !!demonstrations,
       model: opts.model || (opts.provider === 'gateway' ? 'google:gemini-2.5-flash' : 'gemini-2.5-flash'),
     }
   );
 }
 
+/**
+ * Plan only the remaining work after a step failed, given what already ran.
+ * Returns the replacement steps; throws if the planner could not produce any.
+ */
+export async function generatePartialReplan(
+  request: PartialReplanRequest,
+  opts: {
+    provider: 'google' | 'gateway' | 'nim' | 'openrouter';
+    apiKey: string;
+    model?: string;
+    braintrustApiKey?: string;
+  },
+  currentUrl?: string,
+  pageContext?: any
+): Promise<PlanningInstruction[]> {
+  const describe = (step: PlanningInstruction) => `${step.action}(${step.target})`;
+  const replanQuery = [
+    `Objective: ${request.objective}`,
+    '',
+    'Steps already completed (do NOT repeat them):',
+    request.completedSteps.length > 0
+      ? request.completedSteps.map((step, i) => `${i + 1}. ${describe(step)}`).join('\n')
+      : '(none)',
+    '',
+    `This step failed: ${describe(request.failedStep)} - expected: ${request.failedStep.expectedOutcome}`,
+    `Failure: ${request.error}`,
+    '',
+    'Plan ONLY the remaining steps needed to reach the objective from the current page, taking a different approach to the failed step.',
+  ].join('\n');
+
+  console.log('🔁 [Planner] Partial replan from failed step:', describe(request.failedStep));
+  const result = await generateExecutionPlan(replanQuery, opts, currentUrl, pageContext);
+  if (result.plan.potentialIssues.includes(FALLBACK_PLAN_ISSUE)) {
+    throw new Error('Planner could not produce a replan');
+  }
+  return result.plan.steps;
+}
+
 /**
  * Format planning result into instruction set for computer-use agent
  */
@@ -7,6 +7,46 @@ import { z } from 'zod';
  * Workflow Input Schema
  * Defines the structured input for the browser automation workflow
  */
+/**
+ * Stop Policy Overrides Schema
+ * Partial run limits; unset fields fall back to lib/stop-policy defaults
+ */
+export const StopPolicyOverridesSchema = z.object({
+  maxSteps: z.number().int().positive().max(500).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  maxWallTimeMs: z.number().int().positive().optional(),
+  maxCostUsd: z.number().positive().optional(),
+  detectLoops: z.boolean().optional(),
+  maxErrorRatio: z.number().positive().max(1).optional(),
+  stopOnCompletion: z.boolean().optional(),
+}).strict();
+
+/**
+ * Extraction Request Schema
+ * JSON Schema of one item to collect from the page(s) the agent ends on (see lib/structured-extraction)
+ */
+export const ExtractionRequestSchema = z.object({
+  name: z.string().min(1).max(200),
+  schema: z.record(z.any()),
+  keyFields: z.array(z.string().min(1).max(200)).max(20).optional(),
+  maxPages: z.number().int().positive().max(50).optional(),
+}).strict();
+
+/**
+ * Redaction Settings Schema
+ * Personal data and secrets to replace with placeholders (see lib/redaction)
+ */
+const RedactionKindSchema = z.enum(['email', 'phone', 'card', 'national_id', 'api_key', 'jwt']);
+
+export const RedactionSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  kinds: z.array(RedactionKindSchema).optional(),
+  sites: z.array(z.object({
+    site: z.string().min(1).max(253),
+    kinds: z.array(RedactionKindSchema),
+  })).max(200).optional(),
+}).strict();
+
 export const BrowserAutomationWorkflowInputSchema = z.object({
   userQuery: z.string().min(1, 'User query cannot be empty').max(5000, 'User query too long').describe('The user\'s browser automation request'),
   settings: z.object({
@@ -17,7 +57,30 @@ export const BrowserAutomationWorkflowInputSchema = z.object({
     braintrustProjectName: z.string().min(1).max(200).optional(),
     youApiKey: z.string().min(1).optional(),
     computerUseEngine: z.enum(['google', 'gateway', 'gateway-flash-lite', 'openrouter']).optional(),
+    executionMode: z.enum(['agent', 'plan']).optional(),
+    stopPolicy: StopPolicyOverridesSchema.optional(),
+    redaction: RedactionSettingsSchema.optional(),
+    auditRetention: z.object({
+      maxAgeDays: z.number().positive().max(3650).optional(),
+      maxEntries: z.number().int().positive().max(1000000).optional(),
+    }).strict().optional(),
   }).strict(),
+  // Per-task limits, applied over settings.stopPolicy (e.g. "continue for 10 more steps")
+  stopPolicy: StopPolicyOverridesSchema.optional(),
+  // Structured rows to extract once the agent reaches the data
+  extraction: ExtractionRequestSchema.optional(),
+  // Files attached in the composer, which uploadFile can put on the page (contents stay in the sidepanel)
+  attachments: z.array(z.object({
+    name: z.string().min(1),
+    type: z.string(),
+    size: z.number().nonnegative(),
+  })).max(20).optional(),
+  // Credential vault entries the agent can type as {{vault:name.field}} tokens (values stay in the vault)
+  credentials: z.array(z.object({
+    name: z.string().min(1).max(100),
+    origin: z.string().min(1),
+    fields: z.array(z.string().min(1)).max(20),
+  })).max(100).optional(),
   initialContext: z.object({
     currentUrl: z.string().url('Invalid URL format').optional().or(z.literal('')),
     pageContext: z.any().optional(), // PageContext type
@@ -134,10 +197,41 @@ export const StreamingStepOutputSchema = z.object({
     url: z.string().optional(),
     success: z.boolean(),
   })),
+  // Present when a stop policy limit ended the run (see lib/stop-policy)
+  stopReason: z.object({
+    kind: z.enum(['max-steps', 'max-tokens', 'max-wall-time', 'max-cost', 'navigation-loop', 'error-ratio', 'task-complete']),
+    message: z.string(),
+    stepCount: z.number(),
+  }).optional(),
 });
 
 export type StreamingStepOutput = z.infer<typeof StreamingStepOutputSchema>;
 
+/**
+ * Extraction Step Output Schema
+ * Validated, deduplicated rows collected across pages
+ */
+export const ExtractionStepOutputSchema = z.object({
+  name: z.string(),
+  columns: z.array(z.string()),
+  rows: z.array(z.record(z.any())),
+  pages: z.array(z.object({
+    url: z.string(),
+    extracted: z.number().int().nonnegative(),
+    added: z.number().int().nonnegative(),
+  })),
+  invalidCount: z.number().int().nonnegative(),
+  duplicateCount: z.number().int().nonnegative(),
+  // First few rejected items with the reason, for checking the schema
+  invalidSamples: z.array(z.object({ item: z.any(), error: z.string() })),
+  stoppedBecause: z.enum(['no-next-page', 'max-pages', 'no-new-items', 'revisited-page', 'error']),
+  createdAt: z.number().int().nonnegative(),
+  duration: z.number().nonnegative(),
+  error: z.string().optional(),
+});
+
+export type ExtractionStepOutput = z.infer<typeof ExtractionStepOutputSchema>;
+
 /**
  * Summarization Step Output Schema
  */
@@ -163,6 +257,7 @@ export const BrowserAutomationWorkflowOutputSchema = z.object({
   pageContext: PageContextStepOutputSchema.optional(),
   streaming: StreamingStepOutputSchema,
   summarization: SummarizationStepOutputSchema.optional(),
+  extraction: ExtractionStepOutputSchema.optional(),
   executionTrajectory: z.array(z.object({
     step: z.number().int().positive(),
     action: z.string().min(1).max(100),
@@ -195,7 +290,7 @@ export type BrowserAutomationWorkflowOutput = z.infer<typeof BrowserAutomationWo
  */
 export const WorkflowTelemetrySchema = z.object({
   workflowId: z.string(),
-  phase: z.enum(['planning', 'page_context', 'streaming', 'tool_execution', 'summarization', 'complete', 'error']),
+  phase: z.enum(['planning', 'page_context', 'streaming', 'tool_execution', 'extraction', 'summarization', 'complete', 'error']),
   duration: z.number(),
   success: z.boolean(),
   metrics: z.record(z.any()),
@@ -1,6 +1,40 @@
 import { useState, useEffect } from 'react';
 import { createRoot } from 'react-dom/client';
-import type { Settings } from './types';
+import type { ExecutionMode, InputBackend, Settings } from './types';
+import type { StopPolicy } from './lib/stop-policy';
+import {
+  createVault,
+  deleteCredential,
+  getDefaultVaultStore,
+  getVaultStatus,
+  listCredentials,
+  lockVault,
+  putCredential,
+  unlockVault,
+  type CredentialSummary,
+} from './lib/credential-vault';
+import { DEFAULT_AUDIT_RETENTION, type AuditRetention } from './lib/audit-store';
+import {
+  ORIGIN_ACCESS_LABELS,
+  ORIGIN_ACCESS_LEVELS,
+  actionOrigin,
+  getDefaultOriginGrantStore,
+  grantOriginAccess,
+  listRunGrants,
+  revokeOriginGrants,
+  type OriginAccess,
+  type OriginGrant,
+} from './lib/origin-permissions';
+import { REDACTION_KINDS, formatRedactionSites, parseRedactionSites, type RedactionKind, type RedactionSettings } from './lib/redaction';
+
+const REDACTION_KIND_LABELS: Record<RedactionKind, string> = {
+  email: 'Emails',
+  phone: 'Phone numbers',
+  card: 'Card numbers',
+  national_id: 'National IDs',
+  api_key: 'API keys',
+  jwt: 'JWTs',
+};
 
 // Streamlined providers - only AI Gateway and OpenRouter
 const PROVIDERS = [
@@ -43,6 +77,179 @@ const OPENROUTER_MODELS = [
   { id: 'google/gemini-1.5-pro', name: 'Gemini 1.5 Pro', description: '🔥 Long context with 1M tokens' },
 ];
 
+// Credential vault: stored and unlocked here, separately from Save Settings
+function CredentialVaultSettings() {
+  const store = getDefaultVaultStore();
+  const [status, setStatus] = useState<'none' | 'locked' | 'unlocked'>('none');
+  const [credentials, setCredentials] = useState<CredentialSummary[]>([]);
+  const [passphrase, setPassphrase] = useState('');
+  const [draft, setDraft] = useState({ name: '', origin: '', username: '', password: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setStatus(await getVaultStatus(store));
+    setCredentials(await listCredentials(store));
+  };
+
+  useEffect(() => {
+    void refresh();
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+    await refresh();
+  };
+
+  return (
+    <div className="setting-group">
+      <label>Credential Vault</label>
+      {status === 'unlocked' ? (
+        <button type="button" onClick={() => run(() => lockVault(store))}>Lock vault</button>
+      ) : (
+        <div style={{ display: 'flex', gap: 8 }}>
+          <input
+            type="password"
+            placeholder={status === 'none' ? 'New vault passphrase' : 'Vault passphrase'}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            style={{ flex: 1 }}
+          />
+          <button
+            type="button"
+            onClick={() => run(async () => {
+              await (status === 'none' ? createVault(store, passphrase) : unlockVault(store, passphrase));
+              setPassphrase('');
+            })}
+          >
+            {status === 'none' ? 'Create' : 'Unlock'}
+          </button>
+        </div>
+      )}
+      {credentials.map(credential => (
+        <div key={credential.name} style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8 }}>
+          <code style={{ flex: 1 }}>{`{{vault:${credential.name}.*}}`} · {credential.origin} · {credential.fields.join(', ')}</code>
+          <button type="button" onClick={() => run(() => deleteCredential(store, credential.name))}>Remove</button>
+        </div>
+      ))}
+      {status === 'unlocked' && (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8, marginTop: 8 }}>
+          <input placeholder="Name (e.g. github)" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+          <input placeholder="Site (e.g. https://github.com)" value={draft.origin} onChange={(e) => setDraft({ ...draft, origin: e.target.value })} />
+          <input placeholder="Username" value={draft.username} onChange={(e) => setDraft({ ...draft, username: e.target.value })} />
+          <input type="password" placeholder="Password" value={draft.password} onChange={(e) => setDraft({ ...draft, password: e.target.value })} />
+          <button
+            type="button"
+            style={{ gridColumn: 'span 2' }}
+            onClick={() => run(async () => {
+              await putCredential(store, {
+                name: draft.name.trim(),
+                origin: draft.origin.trim(),
+                fields: { username: draft.username, password: draft.password },
+              });
+              setDraft({ name: '', origin: '', username: '', password: '' });
+            })}
+          >
+            Save login
+          </button>
+        </div>
+      )}
+      {error && <p className="help-text" style={{ color: '#dc2626' }}>{error}</p>}
+      <p className="help-text">
+        Logins are encrypted with your passphrase and stay on this device. The agent only sees tokens like {'{{vault:github.password}}'}, which the page fills in on the login's own site; every use is recorded in the guardrails audit log.
+        The vault locks when the browser closes.
+      </p>
+    </div>
+  );
+}
+
+// Site permissions: grants take effect here, separately from Save Settings
+function SitePermissionSettings() {
+  const store = getDefaultOriginGrantStore();
+  const [enabled, setEnabled] = useState(true);
+  const [grants, setGrants] = useState<OriginGrant[]>([]);
+  const [runGrants, setRunGrants] = useState<Array<OriginGrant & { runId: string; once: boolean }>>([]);
+  const [draft, setDraft] = useState<{ origin: string; access: OriginAccess }>({ origin: '', access: 'read' });
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    const current = await store.readSettings();
+    setEnabled(current?.enabled !== false);
+    setGrants(current?.grants ?? []);
+    setRunGrants(await listRunGrants(store));
+  };
+
+  useEffect(() => {
+    void refresh();
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+    await refresh();
+  };
+
+  const addGrant = async () => {
+    const input = draft.origin.trim();
+    const origin = actionOrigin(input.includes('://') ? input : `https://${input}`);
+    if (!origin) throw new Error('Enter a site such as https://github.com');
+    await grantOriginAccess(store, '', origin, { access: draft.access, duration: 'always' });
+    setDraft({ origin: '', access: draft.access });
+  };
+
+  return (
+    <div className="setting-group">
+      <label>Site Permissions</label>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <input
+          id="originPermissionsEnabled"
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => run(async () => {
+            const current = (await store.readSettings()) ?? {};
+            await store.writeSettings({ ...current, enabled: e.target.checked });
+          })}
+        />
+        <label htmlFor="originPermissionsEnabled">Ask before the agent reads, uses or submits on a new site</label>
+      </div>
+      {grants.map(grant => (
+        <div key={grant.origin} style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8 }}>
+          <code style={{ flex: 1 }}>{grant.origin} · {ORIGIN_ACCESS_LABELS[grant.access]} · always</code>
+          <button type="button" onClick={() => run(() => revokeOriginGrants(store, grant.origin))}>Revoke</button>
+        </div>
+      ))}
+      {runGrants.map(grant => (
+        <div key={`${grant.runId}-${grant.origin}-${grant.grantedAt}`} style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8 }}>
+          <code style={{ flex: 1 }}>{grant.origin} · {ORIGIN_ACCESS_LABELS[grant.access]} · {grant.once ? 'next action' : 'current task'}</code>
+          <button type="button" onClick={() => run(() => revokeOriginGrants(store, grant.origin))}>Revoke</button>
+        </div>
+      ))}
+      <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr auto', gap: 8, marginTop: 8 }}>
+        <input placeholder="Site (e.g. https://github.com)" value={draft.origin} onChange={(e) => setDraft({ ...draft, origin: e.target.value })} />
+        <select value={draft.access} onChange={(e) => setDraft({ ...draft, access: e.target.value as OriginAccess })}>
+          {ORIGIN_ACCESS_LEVELS.map(level => (
+            <option key={level} value={level}>{ORIGIN_ACCESS_LABELS[level]}</option>
+          ))}
+        </select>
+        <button type="button" onClick={() => run(addGrant)}>Allow</button>
+      </div>
+      {error && <p className="help-text" style={{ color: '#dc2626' }}>{error}</p>}
+      <p className="help-text">
+        The first time a task needs more access to a site than it has, you choose read only, interact or submit and purchase, for one action, the task or always.
+        Scheduled tasks can't ask, so they only act on sites allowed here. Revoking a site removes every grant for it.
+      </p>
+    </div>
+  );
+}
+
 function SettingsPage() {
   const [settings, setSettings] = useState<Settings>({
     provider: 'gateway',
@@ -61,6 +268,7 @@ function SettingsPage() {
   const [showComposioKey, setShowComposioKey] = useState(false);
   const [showYouKey, setShowYouKey] = useState(false);
   const [showBraintrustKey, setShowBraintrustKey] = useState(false);
+  const [redactionSitesText, setRedactionSitesText] = useState<string | null>(null); // Site rules as typed, parsed into settings on each change
 
   // Helper to get models for current provider
   const getModelsForProvider = (provider: string) => {
@@ -180,6 +388,25 @@ function SettingsPage() {
     });
   }, []);
 
+  const numberOrUndefined = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+  const updateStopPolicy = (patch: Partial<StopPolicy>) => {
+    setSettings({ ...settings, stopPolicy: { ...settings.stopPolicy, ...patch } });
+  };
+
+  const updateRedaction = (patch: Partial<RedactionSettings>) => {
+    setSettings({ ...settings, redaction: { ...settings.redaction, ...patch } });
+  };
+
+  const updateAuditRetention = (patch: Partial<AuditRetention>) => {
+    setSettings({ ...settings, auditRetention: { ...settings.auditRetention, ...patch } });
+  };
+
+  const toggleRedactionKind = (kind: RedactionKind, enabled: boolean) => {
+    const kinds = settings.redaction?.kinds ?? REDACTION_KINDS;
+    updateRedaction({ kinds: enabled ? REDACTION_KINDS.filter(k => k === kind || kinds.includes(k)) : kinds.filter(k => k !== kind) });
+  };
+
   const handleSave = () => {
     chrome.storage.local.set({ atlasSettings: settings }, () => {
       setSaved(true);
@@ -404,6 +631,184 @@ function SettingsPage() {
           <p className="help-text">Shows a resizable debugging panel with streaming events, tool calls, and performance metrics.</p>
         </div>
 
+        <div className="setting-group">
+          <label>Input Backend</label>
+          <select
+            value={settings.inputBackend || 'auto'}
+            onChange={(e) => setSettings({ ...settings, inputBackend: e.target.value as InputBackend })}
+          >
+            <option value="auto">Auto (synthetic, trusted input when nothing happens)</option>
+            <option value="synthetic">Synthetic DOM events only</option>
+            <option value="cdp">Trusted input (Chrome debugger) always</option>
+          </select>
+          <textarea
+            rows={3}
+            placeholder={'docs.google.com\nexample.com'}
+            value={(settings.trustedInputSites || []).join('\n')}
+            onChange={(e) => setSettings({ ...settings, trustedInputSites: e.target.value.split('\n') })}
+            style={{ width: '100%', marginTop: 8, fontFamily: 'inherit', boxSizing: 'border-box' }}
+          />
+          <p className="help-text">
+            Sites listed above (one hostname per line, subdomains included) always use trusted input.
+            Trusted clicks, typing and key presses attach the Chrome debugger to the agent tab, which shows a "started debugging" bar while active.
+          </p>
+        </div>
+
+        <div className="setting-group">
+          <label>Execution Mode</label>
+          <select
+            value={settings.executionMode || 'agent'}
+            onChange={(e) => setSettings({ ...settings, executionMode: e.target.value as ExecutionMode })}
+          >
+            <option value="agent">Agent (model decides each tool call)</option>
+            <option value="plan">Plan executor (run and validate each planned step)</option>
+          </select>
+          <p className="help-text">
+            The plan executor follows the execution plan step by step, checks each step against its validation criteria, and asks the planner for a new plan from a step that fails.
+          </p>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8 }}>
+            <input
+              id="backgroundRuns"
+              type="checkbox"
+              checked={!!settings.backgroundRuns}
+              onChange={(e) => setSettings({ ...settings, backgroundRuns: e.target.checked })}
+            />
+            <label htmlFor="backgroundRuns">Keep tasks running when the side panel closes</label>
+          </div>
+          <p className="help-text">
+            Background tasks reconnect when the panel reopens. Nobody is asked for site access while they run, so they are refused on sites without an "always" grant.
+          </p>
+        </div>
+
+        <div className="setting-group">
+          <label>Stop Policy</label>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+            <input
+              type="number"
+              min={1}
+              placeholder="Max steps (default)"
+              value={settings.stopPolicy?.maxSteps ?? ''}
+              onChange={(e) => updateStopPolicy({ maxSteps: numberOrUndefined(e.target.value) })}
+            />
+            <input
+              type="number"
+              min={0}
+              placeholder="Max tokens (none)"
+              value={settings.stopPolicy?.maxTokens ?? ''}
+              onChange={(e) => updateStopPolicy({ maxTokens: numberOrUndefined(e.target.value) })}
+            />
+            <input
+              type="number"
+              min={0}
+              placeholder="Max minutes (none)"
+              value={settings.stopPolicy?.maxWallTimeMs !== undefined ? settings.stopPolicy.maxWallTimeMs / 60000 : ''}
+              onChange={(e) => {
+                const minutes = numberOrUndefined(e.target.value);
+                updateStopPolicy({ maxWallTimeMs: minutes === undefined ? undefined : Math.round(minutes * 60000) });
+              }}
+            />
+            <input
+              type="number"
+              min={0}
+              step={0.05}
+              placeholder="Max cost in $ (none)"
+              value={settings.stopPolicy?.maxCostUsd ?? ''}
+              onChange={(e) => updateStopPolicy({ maxCostUsd: numberOrUndefined(e.target.value) })}
+            />
+            <input
+              type="number"
+              min={0}
+              max={100}
+              placeholder="Max failed tool calls % (default)"
+              value={settings.stopPolicy?.maxErrorRatio !== undefined ? Math.round(settings.stopPolicy.maxErrorRatio * 100) : ''}
+              onChange={(e) => {
+                const percent = numberOrUndefined(e.target.value);
+                updateStopPolicy({ maxErrorRatio: percent === undefined ? undefined : Math.min(percent, 100) / 100 });
+              }}
+            />
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8 }}>
+            <input
+              id="detectLoops"
+              type="checkbox"
+              checked={settings.stopPolicy?.detectLoops ?? true}
+              onChange={(e) => updateStopPolicy({ detectLoops: e.target.checked })}
+            />
+            <label htmlFor="detectLoops">Stop when the agent keeps navigating to the same page</label>
+          </div>
+          <p className="help-text">
+            Limits for each run; leave a field empty for the default, or enter 0 to turn a limit other than steps off. A stopped run shows which limit it hit and can be continued for more steps from the chat.
+          </p>
+        </div>
+
+        <div className="setting-group">
+          <label>Redaction</label>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <input
+              id="redactionEnabled"
+              type="checkbox"
+              checked={settings.redaction?.enabled ?? true}
+              onChange={(e) => updateRedaction({ enabled: e.target.checked })}
+            />
+            <label htmlFor="redactionEnabled">Hide personal data and secrets from the AI provider</label>
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 4, marginTop: 8 }}>
+            {REDACTION_KINDS.map(kind => (
+              <div key={kind} style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                <input
+                  id={`redact-${kind}`}
+                  type="checkbox"
+                  disabled={settings.redaction?.enabled === false}
+                  checked={(settings.redaction?.kinds ?? REDACTION_KINDS).includes(kind)}
+                  onChange={(e) => toggleRedactionKind(kind, e.target.checked)}
+                />
+                <label htmlFor={`redact-${kind}`}>{REDACTION_KIND_LABELS[kind]}</label>
+              </div>
+            ))}
+          </div>
+          <textarea
+            rows={3}
+            placeholder={'bank.example.com: off\ncrm.example.com: email, phone\nintranet.local: all'}
+            value={redactionSitesText ?? formatRedactionSites(settings.redaction?.sites)}
+            onChange={(e) => {
+              setRedactionSitesText(e.target.value);
+              updateRedaction({ sites: parseRedactionSites(e.target.value) });
+            }}
+            style={{ width: '100%', marginTop: 8, fontFamily: 'inherit', boxSizing: 'border-box' }}
+          />
+          <p className="help-text">
+            Matching values in page text, form fields and tool results are replaced with placeholders like [REDACTED_EMAIL_1] and painted over in screenshots; the agent can still type them into fields.
+            Per-site rules (one per line, subdomains included) override the kinds above: "off", "all" or a list such as "email, phone, card, national_id, api_key, jwt".
+          </p>
+        </div>
+
+        <div className="setting-group">
+          <label>Audit Log</label>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+            <input
+              type="number"
+              min={1}
+              placeholder={`Keep days (${DEFAULT_AUDIT_RETENTION.maxAgeDays})`}
+              value={settings.auditRetention?.maxAgeDays ?? ''}
+              onChange={(e) => updateAuditRetention({ maxAgeDays: numberOrUndefined(e.target.value) })}
+            />
+            <input
+              type="number"
+              min={1}
+              placeholder={`Max entries (${DEFAULT_AUDIT_RETENTION.maxEntries})`}
+              value={settings.auditRetention?.maxEntries ?? ''}
+              onChange={(e) => updateAuditRetention({ maxEntries: numberOrUndefined(e.target.value) })}
+            />
+          </div>
+          <p className="help-text">
+            Every guardrail decision is kept with the run and page it belongs to, and can be filtered and exported as JSON Lines or CSV from the guardrails monitor. Older entries are removed when a run starts.
+          </p>
+        </div>
+
+        <CredentialVaultSettings />
+
+        <SitePermissionSettings />
+
         <button
           className={`save-button ${saved ? 'saved' : ''}`}
           onClick={handleSave}
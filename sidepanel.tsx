@@ -10,7 +10,7 @@ if (typeof globalThis !== 'undefined' && !globalThis.__name) {
 import { createRoot } from 'react-dom/client';
 import { Streamdown } from 'streamdown';
 import './app.css'; // Import GT America fonts and OKLCH theme
-import type { Settings, MCPClient, PageContext, Message } from './types';
+import type { Settings, MCPClient, PageContext, Message, DemonstrationEvent, ExtractedTable } from './types';
 import { GeminiResponseSchema } from './types';
 import { stepCountIs } from 'ai';
 import { initializeBraintrust } from './lib/braintrust';
@@ -22,12 +22,19 @@ import { ToolExecutionDisplay } from './components/ToolExecutionDisplay';
 import { PlanningDisplay } from './components/PlanningDisplay';
 import { Tool } from './components/ui/tool';
 import { AgentComposerIntegration } from './components/agents-ui/agent-composer-integration';
+import { MacroLauncher } from './components/agents-ui/macro-launcher';
+import { DemonstrationRecorder } from './components/agents-ui/demonstration-recorder';
+import { ScheduleManager } from './components/agents-ui/schedule-manager';
+import { WatchManager } from './components/agents-ui/watch-manager';
+import { ExtractionSchemaPicker } from './components/agents-ui/extraction-schema-picker';
 import { ModelMorphDropdown } from './components/ai-elements/model-morph-dropdown';
 import { ReasoningChatForm } from './components/reasoning-chat-form';
 import { Reasoning, ReasoningTrigger, ReasoningContent } from './components/ai-elements/reasoning';
 import { Response } from './components/ai-elements/response';
 import { cn } from './lib/utils';
 import { ApprovalModal, type ToolApprovalRequest } from './components/ui/approval-modal';
+import { OriginPermissionModal } from './components/ui/origin-permission-modal';
+import type { OriginGrantDecision, OriginPermissionRequest } from './lib/origin-permissions';
 // Enhanced chat elements with improved styling
 import { 
   Conversation,
@@ -50,7 +57,42 @@ import {
   ErrorAnalysisArtifact,
   ExecutionTrajectoryArtifact,
   WorkflowMetadataArtifact,
+  StopReasonArtifact,
+  AskUserArtifact,
+  DatasetArtifact,
+  TableArtifact,
 } from './components/ui/artifact-views';
+import type { StopPolicy } from './lib/stop-policy';
+import type { AskUserRequest, AskUserAnswer } from './lib/ask-user';
+import {
+  getDefaultMacroStore,
+  recordMacro,
+  replayMacro,
+  hasReplayableSteps,
+  createModelStepFallback,
+  type Macro,
+  type MacroStepFallback,
+} from './lib/macros';
+import {
+  getDefaultDemonstrationStore,
+  createDemonstration,
+  demonstrationToTemplate,
+  type DemonstrationMode,
+  type SavedDemonstration,
+} from './lib/demonstrations';
+import type { ScheduledRun, ScheduledTask } from './lib/scheduler';
+import type { PageWatch, WatchChange } from './lib/page-watch';
+import {
+  getDefaultExtractionSchemaStore,
+  toExtractionRequest,
+  type ExtractionRequest,
+  type SavedExtractionSchema,
+} from './lib/structured-extraction';
+import { createEnhancedBrowserToolSet } from './lib/ai-sdk-6-enhanced-integration';
+import { describeAttachments, resolveUploadFiles } from './lib/file-upload';
+import { getDefaultVaultStore, listCredentials } from './lib/credential-vault';
+import { BrowserWorkflowTransport } from './lib/browser-workflow-transport';
+import { applyWorkflowStreamChunk, readWorkflowStream } from './lib/workflow-stream';
 
 // Suppress noisy unhandled errors coming from provider fallbacks (e.g., AI_NoOutputGeneratedError)
 if (typeof window !== 'undefined') {
@@ -77,6 +119,12 @@ if (typeof window !== 'undefined') {
 // AI Elements Response primitive is used for message content display
 // It uses Streamdown internally with proper memoization and streaming support
 
+// New page watches start from the page the user is looking at
+async function getCurrentTabUrl(): Promise<string | undefined> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  return tab?.url;
+}
+
 function ChatSidebar() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [settings, setSettings] = useState<Settings | null>(null);
@@ -86,13 +134,18 @@ function ChatSidebar() {
   const [approvalModalOpen, setApprovalModalOpen] = useState(false);
   const [currentApproval, setCurrentApproval] = useState<ToolApprovalRequest | null>(null);
   const [approvalResolver, setApprovalResolver] = useState<((approved: boolean) => void) | null>(null);
+
+  // Site access prompt (lib/origin-permissions.ts): one dialog at a time
+  const [originRequest, setOriginRequest] = useState<OriginPermissionRequest | null>(null);
+  const originResolverRef = useRef<((decision: OriginGrantDecision | null) => void) | null>(null);
+  const originPromptRef = useRef<Promise<boolean> | null>(null);
   
   // Use @ai-sdk-tools/store for high-performance message management
   // Store works with message-like structures - we'll use type assertion for compatibility
   const messages = (useChatMessages<any>() as Message[]) || [];
   const actions = useChatActions<any>();
   const { setMessages, pushMessage, replaceMessageById } = actions;
-  const chatStoreApi = useChatStoreApi();
+  const chatStoreApi = useChatStoreApi<any>();
   
   // Helper function to update the last message (common pattern)
   const updateLastMessage = (updater: (msg: Message) => Message) => {
@@ -105,14 +158,15 @@ function ChatSidebar() {
   };
 
   // Approval handler that returns a Promise - this will pause execution until user responds
-  const handleApprovalRequired = async (toolName: string, args: any): Promise<boolean> => {
+  const handleApprovalRequired = async (toolName: string, args: any, reason?: string): Promise<boolean> => {
     return new Promise((resolve) => {
       setCurrentApproval({
         toolCallId: `approval_${Date.now()}`,
         toolName,
         args,
-        reason: `The AI agent wants to execute ${toolName} with the specified parameters.`,
-        riskLevel: toolName === 'navigate' ? 'medium' : 'low',
+        // A guardrail reason means the call was escalated (e.g. after a prompt injection)
+        reason: reason ?? `The AI agent wants to execute ${toolName} with the specified parameters.`,
+        riskLevel: reason ? 'high' : toolName === 'navigate' ? 'medium' : 'low',
       });
       setApprovalResolver(() => resolve);
       setApprovalModalOpen(true);
@@ -137,6 +191,147 @@ function ChatSidebar() {
     setCurrentApproval(null);
   };
 
+  // Saved macros, shown in the composer
+  const [macros, setMacros] = useState<Macro[]>([]);
+  useEffect(() => {
+    getDefaultMacroStore().list().then(setMacros).catch((error) => console.error('Failed to load macros:', error));
+  }, []);
+
+  // Extraction schemas; the selected one is attached to each task until cleared
+  const [extractionSchemas, setExtractionSchemas] = useState<SavedExtractionSchema[]>([]);
+  const [selectedExtractionSchemaId, setSelectedExtractionSchemaId] = useState<string | null>(null);
+  useEffect(() => {
+    getDefaultExtractionSchemaStore().list().then(setExtractionSchemas).catch((error) => console.error('Failed to load extraction schemas:', error));
+  }, []);
+
+  // Demonstration recording: the user does the task in the page, content.ts reports each action
+  const [demonstrationRecording, setDemonstrationRecording] = useState(false);
+  const [demonstrationEvents, setDemonstrationEvents] = useState<DemonstrationEvent[]>([]);
+  const [demonstrations, setDemonstrations] = useState<SavedDemonstration[]>([]);
+  useEffect(() => {
+    getDefaultDemonstrationStore().list().then(setDemonstrations).catch((error) => console.error('Failed to load demonstrations:', error));
+    // A recording left running when the panel was closed has no timeline to go to
+    chrome.runtime.sendMessage({ type: 'DEMONSTRATION_STOP' }).catch(() => {});
+
+    const handleDemonstrationEvent = (request: any) => {
+      if (request.type === 'DEMONSTRATION_EVENT' && request.event) {
+        setDemonstrationEvents((prev) => [...prev, request.event as DemonstrationEvent]);
+      }
+    };
+    chrome.runtime.onMessage.addListener(handleDemonstrationEvent);
+    return () => chrome.runtime.onMessage.removeListener(handleDemonstrationEvent);
+  }, []);
+
+  // Scheduled tasks live in the background worker; this is a view of them and their runs
+  const [scheduledTasks, setScheduledTasks] = useState<ScheduledTask[]>([]);
+  const [scheduleRuns, setScheduleRuns] = useState<Record<string, ScheduledRun[]>>({});
+  const refreshSchedules = async () => {
+    const response = await chrome.runtime.sendMessage({ type: 'SCHEDULE_LIST' }).catch(() => null);
+    if (response?.success) {
+      setScheduledTasks(response.tasks);
+      setScheduleRuns(response.runs);
+    }
+  };
+  useEffect(() => {
+    void refreshSchedules();
+    const handleScheduleUpdate = (request: any) => {
+      if (request.type === 'SCHEDULE_UPDATED') void refreshSchedules();
+    };
+    chrome.runtime.onMessage.addListener(handleScheduleUpdate);
+    return () => chrome.runtime.onMessage.removeListener(handleScheduleUpdate);
+  }, []);
+
+  const handleSaveSchedule = async (task: ScheduledTask): Promise<string | null> => {
+    const response = await chrome.runtime.sendMessage({ type: 'SCHEDULE_SAVE', task });
+    await refreshSchedules();
+    return response?.success ? null : response?.error || 'Could not save the schedule';
+  };
+
+  const handleDeleteSchedule = async (taskId: string) => {
+    await chrome.runtime.sendMessage({ type: 'SCHEDULE_DELETE', taskId });
+    await refreshSchedules();
+  };
+
+  const handleRunScheduleNow = async (taskId: string) => {
+    await chrome.runtime.sendMessage({ type: 'SCHEDULE_RUN_NOW', taskId });
+  };
+
+  // Page watches also run in the background worker; changes arrive through WATCH_UPDATED
+  const [pageWatches, setPageWatches] = useState<PageWatch[]>([]);
+  const [watchChanges, setWatchChanges] = useState<Record<string, WatchChange[]>>({});
+  const refreshWatches = async () => {
+    const response = await chrome.runtime.sendMessage({ type: 'WATCH_LIST' }).catch(() => null);
+    if (response?.success) {
+      setPageWatches(response.watches);
+      setWatchChanges(response.changes);
+    }
+  };
+  useEffect(() => {
+    void refreshWatches();
+    const handleWatchUpdate = (request: any) => {
+      if (request.type === 'WATCH_UPDATED') void refreshWatches();
+    };
+    chrome.runtime.onMessage.addListener(handleWatchUpdate);
+    return () => chrome.runtime.onMessage.removeListener(handleWatchUpdate);
+  }, []);
+
+  const handleSaveWatch = async (watch: PageWatch): Promise<string | null> => {
+    const response = await chrome.runtime.sendMessage({ type: 'WATCH_SAVE', watch });
+    await refreshWatches();
+    return response?.success ? null : response?.error || 'Could not save the watch';
+  };
+
+  const handleDeleteWatch = async (watchId: string) => {
+    await chrome.runtime.sendMessage({ type: 'WATCH_DELETE', watchId });
+    await refreshWatches();
+  };
+
+  const handleCheckWatchNow = async (watchId: string) => {
+    await chrome.runtime.sendMessage({ type: 'WATCH_CHECK_NOW', watchId });
+  };
+
+  // Pending askUser questions, resolved when the user answers inline
+  const askUserResolversRef = useRef<Map<string, (answer: AskUserAnswer) => void>>(new Map());
+
+  // askUser handler - the tool call (and the agent loop) waits on this Promise
+  const handleAskUser = (request: AskUserRequest, abortSignal?: AbortSignal): Promise<AskUserAnswer> => {
+    return new Promise((resolve) => {
+      const signal = abortSignal ?? abortControllerRef.current?.signal;
+      const onAbort = () => handleAnswerQuestion(request.id, { requestId: request.id, answered: false, timestamp: Date.now() });
+      askUserResolversRef.current.set(request.id, (answer) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(answer);
+      });
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      // Read the store directly: this runs from the workflow, long after the render that created it
+      const current = (chatStoreApi.getState().messages as Message[]) || [];
+      const last = current[current.length - 1];
+      if (last) {
+        replaceMessageById(last.id, { ...last, userQuestions: [...(last.userQuestions || []), request] });
+      }
+    });
+  };
+
+  const handleAnswerQuestion = (requestId: string, answer: AskUserAnswer) => {
+    const resolve = askUserResolversRef.current.get(requestId);
+    if (!resolve) return;
+    askUserResolversRef.current.delete(requestId);
+
+    const current = (chatStoreApi.getState().messages as Message[]) || [];
+    const owner = current.find((msg) => msg.userQuestions?.some((q) => q.id === requestId));
+    if (owner) {
+      replaceMessageById(owner.id, {
+        ...owner,
+        userQuestions: owner.userQuestions!.map((q) => (q.id === requestId ? { ...q, answer } : q)),
+      });
+    }
+    resolve(answer);
+  };
+
   // Helper function to append text to last message
   const appendToLastMessage = (text: string) => {
     updateLastMessage((msg) => ({ ...msg, content: msg.content + text }));
@@ -157,6 +352,10 @@ function ChatSidebar() {
   // Track the active browser tab id for metadata/tracking
   const browserTabIdRef = useRef<number | null>(null);
   const browserTabUrlRef = useRef<string | null>(null);
+  // Workflow run whose agent tab all browser tools act on (see lib/agent-tabs.ts)
+  const agentRunIdRef = useRef<string | null>(null);
+  // Files attached to the current task, for uploadFile (see lib/file-upload.ts)
+  const attachmentsRef = useRef<File[]>([]);
 
   // Initialize active tab id on mount
   useEffect(() => {
@@ -169,6 +368,114 @@ function ChatSidebar() {
     }
   }, []);
 
+  // Give the conversation its own tab so switching tabs mid-run doesn't redirect the agent.
+  // The first turn takes over the tab the user is on (keeping its page state); follow-up
+  // turns reuse it until the conversation ends (new chat or the panel closes).
+  const startAgentTab = async (): Promise<void> => {
+    const workflowRunId = agentRunIdRef.current ?? `sidepanel_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    const response = await new Promise<any>((resolve) => {
+      chrome.runtime.sendMessage({ type: 'AGENT_TAB_START', workflowRunId, adoptActiveTab: true }, resolve);
+    });
+    if (!response?.success) {
+      throw new Error(`Could not open agent tab: ${response?.error || chrome.runtime.lastError?.message || 'unknown error'}`);
+    }
+    agentRunIdRef.current = workflowRunId;
+    browserTabIdRef.current = response.tabId;
+  };
+
+  // Runs started in the background (settings.backgroundRuns) keep going when the panel
+  // closes; the panel follows them over the workflow stream and picks them up on reopen
+  const workflowTransportRef = useRef<BrowserWorkflowTransport | null>(null);
+  const getWorkflowTransport = () => {
+    workflowTransportRef.current ??= new BrowserWorkflowTransport();
+    return workflowTransportRef.current;
+  };
+
+  const followBackgroundRun = async (stream: ReadableStream<Uint8Array>) => {
+    await readWorkflowStream(stream, ({ chunk }) => {
+      if (chunk.type === 'error') {
+        pushMessage({ id: `error_${Date.now()}`, role: 'assistant', content: `Error: ${chunk.errorText}` });
+        return;
+      }
+      // Read the store directly: chunks arrive long after the render that started the run
+      setMessages(applyWorkflowStreamChunk((chatStoreApi.getState().messages as Message[]) || [], chunk));
+    }, abortControllerRef.current?.signal);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const transport = getWorkflowTransport();
+      const active = await transport.loadActiveRun();
+      if (!active || cancelled) return;
+      // The reopened panel has no messages, so the run is replayed from its first chunk
+      const stream = await transport.reconnectToStream(active.workflowRunId, 0);
+      if (!stream || cancelled) return;
+      console.log(`🔌 Reconnecting to background run ${active.workflowRunId}`);
+      setMessages(active.messages);
+      abortControllerRef.current = new AbortController();
+      setIsLoading(true);
+      try {
+        await followBackgroundRun(stream);
+      } catch (error) {
+        console.error('Lost background run stream:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const releaseAgentTab = () => {
+    const workflowRunId = agentRunIdRef.current;
+    if (!workflowRunId) return;
+    agentRunIdRef.current = null;
+    chrome.runtime.sendMessage({ type: 'AGENT_TAB_RELEASE', workflowRunId }, () => {
+      void chrome.runtime.lastError; // Ignore if background is unavailable
+    });
+  };
+
+  // Closing the panel ends the conversation
+  useEffect(() => {
+    window.addEventListener('pagehide', releaseAgentTab);
+    return () => window.removeEventListener('pagehide', releaseAgentTab);
+  }, []);
+
+  // Ask which access to grant a site, and record it in the background; false when denied
+  const requestOriginGrant = (request: OriginPermissionRequest): Promise<boolean> => {
+    const signal = abortControllerRef.current?.signal;
+    const prompt = new Promise<OriginGrantDecision | null>((resolve) => {
+      const onAbort = () => originResolverRef.current?.(null);
+      originResolverRef.current = (decision) => {
+        signal?.removeEventListener('abort', onAbort);
+        originResolverRef.current = null;
+        setOriginRequest(null);
+        resolve(decision);
+      };
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      setOriginRequest(request);
+    }).then(async (decision) => {
+      if (!decision) return false;
+      const response = await chrome.runtime.sendMessage({
+        type: 'ORIGIN_GRANT',
+        workflowRunId: agentRunIdRef.current ?? undefined,
+        origin: request.origin,
+        ...decision,
+      });
+      return !!response?.success;
+    }).finally(() => {
+      originPromptRef.current = null;
+    });
+    originPromptRef.current = prompt;
+    return prompt;
+  };
+
   const executeTool = async (toolName: string, parameters: any, retryCount = 0): Promise<any> => {
     const MAX_RETRIES = 3;
     const RETRY_DELAY = 1500; // 1.5 seconds to allow page to load
@@ -176,16 +483,31 @@ function ChatSidebar() {
     // Different timeouts for different tool types
     const TOOL_TIMEOUTS: Record<string, number> = {
       screenshot: 10000,
-      navigate: 15000,
+      navigate: 35000, // Resolves after load + quiet period (tool timeout defaults to 30s)
+      goBack: 35000,
+      goForward: 35000,
+      reload: 35000,
       click: 8000,
       type: 6000,
       scroll: 4000,
       getPageContext: 5000,
+      getPageContent: 8000,
+      getAccessibilitySnapshot: 5000,
+      extractTable: 5000,
+      harvestList: 165000, // Stops itself within 2 min, plus one last round and page load
       getBrowserHistory: 8000,
       wait: 30000,
       pressKey: 3000,
       keyCombo: 3000,
       dragDrop: 10000,
+      selectOption: 6000, // Custom dropdowns get up to 2s to show their options
+      setChecked: 4000,
+      setDate: 4000,
+      uploadFile: 10000,
+      openTab: 5000,
+      switchTab: 3000,
+      listTabs: 3000,
+      closeTab: 3000,
     };
 
     const TOOL_TIMEOUT = TOOL_TIMEOUTS[toolName] || 8000;
@@ -201,9 +523,19 @@ function ChatSidebar() {
         }, TOOL_TIMEOUT);
       });
 
+      // The model names attachments; their contents are added here, outside the tool history
+      const messageParameters = toolName === 'uploadFile'
+        ? { ...parameters, files: await resolveUploadFiles(attachmentsRef.current, parameters?.attachments) }
+        : parameters;
+
       // Create a promise that resolves/rejects based on the actual tool execution
       const toolPromise = new Promise<any>((resolve, reject) => {
-        chrome.runtime.sendMessage({ type: 'EXECUTE_TOOL', toolName, parameters }, (response) => {
+        chrome.runtime.sendMessage({
+          type: 'EXECUTE_TOOL',
+          toolName,
+          parameters: messageParameters,
+          workflowRunId: agentRunIdRef.current ?? undefined,
+        }, (response) => {
           const errorMsg = response?.error || chrome.runtime.lastError?.message || '';
           const isConnectionError = errorMsg.includes('Receiving end does not exist') || 
                                    errorMsg.includes('Could not establish connection');
@@ -219,6 +551,8 @@ function ChatSidebar() {
                 reject(error);
               }
             }, RETRY_DELAY);
+          } else if (response?.permissionRequired) {
+            resolve(response);
           } else if (response?.error) {
             reject(new Error(response.error));
           } else {
@@ -232,6 +566,19 @@ function ChatSidebar() {
       
       // Clear timeout if successful
       clearTimeout(timeoutId);
+
+      // No grant for this site yet: ask (outside the tool timeout) and try again. A call
+      // that hits while another dialog is open waits for it, since that grant may cover it.
+      if (result?.permissionRequired) {
+        if (originPromptRef.current) {
+          await originPromptRef.current;
+          return executeTool(toolName, parameters, retryCount);
+        }
+        if (!(await requestOriginGrant(result.permissionRequired))) {
+          throw new Error(`${result.error} The user denied access.`);
+        }
+        return executeTool(toolName, parameters, retryCount);
+      }
       
       // Track execution duration and success
       const executionDuration = Date.now() - executionStartTime;
@@ -656,6 +1003,7 @@ function ChatSidebar() {
   const newChat = async () => {
     // Clear messages and tool executions
     setMessages([]);
+    releaseAgentTab();
     setShowBrowserToolsWarning(false);
     
     // Force close and clear ALL cached state
@@ -1022,8 +1370,8 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
             // Execute the browser action
             const result = await executeBrowserAction(funcName, funcArgs);
             
-            // Wait longer after navigation actions for page to load
-            const isNavigationAction = ['navigate', 'open_web_browser', 'navigate_to', 'go_to', 'click', 'click_at', 'mouse_click', 'go_back', 'back', 'go_forward', 'forward'].includes(funcName);
+            // Wait longer after clicks that may navigate (navigate/back/forward already wait for load)
+            const isNavigationAction = ['click', 'click_at', 'mouse_click'].includes(funcName);
             if (isNavigationAction) {
               await new Promise(resolve => setTimeout(resolve, 2500)); // Wait 2.5 seconds for page to load
             } else {
@@ -1388,37 +1736,13 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
       
       case 'go_back':
       case 'back':
-        // Go back in browser history - properly async
-        return new Promise<any>((resolve) => {
-          chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-            if (tabs[0]?.id) {
-              chrome.tabs.goBack(tabs[0].id);
-              // Add small delay for navigation to register
-              setTimeout(() => {
-                resolve({ success: true, message: 'Navigated back' });
-              }, 300);
-            } else {
-              resolve({ success: false, error: 'No active tab found' });
-            }
-          });
-        });
+        // Resolves once the previous page has loaded
+        return await executeTool('goBack', {});
 
       case 'go_forward':
       case 'forward':
-        // Go forward in browser history - properly async
-        return new Promise<any>((resolve) => {
-          chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-            if (tabs[0]?.id) {
-              chrome.tabs.goForward(tabs[0].id);
-              // Add small delay for navigation to register
-              setTimeout(() => {
-                resolve({ success: true, message: 'Navigated forward' });
-              }, 300);
-            } else {
-              resolve({ success: false, error: 'No active tab found' });
-            }
-          });
-        });
+        // Resolves once the next page has loaded
+        return await executeTool('goForward', {});
       
       case 'search':
         // Navigate to Google search
@@ -1570,7 +1894,7 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
   };
 
   // Computer Use via AI Gateway (Flash Lite) with Workflow-based orchestration
-  const streamWithGatewayComputerUse = async (messages: Message[]) => {
+  const streamWithGatewayComputerUse = async (messages: Message[], stopPolicy?: Partial<StopPolicy>, extraction?: ExtractionRequest, attachments?: File[]) => {
     const { traced } = await import('./lib/braintrust');
     return await traced(
       'browser_tools_workflow_gateway',
@@ -1592,11 +1916,11 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
           hasYouApi: !!settings?.youApiKey,
         }, null, 2));
         
-        // Helper to query active tab info
+        // Helper to query the agent tab's info (falls back to the active tab)
         const getActiveTabInfo = async (): Promise<{ id?: number; url?: string }> => {
           return new Promise((resolve) => {
             try {
-              chrome.runtime?.sendMessage({ type: 'GET_TAB_INFO' }, (info) => {
+              chrome.runtime?.sendMessage({ type: 'GET_TAB_INFO', workflowRunId: agentRunIdRef.current ?? undefined }, (info) => {
                 resolve(info || {});
               });
             } catch (error) {
@@ -1662,12 +1986,8 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
           }
         };
         
-        const enrichToolResponseForWorkflow = async (res: any, toolName: string) => {
+        const enrichToolResponseForWorkflow = async (res: any, _toolName: string) => {
           try {
-            // For very fast navigations, add a small delay before reading context
-            if (toolName === 'navigate') {
-              await new Promise(resolve => setTimeout(resolve, 400));
-            }
             const pageCtx = await getPageContextAfterAction();
             return {
               success: res?.success !== false,
@@ -1684,6 +2004,9 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
           throw new Error('API key is required');
         }
         
+        // Saved logins the agent may type as vault tokens (names only, values stay encrypted)
+        const credentials = await listCredentials(getDefaultVaultStore()).catch(() => []);
+
         // Prepare workflow input
         const workflowInput = {
           userQuery,
@@ -1695,7 +2018,15 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
             braintrustProjectName: settings.braintrustProjectName,
             youApiKey: settings.youApiKey,
             computerUseEngine: settings.computerUseEngine || 'gateway-flash-lite',
+            executionMode: settings.executionMode,
+            stopPolicy: settings.stopPolicy,
+            redaction: settings.redaction,
+            auditRetention: settings.auditRetention,
           },
+          stopPolicy,
+          extraction,
+          attachments: attachments?.length ? describeAttachments(attachments) : undefined,
+          credentials: credentials.length ? credentials : undefined,
           initialContext: initialPageContext ? {
             currentUrl,
             pageContext: initialPageContext,
@@ -1717,6 +2048,7 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
           messages,
           abortSignal: abortControllerRef.current?.signal,
           onApprovalRequired: handleApprovalRequired,
+          onAskUser: handleAskUser,
         });
         
         // Log workflow completion
@@ -2006,7 +2338,7 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
   };
 
   // New handler for AgentPromptComposer
-  const handleComposerSubmit = async (query: string, options?: { persona?: any; files?: File[] }) => {
+  const handleComposerSubmit = async (query: string, options?: { persona?: any; files?: File[]; stopPolicy?: Partial<StopPolicy> }) => {
     if (!query.trim() || isLoading || !settings) return;
 
     const userMessage: Message = {
@@ -2026,6 +2358,7 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
     // Autoscroll handled by AutoStickWatcher
 
     abortControllerRef.current = new AbortController();
+    attachmentsRef.current = options?.files ?? [];
 
     try {
       // Browser tools are now MANDATORY - no more conditional checks
@@ -2052,8 +2385,25 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
             mcpToolsRef.current = null;
           }
 
-          console.log('🚀 [handleSubmit] Using Gateway Computer Use workflow');
-          await streamWithGatewayComputerUse(newMessages);
+          if (settings.backgroundRuns) {
+            // The background opens the run's tab and releases it when the run ends
+            console.log('🚀 [handleSubmit] Starting background workflow run');
+            const stream = await getWorkflowTransport().sendMessages({
+              messages: newMessages,
+              settings: { provider: settings.provider, apiKey: settings.apiKey, model: settings.model },
+            });
+            await followBackgroundRun(stream);
+          } else {
+            console.log('🚀 [handleSubmit] Using Gateway Computer Use workflow');
+            await startAgentTab();
+            const extractionSchema = extractionSchemas.find(schema => schema.id === selectedExtractionSchemaId);
+            await streamWithGatewayComputerUse(
+              newMessages,
+              options?.stopPolicy,
+              extractionSchema ? toExtractionRequest(extractionSchema) : undefined,
+              attachmentsRef.current
+            );
+          }
         }
 
         setIsLoading(false);
@@ -2078,6 +2428,217 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
       }
   };
 
+  const refreshMacros = async () => {
+    try {
+      setMacros(await getDefaultMacroStore().list());
+    } catch (error) {
+      console.error('Failed to load macros:', error);
+    }
+  };
+
+  // Save a finished run's browser actions as a macro; it's renamed and tuned from the launcher
+  const handleSaveMacro = async (messageIndex: number) => {
+    const message = messages[messageIndex];
+    const userQuery = messages.slice(0, messageIndex).filter(m => m.role === 'user').slice(-1)[0]?.content || '';
+    const macro = recordMacro(message?.toolExecutions || [], {
+      name: userQuery.substring(0, 60) || 'Recorded macro',
+      userQuery,
+    });
+    if (macro.steps.length === 0) return;
+
+    await getDefaultMacroStore().put(macro);
+    replaceMessageById(message.id, { ...message, savedMacroId: macro.id });
+    await refreshMacros();
+  };
+
+  const handleUpdateMacro = async (macro: Macro) => {
+    await getDefaultMacroStore().put(macro);
+    await refreshMacros();
+  };
+
+  const handleDeleteMacro = async (macroId: string) => {
+    await getDefaultMacroStore().delete(macroId);
+    await refreshMacros();
+  };
+
+  const refreshExtractionSchemas = async () => {
+    try {
+      setExtractionSchemas(await getDefaultExtractionSchemaStore().list());
+    } catch (error) {
+      console.error('Failed to load extraction schemas:', error);
+    }
+  };
+
+  const handleSaveExtractionSchema = async (schema: SavedExtractionSchema) => {
+    await getDefaultExtractionSchemaStore().put(schema);
+    await refreshExtractionSchemas();
+  };
+
+  const handleDeleteExtractionSchema = async (schemaId: string) => {
+    await getDefaultExtractionSchemaStore().delete(schemaId);
+    await refreshExtractionSchemas();
+  };
+
+  const refreshDemonstrations = async () => {
+    try {
+      setDemonstrations(await getDefaultDemonstrationStore().list());
+    } catch (error) {
+      console.error('Failed to load demonstrations:', error);
+    }
+  };
+
+  const handleStartDemonstration = async () => {
+    const response = await chrome.runtime.sendMessage({ type: 'DEMONSTRATION_START' });
+    if (!response?.success) {
+      console.error('❌ Could not start recording:', response?.error);
+      return;
+    }
+    // The page the user starts on is the first step
+    setDemonstrationEvents([{
+      id: `demo_${Date.now()}_start`,
+      type: 'navigate',
+      timestamp: Date.now(),
+      url: response.url || '',
+      title: response.title,
+    }]);
+    setDemonstrationRecording(true);
+  };
+
+  const handleStopDemonstration = async () => {
+    await chrome.runtime.sendMessage({ type: 'DEMONSTRATION_STOP' });
+    setDemonstrationRecording(false);
+  };
+
+  const handleSaveDemonstration = async (name: string, mode: DemonstrationMode) => {
+    const demonstration = createDemonstration(demonstrationEvents, { name, mode });
+    if (demonstration.events.length === 0) return;
+    await getDefaultDemonstrationStore().put(demonstration);
+    setDemonstrationEvents([]);
+    await refreshDemonstrations();
+  };
+
+  const handleDeleteDemonstration = async (demonstrationId: string) => {
+    await getDefaultDemonstrationStore().delete(demonstrationId);
+    await refreshDemonstrations();
+  };
+
+  // Replay a macro without the model; only a step that can't be found is handed to it
+  const handleRunMacro = async (macro: Macro, values: Record<string, string>) => {
+    if (isLoading || !settings) return;
+
+    const paramLines = macro.parameters.map(p => `- ${p.label}: ${values[p.name] ?? p.defaultValue}`);
+    pushMessage({
+      id: Date.now().toString(),
+      role: 'user',
+      content: [`▶ Run macro "${macro.name}"`, ...paramLines].join('\n'),
+    });
+    const assistantId = `macro-run-${Date.now()}`;
+    pushMessage({ id: assistantId, role: 'assistant', content: `Replaying ${macro.steps.length} recorded steps...`, toolExecutions: [] });
+
+    // The run outlives this render, so read the message from the store each time
+    const updateRunMessage = (updater: (msg: Message) => Message) => {
+      const current = ((chatStoreApi.getState().messages as Message[]) || []).find(m => m.id === assistantId);
+      if (current) replaceMessageById(assistantId, updater(current));
+    };
+    const setExecution = (toolCallId: string, exec: NonNullable<Message['toolExecutions']>[number]) => {
+      updateRunMessage((msg) => {
+        const existing = msg.toolExecutions || [];
+        return {
+          ...msg,
+          toolExecutions: existing.some(e => e.toolCallId === toolCallId)
+            ? existing.map(e => (e.toolCallId === toolCallId ? exec : e))
+            : [...existing, exec],
+        };
+      });
+    };
+
+    setIsLoading(true);
+    abortControllerRef.current = new AbortController();
+
+    try {
+      await startAgentTab();
+      const tools = createEnhancedBrowserToolSet(executeTool);
+
+      // The model is only created if a step actually needs it
+      let fallback: MacroStepFallback | undefined;
+      if (settings.apiKey && (settings.provider === 'gateway' || settings.provider === 'openrouter')) {
+        let modelFallback: MacroStepFallback | null = null;
+        fallback = async (request) => {
+          if (!modelFallback) {
+            let model;
+            if (settings.provider === 'openrouter') {
+              const { createOpenRouter } = await import('@openrouter/ai-sdk-provider');
+              model = createOpenRouter({
+                apiKey: settings.apiKey,
+                headers: { 'HTTP-Referer': chrome.runtime.getURL(''), 'X-Title': 'Opulent Browser' },
+              }).chat(settings.model);
+            } else {
+              const { createGateway } = await import('@ai-sdk/gateway');
+              model = createGateway({ apiKey: settings.apiKey })(settings.model || 'google/gemini-2.5-flash');
+            }
+            modelFallback = createModelStepFallback({ model, tools });
+          }
+          return modelFallback(request);
+        };
+      }
+
+      const result = await replayMacro(macro, {
+        tools,
+        executeTool,
+        values,
+        fallback,
+        abortSignal: abortControllerRef.current.signal,
+        onStepStart: (step) => setExecution(`${assistantId}_${step.id}`, {
+          toolCallId: `${assistantId}_${step.id}`,
+          toolName: step.toolName,
+          state: 'input-available',
+          input: step.input,
+          timestamp: Date.now(),
+        }),
+        onStepResult: (stepResult, step) => setExecution(`${assistantId}_${step.id}`, {
+          toolCallId: `${assistantId}_${step.id}`,
+          toolName: step.toolName,
+          state: stepResult.status === 'failed' ? 'output-error' : 'output-available',
+          input: stepResult.input,
+          output: stepResult.status === 'failed' ? undefined : { ...(stepResult.output as Record<string, unknown>), replay: stepResult.status },
+          errorText: stepResult.error,
+          timestamp: Date.now(),
+        }),
+      });
+
+      const failedStep = result.failedStep !== undefined ? macro.steps[result.failedStep] : undefined;
+      updateRunMessage((msg) => ({
+        ...msg,
+        content: result.success
+          ? `✅ Macro "${macro.name}" finished: ${macro.steps.length} steps in ${(result.duration / 1000).toFixed(1)}s` +
+            (result.fallbackCount > 0 ? ` (${result.fallbackCount} completed by the model)` : ' without model calls')
+          : `❌ Macro "${macro.name}" stopped at step ${(result.failedStep ?? 0) + 1}` +
+            (failedStep ? ` (${failedStep.description})` : '') +
+            `: ${result.steps[result.steps.length - 1]?.error || 'unknown error'}`,
+      }));
+
+      await getDefaultMacroStore().put({ ...macro, runCount: macro.runCount + 1, lastRunAt: Date.now() });
+      await refreshMacros();
+    } catch (error: any) {
+      console.error('❌ Macro replay failed:', error);
+      updateRunMessage((msg) => ({ ...msg, content: `❌ Macro "${macro.name}" failed: ${error?.message || error}` }));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Pick a run back up after its stop policy ended it, with a fresh step budget
+  const handleContinueRun = async (messageIndex: number, extraSteps: number) => {
+    const stopped = messages[messageIndex];
+    const originalQuery = messages.slice(0, messageIndex).filter(m => m.role === 'user').slice(-1)[0]?.content;
+    if (!stopped?.stopReason || !originalQuery) return;
+
+    await handleComposerSubmit(
+      `Continue the previous task: "${originalQuery.substring(0, 4000)}". It stopped early (${stopped.stopReason.message}). Check the current page and pick up where it left off without repeating finished steps.`,
+      { stopPolicy: { maxSteps: extraSteps } }
+    );
+  };
+
   // Handle follow-up option click
   const handleFollowUpOptionClick = async (prompt: string) => {
     try {
@@ -2291,6 +2852,17 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
                                             errorText: exec.errorText,
                                           }))}
                                         />
+                                        {!isLoading && !message.id.startsWith('macro-run-') && hasReplayableSteps(message.toolExecutions) && (
+                                          <Button
+                                            size="sm"
+                                            variant="ghost"
+                                            className="mt-1 h-6 px-2 text-xs"
+                                            disabled={!!message.savedMacroId}
+                                            onClick={() => handleSaveMacro(index)}
+                                          >
+                                            {message.savedMacroId ? '✓ Saved as macro' : 'Save as macro'}
+                                          </Button>
+                                        )}
                                       </div>
                                     )}
                                     
@@ -2341,6 +2913,7 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
                                         <EnhancedPlanDisplay 
                                           plan={message.planning.plan}
                                           confidence={message.planning.confidence}
+                                          revisions={message.planRevisions}
                                           defaultOpen={false}
                                         />
                                       </div>
@@ -2353,6 +2926,46 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
                                       </div>
                                     )}
                                     
+                                    {/* Display questions the agent asked; pending ones take the answer inline */}
+                                    {message.userQuestions?.map((question) => (
+                                      <div key={question.id} style={{ marginBottom: '8px' }}>
+                                        <AskUserArtifact
+                                          request={question}
+                                          answer={question.answer}
+                                          onAnswer={askUserResolversRef.current.has(question.id)
+                                            ? (answer) => handleAnswerQuestion(question.id, answer)
+                                            : undefined}
+                                        />
+                                      </div>
+                                    ))}
+
+                                    {/* Display why the run stopped early, with a continue action */}
+                                    {message.stopReason && (
+                                      <div style={{ marginBottom: '8px' }}>
+                                        <StopReasonArtifact
+                                          stopReason={message.stopReason}
+                                          disabled={isLoading}
+                                          onContinue={(extraSteps) => handleContinueRun(index, extraSteps)}
+                                        />
+                                      </div>
+                                    )}
+
+                                    {/* Display tables read by the extractTable tool */}
+                                    {message.toolExecutions
+                                      ?.filter(exec => exec.toolName === 'extractTable' && exec.state === 'output-available' && Array.isArray(exec.output?.tables))
+                                      .map(exec => (
+                                        <div key={exec.toolCallId} style={{ marginBottom: '8px' }}>
+                                          <TableArtifact tables={exec.output!.tables as ExtractedTable[]} />
+                                        </div>
+                                      ))}
+
+                                    {/* Display rows extracted with the task's schema */}
+                                    {message.dataset && (
+                                      <div style={{ marginBottom: '8px' }}>
+                                        <DatasetArtifact dataset={message.dataset} />
+                                      </div>
+                                    )}
+
                                     {/* Display summarization artifact */}
                                     {message.summarization && (
                                       <div style={{ marginBottom: '8px' }}>
@@ -2486,6 +3099,52 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
                   disabled={!settings?.apiKey}
                   showSettings={true}
                   onSettingsClick={() => setShowSettings(true)}
+                  templates={demonstrations.filter(d => d.mode === 'template').map(demonstrationToTemplate)}
+                  toolbar={(
+                    <div className="space-y-2">
+                      <ExtractionSchemaPicker
+                        schemas={extractionSchemas}
+                        selectedId={selectedExtractionSchemaId}
+                        disabled={isLoading}
+                        onSelect={setSelectedExtractionSchemaId}
+                        onSave={handleSaveExtractionSchema}
+                        onDelete={handleDeleteExtractionSchema}
+                      />
+                      <MacroLauncher
+                        macros={macros}
+                        disabled={isLoading || !settings?.apiKey}
+                        onRun={handleRunMacro}
+                        onUpdate={handleUpdateMacro}
+                        onDelete={handleDeleteMacro}
+                      />
+                      <DemonstrationRecorder
+                        recording={demonstrationRecording}
+                        events={demonstrationEvents}
+                        demonstrations={demonstrations}
+                        disabled={isLoading}
+                        onStart={handleStartDemonstration}
+                        onStop={handleStopDemonstration}
+                        onSave={handleSaveDemonstration}
+                        onDiscard={() => setDemonstrationEvents([])}
+                        onDelete={handleDeleteDemonstration}
+                      />
+                      <ScheduleManager
+                        tasks={scheduledTasks}
+                        runs={scheduleRuns}
+                        onSave={handleSaveSchedule}
+                        onDelete={handleDeleteSchedule}
+                        onRunNow={handleRunScheduleNow}
+                      />
+                      <WatchManager
+                        watches={pageWatches}
+                        changes={watchChanges}
+                        getCurrentUrl={getCurrentTabUrl}
+                        onSave={handleSaveWatch}
+                        onDelete={handleDeleteWatch}
+                        onCheckNow={handleCheckWatchNow}
+                      />
+                    </div>
+                  )}
                   modelSelector={settings && (
                     <ModelMorphDropdown
                       provider={settings.provider}
@@ -2493,9 +3152,12 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
                       label="Model"
                       onSelect={(modelId) => {
                         try {
-                          const next = { ...(settings || {}), model: modelId } as Settings;
-                          chrome.storage.local.set({ atlasSettings: next }, () => {
-                            setSettings(next);
+                          // Read-modify-write: the settings page may have saved since this panel loaded
+                          chrome.storage.local.get(['atlasSettings'], (result) => {
+                            const next = { ...(result.atlasSettings || settings), model: modelId } as Settings;
+                            chrome.storage.local.set({ atlasSettings: next }, () => {
+                              setSettings(next);
+                            });
                           });
                         } catch (e) {
                           console.error('Failed to update model:', e);
@@ -2520,6 +3182,15 @@ ${preSearchBlock ? preSearchBlock + '\n' : ''}${evaluationBlock ? evaluationBloc
         />
       )}
       
+      {/* Site access prompt for agent actions */}
+      {originRequest && (
+        <OriginPermissionModal
+          open
+          request={originRequest}
+          onDecide={(decision) => originResolverRef.current?.(decision)}
+        />
+      )}
+
       {/* Approval Modal for tool execution */}
       {currentApproval && (
         <ApprovalModal
@@ -0,0 +1,382 @@
+// Plan Execution Step - Walks ExecutionPlan instructions one at a time
+// Runs the tool mapped to each instruction, checks its validationCriteria against
+// fresh page context, tries the fallbackAction on failure and asks the planner for a
+// partial replan from the failed step. Per-step status is reported for the task queue.
+
+import type { ExecutionPlan, PlanningInstruction } from '../types';
+import type { StreamingStepOutput } from '../schemas/workflow-schemas';
+import type { PartialReplanRequest } from '../planner';
+import { logEvent } from '../lib/braintrust';
+import { workflowDebug } from '../lib/debug-logger';
+import { estimateRunCostUsd, type StopPolicy, type StopReason } from '../lib/stop-policy';
+
+const DEFAULT_MAX_REPLANS = 2;
+const DEFAULT_MAX_STEPS = 50;
+const MAX_WAIT_SECONDS = 30;
+
+// Domains and URLs named in validation criteria; the TLD list keeps "window.location" out
+const URL_PATTERN = /\b(?:https?:\/\/)?((?:[a-z0-9-]+\.)+(?:com|org|net|io|dev|ai|app|co|gov|edu|uk|de|fr|jp))\b(\/[^\s"'`)]*)?/gi;
+
+export type PlanStepStatus = 'pending' | 'in_progress' | 'retrying' | 'completed' | 'error' | 'cancelled';
+
+export interface PlanStepUpdate {
+  taskId: string;
+  instruction: PlanningInstruction;
+  status: PlanStepStatus;
+  detail?: string;
+}
+
+export interface ValidationVerdict {
+  passed: boolean;
+  reason: string;
+}
+
+export interface PlanExecutionStepInput {
+  plan: ExecutionPlan;
+  executeTool: (toolName: string, params: any) => Promise<any>;
+  // Partial replan from the failed step; omit to stop at the first unrecoverable failure
+  replan?: (request: PartialReplanRequest, pageContext?: any) => Promise<PlanningInstruction[]>;
+  // Judge for criteria the text heuristics can't decide (e.g. "results are sorted by price")
+  judgeValidation?: (criteria: string, instruction: PlanningInstruction, pageContext: any) => Promise<ValidationVerdict>;
+  onStepUpdate?: (update: PlanStepUpdate) => void;
+  abortSignal?: AbortSignal;
+  maxReplans?: number;
+  // Run limits, checked before each step; only maxSteps applies without a policy
+  stopPolicy?: StopPolicy;
+  modelId?: string; // Prices the cost limit
+  runStartedAt?: number; // Wall time counts from here (defaults to this step's start)
+  // Tokens used so far by judgeValidation and replan, for the token and cost limits
+  getUsage?: () => { inputTokens: number; outputTokens: number };
+}
+
+export interface PlanStepResult {
+  taskId: string;
+  step: number;
+  action: string;
+  target: string;
+  success: boolean;
+  validation?: ValidationVerdict;
+  usedFallback: boolean;
+  error?: string;
+  url?: string;
+  duration: number;
+}
+
+export interface PlanExecutionStepOutput extends StreamingStepOutput {
+  stepResults: PlanStepResult[];
+  replans: number;
+  completedAllSteps: boolean;
+}
+
+type FallbackInstruction = Pick<PlanningInstruction, 'action' | 'target'> & { reasoning?: string };
+
+/**
+ * Map a plan instruction to a background tool call.
+ * `type` targets are written "<ref or selector> | <text>" (see the planner prompt).
+ */
+export function instructionToToolCall(
+  instruction: FallbackInstruction
+): { toolName: string; params: Record<string, any> } {
+  const target = (instruction.target || '').trim();
+  const elementParams = (element: string) => (/^e\d+$/.test(element) ? { ref: element } : { selector: element });
+
+  switch (instruction.action as string) {
+    case 'navigate': {
+      const url = /^[a-z][a-z0-9+.-]*:/i.test(target) ? target : `https://${target}`;
+      return { toolName: 'navigate', params: { url } };
+    }
+    case 'click':
+      return { toolName: 'click', params: elementParams(target) };
+    case 'type':
+    case 'type_text': {
+      const match = target.match(/^(.+?)\s*(?:\||=>)\s*([\s\S]*)$/);
+      if (!match) {
+        throw new Error(`Type target must be "<ref or selector> | <text>", got "${target}"`);
+      }
+      return { toolName: 'type', params: { ...elementParams(match[1].trim()), text: match[2] } };
+    }
+    case 'press_key':
+      return { toolName: 'pressKey', params: { key: target || 'Enter' } };
+    case 'scroll': {
+      const direction = target.toLowerCase();
+      if (['up', 'down', 'left', 'right'].includes(direction)) {
+        return { toolName: 'scroll', params: { direction } };
+      }
+      if (direction === 'top' || direction === 'bottom') {
+        return { toolName: 'scroll', params: { direction: direction === 'top' ? 'up' : 'down', amount: 100000 } };
+      }
+      return { toolName: 'scroll', params: { direction: 'down', target } };
+    }
+    case 'wait': {
+      const seconds = parseFloat(target);
+      return { toolName: 'wait', params: { seconds: Math.min(Number.isFinite(seconds) && seconds > 0 ? seconds : 1, MAX_WAIT_SECONDS) } };
+    }
+    case 'getPageContext':
+      return { toolName: 'getPageContext', params: {} };
+    default:
+      throw new Error(`Unsupported plan action "${instruction.action}"`);
+  }
+}
+
+/**
+ * Check validationCriteria against page context using the concrete things it names:
+ * double-quoted phrases, URLs and domains. Returns null when the criteria name nothing checkable.
+ */
+export function checkValidationCriteria(criteria: string, pageContext: any): ValidationVerdict | null {
+  const expected = new Set<string>();
+  for (const match of criteria.matchAll(/["“`]([^"”`]{2,})["”`]/g)) {
+    expected.add(match[1].toLowerCase());
+  }
+  for (const match of criteria.matchAll(URL_PATTERN)) {
+    expected.add((match[1] + (match[2] || '')).toLowerCase().replace(/\/$/, ''));
+  }
+  if (expected.size === 0) return null;
+
+  const haystack = [pageContext?.url, pageContext?.title, pageContext?.text ?? pageContext?.textContent]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+  const missing = [...expected].filter(token => !haystack.includes(token));
+
+  return missing.length === 0
+    ? { passed: true, reason: `Found ${[...expected].map(t => `"${t}"`).join(', ')} on the page` }
+    : { passed: false, reason: `Not found on the page: ${missing.map(t => `"${t}"`).join(', ')}` };
+}
+
+const abortableDelay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new Error('Plan execution aborted'));
+  }, { once: true });
+});
+
+/**
+ * Plan Execution Step - deterministic alternative to the free-form streaming step
+ */
+export async function planExecutionStep(input: PlanExecutionStepInput): Promise<PlanExecutionStepOutput> {
+  "use step"; // Makes this a durable step
+
+  const startTime = Date.now();
+  const runStartedAt = input.runStartedAt ?? startTime;
+  const maxReplans = input.maxReplans ?? DEFAULT_MAX_REPLANS;
+  const maxSteps = input.stopPolicy?.maxSteps ?? DEFAULT_MAX_STEPS;
+  const toolExecutions: StreamingStepOutput['toolExecutions'] = [];
+  const stepResults: PlanStepResult[] = [];
+  let nextTaskKey = 1;
+  let replans = 0;
+  let lastPageContext: any;
+
+  const queue = input.plan.steps.map(instruction => ({ taskId: `plan-step-${nextTaskKey++}`, instruction }));
+  const notify = (entry: { taskId: string; instruction: PlanningInstruction }, status: PlanStepStatus, detail?: string) =>
+    input.onStepUpdate?.({ taskId: entry.taskId, instruction: entry.instruction, status, detail });
+
+  const runTool = async (toolName: string, params: Record<string, any>) => {
+    const toolStart = Date.now();
+    try {
+      const result = toolName === 'wait'
+        ? await abortableDelay(params.seconds * 1000, input.abortSignal).then(() => ({ success: true }))
+        : await input.executeTool(toolName, params);
+      const success = !!result && result.success !== false && !result.error;
+      toolExecutions.push({ tool: toolName, success, duration: Date.now() - toolStart });
+      return { result, success, error: success ? undefined : String(result?.error || `${toolName} failed`) };
+    } catch (error: any) {
+      toolExecutions.push({ tool: toolName, success: false, duration: Date.now() - toolStart });
+      return { result: null, success: false, error: error?.message || String(error) };
+    }
+  };
+
+  // The limit that ends the run before its next step, worded like lib/stop-policy's
+  const checkStopPolicy = (): StopReason | null => {
+    const stepCount = stepResults.length;
+    const policy = input.stopPolicy;
+    if (stepCount >= maxSteps) {
+      return { kind: 'max-steps', message: `Reached the ${maxSteps}-step limit`, stepCount };
+    }
+    const elapsed = Date.now() - runStartedAt;
+    if (policy?.maxWallTimeMs && elapsed >= policy.maxWallTimeMs) {
+      return { kind: 'max-wall-time', message: `Ran for ${Math.round(elapsed / 1000)}s (limit ${Math.round(policy.maxWallTimeMs / 1000)}s)`, stepCount };
+    }
+    const usage = input.getUsage?.();
+    const tokens = usage ? usage.inputTokens + usage.outputTokens : 0;
+    if (policy?.maxTokens && tokens >= policy.maxTokens) {
+      return { kind: 'max-tokens', message: `Used ${tokens.toLocaleString()} tokens (limit ${policy.maxTokens.toLocaleString()})`, stepCount };
+    }
+    const cost = usage && policy?.maxCostUsd ? estimateRunCostUsd(input.modelId, [{ usage }]) ?? 0 : 0;
+    if (policy?.maxCostUsd && cost >= policy.maxCostUsd) {
+      return { kind: 'max-cost', message: `Spent about $${cost.toFixed(2)} (limit $${policy.maxCostUsd.toFixed(2)})`, stepCount };
+    }
+    return null;
+  };
+
+  const validate = async (instruction: PlanningInstruction, actionResult: any): Promise<ValidationVerdict | undefined> => {
+    const isContextRead = instruction.action === 'getPageContext';
+    if (!instruction.validationCriteria && !isContextRead) {
+      // Still refresh context so later failures and replans see the current page
+      const refreshed = await runTool('getPageContext', {});
+      if (refreshed.success) lastPageContext = refreshed.result;
+      return undefined;
+    }
+    const context = isContextRead ? actionResult : (await runTool('getPageContext', {})).result;
+    if (context) lastPageContext = context;
+    if (!instruction.validationCriteria) return undefined;
+
+    const verdict = checkValidationCriteria(instruction.validationCriteria, context);
+    if (verdict) return verdict;
+    if (input.judgeValidation && context) {
+      try {
+        return await input.judgeValidation(instruction.validationCriteria, instruction, context);
+      } catch (error: any) {
+        // Unvalidated is not passed: the fallback or a replan gets a chance instead
+        workflowDebug.warn('Validation judge failed, treating the step as failed', { error: error?.message });
+        return { passed: false, reason: `Could not check the criteria: ${error?.message || error}` };
+      }
+    }
+    return { passed: true, reason: 'No checkable criteria; action succeeded' };
+  };
+
+  // Run an instruction (or its fallback) and validate it against the step's criteria
+  const attempt = async (instruction: PlanningInstruction, action: FallbackInstruction) => {
+    let call: ReturnType<typeof instructionToToolCall>;
+    try {
+      call = instructionToToolCall(action);
+    } catch (error: any) {
+      return { success: false, error: error.message as string };
+    }
+    const outcome = await runTool(call.toolName, call.params);
+    if (!outcome.success) {
+      return { success: false, error: outcome.error };
+    }
+    const validation = await validate(instruction, outcome.result);
+    return validation && !validation.passed
+      ? { success: false, validation, error: `Validation failed: ${validation.reason}` }
+      : { success: true, validation };
+  };
+
+  queue.forEach(entry => notify(entry, 'pending'));
+
+  let index = 0;
+  let failed = false;
+  let aborted = false;
+  let stopReason: StopReason | null = null;
+  while (index < queue.length) {
+    if (input.abortSignal?.aborted) {
+      aborted = true;
+      break;
+    }
+    stopReason = checkStopPolicy();
+    if (stopReason) {
+      workflowDebug.warn('Plan execution stopped by its stop policy', stopReason);
+      logEvent('stop_policy_triggered', { kind: stopReason.kind, step_count: stopReason.stepCount, message: stopReason.message });
+      failed = true;
+      break;
+    }
+
+    const entry = queue[index];
+    const { instruction } = entry;
+    const stepStart = Date.now();
+    notify(entry, 'in_progress', instruction.reasoning);
+
+    let result = await attempt(instruction, instruction);
+    let usedFallback = false;
+    if (!result.success && instruction.fallbackAction && !input.abortSignal?.aborted) {
+      notify(entry, 'retrying', `Fallback: ${instruction.fallbackAction.action} ${instruction.fallbackAction.target}`);
+      usedFallback = true;
+      result = await attempt(instruction, instruction.fallbackAction);
+    }
+
+    stepResults.push({
+      taskId: entry.taskId,
+      step: index + 1,
+      action: instruction.action,
+      target: instruction.target,
+      success: result.success,
+      validation: result.validation,
+      usedFallback,
+      error: result.error,
+      url: lastPageContext?.url,
+      duration: Date.now() - stepStart,
+    });
+
+    if (result.success) {
+      notify(entry, 'completed', result.validation?.reason);
+      index++;
+      continue;
+    }
+
+    notify(entry, 'error', result.error);
+    logEvent('plan_step_failed', {
+      step: index + 1,
+      action: instruction.action,
+      used_fallback: usedFallback,
+      error: result.error,
+    });
+
+    if (!input.replan || replans >= maxReplans || input.abortSignal?.aborted) {
+      failed = true;
+      break;
+    }
+
+    // Partial replan: keep what ran, replace the failed step and everything after it
+    replans++;
+    let replacement: PlanningInstruction[];
+    try {
+      replacement = await input.replan({
+        objective: input.plan.objective,
+        completedSteps: queue.slice(0, index).map(e => e.instruction),
+        failedStep: instruction,
+        error: result.error || 'Step failed',
+      }, lastPageContext);
+    } catch (error: any) {
+      workflowDebug.warn('Replan failed', { error: error?.message });
+      failed = true;
+      break;
+    }
+    if (replacement.length === 0) {
+      failed = true;
+      break;
+    }
+
+    queue.slice(index + 1).forEach(superseded => notify(superseded, 'cancelled', 'Replaced by replan'));
+    const replanned = replacement.map((step, i) => ({
+      taskId: `plan-step-${nextTaskKey++}`,
+      instruction: { ...step, step: index + i + 1 },
+    }));
+    // The failed step keeps its error status; execution continues with the replacement
+    queue.splice(index, queue.length - index, ...replanned);
+    replanned.forEach(e => notify(e, 'pending'));
+    logEvent('plan_partial_replan', { replan: replans, from_step: index + 1, new_steps: replanned.length });
+  }
+
+  const completedAllSteps = !failed && !aborted && index >= queue.length;
+  const succeeded = stepResults.filter(r => r.success).length;
+  const fullText = [
+    completedAllSteps
+      ? `✅ Executed all ${queue.length} plan steps.`
+      : `⚠️ Plan execution stopped after ${succeeded} successful step${succeeded === 1 ? '' : 's'}.`,
+    '',
+    ...stepResults.map(r => `${r.success ? '✓' : '✗'} ${r.step}. ${r.action}(${r.target})${r.usedFallback ? ' [fallback]' : ''}${r.error ? ` — ${r.error}` : ''}`),
+    replans > 0 ? `\nReplanned ${replans} time${replans === 1 ? '' : 's'}.` : '',
+    stopReason ? `\nStopped: ${stopReason.message}.` : '',
+  ].filter(Boolean).join('\n');
+  const usage = input.getUsage?.();
+
+  return {
+    fullText,
+    textChunkCount: 0,
+    toolCallCount: toolExecutions.length,
+    toolExecutions,
+    usage: usage && {
+      promptTokens: usage.inputTokens,
+      completionTokens: usage.outputTokens,
+      totalTokens: usage.inputTokens + usage.outputTokens,
+    },
+    finishReason: aborted ? 'aborted' : stopReason ? 'stop-policy' : completedAllSteps ? 'plan-complete' : 'plan-failed',
+    duration: Date.now() - startTime,
+    executionSteps: stepResults.map(r => ({ step: r.step, action: r.action, url: r.url, success: r.success })),
+    stopReason: stopReason || undefined,
+    stepResults,
+    replans,
+    completedAllSteps,
+  };
+}
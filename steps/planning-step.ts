@@ -60,10 +60,24 @@ const planningTimer = planningDebug.time('Planning Step');
        provider: input.settings.provider,
      });
      
+     // Few-shot demonstrations the user recorded on this site, if any
+     const { loadDemonstrationsForPlanning } = await import('../lib/demonstrations');
+     const demonstrations = await loadDemonstrationsForPlanning({
+       url: input.initialContext?.currentUrl,
+       query: input.userQuery,
+     }).catch((error) => {
+       planningDebug.warn('Could not load demonstrations', { error: error instanceof Error ? error.message : String(error) });
+       return undefined;
+     });
+     if (demonstrations) {
+       planningDebug.info('Adding recorded demonstrations to the planner prompt', { length: demonstrations.length });
+     }
+
      const cachedResult = await generateExecutionPlanWithTelemetryCached({
        userQuery: input.userQuery,
        currentUrl: input.initialContext?.currentUrl,
        pageContext: input.initialContext?.pageContext,
+       demonstrations,
        provider: input.settings.provider,
        apiKey: input.settings.apiKey,
        model: input.settings.model,
@@ -1,11 +1,14 @@
 // 'use step' directive makes this a durable, resumable step
 
-import { streamText, tool, stepCountIs, NoSuchToolError, generateObject } from 'ai';
+import { streamText, tool, NoSuchToolError, generateObject } from 'ai';
 import { z } from 'zod';
 import { logEvent } from '../lib/braintrust.ts';
 import { streamingDebug } from '../lib/debug-logger.ts';
 import type { StreamingStepOutput } from '../schemas/workflow-schemas';
 import type { Message } from '../types';
+import { withDivergenceMonitor, type PlanDivergenceMonitor } from '../lib/plan-divergence.ts';
+import { createStopPolicyTracker, resolveStopPolicy, type StopPolicy } from '../lib/stop-policy.ts';
+import { withInjectionGuard, type InjectionGuard } from '../lib/prompt-injection.ts';
 
 interface StreamingStepInput {
   model: any;
@@ -17,6 +20,13 @@ interface StreamingStepInput {
   pushMessage: (msg: Message) => void;
   executeTool: (toolName: string, params: any) => Promise<any>;
   abortSignal?: AbortSignal;
+  // Replans when the page stops matching the plan (login wall, captcha, modal...)
+  divergenceMonitor?: PlanDivergenceMonitor;
+  // Spotlights page content in tool results and gates tools once a page tries to instruct the agent
+  injectionGuard?: InjectionGuard;
+  // Run limits; defaults to the lib/stop-policy defaults capped at 8 steps
+  stopPolicy?: StopPolicy;
+  modelId?: string;
 }
 
 type ToolExecutionState = {
@@ -110,6 +120,21 @@ export async function streamingStep(
       });
     }
 
+    if (!streamingTools.getAccessibilitySnapshot) {
+      streamingTools.getAccessibilitySnapshot = tool({
+        description: 'List interactive and landmark elements with role, name, state and a ref (e.g. "e12", or "f3:e12" inside a cross-origin frame) usable by click/type/dragDrop; covers shadow DOM and iframes',
+        inputSchema: z.object({
+          maxNodes: z.number().int().min(10).max(2000).optional(),
+        }),
+        execute: async ({ maxNodes }) => {
+          streamingDebug.debug('Fallback getAccessibilitySnapshot tool invoked', { maxNodes });
+          return input.executeTool('getAccessibilitySnapshot', { maxNodes });
+        },
+        onInputStart: () => streamingDebug.debug('getAccessibilitySnapshot.onInputStart'),
+        onInputAvailable: ({ input }) => streamingDebug.debug('getAccessibilitySnapshot.onInputAvailable', { input }),
+      });
+    }
+
     // Guarantee core browser tools are always present to avoid capability loss
     // Helpers for post-action verification and coordinate normalization
     const clampCoords = async (x?: number, y?: number) => {
@@ -139,15 +164,16 @@ export async function streamingStep(
 
     if (!streamingTools.click) {
       streamingTools.click = tool({
-        description: 'Click an element on the page by selector or coordinates',
+        description: 'Click an element on the page by snapshot ref, selector or coordinates',
         inputSchema: z.object({
+          ref: z.string().optional().describe('Element ref from getAccessibilitySnapshot, e.g. "e12"'),
           selector: z.string().optional(),
           x: z.number().optional(),
           y: z.number().optional(),
         }),
-        execute: async ({ selector, x, y }) => {
+        execute: async ({ ref, selector, x, y }) => {
           const coords = await clampCoords(x, y);
-          const res = await input.executeTool('click', { selector, x: coords.x, y: coords.y });
+          const res = await input.executeTool('click', { ref, selector, x: coords.x, y: coords.y });
           const page = await verifyAfter(300);
           return { success: res?.success !== false, url: page?.url, pageContext: page };
         },
@@ -158,26 +184,27 @@ export async function streamingStep(
 
     if (!streamingTools.type) {
       streamingTools.type = tool({
-        description: 'Type text into the focused element or selector',
+        description: 'Type text into the focused element, a snapshot ref or a selector',
         inputSchema: z.object({
+          ref: z.string().optional().describe('Element ref from getAccessibilitySnapshot, e.g. "e12"'),
           selector: z.string().optional(),
           text: z.string(),
           submit: z.boolean().optional(),
         }),
-        execute: async ({ selector, text, submit }) => {
+        execute: async ({ ref, selector, text, submit }) => {
           // Chunk long typing for stability
           const CHUNK = 120;
           if (text && text.length > CHUNK) {
             let idx = 0;
             while (idx < text.length) {
               const part = text.slice(idx, idx + CHUNK);
-              await input.executeTool('type', { selector, text: part });
+              await input.executeTool('type', { ref, selector, text: part });
               await input.executeTool('wait', { milliseconds: 80 });
               idx += CHUNK;
             }
             if (submit) await input.executeTool('pressKey', { key: 'Enter' });
           } else {
-            await input.executeTool('type', { selector, text, submit });
+            await input.executeTool('type', { ref, selector, text, submit });
           }
           const page = await verifyAfter(300);
           return { success: true, url: page?.url, pageContext: page };
@@ -260,9 +287,75 @@ export async function streamingStep(
 
     if (!streamingTools.dragDrop) {
       streamingTools.dragDrop = tool({
-        description: 'Drag an element from one selector to another',
-        inputSchema: z.object({ from: z.string(), to: z.string() }),
-        execute: async ({ from, to }) => input.executeTool('dragDrop', { from, to }),
+        description: 'Drag one element onto another, both given as refs from getAccessibilitySnapshot',
+        inputSchema: z.object({
+          from: z.string().describe('Ref of the element to drag, e.g. "e12"'),
+          to: z.string().describe('Ref of the drop target, e.g. "e15"'),
+        }),
+        execute: async ({ from, to }) => input.executeTool('dragDrop', { ref: from, destinationRef: to }),
+      });
+    }
+
+    // Multi-tab tools: every run owns its tabs, so these never touch the user's other tabs
+    if (!streamingTools.openTab) {
+      streamingTools.openTab = tool({
+        description: 'Open a URL in a new agent tab (in the background) to compare pages side by side; it becomes the current tab unless switchTo is false',
+        inputSchema: z.object({
+          url: z.string().describe('HTTP/HTTPS URL to open'),
+          switchTo: z.boolean().optional(),
+        }),
+        execute: async ({ url, switchTo }) => input.executeTool('openTab', { url, switchTo }),
+      });
+    }
+
+    if (!streamingTools.switchTab) {
+      streamingTools.switchTab = tool({
+        description: 'Make another tab from this run (id from listTabs/openTab) the current tab for page tools',
+        inputSchema: z.object({
+          tabId: z.number().int(),
+          activate: z.boolean().optional().describe('Also bring the tab to the front'),
+        }),
+        execute: async ({ tabId, activate }) => input.executeTool('switchTab', { tabId, activate }),
+      });
+    }
+
+    if (!streamingTools.listTabs) {
+      streamingTools.listTabs = tool({
+        description: 'List the tabs opened in this run with id, URL, title and which one is current',
+        inputSchema: z.object({}),
+        execute: async () => input.executeTool('listTabs', {}),
+      });
+    }
+
+    if (!streamingTools.closeTab) {
+      streamingTools.closeTab = tool({
+        description: 'Close a tab from this run (defaults to the current tab); the last remaining tab cannot be closed',
+        inputSchema: z.object({ tabId: z.number().int().optional() }),
+        execute: async ({ tabId }) => input.executeTool('closeTab', { tabId }),
+      });
+    }
+
+    if (!streamingTools.goBack) {
+      streamingTools.goBack = tool({
+        description: 'Go back one page in the tab history and wait for it to load',
+        inputSchema: z.object({}),
+        execute: async () => input.executeTool('goBack', {}),
+      });
+    }
+
+    if (!streamingTools.goForward) {
+      streamingTools.goForward = tool({
+        description: 'Go forward one page in the tab history and wait for it to load',
+        inputSchema: z.object({}),
+        execute: async () => input.executeTool('goForward', {}),
+      });
+    }
+
+    if (!streamingTools.reload) {
+      streamingTools.reload = tool({
+        description: 'Reload the current page and wait for it to load',
+        inputSchema: z.object({ bypassCache: z.boolean().optional().describe('Skip the browser cache') }),
+        execute: async ({ bypassCache }) => input.executeTool('reload', { bypassCache }),
       });
     }
 
@@ -479,13 +572,20 @@ export async function streamingStep(
 
     // We no longer restrict activeTools. All base tools remain available every step.
 
+    const stopPolicy = createStopPolicyTracker(input.stopPolicy ?? resolveStopPolicy({ maxSteps: 8 }), {
+      modelId: input.modelId,
+      startedAt: startTime,
+    });
+
+    const monitoredTools = input.divergenceMonitor ? withDivergenceMonitor(streamingTools, input.divergenceMonitor) : streamingTools;
+
     const stream = streamText({
       model: input.model,
-      system: input.system,
+      system: input.injectionGuard ? input.system + input.injectionGuard.systemPrompt() : input.system,
       messages: aiMessages,
-      tools: streamingTools,
+      tools: input.injectionGuard ? withInjectionGuard(monitoredTools, input.injectionGuard) : monitoredTools,
       toolChoice: 'required',
-      stopWhen: stepCountIs(8),
+      stopWhen: stopPolicy.stopWhen,
       experimental_context: {
         objective: aiMessages.slice().reverse().find((m) => m.role === 'user')?.content || '',
         infoSeeking: isInfoSeeking(),
@@ -658,6 +758,10 @@ export async function streamingStep(
           }));
 
     const finishReason = lastFinishReason || response?.finishReason || 'stop';
+    const stopReason = String(finishReason) === 'tool-calls' ? stopPolicy.getStopReason() : null;
+    if (stopReason) {
+      input.updateLastMessage((msg) => (msg.role === 'assistant' ? { ...msg, stopReason } : msg));
+    }
     const duration = Date.now() - startTime;
     const resolvedChunkCount = chunkCount > 0 ? chunkCount : fullText ? 1 : 0;
 
@@ -686,6 +790,7 @@ export async function streamingStep(
       finishReason: String(finishReason),
       duration,
       executionSteps: normalizedExecutionSteps,
+      stopReason: stopReason || undefined,
     };
 
     streamingDebug.info('streamText execution completed', {
@@ -0,0 +1,189 @@
+// Unit tests for workflow-owned agent tabs (lib/agent-tabs.ts)
+// Run with: npx tsx tests/agent-tabs.test.ts (or via npm run test:agent-tabs)
+
+export {};
+
+// 1) Minimal chrome.tabs / chrome.storage.session mock
+interface MockTab {
+  id: number;
+  windowId: number;
+  url: string;
+  title: string;
+  active: boolean;
+  status: string;
+}
+
+const tabs = new Map<number, MockTab>();
+let nextTabId = 100;
+let sessionStore: Record<string, any> = {};
+
+tabs.set(1, { id: 1, windowId: 7, url: 'https://user.example.com/page', title: 'User page', active: true, status: 'complete' });
+
+(globalThis as any).chrome = {
+  tabs: {
+    query: async () => Array.from(tabs.values()).filter(tab => tab.active),
+    create: async ({ url, active, windowId }: { url: string; active?: boolean; windowId?: number }) => {
+      const tab: MockTab = { id: nextTabId++, windowId: windowId ?? 7, url, title: url, active: !!active, status: 'loading' };
+      tabs.set(tab.id, tab);
+      return tab;
+    },
+    get: async (tabId: number) => {
+      const tab = tabs.get(tabId);
+      if (!tab) throw new Error(`No tab with id: ${tabId}`);
+      return tab;
+    },
+    update: async (tabId: number, props: Partial<MockTab>) => Object.assign(tabs.get(tabId)!, props),
+    remove: async (tabIds: number | number[]) => {
+      for (const tabId of [tabIds].flat()) tabs.delete(tabId);
+    },
+  },
+  storage: {
+    session: {
+      get: async (key: string) => ({ [key]: sessionStore[key] }),
+      set: async (items: Record<string, any>) => {
+        sessionStore = { ...sessionStore, ...items };
+      },
+    },
+  },
+};
+
+const {
+  createAgentTab,
+  resolveAgentTabId,
+  openAgentTab,
+  switchAgentTab,
+  listAgentTabs,
+  closeAgentTab,
+  forgetAgentTab,
+  releaseAgentTabs,
+} = await import('../lib/agent-tabs');
+
+// 2) Tests
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+async function testCreateIsIdempotent() {
+  console.log('\n📋 Test: createAgentTab shares one tab per run...');
+  const [a, b] = await Promise.all([createAgentTab('run-1'), createAgentTab('run-1')]);
+  assert(a.currentTabId === b.currentTabId, 'Concurrent creates should share a tab');
+  assert(tabs.get(a.currentTabId)?.url === 'https://user.example.com/page', 'Agent tab should start on the user page');
+  assert(await resolveAgentTabId('run-1') === a.currentTabId, 'Tools should resolve to the agent tab');
+  assert(sessionStore.agentTabs?.['run-1'], 'Group should be persisted to session storage');
+  console.log('  ✓ One tab per run, starting on the user page');
+}
+
+async function testUserFocusDoesNotMatter() {
+  console.log('\n📋 Test: switching user focus does not move the agent...');
+  const agentTabId = await resolveAgentTabId('run-1');
+  for (const tab of tabs.values()) tab.active = tab.id === 1;
+  assert(await resolveAgentTabId('run-1') === agentTabId, 'Agent tab should not follow the focused tab');
+  console.log('  ✓ Agent tab unchanged');
+}
+
+async function testOpenSwitchList() {
+  console.log('\n📋 Test: openTab / switchTab / listTabs...');
+  const first = await resolveAgentTabId('run-1');
+  const opened = await openAgentTab('run-1', 'https://compare.example.com');
+  assert(opened.current, 'Opened tab should become current by default');
+  assert(!tabs.get(opened.tabId)?.active, 'Opened tab should not steal focus');
+  assert(await resolveAgentTabId('run-1') === opened.tabId, 'Tools should act on the opened tab');
+
+  const background = await openAgentTab('run-1', 'https://other.example.com', { switchTo: false });
+  assert(!background.current, 'switchTo: false should keep the current tab');
+
+  await switchAgentTab('run-1', first!);
+  const listed = await listAgentTabs('run-1');
+  assert(listed.length === 3, `Expected 3 tabs, got ${listed.length}`);
+  assert(listed.filter(tab => tab.current).length === 1 && listed[0].current, 'First tab should be current');
+
+  let rejected = false;
+  try {
+    await switchAgentTab('run-1', 1);
+  } catch {
+    rejected = true;
+  }
+  assert(rejected, 'Switching to a tab the run does not own should fail');
+
+  let invalidUrl = false;
+  try {
+    await openAgentTab('run-1', 'chrome://settings');
+  } catch {
+    invalidUrl = true;
+  }
+  assert(invalidUrl, 'openTab should reject non-http(s) URLs');
+  console.log('  ✓ Tabs opened, switched and listed');
+}
+
+async function testCloseAndForget() {
+  console.log('\n📋 Test: closeTab / user closing tabs...');
+  const listed = await listAgentTabs('run-1');
+  await switchAgentTab('run-1', listed[1].tabId);
+  const result = await closeAgentTab('run-1');
+  assert(result.closedTabId === listed[1].tabId, 'Should close the current tab by default');
+  assert(result.currentTabId === listed[2].tabId, 'Most recently opened remaining tab should become current');
+
+  // The user closes a tab themselves
+  tabs.delete(listed[2].tabId);
+  forgetAgentTab(listed[2].tabId);
+  assert(await resolveAgentTabId('run-1') === listed[0].tabId, 'Remaining tab should take over');
+
+  let rejected = false;
+  try {
+    await closeAgentTab('run-1');
+  } catch {
+    rejected = true;
+  }
+  assert(rejected, 'Closing the last tab should fail');
+  console.log('  ✓ Close bookkeeping correct');
+}
+
+async function testRelease() {
+  console.log('\n📋 Test: releaseAgentTabs...');
+  const tabId = await resolveAgentTabId('run-1');
+  const extra = await openAgentTab('run-1', 'https://extra.example.com');
+  await releaseAgentTabs('run-1');
+  assert(tabs.has(tabId!), 'The run\'s first tab should stay open');
+  assert(!tabs.has(extra.tabId), 'Tabs the run opened should be closed');
+  assert(!sessionStore.agentTabs?.['run-1'], 'Released run should be removed from storage');
+  console.log('  ✓ Run released, first tab handed back, extra tabs closed');
+}
+
+async function testAdoptActiveTab() {
+  console.log('\n📋 Test: a conversation adopts the user tab and keeps it...');
+  for (const tab of tabs.values()) tab.active = tab.id === 1;
+  const before = tabs.size;
+  const group = await createAgentTab('chat-1', { adoptActiveTab: true });
+  assert(group.currentTabId === 1 && group.adoptedTabId === 1 && tabs.size === before, 'User tab adopted without opening one');
+  const followUp = await createAgentTab('chat-1', { adoptActiveTab: true });
+  assert(followUp.currentTabId === 1 && tabs.size === before, 'Follow-up turns reuse the same tab');
+
+  const other = await createAgentTab('chat-2', { adoptActiveTab: true });
+  assert(other.currentTabId !== 1 && other.adoptedTabId === undefined, 'A tab another run owns is not adopted twice');
+
+  await releaseAgentTabs('chat-1');
+  assert(tabs.has(1), 'The adopted tab is handed back, never closed');
+  console.log('  ✓ Adopted, reused and handed back');
+}
+
+async function run() {
+  console.log('🧪 Running agent tab tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testCreateIsIdempotent();
+    await testUserFocusDoesNotMatter();
+    await testOpenSwitchList();
+    await testCloseAndForget();
+    await testRelease();
+    await testAdoptActiveTab();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All agent tab tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ Agent tab tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
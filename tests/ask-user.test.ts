@@ -0,0 +1,99 @@
+// Unit tests for the human-in-the-loop askUser tool (lib/ask-user.ts)
+// Run with: npx tsx tests/ask-user.test.ts (or via npm run test:ask-user)
+
+import {
+  askUserInputSchema,
+  createAskUserTool,
+  normalizeAnswer,
+  type AskUserAnswer,
+  type AskUserRequest,
+} from '../lib/ask-user';
+import { createEnhancedBrowserToolSet } from '../lib/ai-sdk-6-enhanced-integration';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const flights = ['LH 401 08:15', 'UA 960 11:40', 'BA 178 19:05'];
+
+async function testSchema() {
+  console.log('\n📋 Test: input schema by question kind...');
+  assert(askUserInputSchema.safeParse({ question: 'Which flight?', kind: 'single_choice', options: flights }).success, 'Choice with options should parse');
+  assert(!askUserInputSchema.safeParse({ question: 'Which flight?', kind: 'single_choice' }).success, 'Choice without options should fail');
+  assert(!askUserInputSchema.safeParse({ question: 'Which flight?', kind: 'multi_choice', options: ['only one'] }).success, 'One option is not a choice');
+  assert(askUserInputSchema.safeParse({ question: 'Book it?', kind: 'confirm' }).success, 'Confirm needs no options');
+  assert(!askUserInputSchema.safeParse({ question: '', kind: 'text' }).success, 'Empty question should fail');
+  console.log('  ✓ Choices need two or more options');
+}
+
+async function testNormalize() {
+  console.log('\n📋 Test: answers limited to what the question allows...');
+  const request: AskUserRequest = { id: 'q1', question: 'Which flight?', kind: 'single_choice', options: flights, timestamp: 0 };
+  const single = normalizeAnswer(request, { requestId: 'q1', answered: true, choices: ['UA 960 11:40', 'BA 178 19:05'], timestamp: 1 });
+  assert(single.choices?.join() === 'UA 960 11:40', 'Single choice should keep one answer');
+
+  const multi = normalizeAnswer({ ...request, kind: 'multi_choice' }, { requestId: 'q1', answered: true, choices: ['Made up', 'LH 401 08:15', 'LH 401 08:15'], timestamp: 1 });
+  assert(multi.answered && multi.choices?.join() === 'LH 401 08:15', 'Unknown and repeated choices should be dropped');
+
+  const blank = normalizeAnswer({ ...request, kind: 'text', options: undefined }, { requestId: 'q1', answered: true, text: '   ', timestamp: 1 });
+  assert(!blank.answered, 'Blank text is no answer');
+  console.log('  ✓ Choices filtered, blank text rejected');
+}
+
+async function testToolWaitsForAnswer() {
+  console.log('\n📋 Test: tool waits for the user and returns the answer...');
+  let pending: { request: AskUserRequest; resolve: (answer: AskUserAnswer) => void } | null = null;
+  const askUser = createAskUserTool((request) => new Promise((resolve) => { pending = { request, resolve }; }));
+
+  const execution = (askUser.execute as any)(
+    { question: 'Which flight?', kind: 'single_choice', options: flights, reason: 'Three flights match' },
+    { toolCallId: 't1', messages: [] }
+  );
+  let settled = false;
+  execution.then(() => { settled = true; });
+  await new Promise(resolve => setTimeout(resolve, 20));
+  assert(pending && !settled, 'Tool should be suspended until the user answers');
+  assert(pending!.request.options?.length === 3 && pending!.request.reason === 'Three flights match', 'Handler should get the whole question');
+
+  pending!.resolve({ requestId: pending!.request.id, answered: true, choices: ['BA 178 19:05'], timestamp: Date.now() });
+  const result = await execution;
+  assert(result.success && result.answer === 'BA 178 19:05', `Unexpected result: ${JSON.stringify(result)}`);
+
+  const confirm = createAskUserTool(async (request) => ({ requestId: request.id, answered: true, confirmed: false, timestamp: Date.now() }));
+  const declined = await (confirm.execute as any)({ question: 'Pay now?', kind: 'confirm' }, { toolCallId: 't2', messages: [] });
+  assert(declined.success && declined.answer === 'No' && declined.confirmed === false, 'Confirm should report the decision');
+
+  const skipped = createAskUserTool(async (request) => ({ requestId: request.id, answered: false, timestamp: Date.now() }));
+  const noAnswer = await (skipped.execute as any)({ question: 'Account?', kind: 'text' }, { toolCallId: 't3', messages: [] });
+  assert(!noAnswer.success && noAnswer.error.includes('dismissed'), 'Skipped question should come back as an error');
+  console.log('  ✓ Answer, decline and skip returned as tool results');
+}
+
+async function testToolSetOptIn() {
+  console.log('\n📋 Test: toolset offers askUser only with a handler...');
+  const executeTool = async () => ({ success: true });
+  assert(!('askUser' in createEnhancedBrowserToolSet(executeTool)), 'No handler, no askUser');
+  const tools = createEnhancedBrowserToolSet(executeTool, undefined, async (request) => ({ requestId: request.id, answered: false, timestamp: Date.now() }));
+  assert(!!tools.askUser, 'Handler should add askUser');
+  console.log('  ✓ askUser is opt-in');
+}
+
+async function run() {
+  console.log('🧪 Running askUser tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testSchema();
+    await testNormalize();
+    await testToolWaitsForAnswer();
+    await testToolSetOptIn();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All askUser tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ askUser tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
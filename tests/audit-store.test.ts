@@ -0,0 +1,145 @@
+// Unit tests for the persisted guardrails audit log (lib/audit-store.ts)
+// Run with: npx tsx tests/audit-store.test.ts (or via npm run test:audit-store)
+
+import {
+  AuditRunRecorder,
+  createMemoryAuditStore,
+  pruneAuditLog,
+  resolveAuditRetention,
+  auditToCsv,
+  auditToJsonLines,
+  buildRunTimeline,
+  type StoredAuditEntry,
+} from '../lib/audit-store';
+import { GuardrailsSystem } from '../lib/guardrails';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+async function testRecorder() {
+  console.log('\n📋 Test: recording a run...');
+  const store = createMemoryAuditStore();
+  const guardrails = new GuardrailsSystem('user');
+  const recorder = new AuditRunRecorder(guardrails, { runId: 'run-1', query: 'Check my inbox', origin: 'https://mail.example.com/inbox' }, store);
+
+  let url = 'https://mail.example.com/inbox';
+  const executeTool = recorder.wrapExecuteTool(async (toolName, params) => {
+    await guardrails.checkPermission(toolName, params);
+    if (toolName === 'navigate') url = params.url;
+    if (toolName === 'click') return { success: false, error: 'Element not found' };
+    return { success: true, url };
+  });
+
+  await executeTool('getPageContext', {});
+  await executeTool('navigate', { url: 'https://docs.example.org/guide' });
+  await executeTool('click', { selector: '#missing' });
+  await recorder.finish('completed');
+
+  const entries = await store.query();
+  assert(entries.length === 3 && entries.every(entry => entry.runId === 'run-1'), `Entries tagged with the run: ${JSON.stringify(entries.map(e => e.runId))}`);
+  assert(entries[0].origin === 'https://mail.example.com', `Origin from the run context: ${entries[0].origin}`);
+  assert(entries[1].origin === 'https://docs.example.org', 'Origin from the URL argument');
+  assert(entries[2].origin === 'https://docs.example.org', 'Origin follows the page after navigating');
+
+  const run = await store.getRun('run-1');
+  assert(run?.status === 'completed' && run.finishedAt, 'Run finished');
+  assert(run!.trajectory.map(step => step.action).join() === 'getPageContext,navigate,click', 'Trajectory recorded');
+  assert(!run!.trajectory[2].success && run!.trajectory[2].error === 'Element not found', 'Failed step recorded');
+
+  await guardrails.checkPermission('getPageContext', {});
+  assert((await store.query()).length === 4, 'Sink stays attached for later entries');
+  assert(guardrails.getAuditLog({ runId: 'run-1' }).length === 3, 'Context cleared when the run finishes');
+  console.log('  ✓ Entries and trajectory persisted per run');
+}
+
+async function testFiltersAndRetention() {
+  console.log('\n📋 Test: filters and retention...');
+  const store = createMemoryAuditStore();
+  const now = Date.now();
+  const entries: StoredAuditEntry[] = [
+    { timestamp: now - 40 * DAY, tool: 'navigate', args: {}, result: 'allowed', origin: 'https://a.example' },
+    { timestamp: now - 2 * DAY, tool: 'type', args: {}, result: 'blocked', origin: 'https://b.example', violation: { type: 'restriction', message: 'Nope', severity: 'high', tool: 'type', args: {}, timestamp: now } },
+    { timestamp: now - DAY, tool: 'type', args: {}, result: 'allowed', origin: 'https://a.example' },
+    { timestamp: now, tool: 'click', args: {}, result: 'flagged', origin: 'https://a.example', violation: { type: 'prompt_injection', message: 'Injected', severity: 'critical', tool: 'click', args: {}, timestamp: now } },
+  ];
+  for (const entry of entries) await store.append(entry);
+
+  assert((await store.query({ tool: 'type' })).length === 2, 'By tool');
+  assert((await store.query({ origin: 'https://a.example', result: 'allowed' })).length === 2, 'By origin and result');
+  assert((await store.query({ severity: 'critical' }))[0].tool === 'click', 'By severity');
+  assert((await store.query({ since: now - 3 * DAY })).length === 3, 'By time');
+
+  assert(resolveAuditRetention({ maxAgeDays: 0 }).maxAgeDays === 30, 'Invalid retention falls back to the default');
+  assert(await pruneAuditLog({ maxAgeDays: 30 }, store, now) === 1, 'Entries past the retention period pruned');
+  assert(await pruneAuditLog({ maxEntries: 2 }, store, now) === 1, 'Oldest entries beyond the cap pruned');
+  const kept = await store.query();
+  assert(kept.map(entry => entry.tool).join() === 'type,click', `Newest kept: ${kept.map(entry => entry.tool)}`);
+  console.log('  ✓ Filtered and pruned');
+}
+
+async function testExport() {
+  console.log('\n📋 Test: export...');
+  const entries: StoredAuditEntry[] = [
+    { id: 1, timestamp: Date.UTC(2024, 0, 2, 3, 4, 5), tool: 'type', args: { text: 'say "hi", then =SUM(A1)' }, result: 'blocked', runId: 'run-1', origin: 'https://a.example', violation: { type: 'restriction', message: '=cmd|calc', severity: 'high', tool: 'type', args: {}, timestamp: 0 } },
+    { id: 2, timestamp: Date.UTC(2024, 0, 2, 3, 4, 6), tool: 'click', args: {}, result: 'allowed' },
+  ];
+
+  const lines = auditToJsonLines(entries).trimEnd().split('\n');
+  assert(lines.length === 2 && JSON.parse(lines[0]).args.text === 'say "hi", then =SUM(A1)', 'One JSON object per line');
+
+  const csv = auditToCsv(entries).split('\r\n');
+  assert(csv[0] === 'timestamp,runId,tool,origin,result,severity,violationType,message,args,metadata', `Header: ${csv[0]}`);
+  assert(csv[1].startsWith('2024-01-02T03:04:05.000Z,run-1,type,https://a.example,blocked,high,restriction,'), `Row: ${csv[1]}`);
+  assert(csv[1].includes(",'=cmd|calc,"), 'Formula-like cells escaped');
+  assert(csv[1].includes('"{""text"":""say \\""hi\\"", then =SUM(A1)""}"'), `Quotes doubled: ${csv[1]}`);
+  assert(csv[2] === '2024-01-02T03:04:06.000Z,,click,,allowed,,,,{},', `Empty cells: ${csv[2]}`);
+  assert(auditToJsonLines([]) === '', 'Empty export');
+  console.log('  ✓ JSON Lines and CSV');
+}
+
+async function testTimeline() {
+  console.log('\n📋 Test: run timeline...');
+  const run = {
+    runId: 'run-1',
+    query: 'q',
+    status: 'completed' as const,
+    startedAt: 100,
+    trajectory: [
+      { step: 1, action: 'navigate', success: true, timestamp: 200 },
+      { step: 2, action: 'click', success: true, timestamp: 300 },
+    ],
+  };
+  const entries: StoredAuditEntry[] = [
+    { timestamp: 150, tool: 'getPageContext', args: {}, result: 'allowed', runId: 'run-1' },
+    { timestamp: 200, tool: 'navigate', args: {}, result: 'allowed', runId: 'run-1' },
+    { timestamp: 350, tool: 'click', args: {}, result: 'allowed', runId: 'run-1' },
+    { timestamp: 250, tool: 'navigate', args: {}, result: 'allowed', runId: 'run-2' },
+  ];
+  const timeline = buildRunTimeline(run, entries);
+  assert(timeline.length === 3 && timeline[0].step === null, 'Leading slot for entries before the first step');
+  assert(timeline.map(item => item.entries.map(entry => entry.tool).join()).join('|') === 'getPageContext|navigate|click', 'Entries under their step, other runs left out');
+  console.log('  ✓ Entries linked to trajectory steps');
+}
+
+async function run() {
+  console.log('🧪 Running audit store tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testRecorder();
+    await testFiltersAndRetention();
+    await testExport();
+    await testTimeline();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All audit store tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ Audit store tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
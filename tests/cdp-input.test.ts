@@ -0,0 +1,55 @@
+// Unit tests for trusted input backend selection and key mapping (lib/cdp-input.ts)
+// Run with: npx tsx tests/cdp-input.test.ts (or via npm run test:cdp-input)
+
+import { resolveInputBackend, getKeyDefinition } from '../lib/cdp-input';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+function testResolveInputBackend() {
+  console.log('\n📋 Test: resolveInputBackend...');
+  const settings = { trustedInputSites: ['docs.google.com', 'https://*.example.com/path', ''] };
+
+  assert(resolveInputBackend('https://docs.google.com/document/d/1', settings) === 'cdp', 'Listed site should use CDP');
+  assert(resolveInputBackend('https://app.example.com/', settings) === 'cdp', 'Subdomains of listed sites should use CDP');
+  assert(resolveInputBackend('https://example.com/', settings) === 'cdp', 'Wildcard entry should match the bare domain');
+  assert(resolveInputBackend('https://notexample.com/', settings) === 'auto', 'Suffix-only matches should not count');
+  assert(resolveInputBackend('https://google.com/', settings) === 'auto', 'Parent domains of listed sites should not match');
+  assert(resolveInputBackend('https://other.org/', { ...settings, inputBackend: 'synthetic' }) === 'synthetic', 'Configured backend should apply elsewhere');
+  assert(resolveInputBackend('about:blank', null) === 'auto', 'Default backend should be auto');
+  assert(resolveInputBackend(undefined, { inputBackend: 'cdp' }) === 'cdp', 'Missing URL should fall back to the setting');
+  console.log('  ✓ Per-site overrides and defaults resolved');
+}
+
+function testGetKeyDefinition() {
+  console.log('\n📋 Test: getKeyDefinition...');
+  const enter = getKeyDefinition('Return');
+  assert(enter.key === 'Enter' && enter.keyCode === 13 && enter.text === '\r', 'Return should alias to Enter');
+  const escape = getKeyDefinition('Escape');
+  assert(escape.keyCode === 27 && !escape.text, 'Escape should have no text');
+  const letter = getKeyDefinition('a');
+  assert(letter.code === 'KeyA' && letter.keyCode === 65 && letter.text === 'a', 'Letters should map to Key* codes');
+  const digit = getKeyDefinition('7');
+  assert(digit.code === 'Digit7' && digit.keyCode === 55, 'Digits should map to Digit* codes');
+  assert(getKeyDefinition('Space').code === 'Space', 'Space alias should resolve');
+  console.log('  ✓ Keys mapped');
+}
+
+function run() {
+  console.log('🧪 Running CDP input tests...');
+  console.log('='.repeat(50));
+
+  try {
+    testResolveInputBackend();
+    testGetKeyDefinition();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All CDP input tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ CDP input tests failed:', err);
+    process.exit(1);
+  }
+}
+
+run();
@@ -0,0 +1,132 @@
+// Unit tests for the credential vault (lib/credential-vault.ts)
+// Run with: npx tsx tests/credential-vault.test.ts (or via npm run test:credential-vault)
+
+import {
+  createMemoryVaultStore,
+  createVault,
+  unlockVault,
+  lockVault,
+  getVaultStatus,
+  putCredential,
+  deleteCredential,
+  listCredentials,
+  resolveVaultTokens,
+  hasVaultTokens,
+  describeVaultTokens,
+  normalizeOrigin,
+} from '../lib/credential-vault';
+import { GuardrailsSystem } from '../lib/guardrails';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+async function rejects(promise: Promise<unknown>, pattern: RegExp, message: string) {
+  try {
+    await promise;
+  } catch (error) {
+    assert(pattern.test((error as Error).message), `${message}: ${(error as Error).message}`);
+    return;
+  }
+  throw new Error(`${message}: did not throw`);
+}
+
+async function testEncryption() {
+  console.log('\n📋 Test: encrypted storage...');
+  const store = createMemoryVaultStore();
+  assert(await getVaultStatus(store) === 'none', 'No vault yet');
+  await rejects(createVault(store, 'short'), /at least 8/, 'Short passphrase refused');
+
+  await createVault(store, 'correct horse battery');
+  assert(await getVaultStatus(store) === 'unlocked', 'Created vault is unlocked');
+  await putCredential(store, { name: 'github', origin: 'github.com/login', fields: { username: 'octocat', password: 'hunter2!', otp: '' } });
+
+  const stored = JSON.stringify(await store.read());
+  assert(!stored.includes('octocat') && !stored.includes('hunter2!'), 'Values are not stored in the clear');
+  const [summary] = await listCredentials(store);
+  assert(summary.origin === 'https://github.com' && summary.fields.join() === 'username,password', `Origin normalized, empty fields dropped: ${JSON.stringify(summary)}`);
+
+  await lockVault(store);
+  assert(await getVaultStatus(store) === 'locked', 'Locked');
+  assert((await listCredentials(store)).length === 1, 'Names listed while locked');
+  await rejects(putCredential(store, { name: 'gitlab', origin: 'https://gitlab.com', fields: { password: 'x' } }), /locked/, 'Locked vault refuses writes');
+  await rejects(unlockVault(store, 'wrong passphrase'), /Wrong passphrase/, 'Wrong passphrase refused');
+  await unlockVault(store, 'correct horse battery');
+  assert(await getVaultStatus(store) === 'unlocked', 'Unlocked again');
+
+  await rejects(putCredential(store, { name: 'bad name', origin: 'https://x.com', fields: { password: 'x' } }), /Names/, 'Invalid name refused');
+  assert(normalizeOrigin('https://Example.com:443/path') === 'https://example.com', 'Origin normalized');
+  console.log('  ✓ AES-GCM with a passphrase-derived key');
+}
+
+async function testResolution() {
+  console.log('\n📋 Test: resolving tokens per origin...');
+  const store = createMemoryVaultStore();
+  await createVault(store, 'correct horse battery');
+  await putCredential(store, { name: 'github', origin: 'https://github.com', fields: { username: 'octocat', password: 'hunter2!' } });
+
+  assert(hasVaultTokens('{{vault:github.password}}') && !hasVaultTokens('plain text') && !hasVaultTokens(undefined), 'Token detection');
+
+  const ok = await resolveVaultTokens(store, '{{vault:github.username}} / {{vault:github.password}}', 'https://github.com');
+  assert(ok.value === 'octocat / hunter2!', `Resolved: ${ok.value}`);
+  assert(ok.resolutions.length === 2 && ok.resolutions.every(r => r.resolved && r.origin === 'https://github.com'), 'Each token reported');
+  assert(!JSON.stringify(ok.resolutions).includes('hunter2!'), 'Resolutions never carry values');
+
+  const elsewhere = await resolveVaultTokens(store, '{{vault:github.password}}', 'https://evil.example');
+  assert(elsewhere.value === undefined && /is for https:\/\/github.com/.test(elsewhere.error || ''), 'Other origins refused');
+
+  const mixed = await resolveVaultTokens(store, '{{vault:github.username}}{{vault:github.pin}}', 'https://github.com');
+  assert(mixed.value === undefined && mixed.resolutions[0].resolved && !mixed.resolutions[1].resolved, 'One bad token fails the whole fill');
+
+  await lockVault(store);
+  const locked = await resolveVaultTokens(store, '{{vault:github.password}}', 'https://github.com');
+  assert(locked.value === undefined && /locked/.test(locked.error || ''), 'Locked vault refuses');
+
+  assert((await resolveVaultTokens(store, 'no tokens', 'https://github.com')).value === 'no tokens', 'Text without tokens passes through');
+
+  await deleteCredential(store, 'github');
+  assert((await listCredentials(store)).length === 0, 'Deleted');
+  console.log('  ✓ Tokens only work on their own origin');
+}
+
+async function testAudit() {
+  console.log('\n📋 Test: audit log...');
+  const store = createMemoryVaultStore();
+  await createVault(store, 'correct horse battery staple');
+  await putCredential(store, { name: 'github', origin: 'https://github.com', fields: { password: 'hunter2' } });
+  const guardrails = new GuardrailsSystem('user');
+  const audit = { log: guardrails, tool: 'fill', runId: 'run-1' };
+
+  await resolveVaultTokens(store, '{{vault:github.password}}', 'https://github.com', audit);
+  await resolveVaultTokens(store, '{{vault:github.password}}', 'https://evil.example', audit);
+  await resolveVaultTokens(store, 'no tokens', 'https://github.com', audit);
+  const log = guardrails.getAuditLog().filter(entry => entry.metadata?.credentialVault);
+  assert(log.length === 2, `Two entries, got ${log.length}`);
+  assert(log[0].result === 'allowed' && log[0].tool === 'fill' && log[0].args.token === '{{vault:github.password}}', 'Resolution logged by token');
+  assert(log[0].runId === 'run-1' && log[0].origin === 'https://github.com', 'Logged with its run and origin');
+  assert(!JSON.stringify(log).includes('hunter2'), 'Value never logged');
+  assert(log[1].result === 'blocked' && log[1].violation?.message.includes('github.com'), 'Refusal logged with its reason');
+
+  const prompt = describeVaultTokens([{ name: 'github', origin: 'https://github.com', fields: ['username', 'password'] }]);
+  assert(prompt === '- {{vault:github.username}}, {{vault:github.password}} (only on https://github.com)', `Prompt lines: ${prompt}`);
+  console.log('  ✓ Every resolution audited');
+}
+
+async function run() {
+  console.log('🧪 Running credential vault tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testEncryption();
+    await testResolution();
+    await testAudit();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All credential vault tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ Credential vault tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
@@ -0,0 +1,115 @@
+// Unit tests for recorded demonstrations (lib/demonstrations.ts)
+// Run with: npx tsx tests/demonstrations.test.ts (or via npm run test:demonstrations)
+
+import type { DemonstrationEvent, ElementDescriptor } from '../types';
+import {
+  compactDemonstration,
+  createDemonstration,
+  demonstrationToTemplate,
+  formatFewShotExample,
+  selectFewShotExamples,
+  buildFewShotSection,
+  loadDemonstrationsForPlanning,
+  createMemoryDemonstrationStore,
+} from '../lib/demonstrations';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+let clock = 1_000;
+function event(type: DemonstrationEvent['type'], fields: Partial<DemonstrationEvent> = {}): DemonstrationEvent {
+  clock += 1000;
+  return { id: `e${clock}`, type, timestamp: clock, url: 'https://www.flights.example.com/', ...fields };
+}
+
+const searchBox: ElementDescriptor = { tag: 'input', role: 'searchbox', name: 'Where to?', selector: 'input[name="q"]', context: 'Find flights' };
+const searchButton: ElementDescriptor = { tag: 'button', role: 'button', name: 'Search', selector: '#search' };
+const password: ElementDescriptor = { tag: 'input', role: 'textbox', name: 'Password', selector: '#pw' };
+
+const RECORDING: DemonstrationEvent[] = [
+  event('navigate', { url: 'https://www.flights.example.com/' }),
+  event('click', { element: searchBox }),
+  event('type', { element: searchBox, value: 'Lis' }),
+  event('type', { element: searchBox, value: 'Lisbon' }),
+  event('scroll', { scroll: { x: 0, y: 300, direction: 'down' } }),
+  event('scroll', { scroll: { x: 0, y: 900, direction: 'down' } }),
+  event('click', { element: searchButton }),
+  event('navigate', { url: 'https://www.flights.example.com/results?q=Lisbon' }),
+  event('navigate', { url: 'https://www.flights.example.com/results?q=Lisbon' }),
+  event('type', { element: password, value: '••••', sensitive: true }),
+];
+
+async function testCompaction() {
+  console.log('\n📋 Test: compaction drops focus clicks, keystrokes and repeats...');
+  const compacted = compactDemonstration(RECORDING);
+  assert(compacted.map(e => e.type).join() === 'navigate,type,scroll,click,navigate,type', `Unexpected events: ${compacted.map(e => e.type)}`);
+  assert(compacted[1].value === 'Lisbon', 'Only the final value of a field should be kept');
+  assert(compacted[2].scroll?.y === 900, 'Consecutive scrolls should merge into the last');
+  console.log('  ✓ 10 events compacted to 6');
+}
+
+async function testTemplate() {
+  console.log('\n📋 Test: template prompt describes the steps...');
+  const demo = createDemonstration(RECORDING, { name: 'Search flights', mode: 'template' });
+  assert(demo.host === 'flights.example.com', `Host should drop www: ${demo.host}`);
+  const template = demonstrationToTemplate(demo);
+  assert(template.prompt.includes('Type "Lisbon" into searchbox "Where to?" (in "Find flights")'), `Typing step missing: ${template.prompt}`);
+  assert(template.prompt.includes('→ lands on https://www.flights.example.com/results?q=Lisbon'), 'Navigation after the click should be shown as its result');
+  assert(!template.prompt.includes('••••') && template.prompt.includes('Ask me for any secret values'), 'Secrets should never be in the prompt');
+  assert(template.category === 'Recorded' && template.name === 'Search flights', 'Template should keep the name');
+  console.log('  ✓ Steps, results and secret handling in the prompt');
+}
+
+async function testFewShot() {
+  console.log('\n📋 Test: few-shot examples picked by site and query...');
+  const flights = { ...createDemonstration(RECORDING, { name: 'Search flights', mode: 'few-shot' }), updatedAt: 1 };
+  const hotels = { ...createDemonstration(RECORDING, { name: 'Book hotel', mode: 'few-shot' }), updatedAt: 2 };
+  const template = createDemonstration(RECORDING, { name: 'Search flights template', mode: 'template' });
+  const other = createDemonstration([event('navigate', { url: 'https://shop.example.org/' })], { name: 'Search flights', mode: 'few-shot' });
+
+  const example = formatFewShotExample(flights);
+  assert(example.includes('type(searchbox "Where to?" (in "Find flights") [selector: input[name="q"]] | Lisbon)'), `Planner step missing: ${example}`);
+  assert(example.includes('<secret from user>') && !example.includes('••••'), 'Sensitive typing should be a placeholder');
+
+  const picked = selectFewShotExamples([hotels, flights, template, other], { url: 'https://flights.example.com/deals', query: 'search flights to Porto' });
+  assert(picked.map(d => d.name).join() === 'Search flights,Book hotel', `Unexpected pick: ${picked.map(d => d.name)}`);
+
+  const fromQuery = selectFewShotExamples([flights], { query: 'find flights on flights.example.com' });
+  assert(fromQuery.length === 1, 'Site named in the query should match without a current URL');
+  assert(selectFewShotExamples([flights], { url: 'https://other.example.net/', query: 'search flights' }).length === 0, 'Other sites get no examples');
+
+  const section = buildFewShotSection([flights, hotels], example.length + 200);
+  assert(section.includes('Search flights') && !section.includes('Book hotel'), 'Section should stop at whole examples under the limit');
+  console.log('  ✓ Same-site few-shot demos ranked by query words');
+}
+
+async function testPlanningLoad() {
+  console.log('\n📋 Test: planning section loaded from the store...');
+  const store = createMemoryDemonstrationStore();
+  assert(await loadDemonstrationsForPlanning({ url: 'https://flights.example.com/', query: 'x' }, store) === undefined, 'Empty store gives no section');
+  await store.put(createDemonstration(RECORDING, { name: 'Search flights', mode: 'few-shot' }));
+  const section = await loadDemonstrationsForPlanning({ url: 'https://flights.example.com/', query: 'search flights' }, store);
+  assert(section?.startsWith('Demonstrations the user recorded'), 'Section should be loaded for the site');
+  console.log('  ✓ Store lookup by site');
+}
+
+async function run() {
+  console.log('🧪 Running demonstration tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testCompaction();
+    await testTemplate();
+    await testFewShot();
+    await testPlanningLoad();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All demonstration tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ Demonstration tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
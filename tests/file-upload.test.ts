@@ -0,0 +1,70 @@
+// Unit tests for composer attachments sent with uploadFile (lib/file-upload.ts)
+// Run with: npx tsx tests/file-upload.test.ts (or via npm run test:file-upload)
+
+import { bytesToBase64, describeAttachments, resolveUploadFiles, MAX_UPLOAD_BYTES } from '../lib/file-upload';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+async function rejects(promise: Promise<unknown>, pattern: RegExp): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch (err) {
+    return pattern.test((err as Error).message);
+  }
+}
+
+async function testBase64() {
+  console.log('\n📋 Test: base64 encoding...');
+  assert(bytesToBase64(new TextEncoder().encode('hello')) === 'aGVsbG8=', 'Short input');
+  assert(bytesToBase64(new Uint8Array()) === '', 'Empty input');
+  const large = new Uint8Array(100000).map((_, i) => i % 256);
+  assert(bytesToBase64(large) === Buffer.from(large).toString('base64'), 'Inputs past one chunk match Node');
+  console.log('  ✓ Chunked encoding');
+}
+
+async function testResolve() {
+  console.log('\n📋 Test: resolving attachments by name...');
+  const resume = new File(['%PDF-1.7 resume'], 'Resume.pdf', { type: 'application/pdf' });
+  const photo = new File([new Uint8Array([0xff, 0xd8, 0xff])], 'photo.jpg', { type: 'image/jpeg' });
+  const attachments = [resume, photo];
+
+  const [payload] = await resolveUploadFiles(attachments, [' resume.PDF ']);
+  assert(payload.name === 'Resume.pdf' && payload.type === 'application/pdf', 'Matched case-insensitively and trimmed');
+  assert(Buffer.from(payload.data, 'base64').toString() === '%PDF-1.7 resume' && payload.size === resume.size, 'Contents carried as base64');
+
+  const both = await resolveUploadFiles(attachments, ['photo.jpg', 'Resume.pdf']);
+  assert(both.map(file => file.name).join() === 'photo.jpg,Resume.pdf', 'Requested order kept');
+
+  assert(await rejects(resolveUploadFiles(attachments, ['cv.docx']), /attached: Resume\.pdf, photo\.jpg/), 'Unknown name lists the attachments');
+  assert(await rejects(resolveUploadFiles([], ['a.txt']), /attached: none/), 'Nothing attached');
+  assert(await rejects(resolveUploadFiles(attachments, []), /Name the attached files/), 'Names required');
+
+  const big = new File([new Uint8Array(MAX_UPLOAD_BYTES / 2 + 1)], 'big.bin');
+  assert((await resolveUploadFiles([big], ['big.bin'])).length === 1, 'One file under the limit');
+  assert(await rejects(resolveUploadFiles([big, new File([new Uint8Array(MAX_UPLOAD_BYTES / 2)], 'big2.bin')], ['big.bin', 'big2.bin']), /too large/), 'Limit applies to the total');
+
+  const info = describeAttachments(attachments);
+  assert(info[1].name === 'photo.jpg' && info[1].size === 3 && !('data' in info[1]), 'Descriptions carry no contents');
+  console.log('  ✓ Lookup, errors and size limit');
+}
+
+async function run() {
+  console.log('🧪 Running file upload tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testBase64();
+    await testResolve();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All file upload tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ File upload tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
@@ -0,0 +1,141 @@
+// Unit tests for the list harvesting loop (lib/list-harvester.ts)
+// Run with: npx tsx tests/list-harvester.test.ts (or via npm run test:list-harvester)
+
+import {
+  harvestList,
+  hashItemContent,
+  type HarvestDriver,
+  type HarvestItemSnapshot,
+} from '../lib/list-harvester';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const item = (n: number): HarvestItemSnapshot => ({ ref: `e${n % 10}`, text: `Result ${n}`, links: [`https://x.example/${n}`] });
+const range = (from: number, to: number) => Array.from({ length: to - from }, (_, i) => item(from + i));
+
+// Virtualized feed: only a window of 10 items is in the DOM, and scrolling moves it by 5
+function createVirtualFeed(total: number) {
+  let start = 0;
+  let scrolls = 0;
+  const driver: HarvestDriver = {
+    async collect() {
+      return { success: true, items: range(start, Math.min(start + 10, total)), selector: '#feed' };
+    },
+    async advance() {
+      scrolls++;
+      const before = start;
+      start = Math.min(start + 5, Math.max(total - 10, 0));
+      return { action: 'scroll', changed: start !== before };
+    },
+  };
+  return { driver, scrolls: () => scrolls };
+}
+
+async function testHashing() {
+  console.log('\n📋 Test: content hashing...');
+  assert(hashItemContent({ text: ' Result  1 ' }) === hashItemContent({ text: 'result 1' }), 'Whitespace and case ignored');
+  assert(hashItemContent({ text: 'Result 1', links: ['https://a'] }) !== hashItemContent({ text: 'Result 1', links: ['https://b'] }), 'Links distinguish items with the same text');
+  assert(/^[0-9a-f]{8}$/.test(hashItemContent({ text: '' })), 'Eight hex digits');
+  console.log('  ✓ Normalized FNV-1a hash');
+}
+
+async function testInfiniteScroll() {
+  console.log('\n📋 Test: infinite scroll with recycled nodes...');
+  const feed = createVirtualFeed(32);
+  const progress: number[] = [];
+  const result = await harvestList(feed.driver, { onProgress: items => progress.push(items.length) });
+
+  assert(result.items.length === 32, `All items collected once, got ${result.items.length}`);
+  assert(result.items.map(i => i.text).join() === range(0, 32).map(i => i.text).join(), 'Items in page order');
+  assert(result.stoppedBecause === 'no-progress', `Stops when scrolling brings nothing new: ${result.stoppedBecause}`);
+  assert(result.rounds === 9 && feed.scrolls() === 8, `Three idle rounds after the end (rounds ${result.rounds})`);
+  assert(progress[0] === 10 && progress[progress.length - 1] === 32, 'Progress reported on new items only');
+
+  const capped = await harvestList(createVirtualFeed(100).driver, { maxItems: 23 });
+  assert(capped.items.length === 23 && capped.stoppedBecause === 'max-items', 'Item limit');
+  console.log('  ✓ Dedupe across rounds, idle and item limits');
+}
+
+async function testLoadMoreAndPages() {
+  console.log('\n📋 Test: "Load more" and "Next" pages...');
+  let loaded = 5;
+  const loadMore: HarvestDriver = {
+    async collect() {
+      return { items: range(0, loaded) };
+    },
+    async advance() {
+      if (loaded >= 12) return { action: 'none', changed: false };
+      loaded += 4;
+      return { action: 'load-more', changed: true };
+    },
+  };
+  const list = await harvestList(loadMore);
+  assert(list.items.length === 13 && list.stoppedBecause === 'end-of-list', `Stops when the button is gone: ${list.items.length} ${list.stoppedBecause}`);
+
+  // Three result pages; refs restart on every page, and the last page repeats one item
+  const pages = [range(0, 5), range(5, 10), [item(9), ...range(10, 12)]];
+  let page = 0;
+  const paginated: HarvestDriver = {
+    async collect() {
+      return { items: pages[page] };
+    },
+    async advance() {
+      if (page === pages.length - 1) return { action: 'none', changed: false };
+      page++;
+      return { action: 'next-page', changed: true, url: `https://x.example/list?page=${page + 1}` };
+    },
+  };
+  const result = await harvestList(paginated);
+  assert(result.items.length === 12 && result.pages === 3, `Items from three pages, got ${result.items.length} from ${result.pages}`);
+  assert(result.items[11].page === 3 && result.items[0].page === 1, 'Items know their page');
+  console.log('  ✓ Load more and pagination');
+}
+
+async function testTimeAndErrors() {
+  console.log('\n📋 Test: time limit and errors...');
+  let clock = 0;
+  const slow = createVirtualFeed(1000);
+  const timed = await harvestList({
+    collect: slow.driver.collect,
+    advance: async () => {
+      clock += 4000;
+      return slow.driver.advance();
+    },
+  }, { timeoutMs: 10000, now: () => clock });
+  assert(timed.stoppedBecause === 'timeout' && timed.duration === 12000, `Stops after the time limit: ${timed.stoppedBecause} ${timed.duration}`);
+  assert(timed.items.length === 25, `Items gathered before the limit are kept: ${timed.items.length}`);
+
+  const missing = await harvestList({
+    collect: async () => ({ success: false, error: 'List container not found: e4' }),
+    advance: async () => ({ action: 'scroll', changed: false }),
+  });
+  assert(missing.stoppedBecause === 'error' && missing.error === 'List container not found: e4', 'Collect errors reported');
+
+  const controller = new AbortController();
+  controller.abort();
+  const aborted = await harvestList(createVirtualFeed(10).driver, { abortSignal: controller.signal });
+  assert(aborted.stoppedBecause === 'aborted' && aborted.rounds === 0, 'Abort stops before collecting');
+  console.log('  ✓ Timeout, errors and abort');
+}
+
+async function run() {
+  console.log('🧪 Running list harvester tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testHashing();
+    await testInfiniteScroll();
+    await testLoadMoreAndPages();
+    await testTimeAndErrors();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All list harvester tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ List harvester tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
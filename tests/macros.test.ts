@@ -0,0 +1,190 @@
+// Unit tests for macro recording and replay (lib/macros.ts)
+// Run with: npx tsx tests/macros.test.ts (or via npm run test:macros)
+
+import type { Message } from '../types';
+import {
+  recordMacro,
+  replayMacro,
+  substituteParameters,
+  parseSnapshotElements,
+  findSnapshotElement,
+  createMemoryMacroStore,
+  type MacroFallbackRequest,
+} from '../lib/macros';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+type Execution = NonNullable<Message['toolExecutions']>[number];
+
+function exec(toolName: string, input: Record<string, unknown>, output: Record<string, unknown> = { success: true }, ok = true): Execution {
+  return {
+    toolCallId: `${toolName}_${Math.random().toString(36).substring(2, 6)}`,
+    toolName,
+    state: ok ? 'output-available' : 'output-error',
+    input,
+    output: ok ? output : undefined,
+    errorText: ok ? undefined : 'failed',
+  };
+}
+
+const SNAPSHOT = [
+  '- banner [ref=e1]',
+  '  - searchbox "Search flights" value="" [ref=e4]',
+  '  - button "Search" [ref=e5]',
+  '- link "Sign in" [focused] [ref=e6]',
+].join('\n');
+
+const RUN: Execution[] = [
+  exec('navigate', { url: 'https://flights.example.com/?from=SFO&to=Lisbon' }),
+  exec('getAccessibilitySnapshot', { maxNodes: 400 }, { success: true, snapshot: SNAPSHOT }),
+  exec('click', { ref: 'e9' }, {}, false),
+  exec('type', { ref: 'e4', text: 'Lisbon', clearFirst: true }),
+  exec('click', { ref: 'e5' }),
+  exec('screenshot', {}),
+];
+
+async function testSnapshotParsing() {
+  console.log('\n📋 Test: snapshot lines parsed into role, name and ref...');
+  const elements = parseSnapshotElements(SNAPSHOT);
+  assert(elements.length === 4, `Expected 4 elements, got ${elements.length}`);
+  assert(elements[1].role === 'searchbox' && elements[1].name === 'Search flights' && elements[1].ref === 'e4', 'Value and ref should be separated from the name');
+  assert(elements[3].ref === 'e6' && elements[3].name === 'Sign in', 'States should not break parsing');
+  assert(findSnapshotElement(elements, { name: 'search', role: 'button' })?.ref === 'e5', 'Role and name should match case-insensitively');
+  assert(findSnapshotElement(elements, { name: 'Search fl' })?.ref === 'e4', 'Partial name should match as a last resort');
+  console.log('  ✓ Elements found by role and name');
+}
+
+async function testRecording() {
+  console.log('\n📋 Test: recording keeps actions, targets and parameters...');
+  const macro = recordMacro(RUN, { name: 'Flights to Lisbon', userQuery: 'Find flights from SFO to Lisbon' });
+  assert(macro.steps.map(s => s.toolName).join() === 'navigate,type,click', `Unexpected steps: ${macro.steps.map(s => s.toolName)}`);
+
+  const [navigate, type, click] = macro.steps;
+  assert(type.target?.name === 'Search flights' && type.target.role === 'searchbox', 'Typed element should keep its snapshot name');
+  assert(click.target?.ref === 'e5' && click.target.name === 'Search', 'Clicked element should keep ref and name');
+
+  const names = macro.parameters.map(p => p.name).sort().join();
+  assert(names === 'from,to', `Unexpected parameters: ${names}`);
+  assert(String(navigate.input.url).includes('from={{from}}') && String(navigate.input.url).includes('to={{to}}'), `URL values should become parameters: ${navigate.input.url}`);
+  assert(type.input.text === '{{to}}', 'Typed text with the same value should reuse the parameter');
+  console.log('  ✓ Failed click and screenshot dropped, Lisbon and SFO parameterized');
+}
+
+async function testSubstitution() {
+  console.log('\n📋 Test: parameters filled, URLs encoded...');
+  const filled = substituteParameters(
+    { url: 'https://example.com/?q={{query}}', text: '{{query}}', missing: '{{other}}' },
+    { query: 'New York & more' }
+  );
+  assert(filled.url === 'https://example.com/?q=New%20York%20%26%20more', `URL value should be encoded: ${filled.url}`);
+  assert(filled.text === 'New York & more', 'Typed text should be literal');
+  assert(filled.missing === '{{other}}', 'Unknown placeholders stay as they are');
+  console.log('  ✓ Substitution by field');
+}
+
+async function testReplay() {
+  console.log('\n📋 Test: replay uses text fallback and the model only when needed...');
+  const macro = recordMacro(RUN, { name: 'Flights', userQuery: 'Find flights from SFO to Lisbon' });
+  const calls: Array<{ tool: string; input: any }> = [];
+  // New session: refs changed, e4 is now e14 and the Search button is gone
+  const snapshot = '- searchbox "Search flights" [ref=e14]\n- link "Help" [ref=e15]';
+  const tools = Object.fromEntries(['navigate', 'type', 'click'].map(name => [name, {
+    execute: async (input: any) => {
+      calls.push({ tool: name, input });
+      if (name === 'type' && input.ref !== 'e14') return { success: false, error: 'Unknown or stale element ref' };
+      if (name === 'click') return { success: false, error: 'Element not found' };
+      return { success: true };
+    },
+  }]));
+  const fallbacks: MacroFallbackRequest[] = [];
+
+  const result = await replayMacro(macro, {
+    tools,
+    executeTool: async () => ({ text: snapshot }),
+    values: { to: 'Porto' },
+    fallback: async (request) => {
+      fallbacks.push(request);
+      return { success: true, output: { success: true } };
+    },
+  });
+
+  assert(result.success, `Replay should succeed: ${JSON.stringify(result.steps)}`);
+  assert(calls[0].input.url.includes('to=Porto') && calls[0].input.url.includes('from=SFO'), `Values should fill the URL: ${calls[0].input.url}`);
+  const typed = calls.find(c => c.tool === 'type');
+  assert(typed?.input.ref === 'e14' && typed.input.text === 'Porto', 'Type should find the searchbox by name in the new snapshot');
+  assert(result.steps[1].status === 'replayed' && result.steps[2].status === 'fallback', 'Only the missing button should go to the model');
+  assert(fallbacks.length === 1 && fallbacks[0].step.description === 'Click "Search"', 'Fallback should get the step description');
+  assert(result.fallbackCount === 1, 'Fallback count should be reported');
+
+  const noFallback = await replayMacro(macro, { tools, executeTool: async () => ({ text: snapshot }) });
+  assert(!noFallback.success && noFallback.failedStep === 2, 'Without a fallback the replay should stop at the failing step');
+  console.log('  ✓ Deterministic steps replayed, one step handed to the model');
+}
+
+async function testNamelessTarget() {
+  console.log('\n📋 Test: a ref without a name is only reused in the same snapshot session...');
+  const run = [
+    exec('getAccessibilitySnapshot', { maxNodes: 400 }, { success: true, snapshot: '- button [ref=e7]\n- link "Help" [ref=e8]', session: 's1' }),
+    exec('click', { ref: 'e7' }),
+  ];
+  const macro = recordMacro(run, { name: 'Icon button', userQuery: 'Open the menu' });
+  const target = macro.steps[0].target!;
+  assert(target.ref === 'e7' && !target.name && target.session === 's1', `Target should keep its snapshot session: ${JSON.stringify(target)}`);
+
+  // After a reload e7 is a different element
+  const reloaded = parseSnapshotElements('- link "Home" [ref=e7]\n- button [ref=e9]');
+  assert(findSnapshotElement(reloaded, target, 's1')?.ref === 'e7', 'Same session should reuse the ref');
+  assert(findSnapshotElement(reloaded, target, 's2') === undefined, 'A new session should not reuse the ref');
+  assert(findSnapshotElement(reloaded, target) === undefined, 'An unknown session should not reuse the ref');
+  assert(findSnapshotElement(reloaded, { ref: 'e7' }, 's1') === undefined, 'A ref recorded without a session should not be reused');
+
+  const clicks: any[] = [];
+  const fallbacks: MacroFallbackRequest[] = [];
+  const result = await replayMacro(macro, {
+    tools: { click: { execute: async (input: any) => (clicks.push(input), { success: true }) } },
+    executeTool: async () => ({ text: '- link "Home" [ref=e7]\n- button [ref=e9]', session: 's2' }),
+    fallback: async (request) => {
+      fallbacks.push(request);
+      return { success: true, output: { success: true } };
+    },
+  });
+  assert(result.success && clicks.length === 0 && fallbacks.length === 1, `Step should go to the model, not click the stale ref: ${JSON.stringify(clicks)}`);
+  console.log('  ✓ Stale ref left to the model');
+}
+
+async function testStore() {
+  console.log('\n📋 Test: memory store lists newest first...');
+  const store = createMemoryMacroStore();
+  const first = { ...recordMacro(RUN, { name: 'A', userQuery: 'x' }), updatedAt: 1 };
+  const second = { ...recordMacro(RUN, { name: 'B', userQuery: 'x' }), updatedAt: 2 };
+  await store.put(first);
+  await store.put(second);
+  assert((await store.list()).map(m => m.name).join() === 'B,A', 'Newest macro should be first');
+  await store.delete(second.id);
+  assert((await store.get(second.id)) === undefined && (await store.list()).length === 1, 'Deleted macro should be gone');
+  console.log('  ✓ Put, list, get and delete');
+}
+
+async function run() {
+  console.log('🧪 Running macro tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testSnapshotParsing();
+    await testRecording();
+    await testSubstitution();
+    await testReplay();
+    await testNamelessTarget();
+    await testStore();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All macro tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ Macro tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
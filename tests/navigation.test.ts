@@ -22,6 +22,62 @@ let mockTelemetryStats = {
   averageDuration: 0
 };
 
+// Minimal chrome.events.Event with a way to fire it from tests
+function createEvent() {
+  const listeners = new Set<(...args: any[]) => void>();
+  return {
+    addListener: (fn: (...args: any[]) => void) => {
+      listeners.add(fn);
+    },
+    removeListener: (fn: (...args: any[]) => void) => {
+      listeners.delete(fn);
+    },
+    emit: (...args: any[]) => listeners.forEach(fn => fn(...args)),
+  };
+}
+
+const webNavigation = {
+  onBeforeNavigate: createEvent(),
+  onCommitted: createEvent(),
+  onDOMContentLoaded: createEvent(),
+  onCompleted: createEvent(),
+  onReferenceFragmentUpdated: createEvent(),
+  onHistoryStateUpdated: createEvent(),
+  onErrorOccurred: createEvent(),
+};
+const webRequest = {
+  onBeforeRequest: createEvent(),
+  onBeforeRedirect: createEvent(),
+  onCompleted: createEvent(),
+  onErrorOccurred: createEvent(),
+};
+
+let sitePermissionsEnabled = false;
+
+// Next simulated main-frame load: optional redirect hop and HTTP status
+let nextLoad: { redirectTo?: string; status?: number } = {};
+let historyStack: string[] = [];
+let historyIndex = -1;
+
+// Fire the webRequest/webNavigation sequence Chrome emits for a main-frame load
+function simulatePageLoad(tabId: number, url: string) {
+  const { redirectTo, status = 200 } = nextLoad;
+  nextLoad = {};
+  const finalUrl = redirectTo || url;
+  lastUpdatedUrl = finalUrl;
+  setTimeout(() => {
+    webNavigation.onBeforeNavigate.emit({ tabId, frameId: 0, url });
+    webRequest.onBeforeRequest.emit({ tabId, requestId: 'main', type: 'main_frame', url });
+    if (redirectTo) {
+      webRequest.onBeforeRedirect.emit({ tabId, requestId: 'main', type: 'main_frame', url, redirectUrl: redirectTo, statusCode: 301 });
+    }
+    webRequest.onCompleted.emit({ tabId, requestId: 'main', type: 'main_frame', url: finalUrl, statusCode: status, statusLine: `HTTP/1.1 ${status}` });
+    webNavigation.onCommitted.emit({ tabId, frameId: 0, url: finalUrl });
+    webNavigation.onDOMContentLoaded.emit({ tabId, frameId: 0, url: finalUrl });
+    webNavigation.onCompleted.emit({ tabId, frameId: 0, url: finalUrl });
+  }, 10);
+}
+
 // Expose a very small subset of the Chrome APIs used in background.ts
 (globalThis as any).chrome = {
   sidePanel: {
@@ -30,14 +86,22 @@ let mockTelemetryStats = {
   action: {
     onClicked: { addListener: () => {} },
   },
-  webNavigation: {
-    onCompleted: { addListener: () => {} },
-  },
+  webNavigation,
+  webRequest,
   storage: {
     local: {
-      get: (_keys: any, cb: (result: any) => void) => cb({}),
+      // Site permissions are off except in testSitePermissions: these calls come from no
+      // workflow run, and grants have their own tests (tests/origin-permissions.test.ts)
+      get: (_keys: any, cb?: (result: any) => void) => {
+        const result = { opulentOriginPermissions: { enabled: sitePermissionsEnabled } };
+        return cb ? cb(result) : Promise.resolve(result);
+      },
       set: (_obj: any) => {},
     },
+    session: {
+      get: async (_keys: any) => ({}),
+      set: async (_obj: any) => {},
+    },
   },
   runtime: {
     onMessage: {
@@ -45,8 +109,16 @@ let mockTelemetryStats = {
         messageListeners.push(fn);
       },
     },
+    onConnect: createEvent(),
+    onStartup: createEvent(),
+    onInstalled: createEvent(),
     sendMessage: (_msg: any, _cb?: (response: any) => void) => {},
   },
+  alarms: {
+    onAlarm: createEvent(),
+    create: async () => {},
+    clear: async () => true,
+  },
   tabs: {
     query: async (_query: any) => {
       return [
@@ -56,19 +128,39 @@ let mockTelemetryStats = {
     update: async (tabId: number, updateProps: { url?: string }) => {
       if (!tabId) throw new Error('No tab id');
       if (updateProps.url) {
-        lastUpdatedUrl = updateProps.url;
         updateCallCount++;
+        historyStack = [...historyStack.slice(0, historyIndex + 1), updateProps.url];
+        historyIndex = historyStack.length - 1;
+        simulatePageLoad(tabId, updateProps.url);
       }
       return { id: tabId, url: updateProps.url };
     },
+    goBack: async (tabId: number) => {
+      if (historyIndex <= 0) throw new Error('Cannot find a next page in history.');
+      simulatePageLoad(tabId, historyStack[--historyIndex]);
+    },
+    goForward: async (tabId: number) => {
+      if (historyIndex >= historyStack.length - 1) throw new Error('Cannot find a next page in history.');
+      simulatePageLoad(tabId, historyStack[++historyIndex]);
+    },
+    reload: async (tabId: number) => {
+      simulatePageLoad(tabId, historyStack[historyIndex]);
+    },
+    sendMessage: async (_tabId: number, message: any) =>
+      message.type === 'WAIT_FOR_DOM_QUIET' ? { success: true, quiet: true } : { success: true },
     get: async (tabId: number) => ({ id: tabId, url: lastUpdatedUrl ?? 'https://example.com', title: 'Updated' }),
+    onRemoved: { addListener: () => {} },
+    onUpdated: { addListener: () => {} },
   },
   windows: {
-    getLastFocused: async () => ({ id: 1, tabs: [] as any[] }),
+    getLastFocused: async () => ({ id: 1, tabs: await (globalThis as any).chrome.tabs.query({}) }),
   },
   scripting: {
     executeScript: async () => {},
   },
+  debugger: {
+    onDetach: { addListener: () => {} },
+  },
   history: { search: (_opts: any, cb: (results: any[]) => void) => cb([]) },
   bookmarks: { getTree: (cb: (tree: any) => void) => cb([]) },
 };
@@ -145,6 +237,39 @@ async function testValidNavigate() {
   console.log(`  ✓ Tab ID: ${lastEvent.tabId}`);
 }
 
+async function testRedirectAndStatus() {
+  console.log('\n📋 Test: Redirect chain, status and timing...');
+  nextLoad = { redirectTo: 'https://www.example.com/landing', status: 404 };
+  const res = await invokeMessage({ type: 'EXECUTE_TOOL', toolName: 'navigate', parameters: { url: 'https://example.com/old', quietMs: 50 } });
+
+  assert(res && res.success === true, 'navigate should succeed once the page loads');
+  assert(res.url === 'https://www.example.com/landing', 'navigate should report the final URL');
+  assert(res.requestedUrl === 'https://example.com/old', 'navigate should report the requested URL');
+  assert(res.redirects.length === 1 && res.redirects[0].status === 301, 'Redirect hop should be recorded');
+  assert(res.status === 404 && res.warning?.includes('404'), 'HTTP status should be reported with a warning');
+  assert(typeof res.timing.loadMs === 'number' && res.timing.settledMs >= res.timing.loadMs, 'Load timing should be reported');
+  assert(res.idle === true, 'Page should be idle after the quiet period');
+
+  console.log('  ✓ Final URL, redirect, status and timing reported');
+}
+
+async function testHistoryNavigation() {
+  console.log('\n📋 Test: goBack / goForward / reload wait for load...');
+  await invokeMessage({ type: 'EXECUTE_TOOL', toolName: 'navigate', parameters: { url: 'https://example.com/a', quietMs: 0 } });
+  await invokeMessage({ type: 'EXECUTE_TOOL', toolName: 'navigate', parameters: { url: 'https://example.com/b', quietMs: 0 } });
+
+  const back = await invokeMessage({ type: 'EXECUTE_TOOL', toolName: 'goBack', parameters: { quietMs: 0 } });
+  assert(back.success === true && back.url === 'https://example.com/a', 'goBack should resolve on the previous page');
+  const forward = await invokeMessage({ type: 'EXECUTE_TOOL', toolName: 'goForward', parameters: { quietMs: 0 } });
+  assert(forward.success === true && forward.url === 'https://example.com/b', 'goForward should resolve on the next page');
+  const reload = await invokeMessage({ type: 'EXECUTE_TOOL', toolName: 'reload', parameters: { quietMs: 0 } });
+  assert(reload.success === true && typeof reload.timing.loadMs === 'number', 'reload should wait for the load');
+  const noForward = await invokeMessage({ type: 'EXECUTE_TOOL', toolName: 'goForward', parameters: { quietMs: 0 } });
+  assert(noForward.success === false && noForward.error.includes('history'), 'goForward without history should fail');
+
+  console.log('  ✓ History navigation resolves after load');
+}
+
 async function testInvalidUrl() {
   console.log('\n📋 Test: Invalid URL with telemetry...');
   const res = await invokeMessage({ type: 'EXECUTE_TOOL', toolName: 'navigate', parameters: { url: 'chrome://extensions' } });
@@ -240,6 +365,26 @@ async function testTelemetryStats() {
   console.log(`  ✓ Average duration: ${telemetry.telemetry.stats.averageDuration.toFixed(2)}ms`);
 }
 
+async function testSitePermissions() {
+  console.log('\n📋 Test: site permissions fail closed...');
+  sitePermissionsEnabled = true;
+  try {
+    const updates = updateCallCount;
+    const outsideRun = await invokeMessage({ type: 'EXECUTE_TOOL', toolName: 'navigate', parameters: { url: 'https://shop.example.com' } });
+    assert(outsideRun.success === false && outsideRun.error.includes('part of a task') && !outsideRun.permissionRequired, `Calls outside a run are refused: ${outsideRun.error}`);
+
+    const ungranted = await invokeMessage({ type: 'EXECUTE_TOOL', toolName: 'navigate', workflowRunId: 'run-1', parameters: { url: 'https://shop.example.com/cart' } });
+    assert(ungranted.permissionRequired?.origin === 'https://shop.example.com' && ungranted.permissionRequired.access === 'read', 'A run without a grant is asked to get one');
+
+    const notASite = await invokeMessage({ type: 'EXECUTE_TOOL', toolName: 'navigate', workflowRunId: 'run-1', parameters: { url: 'file:///etc/hosts' } });
+    assert(notASite.success === false && notASite.error.includes('web pages') && !notASite.permissionRequired, 'Pages without a site are refused');
+    assert(updateCallCount === updates, 'Refused navigations never reach the tab');
+  } finally {
+    sitePermissionsEnabled = false;
+  }
+  console.log('  ✓ Refused outside a run, without a grant and off the web');
+}
+
 async function run() {
   console.log('🧪 Running navigation tests with telemetry...\n');
   console.log('=' .repeat(50));
@@ -249,11 +394,14 @@ async function run() {
     await clearTelemetry();
 
     await testValidNavigate();
+    await testRedirectAndStatus();
+    await testHistoryNavigation();
     await testInvalidUrl();
     await testMissingUrl();
     await testHttpUrl();
     await testAlternativeParameterNames();
     await testTelemetryStats();
+    await testSitePermissions();
 
     console.log('\n' + '='.repeat(50));
     console.log('\n✅ All navigation step tests passed!\n');
@@ -0,0 +1,108 @@
+// Unit tests for per-origin permission grants (lib/origin-permissions.ts)
+// Run with: npx tsx tests/origin-permissions.test.ts (or via npm run test:origin-permissions)
+
+import {
+  createMemoryOriginGrantStore,
+  requiredAccess,
+  accessSatisfies,
+  actionOrigin,
+  isBlankPage,
+  grantedAccess,
+  authorizeOriginAccess,
+  grantOriginAccess,
+  revokeOriginGrants,
+  clearRunGrants,
+  listRunGrants,
+  describeMissingAccess,
+} from '../lib/origin-permissions';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const SHOP = 'https://shop.example.com';
+
+async function testClassification() {
+  console.log('\n📋 Test: classifying actions...');
+  assert(requiredAccess('navigate', { url: SHOP }) === 'read', 'Navigating reads');
+  assert(requiredAccess('getAccessibilitySnapshot') === 'read' && requiredAccess('screenshot') === 'read', 'Looking reads');
+  assert(requiredAccess('click') === 'interact' && requiredAccess('type') === 'interact' && requiredAccess('uploadFile') === 'interact', 'Input interacts');
+  assert(requiredAccess('openTab', {}) === null && requiredAccess('openTab', { url: SHOP }) === 'read', 'Blank tabs need nothing');
+  assert(requiredAccess('listTabs') === null && requiredAccess('wait') === null, 'Tools that act on no site');
+
+  assert(accessSatisfies('submit', 'interact') && accessSatisfies('read', 'read'), 'Higher access covers lower');
+  assert(!accessSatisfies('interact', 'submit') && !accessSatisfies(undefined, 'read'), 'Lower or no access does not');
+
+  assert(actionOrigin('https://Shop.example.com/cart?x=1') === SHOP, 'Origin of a page');
+  assert(actionOrigin('chrome://newtab') === undefined && actionOrigin('about:blank') === undefined, 'No site for browser pages');
+  assert(isBlankPage('about:blank') && isBlankPage('chrome://newtab/'), 'Blank pages recognized');
+  assert(!isBlankPage('chrome://settings') && !isBlankPage('file:///etc/passwd') && !isBlankPage(undefined), 'Other pages without a site are not blank');
+  console.log('  ✓ Read, interact and submit');
+}
+
+async function testGrants() {
+  console.log('\n📋 Test: once, run and always grants...');
+  const store = createMemoryOriginGrantStore();
+  assert(!(await authorizeOriginAccess(store, 'run-1', SHOP, 'read')), 'Nothing granted by default');
+
+  await grantOriginAccess(store, 'run-1', SHOP, { access: 'interact', duration: 'once' });
+  assert(!(await authorizeOriginAccess(store, 'run-1', SHOP, 'submit')), 'Once grant does not cover more than it says');
+  assert(await authorizeOriginAccess(store, 'run-1', SHOP, 'read'), 'Once grant allows one action');
+  assert(!(await authorizeOriginAccess(store, 'run-1', SHOP, 'read')), 'Then it is used up');
+
+  await grantOriginAccess(store, 'run-1', SHOP, { access: 'interact', duration: 'run' });
+  assert(await authorizeOriginAccess(store, 'run-1', SHOP, 'interact') && await authorizeOriginAccess(store, 'run-1', SHOP, 'interact'), 'Run grant lasts');
+  assert(!(await authorizeOriginAccess(store, 'run-2', SHOP, 'read')), 'Only for its own run');
+  assert(!(await authorizeOriginAccess(store, 'run-1', 'https://other.example', 'read')), 'Only for its own origin');
+  assert(await grantedAccess(store, 'run-1', SHOP) === 'interact', 'Granted access reported');
+
+  await grantOriginAccess(store, 'run-1', SHOP, { access: 'submit', duration: 'once' });
+  assert(await authorizeOriginAccess(store, 'run-1', SHOP, 'read'), 'Covered by the run grant');
+  assert((await listRunGrants(store)).some(grant => grant.once), 'Once grant kept when a longer grant covers the action');
+
+  await clearRunGrants(store, 'run-1');
+  assert((await listRunGrants(store)).length === 0, 'Run grants cleared when the run ends');
+
+  await grantOriginAccess(store, 'run-1', `${SHOP}/checkout`, { access: 'submit', duration: 'always' });
+  const settings = await store.readSettings();
+  assert(settings?.grants?.length === 1 && settings.grants[0].origin === SHOP, `Always grant stored by origin: ${JSON.stringify(settings)}`);
+  assert(await authorizeOriginAccess(store, 'run-9', SHOP, 'submit'), 'Always grant applies to every run');
+  console.log('  ✓ Each duration behaves');
+}
+
+async function testRevokeAndDisable() {
+  console.log('\n📋 Test: revoking and turning off...');
+  const store = createMemoryOriginGrantStore({ grants: [{ origin: SHOP, access: 'read', grantedAt: 0 }] });
+  await grantOriginAccess(store, 'run-1', SHOP, { access: 'submit', duration: 'run' });
+  await grantOriginAccess(store, 'run-1', 'https://docs.example.org', { access: 'read', duration: 'run' });
+
+  await revokeOriginGrants(store, SHOP);
+  assert(!(await authorizeOriginAccess(store, 'run-1', SHOP, 'read')), 'Every grant for the origin revoked');
+  assert(await authorizeOriginAccess(store, 'run-1', 'https://docs.example.org', 'read'), 'Other origins kept');
+
+  await store.writeSettings({ ...(await store.readSettings()), enabled: false });
+  assert(await authorizeOriginAccess(store, 'run-1', SHOP, 'submit'), 'Everything allowed when turned off');
+
+  const message = describeMissingAccess({ origin: SHOP, access: 'submit', toolName: 'click', granted: 'interact' });
+  assert(message.startsWith('click needs submit and purchase access to https://shop.example.com') && message.includes('it has interact access'), `Refusal message: ${message}`);
+  console.log('  ✓ Revocable');
+}
+
+async function run() {
+  console.log('🧪 Running origin permission tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testClassification();
+    await testGrants();
+    await testRevokeAndDisable();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All origin permission tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ Origin permission tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
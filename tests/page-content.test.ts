@@ -0,0 +1,122 @@
+// Unit tests for Markdown chunking of page content (lib/page-content.ts)
+// Run with: npx tsx tests/page-content.test.ts (or via npm run test:page-content)
+
+import {
+  splitMarkdownBlocks,
+  chunkMarkdown,
+  getContentChunk,
+  clampChunkSize,
+  MIN_CONTENT_CHUNK_SIZE,
+} from '../lib/page-content';
+import type { MainContent } from '../types';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const paragraph = (label: string, length: number) => `${label} ${'x'.repeat(length - label.length - 1)}`;
+
+async function testBlocks() {
+  console.log('\n📋 Test: Markdown blocks...');
+  const blocks = splitMarkdownBlocks([
+    '# Title',
+    '',
+    'First paragraph',
+    'continues here.',
+    '',
+    '```ts',
+    'const a = 1;',
+    '',
+    'const b = 2;',
+    '```',
+    '- one',
+    '- two',
+    '',
+    '',
+    '| a | b |',
+    '| --- | --- |',
+  ].join('\r\n'));
+
+  assert(blocks.length === 5, `Five blocks, got ${blocks.length}`);
+  assert(blocks[1] === 'First paragraph\ncontinues here.', 'Paragraph lines stay together');
+  assert(blocks[2] === '```ts\nconst a = 1;\n\nconst b = 2;\n```', 'Blank lines inside a fence do not split it');
+  assert(blocks[3] === '- one\n- two', 'A fence ends its block');
+  console.log('  ✓ Paragraphs, fences, lists and tables');
+}
+
+async function testChunks() {
+  console.log('\n📋 Test: chunking...');
+  const markdown = [
+    '# Guide',
+    paragraph('intro', 600),
+    '## Install',
+    paragraph('install-1', 600),
+    paragraph('install-2', 600),
+    '## Usage',
+    paragraph('usage', 300),
+  ].join('\n\n');
+
+  const chunks = chunkMarkdown(markdown, 1000);
+  assert(chunks.every(chunk => chunk.text.length <= 1000), 'No chunk over the limit');
+  assert(chunks.map(chunk => chunk.text).join('\n\n') === markdown, 'Chunks join back to the whole page');
+  assert(chunks.length === 3, `Three chunks, got ${chunks.length}`);
+  assert(chunks[0].section === undefined, 'First chunk opens with its heading');
+  assert(chunks[0].text.endsWith('x') && chunks[1].text.startsWith('## Install\n\ninstall-1'), 'A heading is not left at the end of a chunk');
+  assert(chunks[1].section === undefined, 'Chunk opening with a heading needs no section');
+  assert(chunks[2].text.startsWith('install-2') && chunks[2].section === 'Install', `Mid-section chunk names its heading: ${chunks[2].section}`);
+
+  const huge = chunkMarkdown(['line one', 'y'.repeat(2500)].join('\n'), 1000);
+  assert(huge.length === 4 && huge.every(chunk => chunk.text.length <= 1000), 'Oversized blocks split at lines, then characters');
+  assert(huge[0].text === 'line one', 'Short line kept whole');
+
+  assert(clampChunkSize(10) === MIN_CONTENT_CHUNK_SIZE && clampChunkSize(undefined) === 8000, 'Chunk size clamped and defaulted');
+  assert(chunkMarkdown('').length === 0, 'Empty page has no chunks');
+  console.log('  ✓ Block-aligned chunks with section context');
+}
+
+async function testContentChunk() {
+  console.log('\n📋 Test: reading a page chunk by chunk...');
+  const content: MainContent = {
+    url: 'https://docs.example.com/guide',
+    title: 'Guide',
+    markdown: [paragraph('a', 900), paragraph('b', 900), paragraph('c', 900)].join('\n\n'),
+    source: 'semantic',
+    timestamp: 1,
+  };
+
+  const read: string[] = [];
+  let chunk = 1;
+  while (true) {
+    const page = getContentChunk(content, chunk, 1000);
+    read.push(page.markdown);
+    assert(page.totalChunks === 3 && page.totalLength === content.markdown.length, 'Totals reported');
+    assert(page.url === content.url && page.source === 'semantic', 'Page fields carried');
+    if (!page.hasMore) break;
+    chunk++;
+  }
+  assert(read.length === 3 && read.join('\n\n') === content.markdown, 'Reading until hasMore is false covers the page');
+
+  const past = getContentChunk(content, 9, 1000);
+  assert(past.markdown === '' && !past.hasMore && past.chunk === 9, 'Past the end is empty');
+  assert(getContentChunk(content, 0, 1000).chunk === 1, 'Chunk numbers start at 1');
+  console.log('  ✓ Pagination');
+}
+
+async function run() {
+  console.log('🧪 Running page content tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testBlocks();
+    await testChunks();
+    await testContentChunk();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All page content tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ Page content tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
@@ -0,0 +1,175 @@
+// Unit tests for page watches (lib/page-watch.ts)
+// Run with: npx tsx tests/page-watch.test.ts (or via npm run test:page-watch)
+
+import type { RegionSnapshot } from '../types';
+import {
+  diffLines,
+  diffSnapshots,
+  hasChanges,
+  formatDiff,
+  checkWatch,
+  createPageWatch,
+  createMemoryWatchStore,
+  createModelChangeJudge,
+  syncWatchAlarm,
+  watchAlarmName,
+  watchIdFromAlarm,
+  type ChangeJudge,
+  type PageWatch,
+  type WatchChange,
+} from '../lib/page-watch';
+import type { AlarmApi } from '../lib/scheduler';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+function createFakeAlarms() {
+  const alarms = new Map<string, number>();
+  const api: AlarmApi = {
+    create: (name, info) => { alarms.set(name, info.when); },
+    clear: async (name) => alarms.delete(name),
+  };
+  return { alarms, api };
+}
+
+function snapshot(text: string[], structure: string[] = [], found = true): RegionSnapshot {
+  return { url: 'https://status.example.com/', selector: '#incidents', found, text, structure, capturedAt: Date.now() };
+}
+
+async function testLineDiff() {
+  console.log('\n📋 Test: line diff keeps order and context...');
+  const lines = diffLines(['a', 'b', 'c', 'd'], ['a', 'c', 'x', 'd']);
+  assert(lines.map(l => `${l.op[0]}${l.line}`).join() === 'sa,rb,sc,ax,sd', `Unexpected diff: ${JSON.stringify(lines)}`);
+
+  const before = snapshot(['Incidents', 'API: operational', 'Login: operational', 'Billing: operational', 'Updated 10:00'], ['heading "Incidents"', 'listitem']);
+  const after = snapshot(['Incidents', 'API: operational', 'Login: degraded', 'Billing: operational', 'Updated 10:05'], ['heading "Incidents"', 'listitem', 'listitem']);
+  const diff = diffSnapshots(before, after);
+  assert(diff.added === 2 && diff.removed === 2, 'Two lines replaced');
+  assert(diff.text[0].line === 'API: operational' && diff.text[0].op === 'same', 'One line of context before a change');
+  assert(!diff.text.some(l => l.line === 'Incidents'), 'Lines far from a change are dropped');
+  assert(diff.structure.length === 1 && diff.structure[0].op === 'add', 'Structure diff reports the new list item');
+  assert(formatDiff(diff).includes('+ Login: degraded\n'), 'Formatted diff uses +/- prefixes');
+  assert(!hasChanges(diffSnapshots(before, before)), 'Identical snapshots have no changes');
+  console.log('  ✓ Text and structure diffs');
+}
+
+async function testAlarms() {
+  console.log('\n📋 Test: watch alarm follows enabled state...');
+  const { alarms, api } = createFakeAlarms();
+  const watch = createPageWatch({ url: 'https://status.example.com/', selector: '#incidents', criterion: 'new incident', intervalMinutes: 1 });
+  assert(watch.intervalMinutes === 5 && watch.name === 'status.example.com #incidents', 'Interval clamped, name from host and region');
+  assert(watchIdFromAlarm(watchAlarmName(watch.id)) === watch.id && watchIdFromAlarm('schedule:x') === null, 'Alarm names round-trip');
+
+  const synced = await syncWatchAlarm(watch, api, 1_000);
+  assert(alarms.get(watchAlarmName(watch.id)) === 1_000 + 5 * 60_000 && synced.nextCheckAt === 1_000 + 5 * 60_000, 'Alarm set for the next check');
+  const disabled = await syncWatchAlarm({ ...synced, enabled: false }, api, 2_000);
+  assert(!alarms.has(watchAlarmName(watch.id)) && disabled.nextCheckAt === undefined, 'Disabling clears the alarm');
+  console.log('  ✓ Alarm created and cleared');
+}
+
+async function testChecks() {
+  console.log('\n📋 Test: checks record baseline, changes and notifications...');
+  const store = createMemoryWatchStore();
+  const { alarms, api } = createFakeAlarms();
+  const watch: PageWatch = createPageWatch({ url: 'https://status.example.com/', selector: '#incidents', criterion: 'a new incident is posted' });
+  await store.putWatch(watch);
+
+  const captures = [
+    snapshot(['API: operational']),
+    snapshot(['API: operational']),
+    snapshot(['API: operational', 'Updated 10:05']),
+    snapshot(['API: operational', 'Incident: API errors']),
+    snapshot([], [], false),
+  ];
+  const judged: string[] = [];
+  const judge: ChangeJudge = async (_w, diff) => {
+    const text = formatDiff(diff);
+    judged.push(text);
+    return text.includes('Incident')
+      ? { meaningful: true, explanation: 'A new API incident was posted' }
+      : { meaningful: false, explanation: 'Only the timestamp changed' };
+  };
+  const notified: WatchChange[] = [];
+  const deps = {
+    store,
+    alarms: api,
+    capture: async () => captures.shift()!,
+    judge,
+    notify: (_w: PageWatch, change: WatchChange) => { notified.push(change); },
+  };
+
+  assert((await checkWatch(watch.id, deps))?.outcome === 'baseline', 'First check stores a baseline');
+  assert((await checkWatch(watch.id, deps))?.outcome === 'unchanged', 'Same region is unchanged');
+  const minor = await checkWatch(watch.id, deps);
+  assert(minor?.outcome === 'changed' && minor.change?.meaningful === false, 'Timestamp change recorded as minor');
+  const major = await checkWatch(watch.id, deps);
+  assert(major?.change?.meaningful && major.change.explanation === 'A new API incident was posted', 'Incident judged meaningful');
+  const failed = await checkWatch(watch.id, deps);
+  assert(failed?.outcome === 'failed', 'Missing region fails the check');
+
+  assert(judged.length === 2, 'The model only sees actual changes');
+  assert(notified.length === 1 && notified[0].id === major?.change?.id, 'Only the meaningful change notifies');
+  const changes = await store.listChanges(watch.id);
+  assert(changes.length === 2 && changes[0].id === major?.change?.id, 'Changes are kept newest first');
+  const saved = await store.getWatch(watch.id);
+  assert(saved?.lastError?.includes('#incidents') && alarms.has(watchAlarmName(watch.id)), 'Error kept and next check scheduled');
+  assert(await checkWatch('missing', deps) === null, 'Unknown watches are ignored');
+  console.log('  ✓ Baseline, unchanged, minor, meaningful and failed checks');
+}
+
+async function testUnjudgedChange() {
+  console.log('\n📋 Test: a change the model fails to judge is recorded as unjudged...');
+  const store = createMemoryWatchStore();
+  const { api } = createFakeAlarms();
+  const watch: PageWatch = createPageWatch({ url: 'https://status.example.com/', criterion: 'a new incident is posted' });
+  await store.putWatch(watch);
+
+  const captures = [snapshot(['API: operational']), snapshot(['API: degraded'])];
+  const notified: WatchChange[] = [];
+  const deps = {
+    store,
+    alarms: api,
+    capture: async () => captures.shift()!,
+    judge: async () => { throw new Error('Rate limited'); },
+    notify: (_w: PageWatch, change: WatchChange) => { notified.push(change); },
+  };
+
+  await checkWatch(watch.id, deps);
+  const result = await checkWatch(watch.id, deps);
+  assert(result?.outcome === 'changed' && result.change?.meaningful === false, 'Unjudged change is not counted as meaningful');
+  assert(result?.change?.judgeError === 'Rate limited', `Judge error kept on the change: ${result?.change?.judgeError}`);
+  assert((await store.getWatch(watch.id))?.lastError?.includes('Rate limited'), 'Judge error shown on the watch');
+  assert(notified.length === 1 && notified[0].judgeError, 'User told the change could not be judged');
+  console.log('  ✓ Unjudged, with the error surfaced');
+}
+
+async function testJudgeWithoutModel() {
+  console.log('\n📋 Test: without an API key every change is reported...');
+  const judge = createModelChangeJudge({ provider: 'google', apiKey: '' });
+  const watch = createPageWatch({ url: 'https://example.com/', criterion: 'anything' });
+  const verdict = await judge(watch, diffSnapshots(snapshot(['a']), snapshot(['b'])));
+  assert(verdict.meaningful, 'Unjudged changes count as meaningful');
+  console.log('  ✓ Fallback verdict');
+}
+
+async function run() {
+  console.log('🧪 Running page watch tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testLineDiff();
+    await testAlarms();
+    await testChecks();
+    await testUnjudgedChange();
+    await testJudgeWithoutModel();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All page watch tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ Page watch tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
@@ -0,0 +1,154 @@
+// Unit tests for mid-run plan divergence detection (lib/plan-divergence.ts)
+// Run with: npx tsx tests/plan-divergence.test.ts (or via npm run test:plan-divergence)
+
+import type { PlanningInstruction } from '../types';
+import type { PlanningStepOutput } from '../schemas/workflow-schemas';
+import {
+  PlanDivergenceMonitor,
+  detectDivergence,
+  detectPageBlocker,
+  diffPlans,
+  buildDivergenceReplanQuery,
+  withDivergenceMonitor,
+  type DivergenceReplanRequest,
+  type PlanRevision,
+} from '../lib/plan-divergence';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+function step(n: number, action: PlanningInstruction['action'], target: string, expectedOutcome = 'it works'): PlanningInstruction {
+  return { step: n, action, target, reasoning: 'needed', expectedOutcome };
+}
+
+function makePlanning(steps: PlanningInstruction[]): PlanningStepOutput {
+  return {
+    plan: {
+      objective: 'Read the latest issue of the newsletter',
+      approach: 'Open the archive and the newest issue',
+      steps,
+      criticalPaths: [1],
+      estimatedSteps: steps.length,
+      complexityScore: 0.3,
+      potentialIssues: [],
+      optimizations: [],
+    },
+    confidence: 0.9,
+    planningBlock: 'plan',
+    duration: 1,
+    success: true,
+  };
+}
+
+async function testBlockerDetection() {
+  console.log('\n📋 Test: blockers detected from URL, title and text...');
+  assert(detectPageBlocker({ url: 'https://news.example.com/login?next=/archive', title: 'News', text: '' })?.kind === 'login-wall', 'Login URL should be a login wall');
+  assert(detectPageBlocker({ url: 'https://news.example.com/a', title: 'News', text: 'Please sign in to continue reading' })?.kind === 'login-wall', 'Sign-in prompt should be a login wall');
+  assert(detectPageBlocker({ url: 'https://example.com', title: 'Just a moment...', text: '' })?.kind === 'captcha', 'Challenge page should be a captcha');
+  assert(detectPageBlocker({ url: 'https://example.com', title: 'Shop', text: 'We value privacy. Accept all cookies or manage cookie settings' })?.kind === 'cookie-modal', 'Consent banner should be a cookie modal');
+  assert(detectPageBlocker({ url: 'https://example.com/x', title: '404 Not Found', text: '' })?.kind === 'error-page', 'Error title should be an error page');
+  assert(detectPageBlocker({ url: 'https://example.com', title: 'Docs', text: 'Installation guide' }) === null, 'Normal page should pass');
+  assert(detectPageBlocker({ url: 'https://example.com/login', title: 'Log in', text: '' }, 'Sign in with the demo account') === null, 'Expected login should not diverge');
+  console.log('  ✓ Login wall, captcha, cookie modal and error page recognized');
+}
+
+async function testExpectedOutcome() {
+  console.log('\n📋 Test: expected outcome compared with the page...');
+  const page = { url: 'https://news.example.com/archive', title: 'Archive', text: 'All issues' };
+  assert(detectDivergence(page, step(1, 'navigate', 'news.example.com/archive', 'URL is news.example.com/archive')) === null, 'Matching outcome should not diverge');
+  const diverged = detectDivergence(page, step(2, 'click', 'e4', 'Page shows "Issue #42"'));
+  assert(diverged?.kind === 'unexpected-outcome' && diverged.reason.includes('issue #42'), 'Missing phrase should diverge');
+  assert(detectDivergence(page, step(3, 'click', 'e5', 'The newest issue opens')) === null, 'Vague outcome should not diverge');
+  console.log('  ✓ Concrete outcomes checked, vague ones ignored');
+}
+
+async function testDiffAndQuery() {
+  console.log('\n📋 Test: plan diff and replan query...');
+  const diff = diffPlans(
+    [step(2, 'click', 'e4'), step(3, 'getPageContext', 'current_page')],
+    [step(1, 'click', '#accept-cookies'), step(2, 'click', 'e4'), step(3, 'getPageContext', 'current_page')]
+  );
+  assert(diff.added.join() === 'click(#accept-cookies)' && diff.removed.length === 0 && diff.kept === 2, `Unexpected diff: ${JSON.stringify(diff)}`);
+
+  const query = buildDivergenceReplanQuery(
+    'x'.repeat(6000),
+    { kind: 'login-wall', reason: 'Login wall detected in the URL', url: 'https://news.example.com/login' },
+    [{ toolName: 'navigate', params: { url: 'https://news.example.com' }, success: true }]
+  );
+  assert(query.length <= 5000, 'Query should fit the workflow input limit');
+  assert(query.includes('Login wall detected') && query.includes('navigate('), 'Query should carry the divergence and trajectory');
+  console.log('  ✓ Diff lists the new step, query stays under the limit');
+}
+
+async function testMonitorReplans() {
+  console.log('\n📋 Test: monitor replans in place when a login wall appears...');
+  const page = { url: 'https://news.example.com', title: 'News', text: 'Latest issues' };
+  const planning = makePlanning([
+    step(1, 'navigate', 'news.example.com'),
+    step(2, 'click', 'e4', 'Page shows "Issue #42"'),
+    step(3, 'getPageContext', 'current_page'),
+  ]);
+  const requests: DivergenceReplanRequest[] = [];
+  const revisions: PlanRevision[] = [];
+  const monitor = new PlanDivergenceMonitor({
+    planning,
+    getPageContext: async () => ({ ...page }),
+    replan: async (request) => {
+      requests.push(request);
+      return makePlanning([
+        step(1, 'click', '#sign-in-with-demo', 'Signed in'),
+        step(2, 'click', 'e4', 'Page shows "Issue #42"'),
+        step(3, 'getPageContext', 'current_page'),
+      ]);
+    },
+    onRevision: revision => revisions.push(revision),
+  });
+
+  const tools = withDivergenceMonitor<Record<string, any>>({
+    navigate: { description: 'Navigate', execute: async ({ url }: any) => ({ success: true, url }) },
+    click: {
+      description: 'Click',
+      execute: async () => {
+        page.url = 'https://news.example.com/login';
+        page.title = 'Sign in';
+        return { success: true };
+      },
+    },
+  }, monitor);
+
+  const first = await tools.navigate.execute({ url: 'https://news.example.com' }, {});
+  assert(!first.planRevision && requests.length === 0, 'A matching page should not replan');
+
+  const second = await tools.click.execute({ ref: 'e4' }, {});
+  assert(requests.length === 1 && requests[0].divergence.kind === 'login-wall', 'Login wall should trigger one replan');
+  assert(requests[0].trajectory.map(t => t.toolName).join() === 'navigate,click', 'Replan should get the trajectory so far');
+  assert(second.success && second.planRevision?.revisedPlan.includes('#sign-in-with-demo'), 'Tool output should carry the revised plan');
+  assert(planning.plan.steps[0].target === '#sign-in-with-demo', 'Planning artifact should be updated in place');
+  assert(revisions.length === 1 && revisions[0].diff.added.includes('click(#sign-in-with-demo)'), 'Revision should record the diff');
+
+  // Same wall on the same page: no second replan
+  await tools.click.execute({ ref: 'e4' }, {});
+  assert(requests.length === 1 && monitor.replanCount === 1, 'Same divergence should not replan twice');
+  console.log('  ✓ Replanned once, artifact and tool output updated');
+}
+
+async function run() {
+  console.log('🧪 Running plan divergence tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testBlockerDetection();
+    await testExpectedOutcome();
+    await testDiffAndQuery();
+    await testMonitorReplans();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All plan divergence tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ Plan divergence tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
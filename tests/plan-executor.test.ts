@@ -0,0 +1,223 @@
+// Unit tests for the plan-driven step executor (steps/plan-execution-step.ts)
+// Run with: npx tsx tests/plan-executor.test.ts (or via npm run test:plan-executor)
+
+import type { ExecutionPlan, PlanningInstruction } from '../types';
+import {
+  planExecutionStep,
+  instructionToToolCall,
+  checkValidationCriteria,
+  type PlanStepUpdate,
+} from '../steps/plan-execution-step';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+function step(
+  n: number,
+  action: PlanningInstruction['action'],
+  target: string,
+  extra: Partial<PlanningInstruction> = {}
+): PlanningInstruction {
+  return { step: n, action, target, reasoning: 'needed', expectedOutcome: 'it works', ...extra };
+}
+
+function makePlan(steps: PlanningInstruction[]): ExecutionPlan {
+  return {
+    objective: 'Search the docs for tabs',
+    approach: 'Open the docs site and use its search box',
+    steps,
+    criticalPaths: [1],
+    estimatedSteps: steps.length,
+    complexityScore: 0.3,
+    potentialIssues: [],
+    optimizations: [],
+  };
+}
+
+// Fake browser: navigate changes the page, typing into #search shows results.
+// getPageContext returns the content script's PageContext shape (text in textContent)
+function createFakeBrowser() {
+  const page = { url: 'about:blank', title: '', textContent: '' };
+  const calls: string[] = [];
+  const executeTool = async (toolName: string, params: any) => {
+    calls.push(toolName === 'getPageContext' ? 'ctx' : `${toolName}:${JSON.stringify(params)}`);
+    switch (toolName) {
+      case 'navigate':
+        page.url = params.url;
+        page.title = 'Docs';
+        page.textContent = 'Welcome to the docs';
+        return { success: true, url: page.url };
+      case 'type':
+        if (params.selector !== '#search') return { success: false, error: 'Element not found' };
+        page.textContent = `Results for ${params.text}`;
+        return { success: true };
+      case 'click':
+        return params.ref === 'e7' ? { success: true } : { success: false, error: 'Element not found' };
+      case 'getPageContext':
+        return { ...page };
+      default:
+        return { success: true };
+    }
+  };
+  return { page, calls, executeTool };
+}
+
+async function testInstructionMapping() {
+  console.log('\n📋 Test: plan instructions map to tool calls...');
+  assert(instructionToToolCall(step(1, 'navigate', 'docs.example.com')).params.url === 'https://docs.example.com', 'Bare domains should get https');
+  assert(instructionToToolCall(step(1, 'click', 'e12')).params.ref === 'e12', 'Element refs should map to ref');
+  const typed = instructionToToolCall(step(1, 'type', "input[name='q'] | chrome tabs"));
+  assert(typed.params.selector === "input[name='q']" && typed.params.text === 'chrome tabs', 'Type target should split into selector and text');
+  assert(instructionToToolCall(step(1, 'scroll', 'bottom')).params.direction === 'down', 'Scroll to bottom should scroll down');
+
+  let threw = false;
+  try {
+    instructionToToolCall(step(1, 'type', 'the search box'));
+  } catch {
+    threw = true;
+  }
+  assert(threw, 'Type without text should be rejected');
+  console.log('  ✓ navigate, click, type and scroll mapped');
+}
+
+async function testValidationHeuristics() {
+  console.log('\n📋 Test: validation criteria checked against page context...');
+  const page = { url: 'https://docs.example.com/search', title: 'Docs', textContent: 'Results for chrome tabs' };
+  assert(checkValidationCriteria('Page shows "Results for"', page)?.passed, 'Quoted phrase on page should pass');
+  assert(checkValidationCriteria('URL contains docs.example.com/search', page)?.passed, 'Matching URL should pass');
+  assert(checkValidationCriteria('Title is "Pricing"', page)?.passed === false, 'Missing phrase should fail');
+  assert(checkValidationCriteria('The results are sorted by relevance', page) === null, 'Vague criteria should be inconclusive');
+  console.log('  ✓ Phrases and URLs checked, vague criteria deferred');
+}
+
+async function testFallbackAndStatusUpdates() {
+  console.log('\n📋 Test: failed step runs its fallback, statuses stream...');
+  const browser = createFakeBrowser();
+  const updates: PlanStepUpdate[] = [];
+  const result = await planExecutionStep({
+    plan: makePlan([
+      step(1, 'navigate', 'https://docs.example.com', { validationCriteria: 'URL is docs.example.com' }),
+      step(2, 'type', 'input.search | tabs', {
+        validationCriteria: 'Page shows "Results for tabs"',
+        fallbackAction: { step: 2, action: 'type', target: '#search | tabs', reasoning: 'Try the id selector', expectedOutcome: '' },
+      }),
+    ]),
+    executeTool: browser.executeTool,
+    onStepUpdate: update => updates.push(update),
+  });
+
+  assert(result.completedAllSteps && result.finishReason === 'plan-complete', 'Plan should complete');
+  assert(result.stepResults[1].usedFallback, 'Second step should have used its fallback');
+  const statuses = updates.filter(u => u.taskId === 'plan-step-2').map(u => u.status).join(',');
+  assert(statuses === 'pending,in_progress,retrying,completed', `Unexpected status sequence: ${statuses}`);
+  assert(result.executionSteps.every(s => s.success), 'Execution steps should be reported for summarization');
+  console.log('  ✓ Fallback recovered the step');
+}
+
+async function testPartialReplan() {
+  console.log('\n📋 Test: unrecoverable step triggers a partial replan...');
+  const browser = createFakeBrowser();
+  const updates: PlanStepUpdate[] = [];
+  const replanRequests: any[] = [];
+  const result = await planExecutionStep({
+    plan: makePlan([
+      step(1, 'navigate', 'https://docs.example.com'),
+      step(2, 'click', '#missing-button'),
+      step(3, 'getPageContext', 'current_page'),
+    ]),
+    executeTool: browser.executeTool,
+    onStepUpdate: update => updates.push(update),
+    replan: async (request) => {
+      replanRequests.push(request);
+      return [step(1, 'click', 'e7'), step(2, 'type', '#search | tabs', { validationCriteria: 'Page shows "Results for tabs"' })];
+    },
+  });
+
+  assert(replanRequests.length === 1, 'Planner should be asked once');
+  assert(replanRequests[0].completedSteps.length === 1 && replanRequests[0].failedStep.target === '#missing-button', 'Replan should start from the failed step');
+  assert(result.completedAllSteps && result.replans === 1, 'Replanned steps should complete the run');
+  assert(updates.some(u => u.taskId === 'plan-step-3' && u.status === 'cancelled'), 'Superseded steps should be cancelled');
+  assert(result.stepResults.map(r => r.action).join(',') === 'navigate,click,click,type', 'Replacement steps should run after the failure');
+  console.log('  ✓ Replan replaced the rest of the plan');
+}
+
+async function testStopsWithoutReplan() {
+  console.log('\n📋 Test: execution stops when a step cannot be recovered...');
+  const browser = createFakeBrowser();
+  const result = await planExecutionStep({
+    plan: makePlan([step(1, 'click', '#missing-button'), step(2, 'getPageContext', 'current_page')]),
+    executeTool: browser.executeTool,
+  });
+  assert(!result.completedAllSteps && result.finishReason === 'plan-failed', 'Run should be marked failed');
+  assert(result.stepResults.length === 1 && result.stepResults[0].error === 'Element not found', 'Failure should carry the tool error');
+  console.log('  ✓ Stopped at the failed step');
+}
+
+async function testJudgeFailureIsNotAPass() {
+  console.log('\n📋 Test: a failing validation judge does not pass the step...');
+  const browser = createFakeBrowser();
+  const result = await planExecutionStep({
+    plan: makePlan([step(1, 'navigate', 'https://docs.example.com', { validationCriteria: 'The page looks like documentation' })]),
+    executeTool: browser.executeTool,
+    judgeValidation: async () => {
+      throw new Error('Model unavailable');
+    },
+  });
+  assert(!result.completedAllSteps && result.stepResults[0].success === false, 'Unvalidated step should fail');
+  assert(result.stepResults[0].error?.includes('Model unavailable'), `Failure should name the judge error: ${result.stepResults[0].error}`);
+  console.log('  ✓ Judge error fails the step');
+}
+
+async function testStopPolicyLimits() {
+  console.log('\n📋 Test: the stop policy ends plan execution between steps...');
+  const steps = [step(1, 'navigate', 'https://docs.example.com'), step(2, 'getPageContext', 'current_page'), step(3, 'getPageContext', 'current_page')];
+  const byTime = await planExecutionStep({
+    plan: makePlan(steps),
+    executeTool: createFakeBrowser().executeTool,
+    stopPolicy: { maxSteps: 10, maxWallTimeMs: 60_000 },
+    runStartedAt: Date.now() - 120_000,
+  });
+  assert(byTime.stopReason?.kind === 'max-wall-time' && byTime.stepResults.length === 0, 'Wall time should stop before the first step');
+  assert(byTime.finishReason === 'stop-policy' && byTime.fullText.includes('Stopped: Ran for'), 'Result should say why it stopped');
+
+  let tokens = 0;
+  const byTokens = await planExecutionStep({
+    plan: makePlan(steps),
+    executeTool: async (toolName, params) => {
+      tokens += 600;
+      return createFakeBrowser().executeTool(toolName, params);
+    },
+    stopPolicy: { maxSteps: 10, maxTokens: 1000 },
+    getUsage: () => ({ inputTokens: tokens, outputTokens: 0 }),
+  });
+  assert(byTokens.stopReason?.kind === 'max-tokens' && byTokens.stepResults.length === 1, `Token limit should stop after one step, got ${byTokens.stepResults.length}`);
+  assert(byTokens.usage?.totalTokens === tokens, 'Usage should be reported');
+
+  const bySteps = await planExecutionStep({ plan: makePlan(steps), executeTool: createFakeBrowser().executeTool, stopPolicy: { maxSteps: 2 } });
+  assert(bySteps.stopReason?.kind === 'max-steps' && bySteps.stopReason.stepCount === 2, 'Step limit should stop after two steps');
+  console.log('  ✓ Wall time, tokens and steps enforced');
+}
+
+async function run() {
+  console.log('🧪 Running plan executor tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testInstructionMapping();
+    await testValidationHeuristics();
+    await testFallbackAndStatusUpdates();
+    await testPartialReplan();
+    await testStopsWithoutReplan();
+    await testJudgeFailureIsNotAPass();
+    await testStopPolicyLimits();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All plan executor tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ Plan executor tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
@@ -0,0 +1,186 @@
+// Unit tests for scheduled tasks (lib/scheduler.ts)
+// Run with: npx tsx tests/scheduler.test.ts (or via npm run test:scheduler)
+
+import {
+  computeNextRun,
+  validateSchedule,
+  validateSiteAccess,
+  diffResults,
+  syncScheduleAlarm,
+  runScheduledTask,
+  restoreScheduleAlarms,
+  createScheduledTask,
+  createMemoryScheduleStore,
+  taskIdFromAlarm,
+  alarmNameForTask,
+  type AlarmApi,
+  type ScheduledRun,
+  type ScheduledTask,
+} from '../lib/scheduler';
+import { WorkflowStreamHub, collectWorkflowRun } from '../lib/workflow-stream';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+function createFakeAlarms() {
+  const alarms = new Map<string, number>();
+  const api: AlarmApi = {
+    create: (name, info) => { alarms.set(name, info.when); },
+    clear: async (name) => alarms.delete(name),
+  };
+  return { alarms, api };
+}
+
+async function testNextRun() {
+  console.log('\n📋 Test: next run times for intervals and daily schedules...');
+  const monday9 = new Date(2026, 0, 5, 9, 0).getTime(); // Monday
+  assert(computeNextRun({ kind: 'interval', everyMinutes: 30 }, monday9) === monday9 + 30 * 60_000, 'Interval adds minutes');
+
+  const later = computeNextRun({ kind: 'daily', time: '08:30' }, monday9);
+  assert(new Date(later).getDate() === 6 && new Date(later).getHours() === 8, 'A time already past today runs tomorrow');
+  const today = computeNextRun({ kind: 'daily', time: '17:00' }, monday9);
+  assert(new Date(today).getDate() === 5 && new Date(today).getHours() === 17, 'A time still ahead runs today');
+
+  const weekend = computeNextRun({ kind: 'daily', time: '10:00', weekdays: [6] }, monday9);
+  assert(new Date(weekend).getDay() === 6 && new Date(weekend).getDate() === 10, 'Weekdays skip to the next allowed day');
+
+  assert(validateSchedule({ kind: 'interval', everyMinutes: 1 })?.includes('at least'), 'Too-short intervals are rejected');
+  assert(validateSchedule({ kind: 'daily', time: '25:00' }) === 'Time must be HH:MM', 'Bad times are rejected');
+  assert(validateSchedule({ kind: 'daily', time: '07:15', weekdays: [1, 2] }) === null, 'Valid schedule passes');
+  assert(validateSiteAccess([{ origin: 'https://status.example.com', access: 'read' }]) === null, 'Web sites can be granted');
+  assert(validateSiteAccess([{ origin: 'file:///home', access: 'read' }])?.startsWith('file:///home'), 'Other addresses are rejected');
+  console.log('  ✓ Interval, today, tomorrow and weekday cases');
+}
+
+async function testDiff() {
+  console.log('\n📋 Test: result diff ignores whitespace and order...');
+  const diff = diffResults('- API: operational\n- Login: degraded', '- Login:  degraded\n- API: operational\n- Billing: outage');
+  assert(diff.added.join() === '- Billing: outage' && diff.removed.length === 0, `Unexpected diff: ${JSON.stringify(diff)}`);
+  console.log('  ✓ Only the new incident line reported');
+}
+
+async function testAlarmSync() {
+  console.log('\n📋 Test: alarm follows enabled state and next run...');
+  const { alarms, api } = createFakeAlarms();
+  const task = createScheduledTask({ name: 'Status', query: 'Check status', schedule: { kind: 'interval', everyMinutes: 60 } });
+  assert(taskIdFromAlarm(alarmNameForTask(task.id)) === task.id && taskIdFromAlarm('other') === null, 'Alarm names round-trip');
+
+  const synced = await syncScheduleAlarm(task, api, 1_000);
+  assert(alarms.get(alarmNameForTask(task.id)) === 1_000 + 3_600_000 && synced.nextRunAt === 1_000 + 3_600_000, 'Alarm set for the next run');
+
+  const disabled = await syncScheduleAlarm({ ...synced, enabled: false }, api, 2_000);
+  assert(!alarms.has(alarmNameForTask(task.id)) && disabled.nextRunAt === undefined, 'Disabling clears the alarm');
+  console.log('  ✓ Alarm created and cleared');
+}
+
+async function testRunHistory() {
+  console.log('\n📋 Test: runs recorded with diffs and notifications...');
+  const store = createMemoryScheduleStore();
+  const { alarms, api } = createFakeAlarms();
+  const task: ScheduledTask = createScheduledTask({
+    name: 'Status',
+    query: 'Summarize new incidents',
+    schedule: { kind: 'interval', everyMinutes: 60 },
+    targetUrl: 'https://status.example.com',
+  });
+  await store.putTask(task);
+
+  const answers = ['- API: operational', '- API: operational', '- API: degraded'];
+  const queries: string[] = [];
+  const notified: ScheduledRun[] = [];
+  const deps = {
+    store,
+    alarms: api,
+    startRun: async (t: ScheduledTask, onStarted: (id: string) => void) => {
+      queries.push(t.query);
+      onStarted(`chat_${queries.length}`);
+      const answer = answers.shift();
+      if (!answer) throw new Error('Model unavailable');
+      return answer;
+    },
+    notify: (_t: ScheduledTask, run: ScheduledRun) => { notified.push(run); },
+  };
+
+  const first = await runScheduledTask(task.id, deps);
+  assert(first?.status === 'completed' && first.diff === undefined, 'First run has nothing to compare with');
+  const second = await runScheduledTask(task.id, deps);
+  assert(second?.changed === false, 'Same answer is no change');
+  const third = await runScheduledTask(task.id, deps);
+  assert(third?.changed && third.diff?.added[0] === '- API: degraded', 'Changed line reported');
+  const fourth = await runScheduledTask(task.id, deps);
+  assert(fourth?.status === 'failed' && fourth.error === 'Model unavailable', 'Errors are recorded');
+
+  // Default rule is on-change: the change and the failure notify, the others don't
+  assert(notified.map(r => r.status).join() === 'completed,failed', `Unexpected notifications: ${notified.map(r => r.status)}`);
+
+  const history = await store.listRuns(task.id);
+  assert(history.length === 4 && history[0].id === fourth!.id, 'History is newest first');
+  assert(history.every(r => r.workflowRunId), 'Workflow run ids are kept');
+  const saved = await store.getTask(task.id);
+  assert(saved?.lastRunAt && alarms.has(alarmNameForTask(task.id)), 'Next alarm set after each run');
+  console.log('  ✓ Four runs: first, unchanged, changed, failed');
+}
+
+async function testInterruptedRun() {
+  console.log('\n📋 Test: next alarm armed before the run, cut-off runs failed...');
+  const store = createMemoryScheduleStore();
+  const { alarms, api } = createFakeAlarms();
+  const task = createScheduledTask({ name: 'Prices', query: 'Check prices', schedule: { kind: 'interval', everyMinutes: 30 } });
+  await store.putTask(task);
+
+  let armedDuringRun = false;
+  await runScheduledTask(task.id, {
+    store,
+    alarms: api,
+    startRun: async () => {
+      armedDuringRun = alarms.has(alarmNameForTask(task.id));
+      return 'done';
+    },
+  });
+  assert(armedDuringRun, 'Alarm armed before the run started');
+  console.log('  ✓ A worker stopped mid-run still leaves the next alarm');
+
+  // A run left as running by a worker that was stopped
+  await store.putRun({ id: 'srun_stale', taskId: task.id, status: 'running', startedAt: 1_000 });
+  await restoreScheduleAlarms(store, api);
+  const stale = (await store.listRuns(task.id)).find(r => r.id === 'srun_stale');
+  assert(stale?.status === 'failed' && stale.finishedAt && stale.error?.startsWith('Interrupted'), 'Stale run failed on restore');
+  console.log('  ✓ Runs cut off by a stopped worker are marked failed');
+}
+
+async function testCollectRun() {
+  console.log('\n📋 Test: background run collected from the stream hub...');
+  const hub = new WorkflowStreamHub(0);
+  hub.open('run1');
+  const collected = collectWorkflowRun('run1', hub);
+  hub.publish('run1', { type: 'message-start', messageId: 'm1', message: { id: 'm1', role: 'assistant', content: '' } });
+  hub.publish('run1', { type: 'text-delta', messageId: 'm1', delta: 'Two incidents' });
+  hub.publish('run1', { type: 'workflow-complete', result: undefined });
+  hub.end('run1');
+  const { messages, error } = await collected;
+  assert(messages[0]?.content === 'Two incidents' && !error, 'Messages should be folded from chunks');
+  console.log('  ✓ Final assistant message available');
+}
+
+async function run() {
+  console.log('🧪 Running scheduler tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testNextRun();
+    await testDiff();
+    await testAlarmSync();
+    await testRunHistory();
+    await testInterruptedRun();
+    await testCollectRun();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All scheduler tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ Scheduler tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
@@ -0,0 +1,118 @@
+// Unit tests for per-run stop policies (lib/stop-policy.ts)
+// Run with: npx tsx tests/stop-policy.test.ts (or via npm run test:stop-policy)
+
+import {
+  DEFAULT_STOP_POLICY,
+  resolveStopPolicy,
+  createStopPolicyTracker,
+  estimateRunCostUsd,
+} from '../lib/stop-policy';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+// Minimal AI SDK step result: one tool call and its output
+function step(toolName: string, input: any, output: any, tokens = 100) {
+  return {
+    text: '',
+    toolCalls: [{ toolName, input }],
+    toolResults: [{ toolName, output }],
+    usage: { inputTokens: tokens, outputTokens: tokens / 10 },
+  };
+}
+
+async function shouldStop(tracker: ReturnType<typeof createStopPolicyTracker>, steps: any[]) {
+  const results = await Promise.all(tracker.stopWhen.map(condition => condition({ steps } as any)));
+  return results.some(Boolean);
+}
+
+async function testResolve() {
+  console.log('\n📋 Test: policy layers merge over the defaults...');
+  const policy = resolveStopPolicy({ maxSteps: 30, maxCostUsd: 0.5 }, { maxSteps: 10, maxTokens: undefined });
+  assert(policy.maxSteps === 10, 'Per-task maxSteps should win over settings');
+  assert(policy.maxCostUsd === 0.5, 'Settings values should survive');
+  assert(policy.maxErrorRatio === DEFAULT_STOP_POLICY.maxErrorRatio, 'Unset fields should keep the default');
+  assert(resolveStopPolicy().maxSteps === 8 && resolveStopPolicy().maxTokens === undefined, 'Default is 8 steps with no token cap');
+  assert(resolveStopPolicy({ maxSteps: 0 }).maxSteps === DEFAULT_STOP_POLICY.maxSteps, 'maxSteps 0 should be ignored');
+  assert(resolveStopPolicy({ maxSteps: -3, maxCostUsd: -1 }).maxCostUsd === undefined, 'Negative values should be ignored');
+  const off = resolveStopPolicy({ maxTokens: 5000, maxErrorRatio: 0.5 }, { maxTokens: 0, maxErrorRatio: 0 });
+  assert(off.maxTokens === undefined && off.maxErrorRatio === undefined, '0 should turn an optional limit off');
+  assert(resolveStopPolicy({ detectLoops: false }).detectLoops === false, 'Boolean overrides should apply');
+  console.log('  ✓ Settings, then per-task overrides');
+}
+
+async function testStepAndTokenLimits() {
+  console.log('\n📋 Test: step and token limits report why they stopped...');
+  const steps = [step('navigate', { url: 'https://a.example' }, { success: true })];
+  const byStep = createStopPolicyTracker(resolveStopPolicy({ maxSteps: 2 }));
+  assert(!(await shouldStop(byStep, steps)), 'Below the limit should continue');
+  steps.push(step('click', { ref: 'e1' }, { success: true }));
+  assert(await shouldStop(byStep, steps), 'Reaching maxSteps should stop');
+  assert(byStep.getStopReason()?.kind === 'max-steps' && byStep.getStopReason()?.stepCount === 2, 'Reason should name the step limit');
+
+  const byTokens = createStopPolicyTracker(resolveStopPolicy({ maxTokens: 150 }));
+  assert(await shouldStop(byTokens, steps), 'Exceeding the token budget should stop');
+  const reason = byTokens.getStopReason();
+  assert(reason?.kind === 'max-tokens' && reason.message.includes('220'), `Unexpected reason: ${JSON.stringify(reason)}`);
+  console.log('  ✓ Steps and tokens enforced');
+}
+
+async function testLoopAndErrors() {
+  console.log('\n📋 Test: loops and failing tools stop the run...');
+  const loop = createStopPolicyTracker(resolveStopPolicy({ maxTokens: 1e9 }));
+  const visits = [1, 2, 3].map(() => step('navigate', { url: 'https://same.example' }, { success: true }));
+  assert(await shouldStop(loop, visits), 'Three visits to one URL should stop');
+  assert(loop.getStopReason()?.kind === 'navigation-loop', 'Reason should be the loop');
+
+  const errors = createStopPolicyTracker(resolveStopPolicy({ maxTokens: 1e9, maxErrorRatio: 0.5 }));
+  const failing = [
+    step('click', { ref: 'e1' }, { success: false, error: 'Element not found' }),
+    step('click', { ref: 'e2' }, { success: true }),
+    step('click', { ref: 'e3' }, { success: false, error: 'Element not found' }),
+  ];
+  assert(await shouldStop(errors, failing), 'Two of three failures should pass a 50% ratio');
+  assert(errors.getStopReason()?.message === '2 of the last 3 tool calls failed', 'Reason should count the failures');
+
+  const disabled = createStopPolicyTracker(resolveStopPolicy({ maxTokens: 1e9, detectLoops: false }));
+  assert(!(await shouldStop(disabled, visits)), 'Loop detection should be switchable');
+  console.log('  ✓ Loop and error ratio enforced');
+}
+
+async function testWallTimeAndCost() {
+  console.log('\n📋 Test: wall time and cost limits...');
+  const steps = [step('navigate', { url: 'https://a.example' }, { success: true }, 1_000_000)];
+  const slow = createStopPolicyTracker(resolveStopPolicy({ maxTokens: 1e9, maxWallTimeMs: 1000 }), { startedAt: Date.now() - 5000 });
+  assert(await shouldStop(slow, steps), 'A run past its wall time should stop');
+  assert(slow.getStopReason()?.kind === 'max-wall-time', 'Reason should be the wall time');
+
+  const cost = estimateRunCostUsd('google/gemini-2.5-flash', steps);
+  assert(typeof cost === 'number' && cost > 0, 'Known model should have a cost estimate');
+  const pricey = createStopPolicyTracker(resolveStopPolicy({ maxTokens: 1e9, maxCostUsd: 0.1 }), { modelId: 'google/gemini-2.5-flash' });
+  assert(await shouldStop(pricey, steps), 'Spending past maxCostUsd should stop');
+  assert(pricey.getStopReason()?.kind === 'max-cost', 'Reason should be the cost limit');
+
+  const unknown = createStopPolicyTracker(resolveStopPolicy({ maxTokens: 1e9, maxCostUsd: 0.1 }), { modelId: 'acme/unknown-model' });
+  assert(!(await shouldStop(unknown, steps)), 'Unknown pricing should not stop the run');
+  console.log('  ✓ Wall time and cost enforced');
+}
+
+async function run() {
+  console.log('🧪 Running stop policy tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testResolve();
+    await testStepAndTokenLimits();
+    await testLoopAndErrors();
+    await testWallTimeAndCost();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All stop policy tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ Stop policy tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
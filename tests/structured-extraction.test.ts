@@ -0,0 +1,221 @@
+// Unit tests for structured extraction (lib/structured-extraction.ts, steps/extraction-step.ts)
+// Run with: npx tsx tests/structured-extraction.test.ts (or via npm run test:structured-extraction)
+
+import {
+  parseItemSchema,
+  jsonSchemaToZod,
+  validateItems,
+  dedupeItems,
+  datasetToCSV,
+  datasetToJSONLines,
+  datasetToMarkdownTable,
+  createSavedExtractionSchema,
+  createMemoryExtractionSchemaStore,
+  toExtractionRequest,
+  type JsonSchema,
+} from '../lib/structured-extraction';
+import { extractionStep, findNextPageUrl, type PageExtractor } from '../steps/extraction-step';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const PRODUCT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    price: { type: 'number' },
+    inStock: { type: 'boolean' },
+    url: { type: 'string', format: 'uri' },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['title', 'url'],
+};
+
+async function testSchemas() {
+  console.log('\n📋 Test: JSON Schema parsing and zod validation...');
+  const item = parseItemSchema(JSON.stringify({ type: 'array', items: PRODUCT_SCHEMA }));
+  assert(Object.keys(item.properties!).join() === 'title,price,inStock,url,tags', 'Array schemas unwrap to their item');
+
+  for (const bad of ['not json', '[]', '{"type":"string"}']) {
+    let threw = false;
+    try {
+      parseItemSchema(bad);
+    } catch {
+      threw = true;
+    }
+    assert(threw, `Rejects ${bad}`);
+  }
+
+  const { valid, invalid } = validateItems([
+    { title: 'Desk', price: '$1,299.00', inStock: 'yes', url: 'https://shop.example.com/desk', tags: ['office'] },
+    { title: 'Lamp', price: null, url: 'https://shop.example.com/lamp', extra: 'dropped' },
+    { title: '', url: 'https://shop.example.com/blank' },
+    { title: 'Chair', url: 'not a url' },
+    'just text',
+  ], jsonSchemaToZod(item));
+
+  assert(valid.length === 2 && invalid.length === 3, `Two valid rows, got ${valid.length}`);
+  assert(valid[0].price === 1299 && valid[0].inStock === true, 'Price and stock coerced from page text');
+  assert(!('extra' in valid[1]), 'Unknown fields are dropped');
+  assert(invalid[1].error.startsWith('url:'), `Error names the field: ${invalid[1].error}`);
+
+  const enumValidator = jsonSchemaToZod({ type: 'object', properties: { status: { enum: ['open', 'closed'] } }, required: ['status'] });
+  assert(enumValidator.safeParse({ status: 'open' }).success && !enumValidator.safeParse({ status: 'maybe' }).success, 'Enums checked');
+  console.log('  ✓ Parsing, coercion and validation');
+}
+
+async function testDedupeAndExport() {
+  console.log('\n📋 Test: deduplication and export formats...');
+  const seen = new Set<string>();
+  const first = dedupeItems([
+    { title: 'Desk', url: 'https://a.example/desk' },
+    { url: 'https://a.example/desk', title: 'Desk' },
+  ], seen);
+  assert(first.unique.length === 1 && first.duplicates === 1, 'Key order does not make a new row');
+
+  const byKey = dedupeItems([
+    { title: 'Desk ', url: 'x', price: 1 },
+    { title: 'desk', url: 'y', price: 2 },
+  ], new Set(), ['title']);
+  assert(byKey.unique.length === 1, 'Key fields compare trimmed and case-insensitively');
+
+  const dataset = {
+    name: 'Products',
+    columns: ['title', 'price', 'tags'],
+    rows: [
+      { title: 'Desk, oak', price: 1299, tags: ['office'] },
+      { title: 'Lamp "LED"', price: null },
+      { title: 'A | B', price: 5 },
+    ],
+  };
+  const csv = datasetToCSV(dataset).split('\n');
+  assert(csv[0] === 'title,price,tags', 'CSV header');
+  assert(csv[1] === '"Desk, oak",1299,"[""office""]"', `CSV quotes commas and quotes: ${csv[1]}`);
+  assert(csv[2] === '"Lamp ""LED""",,', 'Missing values are empty cells');
+  assert(datasetToJSONLines(dataset).split('\n').length === 3, 'One JSON object per line');
+  assert(JSON.parse(datasetToJSONLines(dataset).split('\n')[0]).price === 1299, 'JSON Lines keep types');
+  const markdown = datasetToMarkdownTable(dataset).split('\n');
+  assert(markdown[1] === '| --- | --- | --- |' && markdown[4] === '| A \\| B | 5 |  |', `Markdown table escapes pipes: ${markdown[4]}`);
+  console.log('  ✓ Dedupe, CSV, JSON Lines and Markdown');
+}
+
+async function testSavedSchemas() {
+  console.log('\n📋 Test: saved schemas...');
+  const store = createMemoryExtractionSchemaStore();
+  const saved = createSavedExtractionSchema({ name: ' Products ', schema: PRODUCT_SCHEMA, keyFields: ['url', 'missing'], maxPages: 500 });
+  await store.put(saved);
+  const loaded = await store.get(saved.id);
+  assert(loaded?.name === 'Products' && loaded.keyFields?.join() === 'url' && loaded.maxPages === 50, 'Name trimmed, unknown keys dropped, pages clamped');
+  const request = toExtractionRequest(loaded!);
+  assert(request.schema === PRODUCT_SCHEMA && request.keyFields?.join() === 'url', 'Request carries the schema and keys');
+  await store.delete(saved.id);
+  assert((await store.list()).length === 0, 'Deleted');
+  console.log('  ✓ Store and request');
+}
+
+// Fake catalogue with three pages; page 3's "Next" loops back to page 1
+function createFakeCatalogue() {
+  const pages: Record<string, { items: unknown[]; links: Array<{ text: string; href: string }> }> = {
+    'https://shop.example.com/list?page=1': {
+      items: [
+        { title: 'Desk', price: '100', url: 'https://shop.example.com/desk' },
+        { title: 'Lamp', price: '20', url: 'https://shop.example.com/lamp' },
+        { title: 'Broken', url: 'nope' },
+      ],
+      links: [{ text: 'About', href: '/about' }, { text: 'Next ›', href: '/list?page=2' }],
+    },
+    'https://shop.example.com/list?page=2': {
+      items: [
+        { title: 'Lamp', price: '20', url: 'https://shop.example.com/lamp' },
+        { title: 'Chair', price: '50', url: 'https://shop.example.com/chair' },
+      ],
+      links: [],
+    },
+    'https://shop.example.com/list?page=3': {
+      items: [{ title: 'Rug', price: '80', url: 'https://shop.example.com/rug' }],
+      links: [{ text: 'Next', href: '/list?page=1' }],
+    },
+  };
+  let current = 'https://shop.example.com/list?page=1';
+  const navigations: string[] = [];
+  const pageTexts: Array<string | undefined> = [];
+  const executeTool = async (toolName: string, params: any) => {
+    if (toolName === 'navigate') {
+      navigations.push(params.url);
+      current = params.url;
+      return { success: true, url: current };
+    }
+    // Same shape as the content script's PageContext
+    return { url: current, title: 'Catalogue', textContent: `items on ${current}`.slice(0, params.maxTextLength), links: pages[current].links };
+  };
+  // The model points at page 3 from page 2, where the page has no "Next" link
+  const extractPage: PageExtractor = async (page) => {
+    pageTexts.push(page.text);
+    return {
+      items: pages[page.url].items,
+      nextPageUrl: page.url.endsWith('page=2') ? '/list?page=3' : null,
+    };
+  };
+  return { executeTool, extractPage, navigations, pageTexts };
+}
+
+async function testExtractionStep() {
+  console.log('\n📋 Test: extraction follows pagination...');
+  assert(findNextPageUrl([{ text: 'Next article', href: '/a' }, { text: '»', href: '?p=2' }], 'https://x.example/list') === 'https://x.example/list?p=2', 'Next link resolved');
+
+  const catalogue = createFakeCatalogue();
+  const progress: number[] = [];
+  const dataset = await extractionStep({
+    request: { name: 'Products', schema: PRODUCT_SCHEMA, keyFields: ['url'] },
+    executeTool: catalogue.executeTool,
+    extractPage: catalogue.extractPage,
+    onProgress: (partial) => progress.push(partial.rows.length),
+  });
+
+  assert(dataset.rows.map(r => r.title).join() === 'Desk,Lamp,Chair,Rug', `Rows across pages: ${dataset.rows.map(r => r.title)}`);
+  assert(dataset.rows[0].price === 100, 'Rows are typed');
+  assert(dataset.duplicateCount === 1 && dataset.invalidCount === 1, 'Duplicate and invalid rows counted');
+  assert(dataset.invalidSamples[0].error.startsWith('url:'), 'Invalid sample kept');
+  assert(dataset.stoppedBecause === 'no-next-page', `Loop back to page 1 is not followed: ${dataset.stoppedBecause}`);
+  assert(catalogue.navigations.length === 2, 'Navigated to pages 2 and 3');
+  assert(catalogue.pageTexts[0] === 'items on https://shop.example.com/list?page=1', `Page text passed to the model: ${catalogue.pageTexts[0]}`);
+  assert(progress.join() === '2,3,4', 'Progress after each page');
+  assert(dataset.columns.join() === 'title,price,inStock,url,tags', 'Columns from the schema');
+
+  const limited = createFakeCatalogue();
+  const firstPage = await extractionStep({
+    request: { name: 'Products', schema: PRODUCT_SCHEMA, maxPages: 1 },
+    executeTool: limited.executeTool,
+    extractPage: limited.extractPage,
+  });
+  assert(firstPage.stoppedBecause === 'max-pages' && firstPage.rows.length === 2, 'Page limit respected');
+
+  const failing = await extractionStep({
+    request: { name: 'Products', schema: PRODUCT_SCHEMA },
+    executeTool: createFakeCatalogue().executeTool,
+    extractPage: async () => { throw new Error('model unavailable'); },
+  });
+  assert(failing.stoppedBecause === 'error' && failing.error === 'model unavailable', 'Errors end the step with a reason');
+  console.log('  ✓ Pagination, dedupe across pages, limits and errors');
+}
+
+async function run() {
+  console.log('🧪 Running structured extraction tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testSchemas();
+    await testDedupeAndExport();
+    await testSavedSchemas();
+    await testExtractionStep();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All structured extraction tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ Structured extraction tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
@@ -0,0 +1,131 @@
+// Unit tests for durable workflow step checkpoints (lib/workflow-journal.ts)
+// Run with: npx tsx tests/workflow-journal.test.ts (or via npm run test:workflow-journal)
+
+import {
+  WorkflowJournal,
+  createMemoryJournalStore,
+  getJournalRun,
+  pruneWorkflowJournal,
+} from '../lib/workflow-journal';
+import { useStep } from '../lib/workflow-utils';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const store = createMemoryJournalStore();
+const messages = [{ id: 'm1', role: 'user' as const, content: 'Find the cheapest flight' }];
+
+async function testStepsReplayAfterInterruption() {
+  console.log('\n📋 Test: completed steps replay, incomplete step re-runs...');
+  const calls: string[] = [];
+
+  // First execution: planning completes, streaming is cut off mid-step
+  const first = await WorkflowJournal.open('run-1', { messages, store });
+  await useStep('planning', async () => {
+    calls.push('planning');
+    return { steps: ['navigate', 'click'] };
+  }, { journal: first, journalInput: { userQuery: 'Find the cheapest flight' } });
+  await first.start('streaming-0', { retryCount: 0 });
+
+  // Service worker restarts: reopen from storage
+  const resumed = await WorkflowJournal.open('run-1', { store });
+  assert(resumed.resumed, 'Reopened journal should be marked as resumed');
+  assert(resumed.messages[0]?.content === 'Find the cheapest flight', 'Run messages should be recovered');
+
+  const planning = await useStep('planning', async () => {
+    calls.push('planning');
+    return { steps: [] as string[] };
+  }, { journal: resumed });
+  assert(planning.replayed && planning.result.steps.length === 2, 'Planning should be replayed from the journal');
+
+  const streaming = await useStep('streaming-0', async () => {
+    calls.push('streaming');
+    return { fullText: 'done' };
+  }, { journal: resumed });
+  assert(!streaming.replayed && streaming.result.fullText === 'done', 'Incomplete step should run again');
+  assert(calls.join(',') === 'planning,streaming', `Unexpected executions: ${calls.join(',')}`);
+  console.log('  ✓ Planning replayed, streaming continued');
+}
+
+async function testFailedStepIsRetriedOnResume() {
+  console.log('\n📋 Test: failed steps are not replayed...');
+  const journal = await WorkflowJournal.open('run-2', { messages, store });
+  let threw = false;
+  try {
+    await useStep('evaluation-0', async () => {
+      throw new Error('model unavailable');
+    }, { journal });
+  } catch {
+    threw = true;
+  }
+  assert(threw, 'Step error should propagate');
+
+  const resumed = await WorkflowJournal.open('run-2', { store });
+  assert(!resumed.getCompleted('evaluation-0'), 'Failed step should not be replayable');
+  console.log('  ✓ Failed step re-runs on resume');
+}
+
+async function testToolCallsReplayUntilDivergence() {
+  console.log('\n📋 Test: journaled tool calls replay until the first mismatch...');
+  const executed: string[] = [];
+  const executeTool = async (toolName: string, params: any) => {
+    executed.push(`${toolName}:${JSON.stringify(params)}`);
+    return { success: true, toolName, at: executed.length };
+  };
+
+  const first = await WorkflowJournal.open('run-3', { messages, store });
+  await first.start('streaming-0');
+  const firstTools = first.wrapExecuteTool(executeTool);
+  await firstTools('navigate', { url: 'https://example.com' });
+  await firstTools('click', { ref: 'e4' });
+  await firstTools('getPageContext', {});
+  executed.length = 0;
+
+  const resumed = await WorkflowJournal.open('run-3', { store });
+  assert(resumed.getCompletedToolCalls().length === 3, 'Completed tool calls should be listed for the prompt');
+  await resumed.start('streaming-0');
+  const resumedTools = resumed.wrapExecuteTool(executeTool);
+  const replayed = await resumedTools('navigate', { url: 'https://example.com' });
+  assert(replayed.at === 1 && executed.length === 0, 'Matching call should be replayed without executing');
+  await resumedTools('click', { ref: 'e9' });
+  await resumedTools('getPageContext', {});
+  assert(executed.length === 2, 'Calls after a mismatch should all execute live');
+
+  // A new streaming attempt gets its own tool sequence
+  await resumed.start('streaming-1');
+  await resumedTools('navigate', { url: 'https://example.com' });
+  assert(resumed.getCompleted('streaming-1/tool-0'), 'Tool calls should be keyed under the active step');
+  console.log('  ✓ Replay stops at divergence');
+}
+
+async function testRunStatusAndPrune() {
+  console.log('\n📋 Test: run status and pruning...');
+  const journal = await WorkflowJournal.open('run-4', { messages, store });
+  await journal.finish('completed');
+  assert((await getJournalRun('run-4', store))?.status === 'completed', 'Run status should be persisted');
+
+  const pruned = await pruneWorkflowJournal(-1, store);
+  assert(pruned === 4 && !(await getJournalRun('run-1', store)), 'Stale runs should be pruned');
+  console.log('  ✓ Status persisted, stale runs pruned');
+}
+
+async function run() {
+  console.log('🧪 Running workflow journal tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testStepsReplayAfterInterruption();
+    await testFailedStepIsRetriedOnResume();
+    await testToolCallsReplayUntilDivergence();
+    await testRunStatusAndPrune();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All workflow journal tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ Workflow journal tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
@@ -0,0 +1,174 @@
+// Unit tests for port-based workflow output streaming (lib/workflow-stream.ts)
+// Run with: npx tsx tests/workflow-stream.test.ts (or via npm run test:workflow-stream)
+
+import type { Message } from '../types';
+import {
+  WorkflowStreamHub,
+  applyWorkflowStreamChunk,
+  attachWorkflowStreamPort,
+  createHubReadableStream,
+  createStreamingMessageWriter,
+  readWorkflowStream,
+  type IndexedWorkflowStreamChunk,
+  type WorkflowStreamServerMessage,
+} from '../lib/workflow-stream';
+
+function assert(condition: any, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+// Minimal chrome.runtime.Port pair half: what the background sees
+function createMockPort() {
+  const messageListeners: Array<(message: any) => void> = [];
+  const disconnectListeners: Array<() => void> = [];
+  const received: WorkflowStreamServerMessage[] = [];
+  const port = {
+    name: 'workflow-stream',
+    postMessage: (message: WorkflowStreamServerMessage) => received.push(message),
+    onMessage: { addListener: (fn: (message: any) => void) => messageListeners.push(fn) },
+    onDisconnect: { addListener: (fn: () => void) => disconnectListeners.push(fn) },
+  };
+  return {
+    port: port as unknown as chrome.runtime.Port,
+    received,
+    send: (message: any) => messageListeners.forEach(fn => fn(message)),
+    disconnect: () => disconnectListeners.forEach(fn => fn()),
+  };
+}
+
+function runWorkflowOutput(hub: WorkflowStreamHub, runId: string) {
+  const writer = createStreamingMessageWriter(runId, hub);
+  writer.pushMessage({ id: 'a1', role: 'assistant', content: '' });
+  writer.updateLastMessage(msg => ({ ...msg, content: 'Opening ' }));
+  writer.updateLastMessage(msg => ({ ...msg, content: msg.content + 'example.com', reasoning: ['Need the homepage'] }));
+  writer.updateLastMessage(msg => ({
+    ...msg,
+    toolExecutions: [{ toolCallId: 't1', toolName: 'navigate', state: 'input-available', input: { url: 'https://example.com' } }],
+  }));
+  writer.updateLastMessage(msg => ({
+    ...msg,
+    toolExecutions: [{ ...msg.toolExecutions![0], state: 'output-available', output: { success: true } }],
+    workflowTasks: [{ id: 'task-1', title: 'Open site', status: 'completed' }],
+  }));
+  return writer;
+}
+
+async function testChunksRebuildMessages() {
+  console.log('\n📋 Test: chunks rebuild the background messages...');
+  const hub = new WorkflowStreamHub();
+  hub.open('run-1');
+  const received: IndexedWorkflowStreamChunk[] = [];
+  hub.subscribe('run-1', 0, { onChunk: c => received.push(c), onEnd: () => {} });
+
+  const writer = runWorkflowOutput(hub, 'run-1');
+  const types = received.map(c => c.chunk.type);
+  assert(types.includes('text-delta') && types.includes('reasoning-delta'), `Expected deltas, got ${types.join(',')}`);
+  assert(types.filter(t => t === 'tool-state').length === 2, 'Each tool state change should be one chunk');
+  assert(received.every((c, i) => c.index === i), 'Indices should be sequential');
+
+  const rebuilt = received.reduce<Message[]>((messages, c) => applyWorkflowStreamChunk(messages, c.chunk), []);
+  assert(JSON.stringify(rebuilt) === JSON.stringify(writer.messages), 'Folded chunks should equal the source messages');
+  console.log(`  ✓ ${received.length} chunks reproduce the message`);
+}
+
+async function testReconnectFromIndex() {
+  console.log('\n📋 Test: a reopened sidepanel resumes from its last index...');
+  const hub = new WorkflowStreamHub(0);
+  hub.open('run-2');
+
+  const first = createMockPort();
+  attachWorkflowStreamPort(first.port, hub);
+  first.send({ type: 'subscribe', workflowRunId: 'run-2', fromIndex: 0 });
+  const writer = createStreamingMessageWriter('run-2', hub);
+  writer.pushMessage({ id: 'a1', role: 'assistant', content: 'Step 1' });
+  writer.updateLastMessage(msg => ({ ...msg, content: msg.content + ', step 2' }));
+
+  // Sidepanel closes; the run keeps producing output
+  first.disconnect();
+  writer.updateLastMessage(msg => ({ ...msg, content: msg.content + ', step 3' }));
+  assert(first.received.length === 2, 'A disconnected port should not receive chunks');
+
+  const lastSeen = (first.received[first.received.length - 1] as any).index;
+  const second = createMockPort();
+  attachWorkflowStreamPort(second.port, hub);
+  second.send({ type: 'subscribe', workflowRunId: 'run-2', fromIndex: lastSeen + 1 });
+  hub.publish('run-2', { type: 'workflow-complete', result: 'done' });
+  hub.end('run-2');
+
+  const indices = second.received.filter(m => m.type === 'chunk').map(m => (m as any).index);
+  assert(indices.join(',') === '2,3', `Expected only missed and live chunks, got ${indices.join(',')}`);
+  const end = second.received[second.received.length - 1];
+  assert(end.type === 'end' && end.lastIndex === 3, 'Stream should end with the last index');
+  console.log('  ✓ Missed chunks replayed, nothing duplicated');
+}
+
+async function testFinishedAndUnknownRuns() {
+  console.log('\n📋 Test: finished runs replay, unknown runs are reported...');
+  const hub = new WorkflowStreamHub(0);
+  hub.open('run-3');
+  hub.publish('run-3', { type: 'error', errorText: 'Settings not available' });
+  hub.end('run-3');
+
+  const decoder = new TextDecoder();
+  const reader = createHubReadableStream('run-3', 0, hub).getReader();
+  let text = '';
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    text += decoder.decode(result.value);
+  }
+  assert(text.includes('"index":0') && text.includes('"type":"error"'), 'Buffered chunk should be streamed as SSE');
+  assert(text.endsWith('data: [DONE]\n\n'), 'Finished stream should close with [DONE]');
+
+  await new Promise(resolve => setTimeout(resolve, 5));
+  const port = createMockPort();
+  attachWorkflowStreamPort(port.port, hub);
+  port.send({ type: 'subscribe', workflowRunId: 'run-3', fromIndex: 0 });
+  assert(port.received[0]?.type === 'not-found', 'Evicted run should be reported as not found');
+  console.log('  ✓ Replay after finish, not-found after eviction');
+}
+
+async function testClientReadsStream() {
+  console.log('\n📋 Test: the sidepanel reads the SSE stream back into messages...');
+  const hub = new WorkflowStreamHub(0);
+  hub.open('run-4');
+  const writer = runWorkflowOutput(hub, 'run-4');
+  hub.end('run-4');
+
+  // Split the bytes mid-event, as a port-fed stream may deliver them
+  const bytes = new Uint8Array(await new Response(createHubReadableStream('run-4', 0, hub)).arrayBuffer());
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes.slice(0, 37));
+      controller.enqueue(bytes.slice(37));
+      controller.close();
+    },
+  });
+  const received: IndexedWorkflowStreamChunk[] = [];
+  await readWorkflowStream(stream, c => received.push(c));
+  assert(received.every((c, i) => c.index === i) && received.length > 0, 'Chunks should arrive in order');
+
+  // A reopened panel replays from 0 over what it restored; message-start replaces, never duplicates
+  const restored: Message[] = [{ id: 'u1', role: 'user', content: 'Open example.com' }, { id: 'a1', role: 'assistant', content: 'Open' }];
+  const rebuilt = received.reduce<Message[]>((messages, c) => applyWorkflowStreamChunk(messages, c.chunk), restored);
+  assert(rebuilt.length === 2 && JSON.stringify(rebuilt[1]) === JSON.stringify(writer.messages[0]), 'Replay should rebuild the run without duplicates');
+  console.log(`  ✓ ${received.length} chunks decoded across split reads`);
+}
+
+async function run() {
+  console.log('🧪 Running workflow stream tests...');
+  console.log('='.repeat(50));
+
+  try {
+    await testChunksRebuildMessages();
+    await testReconnectFromIndex();
+    await testFinishedAndUnknownRuns();
+    await testClientReadsStream();
+
+    console.log('\n' + '='.repeat(50));
+    console.log('\n✅ All workflow stream tests passed!\n');
+  } catch (err) {
+    console.error('\n❌ Workflow stream tests failed:', err);
+    process.exit(1);
+  }
+}
+
+await run();
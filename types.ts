@@ -5,6 +5,14 @@ export type ToolMode = 'tool-router';
 
 export type ComputerUseEngine = 'google' | 'gateway-flash-lite';
 
+// How click/fill/press_key reach the page: synthetic DOM events from the content script,
+// trusted input through chrome.debugger (CDP), or synthetic with a CDP retry when nothing changed
+export type InputBackend = 'synthetic' | 'cdp' | 'auto';
+
+// How the plan is carried out: a free-form tool-calling agent loop, or the plan
+// executor that runs each planned step, validates it and replans on failure
+export type ExecutionMode = 'agent' | 'plan';
+
 export interface Settings {
   provider: 'google' | 'gateway' | 'nim' | 'openrouter';
   apiKey: string;
@@ -21,6 +29,18 @@ export interface Settings {
   computerUseEngine?: ComputerUseEngine;
   // Devtools
   devtoolsEnabled?: boolean;
+  // Browser input (optional; defaults to 'auto')
+  inputBackend?: InputBackend;
+  trustedInputSites?: string[]; // Hostnames that always get trusted (CDP) input, e.g. "docs.google.com"
+  // Execution (optional; defaults to 'agent')
+  executionMode?: ExecutionMode;
+  backgroundRuns?: boolean; // Run tasks in the background service worker so they outlive the sidepanel
+  // Run limits (optional; unset fields use the defaults in lib/stop-policy)
+  stopPolicy?: Partial<import('./lib/stop-policy').StopPolicy>;
+  // Redaction of personal data and secrets (optional; on for every kind by default)
+  redaction?: import('./lib/redaction').RedactionSettings;
+  // How long the guardrails audit log is kept (optional; defaults in lib/audit-store)
+  auditRetention?: import('./lib/audit-store').AuditRetention;
 }
 
 export interface ComposioSession {
@@ -68,8 +88,18 @@ export interface Message {
   }>;
   // Artifact views for orchestration outputs
   planning?: import('./schemas/workflow-schemas').PlanningStepOutput;
+  // Mid-run replans triggered by the page diverging from the plan
+  planRevisions?: import('./lib/plan-divergence').PlanRevision[];
+  // Why the agent loop was cut short by its stop policy, if it was
+  stopReason?: import('./lib/stop-policy').StopReason;
+  // Questions the agent asked through askUser, with the answer once given
+  userQuestions?: Array<import('./lib/ask-user').AskUserRequest & { answer?: import('./lib/ask-user').AskUserAnswer }>;
+  // Macro recorded from this run's tool executions
+  savedMacroId?: string;
   pageContext?: import('./schemas/workflow-schemas').PageContextStepOutput;
   summarization?: import('./schemas/workflow-schemas').SummarizationStepOutput;
+  // Rows extracted with the task's attached JSON Schema
+  dataset?: import('./schemas/workflow-schemas').ExtractionStepOutput;
   errorAnalysis?: {
     recap: string;
     blame: string;
@@ -135,6 +165,129 @@ export interface PageContext {
   };
 }
 
+/**
+ * Node in the accessibility snapshot returned by the content script.
+ * `ref` (e.g. "e12") can be passed to click/type/hover/dragDrop in place of a selector
+ * and stays valid until the page navigates.
+ */
+export interface AxNode {
+  ref: string;
+  role: string;
+  name: string;
+  value?: string;
+  states?: string[];
+  frame?: string; // Frame path for nodes inside iframes, e.g. 'iframe#checkout' or 'f12' for cross-origin frames
+  children?: AxNode[];
+}
+
+export interface AxSnapshot {
+  url: string;
+  title: string;
+  nodes: AxNode[];
+  text: string; // Indented outline, one node per line, ready for prompts
+  refCount: number;
+  truncated: boolean;
+  session: string; // Changes whenever refs are renumbered; refs only carry over within one session
+  timestamp: number;
+}
+
+// Tabular data found by content.ts EXTRACT_TABLES: an HTML table, an ARIA grid or
+// a run of repeated cards/list items. Cells are keyed by the normalized headers.
+export interface ExtractedTableRow {
+  ref: string; // Row element ref, usable by click/type like snapshot refs
+  cells: Record<string, string>;
+  links?: string[];
+}
+
+export interface ExtractedTable {
+  kind: 'table' | 'grid' | 'list';
+  ref: string; // Container element ref
+  caption?: string;
+  headers: string[];
+  rows: ExtractedTableRow[];
+  rowCount: number; // Rows on the page; more than rows.length when truncated
+  truncated: boolean;
+  frame?: string;
+}
+
+export interface TableExtraction {
+  url: string;
+  title: string;
+  tables: ExtractedTable[];
+  timestamp: number;
+}
+
+// A composer attachment on its way to an <input type=file> (content.ts upload_file)
+export interface UploadFilePayload {
+  name: string;
+  type: string;
+  size: number;
+  data: string; // Base64
+}
+
+// Main content of a page as Markdown, from content.ts GET_MAIN_CONTENT. `source` says how
+// the content block was found: a semantic container, readability scoring, or the whole body.
+export interface MainContent {
+  url: string;
+  title: string;
+  byline?: string;
+  siteName?: string;
+  excerpt?: string;
+  markdown: string;
+  source: 'semantic' | 'scored' | 'body';
+  timestamp: number;
+}
+
+// One chunk of MainContent, as returned by the getPageContent tool (chunks are numbered from 1)
+export interface PageContent extends Omit<MainContent, 'markdown'> {
+  markdown: string; // This chunk only
+  chunk: number;
+  totalChunks: number;
+  totalLength: number; // Characters of Markdown across all chunks
+  section?: string; // Heading the chunk continues under, when it starts mid-section
+  hasMore: boolean;
+}
+
+// Element as captured by the demonstration recorder in content.ts: enough to find it
+// again (selector, role and name) and to explain it (own and surrounding text)
+export interface ElementDescriptor {
+  tag: string;
+  role?: string;
+  name?: string; // Accessible name
+  selector: string;
+  id?: string;
+  testId?: string;
+  attributes?: Record<string, string>; // name, type, placeholder, href
+  text?: string;
+  context?: string; // Nearest label, legend or heading around the element
+}
+
+export type DemonstrationEventType = 'click' | 'type' | 'select' | 'keypress' | 'scroll' | 'navigate';
+
+export interface DemonstrationEvent {
+  id: string;
+  type: DemonstrationEventType;
+  timestamp: number;
+  url: string;
+  title?: string;
+  element?: ElementDescriptor;
+  value?: string; // Typed text, selected option or key; masked for password fields
+  sensitive?: boolean;
+  scroll?: { x: number; y: number; direction: 'up' | 'down' };
+}
+
+// A watched region as captured by content.ts: its visible text lines and one line
+// per structural element (heading, list item, table row, image, control)
+export interface RegionSnapshot {
+  url: string;
+  title?: string;
+  selector?: string;
+  found: boolean;
+  text: string[];
+  structure: string[];
+  capturedAt: number;
+}
+
 export interface BrowserMemory {
   recentPages: Array<{
     url: string;
@@ -350,7 +503,7 @@ export const ScreenshotResponseSchema = z.object({
 export interface PlanningInstruction {
   step: number;
   action: 'navigate' | 'click' | 'type' | 'scroll' | 'wait' | 'getPageContext';
-  target: string;
+  target: string; // URL, element ref (e.g. "e12"), selector, or description
   reasoning: string;
   expectedOutcome: string;
   validationCriteria?: string;